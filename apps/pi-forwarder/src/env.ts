@@ -1,19 +1,29 @@
 import { z } from 'zod';
 
-const envSchema = z.object({
-  API_BASE_URL: z.string().url(),
-  INGEST_API_KEY: z.string().min(1),
-  DEVICE_HINT: z.string().optional(),
-  SOURCE: z.enum(['cli', 'stdin']),
-  MESHTASTIC_PORT: z.string().optional(),
-  MESHTASTIC_HOST: z.string().optional(),
-  CLI_PATH: z.string().default('meshtastic'),
-  POLL_HEARTBEAT_SECONDS: z.coerce.number().int().positive().default(60),
-  POST_TIMEOUT_MS: z.coerce.number().int().positive().default(8000),
-  RETRY_BASE_MS: z.coerce.number().int().positive().default(500),
-  RETRY_MAX_MS: z.coerce.number().int().positive().default(10000),
-  MAX_QUEUE: z.coerce.number().int().positive().default(5000)
-});
+const envSchema = z
+  .object({
+    API_BASE_URL: z.string().url(),
+    INGEST_API_KEY: z.string().min(1),
+    DEVICE_HINT: z.string().optional(),
+    SOURCE: z.enum(['cli', 'stdin', 'tcp']),
+    MESHTASTIC_PORT: z.string().optional(),
+    MESHTASTIC_HOST: z.string().optional(),
+    CLI_PATH: z.string().default('meshtastic'),
+    POLL_HEARTBEAT_SECONDS: z.coerce.number().int().positive().default(60),
+    POST_TIMEOUT_MS: z.coerce.number().int().positive().default(8000),
+    RETRY_BASE_MS: z.coerce.number().int().positive().default(500),
+    RETRY_MAX_MS: z.coerce.number().int().positive().default(10000),
+    MAX_QUEUE: z.coerce.number().int().positive().default(5000)
+  })
+  .superRefine((env, ctx) => {
+    if (env.SOURCE === 'tcp' && !env.MESHTASTIC_HOST) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['MESHTASTIC_HOST'],
+        message: 'Required when SOURCE=tcp'
+      });
+    }
+  });
 
 export type ForwarderConfig = z.infer<typeof envSchema>;
 export class ForwarderConfigError extends Error {}
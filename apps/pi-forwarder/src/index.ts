@@ -3,6 +3,7 @@ import { createLogger } from './logger';
 import { createPoster } from './poster';
 import { runCliListenSource } from './sources/cli_listen';
 import { runStdinSource } from './sources/stdin';
+import { parseMeshtasticHost, runTcpSource } from './sources/tcp';
 
 async function main(): Promise<void> {
   const config = loadConfig();
@@ -46,10 +47,19 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (config.SOURCE === 'tcp' && config.MESHTASTIC_HOST) {
+    await runTcpSource({
+      logger,
+      onEvent: poster.enqueue,
+      ...parseMeshtasticHost(config.MESHTASTIC_HOST)
+    });
+    return;
+  }
+
   if (config.MESHTASTIC_HOST) {
     logger.info(
       { meshtasticHost: config.MESHTASTIC_HOST },
-      'MESHTASTIC_HOST is configured but not used yet in cli mode'
+      'MESHTASTIC_HOST is only used with SOURCE=tcp; ignoring it in cli mode'
     );
   }
 
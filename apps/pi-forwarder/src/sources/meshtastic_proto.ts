@@ -0,0 +1,375 @@
+import {
+  readProtoFields,
+  toBool,
+  toBytes,
+  toFloat,
+  toInt32,
+  toSint32,
+  toText,
+  toUint32,
+  type ProtoField
+} from '../../../../src/common/meshtastic/protobuf-wire';
+
+/**
+ * Minimal protobuf support for the Meshtastic stream API: decodes `FromRadio` (and the
+ * MeshPacket payloads we forward) and encodes the two `ToRadio` messages the TCP source sends.
+ * Packets come out in the shape the Meshtastic Python client publishes (camelCase keys, enum
+ * names, bytes as base64, `fromId`/`toId`, position degrees), i.e. what `cli_listen` emits.
+ */
+
+type EnumNames = { enum: Record<number, string> };
+type MessageSpec = { message: Record<number, [string, FieldKind]> };
+type FieldKind = 'uint32' | 'int32' | 'sint32' | 'float' | 'bool' | 'string' | 'bytes' | EnumNames | MessageSpec;
+
+export type FromRadio = {
+  packet?: Record<string, unknown>;
+  myInfo?: { myNodeNum?: number };
+  nodeInfo?: Record<string, unknown>;
+  configCompleteId?: number;
+  rebooted?: boolean;
+};
+
+const BROADCAST_NODE = 0xffffffff;
+
+const PORTNUM_NAMES: Record<number, string> = {
+  0: 'UNKNOWN_APP',
+  1: 'TEXT_MESSAGE_APP',
+  2: 'REMOTE_HARDWARE_APP',
+  3: 'POSITION_APP',
+  4: 'NODEINFO_APP',
+  5: 'ROUTING_APP',
+  6: 'ADMIN_APP',
+  7: 'TEXT_MESSAGE_COMPRESSED_APP',
+  8: 'WAYPOINT_APP',
+  9: 'AUDIO_APP',
+  10: 'DETECTION_SENSOR_APP',
+  32: 'REPLY_APP',
+  33: 'IP_TUNNEL_APP',
+  34: 'PAXCOUNTER_APP',
+  64: 'SERIAL_APP',
+  65: 'STORE_FORWARD_APP',
+  66: 'RANGE_TEST_APP',
+  67: 'TELEMETRY_APP',
+  68: 'ZPS_APP',
+  69: 'SIMULATOR_APP',
+  70: 'TRACEROUTE_APP',
+  71: 'NEIGHBORINFO_APP',
+  72: 'ATAK_PLUGIN',
+  73: 'MAP_REPORT_APP',
+  256: 'PRIVATE_APP',
+  257: 'ATAK_FORWARDER'
+};
+
+// Common boards only; other models keep their numeric value.
+const HW_MODEL_NAMES: Record<number, string> = {
+  0: 'UNSET',
+  4: 'TBEAM',
+  7: 'T_ECHO',
+  9: 'RAK4631',
+  10: 'HELTEC_V2_1',
+  12: 'LILYGO_TBEAM_S3_CORE',
+  16: 'TLORA_T3_S3',
+  18: 'NANO_G2_ULTRA',
+  25: 'STATION_G1',
+  31: 'STATION_G2',
+  43: 'HELTEC_V3',
+  44: 'HELTEC_WSL_V3',
+  48: 'HELTEC_WIRELESS_TRACKER',
+  50: 'T_DECK',
+  69: 'HELTEC_MESH_NODE_T114',
+  70: 'SENSECAP_INDICATOR',
+  71: 'TRACKER_T1000_E',
+  255: 'PRIVATE_HW'
+};
+
+const ROLE_NAMES: Record<number, string> = {
+  0: 'CLIENT',
+  1: 'CLIENT_MUTE',
+  2: 'ROUTER',
+  3: 'ROUTER_CLIENT',
+  4: 'REPEATER',
+  5: 'TRACKER',
+  6: 'SENSOR',
+  7: 'TAK',
+  8: 'CLIENT_HIDDEN',
+  9: 'LOST_AND_FOUND',
+  10: 'TAK_TRACKER',
+  11: 'ROUTER_LATE',
+  12: 'CLIENT_BASE'
+};
+
+const POSITION: MessageSpec = {
+  message: {
+    1: ['latitudeI', 'int32'],
+    2: ['longitudeI', 'int32'],
+    3: ['altitude', 'int32'],
+    4: ['time', 'uint32'],
+    5: ['locationSource', { enum: { 0: 'LOC_UNSET', 1: 'LOC_MANUAL', 2: 'LOC_INTERNAL', 3: 'LOC_EXTERNAL' } }],
+    6: [
+      'altitudeSource',
+      { enum: { 0: 'ALT_UNSET', 1: 'ALT_MANUAL', 2: 'ALT_INTERNAL', 3: 'ALT_EXTERNAL', 4: 'ALT_BAROMETRIC' } }
+    ],
+    7: ['timestamp', 'uint32'],
+    8: ['timestampMillisAdjust', 'int32'],
+    9: ['altitudeHae', 'sint32'],
+    10: ['altitudeGeoidalSeparation', 'sint32'],
+    11: ['PDOP', 'uint32'],
+    12: ['HDOP', 'uint32'],
+    13: ['VDOP', 'uint32'],
+    14: ['gpsAccuracy', 'uint32'],
+    15: ['groundSpeed', 'uint32'],
+    16: ['groundTrack', 'uint32'],
+    17: ['fixQuality', 'uint32'],
+    18: ['fixType', 'uint32'],
+    19: ['satsInView', 'uint32'],
+    20: ['sensorId', 'uint32'],
+    21: ['nextUpdate', 'uint32'],
+    22: ['seqNumber', 'uint32'],
+    23: ['precisionBits', 'uint32']
+  }
+};
+
+const USER: MessageSpec = {
+  message: {
+    1: ['id', 'string'],
+    2: ['longName', 'string'],
+    3: ['shortName', 'string'],
+    4: ['macaddr', 'bytes'],
+    5: ['hwModel', { enum: HW_MODEL_NAMES }],
+    6: ['isLicensed', 'bool'],
+    7: ['role', { enum: ROLE_NAMES }],
+    8: ['publicKey', 'bytes']
+  }
+};
+
+const DEVICE_METRICS: MessageSpec = {
+  message: {
+    1: ['batteryLevel', 'uint32'],
+    2: ['voltage', 'float'],
+    3: ['channelUtilization', 'float'],
+    4: ['airUtilTx', 'float'],
+    5: ['uptimeSeconds', 'uint32']
+  }
+};
+
+const TELEMETRY: MessageSpec = {
+  message: {
+    1: ['time', 'uint32'],
+    2: ['deviceMetrics', DEVICE_METRICS],
+    3: [
+      'environmentMetrics',
+      {
+        message: {
+          1: ['temperature', 'float'],
+          2: ['relativeHumidity', 'float'],
+          3: ['barometricPressure', 'float'],
+          4: ['gasResistance', 'float'],
+          5: ['voltage', 'float'],
+          6: ['current', 'float']
+        }
+      }
+    ]
+  }
+};
+
+const DATA: MessageSpec = {
+  message: {
+    1: ['portnum', { enum: PORTNUM_NAMES }],
+    2: ['payload', 'bytes'],
+    3: ['wantResponse', 'bool'],
+    4: ['dest', 'uint32'],
+    5: ['source', 'uint32'],
+    6: ['requestId', 'uint32'],
+    7: ['replyId', 'uint32'],
+    8: ['emoji', 'uint32'],
+    9: ['bitfield', 'uint32']
+  }
+};
+
+const MESH_PACKET: MessageSpec = {
+  message: {
+    1: ['from', 'uint32'],
+    2: ['to', 'uint32'],
+    3: ['channel', 'uint32'],
+    4: ['decoded', DATA],
+    5: ['encrypted', 'bytes'],
+    6: ['id', 'uint32'],
+    7: ['rxTime', 'uint32'],
+    8: ['rxSnr', 'float'],
+    9: ['hopLimit', 'uint32'],
+    10: ['wantAck', 'bool'],
+    12: ['rxRssi', 'int32'],
+    14: ['viaMqtt', 'bool'],
+    15: ['hopStart', 'uint32'],
+    16: ['publicKey', 'bytes'],
+    17: ['pkiEncrypted', 'bool'],
+    18: ['nextHop', 'uint32'],
+    19: ['relayNode', 'uint32'],
+    20: ['txAfter', 'uint32'],
+    21: [
+      'transportMechanism',
+      {
+        enum: {
+          0: 'TRANSPORT_INTERNAL',
+          1: 'TRANSPORT_LORA',
+          2: 'TRANSPORT_LORA_ALT1',
+          3: 'TRANSPORT_LORA_ALT2',
+          4: 'TRANSPORT_LORA_ALT3',
+          5: 'TRANSPORT_MQTT',
+          6: 'TRANSPORT_MULTICAST_UDP',
+          7: 'TRANSPORT_API'
+        }
+      }
+    ]
+  }
+};
+
+const FROM_RADIO: MessageSpec = {
+  message: {
+    1: ['id', 'uint32'],
+    2: ['packet', MESH_PACKET],
+    3: ['myInfo', { message: { 1: ['myNodeNum', 'uint32'] } }],
+    4: [
+      'nodeInfo',
+      {
+        message: {
+          1: ['num', 'uint32'],
+          2: ['user', USER],
+          3: ['position', POSITION],
+          4: ['snr', 'float'],
+          5: ['lastHeard', 'uint32'],
+          6: ['deviceMetrics', DEVICE_METRICS]
+        }
+      }
+    ],
+    7: ['configCompleteId', 'uint32'],
+    8: ['rebooted', 'bool']
+  }
+};
+
+const PORT_PAYLOADS: Record<string, [string, MessageSpec]> = {
+  POSITION_APP: ['position', POSITION],
+  NODEINFO_APP: ['user', USER],
+  TELEMETRY_APP: ['telemetry', TELEMETRY]
+};
+
+/** Throws on malformed input. */
+export function decodeFromRadio(buffer: Buffer): FromRadio {
+  const message = decodeMessage(buffer, FROM_RADIO) as FromRadio;
+  if (message.packet) {
+    message.packet = toClientPacket(message.packet);
+  }
+  return message;
+}
+
+/** `ToRadio.want_config_id`: asks the node for its config, after which it streams packets. */
+export function encodeWantConfig(nonce: number): Buffer {
+  return Buffer.concat([encodeVarint((3 << 3) | 0), encodeVarint(nonce >>> 0)]);
+}
+
+/** `ToRadio.heartbeat`: an empty message that keeps the API connection alive. */
+export function encodeHeartbeat(): Buffer {
+  return Buffer.concat([encodeVarint((7 << 3) | 2), encodeVarint(0)]);
+}
+
+function toClientPacket(packet: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...packet };
+  if (typeof packet.from === 'number') {
+    result.fromId = formatNodeId(packet.from);
+  }
+  if (typeof packet.to === 'number') {
+    result.toId = packet.to === BROADCAST_NODE ? '^all' : formatNodeId(packet.to);
+  }
+  if (packet.decoded && typeof packet.decoded === 'object') {
+    result.decoded = expandPortPayload(packet.decoded as Record<string, unknown>);
+  }
+  return result;
+}
+
+function expandPortPayload(decoded: Record<string, unknown>): Record<string, unknown> {
+  const portnum = decoded.portnum;
+  const payload = typeof decoded.payload === 'string' ? Buffer.from(decoded.payload, 'base64') : null;
+  if (typeof portnum !== 'string' || !payload) {
+    return decoded;
+  }
+
+  if (portnum === 'TEXT_MESSAGE_APP') {
+    return { ...decoded, text: payload.toString('utf8') };
+  }
+  const target = PORT_PAYLOADS[portnum];
+  if (!target) {
+    return decoded;
+  }
+  const [key, spec] = target;
+  try {
+    const value = decodeMessage(payload, spec);
+    if (key === 'position') {
+      if (typeof value.latitudeI === 'number') {
+        value.latitude = value.latitudeI / 1e7;
+      }
+      if (typeof value.longitudeI === 'number') {
+        value.longitude = value.longitudeI / 1e7;
+      }
+    }
+    return { ...decoded, [key]: value };
+  } catch {
+    // Keep the raw payload when the app message does not parse.
+    return decoded;
+  }
+}
+
+function formatNodeId(node: number): string {
+  return `!${(node >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+function decodeMessage(buffer: Buffer, spec: MessageSpec): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (const field of readProtoFields(buffer)) {
+    const entry = spec.message[field.field];
+    if (!entry) {
+      continue;
+    }
+    const [name, kind] = entry;
+    const value = decodeField(field, kind);
+    if (value !== null) {
+      record[name] = value;
+    }
+  }
+  return record;
+}
+
+function decodeField(field: ProtoField, kind: FieldKind): unknown {
+  switch (kind) {
+    case 'uint32':
+      return toUint32(field);
+    case 'int32':
+      return toInt32(field);
+    case 'sint32':
+      return toSint32(field);
+    case 'float':
+      return toFloat(field);
+    case 'bool':
+      return toBool(field);
+    case 'string':
+      return toText(field);
+    case 'bytes':
+      return toBytes(field)?.toString('base64') ?? null;
+  }
+  if ('enum' in kind) {
+    const value = toUint32(field);
+    return value === null ? null : kind.enum[value] ?? value;
+  }
+  const bytes = toBytes(field);
+  return bytes ? decodeMessage(bytes, kind) : null;
+}
+
+function encodeVarint(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value >>> 0;
+  while (remaining > 0x7f) {
+    bytes.push((remaining & 0x7f) | 0x80);
+    remaining >>>= 7;
+  }
+  bytes.push(remaining);
+  return Buffer.from(bytes);
+}
@@ -0,0 +1,225 @@
+import net from 'node:net';
+import type { Logger } from 'pino';
+import { decodeFromRadio, encodeHeartbeat, encodeWantConfig } from './meshtastic_proto';
+import type { SourceHandler } from './stdin';
+
+type TcpSourceOptions = {
+  logger: Logger;
+  onEvent: SourceHandler;
+  host: string;
+  port: number;
+  connectTimeoutMs?: number;
+};
+
+// Meshtastic stream API framing: START1 START2, then a big-endian uint16 length and a protobuf.
+const FRAME_START1 = 0x94;
+const FRAME_START2 = 0xc3;
+const FRAME_HEADER_LENGTH = 4;
+const MAX_FRAME_LENGTH = 512;
+
+// A node that is off the network leaves the SYN unanswered for minutes; give up sooner and back off.
+const CONNECT_TIMEOUT_MS = 10000;
+const BASE_RESTART_MS = 2000;
+const MAX_RESTART_MS = 30000;
+// The node drops API clients that stay silent for 15 minutes.
+const HEARTBEAT_INTERVAL_MS = 300000;
+const KEEPALIVE_DELAY_MS = 30000;
+const DECODE_ERROR_DEBUG_EVERY = 100;
+
+export const DEFAULT_MESHTASTIC_TCP_PORT = 4403;
+
+/** Splits `host`, `host:port` or `[ipv6]:port` into a host and port. */
+export function parseMeshtasticHost(value: string): { host: string; port: number } {
+  const trimmed = value.trim();
+  const bracketed = /^\[([^\]]+)\](?::(\d+))?$/.exec(trimmed);
+  if (bracketed) {
+    return { host: bracketed[1], port: bracketed[2] ? Number(bracketed[2]) : DEFAULT_MESHTASTIC_TCP_PORT };
+  }
+  const hostPort = /^([^:]+):(\d+)$/.exec(trimmed);
+  if (hostPort) {
+    return { host: hostPort[1], port: Number(hostPort[2]) };
+  }
+  return { host: trimmed, port: DEFAULT_MESHTASTIC_TCP_PORT };
+}
+
+export async function runTcpSource(options: TcpSourceOptions): Promise<void> {
+  let stopRequested = false;
+  let activeSocket: net.Socket | null = null;
+  let restartDelayMs = BASE_RESTART_MS;
+
+  const requestStop = () => {
+    stopRequested = true;
+    activeSocket?.destroy();
+  };
+
+  process.once('SIGINT', requestStop);
+  process.once('SIGTERM', requestStop);
+
+  try {
+    while (!stopRequested) {
+      options.logger.info({ host: options.host, port: options.port }, 'Connecting to Meshtastic TCP API');
+
+      const result = await runConnection(options, (socket) => {
+        activeSocket = socket;
+      });
+
+      activeSocket = null;
+      if (stopRequested) {
+        break;
+      }
+      if (result.packets > 0) {
+        restartDelayMs = BASE_RESTART_MS;
+      }
+
+      options.logger.error(
+        {
+          host: options.host,
+          port: options.port,
+          error: result.error,
+          packets: result.packets,
+          restartDelayMs
+        },
+        'Meshtastic TCP connection closed unexpectedly; reconnecting'
+      );
+
+      await sleep(restartDelayMs);
+      restartDelayMs = Math.min(MAX_RESTART_MS, restartDelayMs * 2);
+    }
+  } finally {
+    process.removeListener('SIGINT', requestStop);
+    process.removeListener('SIGTERM', requestStop);
+  }
+}
+
+/** Runs one connection until the socket closes, including when it never finishes connecting. */
+export async function runConnection(
+  options: TcpSourceOptions,
+  onConnect: (socket: net.Socket) => void
+): Promise<{ error: string | null; packets: number }> {
+  const socket = net.createConnection({ host: options.host, port: options.port });
+  onConnect(socket);
+
+  const connectTimeoutMs = options.connectTimeoutMs ?? CONNECT_TIMEOUT_MS;
+  const connectTimer = setTimeout(() => {
+    socket.destroy(new Error(`Timed out connecting after ${connectTimeoutMs} ms`));
+  }, connectTimeoutMs);
+
+  let buffer: Buffer = Buffer.alloc(0);
+  let packets = 0;
+  let decodeErrors = 0;
+  let lastError: string | null = null;
+  let heartbeat: NodeJS.Timeout | null = null;
+  // Packets are handed on one at a time, in the order the node sent them.
+  let pending = Promise.resolve();
+
+  const handleFrame = (frame: Buffer) => {
+    let message: ReturnType<typeof decodeFromRadio>;
+    try {
+      message = decodeFromRadio(frame);
+    } catch (error) {
+      decodeErrors += 1;
+      if (decodeErrors % DECODE_ERROR_DEBUG_EVERY === 1) {
+        options.logger.debug(
+          { decodeErrors, error: error instanceof Error ? error.message : String(error) },
+          'Ignoring FromRadio frame that does not decode'
+        );
+      }
+      return;
+    }
+
+    if (message.myInfo?.myNodeNum !== undefined) {
+      options.logger.info({ myNodeNum: message.myInfo.myNodeNum }, 'Connected to Meshtastic node');
+    }
+    if (message.configCompleteId !== undefined) {
+      options.logger.info('Meshtastic node config received; listening for packets');
+    }
+    if (message.rebooted) {
+      options.logger.warn('Meshtastic node rebooted');
+    }
+    const packet = message.packet;
+    if (!packet) {
+      return;
+    }
+    packets += 1;
+    pending = pending.then(() =>
+      options.onEvent(packet).catch((error: unknown) => {
+        options.logger.error({ err: error }, 'Failed to hand off Meshtastic packet');
+      })
+    );
+  };
+
+  socket.setKeepAlive(true, KEEPALIVE_DELAY_MS);
+  socket.on('connect', () => {
+    clearTimeout(connectTimer);
+    options.logger.info({ host: options.host, port: options.port }, 'Meshtastic TCP connection open');
+    socket.write(frameToRadio(encodeWantConfig(Math.floor(Math.random() * 0xffffffff))));
+    heartbeat = setInterval(() => {
+      socket.write(frameToRadio(encodeHeartbeat()));
+    }, HEARTBEAT_INTERVAL_MS);
+  });
+  socket.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    buffer = extractFrames(buffer, handleFrame);
+  });
+
+  await new Promise<void>((resolve) => {
+    socket.on('error', (error) => {
+      lastError = error.message;
+    });
+    socket.once('close', () => resolve());
+  });
+
+  clearTimeout(connectTimer);
+  if (heartbeat) {
+    clearInterval(heartbeat);
+  }
+  await pending;
+  return { error: lastError, packets };
+}
+
+/**
+ * Hands every complete frame in `buffer` to `onFrame` and returns the unconsumed tail.
+ * Bytes outside frames (the node's debug log output) are skipped, as are frames whose
+ * length is out of range, by resyncing on the next start marker.
+ */
+export function extractFrames(buffer: Buffer, onFrame: (frame: Buffer) => void): Buffer {
+  let offset = 0;
+  while (offset < buffer.length) {
+    if (buffer[offset] !== FRAME_START1) {
+      offset += 1;
+      continue;
+    }
+    if (offset + 1 >= buffer.length) {
+      break;
+    }
+    if (buffer[offset + 1] !== FRAME_START2) {
+      offset += 1;
+      continue;
+    }
+    if (offset + FRAME_HEADER_LENGTH > buffer.length) {
+      break;
+    }
+    const length = buffer.readUInt16BE(offset + 2);
+    if (length > MAX_FRAME_LENGTH) {
+      offset += 1;
+      continue;
+    }
+    const end = offset + FRAME_HEADER_LENGTH + length;
+    if (end > buffer.length) {
+      break;
+    }
+    onFrame(buffer.subarray(offset + FRAME_HEADER_LENGTH, end));
+    offset = end;
+  }
+  return buffer.subarray(offset);
+}
+
+function frameToRadio(message: Buffer): Buffer {
+  const header = Buffer.from([FRAME_START1, FRAME_START2, 0, 0]);
+  header.writeUInt16BE(message.length, 2);
+  return Buffer.concat([header, message]);
+}
+
+async function sleep(ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
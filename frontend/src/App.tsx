@@ -3,8 +3,10 @@ import { flushSync } from 'react-dom';
 import { keepPreviousData, useQueries, useQueryClient } from '@tanstack/react-query';
 import { IconChartBar, IconChevronRight, IconFileSearch } from '@tabler/icons-react';
 import {
+  buildCoverageTileUrl,
   getMeasurements,
   getSessionOverview,
+  getSessionPathLoss,
   getSessionStats,
   getSessionWindow,
   type CoverageQueryParams,
@@ -12,6 +14,8 @@ import {
 } from './api/endpoints';
 import type {
   CoverageBin,
+  CoverageBoundaryMode,
+  CoverageGatewayMode,
   Measurement,
   RecoverSessionFromEventsResult,
   Session,
@@ -25,7 +29,10 @@ import MapView, { type MapViewHandle } from './components/MapView';
 import PlaybackPanel from './components/PlaybackPanel';
 import PointDetails from './components/PointDetails';
 import SelectedDeviceHeader from './components/SelectedDeviceHeader';
-import type { SessionComparisonItem } from './components/SessionComparisonPanel';
+import type {
+  SessionComparisonCoverageDiff,
+  SessionComparisonItem
+} from './components/SessionComparisonPanel';
 import StatusStrip from './components/StatusStrip';
 import StatsCard from './components/StatsCard';
 import markDark from './assets/branding/loramapr-mark-dark.png';
@@ -35,6 +42,9 @@ import logoLight from './assets/branding/loramapr-logo-light.png';
 import {
   useAutoSession,
   useCoverageBins,
+  useCoverageBoundaries,
+  useCoverageDiff,
+  useCoveragePrediction,
   useDevice,
   useDeviceDetail,
   useDeviceLatest,
@@ -44,6 +54,8 @@ import {
   useStats,
   useTrack
 } from './query/hooks';
+import { coverageLevelForZoom } from './coverage/coverageLevels';
+import { computeCoverageRange, type CoverageRangePreset } from './coverage/coverageRange';
 import { useLorawanEvents } from './query/lorawan';
 import { useSessionTimeline, useSessions, useSessionWindow } from './query/sessions';
 import {
@@ -80,6 +92,7 @@ const APP_NAME = __APP_NAME__;
 const APP_VERSION = __APP_VERSION__;
 const DEVICE_ICON_GALLERY_ROUTE = '/dev/device-icons';
 const SIDEBAR_LAYOUT_TEST_ROUTE = '/dev/sidebar-layout';
+const SHARE_ROUTE_PREFIX = '/share/';
 
 function normalizePathname(pathname: string): string {
   if (!pathname) {
@@ -104,6 +117,27 @@ const DevSidebarLayoutTest = import.meta.env.DEV
   ? lazy(() => import('./components/dev/SidebarLayoutTest'))
   : null;
 
+function readShareToken(): string | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  const pathname = normalizePathname(window.location.pathname);
+  if (!pathname.startsWith(SHARE_ROUTE_PREFIX)) {
+    return null;
+  }
+  let token: string;
+  try {
+    token = decodeURIComponent(pathname.slice(SHARE_ROUTE_PREFIX.length));
+  } catch {
+    // Malformed escapes such as /s/%E0 are not a share link.
+    return null;
+  }
+  return token && !token.includes('/') ? token : null;
+}
+
+const SHARE_TOKEN = readShareToken();
+const ShareView = lazy(() => import('./components/ShareView'));
+
 type SidebarTab = 'device' | 'sessions' | 'playback' | 'coverage' | 'debug';
 type CoverageScope = 'device' | 'session';
 type ThemeMode = 'system' | 'light' | 'dark';
@@ -567,108 +601,6 @@ function buildCoverageFitTarget(
   return { points, bounds: buildBoundsFromPoints(points) };
 }
 
-type CoverageBinMergeAccumulator = {
-  latBin: number;
-  lonBin: number;
-  gatewayId: string | null;
-  count: number;
-  rssiMin: number | null;
-  rssiMax: number | null;
-  snrMin: number | null;
-  snrMax: number | null;
-  rssiAvgWeightedSum: number;
-  rssiAvgWeight: number;
-  snrAvgWeightedSum: number;
-  snrAvgWeight: number;
-};
-
-function mergeNullableMin(current: number | null, value: number | null): number | null {
-  if (typeof value !== 'number' || !Number.isFinite(value)) {
-    return current;
-  }
-  if (typeof current !== 'number' || !Number.isFinite(current)) {
-    return value;
-  }
-  return Math.min(current, value);
-}
-
-function mergeNullableMax(current: number | null, value: number | null): number | null {
-  if (typeof value !== 'number' || !Number.isFinite(value)) {
-    return current;
-  }
-  if (typeof current !== 'number' || !Number.isFinite(current)) {
-    return value;
-  }
-  return Math.max(current, value);
-}
-
-function toCoverageMergeKey(bin: Pick<CoverageBin, 'latBin' | 'lonBin' | 'gatewayId'>): string {
-  return `${bin.latBin}:${bin.lonBin}:${bin.gatewayId ?? 'all'}`;
-}
-
-function mergeCoverageBinsByGateway(bins: CoverageBin[] | undefined): CoverageBin[] {
-  if (!bins || bins.length === 0) {
-    return [];
-  }
-
-  const merged = new Map<string, CoverageBinMergeAccumulator>();
-  for (const bin of bins) {
-    if (!Number.isFinite(bin.latBin) || !Number.isFinite(bin.lonBin)) {
-      continue;
-    }
-
-    const key = toCoverageMergeKey(bin);
-    const existing = merged.get(key);
-    const accumulator: CoverageBinMergeAccumulator =
-      existing ?? {
-        latBin: bin.latBin,
-        lonBin: bin.lonBin,
-        gatewayId: bin.gatewayId ?? null,
-        count: 0,
-        rssiMin: null,
-        rssiMax: null,
-        snrMin: null,
-        snrMax: null,
-        rssiAvgWeightedSum: 0,
-        rssiAvgWeight: 0,
-        snrAvgWeightedSum: 0,
-        snrAvgWeight: 0
-      };
-
-    const countValue =
-      typeof bin.count === 'number' && Number.isFinite(bin.count) ? Math.max(0, bin.count) : 0;
-    accumulator.count += countValue;
-    accumulator.rssiMin = mergeNullableMin(accumulator.rssiMin, bin.rssiMin);
-    accumulator.rssiMax = mergeNullableMax(accumulator.rssiMax, bin.rssiMax);
-    accumulator.snrMin = mergeNullableMin(accumulator.snrMin, bin.snrMin);
-    accumulator.snrMax = mergeNullableMax(accumulator.snrMax, bin.snrMax);
-
-    if (typeof bin.rssiAvg === 'number' && Number.isFinite(bin.rssiAvg) && countValue > 0) {
-      accumulator.rssiAvgWeightedSum += bin.rssiAvg * countValue;
-      accumulator.rssiAvgWeight += countValue;
-    }
-    if (typeof bin.snrAvg === 'number' && Number.isFinite(bin.snrAvg) && countValue > 0) {
-      accumulator.snrAvgWeightedSum += bin.snrAvg * countValue;
-      accumulator.snrAvgWeight += countValue;
-    }
-
-    merged.set(key, accumulator);
-  }
-
-  return Array.from(merged.values()).map((bin) => ({
-    latBin: bin.latBin,
-    lonBin: bin.lonBin,
-    gatewayId: bin.gatewayId,
-    count: bin.count,
-    rssiMin: bin.rssiMin,
-    rssiMax: bin.rssiMax,
-    snrMin: bin.snrMin,
-    snrMax: bin.snrMax,
-    rssiAvg: bin.rssiAvgWeight > 0 ? bin.rssiAvgWeightedSum / bin.rssiAvgWeight : null,
-    snrAvg: bin.snrAvgWeight > 0 ? bin.snrAvgWeightedSum / bin.snrAvgWeight : null
-  }));
-}
-
 function readInitialQueryState(): InitialQueryState {
   if (typeof window === 'undefined') {
     return {
@@ -722,6 +654,14 @@ function readInitialQueryState(): InitialQueryState {
 }
 
 function App() {
+  if (SHARE_TOKEN) {
+    return (
+      <Suspense fallback={<div className="share-view share-view--message">Loading shared map...</div>}>
+        <ShareView token={SHARE_TOKEN} />
+      </Suspense>
+    );
+  }
+
   if (SHOW_DEVICE_ICON_GALLERY && DevDeviceIconGallery) {
     return (
       <Suspense fallback={<div className="device-icon-gallery">Loading icon gallery...</div>}>
@@ -792,12 +732,18 @@ function App() {
   const playbackCacheMissesRef = useRef<number[]>([]);
   const [playbackLastGoodItems, setPlaybackLastGoodItems] = useState<SessionWindowPoint[]>([]);
   const [mapLayerMode, setMapLayerMode] = useState<'points' | 'coverage'>('points');
-  const [coverageVisualizationMode, setCoverageVisualizationMode] = useState<'bins' | 'heatmap'>(
-    'bins'
-  );
+  const [coverageVisualizationMode, setCoverageVisualizationMode] = useState<
+    'bins' | 'heatmap' | 'tiles'
+  >('bins');
   const [coverageScope, setCoverageScope] = useState<CoverageScope>('device');
+  const [coverageRangePreset, setCoverageRangePreset] = useState<CoverageRangePreset>('all');
+  const [showComparisonCoverageDiff, setShowComparisonCoverageDiff] = useState(false);
+  const [showPredictedCoverage, setShowPredictedCoverage] = useState(false);
+  const [showRangeBoundaries, setShowRangeBoundaries] = useState(false);
+  const [rangeBoundaryMode, setRangeBoundaryMode] = useState<CoverageBoundaryMode>('threshold');
   const [selectedCoverageSessionId, setSelectedCoverageSessionId] = useState<string | null>(null);
-  const [coverageMetric, setCoverageMetric] = useState<'count' | 'rssiAvg' | 'snrAvg'>('count');
+  const [coverageMetric, setCoverageMetric] = useState<'count' | 'rssiAvg' | 'snrAvg' | 'pdr'>('count');
+  const [coverageGatewayMode, setCoverageGatewayMode] = useState<CoverageGatewayMode>('best');
   const [sidebarTab, setSidebarTab] = useState<SidebarTab>(() => readInitialSidebarTab());
   const sidebarTabRef = useRef<SidebarTab>(sidebarTab);
   const filterModeRef = useRef(filterMode);
@@ -1458,6 +1404,13 @@ function App() {
       enabled: isCompareMode
     }))
   });
+  const comparisonPathLossQueries = useQueries({
+    queries: compareSessionIds.map((sessionId) => ({
+      queryKey: ['sessionPathLoss', sessionId],
+      queryFn: ({ signal }) => getSessionPathLoss(sessionId, { signal }),
+      enabled: isCompareMode
+    }))
+  });
   const comparisonOverviewQueries = useQueries({
     queries: compareSessionIds.map((sessionId) => ({
       queryKey: ['sessionOverview', sessionId, COMPARISON_TRACK_SAMPLE],
@@ -1844,6 +1797,7 @@ function App() {
       compareSessionIds.map((sessionId, index) => {
         const session = comparedSessionLookup.get(sessionId) ?? null;
         const stats = comparisonStatsQueries[index]?.data ?? null;
+        const pathLossModel = comparisonPathLossQueries[index]?.data?.model ?? null;
         const itemError =
           comparisonStatsQueries[index]?.error ?? comparisonOverviewQueries[index]?.error ?? null;
 
@@ -1858,6 +1812,8 @@ function App() {
           medianSnr: stats?.snr?.median ?? null,
           farthestPoint: stats?.farthestPoint ?? null,
           lastRangePoint: stats?.lastRangePoint ?? null,
+          pathLossExponent: pathLossModel?.exponent ?? null,
+          pathLossSpread: pathLossModel?.residualStdDev ?? null,
           isVisible: !hiddenComparisonSessionIds.includes(sessionId),
           isLoading:
             comparisonStatsQueries[index]?.isLoading === true ||
@@ -1870,6 +1826,7 @@ function App() {
       compareSessionIds,
       comparedSessionLookup,
       comparisonOverviewQueries,
+      comparisonPathLossQueries,
       comparisonStatsQueries,
       hiddenComparisonSessionIds
     ]
@@ -2162,8 +2119,21 @@ function App() {
     enabled: isSessionMode ? Boolean(selectedSessionId) : Boolean(deviceId)
   });
   const coverageFilterMode: 'time' | 'session' = coverageScope === 'session' ? 'session' : 'time';
+  const coverageLevel = coverageLevelForZoom(currentZoom);
+  const coverageRange = useMemo(
+    () => computeCoverageRange(coverageRangePreset, Date.now()),
+    [coverageRangePreset]
+  );
+  // A selected gateway shows every uplink it heard, not only those it heard best.
+  const coverageGatewayFilter = useMemo<Pick<CoverageQueryParams, 'gatewayId' | 'gatewayMode'>>(() => {
+    if (receiverSource !== 'lorawan') {
+      return {};
+    }
+    return selectedGatewayId
+      ? { gatewayId: selectedGatewayId, gatewayMode: 'any' }
+      : { gatewayMode: coverageGatewayMode };
+  }, [receiverSource, selectedGatewayId, coverageGatewayMode]);
   const coverageParams = useMemo<CoverageQueryParams>(() => {
-    const gatewayId = receiverSource === 'lorawan' ? selectedGatewayId ?? undefined : undefined;
     const coverageLimit = coverageVisualizationMode === 'heatmap' ? 12000 : undefined;
     const coverageBbox =
       coverageVisualizationMode === 'heatmap'
@@ -2175,33 +2145,44 @@ function App() {
         day: coverageDay,
         allDays: false,
         bbox: coverageBbox,
-        gatewayId,
+        ...coverageGatewayFilter,
+        level: coverageLevel,
         limit: coverageLimit
       };
     }
     return {
       deviceId: deviceId ?? undefined,
-      allDays: true,
+      ...(coverageRange ? { from: coverageRange.from } : { allDays: true }),
       bbox: coverageBbox,
-      gatewayId,
+      ...coverageGatewayFilter,
+      level: coverageLevel,
       limit: coverageLimit
     };
   }, [
     coverageScope,
     effectiveCoverageSessionId,
     coverageDay,
+    coverageRange,
     coverageBinsBboxCommitted,
     deviceId,
-    selectedGatewayId,
-    receiverSource,
-    coverageVisualizationMode
+    coverageGatewayFilter,
+    coverageVisualizationMode,
+    coverageLevel
   ]);
+  // Exports cover the whole scope rather than the viewport, up to the server's bin cap.
+  const coverageExportParams = useMemo<CoverageQueryParams | null>(() => {
+    if (!coverageParams.deviceId && !coverageParams.sessionId) {
+      return null;
+    }
+    return { ...coverageParams, bbox: undefined, limit: 20000 };
+  }, [coverageParams]);
   const coverageQuery = useCoverageBins(
     coverageParams,
     {
       enabled:
         mapLayerMode === 'coverage' &&
         !isCompareMode &&
+        coverageVisualizationMode !== 'tiles' &&
         (coverageVisualizationMode === 'heatmap' || Boolean(coverageBinsBboxCommitted)) &&
         (coverageScope === 'session'
           ? Boolean(effectiveCoverageSessionId)
@@ -2210,13 +2191,106 @@ function App() {
     },
     { filterMode: coverageFilterMode }
   );
-  const coverageBins = useMemo(
-    () =>
-      coverageScope === 'device'
-        ? mergeCoverageBinsByGateway(coverageQuery.data?.items)
-        : (coverageQuery.data?.items ?? []),
-    [coverageScope, coverageQuery.data?.items]
+  const coverageTileUrl = useMemo(() => {
+    if (coverageVisualizationMode !== 'tiles' || isCompareMode) {
+      return null;
+    }
+    if (coverageScope === 'session') {
+      return effectiveCoverageSessionId
+        ? buildCoverageTileUrl({ sessionId: effectiveCoverageSessionId, ...coverageGatewayFilter })
+        : null;
+    }
+    return deviceId
+      ? buildCoverageTileUrl({ deviceId, ...coverageGatewayFilter, from: coverageRange?.from })
+      : null;
+  }, [
+    coverageVisualizationMode,
+    coverageRange,
+    isCompareMode,
+    coverageScope,
+    effectiveCoverageSessionId,
+    deviceId,
+    coverageGatewayFilter
+  ]);
+  // The server merges days and sessions into one row per cell and gateway.
+  const coverageBins = useMemo(() => coverageQuery.data?.items ?? [], [coverageQuery.data?.items]);
+  const predictedCoverageQuery = useCoveragePrediction(
+    {
+      ...(coverageScope === 'session'
+        ? { sessionId: effectiveCoverageSessionId ?? undefined }
+        : { deviceId: deviceId ?? undefined, from: coverageRange?.from }),
+      bbox: debouncedBbox ?? [0, 0, 0, 0],
+      ...coverageGatewayFilter,
+      level: coverageLevel
+    },
+    {
+      enabled:
+        showPredictedCoverage &&
+        mapLayerMode === 'coverage' &&
+        !isCompareMode &&
+        Boolean(debouncedBbox) &&
+        (coverageScope === 'session' ? Boolean(effectiveCoverageSessionId) : Boolean(deviceId))
+    }
+  );
+  const predictedCoverageCells =
+    showPredictedCoverage && !isCompareMode ? (predictedCoverageQuery.data?.items ?? []) : [];
+  const rangeBoundariesQuery = useCoverageBoundaries(
+    {
+      ...(coverageScope === 'session'
+        ? { sessionId: effectiveCoverageSessionId ?? undefined }
+        : { deviceId: deviceId ?? undefined, from: coverageRange?.from }),
+      ...coverageGatewayFilter,
+      mode: rangeBoundaryMode,
+      metric: coverageMetric === 'snrAvg' ? 'snr' : 'rssi'
+    },
+    {
+      enabled:
+        showRangeBoundaries &&
+        mapLayerMode === 'coverage' &&
+        !isCompareMode &&
+        (coverageScope === 'session' ? Boolean(effectiveCoverageSessionId) : Boolean(deviceId))
+    }
   );
+  const rangeBoundaryFeatures =
+    showRangeBoundaries && !isCompareMode ? (rangeBoundariesQuery.data?.features ?? []) : [];
+  const rangeBoundaryError =
+    showRangeBoundaries && rangeBoundariesQuery.error
+      ? (rangeBoundariesQuery.error as Error).message
+      : null;
+  // Diff the first two compared sessions: A is the baseline, B the candidate.
+  const coverageDiffQuery = useCoverageDiff(
+    {
+      base: { sessionId: compareSessionIds[0] },
+      compare: { sessionId: compareSessionIds[1] },
+      level: coverageLevel,
+      limit: 20000
+    },
+    { enabled: isCompareMode && showComparisonCoverageDiff }
+  );
+  const comparisonCoverageDiff = useMemo<SessionComparisonCoverageDiff | undefined>(() => {
+    if (!isCompareMode) {
+      return undefined;
+    }
+    return {
+      enabled: showComparisonCoverageDiff,
+      metric: coverageMetric,
+      baseLabel: comparisonItems[0]?.label ?? 'Session A',
+      compareLabel: comparisonItems[1]?.label ?? 'Session B',
+      bins: coverageDiffQuery.data?.items ?? [],
+      isLoading: coverageDiffQuery.isLoading,
+      error: coverageDiffQuery.error ? (coverageDiffQuery.error as Error).message : null
+    };
+  }, [
+    isCompareMode,
+    showComparisonCoverageDiff,
+    coverageMetric,
+    comparisonItems,
+    coverageDiffQuery.data?.items,
+    coverageDiffQuery.isLoading,
+    coverageDiffQuery.error
+  ]);
+  const coverageDiffBins =
+    isCompareMode && showComparisonCoverageDiff ? (coverageDiffQuery.data?.items ?? []) : [];
   const renderedPointCount =
     effectiveMapLayerMode === 'points'
       ? isCompareMode
@@ -3454,11 +3528,25 @@ function App() {
       onCoverageVisualizationModeChange={setCoverageVisualizationMode}
       coverageScope={coverageScope}
       onCoverageScopeChange={setCoverageScope}
+      coverageRangePreset={coverageRangePreset}
+      onCoverageRangePresetChange={setCoverageRangePreset}
+      showPredictedCoverage={showPredictedCoverage}
+      onShowPredictedCoverageChange={setShowPredictedCoverage}
+      predictedCoverageStatus={predictedCoverageQuery.data?.status ?? null}
+      predictedCoverageError={predictedCoverageQuery.data?.error ?? null}
+      showRangeBoundaries={showRangeBoundaries}
+      onShowRangeBoundariesChange={setShowRangeBoundaries}
+      rangeBoundaryMode={rangeBoundaryMode}
+      onRangeBoundaryModeChange={setRangeBoundaryMode}
+      rangeBoundaryError={rangeBoundaryError}
       selectedCoverageSessionId={selectedCoverageSessionId}
       onSelectedCoverageSessionIdChange={setSelectedCoverageSessionId}
       coverageSessionOptions={coverageSessionOptions}
       coverageMetric={coverageMetric}
       onCoverageMetricChange={setCoverageMetric}
+      coverageGatewayMode={coverageGatewayMode}
+      onCoverageGatewayModeChange={setCoverageGatewayMode}
+      coverageExportParams={coverageExportParams}
       rangeFrom={exploreRange.from}
       rangeTo={exploreRange.to}
       from={from}
@@ -3489,6 +3577,8 @@ function App() {
       onExitComparison={handleExitComparison}
       onToggleComparedSessionVisibility={handleToggleComparedSessionVisibility}
       onFitComparedSessions={handleFitToData}
+      comparisonCoverageDiff={comparisonCoverageDiff}
+      onToggleComparisonCoverageDiff={setShowComparisonCoverageDiff}
       eventsNavigationNonce={eventsNavigationNonce}
       eventsNavigationRequest={eventsNavigationRequest}
       onOpenEvents={handleOpenEvents}
@@ -3530,6 +3620,12 @@ function App() {
           overviewTrack={isPlaybackMode ? mapOverviewTrack : []}
           coverageBins={coverageBins}
           coverageBinSize={coverageQuery.data?.binSizeDeg ?? null}
+          predictedCoverageCells={predictedCoverageCells}
+          predictedCoverageBinSize={predictedCoverageQuery.data?.binSizeDeg ?? null}
+          coverageBoundaries={rangeBoundaryFeatures}
+          coverageDiffBins={coverageDiffBins}
+          coverageDiffBinSize={coverageDiffQuery.data?.binSizeDeg ?? null}
+          coverageTileUrl={coverageTileUrl}
           showPoints={showPoints}
           showTrack={showTrack}
           showCoverageTracks={showCoverageTracks}
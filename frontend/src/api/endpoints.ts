@@ -1,4 +1,5 @@
-import { getJson, requestJson } from './http';
+import type { CoverageMetric } from '../coverage/coverageBuckets';
+import { getApiBaseUrl, getJson, requestJson } from './http';
 import type {
   Device,
   DeviceDetail,
@@ -6,6 +7,12 @@ import type {
   DeviceMutable,
   DeviceLatest,
   CoverageBinsResponse,
+  CoverageBoundaryCollection,
+  CoverageBoundaryMetric,
+  CoverageBoundaryMode,
+  CoverageDiffResponse,
+  CoverageGatewayMode,
+  CoveragePredictionResponse,
   GatewayStats,
   GatewaySummary,
   ListResponse,
@@ -22,17 +29,28 @@ import type {
   SessionTimeline,
   SessionDetail,
   SessionStats,
+  SessionPathLoss,
   SessionSignalSeries,
   SessionSignalHistogram,
+  SessionSignalDistance,
   Session,
   SessionOverviewResponse,
   TrackPoint,
   SystemStatus,
+  TerrainProfileResponse,
   UnifiedEventDetail,
   UnifiedEventsResponse,
   UnifiedEventSource,
   RecoverSessionFromEventsPreview,
-  RecoverSessionFromEventsResult
+  RecoverSessionFromEventsResult,
+  SessionImportInput,
+  SessionImportPreview,
+  ShareLink,
+  ShareLinkInput,
+  PublicShareSummary,
+  PublicShareTrack,
+  PublicShareBins,
+  SessionImportResult
 } from './types';
 
 export type Bbox = {
@@ -90,11 +108,77 @@ export type CoverageQueryParams = {
   sessionId?: string;
   day?: string;
   allDays?: boolean;
+  from?: string | Date;
+  to?: string | Date;
   bbox?: [number, number, number, number];
   gatewayId?: string;
+  gatewayMode?: CoverageGatewayMode;
+  groupBy?: 'gateway' | 'none';
+  level?: number;
   limit?: number;
 };
 
+export type CoverageDiffScope = {
+  deviceId?: string;
+  sessionId?: string;
+  from?: string | Date;
+  to?: string | Date;
+};
+
+export type CoverageDiffParams = {
+  base: CoverageDiffScope;
+  compare: CoverageDiffScope;
+  bbox?: [number, number, number, number];
+  gatewayId?: string;
+  gatewayMode?: CoverageGatewayMode;
+  level?: number;
+  limit?: number;
+};
+
+export type CoverageBoundaryParams = {
+  deviceId?: string;
+  sessionId?: string;
+  from?: string | Date;
+  to?: string | Date;
+  gatewayId?: string;
+  gatewayMode?: CoverageGatewayMode;
+  mode?: CoverageBoundaryMode;
+  metric?: CoverageBoundaryMetric;
+  thresholds?: number[];
+  sectors?: number;
+};
+
+export type TerrainProfileParams = {
+  measurementId: string;
+  homeLat?: number;
+  homeLon?: number;
+  freqMhz?: number;
+  homeAntennaM?: number;
+  pointAntennaM?: number;
+  samples?: number;
+};
+
+export type CoveragePredictionParams = {
+  deviceId?: string;
+  sessionId?: string;
+  from?: string | Date;
+  to?: string | Date;
+  bbox: [number, number, number, number];
+  gatewayId?: string;
+  gatewayMode?: CoverageGatewayMode;
+  level?: number;
+  radius?: number;
+};
+
+export type CoverageTileParams = {
+  deviceId?: string;
+  sessionId?: string;
+  gatewayId?: string;
+  gatewayMode?: CoverageGatewayMode;
+  from?: string | Date;
+  to?: string | Date;
+};
+
 export type GatewayQueryParams = {
   deviceId?: string;
   sessionId?: string;
@@ -208,12 +292,67 @@ function buildCoverageQuery(params: CoverageQueryParams): string {
   if (params.allDays) {
     searchParams.set('allDays', 'true');
   }
+  if (params.from) {
+    searchParams.set('from', toIso(params.from));
+  }
+  if (params.to) {
+    searchParams.set('to', toIso(params.to));
+  }
+  if (params.bbox) {
+    searchParams.set('bbox', params.bbox.join(','));
+  }
+  if (params.gatewayId) {
+    searchParams.set('gatewayId', params.gatewayId);
+  }
+  if (params.gatewayMode) {
+    searchParams.set('gatewayMode', params.gatewayMode);
+  }
+  if (params.groupBy) {
+    searchParams.set('groupBy', params.groupBy);
+  }
+  if (typeof params.level === 'number') {
+    searchParams.set('level', String(params.level));
+  }
+  if (typeof params.limit === 'number') {
+    searchParams.set('limit', String(params.limit));
+  }
+
+  return searchParams.toString();
+}
+
+function buildCoverageDiffQuery(params: CoverageDiffParams): string {
+  const searchParams = new URLSearchParams();
+
+  const sides: Array<['base' | 'compare', CoverageDiffScope]> = [
+    ['base', params.base],
+    ['compare', params.compare]
+  ];
+  for (const [prefix, scope] of sides) {
+    if (scope.deviceId) {
+      searchParams.set(`${prefix}DeviceId`, scope.deviceId);
+    }
+    if (scope.sessionId) {
+      searchParams.set(`${prefix}SessionId`, scope.sessionId);
+    }
+    if (scope.from) {
+      searchParams.set(`${prefix}From`, toIso(scope.from));
+    }
+    if (scope.to) {
+      searchParams.set(`${prefix}To`, toIso(scope.to));
+    }
+  }
   if (params.bbox) {
     searchParams.set('bbox', params.bbox.join(','));
   }
   if (params.gatewayId) {
     searchParams.set('gatewayId', params.gatewayId);
   }
+  if (params.gatewayMode) {
+    searchParams.set('gatewayMode', params.gatewayMode);
+  }
+  if (typeof params.level === 'number') {
+    searchParams.set('level', String(params.level));
+  }
   if (typeof params.limit === 'number') {
     searchParams.set('limit', String(params.limit));
   }
@@ -490,6 +629,49 @@ export async function stopSession(input: { sessionId: string }): Promise<Session
   return requestJson<Session>('/api/sessions/stop', { method: 'POST', json: input });
 }
 
+function buildSessionImportForm(input: SessionImportInput): FormData {
+  const form = new FormData();
+  form.append('gpx', input.gpx);
+  if (input.log) {
+    form.append('log', input.log);
+  }
+  const fields: Array<[string, string | number | undefined]> = [
+    ['deviceId', input.deviceId],
+    ['deviceUid', input.deviceUid],
+    ['receiverId', input.receiverId],
+    ['clockOffsetSeconds', input.clockOffsetSeconds],
+    ['interpolation', input.interpolation],
+    ['maxGapSeconds', input.maxGapSeconds],
+    ['name', input.name],
+    ['notes', input.notes]
+  ];
+  for (const [key, value] of fields) {
+    if (value !== undefined && value !== '') {
+      form.append(key, String(value));
+    }
+  }
+  return form;
+}
+
+export async function previewSessionImport(
+  input: SessionImportInput,
+  options?: RequestOptions
+): Promise<SessionImportPreview> {
+  return requestJson<SessionImportPreview>('/api/sessions/import/preview', {
+    method: 'POST',
+    body: buildSessionImportForm(input),
+    ...withQueryApiKey(options)
+  });
+}
+
+export async function importSession(input: SessionImportInput): Promise<SessionImportResult> {
+  return requestJson<SessionImportResult>('/api/sessions/import', {
+    method: 'POST',
+    body: buildSessionImportForm(input),
+    ...withQueryApiKey()
+  });
+}
+
 export async function updateSession(
   id: string,
   input: { name?: string; notes?: string; isArchived?: boolean }
@@ -518,6 +700,73 @@ export async function deleteSession(
   );
 }
 
+export async function listShareLinks(
+  params: { sessionId?: string; deviceId?: string },
+  options?: RequestOptions
+): Promise<ListResponse<ShareLink>> {
+  const searchParams = new URLSearchParams();
+  if (params.sessionId) {
+    searchParams.set('sessionId', params.sessionId);
+  }
+  if (params.deviceId) {
+    searchParams.set('deviceId', params.deviceId);
+  }
+  return getJson<ListResponse<ShareLink>>(
+    `/api/shares?${searchParams.toString()}`,
+    withQueryApiKey(options)
+  );
+}
+
+export async function createShareLink(input: ShareLinkInput): Promise<ShareLink> {
+  return requestJson<ShareLink>('/api/shares', {
+    method: 'POST',
+    json: input,
+    ...withQueryApiKey()
+  });
+}
+
+export async function revokeShareLink(id: string): Promise<ShareLink> {
+  return requestJson<ShareLink>(`/api/shares/${id}`, {
+    method: 'DELETE',
+    ...withQueryApiKey()
+  });
+}
+
+// Public share reads: the token in the path is the only credential.
+function publicSharePath(token: string, suffix = ''): string {
+  return `/api/public/shares/${encodeURIComponent(token)}${suffix}`;
+}
+
+export async function getPublicShare(
+  token: string,
+  options?: RequestOptions
+): Promise<PublicShareSummary> {
+  return getJson<PublicShareSummary>(publicSharePath(token), options);
+}
+
+export async function getPublicShareTrack(
+  token: string,
+  options?: RequestOptions
+): Promise<PublicShareTrack> {
+  return getJson<PublicShareTrack>(publicSharePath(token, '/track'), options);
+}
+
+export async function getPublicShareBins(
+  token: string,
+  zoom: number | null,
+  options?: RequestOptions
+): Promise<PublicShareBins> {
+  const query = zoom === null ? '' : `?zoom=${Math.floor(zoom)}`;
+  return getJson<PublicShareBins>(publicSharePath(token, `/bins${query}`), options);
+}
+
+export async function getPublicShareStats(
+  token: string,
+  options?: RequestOptions
+): Promise<StatsResponse> {
+  return getJson<StatsResponse>(publicSharePath(token, '/stats'), options);
+}
+
 export async function getSessionTimeline(
   sessionId: string,
   options?: RequestOptions
@@ -539,6 +788,13 @@ export async function getSessionStats(
   return getJson<SessionStats>(`/api/sessions/${sessionId}/stats`, options);
 }
 
+export async function getSessionPathLoss(
+  sessionId: string,
+  options?: RequestOptions
+): Promise<SessionPathLoss> {
+  return getJson<SessionPathLoss>(`/api/sessions/${sessionId}/path-loss`, options);
+}
+
 export async function getSessionSignalSeries(
   sessionId: string,
   params: {
@@ -563,6 +819,29 @@ export async function getSessionSignalSeries(
   return getJson<SessionSignalSeries>(path, options);
 }
 
+export async function getSessionSignalVsDistance(
+  sessionId: string,
+  params: {
+    metric: 'rssi' | 'snr';
+    source?: 'auto' | 'meshtastic' | 'lorawan' | 'measurement';
+    sample?: number;
+  },
+  options?: RequestOptions
+): Promise<SessionSignalDistance> {
+  const query = new URLSearchParams();
+  query.set('metric', params.metric);
+  if (params.source) {
+    query.set('source', params.source);
+  }
+  if (typeof params.sample === 'number' && Number.isFinite(params.sample)) {
+    query.set('sample', String(Math.max(1, Math.floor(params.sample))));
+  }
+  return getJson<SessionSignalDistance>(
+    `/api/sessions/${sessionId}/signal-vs-distance?${query.toString()}`,
+    options
+  );
+}
+
 export async function getSessionSignalHistogram(
   sessionId: string,
   params: {
@@ -646,6 +925,116 @@ export async function getStats(
   return getJson<StatsResponse>(path, options);
 }
 
+export async function getCoverageDiff(
+  params: CoverageDiffParams,
+  options?: RequestOptions
+): Promise<CoverageDiffResponse> {
+  const query = buildCoverageDiffQuery(params);
+  return getJson<CoverageDiffResponse>(`/api/coverage/diff?${query}`, options);
+}
+
+export async function getCoveragePrediction(
+  params: CoveragePredictionParams,
+  options?: RequestOptions
+): Promise<CoveragePredictionResponse> {
+  const searchParams = new URLSearchParams();
+  if (params.deviceId) {
+    searchParams.set('deviceId', params.deviceId);
+  }
+  if (params.sessionId) {
+    searchParams.set('sessionId', params.sessionId);
+  }
+  if (params.from) {
+    searchParams.set('from', toIso(params.from));
+  }
+  if (params.to) {
+    searchParams.set('to', toIso(params.to));
+  }
+  searchParams.set('bbox', params.bbox.join(','));
+  if (params.gatewayId) {
+    searchParams.set('gatewayId', params.gatewayId);
+  }
+  if (params.gatewayMode) {
+    searchParams.set('gatewayMode', params.gatewayMode);
+  }
+  if (typeof params.level === 'number') {
+    searchParams.set('level', String(params.level));
+  }
+  if (typeof params.radius === 'number') {
+    searchParams.set('radius', String(params.radius));
+  }
+  return getJson<CoveragePredictionResponse>(
+    `/api/coverage/predicted?${searchParams.toString()}`,
+    options
+  );
+}
+
+export async function getCoverageBoundaries(
+  params: CoverageBoundaryParams,
+  options?: RequestOptions
+): Promise<CoverageBoundaryCollection> {
+  const searchParams = new URLSearchParams();
+  if (params.deviceId) {
+    searchParams.set('deviceId', params.deviceId);
+  }
+  if (params.sessionId) {
+    searchParams.set('sessionId', params.sessionId);
+  }
+  if (params.from) {
+    searchParams.set('from', toIso(params.from));
+  }
+  if (params.to) {
+    searchParams.set('to', toIso(params.to));
+  }
+  if (params.gatewayId) {
+    searchParams.set('gatewayId', params.gatewayId);
+  }
+  if (params.gatewayMode) {
+    searchParams.set('gatewayMode', params.gatewayMode);
+  }
+  if (params.mode) {
+    searchParams.set('mode', params.mode);
+  }
+  if (params.metric) {
+    searchParams.set('metric', params.metric);
+  }
+  if (params.thresholds && params.thresholds.length > 0) {
+    searchParams.set('thresholds', params.thresholds.join(','));
+  }
+  if (params.mode === 'sector' && typeof params.sectors === 'number') {
+    searchParams.set('sectors', String(params.sectors));
+  }
+  return getJson<CoverageBoundaryCollection>(
+    `/api/coverage/boundaries?${searchParams.toString()}`,
+    options
+  );
+}
+
+export async function getTerrainProfile(
+  params: TerrainProfileParams,
+  options?: RequestOptions
+): Promise<TerrainProfileResponse> {
+  const searchParams = new URLSearchParams();
+  searchParams.set('measurementId', params.measurementId);
+  if (typeof params.homeLat === 'number' && typeof params.homeLon === 'number') {
+    searchParams.set('homeLat', String(params.homeLat));
+    searchParams.set('homeLon', String(params.homeLon));
+  }
+  if (typeof params.freqMhz === 'number') {
+    searchParams.set('freqMhz', String(params.freqMhz));
+  }
+  if (typeof params.homeAntennaM === 'number') {
+    searchParams.set('homeAntennaM', String(params.homeAntennaM));
+  }
+  if (typeof params.pointAntennaM === 'number') {
+    searchParams.set('pointAntennaM', String(params.pointAntennaM));
+  }
+  if (typeof params.samples === 'number') {
+    searchParams.set('samples', String(params.samples));
+  }
+  return getJson<TerrainProfileResponse>(`/api/terrain/profile?${searchParams.toString()}`, options);
+}
+
 export async function getCoverageBins(
   params: CoverageQueryParams,
   options?: RequestOptions
@@ -655,6 +1044,46 @@ export async function getCoverageBins(
   return getJson<CoverageBinsResponse>(path, options);
 }
 
+// Plain download link: coverage bins are readable without an API key.
+export function buildCoverageExportUrl(
+  params: CoverageQueryParams,
+  metric: CoverageMetric,
+  format: 'kml' | 'kmz'
+): string {
+  const searchParams = new URLSearchParams(buildCoverageQuery(params));
+  searchParams.set('metric', metric);
+  return `${getApiBaseUrl()}/api/coverage/bins.${format}?${searchParams.toString()}`;
+}
+
+export function buildCoverageTileUrl(params: CoverageTileParams): string {
+  const searchParams = new URLSearchParams();
+
+  if (params.deviceId) {
+    searchParams.set('deviceId', params.deviceId);
+  }
+  if (params.sessionId) {
+    searchParams.set('sessionId', params.sessionId);
+  }
+  if (params.gatewayId) {
+    searchParams.set('gatewayId', params.gatewayId);
+  }
+  if (params.gatewayMode) {
+    searchParams.set('gatewayMode', params.gatewayMode);
+  }
+  if (params.from) {
+    searchParams.set('from', toIso(params.from));
+  }
+  if (params.to) {
+    searchParams.set('to', toIso(params.to));
+  }
+
+  // MapLibre fetches tiles from a worker, so the template must be absolute.
+  const origin = typeof window === 'undefined' ? '' : window.location.origin;
+  const query = searchParams.toString();
+  const path = '/api/coverage/tiles/{z}/{x}/{y}.mvt';
+  return `${origin}${path}${query ? `?${query}` : ''}`;
+}
+
 export async function listGateways(
   params: GatewayQueryParams,
   options?: RequestOptions
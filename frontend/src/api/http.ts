@@ -4,7 +4,7 @@ import { recordApiDiagnostics } from './diagnostics';
 // Dev routing to backend is handled by Vite proxy (configured with VITE_API_BASE_URL).
 const baseUrl = '';
 
-type RequestOptions = Omit<RequestInit, 'body' | 'signal' | 'headers'> & {
+type RequestOptions = Omit<RequestInit, 'signal' | 'headers'> & {
   json?: unknown;
   signal?: AbortSignal;
   headers?: HeadersInit;
@@ -193,6 +193,13 @@ export type SessionStats = {
   } | null;
   signalSourceUsed: 'meshtastic' | 'lorawan' | 'measurement' | null;
   receiversCount: number | null;
+  packetDelivery: {
+    framesReceived: number;
+    framesExpected: number;
+    framesMissed: number;
+    counterResets: number;
+    pdr: number | null;
+  } | null;
 };
 
 export type SessionSignalSeriesItem = {
@@ -220,6 +227,61 @@ export type SessionSignalHistogram = {
   bins: SessionSignalHistogramBin[];
 };
 
+export type SessionSignalDistanceItem = {
+  measurementId: string;
+  capturedAt: string;
+  distanceMeters: number;
+  rssi: number | null;
+  snr: number | null;
+  source: 'meshtastic' | 'lorawan' | 'measurement';
+};
+
+export type SessionSignalDistance = {
+  sessionId: string;
+  metric: 'rssi' | 'snr';
+  sourceUsed: 'meshtastic' | 'lorawan' | 'measurement';
+  home: {
+    lat: number;
+    lon: number;
+    radiusMeters: number;
+  } | null;
+  items: SessionSignalDistanceItem[];
+};
+
+export type SessionPathLossOutlier = {
+  measurementId: string;
+  capturedAt: string;
+  lat: number;
+  lon: number;
+  distanceMeters: number;
+  rssi: number;
+  predictedRssi: number;
+  residual: number;
+};
+
+export type SessionPathLoss = {
+  sessionId: string;
+  deviceId: string;
+  referenceDistanceMeters: number;
+  home: {
+    lat: number;
+    lon: number;
+    radiusMeters: number;
+  } | null;
+  signalSourceUsed: 'meshtastic' | 'lorawan' | 'measurement' | null;
+  pointCount: number;
+  usedCount: number;
+  model: {
+    exponent: number;
+    intercept: number;
+    residualStdDev: number;
+    r2: number | null;
+    minDistanceMeters: number;
+    maxDistanceMeters: number;
+  } | null;
+  outliers: SessionPathLossOutlier[];
+};
+
 export type SessionTimeline = {
   sessionId: string;
   deviceId: string;
@@ -274,14 +336,154 @@ export type CoverageBin = {
   rssiMax: number | null;
   snrMin: number | null;
   snrMax: number | null;
+  framesReceived: number;
+  framesExpected: number;
+  pdr: number | null;
   gatewayId: string | null;
 };
 
 export type CoverageBinsResponse = {
   binSizeDeg: number;
+  level: number;
   day: string;
+  from: string | null;
+  to: string | null;
+  groupBy: 'gateway' | 'none';
   items: CoverageBin[];
   count: number;
+  truncated: boolean;
+};
+
+export type CoverageDiffPresence = 'both' | 'baseOnly' | 'compareOnly';
+
+export type CoverageDiffSide = {
+  count: number;
+  rssiAvg: number | null;
+  snrAvg: number | null;
+  pdr: number | null;
+};
+
+export type CoverageDiffBin = {
+  latBin: number;
+  lonBin: number;
+  presence: CoverageDiffPresence;
+  base: CoverageDiffSide | null;
+  compare: CoverageDiffSide | null;
+  deltaCount: number;
+  deltaRssiAvg: number | null;
+  deltaSnrAvg: number | null;
+  deltaPdr: number | null;
+};
+
+export type CoverageDiffResponse = {
+  binSizeDeg: number;
+  level: number;
+  items: CoverageDiffBin[];
+  count: number;
+  truncated: boolean;
+};
+
+export type PredictedCoverageCell = {
+  latBin: number;
+  lonBin: number;
+  rssiAvg: number | null;
+  snrAvg: number | null;
+  confidence: number;
+  neighbors: number;
+  nearestDistanceMeters: number;
+};
+
+export type CoveragePredictionStatus = 'pending' | 'ready' | 'failed';
+
+export type CoveragePredictionResponse = {
+  predicted: true;
+  method: 'idw';
+  power: number;
+  radius: number;
+  binSizeDeg: number;
+  level: number;
+  // Grids are built in the background; a stale grid is served while it is rebuilt.
+  status: CoveragePredictionStatus;
+  stale: boolean;
+  computedAt: string | null;
+  error: string | null;
+  items: PredictedCoverageCell[];
+  count: number;
+};
+
+// best: each uplink once, for the gateway that heard it best; any: every reception per gateway.
+export type CoverageGatewayMode = 'best' | 'any';
+
+export type CoverageBoundaryMode = 'threshold' | 'sector';
+export type CoverageBoundaryMetric = 'rssi' | 'snr';
+
+export type CoverageBoundarySector = {
+  bearingStart: number;
+  bearingEnd: number;
+  rangeMeters: number;
+  pointCount: number;
+};
+
+export type CoverageBoundaryFeature = {
+  type: 'Feature';
+  geometry: { type: 'Polygon'; coordinates: Array<Array<[number, number]>> };
+  properties: {
+    kind: 'rangeBoundary';
+    mode: CoverageBoundaryMode;
+    metric: CoverageBoundaryMetric;
+    threshold: number;
+    pointCount: number;
+    areaKm2: number;
+    sectors?: CoverageBoundarySector[];
+  };
+};
+
+export type CoverageBoundaryCollection = {
+  type: 'FeatureCollection';
+  features: CoverageBoundaryFeature[];
+};
+
+export type TerrainLineOfSight = 'clear' | 'fresnelPartial' | 'obstructed' | 'unknown';
+
+export type TerrainProfileSample = {
+  distanceM: number;
+  lat: number;
+  lon: number;
+  elevationM: number | null;
+  earthBulgeM: number;
+  lineOfSightM: number | null;
+  fresnelRadiusM: number;
+  clearanceM: number | null;
+  fresnelClearance: number | null;
+};
+
+export type TerrainProfileResponse = {
+  home: {
+    lat: number;
+    lon: number;
+    source: 'config' | 'query';
+    groundElevationM: number | null;
+    antennaM: number;
+  };
+  point: {
+    measurementId: string;
+    lat: number;
+    lon: number;
+    groundElevationM: number | null;
+    antennaM: number;
+  };
+  frequencyMhz: number;
+  frequencySource: 'query' | 'measurement' | 'default';
+  samples: TerrainProfileSample[];
+  summary: {
+    distanceM: number;
+    lineOfSight: TerrainLineOfSight;
+    minClearanceM: number | null;
+    minFresnelClearance: number | null;
+    worstDistanceM: number | null;
+    missingSamples: number;
+  };
+  missingTiles: string[];
 };
 
 export type GatewaySummary = {
@@ -347,6 +549,23 @@ export type SystemStatus = {
       lastRunAt?: string;
       lastError?: string;
     };
+    coverage: {
+      ok: boolean;
+      lastRunAt?: string;
+      lastError?: string;
+    };
+    // Absent when the integration is not configured.
+    ttsMqtt?: {
+      ok: boolean;
+      lastRunAt?: string;
+      lastError?: string;
+    };
+    // Absent when the integration is not configured.
+    meshtasticMqtt?: {
+      ok: boolean;
+      lastRunAt?: string;
+      lastError?: string;
+    };
   };
   ingest: {
     latestWebhookReceivedAt: string | null;
@@ -373,10 +592,12 @@ export type LorawanEvent = {
   deviceUid: string | null;
   processingError: string | null;
   uplinkId: string | null;
+  eventType?: string | null;
 };
 
 export type LorawanEventDetail = LorawanEvent & {
   payload: unknown;
+  decodeError?: string | null;
 };
 
 export type MeshtasticEvent = {
@@ -414,6 +635,7 @@ export type UnifiedEventListItem = {
   deviceUid: string | null;
   portnum: string | null;
   packetId: string | null;
+  eventType?: string | null;
   rxRssi: number | null;
   rxSnr: number | null;
   hopLimit: number | null;
@@ -439,6 +661,7 @@ export type UnifiedEventDetail = {
   packetId: string | null;
   eventType: string | null;
   error: string | null;
+  decodeError?: string | null;
   payloadJson: unknown;
 };
 
@@ -477,3 +700,99 @@ export type RecoverSessionFromEventsResult = {
   endTime: string;
   durationMs: number;
 };
+
+export type SessionImportInterpolation = 'linear' | 'nearest';
+
+export type SessionImportInput = {
+  gpx: File;
+  log?: File | null;
+  deviceId?: string;
+  deviceUid?: string;
+  receiverId?: string;
+  clockOffsetSeconds?: number;
+  interpolation?: SessionImportInterpolation;
+  maxGapSeconds?: number;
+  name?: string;
+  notes?: string;
+};
+
+export type SessionImportPreview = {
+  trackPointCount: number;
+  trackStart: string;
+  trackEnd: string;
+  packetCount: number;
+  skippedLineCount: number;
+  otherSenderCount: number;
+  outsideTrackCount: number;
+  senders: Array<{ fromId: string; count: number }>;
+  measurementCount: number;
+  startTime: string | null;
+  endTime: string | null;
+  deviceId: string | null;
+  deviceUid: string | null;
+  deviceName: string | null;
+  deviceExists: boolean;
+  warnings: string[];
+  blockingErrors: string[];
+  canCreate: boolean;
+  defaultSessionName: string | null;
+};
+
+export type SessionImportResult = {
+  sessionId: string;
+  deviceId: string;
+  deviceUid: string;
+  sessionName: string | null;
+  measurementCount: number;
+  meshtasticRxCount: number;
+  startTime: string;
+  endTime: string;
+};
+
+export type ShareScope = 'SESSION' | 'COVERAGE';
+
+export type ShareLink = {
+  id: string;
+  token: string | null;
+  scope: ShareScope;
+  deviceId: string | null;
+  sessionId: string | null;
+  label: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  isActive: boolean;
+};
+
+export type ShareLinkInput = {
+  scope: ShareScope;
+  sessionId?: string;
+  deviceId?: string;
+  label?: string;
+  expiresAt?: string;
+};
+
+export type PublicShareSummary = {
+  scope: ShareScope;
+  label: string | null;
+  expiresAt: string | null;
+  hasTrack: boolean;
+  deviceName: string | null;
+  session: {
+    name: string | null;
+    startedAt: string;
+    endedAt: string | null;
+  } | null;
+};
+
+export type PublicShareTrack = {
+  items: TrackPoint[];
+};
+
+export type PublicShareBins = {
+  binSizeDeg: number;
+  level: number;
+  items: CoverageBin[];
+  count: number;
+  truncated: boolean;
+};
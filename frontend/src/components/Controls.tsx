@@ -9,6 +9,9 @@ import {
 } from '@tabler/icons-react';
 import type {
   AutoSessionConfig,
+  CoverageBoundaryMode,
+  CoverageGatewayMode,
+  CoveragePredictionStatus,
   DeviceLatest,
   Session,
   DeviceTelemetrySample,
@@ -17,6 +20,7 @@ import type {
   RecoverSessionFromEventsResult
 } from '../api/types';
 import { useApiDiagnosticsEntries } from '../api/diagnostics';
+import { buildCoverageExportUrl, type CoverageQueryParams } from '../api/endpoints';
 import { ApiError } from '../api/http';
 import {
   useAgentDecisions,
@@ -37,9 +41,13 @@ import GatewayStatsPanel from './GatewayStatsPanel';
 import LorawanEventsPanel from './LorawanEventsPanel';
 import MeshtasticEventsPanel from './MeshtasticEventsPanel';
 import ReceiverStatsPanel from './ReceiverStatsPanel';
-import SessionComparisonPanel, { type SessionComparisonItem } from './SessionComparisonPanel';
+import SessionComparisonPanel, {
+  type SessionComparisonCoverageDiff,
+  type SessionComparisonItem
+} from './SessionComparisonPanel';
 import SessionsPanel from './SessionsPanel';
 import SessionDetailsPanel from './SessionDetailsPanel';
+import ShareLinksPanel from './ShareLinksPanel';
 import EventsExplorerPanel from './EventsExplorerPanel';
 import DeviceIcon, {
   DEVICE_ICON_CATALOG,
@@ -59,6 +67,7 @@ import {
   bucketLabel,
   type CoverageBucket
 } from '../coverage/coverageBuckets';
+import { COVERAGE_RANGE_OPTIONS, type CoverageRangePreset } from '../coverage/coverageRange';
 
 const DEVICE_ICON_PICKER_OPTIONS = DEVICE_ICON_CATALOG;
 
@@ -96,15 +105,29 @@ type ControlsProps = {
   onCenterOnLatestLocation: (point: [number, number]) => void;
   mapLayerMode: 'points' | 'coverage';
   onMapLayerModeChange: (mode: 'points' | 'coverage') => void;
-  coverageVisualizationMode: 'bins' | 'heatmap';
-  onCoverageVisualizationModeChange: (mode: 'bins' | 'heatmap') => void;
+  coverageVisualizationMode: 'bins' | 'heatmap' | 'tiles';
+  onCoverageVisualizationModeChange: (mode: 'bins' | 'heatmap' | 'tiles') => void;
   coverageScope: 'device' | 'session';
   onCoverageScopeChange: (scope: 'device' | 'session') => void;
+  coverageRangePreset: CoverageRangePreset;
+  onCoverageRangePresetChange: (preset: CoverageRangePreset) => void;
+  showPredictedCoverage: boolean;
+  onShowPredictedCoverageChange: (value: boolean) => void;
+  predictedCoverageStatus?: CoveragePredictionStatus | null;
+  predictedCoverageError?: string | null;
+  showRangeBoundaries: boolean;
+  onShowRangeBoundariesChange: (value: boolean) => void;
+  rangeBoundaryMode: CoverageBoundaryMode;
+  onRangeBoundaryModeChange: (mode: CoverageBoundaryMode) => void;
+  rangeBoundaryError: string | null;
   selectedCoverageSessionId: string | null;
   onSelectedCoverageSessionIdChange: (sessionId: string | null) => void;
   coverageSessionOptions: Session[];
-  coverageMetric: 'count' | 'rssiAvg' | 'snrAvg';
-  onCoverageMetricChange: (metric: 'count' | 'rssiAvg' | 'snrAvg') => void;
+  coverageMetric: 'count' | 'rssiAvg' | 'snrAvg' | 'pdr';
+  onCoverageMetricChange: (metric: 'count' | 'rssiAvg' | 'snrAvg' | 'pdr') => void;
+  coverageGatewayMode: CoverageGatewayMode;
+  onCoverageGatewayModeChange: (mode: CoverageGatewayMode) => void;
+  coverageExportParams: CoverageQueryParams | null;
   rangeFrom?: string | Date;
   rangeTo?: string | Date;
   from: string;
@@ -135,6 +158,8 @@ type ControlsProps = {
   onExitComparison: () => void;
   onToggleComparedSessionVisibility: (sessionId: string) => void;
   onFitComparedSessions: () => void;
+  comparisonCoverageDiff?: SessionComparisonCoverageDiff;
+  onToggleComparisonCoverageDiff?: (enabled: boolean) => void;
   eventsNavigationNonce: number;
   eventsNavigationRequest: EventsNavigationInput | null;
   onOpenEvents: (input: EventsNavigationInput) => void;
@@ -178,11 +203,25 @@ export default function Controls({
   onCoverageVisualizationModeChange,
   coverageScope,
   onCoverageScopeChange,
+  coverageRangePreset,
+  onCoverageRangePresetChange,
+  showPredictedCoverage,
+  onShowPredictedCoverageChange,
+  predictedCoverageStatus = null,
+  predictedCoverageError = null,
+  showRangeBoundaries,
+  onShowRangeBoundariesChange,
+  rangeBoundaryMode,
+  onRangeBoundaryModeChange,
+  rangeBoundaryError,
   selectedCoverageSessionId,
   onSelectedCoverageSessionIdChange,
   coverageSessionOptions,
   coverageMetric,
   onCoverageMetricChange,
+  coverageGatewayMode,
+  onCoverageGatewayModeChange,
+  coverageExportParams,
   rangeFrom,
   rangeTo,
   from,
@@ -213,6 +252,8 @@ export default function Controls({
   onExitComparison,
   onToggleComparedSessionVisibility,
   onFitComparedSessions,
+  comparisonCoverageDiff,
+  onToggleComparisonCoverageDiff,
   eventsNavigationNonce,
   eventsNavigationRequest,
   onOpenEvents,
@@ -279,6 +320,11 @@ export default function Controls({
   const showAgentDecision = Boolean(agentDecision) && !agentDecisionAuthError;
 
   const autoSessionConfig = autoSessionQuery.data;
+  const comparisonOverlaySessions = comparisonActive
+    ? comparisonItems
+        .filter((item) => item.isVisible)
+        .map((item) => ({ id: item.id, label: item.label, color: item.style.color }))
+    : [];
   const autoSessionDefaults = useMemo(
     () => ({
       enabled: autoSessionConfig?.enabled ?? false,
@@ -1488,6 +1534,7 @@ export default function Controls({
             <SessionDetailsPanel
               sessionId={playbackSessionId}
               onFitMapToSession={onFitMapToSession}
+              comparisonSessions={comparisonOverlaySessions}
             />
           ) : null}
         </div>
@@ -1597,7 +1644,24 @@ export default function Controls({
                 Back to all sessions
               </button>
             </>
-          ) : null}
+          ) : (
+            <>
+              <label htmlFor="coverage-range-select">Date range</label>
+              <select
+                id="coverage-range-select"
+                value={coverageRangePreset}
+                onChange={(event) =>
+                  onCoverageRangePresetChange(event.target.value as CoverageRangePreset)
+                }
+              >
+                {COVERAGE_RANGE_OPTIONS.map((option) => (
+                  <option key={`coverage-range-${option.value}`} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
           <span className="controls__sub-label">Visualization</span>
           <div className="controls__segmented" role="radiogroup" aria-label="Coverage visualization">
             <label
@@ -1624,18 +1688,133 @@ export default function Controls({
               />
               Heatmap
             </label>
+            <label
+              className={`controls__segment ${coverageVisualizationMode === 'tiles' ? 'is-active' : ''}`}
+            >
+              <input
+                type="radio"
+                name="coverage-visualization"
+                value="tiles"
+                checked={coverageVisualizationMode === 'tiles'}
+                onChange={() => onCoverageVisualizationModeChange('tiles')}
+              />
+              Tiles
+            </label>
           </div>
+          <label className="controls__toggle" title="Interpolated from nearby measured cells (IDW)">
+            <input
+              type="checkbox"
+              checked={showPredictedCoverage}
+              onChange={(event) => onShowPredictedCoverageChange(event.target.checked)}
+            />
+            Predicted coverage (interpolated)
+          </label>
+          {showPredictedCoverage ? (
+            <span className="controls__session-notice">
+              Dashed cells are predicted, not measured. Shading fades with lower confidence
+              {coverageMetric === 'count' ? '; colored by RSSI.' : '.'}
+              {predictedCoverageStatus === 'pending' ? ' Building prediction…' : ''}
+              {predictedCoverageStatus === 'failed'
+                ? ` Prediction failed${predictedCoverageError ? `: ${predictedCoverageError}` : '.'}`
+                : ''}
+            </span>
+          ) : null}
+          <label className="controls__toggle" title="Outline of where measurements were received">
+            <input
+              type="checkbox"
+              checked={showRangeBoundaries}
+              onChange={(event) => onShowRangeBoundariesChange(event.target.checked)}
+            />
+            Range boundaries
+          </label>
+          {showRangeBoundaries ? (
+            <>
+              <label htmlFor="range-boundary-mode">Boundary shape</label>
+              <select
+                id="range-boundary-mode"
+                value={rangeBoundaryMode}
+                onChange={(event) =>
+                  onRangeBoundaryModeChange(event.target.value as CoverageBoundaryMode)
+                }
+              >
+                <option value="threshold">Hull per signal threshold</option>
+                <option value="sector">Bearing sectors from home</option>
+              </select>
+              <span className="controls__session-notice">
+                {rangeBoundaryError ??
+                  `One outline per ${coverageMetric === 'snrAvg' ? 'SNR' : 'RSSI'} threshold; the innermost is the most reliable range.`}
+              </span>
+            </>
+          ) : null}
+          {receiverSource === 'lorawan' ? (
+            <>
+              <label htmlFor="coverage-gateway">Coverage gateways</label>
+              <select
+                id="coverage-gateway"
+                value={selectedGatewayId ? `gateway:${selectedGatewayId}` : coverageGatewayMode}
+                onChange={(event) => {
+                  const value = event.target.value;
+                  if (value.startsWith('gateway:')) {
+                    onSelectGatewayId(value.slice('gateway:'.length));
+                    return;
+                  }
+                  onSelectGatewayId(null);
+                  onCoverageGatewayModeChange(value as CoverageGatewayMode);
+                }}
+              >
+                <option value="best">Best gateway per uplink</option>
+                <option value="any">Any gateway (every reception)</option>
+                {gatewayOptions.map((gateway) => (
+                  <option key={`coverage-gateway-${gateway.gatewayId}`} value={`gateway:${gateway.gatewayId}`}>
+                    {gateway.gatewayId} ({gateway.count})
+                  </option>
+                ))}
+              </select>
+              <span className="controls__session-notice">
+                {selectedGatewayId
+                  ? `Every uplink ${selectedGatewayId} heard, with its own signal.`
+                  : coverageGatewayMode === 'any'
+                    ? 'Each gateway contributes its own RSSI/SNR for every uplink it heard.'
+                    : 'Each uplink counts once, for the gateway that heard it best.'}
+              </span>
+            </>
+          ) : null}
           <label htmlFor="coverage-metric">Coverage metric</label>
           <select
             id="coverage-metric"
             value={coverageMetric}
-            onChange={(event) => onCoverageMetricChange(event.target.value as 'count' | 'rssiAvg' | 'snrAvg')}
+            onChange={(event) => onCoverageMetricChange(event.target.value as 'count' | 'rssiAvg' | 'snrAvg' | 'pdr')}
           >
             <option value="count">Count</option>
             <option value="rssiAvg">RSSI avg</option>
             <option value="snrAvg">SNR avg</option>
+            <option value="pdr">PDR</option>
           </select>
           <CoverageLegend metric={coverageMetric} />
+          {coverageExportParams ? (
+            <div className="controls__coverage-export">
+              {(['kmz', 'kml'] as const).map((format) => (
+                <a
+                  key={format}
+                  className="controls__button controls__button--compact"
+                  href={buildCoverageExportUrl(coverageExportParams, coverageMetric, format)}
+                  download={`coverage-${coverageMetric}.${format}`}
+                >
+                  Export {format.toUpperCase()}
+                </a>
+              ))}
+            </div>
+          ) : null}
+          {hasQueryApiKey && (coverageExportParams?.sessionId || coverageExportParams?.deviceId) ? (
+            <>
+              <span className="controls__label">Share coverage</span>
+              <ShareLinksPanel
+                sessionId={coverageExportParams.sessionId}
+                deviceId={coverageExportParams.sessionId ? undefined : coverageExportParams.deviceId}
+                scopes={['COVERAGE']}
+              />
+            </>
+          ) : null}
         </div>
       ) : null}
 
@@ -1648,6 +1827,7 @@ export default function Controls({
             <SessionDetailsPanel
               sessionId={playbackSessionId}
               onFitMapToSession={onFitMapToSession}
+              comparisonSessions={comparisonOverlaySessions}
             />
           ) : null}
         </div>
@@ -1722,11 +1902,15 @@ export default function Controls({
                   onToggleVisibility={onToggleComparedSessionVisibility}
                   onClearComparison={onExitComparison}
                   onFitAll={onFitComparedSessions}
+                  coverageDiff={comparisonCoverageDiff}
+                  onToggleCoverageDiff={onToggleComparisonCoverageDiff}
+                  onCoverageDiffMetricChange={onCoverageMetricChange}
                 />
               ) : selectedSessionId ? (
                 <SessionDetailsPanel
                   sessionId={selectedSessionId}
                   onFitMapToSession={onFitMapToSession}
+                  comparisonSessions={comparisonOverlaySessions}
                 />
               ) : null}
               <SessionsPanel
@@ -1983,6 +2167,45 @@ export default function Controls({
                       : ''}
                   </strong>
                 </div>
+                <div className="controls__status-row">
+                  <span>Worker coverage:</span>
+                  <strong>
+                    {systemStatusQuery.data.workers.coverage.lastRunAt
+                      ? formatRelativeTime(systemStatusQuery.data.workers.coverage.lastRunAt)
+                      : 'never'}
+                    {systemStatusQuery.data.workers.coverage.lastError
+                      ? ` (${systemStatusQuery.data.workers.coverage.lastError})`
+                      : ''}
+                  </strong>
+                </div>
+                {systemStatusQuery.data.workers.ttsMqtt ? (
+                  <div className="controls__status-row">
+                    <span>TTS MQTT:</span>
+                    <strong>
+                      {systemStatusQuery.data.workers.ttsMqtt.ok ? 'connected' : 'disconnected'}
+                      {systemStatusQuery.data.workers.ttsMqtt.lastRunAt
+                        ? `, last uplink ${formatRelativeTime(systemStatusQuery.data.workers.ttsMqtt.lastRunAt)}`
+                        : ''}
+                      {systemStatusQuery.data.workers.ttsMqtt.lastError
+                        ? ` (${systemStatusQuery.data.workers.ttsMqtt.lastError})`
+                        : ''}
+                    </strong>
+                  </div>
+                ) : null}
+                {systemStatusQuery.data.workers.meshtasticMqtt ? (
+                  <div className="controls__status-row">
+                    <span>Meshtastic MQTT:</span>
+                    <strong>
+                      {systemStatusQuery.data.workers.meshtasticMqtt.ok ? 'connected' : 'disconnected'}
+                      {systemStatusQuery.data.workers.meshtasticMqtt.lastRunAt
+                        ? `, last packet ${formatRelativeTime(systemStatusQuery.data.workers.meshtasticMqtt.lastRunAt)}`
+                        : ''}
+                      {systemStatusQuery.data.workers.meshtasticMqtt.lastError
+                        ? ` (${systemStatusQuery.data.workers.meshtasticMqtt.lastError})`
+                        : ''}
+                    </strong>
+                  </div>
+                ) : null}
                 <div
                   className={`controls__status-row ${
                     systemStatusQuery.data.ingest.latestWebhookError
@@ -2400,7 +2623,7 @@ function TelemetrySparkline({ series }: { series: TelemetrySeries }) {
   );
 }
 
-function CoverageLegend({ metric }: { metric: 'count' | 'rssiAvg' | 'snrAvg' }) {
+function CoverageLegend({ metric }: { metric: 'count' | 'rssiAvg' | 'snrAvg' | 'pdr' }) {
   const items: CoverageBucket[] = ['low', 'med', 'high'];
 
   return (
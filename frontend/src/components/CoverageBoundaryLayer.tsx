@@ -0,0 +1,62 @@
+import { useMemo } from 'react';
+import { Polygon, Tooltip } from 'react-leaflet';
+import type { CoverageBoundaryFeature } from '../api/types';
+import { resolveBucketColor, type CoverageBucket } from '../coverage/coverageBuckets';
+
+type CoverageBoundaryLayerProps = {
+  features: CoverageBoundaryFeature[];
+};
+
+// Features arrive strongest threshold first; outer (weaker) contours get the weaker bucket colors.
+const RANK_BUCKETS: CoverageBucket[] = ['high', 'med', 'low'];
+
+function formatThreshold(feature: CoverageBoundaryFeature): string {
+  const unit = feature.properties.metric === 'rssi' ? 'dBm' : 'dB';
+  const label = feature.properties.metric === 'rssi' ? 'RSSI' : 'SNR';
+  return `${label} ≥ ${feature.properties.threshold} ${unit}`;
+}
+
+export default function CoverageBoundaryLayer({ features }: CoverageBoundaryLayerProps) {
+  const polygons = useMemo(
+    () =>
+      features.map((feature, index) => {
+        const metric = feature.properties.metric === 'rssi' ? 'rssiAvg' : 'snrAvg';
+        const bucket = RANK_BUCKETS[Math.min(index, RANK_BUCKETS.length - 1)];
+        return {
+          feature,
+          color: resolveBucketColor(metric, bucket),
+          positions: feature.geometry.coordinates[0].map(
+            ([lon, lat]) => [lat, lon] as [number, number]
+          )
+        };
+      }),
+    [features]
+  );
+
+  return (
+    <>
+      {polygons.map(({ feature, color, positions }) => (
+        <Polygon
+          key={`boundary-${feature.properties.mode}-${feature.properties.threshold}`}
+          positions={positions}
+          pathOptions={{
+            color,
+            weight: 2,
+            opacity: 0.9,
+            fill: false,
+            className: 'coverage-boundary'
+          }}
+        >
+          <Tooltip direction="top" sticky>
+            <div>
+              <strong>Range boundary</strong> ({feature.properties.mode === 'sector' ? 'sectors' : 'hull'})
+            </div>
+            <div>{formatThreshold(feature)}</div>
+            <div>Points: {feature.properties.pointCount}</div>
+            <div>Area: {feature.properties.areaKm2.toFixed(2)} km²</div>
+          </Tooltip>
+        </Polygon>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,79 @@
+import { useMemo } from 'react';
+import { Rectangle, Tooltip } from 'react-leaflet';
+import type { CoverageDiffBin } from '../api/types';
+import type { CoverageMetric } from '../coverage/coverageBuckets';
+import {
+  coverageDiffColor,
+  formatCoverageDiffDelta,
+  getCoverageDiffBucket,
+  getCoverageDiffDelta
+} from '../coverage/coverageDiff';
+
+type CoverageDiffLayerProps = {
+  bins: CoverageDiffBin[];
+  binSizeDeg: number;
+  metric: CoverageMetric;
+};
+
+function formatSideValue(metric: CoverageMetric, side: CoverageDiffBin['base']): string {
+  if (!side) {
+    return 'not covered';
+  }
+  const value = side[metric];
+  if (value === null || !Number.isFinite(value)) {
+    return '—';
+  }
+  if (metric === 'pdr') {
+    return `${Math.round(value * 100)}%`;
+  }
+  return metric === 'count' ? String(value) : `${value.toFixed(1)} dB`;
+}
+
+export default function CoverageDiffLayer({ bins, binSizeDeg, metric }: CoverageDiffLayerProps) {
+  const cells = useMemo(
+    () =>
+      bins
+        .filter((bin) => Number.isFinite(bin.latBin) && Number.isFinite(bin.lonBin))
+        .map((bin) => {
+          const minLat = bin.latBin * binSizeDeg;
+          const minLon = bin.lonBin * binSizeDeg;
+          const bucket = getCoverageDiffBucket(metric, bin);
+          return {
+            bin,
+            bucket,
+            color: coverageDiffColor(bucket),
+            bounds: [
+              [minLat, minLon],
+              [minLat + binSizeDeg, minLon + binSizeDeg]
+            ] as [[number, number], [number, number]]
+          };
+        }),
+    [bins, binSizeDeg, metric]
+  );
+
+  return (
+    <>
+      {cells.map(({ bin, bucket, color, bounds }) => (
+        <Rectangle
+          key={`diff-${bin.latBin}-${bin.lonBin}`}
+          bounds={bounds}
+          pathOptions={{
+            color,
+            fillColor: color,
+            weight: 1,
+            opacity: 0.75,
+            fillOpacity: bucket === 'same' ? 0.35 : 0.7,
+            dashArray: bin.presence === 'both' ? undefined : '3 3',
+            className: `coverage-diff-bin coverage-diff-bin--${bucket}`
+          }}
+        >
+          <Tooltip direction="top" sticky>
+            <div>A: {formatSideValue(metric, bin.base)}</div>
+            <div>B: {formatSideValue(metric, bin.compare)}</div>
+            <div>Δ: {formatCoverageDiffDelta(metric, getCoverageDiffDelta(metric, bin))}</div>
+          </Tooltip>
+        </Rectangle>
+      ))}
+    </>
+  );
+}
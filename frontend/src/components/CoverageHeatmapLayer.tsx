@@ -203,6 +203,20 @@ function metricToWeight(metric: CoverageMetric, bin: CoverageBin): number {
     return 1;
   }
 
+  if (metric === 'pdr') {
+    const value = bin.pdr;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return 0;
+    }
+    if (value < 0.5) {
+      return interpolate(value, 0, 0.5, 0.2, 0.33);
+    }
+    if (value < 0.9) {
+      return interpolate(value, 0.5, 0.9, 0.34, 0.66);
+    }
+    return 1;
+  }
+
   const value = bin.snrAvg;
   if (typeof value !== 'number' || !Number.isFinite(value)) {
     return 0;
@@ -0,0 +1,81 @@
+import { useMemo } from 'react';
+import { Rectangle, Tooltip } from 'react-leaflet';
+import type { PredictedCoverageCell } from '../api/types';
+import {
+  getCoverageBucket,
+  resolveBucketColor,
+  type CoverageMetric
+} from '../coverage/coverageBuckets';
+
+type CoveragePredictedLayerProps = {
+  cells: PredictedCoverageCell[];
+  binSizeDeg: number;
+  metric: CoverageMetric;
+};
+
+// Counts and PDR are not interpolated, so those metrics fall back to RSSI.
+function resolvePredictedMetric(metric: CoverageMetric): 'rssiAvg' | 'snrAvg' {
+  return metric === 'snrAvg' ? 'snrAvg' : 'rssiAvg';
+}
+
+export default function CoveragePredictedLayer({
+  cells,
+  binSizeDeg,
+  metric
+}: CoveragePredictedLayerProps) {
+  const predictedMetric = resolvePredictedMetric(metric);
+  const rectangles = useMemo(
+    () =>
+      cells.flatMap((cell) => {
+        const value = cell[predictedMetric];
+        if (value === null || !Number.isFinite(cell.latBin) || !Number.isFinite(cell.lonBin)) {
+          return [];
+        }
+        const minLat = cell.latBin * binSizeDeg;
+        const minLon = cell.lonBin * binSizeDeg;
+        const bucket = getCoverageBucket(predictedMetric, value);
+        return [
+          {
+            cell,
+            value,
+            color: resolveBucketColor(predictedMetric, bucket),
+            bounds: [
+              [minLat, minLon],
+              [minLat + binSizeDeg, minLon + binSizeDeg]
+            ] as [[number, number], [number, number]]
+          }
+        ];
+      }),
+    [cells, binSizeDeg, predictedMetric]
+  );
+
+  return (
+    <>
+      {rectangles.map(({ cell, value, color, bounds }) => (
+        <Rectangle
+          key={`predicted-${cell.latBin}-${cell.lonBin}`}
+          bounds={bounds}
+          pathOptions={{
+            color,
+            fillColor: color,
+            weight: 1,
+            opacity: 0.35,
+            dashArray: '2 4',
+            fillOpacity: 0.1 + 0.35 * cell.confidence,
+            className: 'coverage-bin coverage-bin--predicted'
+          }}
+        >
+          <Tooltip direction="top" sticky>
+            <div>
+              <strong>Predicted</strong> (interpolated)
+            </div>
+            <div>
+              {predictedMetric === 'rssiAvg' ? 'RSSI' : 'SNR'}: {value.toFixed(1)} dB
+            </div>
+            <div>Confidence: {Math.round(cell.confidence * 100)}%</div>
+          </Tooltip>
+        </Rectangle>
+      ))}
+    </>
+  );
+}
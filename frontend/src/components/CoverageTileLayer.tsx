@@ -0,0 +1,86 @@
+import { useEffect } from 'react';
+import L from 'leaflet';
+import type { ExpressionSpecification, StyleSpecification } from 'maplibre-gl';
+import { useMap } from 'react-leaflet';
+import {
+  resolveBucketColor,
+  type CoverageBucket,
+  type CoverageMetric
+} from '../coverage/coverageBuckets';
+
+// Must match COVERAGE_TILE_LAYER in the backend MVT encoder.
+const SOURCE_LAYER = 'coverage';
+const TILE_PANE = 'covTiles';
+
+// Lower bounds of the med/high buckets from getCoverageBucket.
+const BUCKET_STOPS: Record<CoverageMetric, [number, number]> = {
+  count: [6, 21],
+  rssiAvg: [-109, -89],
+  snrAvg: [-4, 6],
+  pdr: [0.5, 0.9]
+};
+
+type CoverageTileLayerProps = {
+  tileUrl: string;
+  metric: CoverageMetric;
+  theme?: 'light' | 'dark';
+};
+
+function buildFillColorExpression(metric: CoverageMetric): ExpressionSpecification {
+  const color = (bucket: CoverageBucket) => resolveBucketColor(metric, bucket);
+  const [medStop, highStop] = BUCKET_STOPS[metric];
+  return [
+    'case',
+    ['has', metric],
+    ['step', ['get', metric], color('low'), medStop, color('med'), highStop, color('high')],
+    color('none')
+  ];
+}
+
+function buildCoverageTileStyle(tileUrl: string, metric: CoverageMetric): StyleSpecification {
+  return {
+    version: 8,
+    sources: {
+      coverage: {
+        type: 'vector',
+        tiles: [tileUrl],
+        minzoom: 0,
+        maxzoom: 22
+      }
+    },
+    layers: [
+      {
+        id: 'coverage-fill',
+        type: 'fill',
+        source: 'coverage',
+        'source-layer': SOURCE_LAYER,
+        paint: {
+          'fill-color': buildFillColorExpression(metric),
+          'fill-opacity': 0.62,
+          'fill-outline-color': buildFillColorExpression(metric)
+        }
+      }
+    ]
+  };
+}
+
+export default function CoverageTileLayer({ tileUrl, metric, theme }: CoverageTileLayerProps) {
+  const map = useMap();
+
+  // Bucket colors come from theme CSS variables, so the style is rebuilt when the theme flips.
+  useEffect(() => {
+    const pane = map.getPane(TILE_PANE) ?? map.createPane(TILE_PANE);
+    pane.style.zIndex = '450';
+    pane.style.pointerEvents = 'none';
+
+    const style = buildCoverageTileStyle(tileUrl, metric);
+    const layer = L.maplibreGL({ style, pane: TILE_PANE } as L.LeafletMaplibreGLOptions);
+    layer.addTo(map);
+
+    return () => {
+      map.removeLayer(layer);
+    };
+  }, [map, tileUrl, metric, theme]);
+
+  return null;
+}
@@ -324,8 +324,15 @@ function toDateTimeLocalValue(value: string | undefined): string {
   )}:${pad(parsed.getMinutes())}`;
 }
 
+// Uplinks are the common case; other LoRaWAN messages (joins, downlink outcomes,
+// solved locations) lead the summary with their type.
+const PLAIN_LORAWAN_EVENT_TYPES = new Set(['uplink', 'chirpstack.uplink']);
+
 function buildSummary(item: UnifiedEventListItem): string {
   const parts: string[] = [];
+  if (item.source === 'lorawan' && item.eventType && !PLAIN_LORAWAN_EVENT_TYPES.has(item.eventType)) {
+    parts.push(item.eventType);
+  }
   if (item.packetId) {
     parts.push(`pkt ${item.packetId.slice(0, 8)}`);
   }
@@ -2234,6 +2241,12 @@ export default function EventsExplorerPanel({
                 <dd>{selectedEventDetail.eventType ?? '—'}</dd>
                 <dt>Error</dt>
                 <dd>{selectedEventDetail.error ?? '—'}</dd>
+                {selectedEventDetail.decodeError ? (
+                  <>
+                    <dt>Decode error</dt>
+                    <dd>{selectedEventDetail.decodeError}</dd>
+                  </>
+                ) : null}
               </dl>
 
               {highlights.length > 0 ? (
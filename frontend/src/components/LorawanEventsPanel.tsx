@@ -151,6 +151,41 @@ function pickBestGateway(payload: unknown): {
   return best;
 }
 
+function getSolvedLocation(payload: unknown): {
+  lat: number;
+  lon: number;
+  accuracy?: number;
+  service?: string;
+} | null {
+  if (!isRecord(payload) || !isRecord(payload.location_solved)) {
+    return null;
+  }
+  const solved = payload.location_solved;
+  const location = solved.location;
+  if (!isRecord(location) || typeof location.latitude !== 'number' || typeof location.longitude !== 'number') {
+    return null;
+  }
+  return {
+    lat: location.latitude,
+    lon: location.longitude,
+    accuracy: typeof location.accuracy === 'number' ? location.accuracy : undefined,
+    service: typeof solved.service === 'string' ? solved.service : undefined
+  };
+}
+
+function getDownlinkError(payload: unknown): string | null {
+  if (!isRecord(payload) || !isRecord(payload.downlink_failed)) {
+    return null;
+  }
+  const error = payload.downlink_failed.error;
+  if (!isRecord(error)) {
+    return null;
+  }
+  const name = typeof error.name === 'string' ? error.name : null;
+  const message = typeof error.message_format === 'string' ? error.message_format : null;
+  return [name, message].filter(Boolean).join(': ') || null;
+}
+
 export default function LorawanEventsPanel({ deviceUid }: LorawanEventsPanelProps) {
   const { data: eventsResponse, isLoading, refetch, error } = useLorawanEvents(deviceUid, 50);
   const events = eventsResponse?.items ?? [];
@@ -164,6 +199,8 @@ export default function LorawanEventsPanel({ deviceUid }: LorawanEventsPanelProp
   const decodedPayload = getDecodedPayload(detailPayload);
   const hasGps = hasGpsKeys(decodedPayload);
   const bestGateway = pickBestGateway(detailPayload);
+  const solvedLocation = getSolvedLocation(detailPayload);
+  const downlinkError = getDownlinkError(detailPayload);
   const listErrorMessage = getErrorMessage(error);
   const listErrorStatus = getErrorStatus(error);
   const detailErrorMessage = getErrorMessage(detailError);
@@ -234,6 +271,7 @@ export default function LorawanEventsPanel({ deviceUid }: LorawanEventsPanelProp
             <thead>
               <tr>
                 <th>Received</th>
+                <th>Type</th>
                 <th>Processed</th>
                 <th>Device</th>
                 <th>Error</th>
@@ -253,6 +291,7 @@ export default function LorawanEventsPanel({ deviceUid }: LorawanEventsPanelProp
                       onClick={() => setExpandedId(isExpanded ? null : event.id)}
                     >
                       <td>{formatTimestamp(event.receivedAt)}</td>
+                      <td>{event.eventType ?? 'uplink'}</td>
                       <td>{formatTimestamp(event.processedAt)}</td>
                       <td>{event.deviceUid ?? '—'}</td>
                       <td>{event.processingError ?? '—'}</td>
@@ -277,7 +316,7 @@ export default function LorawanEventsPanel({ deviceUid }: LorawanEventsPanelProp
                     </tr>
                     {isExpanded ? (
                       <tr className="lorawan-panel__details-row">
-                        <td colSpan={6}>
+                        <td colSpan={7}>
                           {isDetailLoading ? (
                             <div className="lorawan-panel__details">Loading details…</div>
                           ) : detailError ? (
@@ -286,10 +325,36 @@ export default function LorawanEventsPanel({ deviceUid }: LorawanEventsPanelProp
                             </div>
                           ) : (
                             <dl className="lorawan-panel__details">
+                              <dt>Type</dt>
+                              <dd>{(detail ? detail.eventType : event.eventType) ?? 'uplink'}</dd>
                               <dt>Device</dt>
                               <dd>{(detail ? detail.deviceUid : event.deviceUid) ?? '—'}</dd>
                               <dt>Processing error</dt>
                               <dd>{(detail ? detail.processingError : event.processingError) ?? '—'}</dd>
+                              {detail?.decodeError ? (
+                                <>
+                                  <dt>Decode error</dt>
+                                  <dd>{detail.decodeError}</dd>
+                                </>
+                              ) : null}
+                              {solvedLocation ? (
+                                <>
+                                  <dt>Solved location</dt>
+                                  <dd>
+                                    {`${solvedLocation.lat.toFixed(5)}, ${solvedLocation.lon.toFixed(5)}`}
+                                    {solvedLocation.accuracy !== undefined
+                                      ? ` ±${formatNumber(solvedLocation.accuracy)} m`
+                                      : ''}
+                                    {solvedLocation.service ? ` (${solvedLocation.service})` : ''}
+                                  </dd>
+                                </>
+                              ) : null}
+                              {downlinkError ? (
+                                <>
+                                  <dt>Downlink error</dt>
+                                  <dd>{downlinkError}</dd>
+                                </>
+                              ) : null}
                               <dt>GPS in payload</dt>
                               <dd>{hasGps ? 'Yes' : 'No'}</dd>
                               <dt>Best gateway</dt>
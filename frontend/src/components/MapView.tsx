@@ -27,7 +27,12 @@ import L from 'leaflet';
 import '@maplibre/maplibre-gl-leaflet';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import simplify from 'simplify-js';
-import type { CoverageBin } from '../api/types';
+import type {
+  CoverageBin,
+  CoverageBoundaryFeature,
+  CoverageDiffBin,
+  PredictedCoverageCell
+} from '../api/types';
 import DeviceIcon, {
   buildDeviceIdentityLabel,
   getDeviceIconDefinition,
@@ -47,7 +52,11 @@ import {
   resolveBucketColor,
   type CoverageBucket
 } from '../coverage/coverageBuckets';
+import CoverageBoundaryLayer from './CoverageBoundaryLayer';
+import CoverageDiffLayer from './CoverageDiffLayer';
 import CoverageHeatmapLayer from './CoverageHeatmapLayer';
+import CoveragePredictedLayer from './CoveragePredictedLayer';
+import CoverageTileLayer from './CoverageTileLayer';
 import {
   TRACK_DIRECTION_ARROW_CONFIG,
   TRACK_DIRECTION_ARROW_GEOMETRY,
@@ -88,8 +97,8 @@ type MapViewProps = {
   theme?: 'light' | 'dark';
   mapLayerMode?: 'points' | 'coverage';
   coverageScope?: 'device' | 'session';
-  coverageVisualizationMode?: 'bins' | 'heatmap';
-  coverageMetric?: 'count' | 'rssiAvg' | 'snrAvg';
+  coverageVisualizationMode?: 'bins' | 'heatmap' | 'tiles';
+  coverageMetric?: 'count' | 'rssiAvg' | 'snrAvg' | 'pdr';
   measurements?: MapPoint[];
   compareMeasurements?: MapPoint[];
   comparisonTracks?: ComparisonTrack[];
@@ -98,6 +107,12 @@ type MapViewProps = {
   overviewTrack?: TrackPoint[];
   coverageBins?: CoverageBin[];
   coverageBinSize?: number | null;
+  coverageTileUrl?: string | null;
+  coverageDiffBins?: CoverageDiffBin[];
+  coverageDiffBinSize?: number | null;
+  predictedCoverageCells?: PredictedCoverageCell[];
+  predictedCoverageBinSize?: number | null;
+  coverageBoundaries?: CoverageBoundaryFeature[];
   showPoints?: boolean;
   showTrack?: boolean;
   showCoverageTracks?: boolean;
@@ -903,6 +918,12 @@ const MapView = forwardRef<MapViewHandle, MapViewProps>(function MapView(
   overviewTrack = [],
   coverageBins = [],
   coverageBinSize = 0.001,
+  coverageTileUrl = null,
+  coverageDiffBins = [],
+  coverageDiffBinSize = null,
+  predictedCoverageCells = [],
+  predictedCoverageBinSize = null,
+  coverageBoundaries = [],
   showPoints = true,
   showTrack = true,
   showCoverageTracks = true,
@@ -1134,7 +1155,9 @@ ref
           ? bin.count
           : coverageMetric === 'snrAvg'
             ? bin.snrAvg
-            : bin.rssiAvg;
+            : coverageMetric === 'pdr'
+              ? bin.pdr
+              : bin.rssiAvg;
       const bucket = getCoverageBucket(coverageMetric, metricValue);
       return {
         ...bin,
@@ -1355,6 +1378,26 @@ ref
           theme={theme}
         />
       )}
+      {mapLayerMode === 'coverage' && coverageVisualizationMode === 'tiles' && coverageTileUrl && (
+        <CoverageTileLayer tileUrl={coverageTileUrl} metric={coverageMetric} theme={theme} />
+      )}
+      {mapLayerMode === 'coverage' && predictedCoverageCells.length > 0 && predictedCoverageBinSize ? (
+        <CoveragePredictedLayer
+          cells={predictedCoverageCells}
+          binSizeDeg={predictedCoverageBinSize}
+          metric={coverageMetric}
+        />
+      ) : null}
+      {mapLayerMode === 'coverage' && coverageBoundaries.length > 0 ? (
+        <CoverageBoundaryLayer features={coverageBoundaries} />
+      ) : null}
+      {coverageDiffBins.length > 0 && coverageDiffBinSize ? (
+        <CoverageDiffLayer
+          bins={coverageDiffBins}
+          binSizeDeg={coverageDiffBinSize}
+          metric={coverageMetric}
+        />
+      ) : null}
       {shouldRenderTracks && overviewTrackPositions.length > 0 && (
         <Polyline
           positions={overviewTrackPositions}
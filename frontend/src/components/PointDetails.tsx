@@ -2,12 +2,21 @@ import { useEffect, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import {
   getMeasurements,
+  getTerrainProfile,
   getUnifiedEventById,
   listUnifiedEvents,
   type MeasurementQueryParams
 } from '../api/endpoints';
-import type { Measurement, UnifiedEventDetail, UnifiedEventListItem } from '../api/types';
+import { ApiError } from '../api/http';
+import type {
+  Measurement,
+  TerrainLineOfSight,
+  TerrainProfileResponse,
+  UnifiedEventDetail,
+  UnifiedEventListItem
+} from '../api/types';
 import type { EventsNavigationInput } from '../utils/eventsNavigation';
+import TerrainProfileChart from './charts/TerrainProfileChart';
 
 type PointDetailsProps = {
   measurement?: Measurement | null;
@@ -79,6 +88,33 @@ type DetailRow = {
 
 const RAW_EVENT_JSON_EXPANDED_KEY = 'pointDetailsRawEventJsonExpanded';
 const ALL_METADATA_EXPANDED_KEY = 'pointDetailsAllMetadataExpanded';
+const TERRAIN_PROFILE_EXPANDED_KEY = 'pointDetailsTerrainProfileExpanded';
+
+const LINE_OF_SIGHT_LABELS: Record<TerrainLineOfSight, string> = {
+  clear: 'Clear (Fresnel zone ≥60% free)',
+  fresnelPartial: 'Line of sight, Fresnel zone partly blocked',
+  obstructed: 'Obstructed by terrain',
+  unknown: 'Unknown (missing elevation data)'
+};
+
+function formatMeters(value: number | null | undefined): string {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return '—';
+  }
+  return Math.abs(value) >= 1000 ? `${(value / 1000).toFixed(2)} km` : `${Math.round(value)} m`;
+}
+
+function describeTerrainError(error: unknown): string {
+  if (error instanceof ApiError) {
+    if (error.status === 503) {
+      return 'Terrain data is not configured on the server (TERRAIN_DIR).';
+    }
+    if (error.status === 400) {
+      return error.message;
+    }
+  }
+  return 'Could not load terrain profile.';
+}
 
 function readStoredExpandedState(key: string, fallback = false): boolean {
   if (typeof window === 'undefined') {
@@ -117,6 +153,9 @@ export default function PointDetails({ measurement, deviceUid, onOpenEvents }: P
   const [allMetadataExpanded, setAllMetadataExpanded] = useState(() =>
     readStoredExpandedState(ALL_METADATA_EXPANDED_KEY, false)
   );
+  const [terrainProfileExpanded, setTerrainProfileExpanded] = useState(() =>
+    readStoredExpandedState(TERRAIN_PROFILE_EXPANDED_KEY, false)
+  );
 
   useEffect(() => {
     storeExpandedState(RAW_EVENT_JSON_EXPANDED_KEY, rawEventExpanded);
@@ -126,6 +165,10 @@ export default function PointDetails({ measurement, deviceUid, onOpenEvents }: P
     storeExpandedState(ALL_METADATA_EXPANDED_KEY, allMetadataExpanded);
   }, [allMetadataExpanded]);
 
+  useEffect(() => {
+    storeExpandedState(TERRAIN_PROFILE_EXPANDED_KEY, terrainProfileExpanded);
+  }, [terrainProfileExpanded]);
+
   const detailQuery = useQuery<Measurement | null>({
     queryKey: [
       'point-details-measurement',
@@ -181,6 +224,15 @@ export default function PointDetails({ measurement, deviceUid, onOpenEvents }: P
     staleTime: 15_000,
     queryFn: ({ signal }) => getUnifiedEventById(measurementEventId as string, { signal })
   });
+  const terrainMeasurementId = measurement?.id ?? null;
+  const terrainQuery = useQuery<TerrainProfileResponse>({
+    queryKey: ['point-details-terrain-profile', terrainMeasurementId],
+    enabled: Boolean(terrainProfileExpanded && terrainMeasurementId),
+    staleTime: 60_000,
+    retry: false,
+    queryFn: ({ signal }) =>
+      getTerrainProfile({ measurementId: terrainMeasurementId as string }, { signal })
+  });
   if (!detailMeasurement) {
     return (
       <aside className="point-details" aria-label="Point details">
@@ -439,6 +491,78 @@ export default function PointDetails({ measurement, deviceUid, onOpenEvents }: P
             </dl>
           </>
         ) : null}
+        <section className="point-details__collapsible">
+          <button
+            type="button"
+            className="point-details__collapsible-toggle"
+            onClick={() => setTerrainProfileExpanded((value) => !value)}
+            aria-expanded={terrainProfileExpanded}
+            aria-controls="point-details-terrain-profile"
+          >
+            <span>Terrain profile</span>
+            <span className="point-details__collapsible-symbol">
+              {terrainProfileExpanded ? '-' : '+'}
+            </span>
+          </button>
+          {terrainProfileExpanded ? (
+            <div id="point-details-terrain-profile" className="point-details__collapsible-body">
+              {terrainQuery.isLoading ? (
+                <div className="point-details__empty">Loading terrain profile…</div>
+              ) : terrainQuery.error ? (
+                <div className="point-details__empty">{describeTerrainError(terrainQuery.error)}</div>
+              ) : terrainQuery.data ? (
+                <div className="point-details__terrain">
+                  <TerrainProfileChart
+                    samples={terrainQuery.data.samples}
+                    worstDistanceM={terrainQuery.data.summary.worstDistanceM}
+                    ariaLabel="Terrain profile from home to this point"
+                  />
+                  <dl>
+                    <div>
+                      <dt>Line of sight</dt>
+                      <dd>{LINE_OF_SIGHT_LABELS[terrainQuery.data.summary.lineOfSight]}</dd>
+                    </div>
+                    <div>
+                      <dt>Distance</dt>
+                      <dd>{formatMeters(terrainQuery.data.summary.distanceM)}</dd>
+                    </div>
+                    <div>
+                      <dt>Min clearance</dt>
+                      <dd>{formatMeters(terrainQuery.data.summary.minClearanceM)}</dd>
+                    </div>
+                    <div>
+                      <dt>Fresnel clearance</dt>
+                      <dd>
+                        {terrainQuery.data.summary.minFresnelClearance === null
+                          ? '—'
+                          : `${Math.round(terrainQuery.data.summary.minFresnelClearance * 100)}%`}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt>Frequency</dt>
+                      <dd>
+                        {terrainQuery.data.frequencyMhz.toFixed(1)} MHz
+                        {terrainQuery.data.frequencySource === 'default' ? ' (default)' : ''}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt>Antennas</dt>
+                      <dd>
+                        home {terrainQuery.data.home.antennaM} m / point{' '}
+                        {terrainQuery.data.point.antennaM} m
+                      </dd>
+                    </div>
+                  </dl>
+                  {terrainQuery.data.missingTiles.length > 0 ? (
+                    <div className="point-details__empty">
+                      Missing elevation tiles: {terrainQuery.data.missingTiles.join(', ')}
+                    </div>
+                  ) : null}
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+        </section>
         <section className="point-details__collapsible">
           <button
             type="button"
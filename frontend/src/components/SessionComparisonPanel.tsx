@@ -1,4 +1,13 @@
 import type { CSSProperties } from 'react';
+import type { CoverageDiffBin } from '../api/types';
+import type { CoverageMetric } from '../coverage/coverageBuckets';
+import {
+  COVERAGE_DIFF_BUCKETS,
+  coverageDiffColor,
+  coverageDiffLabel,
+  getCoverageDiffBucket,
+  type CoverageDiffBucket
+} from '../coverage/coverageDiff';
 import {
   formatDistanceMeters,
   formatSessionDuration,
@@ -27,19 +36,48 @@ export type SessionComparisonItem = {
   medianSnr: number | null;
   farthestPoint: SessionComparisonRangePoint | null;
   lastRangePoint: SessionComparisonRangePoint | null;
+  pathLossExponent: number | null;
+  pathLossSpread: number | null;
   isVisible: boolean;
   isLoading: boolean;
   error: string | null;
   style: SessionComparisonStyle;
 };
 
+export type SessionComparisonCoverageDiff = {
+  enabled: boolean;
+  metric: CoverageMetric;
+  baseLabel: string;
+  compareLabel: string;
+  bins: CoverageDiffBin[];
+  isLoading: boolean;
+  error: string | null;
+};
+
 type SessionComparisonPanelProps = {
   items: SessionComparisonItem[];
   onToggleVisibility: (sessionId: string) => void;
   onClearComparison: () => void;
   onFitAll: () => void;
+  coverageDiff?: SessionComparisonCoverageDiff;
+  onToggleCoverageDiff?: (enabled: boolean) => void;
+  onCoverageDiffMetricChange?: (metric: CoverageMetric) => void;
 };
 
+function formatPathLossExponent(value: number | null | undefined): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) {
+    return '—';
+  }
+  return `n = ${value.toFixed(2)}`;
+}
+
+function formatPathLossSpread(value: number | null | undefined): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) {
+    return '—';
+  }
+  return `±${value.toFixed(1)} dB`;
+}
+
 type ComparisonLeaderMetric = 'range' | 'rssi' | 'snr';
 
 type ComparisonLeader = {
@@ -133,11 +171,87 @@ function renderLeaderMetric(items: SessionComparisonItem[], metric: ComparisonLe
   );
 }
 
+function countDiffBuckets(
+  bins: CoverageDiffBin[],
+  metric: CoverageMetric
+): Record<CoverageDiffBucket, number> {
+  const counts = Object.fromEntries(COVERAGE_DIFF_BUCKETS.map((bucket) => [bucket, 0])) as Record<
+    CoverageDiffBucket,
+    number
+  >;
+  for (const bin of bins) {
+    counts[getCoverageDiffBucket(metric, bin)] += 1;
+  }
+  return counts;
+}
+
+function renderCoverageDiff(
+  coverageDiff: SessionComparisonCoverageDiff,
+  onToggle?: (enabled: boolean) => void,
+  onMetricChange?: (metric: CoverageMetric) => void
+) {
+  const counts = countDiffBuckets(coverageDiff.bins, coverageDiff.metric);
+
+  return (
+    <div className="session-compare-panel__diff">
+      <label className="session-compare-panel__visibility">
+        <input
+          type="checkbox"
+          checked={coverageDiff.enabled}
+          onChange={(event) => onToggle?.(event.target.checked)}
+        />
+        Coverage diff
+      </label>
+      <span className="session-compare-panel__diff-scopes">
+        A: {coverageDiff.baseLabel} → B: {coverageDiff.compareLabel}
+      </span>
+      {coverageDiff.enabled ? (
+        <>
+          <select
+            aria-label="Coverage diff metric"
+            value={coverageDiff.metric}
+            onChange={(event) => onMetricChange?.(event.target.value as CoverageMetric)}
+          >
+            <option value="count">Δ Count</option>
+            <option value="rssiAvg">Δ RSSI avg</option>
+            <option value="snrAvg">Δ SNR avg</option>
+            <option value="pdr">Δ PDR</option>
+          </select>
+          {coverageDiff.error ? (
+            <div className="session-compare-panel__message session-compare-panel__message--error">
+              {coverageDiff.error}
+            </div>
+          ) : coverageDiff.isLoading ? (
+            <div className="session-compare-panel__message">Loading coverage diff…</div>
+          ) : (
+            <ul className="session-compare-panel__diff-legend">
+              {COVERAGE_DIFF_BUCKETS.map((bucket) => (
+                <li key={bucket}>
+                  <span
+                    className="session-compare-panel__diff-swatch"
+                    style={{ backgroundColor: coverageDiffColor(bucket) }}
+                    aria-hidden="true"
+                  />
+                  <span>{coverageDiffLabel(coverageDiff.metric, bucket)}</span>
+                  <strong>{counts[bucket].toLocaleString()}</strong>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
+
 export default function SessionComparisonPanel({
   items,
   onToggleVisibility,
   onClearComparison,
-  onFitAll
+  onFitAll,
+  coverageDiff,
+  onToggleCoverageDiff,
+  onCoverageDiffMetricChange
 }: SessionComparisonPanelProps) {
   if (items.length < 2) {
     return null;
@@ -178,6 +292,10 @@ export default function SessionComparisonPanel({
           {renderLeaderMetric(items, 'snr')}
         </div>
 
+        {coverageDiff
+          ? renderCoverageDiff(coverageDiff, onToggleCoverageDiff, onCoverageDiffMetricChange)
+          : null}
+
         {!hasRangeData ? (
           <div className="session-compare-panel__notice">
             Home/base coordinates are required to rank max range and edge signal.
@@ -261,6 +379,14 @@ export default function SessionComparisonPanel({
                       <dt>Median SNR</dt>
                       <dd>{formatSignalMetric(item.medianSnr, 'snr')}</dd>
                     </div>
+                    <div>
+                      <dt>Path-loss exponent</dt>
+                      <dd>{formatPathLossExponent(item.pathLossExponent)}</dd>
+                    </div>
+                    <div>
+                      <dt>Fit spread</dt>
+                      <dd>{formatPathLossSpread(item.pathLossSpread)}</dd>
+                    </div>
                   </dl>
                 </>
               )}
@@ -1,6 +1,9 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
+import { useQueries } from '@tanstack/react-query';
+import { getSessionSignalVsDistance } from '../api/endpoints';
 import { getApiBaseUrl } from '../api/http';
 import type {
+  SessionSignalDistance,
   SessionSignalHistogramBin,
   SessionSignalSeriesItem,
   SessionStats
@@ -10,20 +13,51 @@ import {
   useSessionById,
   useSessionSignalHistogram,
   useSessionSignalSeries,
+  useSessionSignalVsDistance,
   useSessionStats,
   useUpdateSession
 } from '../query/sessions';
+import ShareLinksPanel from './ShareLinksPanel';
 import MiniLineChart from './charts/MiniLineChart';
+import SignalDistanceChart, { type SignalDistanceSeries } from './charts/SignalDistanceChart';
+
+type SessionDetailsOverlay = {
+  id: string;
+  label: string;
+  color: string;
+};
 
 type SessionDetailsPanelProps = {
   sessionId: string;
   onFitMapToSession: (sessionId: string, bbox: SessionStats['bbox']) => void | Promise<void>;
+  comparisonSessions?: SessionDetailsOverlay[];
 };
 
 const hasQueryApiKey = Boolean((import.meta.env.VITE_QUERY_API_KEY ?? '').trim());
 const SESSION_DETAILS_EXPANDED_KEY = 'sessionDetailsExpanded';
 const SESSION_DETAILS_METRIC_KEY = 'sessionDetailsMetric';
 
+type SessionExportFormat =
+  | 'geojson'
+  | 'gpx'
+  | 'kml'
+  | 'kmz'
+  | 'csv'
+  | 'ndjson'
+  | 'ttnmapper.csv'
+  | 'ttnmapper.json';
+
+const SESSION_EXPORT_FORMATS: Array<{ format: SessionExportFormat; label: string }> = [
+  { format: 'geojson', label: 'Export GeoJSON' },
+  { format: 'gpx', label: 'Export GPX' },
+  { format: 'kml', label: 'Export KML' },
+  { format: 'kmz', label: 'Export KMZ' },
+  { format: 'csv', label: 'Export CSV' },
+  { format: 'ndjson', label: 'Export NDJSON' },
+  { format: 'ttnmapper.csv', label: 'Export TTN Mapper CSV' },
+  { format: 'ttnmapper.json', label: 'Export TTN Mapper JSON' }
+];
+
 function readStoredSessionDetailsExpanded(): boolean {
   if (typeof window === 'undefined') {
     return false;
@@ -39,13 +73,37 @@ function readStoredSignalMetric(): 'rssi' | 'snr' {
   return stored === 'snr' ? 'snr' : 'rssi';
 }
 
-export default function SessionDetailsPanel({ sessionId, onFitMapToSession }: SessionDetailsPanelProps) {
+function toSignalDistanceSeries(
+  id: string,
+  label: string,
+  color: string | undefined,
+  data: SessionSignalDistance | undefined,
+  metric: 'rssi' | 'snr'
+): SignalDistanceSeries {
+  return {
+    id,
+    label,
+    color,
+    points: (data?.items ?? []).flatMap((item) => {
+      const value = metric === 'rssi' ? item.rssi : item.snr;
+      return typeof value === 'number' && Number.isFinite(value)
+        ? [{ distanceMeters: item.distanceMeters, value }]
+        : [];
+    })
+  };
+}
+
+export default function SessionDetailsPanel({
+  sessionId,
+  onFitMapToSession,
+  comparisonSessions = []
+}: SessionDetailsPanelProps) {
   const [nameDraft, setNameDraft] = useState('');
   const [notesDraft, setNotesDraft] = useState('');
   const [isExpanded, setIsExpanded] = useState<boolean>(() => readStoredSessionDetailsExpanded());
   const [metadataError, setMetadataError] = useState<string | null>(null);
   const [actionError, setActionError] = useState<string | null>(null);
-  const [isExporting, setIsExporting] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<SessionExportFormat | null>(null);
   const [exportError, setExportError] = useState<string | null>(null);
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
@@ -59,6 +117,18 @@ export default function SessionDetailsPanel({ sessionId, onFitMapToSession }: Se
   const signalHistogramQuery = useSessionSignalHistogram(sessionId, signalMetric, {
     enabled: Boolean(sessionId && isExpanded)
   });
+  const signalDistanceQuery = useSessionSignalVsDistance(sessionId, signalMetric, {
+    enabled: Boolean(sessionId && isExpanded)
+  });
+  const overlaySessions = comparisonSessions.filter((overlay) => overlay.id !== sessionId);
+  const overlayDistanceQueries = useQueries({
+    queries: overlaySessions.map((overlay) => ({
+      queryKey: ['sessionSignalVsDistance', overlay.id, signalMetric],
+      queryFn: ({ signal }: { signal: AbortSignal }) =>
+        getSessionSignalVsDistance(overlay.id, { metric: signalMetric }, { signal }),
+      enabled: isExpanded
+    }))
+  });
   const updateSessionMutation = useUpdateSession();
   const deleteSessionMutation = useDeleteSession();
 
@@ -103,6 +173,25 @@ export default function SessionDetailsPanel({ sessionId, onFitMapToSession }: Se
     : null;
   const signalItems = signalSeriesQuery.data?.items ?? [];
   const signalBins = signalHistogramQuery.data?.bins ?? [];
+  const signalDistanceSeries: SignalDistanceSeries[] = [
+    toSignalDistanceSeries(
+      sessionId,
+      session?.name?.trim() || `Session ${sessionId.slice(0, 8)}`,
+      undefined,
+      signalDistanceQuery.data,
+      signalMetric
+    ),
+    ...overlaySessions.map((overlay, index) =>
+      toSignalDistanceSeries(
+        overlay.id,
+        overlay.label,
+        overlay.color,
+        overlayDistanceQueries[index]?.data,
+        signalMetric
+      )
+    )
+  ];
+  const hasSignalDistancePoints = signalDistanceSeries.some((entry) => entry.points.length > 0);
   const durationMs = useMemo(() => {
     const startIso = stats?.minCapturedAt ?? session?.startedAt ?? null;
     const rawEndIso = stats?.maxCapturedAt ?? session?.endedAt ?? null;
@@ -228,12 +317,17 @@ export default function SessionDetailsPanel({ sessionId, onFitMapToSession }: Se
     );
   };
 
-  const handleExportGeoJson = async () => {
+  const handleExport = async (format: SessionExportFormat) => {
     setExportError(null);
-    setIsExporting(true);
+    setExportingFormat(format);
     try {
       const apiBaseUrl = getApiBaseUrl();
-      const url = `${apiBaseUrl}/api/export/session/${sessionId}.geojson`;
+      // CSV and NDJSON come from the streamed measurement export, which has no point cap.
+      const path =
+        format === 'csv' || format === 'ndjson'
+          ? `/api/export/measurements.${format}?sessionId=${encodeURIComponent(sessionId)}`
+          : `/api/export/session/${sessionId}.${format}`;
+      const url = `${apiBaseUrl}${path}`;
       const queryKey = import.meta.env.VITE_QUERY_API_KEY ?? '';
       const headers = queryKey ? { 'X-API-Key': queryKey } : undefined;
       const response = await fetch(url, { headers });
@@ -249,7 +343,7 @@ export default function SessionDetailsPanel({ sessionId, onFitMapToSession }: Se
       const objectUrl = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = objectUrl;
-      link.download = `session-${sessionId}.geojson`;
+      link.download = `session-${sessionId}.${format}`;
       document.body.appendChild(link);
       link.click();
       link.remove();
@@ -257,7 +351,7 @@ export default function SessionDetailsPanel({ sessionId, onFitMapToSession }: Se
     } catch {
       setExportError('Export failed');
     } finally {
-      setIsExporting(false);
+      setExportingFormat(null);
     }
   };
 
@@ -331,14 +425,17 @@ export default function SessionDetailsPanel({ sessionId, onFitMapToSession }: Se
             >
               Fit map to session
             </button>
-            <button
-              type="button"
-              className="controls__button controls__button--compact"
-              onClick={() => void handleExportGeoJson()}
-              disabled={isExporting}
-            >
-              {isExporting ? 'Exporting…' : 'Export GeoJSON'}
-            </button>
+            {SESSION_EXPORT_FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                type="button"
+                className="controls__button controls__button--compact"
+                onClick={() => void handleExport(format)}
+                disabled={exportingFormat !== null}
+              >
+                {exportingFormat === format ? 'Exporting…' : label}
+              </button>
+            ))}
           </div>
           {statsQuery.error ? (
             <div className="session-details-panel__error">Session stats unavailable.</div>
@@ -415,6 +512,12 @@ export default function SessionDetailsPanel({ sessionId, onFitMapToSession }: Se
                     : '—'}
                 </strong>
               </div>
+              <div className="session-details-panel__row">
+                <span>Packet delivery</span>
+                <strong title="From LoRaWAN frame counter gaps">
+                  {formatPacketDelivery(stats?.packetDelivery ?? null)}
+                </strong>
+              </div>
             </div>
           </div>
           {hasQueryApiKey ? (
@@ -476,6 +579,29 @@ export default function SessionDetailsPanel({ sessionId, onFitMapToSession }: Se
           ) : (
             <SignalHistogramChart bins={signalBins} metric={signalMetric} />
           )}
+          <div className="session-details-panel__section-title">Signal vs distance</div>
+          {signalDistanceQuery.isLoading ? (
+            <div className="session-details-panel__empty">Loading signal vs distance...</div>
+          ) : signalDistanceQuery.error ? (
+            <div className="session-details-panel__error">Signal vs distance unavailable.</div>
+          ) : signalDistanceQuery.data && !signalDistanceQuery.data.home ? (
+            <div className="session-details-panel__empty">
+              Set a home location for this device to plot signal against distance.
+            </div>
+          ) : !hasSignalDistancePoints ? (
+            <div className="session-details-panel__empty">No signal data</div>
+          ) : (
+            <SignalDistanceChart
+              series={signalDistanceSeries}
+              metric={signalMetric}
+              ariaLabel={`Session ${signalMetric.toUpperCase()} against distance from home`}
+            />
+          )}
+          {overlaySessions.length > 0 && hasSignalDistancePoints ? (
+            <div className="session-details-panel__hint">
+              Overlay: {overlaySessions.map((overlay) => overlay.label).join(', ')}
+            </div>
+          ) : null}
 
           <div className="session-details-panel__actions">
             <button
@@ -486,14 +612,17 @@ export default function SessionDetailsPanel({ sessionId, onFitMapToSession }: Se
             >
               Fit map to session
             </button>
-            <button
-              type="button"
-              className="controls__button controls__button--compact"
-              onClick={() => void handleExportGeoJson()}
-              disabled={isExporting}
-            >
-              {isExporting ? 'Exporting…' : 'Export GeoJSON'}
-            </button>
+            {SESSION_EXPORT_FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                type="button"
+                className="controls__button controls__button--compact"
+                onClick={() => void handleExport(format)}
+                disabled={exportingFormat !== null}
+              >
+                {exportingFormat === format ? 'Exporting…' : label}
+              </button>
+            ))}
             {hasQueryApiKey ? (
               <>
                 <button
@@ -521,6 +650,12 @@ export default function SessionDetailsPanel({ sessionId, onFitMapToSession }: Se
           {statsQuery.error ? (
             <div className="session-details-panel__error">Session stats unavailable.</div>
           ) : null}
+          {hasQueryApiKey ? (
+            <>
+              <div className="session-details-panel__section-title">Share links</div>
+              <ShareLinksPanel sessionId={session.id} scopes={['SESSION', 'COVERAGE']} />
+            </>
+          ) : null}
           {metadataError ? (
             <div className="session-details-panel__error" role="status">
               {metadataError}
@@ -650,6 +785,19 @@ function formatDuration(durationMs: number | null): string {
   return `${seconds}s`;
 }
 
+function formatPacketDelivery(packetDelivery: SessionStats['packetDelivery']): string {
+  if (!packetDelivery || packetDelivery.pdr === null) {
+    return '—';
+  }
+  const resets =
+    packetDelivery.counterResets > 0
+      ? `, ${packetDelivery.counterResets} reset${packetDelivery.counterResets === 1 ? '' : 's'}`
+      : '';
+  return `${(packetDelivery.pdr * 100).toFixed(1)}% (${packetDelivery.framesReceived}/${
+    packetDelivery.framesExpected
+  }${resets})`;
+}
+
 function getErrorStatus(error: unknown): number | null {
   if (typeof error === 'object' && error && 'status' in error) {
     const status = (error as { status?: number }).status;
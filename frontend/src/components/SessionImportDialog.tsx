@@ -0,0 +1,320 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { previewSessionImport } from '../api/endpoints';
+import type {
+  SessionImportInput,
+  SessionImportInterpolation,
+  SessionImportPreview,
+  SessionImportResult
+} from '../api/types';
+import { useImportSession } from '../query/sessions';
+
+type SessionImportDialogProps = {
+  deviceId: string | null;
+  onClose: () => void;
+  onImported: (result: SessionImportResult) => void;
+};
+
+const PREVIEW_DEBOUNCE_MS = 350;
+
+function formatTimestamp(value?: string | null): string {
+  if (!value) {
+    return '—';
+  }
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    return value;
+  }
+  return parsed.toLocaleString();
+}
+
+function parseOptionalNumber(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export default function SessionImportDialog({ deviceId, onClose, onImported }: SessionImportDialogProps) {
+  const [gpxFile, setGpxFile] = useState<File | null>(null);
+  const [logFile, setLogFile] = useState<File | null>(null);
+  const [useSelectedDevice, setUseSelectedDevice] = useState(Boolean(deviceId));
+  const [deviceUid, setDeviceUid] = useState('');
+  const [receiverId, setReceiverId] = useState('');
+  const [clockOffset, setClockOffset] = useState('0');
+  const [interpolation, setInterpolation] = useState<SessionImportInterpolation>('linear');
+  const [maxGap, setMaxGap] = useState('60');
+  const [sessionName, setSessionName] = useState('');
+  const sessionNameEditedRef = useRef(false);
+  const [notes, setNotes] = useState('');
+  const [preview, setPreview] = useState<SessionImportPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const importMutation = useImportSession();
+
+  const input = useMemo<SessionImportInput | null>(
+    () =>
+      gpxFile
+        ? {
+            gpx: gpxFile,
+            log: logFile,
+            deviceId: useSelectedDevice && deviceId ? deviceId : undefined,
+            deviceUid: useSelectedDevice && deviceId ? undefined : deviceUid.trim() || undefined,
+            receiverId: receiverId.trim() || undefined,
+            clockOffsetSeconds: parseOptionalNumber(clockOffset),
+            interpolation,
+            maxGapSeconds: parseOptionalNumber(maxGap)
+          }
+        : null,
+    [gpxFile, logFile, useSelectedDevice, deviceId, deviceUid, receiverId, clockOffset, interpolation, maxGap]
+  );
+
+  useEffect(() => {
+    if (!input) {
+      setPreview(null);
+      setPreviewError(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      setPreviewLoading(true);
+      setPreviewError(null);
+      previewSessionImport(input, { signal: controller.signal })
+        .then((result) => {
+          setPreview(result);
+          // Read through a ref: typing a name must not fetch the preview again.
+          if (!sessionNameEditedRef.current) {
+            setSessionName(result.defaultSessionName ?? '');
+          }
+        })
+        .catch((error: unknown) => {
+          if (controller.signal.aborted) {
+            return;
+          }
+          setPreview(null);
+          setPreviewError(error instanceof Error ? error.message : 'Could not read the files');
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) {
+            setPreviewLoading(false);
+          }
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [input]);
+
+  const handleCreate = () => {
+    if (!input || !preview?.canCreate || importMutation.isPending) {
+      return;
+    }
+    importMutation.mutate(
+      { ...input, name: sessionName.trim() || undefined, notes: notes.trim() || undefined },
+      { onSuccess: (result) => onImported(result) }
+    );
+  };
+
+  return (
+    <div className="sessions-panel__modal-backdrop" role="presentation" onClick={onClose}>
+      <div
+        className="sessions-panel__modal session-import"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="session-import-title"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h4 id="session-import-title">Import GPX session</h4>
+        <p>
+          Build a session from a phone GPX track. Add a JSONL packet log (Meshtastic CLI) to place each
+          received packet on the track with its signal values.
+        </p>
+
+        <label className="session-import__field">
+          GPX track
+          <input
+            type="file"
+            accept=".gpx,application/gpx+xml"
+            onChange={(event) => setGpxFile(event.target.files?.[0] ?? null)}
+          />
+        </label>
+        <label className="session-import__field">
+          Packet log (optional)
+          <input
+            type="file"
+            accept=".jsonl,.ndjson,.json,.log,.txt"
+            onChange={(event) => setLogFile(event.target.files?.[0] ?? null)}
+          />
+        </label>
+
+        <fieldset className="session-import__device">
+          <legend>Device</legend>
+          {deviceId ? (
+            <label className="session-import__radio">
+              <input
+                type="radio"
+                checked={useSelectedDevice}
+                onChange={() => setUseSelectedDevice(true)}
+              />
+              Selected device
+            </label>
+          ) : null}
+          <label className="session-import__radio">
+            <input
+              type="radio"
+              checked={!useSelectedDevice || !deviceId}
+              onChange={() => setUseSelectedDevice(false)}
+            />
+            Device UID
+          </label>
+          {!useSelectedDevice || !deviceId ? (
+            <input
+              type="text"
+              value={deviceUid}
+              onChange={(event) => setDeviceUid(event.target.value)}
+              placeholder="Leave empty to use the log's sender"
+              aria-label="Device UID"
+            />
+          ) : null}
+        </fieldset>
+
+        <div className="session-import__grid">
+          <label className="session-import__field">
+            Clock offset (s)
+            <input
+              type="number"
+              value={clockOffset}
+              onChange={(event) => setClockOffset(event.target.value)}
+              title="Added to packet-log times to match the GPX clock"
+            />
+          </label>
+          <label className="session-import__field">
+            Max gap (s)
+            <input
+              type="number"
+              min={0}
+              value={maxGap}
+              onChange={(event) => setMaxGap(event.target.value)}
+              title="Packets farther than this from any track point are dropped"
+            />
+          </label>
+          <label className="session-import__field">
+            Position
+            <select
+              value={interpolation}
+              onChange={(event) => setInterpolation(event.target.value as SessionImportInterpolation)}
+            >
+              <option value="linear">Interpolate</option>
+              <option value="nearest">Nearest point</option>
+            </select>
+          </label>
+          <label className="session-import__field">
+            Receiver (optional)
+            <input
+              type="text"
+              value={receiverId}
+              onChange={(event) => setReceiverId(event.target.value)}
+              placeholder="!gateway"
+            />
+          </label>
+        </div>
+
+        {preview ? (
+          <dl className="session-import__summary">
+            <dt>Track</dt>
+            <dd>
+              {preview.trackPointCount} points, {formatTimestamp(preview.trackStart)} –{' '}
+              {formatTimestamp(preview.trackEnd)}
+            </dd>
+            <dt>Packets</dt>
+            <dd>{logFile ? `${preview.packetCount} read` : 'No log'}</dd>
+            <dt>Measurements</dt>
+            <dd>{preview.measurementCount}</dd>
+            <dt>Device</dt>
+            <dd>
+              {preview.deviceUid
+                ? preview.deviceName
+                  ? `${preview.deviceName} (${preview.deviceUid})`
+                  : preview.deviceUid
+                : '—'}
+            </dd>
+          </dl>
+        ) : null}
+
+        {preview && preview.senders.length > 1 && !(useSelectedDevice && deviceId) ? (
+          <div className="session-import__senders">
+            <span>Senders in log:</span>
+            {preview.senders.map((sender) => (
+              <button
+                key={sender.fromId}
+                type="button"
+                className={sender.fromId === preview.deviceUid ? 'is-active' : undefined}
+                onClick={() => setDeviceUid(sender.fromId)}
+              >
+                {sender.fromId} ({sender.count})
+              </button>
+            ))}
+          </div>
+        ) : null}
+
+        <label className="session-import__field">
+          Session name
+          <input
+            type="text"
+            value={sessionName}
+            onChange={(event) => {
+              setSessionName(event.target.value);
+              sessionNameEditedRef.current = true;
+            }}
+            placeholder="Imported session"
+          />
+        </label>
+        <label className="session-import__field">
+          Notes (optional)
+          <textarea value={notes} onChange={(event) => setNotes(event.target.value)} rows={2} />
+        </label>
+
+        {previewLoading ? <div className="sessions-panel__modal-meta">Aligning files…</div> : null}
+        {previewError ? <div className="sessions-panel__error">{previewError}</div> : null}
+        {importMutation.error ? (
+          <div className="sessions-panel__error">{importMutation.error.message}</div>
+        ) : null}
+        {preview?.warnings.length ? (
+          <ul className="sessions-panel__modal-list">
+            {preview.warnings.map((warning) => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        ) : null}
+        {preview?.blockingErrors.length ? (
+          <ul className="sessions-panel__modal-list session-import__blocking">
+            {preview.blockingErrors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        ) : null}
+
+        <div className="sessions-panel__modal-actions">
+          <button
+            type="button"
+            className="sessions-panel__modal-cancel"
+            onClick={onClose}
+            disabled={importMutation.isPending}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="sessions-panel__modal-archive"
+            onClick={handleCreate}
+            disabled={importMutation.isPending || previewLoading || !preview?.canCreate}
+          >
+            {importMutation.isPending ? 'Importing…' : 'Create session'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
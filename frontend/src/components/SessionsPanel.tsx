@@ -21,6 +21,7 @@ import {
   MAX_COMPARED_SESSIONS,
   formatSessionLabel as formatComparisonLabel
 } from '../sessionComparison';
+import SessionImportDialog from './SessionImportDialog';
 
 type SessionsPanelProps = {
   deviceId: string | null;
@@ -101,6 +102,7 @@ export default function SessionsPanel({
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
   const [sessionActionError, setSessionActionError] = useState<string | null>(null);
   const [sessionListExpanded, setSessionListExpanded] = useState(true);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
 
   const { data: sessionsResponse, isLoading, error } = useSessions(deviceId ?? undefined, {
     includeArchived: showArchived
@@ -578,6 +580,15 @@ export default function SessionsPanel({
           >
             {startMutation.isPending ? 'Starting…' : 'Start session'}
           </button>
+          {hasQueryApiKey ? (
+            <button
+              type="button"
+              onClick={() => setImportDialogOpen(true)}
+              title="Create a session from a GPX track and an optional packet log"
+            >
+              Import GPX…
+            </button>
+          ) : null}
         </div>
       </div>
 
@@ -678,6 +689,18 @@ export default function SessionsPanel({
           {sessionActionError}
         </div>
       ) : null}
+      {importDialogOpen ? (
+        <SessionImportDialog
+          deviceId={deviceId}
+          onClose={() => setImportDialogOpen(false)}
+          onImported={(result) => {
+            setImportDialogOpen(false);
+            if (result.deviceId === deviceId) {
+              onSelectSessionId(result.sessionId);
+            }
+          }}
+        />
+      ) : null}
       {deleteTargetSession ? (
         <div
           className="sessions-panel__modal-backdrop"
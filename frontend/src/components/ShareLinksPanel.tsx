@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import type { ShareScope } from '../api/types';
+import { useCreateShareLink, useRevokeShareLink, useShareLinks } from '../query/shares';
+
+type ShareLinksPanelProps = {
+  sessionId?: string | null;
+  deviceId?: string | null;
+  scopes: ShareScope[];
+};
+
+const EXPIRY_OPTIONS: Array<{ value: string; label: string; days: number | null }> = [
+  { value: 'never', label: 'Never expires', days: null },
+  { value: '1', label: 'Expires in 1 day', days: 1 },
+  { value: '7', label: 'Expires in 7 days', days: 7 },
+  { value: '30', label: 'Expires in 30 days', days: 30 }
+];
+
+const SCOPE_LABELS: Record<ShareScope, string> = {
+  SESSION: 'Track + coverage',
+  COVERAGE: 'Coverage only'
+};
+
+function buildShareUrl(token: string): string {
+  return `${window.location.origin}/share/${encodeURIComponent(token)}`;
+}
+
+function formatTimestamp(value: string): string {
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? value : parsed.toLocaleString();
+}
+
+export default function ShareLinksPanel({ sessionId, deviceId, scopes }: ShareLinksPanelProps) {
+  const [scope, setScope] = useState<ShareScope>(scopes[0] ?? 'COVERAGE');
+  const [label, setLabel] = useState('');
+  const [expiry, setExpiry] = useState('7');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const linksQuery = useShareLinks({ sessionId, deviceId });
+  const createMutation = useCreateShareLink();
+  const revokeMutation = useRevokeShareLink();
+  const activeLinks = (linksQuery.data?.items ?? []).filter(
+    (link) => link.isActive && scopes.includes(link.scope)
+  );
+
+  const handleCreate = async () => {
+    const days = EXPIRY_OPTIONS.find((option) => option.value === expiry)?.days ?? null;
+    setError(null);
+    try {
+      await createMutation.mutateAsync({
+        scope,
+        ...(sessionId ? { sessionId } : { deviceId: deviceId ?? undefined }),
+        label: label.trim() || undefined,
+        expiresAt: days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : undefined
+      });
+      setLabel('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create share link.');
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    setError(null);
+    try {
+      await revokeMutation.mutateAsync(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not revoke share link.');
+    }
+  };
+
+  const handleCopy = async (id: string, token: string) => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(token));
+      setCopiedId(id);
+    } catch {
+      setError('Clipboard unavailable; copy the link manually.');
+    }
+  };
+
+  if (!sessionId && !deviceId) {
+    return null;
+  }
+
+  return (
+    <div className="share-links">
+      <div className="share-links__form">
+        {scopes.length > 1 ? (
+          <select
+            value={scope}
+            onChange={(event) => setScope(event.target.value as ShareScope)}
+            aria-label="Share scope"
+          >
+            {scopes.map((value) => (
+              <option key={value} value={value}>
+                {SCOPE_LABELS[value]}
+              </option>
+            ))}
+          </select>
+        ) : null}
+        <input
+          type="text"
+          value={label}
+          maxLength={80}
+          onChange={(event) => setLabel(event.target.value)}
+          placeholder="Label (optional)"
+          aria-label="Share link label"
+        />
+        <select value={expiry} onChange={(event) => setExpiry(event.target.value)} aria-label="Share link expiry">
+          {EXPIRY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="controls__button controls__button--compact"
+          onClick={() => void handleCreate()}
+          disabled={createMutation.isPending}
+        >
+          {createMutation.isPending ? 'Creating…' : 'Create share link'}
+        </button>
+      </div>
+      {linksQuery.isLoading ? <div className="share-links__meta">Loading share links…</div> : null}
+      {activeLinks.length > 0 ? (
+        <ul className="share-links__list">
+          {activeLinks.map((link) => (
+            <li key={link.id} className="share-links__item">
+              <div className="share-links__meta">
+                <strong>{link.label ?? SCOPE_LABELS[link.scope]}</strong>
+                <span>
+                  {link.expiresAt ? `Expires ${formatTimestamp(link.expiresAt)}` : 'No expiry'}
+                </span>
+              </div>
+              <div className="share-links__actions">
+                {link.token ? (
+                  <button
+                    type="button"
+                    className="controls__button controls__button--compact"
+                    onClick={() => void handleCopy(link.id, link.token!)}
+                  >
+                    {copiedId === link.id ? 'Copied' : 'Copy link'}
+                  </button>
+                ) : null}
+                <button
+                  type="button"
+                  className="controls__button controls__button--compact"
+                  onClick={() => void handleRevoke(link.id)}
+                  disabled={revokeMutation.isPending}
+                >
+                  Revoke
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      {error || linksQuery.error ? (
+        <div className="share-links__error" role="status">
+          {error ?? 'Share links unavailable.'}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { CoverageMetric } from '../coverage/coverageBuckets';
+import {
+  usePublicShare,
+  usePublicShareBins,
+  usePublicShareStats,
+  usePublicShareTrack
+} from '../query/shares';
+import MapView, { type MapViewHandle } from './MapView';
+import StatsCard from './StatsCard';
+
+type ShareViewProps = {
+  token: string;
+};
+
+const FIT_PADDING: [number, number] = [32, 32];
+
+function readSystemTheme(): 'light' | 'dark' {
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
+    return 'dark';
+  }
+  return window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
+}
+
+function formatTimestamp(value?: string | null): string {
+  if (!value) {
+    return '—';
+  }
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    return value;
+  }
+  return parsed.toLocaleString();
+}
+
+/**
+ * Read-only page behind `/share/<token>`: the shared track and coverage bins on the map
+ * with the scope's stats. Nothing here needs an API key.
+ */
+export default function ShareView({ token }: ShareViewProps) {
+  const mapRef = useRef<MapViewHandle | null>(null);
+  const hasFitRef = useRef(false);
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [metric, setMetric] = useState<CoverageMetric>('rssiAvg');
+  const theme = useMemo(() => readSystemTheme(), []);
+
+  const shareQuery = usePublicShare(token);
+  const share = shareQuery.data;
+  const trackQuery = usePublicShareTrack(token, Boolean(share?.hasTrack));
+  const binsQuery = usePublicShareBins(token, zoom, Boolean(share));
+  const statsQuery = usePublicShareStats(token, Boolean(share));
+
+  useEffect(() => {
+    document.documentElement.dataset.theme = theme;
+  }, [theme]);
+
+  const track = useMemo(() => trackQuery.data?.items ?? [], [trackQuery.data]);
+  const bins = useMemo(() => binsQuery.data?.items ?? [], [binsQuery.data]);
+  const binSize = binsQuery.data?.binSizeDeg ?? null;
+
+  useEffect(() => {
+    if (hasFitRef.current || !mapRef.current) {
+      return;
+    }
+    if (track.length > 0) {
+      hasFitRef.current = true;
+      mapRef.current.fitBounds(
+        track.map((point) => [point.lat, point.lon] as [number, number]),
+        { padding: FIT_PADDING }
+      );
+      return;
+    }
+    if (!share?.hasTrack && bins.length > 0 && binSize) {
+      hasFitRef.current = true;
+      mapRef.current.fitBounds(
+        bins.map((bin) => [(bin.latBin + 0.5) * binSize, (bin.lonBin + 0.5) * binSize] as [number, number]),
+        { padding: FIT_PADDING }
+      );
+    }
+  }, [track, bins, binSize, share?.hasTrack]);
+
+  if (shareQuery.isLoading) {
+    return <div className="share-view share-view--message">Loading shared map…</div>;
+  }
+  if (!share) {
+    return (
+      <div className="share-view share-view--message">
+        This share link is invalid, expired, or has been revoked.
+      </div>
+    );
+  }
+
+  const title =
+    share.label?.trim() ||
+    share.session?.name?.trim() ||
+    (share.scope === 'SESSION' ? 'Shared session' : 'Shared coverage');
+
+  return (
+    <div className="share-view">
+      <header className="share-view__header">
+        <div className="share-view__title">
+          <span className="share-view__eyebrow">
+            {share.scope === 'SESSION' ? 'Session' : 'Coverage'}
+            {share.deviceName ? ` · ${share.deviceName}` : ''}
+          </span>
+          <h1>{title}</h1>
+          {share.session ? (
+            <span className="share-view__meta">
+              {formatTimestamp(share.session.startedAt)} – {formatTimestamp(share.session.endedAt)}
+            </span>
+          ) : null}
+        </div>
+        <label className="share-view__metric">
+          Coverage metric
+          <select value={metric} onChange={(event) => setMetric(event.target.value as CoverageMetric)}>
+            <option value="count">Count</option>
+            <option value="rssiAvg">RSSI avg</option>
+            <option value="snrAvg">SNR avg</option>
+            <option value="pdr">PDR</option>
+          </select>
+        </label>
+      </header>
+      <div className="share-view__body">
+        <div className="share-view__map">
+          <MapView
+            ref={mapRef}
+            theme={theme}
+            mapLayerMode="coverage"
+            coverageScope={share.session ? 'session' : 'device'}
+            coverageVisualizationMode="bins"
+            coverageMetric={metric}
+            track={track}
+            coverageBins={bins}
+            coverageBinSize={binSize}
+            showCoverageTracks={share.hasTrack}
+            onZoomChange={setZoom}
+          />
+        </div>
+        <aside className="share-view__side">
+          <StatsCard
+            stats={statsQuery.data}
+            isLoading={statsQuery.isLoading}
+            error={statsQuery.error}
+          />
+          {share.expiresAt ? (
+            <p className="share-view__meta">Link expires {formatTimestamp(share.expiresAt)}</p>
+          ) : null}
+        </aside>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useMemo, useState } from 'react';
+
+export type SignalDistanceSeries = {
+  id: string;
+  label: string;
+  color?: string;
+  points: ReadonlyArray<{ distanceMeters: number; value: number }>;
+};
+
+type SignalDistanceChartProps = {
+  series: readonly SignalDistanceSeries[];
+  metric: 'rssi' | 'snr';
+  ariaLabel: string;
+  className?: string;
+};
+
+type PlottedPoint = {
+  seriesIndex: number;
+  distanceMeters: number;
+  value: number;
+  x: number;
+  y: number;
+};
+
+const VIEWBOX_WIDTH = 100;
+const VIEWBOX_HEIGHT = 56;
+const PADDING = 2;
+// Distances are plotted on a log axis; anything closer than this is clamped onto it.
+const MIN_DISTANCE_METERS = 10;
+
+function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(meters >= 10_000 ? 0 : 1)} km` : `${Math.round(meters)} m`;
+}
+
+function formatValue(value: number, metric: 'rssi' | 'snr'): string {
+  return `${value.toFixed(1)} ${metric === 'rssi' ? 'dBm' : 'dB'}`;
+}
+
+/**
+ * Scatter of signal against distance from home on a log distance axis, so a log-distance
+ * path-loss trend shows up as a straight band. The first series is drawn on top.
+ */
+export default function SignalDistanceChart({
+  series,
+  metric,
+  ariaLabel,
+  className
+}: SignalDistanceChartProps) {
+  const [hovered, setHovered] = useState<PlottedPoint | null>(null);
+
+  const chart = useMemo(() => {
+    let minX = Number.POSITIVE_INFINITY;
+    let maxX = Number.NEGATIVE_INFINITY;
+    let minY = Number.POSITIVE_INFINITY;
+    let maxY = Number.NEGATIVE_INFINITY;
+    for (const entry of series) {
+      for (const point of entry.points) {
+        if (!Number.isFinite(point.distanceMeters) || !Number.isFinite(point.value)) {
+          continue;
+        }
+        const logDistance = Math.log10(Math.max(point.distanceMeters, MIN_DISTANCE_METERS));
+        minX = Math.min(minX, logDistance);
+        maxX = Math.max(maxX, logDistance);
+        minY = Math.min(minY, point.value);
+        maxY = Math.max(maxY, point.value);
+      }
+    }
+    if (!Number.isFinite(minX) || !Number.isFinite(minY)) {
+      return null;
+    }
+    if (maxX - minX < 0.1) {
+      minX -= 0.05;
+      maxX += 0.05;
+    }
+    if (maxY - minY < 2) {
+      minY -= 1;
+      maxY += 1;
+    }
+
+    const plotted = series.map((entry, seriesIndex) =>
+      entry.points
+        .filter((point) => Number.isFinite(point.distanceMeters) && Number.isFinite(point.value))
+        .map((point) => {
+          const logDistance = Math.log10(Math.max(point.distanceMeters, MIN_DISTANCE_METERS));
+          return {
+            seriesIndex,
+            distanceMeters: point.distanceMeters,
+            value: point.value,
+            x: PADDING + ((logDistance - minX) / (maxX - minX)) * (VIEWBOX_WIDTH - PADDING * 2),
+            y:
+              PADDING + (1 - (point.value - minY) / (maxY - minY)) * (VIEWBOX_HEIGHT - PADDING * 2)
+          };
+        })
+    );
+
+    return {
+      plotted,
+      minDistance: 10 ** minX,
+      maxDistance: 10 ** maxX,
+      maxValue: maxY
+    };
+  }, [series]);
+
+  if (!chart) {
+    return null;
+  }
+
+  // Overlays first so the selected session stays readable on top. Each point is a zero-length
+  // round-capped segment with a non-scaling stroke, so dots stay round in the stretched viewBox.
+  const drawOrder = chart.plotted.map((_, index) => index).reverse();
+
+  return (
+    <div className={className ? `signal-distance-chart ${className}` : 'signal-distance-chart'}>
+      <svg
+        className="signal-distance-chart__svg"
+        viewBox={`0 0 ${VIEWBOX_WIDTH} ${VIEWBOX_HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={ariaLabel}
+        onMouseLeave={() => setHovered(null)}
+        onMouseMove={(event) => {
+          const rect = event.currentTarget.getBoundingClientRect();
+          if (rect.width === 0 || rect.height === 0) {
+            return;
+          }
+          const x = ((event.clientX - rect.left) / rect.width) * VIEWBOX_WIDTH;
+          const y = ((event.clientY - rect.top) / rect.height) * VIEWBOX_HEIGHT;
+          let nearest: PlottedPoint | null = null;
+          let nearestDistance = Number.POSITIVE_INFINITY;
+          for (const points of chart.plotted) {
+            for (const point of points) {
+              const distance = (point.x - x) ** 2 + (point.y - y) ** 2;
+              if (distance < nearestDistance) {
+                nearest = point;
+                nearestDistance = distance;
+              }
+            }
+          }
+          setHovered(nearestDistance <= 16 ? nearest : null);
+        }}
+      >
+        {drawOrder.map((seriesIndex) => (
+          <g
+            key={series[seriesIndex].id}
+            className={`signal-distance-chart__series${seriesIndex === 0 ? ' is-primary' : ''}`}
+            style={series[seriesIndex].color ? { color: series[seriesIndex].color } : undefined}
+          >
+            <path
+              className="signal-distance-chart__points"
+              d={chart.plotted[seriesIndex]
+                .map((point) => `M ${point.x.toFixed(3)} ${point.y.toFixed(3)} h 0`)
+                .join(' ')}
+            />
+          </g>
+        ))}
+      </svg>
+      <span className="signal-distance-chart__axis signal-distance-chart__axis--x-min">
+        {formatDistance(chart.minDistance)}
+      </span>
+      <span className="signal-distance-chart__axis signal-distance-chart__axis--x-max">
+        {formatDistance(chart.maxDistance)}
+      </span>
+      <span className="signal-distance-chart__axis signal-distance-chart__axis--y-max">
+        {formatValue(chart.maxValue, metric)}
+      </span>
+      {hovered ? (
+        <div
+          className="mini-line-chart__tooltip"
+          style={{
+            left: `${hovered.x}%`,
+            top: `${(hovered.y / VIEWBOX_HEIGHT) * 100}%`
+          }}
+        >
+          <span>
+            {series.length > 1 ? `${series[hovered.seriesIndex].label} · ` : ''}
+            {formatDistance(hovered.distanceMeters)}
+          </span>
+          <strong>{formatValue(hovered.value, metric)}</strong>
+        </div>
+      ) : null}
+    </div>
+  );
+}
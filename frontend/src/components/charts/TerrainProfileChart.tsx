@@ -0,0 +1,151 @@
+import { useMemo } from 'react';
+import type { TerrainProfileSample } from '../../api/types';
+
+type TerrainProfileChartProps = {
+  samples: readonly TerrainProfileSample[];
+  worstDistanceM?: number | null;
+  ariaLabel: string;
+  className?: string;
+};
+
+type ChartPoint = { x: number; y: number };
+
+const VIEWBOX_WIDTH = 100;
+const VIEWBOX_HEIGHT = 56;
+const PADDING_TOP = 2;
+const PADDING_BOTTOM = 1;
+
+function toPath(points: ChartPoint[]): string {
+  return points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'} ${point.x.toFixed(3)} ${point.y.toFixed(3)}`)
+    .join(' ');
+}
+
+/**
+ * Side view of a home-to-point path: terrain (raised by earth bulge), the antenna-to-antenna
+ * line of sight and the first Fresnel zone around it. Samples without elevation break the terrain.
+ */
+export default function TerrainProfileChart({
+  samples,
+  worstDistanceM,
+  ariaLabel,
+  className
+}: TerrainProfileChartProps) {
+  const chart = useMemo(() => {
+    const totalDistance = samples.length > 0 ? samples[samples.length - 1].distanceM : 0;
+    if (samples.length < 2 || totalDistance <= 0) {
+      return null;
+    }
+
+    let min = Number.POSITIVE_INFINITY;
+    let max = Number.NEGATIVE_INFINITY;
+    for (const sample of samples) {
+      if (sample.elevationM !== null) {
+        min = Math.min(min, sample.elevationM + sample.earthBulgeM);
+        max = Math.max(max, sample.elevationM + sample.earthBulgeM);
+      }
+      if (sample.lineOfSightM !== null) {
+        min = Math.min(min, sample.lineOfSightM - sample.fresnelRadiusM);
+        max = Math.max(max, sample.lineOfSightM + sample.fresnelRadiusM);
+      }
+    }
+    if (!Number.isFinite(min) || !Number.isFinite(max)) {
+      return null;
+    }
+    if (max - min < 10) {
+      max = min + 10;
+    }
+
+    const scaleX = (distance: number) => (distance / totalDistance) * VIEWBOX_WIDTH;
+    const scaleY = (value: number) =>
+      PADDING_TOP +
+      (1 - (value - min) / (max - min)) * (VIEWBOX_HEIGHT - PADDING_TOP - PADDING_BOTTOM);
+
+    const terrainRuns: ChartPoint[][] = [];
+    let run: ChartPoint[] = [];
+    for (const sample of samples) {
+      if (sample.elevationM === null) {
+        if (run.length > 0) {
+          terrainRuns.push(run);
+          run = [];
+        }
+        continue;
+      }
+      run.push({
+        x: scaleX(sample.distanceM),
+        y: scaleY(sample.elevationM + sample.earthBulgeM)
+      });
+    }
+    if (run.length > 0) {
+      terrainRuns.push(run);
+    }
+    const terrainAreas = terrainRuns
+      .filter((points) => points.length > 1)
+      .map(
+        (points) =>
+          `${toPath(points)} L ${points[points.length - 1].x.toFixed(3)} ${VIEWBOX_HEIGHT} L ${points[0].x.toFixed(3)} ${VIEWBOX_HEIGHT} Z`
+      );
+
+    const losSamples = samples.filter((sample) => sample.lineOfSightM !== null);
+    const lineOfSight = toPath(
+      losSamples.map((sample) => ({
+        x: scaleX(sample.distanceM),
+        y: scaleY(sample.lineOfSightM as number)
+      }))
+    );
+    const fresnelUpper = losSamples.map((sample) => ({
+      x: scaleX(sample.distanceM),
+      y: scaleY((sample.lineOfSightM as number) + sample.fresnelRadiusM)
+    }));
+    const fresnelLower = losSamples
+      .map((sample) => ({
+        x: scaleX(sample.distanceM),
+        y: scaleY((sample.lineOfSightM as number) - sample.fresnelRadiusM)
+      }))
+      .reverse();
+    const fresnelZone =
+      fresnelUpper.length > 1 ? `${toPath([...fresnelUpper, ...fresnelLower])} Z` : '';
+
+    const worstX =
+      typeof worstDistanceM === 'number' && Number.isFinite(worstDistanceM)
+        ? scaleX(worstDistanceM)
+        : null;
+
+    return { terrainAreas, lineOfSight, fresnelZone, worstX };
+  }, [samples, worstDistanceM]);
+
+  if (!chart) {
+    return null;
+  }
+
+  return (
+    <div className={className ? `terrain-profile-chart ${className}` : 'terrain-profile-chart'}>
+      <svg
+        className="terrain-profile-chart__svg"
+        viewBox={`0 0 ${VIEWBOX_WIDTH} ${VIEWBOX_HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={ariaLabel}
+      >
+        {chart.fresnelZone ? (
+          <path className="terrain-profile-chart__fresnel" d={chart.fresnelZone} />
+        ) : null}
+        {chart.terrainAreas.map((path, index) => (
+          <path key={index} className="terrain-profile-chart__terrain" d={path} />
+        ))}
+        {chart.lineOfSight ? (
+          <path className="terrain-profile-chart__los" d={chart.lineOfSight} />
+        ) : null}
+        {chart.worstX !== null ? (
+          <line
+            className="terrain-profile-chart__worst"
+            x1={chart.worstX}
+            x2={chart.worstX}
+            y1={0}
+            y2={VIEWBOX_HEIGHT}
+          />
+        ) : null}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import type { CoverageDiffBin } from '../api/types';
+import type { CoverageMetric } from './coverageBuckets';
+
+export type CoverageDiffBucket =
+  | 'muchWorse'
+  | 'worse'
+  | 'same'
+  | 'better'
+  | 'muchBetter'
+  | 'baseOnly'
+  | 'compareOnly';
+
+// Legend order: diverging scale first, then cells seen by only one scope.
+export const COVERAGE_DIFF_BUCKETS: CoverageDiffBucket[] = [
+  'muchWorse',
+  'worse',
+  'same',
+  'better',
+  'muchBetter',
+  'baseOnly',
+  'compareOnly'
+];
+
+const COVERAGE_DIFF_COLORS: Record<CoverageDiffBucket, string> = {
+  muchWorse: '#dc2626',
+  worse: '#f87171',
+  same: '#cbd5e1',
+  better: '#60a5fa',
+  muchBetter: '#2563eb',
+  baseOnly: '#a855f7',
+  compareOnly: '#14b8a6'
+};
+
+// [same band, strong change] thresholds on |delta| per metric.
+const COVERAGE_DIFF_THRESHOLDS: Record<CoverageMetric, [number, number]> = {
+  count: [2, 10],
+  rssiAvg: [3, 10],
+  snrAvg: [1.5, 5],
+  pdr: [0.05, 0.2]
+};
+
+const METRIC_UNITS: Record<CoverageMetric, string> = {
+  count: '',
+  rssiAvg: ' dB',
+  snrAvg: ' dB',
+  pdr: ' pp'
+};
+
+// PDR deltas are ratios, shown as percentage points.
+const METRIC_DISPLAY_SCALE: Record<CoverageMetric, number> = {
+  count: 1,
+  rssiAvg: 1,
+  snrAvg: 1,
+  pdr: 100
+};
+
+export function getCoverageDiffDelta(metric: CoverageMetric, bin: CoverageDiffBin): number | null {
+  if (metric === 'count') {
+    return bin.deltaCount;
+  }
+  if (metric === 'pdr') {
+    return bin.deltaPdr;
+  }
+  return metric === 'rssiAvg' ? bin.deltaRssiAvg : bin.deltaSnrAvg;
+}
+
+export function getCoverageDiffBucket(
+  metric: CoverageMetric,
+  bin: CoverageDiffBin
+): CoverageDiffBucket {
+  if (bin.presence !== 'both') {
+    return bin.presence;
+  }
+  const delta = getCoverageDiffDelta(metric, bin);
+  if (delta === null || !Number.isFinite(delta)) {
+    return 'same';
+  }
+  const [sameBand, strongChange] = COVERAGE_DIFF_THRESHOLDS[metric];
+  if (delta >= strongChange) {
+    return 'muchBetter';
+  }
+  if (delta > sameBand) {
+    return 'better';
+  }
+  if (delta <= -strongChange) {
+    return 'muchWorse';
+  }
+  if (delta < -sameBand) {
+    return 'worse';
+  }
+  return 'same';
+}
+
+export function coverageDiffColor(bucket: CoverageDiffBucket): string {
+  return COVERAGE_DIFF_COLORS[bucket];
+}
+
+export function coverageDiffLabel(metric: CoverageMetric, bucket: CoverageDiffBucket): string {
+  const scale = METRIC_DISPLAY_SCALE[metric];
+  const [sameBand, strongChange] = COVERAGE_DIFF_THRESHOLDS[metric].map((threshold) => threshold * scale);
+  const unit = METRIC_UNITS[metric];
+  switch (bucket) {
+    case 'muchWorse':
+      return `<= -${strongChange}${unit}`;
+    case 'worse':
+      return `-${sameBand} to -${strongChange}${unit}`;
+    case 'same':
+      return `±${sameBand}${unit}`;
+    case 'better':
+      return `+${sameBand} to +${strongChange}${unit}`;
+    case 'muchBetter':
+      return `>= +${strongChange}${unit}`;
+    case 'baseOnly':
+      return 'Only in A';
+    case 'compareOnly':
+      return 'Only in B';
+  }
+}
+
+export function formatCoverageDiffDelta(metric: CoverageMetric, value: number | null): string {
+  if (value === null || !Number.isFinite(value)) {
+    return '—';
+  }
+  const scaled = value * METRIC_DISPLAY_SCALE[metric];
+  const rounded = metric === 'count' ? String(scaled) : scaled.toFixed(1);
+  return `${value > 0 ? '+' : ''}${rounded}${METRIC_UNITS[metric]}`;
+}
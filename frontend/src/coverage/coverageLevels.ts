@@ -0,0 +1,21 @@
+export type CoverageLevel = 0 | 1 | 2;
+
+// Mirrors the backend bin pyramid (0.001 / 0.004 / 0.016 deg). Each level is chosen
+// so a bin stays roughly 20-30px wide at the zoom range it is used for.
+const COVERAGE_LEVEL_MIN_ZOOM: Array<{ level: CoverageLevel; minZoom: number }> = [
+  { level: 0, minZoom: 14 },
+  { level: 1, minZoom: 12 },
+  { level: 2, minZoom: 0 }
+];
+
+export function coverageLevelForZoom(zoom: number): CoverageLevel {
+  if (!Number.isFinite(zoom)) {
+    return 0;
+  }
+  for (const candidate of COVERAGE_LEVEL_MIN_ZOOM) {
+    if (zoom >= candidate.minZoom) {
+      return candidate.level;
+    }
+  }
+  return 2;
+}
@@ -0,0 +1,34 @@
+export type CoverageRangePreset = 'all' | 'last7d' | 'last30d' | 'last90d';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const COVERAGE_RANGE_DAYS: Record<Exclude<CoverageRangePreset, 'all'>, number> = {
+  last7d: 7,
+  last30d: 30,
+  last90d: 90
+};
+
+export const COVERAGE_RANGE_OPTIONS: Array<{ value: CoverageRangePreset; label: string }> = [
+  { value: 'all', label: 'All time' },
+  { value: 'last7d', label: 'Last 7 days' },
+  { value: 'last30d', label: 'Last 30 days' },
+  { value: 'last90d', label: 'Last 90 days' }
+];
+
+// Bins are stored per UTC day, so the range starts at UTC midnight to keep query keys stable.
+export function computeCoverageRange(
+  preset: CoverageRangePreset,
+  nowMs: number
+): { from: string } | null {
+  if (preset === 'all') {
+    return null;
+  }
+  const today = new Date(nowMs);
+  const todayStartMs = Date.UTC(
+    today.getUTCFullYear(),
+    today.getUTCMonth(),
+    today.getUTCDate()
+  );
+  const fromMs = todayStartMs - (COVERAGE_RANGE_DAYS[preset] - 1) * DAY_MS;
+  return { from: new Date(fromMs).toISOString() };
+}
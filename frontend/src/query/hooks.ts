@@ -10,6 +10,9 @@ import {
   getDeviceById,
   getDeviceTelemetry,
   getCoverageBins,
+  getCoverageBoundaries,
+  getCoverageDiff,
+  getCoveragePrediction,
   getDeviceLatest,
   getGatewayStats,
   getMeasurements,
@@ -25,6 +28,10 @@ import {
 } from '../api/endpoints';
 import { ApiError } from '../api/http';
 import type {
+  CoverageBoundaryParams,
+  CoverageDiffParams,
+  CoverageDiffScope,
+  CoveragePredictionParams,
   CoverageQueryParams,
   GatewayQueryParams,
   MeasurementQueryParams,
@@ -35,6 +42,9 @@ import type {
 } from '../api/endpoints';
 import type {
   CoverageBinsResponse,
+  CoverageBoundaryCollection,
+  CoverageDiffResponse,
+  CoveragePredictionResponse,
   AutoSessionConfig,
   AgentDecision,
   Device,
@@ -69,8 +79,12 @@ type CoverageKeyParams = {
   sessionId: string | null;
   day: string | null;
   allDays: boolean;
+  from: string | null;
+  to: string | null;
   bbox: string | null;
   gatewayId: string | null;
+  groupBy: 'gateway' | 'none';
+  level: number;
   limit: number | null;
   filterMode: 'time' | 'session' | null;
 };
@@ -132,8 +146,12 @@ function normalizeCoverageParams(
     sessionId: params.sessionId ?? null,
     day: params.day ?? null,
     allDays: Boolean(params.allDays),
+    from: params.from ? toIso(params.from) : null,
+    to: params.to ? toIso(params.to) : null,
     bbox,
     gatewayId: params.gatewayId ?? null,
+    groupBy: params.groupBy ?? 'gateway',
+    level: typeof params.level === 'number' ? params.level : 0,
     limit: typeof params.limit === 'number' ? params.limit : null,
     filterMode: context?.filterMode ?? (params.sessionId ? 'session' : 'time')
   };
@@ -478,8 +496,12 @@ export function useCoverageBins(
       keyParams.sessionId,
       keyParams.day,
       keyParams.allDays ? 'all-days' : 'single-day',
+      keyParams.from,
+      keyParams.to,
       keyParams.bbox ?? 'none',
       keyParams.gatewayId ?? 'all',
+      keyParams.groupBy,
+      keyParams.level,
       keyParams.limit
     ],
     queryFn: ({ signal }) => getCoverageBins(params, { signal }),
@@ -487,3 +509,89 @@ export function useCoverageBins(
     enabled
   });
 }
+
+const PREDICTION_PENDING_POLL_MS = 3000;
+
+export function useCoveragePrediction(
+  params: CoveragePredictionParams,
+  options?: QueryOptions<CoveragePredictionResponse>
+) {
+  const enabled = options?.enabled ?? Boolean(params.deviceId || params.sessionId);
+
+  return useQuery<CoveragePredictionResponse>({
+    queryKey: [
+      'coveragePrediction',
+      params.deviceId ?? null,
+      params.sessionId ?? null,
+      params.from ? toIso(params.from) : null,
+      params.to ? toIso(params.to) : null,
+      params.bbox.join(','),
+      params.gatewayId ?? 'all',
+      typeof params.level === 'number' ? params.level : 0,
+      typeof params.radius === 'number' ? params.radius : null
+    ],
+    queryFn: ({ signal }) => getCoveragePrediction(params, { signal }),
+    // Poll until the background build finishes.
+    refetchInterval: (query) =>
+      query.state.data?.status === 'pending' ? PREDICTION_PENDING_POLL_MS : false,
+    ...options,
+    enabled
+  });
+}
+
+export function useCoverageBoundaries(
+  params: CoverageBoundaryParams,
+  options?: QueryOptions<CoverageBoundaryCollection>
+) {
+  const enabled = options?.enabled ?? Boolean(params.deviceId || params.sessionId);
+
+  return useQuery<CoverageBoundaryCollection>({
+    queryKey: [
+      'coverageBoundaries',
+      params.deviceId ?? null,
+      params.sessionId ?? null,
+      params.from ? toIso(params.from) : null,
+      params.to ? toIso(params.to) : null,
+      params.gatewayId ?? 'all',
+      params.mode ?? 'threshold',
+      params.metric ?? 'rssi',
+      params.thresholds?.join(',') ?? null,
+      typeof params.sectors === 'number' ? params.sectors : null
+    ],
+    queryFn: ({ signal }) => getCoverageBoundaries(params, { signal }),
+    ...options,
+    enabled
+  });
+}
+
+function toCoverageDiffScopeKey(scope: CoverageDiffScope): string {
+  return [
+    scope.deviceId ?? '',
+    scope.sessionId ?? '',
+    scope.from ? toIso(scope.from) : '',
+    scope.to ? toIso(scope.to) : ''
+  ].join('|');
+}
+
+export function useCoverageDiff(
+  params: CoverageDiffParams,
+  options?: QueryOptions<CoverageDiffResponse>
+) {
+  const hasScope = (scope: CoverageDiffScope) => Boolean(scope.deviceId || scope.sessionId);
+  const enabled = options?.enabled ?? (hasScope(params.base) && hasScope(params.compare));
+
+  return useQuery<CoverageDiffResponse>({
+    queryKey: [
+      'coverageDiff',
+      toCoverageDiffScopeKey(params.base),
+      toCoverageDiffScopeKey(params.compare),
+      params.bbox ? params.bbox.join(',') : 'none',
+      params.gatewayId ?? 'all',
+      typeof params.level === 'number' ? params.level : 0,
+      typeof params.limit === 'number' ? params.limit : null
+    ],
+    queryFn: ({ signal }) => getCoverageDiff(params, { signal }),
+    ...options,
+    enabled
+  });
+}
@@ -5,9 +5,11 @@ import {
   getSessionById,
   getSessionSignalHistogram,
   getSessionSignalSeries,
+  getSessionSignalVsDistance,
   getSessionStats,
   getSessionTimeline,
   getSessionWindow,
+  importSession,
   listSessions,
   startSession,
   stopSession,
@@ -17,9 +19,12 @@ import type {
   ListResponse,
   Session,
   SessionDetail,
+  SessionImportInput,
+  SessionImportResult,
   SessionStats,
   SessionSignalSeries,
   SessionSignalHistogram,
+  SessionSignalDistance,
   SessionTimeline,
   SessionWindowResponse
 } from '../api/types';
@@ -119,6 +124,22 @@ export function useSessionSignalHistogram(
   });
 }
 
+export function useSessionSignalVsDistance(
+  sessionId: string | null | undefined,
+  metric: 'rssi' | 'snr',
+  options?: QueryOptions<SessionSignalDistance>
+) {
+  const enabled = options?.enabled ?? Boolean(sessionId);
+
+  return useQuery<SessionSignalDistance>({
+    queryKey: ['sessionSignalVsDistance', sessionId ?? null, metric],
+    queryFn: ({ signal }) =>
+      getSessionSignalVsDistance(sessionId as string, { metric }, { signal }),
+    ...options,
+    enabled: enabled && Boolean(sessionId)
+  });
+}
+
 type SessionWindowKeyParams = {
   sessionId: string | null;
   cursor: string | null;
@@ -189,6 +210,23 @@ export function useStopSession(options?: MutationOptions<Session, { sessionId: s
   });
 }
 
+export function useImportSession(options?: MutationOptions<SessionImportResult, SessionImportInput>) {
+  const queryClient = useQueryClient();
+  const { onSuccess, ...mutationOptions } = options ?? {};
+
+  return useMutation<SessionImportResult, Error, SessionImportInput>({
+    ...mutationOptions,
+    mutationFn: importSession,
+    onSuccess: (...args) => {
+      const result = args[0];
+      queryClient.invalidateQueries({ queryKey: ['sessions', result.deviceId] });
+      // A new device may have been created for the imported track.
+      queryClient.invalidateQueries({ queryKey: ['devices'] });
+      onSuccess?.(...args);
+    }
+  });
+}
+
 export function useUpdateSession(
   options?: MutationOptions<
     Session,
@@ -0,0 +1,84 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  createShareLink,
+  getPublicShare,
+  getPublicShareBins,
+  getPublicShareStats,
+  getPublicShareTrack,
+  listShareLinks,
+  revokeShareLink
+} from '../api/endpoints';
+import type { ShareLink, ShareLinkInput } from '../api/types';
+
+type ShareTarget = { sessionId?: string | null; deviceId?: string | null };
+
+export function useShareLinks(target: ShareTarget, options?: { enabled?: boolean }) {
+  const sessionId = target.sessionId ?? undefined;
+  const deviceId = target.deviceId ?? undefined;
+  const enabled = (options?.enabled ?? true) && Boolean(sessionId || deviceId);
+
+  return useQuery({
+    queryKey: ['shareLinks', sessionId ?? null, deviceId ?? null],
+    queryFn: ({ signal }) => listShareLinks({ sessionId, deviceId }, { signal }),
+    enabled
+  });
+}
+
+export function useCreateShareLink() {
+  const queryClient = useQueryClient();
+
+  return useMutation<ShareLink, Error, ShareLinkInput>({
+    mutationFn: (input) => createShareLink(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shareLinks'] });
+    }
+  });
+}
+
+export function useRevokeShareLink() {
+  const queryClient = useQueryClient();
+
+  return useMutation<ShareLink, Error, string>({
+    mutationFn: (id) => revokeShareLink(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shareLinks'] });
+    }
+  });
+}
+
+// Public share view: a failed lookup means the link is gone, so retries only add delay.
+export function usePublicShare(token: string) {
+  return useQuery({
+    queryKey: ['publicShare', token],
+    queryFn: ({ signal }) => getPublicShare(token, { signal }),
+    retry: false
+  });
+}
+
+export function usePublicShareTrack(token: string, enabled: boolean) {
+  return useQuery({
+    queryKey: ['publicShareTrack', token],
+    queryFn: ({ signal }) => getPublicShareTrack(token, { signal }),
+    enabled,
+    retry: false
+  });
+}
+
+export function usePublicShareBins(token: string, zoom: number | null, enabled: boolean) {
+  return useQuery({
+    queryKey: ['publicShareBins', token, zoom === null ? null : Math.floor(zoom)],
+    queryFn: ({ signal }) => getPublicShareBins(token, zoom, { signal }),
+    enabled,
+    retry: false,
+    placeholderData: keepPreviousData
+  });
+}
+
+export function usePublicShareStats(token: string, enabled: boolean) {
+  return useQuery({
+    queryKey: ['publicShareStats', token],
+    queryFn: ({ signal }) => getPublicShareStats(token, { signal }),
+    enabled,
+    retry: false
+  });
+}
@@ -0,0 +1,6 @@
+-- Add resolution level to coverage bins (0 = base 0.001 deg grid, higher = coarser).
+-- Coarser levels for existing data are filled in by the coverage worker's startup rescan.
+ALTER TABLE "CoverageBin" ADD COLUMN "level" INTEGER NOT NULL DEFAULT 0;
+
+DROP INDEX IF EXISTS "CoverageBin_deviceId_sessionId_gatewayId_day_latBin_lonBin_key";
+CREATE UNIQUE INDEX "CoverageBin_deviceId_sessionId_gatewayId_day_level_latBin_lonBin_key" ON "CoverageBin"("deviceId", "sessionId", "gatewayId", "day", "level", "latBin", "lonBin");
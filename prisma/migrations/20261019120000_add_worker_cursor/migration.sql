@@ -0,0 +1,10 @@
+-- Persistent progress markers for background workers (e.g. the coverage aggregator),
+-- so a restart resumes where the previous run stopped instead of rescanning.
+CREATE TABLE "WorkerCursor" (
+    "name" TEXT NOT NULL,
+    "ingestedAt" TIMESTAMP(3),
+    "measurementId" UUID,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WorkerCursor_pkey" PRIMARY KEY ("name")
+);
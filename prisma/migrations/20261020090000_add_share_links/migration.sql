@@ -0,0 +1,22 @@
+-- Read-only share links for sessions and coverage scopes.
+CREATE TYPE "ShareScope" AS ENUM ('SESSION', 'COVERAGE');
+
+CREATE TABLE "ShareLink" (
+    "id" UUID NOT NULL,
+    "scope" "ShareScope" NOT NULL,
+    "deviceId" UUID,
+    "sessionId" UUID,
+    "label" TEXT,
+    "ownerId" UUID,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ShareLink_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "ShareLink_deviceId_idx" ON "ShareLink"("deviceId");
+CREATE INDEX "ShareLink_sessionId_idx" ON "ShareLink"("sessionId");
+
+ALTER TABLE "ShareLink" ADD CONSTRAINT "ShareLink_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "ShareLink" ADD CONSTRAINT "ShareLink_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- Server-side LoRaWAN payload decoders and the decode error on their webhook events.
+CREATE TYPE "PayloadDecoderType" AS ENUM ('CAYENNE_LPP', 'JAVASCRIPT');
+
+CREATE TABLE "PayloadDecoder" (
+    "id" UUID NOT NULL,
+    "type" "PayloadDecoderType" NOT NULL,
+    "deviceUid" TEXT,
+    "applicationId" TEXT,
+    "script" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayloadDecoder_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "PayloadDecoder_deviceUid_key" ON "PayloadDecoder"("deviceUid");
+CREATE UNIQUE INDEX "PayloadDecoder_applicationId_key" ON "PayloadDecoder"("applicationId");
+
+ALTER TABLE "WebhookEvent" ADD COLUMN "decodeError" TEXT;
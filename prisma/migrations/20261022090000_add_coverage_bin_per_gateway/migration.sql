@@ -0,0 +1,9 @@
+-- Per-gateway coverage: besides the best-gateway bins, every RxMetadata reception now
+-- feeds a bin set for its own gateway (perGateway = true). Existing rows are best-gateway bins.
+ALTER TABLE "CoverageBin" ADD COLUMN "perGateway" BOOLEAN NOT NULL DEFAULT false;
+
+DROP INDEX IF EXISTS "CoverageBin_deviceId_sessionId_gatewayId_day_level_latBin_lonBin_key";
+CREATE UNIQUE INDEX "CoverageBin_deviceId_sessionId_gatewayId_perGateway_day_level_latBin_lonBin_key" ON "CoverageBin"("deviceId", "sessionId", "gatewayId", "perGateway", "day", "level", "latBin", "lonBin");
+
+-- Rewind the coverage worker so it re-aggregates existing measurements into per-gateway bins.
+DELETE FROM "WorkerCursor" WHERE "name" = 'coverage';
@@ -0,0 +1,5 @@
+-- LoRaWAN frame counters on measurements, and per-bin frame totals for packet delivery ratio.
+ALTER TABLE "Measurement" ADD COLUMN "fCnt" INTEGER;
+
+ALTER TABLE "CoverageBin" ADD COLUMN "framesReceived" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "CoverageBin" ADD COLUMN "framesExpected" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,48 @@
+-- Persisted predicted-coverage grids, built in the background instead of per request.
+CREATE TYPE "CoveragePredictionStatus" AS ENUM ('PENDING', 'READY', 'FAILED');
+
+CREATE TABLE "CoveragePrediction" (
+    "id" UUID NOT NULL,
+    "scopeKey" TEXT NOT NULL,
+    "deviceId" UUID,
+    "sessionId" UUID,
+    "fromDay" TIMESTAMP(3),
+    "toDay" TIMESTAMP(3),
+    "gatewayId" TEXT,
+    "perGateway" BOOLEAN NOT NULL DEFAULT false,
+    "level" INTEGER NOT NULL,
+    "radius" INTEGER NOT NULL,
+    "status" "CoveragePredictionStatus" NOT NULL DEFAULT 'PENDING',
+    "error" TEXT,
+    "cellCount" INTEGER NOT NULL DEFAULT 0,
+    "binsUpdatedAt" TIMESTAMP(3),
+    "computedAt" TIMESTAMP(3),
+    "requestedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastReadAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CoveragePrediction_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "CoveragePrediction_scopeKey_key" ON "CoveragePrediction"("scopeKey");
+CREATE INDEX "CoveragePrediction_status_requestedAt_idx" ON "CoveragePrediction"("status", "requestedAt");
+CREATE INDEX "CoveragePrediction_deviceId_idx" ON "CoveragePrediction"("deviceId");
+CREATE INDEX "CoveragePrediction_sessionId_idx" ON "CoveragePrediction"("sessionId");
+
+ALTER TABLE "CoveragePrediction" ADD CONSTRAINT "CoveragePrediction_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "CoveragePrediction" ADD CONSTRAINT "CoveragePrediction_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "CoveragePredictionCell" (
+    "predictionId" UUID NOT NULL,
+    "latBin" INTEGER NOT NULL,
+    "lonBin" INTEGER NOT NULL,
+    "rssiAvg" DOUBLE PRECISION,
+    "snrAvg" DOUBLE PRECISION,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "neighbors" INTEGER NOT NULL,
+    "nearestDistanceMeters" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "CoveragePredictionCell_pkey" PRIMARY KEY ("predictionId", "latBin", "lonBin")
+);
+
+ALTER TABLE "CoveragePredictionCell" ADD CONSTRAINT "CoveragePredictionCell_predictionId_fkey" FOREIGN KEY ("predictionId") REFERENCES "CoveragePrediction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
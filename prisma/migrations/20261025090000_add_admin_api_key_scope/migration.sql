@@ -0,0 +1,2 @@
+-- Operator-only scope for endpoints that install server-side code (payload formatters).
+ALTER TYPE "ApiKeyScope" ADD VALUE 'ADMIN';
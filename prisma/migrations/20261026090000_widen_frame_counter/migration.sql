@@ -0,0 +1,2 @@
+-- LoRaWAN FCntUp is a 32-bit unsigned counter and does not fit a signed INTEGER above 2^31 - 1.
+ALTER TABLE "Measurement" ALTER COLUMN "fCnt" TYPE BIGINT;
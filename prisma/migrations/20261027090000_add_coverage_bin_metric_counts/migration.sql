@@ -0,0 +1,7 @@
+-- Samples behind rssiAvg and snrAvg, so merged averages skip samples without that metric.
+ALTER TABLE "CoverageBin" ADD COLUMN "rssiCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "CoverageBin" ADD COLUMN "snrCount" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing bins did not record these; count is the closest known value until they are rebuilt.
+UPDATE "CoverageBin" SET "rssiCount" = "count" WHERE "rssiAvg" IS NOT NULL;
+UPDATE "CoverageBin" SET "snrCount" = "count" WHERE "snrAvg" IS NOT NULL;
@@ -0,0 +1,146 @@
+import "dotenv/config";
+import "reflect-metadata";
+import { createWriteStream, readFileSync, statSync } from "fs";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { ArchiveScope } from "../src/modules/archive/archive-format";
+import { ArchiveConflictMode, ArchiveService } from "../src/modules/archive/archive.service";
+import { CoverageService } from "../src/modules/coverage/coverage.service";
+import { PrismaService } from "../src/prisma/prisma.service";
+
+type Args = {
+  help?: boolean;
+  deviceId?: string;
+  deviceUid?: string;
+  sessionIds?: string;
+  out?: string;
+  in?: string;
+  onConflict?: string;
+  ownerId?: string;
+};
+
+const [command, ...rest] = process.argv.slice(2);
+const args = parseArgs(rest);
+if (args.help || !command || command === "--help" || command === "-h") {
+  printHelp();
+  process.exit(0);
+}
+if (command !== "export" && command !== "import") {
+  console.error(`Unknown command: ${command}`);
+  printHelp();
+  process.exit(1);
+}
+
+const prisma = new PrismaService();
+const archiveService = new ArchiveService(prisma, new CoverageService(prisma));
+
+async function run(): Promise<void> {
+  if (command === "export") {
+    await runExport();
+  } else {
+    await runImport();
+  }
+}
+
+async function runExport(): Promise<void> {
+  if (!args.out) {
+    console.error("Missing --out.");
+    process.exit(1);
+  }
+  const scope = await resolveScope();
+  const archive = await archiveService.exportArchive(scope);
+  await pipeline(Readable.from(archive), createWriteStream(args.out));
+  console.log(`Wrote ${statSync(args.out).size} bytes to ${args.out}`);
+}
+
+async function runImport(): Promise<void> {
+  if (!args.in) {
+    console.error("Missing --in.");
+    process.exit(1);
+  }
+  const onConflict = args.onConflict ?? "skip";
+  if (onConflict !== "skip" && onConflict !== "copy") {
+    console.error("--onConflict must be skip or copy.");
+    process.exit(1);
+  }
+  const summary = await archiveService.importArchive(readFileSync(args.in), {
+    onConflict: onConflict as ArchiveConflictMode,
+    ownerId: args.ownerId
+  });
+  console.log(JSON.stringify(summary, null, 2));
+}
+
+async function resolveScope(): Promise<ArchiveScope> {
+  const given = [args.deviceId, args.deviceUid, args.sessionIds].filter(Boolean);
+  if (given.length !== 1) {
+    console.error("Provide exactly one of --deviceId, --deviceUid or --sessionIds.");
+    process.exit(1);
+  }
+  if (args.sessionIds) {
+    const sessionIds = args.sessionIds
+      .split(",")
+      .map((id) => id.trim())
+      .filter((id) => id.length > 0);
+    return { type: "sessions", sessionIds };
+  }
+  if (args.deviceUid) {
+    const device = await prisma.device.findUnique({
+      where: { deviceUid: args.deviceUid },
+      select: { id: true }
+    });
+    if (!device) {
+      throw new Error(`Device not found: ${args.deviceUid}`);
+    }
+    return { type: "device", deviceId: device.id };
+  }
+  return { type: "device", deviceId: args.deviceId! };
+}
+
+run()
+  .catch((error) => {
+    console.error(`Archive ${command} failed:`, error?.message ?? error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.onModuleDestroy();
+  });
+
+function parseArgs(argv: string[]): Args {
+  const parsed: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i += 1) {
+    const value = argv[i];
+    if (value === "--help" || value === "-h") {
+      parsed.help = true;
+      continue;
+    }
+    if (value.startsWith("--")) {
+      const key = value.slice(2);
+      const next = argv[i + 1];
+      if (next && !next.startsWith("--")) {
+        parsed[key] = next;
+        i += 1;
+      } else {
+        parsed[key] = true;
+      }
+    }
+  }
+  return parsed as Args;
+}
+
+function printHelp(): void {
+  console.log(`Usage:
+  npm run archive:export -- (--deviceId <id> | --deviceUid <uid> | --sessionIds <id,id>) --out <file.zip>
+  npm run archive:import -- --in <file.zip> [--onConflict skip|copy] [--ownerId <id>]
+
+Options:
+  --deviceId     Export one device with all of its sessions, measurements and telemetry
+  --deviceUid    Same as --deviceId, looked up by device UID
+  --sessionIds   Comma-separated session IDs to export
+  --out          Archive file to write
+  --in           Archive file to import
+  --onConflict   What to do with sessions that already exist here (default: skip)
+                 skip: leave them alone; copy: import them again under new IDs
+  --ownerId      Optional owner user ID for created devices and sessions
+  --help         Show help
+`);
+}
@@ -48,6 +48,8 @@ TARGET_LAT=""
 TARGET_LON=""
 DRY_RUN=false
 REBUILD_COVERAGE=true
+# Same as MAX_FCNT_GAP in src/modules/measurements/frame-counter.ts.
+MAX_FCNT_GAP=16384
 
 while [[ $# -gt 0 ]]; do
   case "$1" in
@@ -198,35 +200,85 @@ if [[ "$REBUILD_COVERAGE" == "true" ]]; then
        WHERE \"deviceId\" = ${DEVICE_ID_SQL}::uuid
        RETURNING 1
      ),
+     -- Same samples as the coverage worker: best-gateway bins from the measurement itself,
+     -- per-gateway bins from RxMetadata (or the measurement's own gateway without it).
+     samples AS (
+       SELECT false AS \"perGateway\", m.\"deviceId\", m.\"sessionId\", m.\"gatewayId\",
+         m.\"capturedAt\", m.\"lat\", m.\"lon\", m.\"rssi\", m.\"snr\", m.\"fCnt\"
+       FROM \"Measurement\" m
+       WHERE m.\"deviceId\" = ${DEVICE_ID_SQL}::uuid
+       UNION ALL
+       SELECT true, m.\"deviceId\", m.\"sessionId\", r.\"gatewayId\",
+         m.\"capturedAt\", m.\"lat\", m.\"lon\", r.\"rssi\", r.\"snr\", m.\"fCnt\"
+       FROM \"RxMetadata\" r
+       JOIN \"Measurement\" m ON m.\"id\" = r.\"measurementId\"
+       WHERE m.\"deviceId\" = ${DEVICE_ID_SQL}::uuid
+       UNION ALL
+       SELECT true, m.\"deviceId\", m.\"sessionId\", m.\"gatewayId\",
+         m.\"capturedAt\", m.\"lat\", m.\"lon\", m.\"rssi\", m.\"snr\", m.\"fCnt\"
+       FROM \"Measurement\" m
+       WHERE m.\"deviceId\" = ${DEVICE_ID_SQL}::uuid
+         AND NOT EXISTS (SELECT 1 FROM \"RxMetadata\" r WHERE r.\"measurementId\" = m.\"id\")
+     ),
+     -- Frame counters are sequenced like the coverage worker does: per device, session and
+     -- UTC day (and gateway for per-gateway bins); partitioning on fCnt IS NULL skips frames
+     -- without a counter.
+     sequenced AS (
+       SELECT
+         s.*,
+         (date_trunc('day', s.\"capturedAt\" AT TIME ZONE 'UTC') AT TIME ZONE 'UTC') AS \"day\",
+         lag(s.\"fCnt\") OVER (
+           PARTITION BY s.\"perGateway\", s.\"deviceId\", s.\"sessionId\",
+             CASE WHEN s.\"perGateway\" THEN s.\"gatewayId\" END,
+             date_trunc('day', s.\"capturedAt\" AT TIME ZONE 'UTC'), (s.\"fCnt\" IS NULL)
+           ORDER BY s.\"capturedAt\", s.\"fCnt\"
+         ) AS \"prevFCnt\"
+       FROM samples s
+     ),
+     framed AS (
+       SELECT
+         s.*,
+         CASE WHEN s.\"fCnt\" IS NULL OR s.\"fCnt\" = s.\"prevFCnt\" THEN 0 ELSE 1 END AS \"received\",
+         CASE
+           WHEN s.\"fCnt\" IS NULL OR s.\"prevFCnt\" IS NULL OR s.\"fCnt\" <= s.\"prevFCnt\" THEN 0
+           WHEN s.\"fCnt\" - s.\"prevFCnt\" - 1 >= ${MAX_FCNT_GAP} THEN 0
+           ELSE s.\"fCnt\" - s.\"prevFCnt\" - 1
+         END AS \"missed\"
+       FROM sequenced s
+     ),
      inserted AS (
        INSERT INTO \"CoverageBin\" (
          \"id\",
-         \"deviceId\", \"sessionId\", \"gatewayId\", \"day\", \"latBin\", \"lonBin\", \"count\",
-         \"rssiAvg\", \"snrAvg\", \"rssiMin\", \"rssiMax\", \"snrMin\", \"snrMax\", \"updatedAt\"
+         \"deviceId\", \"sessionId\", \"gatewayId\", \"perGateway\", \"day\", \"level\", \"latBin\", \"lonBin\", \"count\",
+         \"rssiAvg\", \"snrAvg\", \"rssiMin\", \"rssiMax\", \"snrMin\", \"snrMax\",
+         \"framesReceived\", \"framesExpected\", \"updatedAt\"
        )
        SELECT
          gen_random_uuid(),
-         m.\"deviceId\",
-         m.\"sessionId\",
-         m.\"gatewayId\",
-         (date_trunc('day', m.\"capturedAt\" AT TIME ZONE 'UTC') AT TIME ZONE 'UTC') AS \"day\",
-         floor(m.\"lat\" / 0.001)::int AS \"latBin\",
-         floor(m.\"lon\" / 0.001)::int AS \"lonBin\",
+         s.\"deviceId\",
+         s.\"sessionId\",
+         s.\"gatewayId\",
+         s.\"perGateway\",
+         s.\"day\",
+         l.\"level\",
+         floor(s.\"lat\" / l.\"binSizeDeg\")::int AS \"latBin\",
+         floor(s.\"lon\" / l.\"binSizeDeg\")::int AS \"lonBin\",
          count(*)::int AS \"count\",
-         avg(m.\"rssi\")::double precision AS \"rssiAvg\",
-         avg(m.\"snr\")::double precision AS \"snrAvg\",
-         min(m.\"rssi\")::int AS \"rssiMin\",
-         max(m.\"rssi\")::int AS \"rssiMax\",
-         min(m.\"snr\")::double precision AS \"snrMin\",
-         max(m.\"snr\")::double precision AS \"snrMax\",
+         avg(s.\"rssi\")::double precision AS \"rssiAvg\",
+         avg(s.\"snr\")::double precision AS \"snrAvg\",
+         min(s.\"rssi\")::int AS \"rssiMin\",
+         max(s.\"rssi\")::int AS \"rssiMax\",
+         min(s.\"snr\")::double precision AS \"snrMin\",
+         max(s.\"snr\")::double precision AS \"snrMax\",
+         sum(s.\"received\")::int AS \"framesReceived\",
+         sum(s.\"received\" + s.\"missed\")::int AS \"framesExpected\",
          now() AS \"updatedAt\"
-       FROM \"Measurement\" m
-       WHERE m.\"deviceId\" = ${DEVICE_ID_SQL}::uuid
-         AND m.\"sessionId\" IS NOT NULL
+       FROM framed s
+       CROSS JOIN (VALUES (0, 0.001::double precision), (1, 0.004), (2, 0.016)) AS l(\"level\", \"binSizeDeg\")
        GROUP BY
-         m.\"deviceId\", m.\"sessionId\", m.\"gatewayId\",
-         (date_trunc('day', m.\"capturedAt\" AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'),
-         floor(m.\"lat\" / 0.001)::int, floor(m.\"lon\" / 0.001)::int
+         s.\"deviceId\", s.\"sessionId\", s.\"gatewayId\", s.\"perGateway\", s.\"day\",
+         l.\"level\",
+         floor(s.\"lat\" / l.\"binSizeDeg\")::int, floor(s.\"lon\" / l.\"binSizeDeg\")::int
        RETURNING 1
      )
      SELECT (SELECT count(*) FROM deleted), (SELECT count(*) FROM inserted);")"
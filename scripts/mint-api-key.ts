@@ -112,7 +112,7 @@ function printHelp(): void {
   console.log(`Usage: npm run apikey:mint -- --scopes INGEST,QUERY [options]
 
 Options:
-  --scopes     Comma-separated scopes (required). Example: INGEST,QUERY
+  --scopes     Comma-separated scopes (required): INGEST, QUERY, ADMIN. Example: INGEST,QUERY
   --label      Optional label for the API key
   --ownerId    Optional owner user ID
   --help       Show help
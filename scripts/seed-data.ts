@@ -335,6 +335,7 @@ type CoverageBinAccumulator = {
   deviceId: string;
   sessionId: string | null;
   gatewayId: string | null;
+  perGateway: boolean;
   day: Date;
   latBin: number;
   lonBin: number;
@@ -370,21 +371,30 @@ async function generateCoverageBins(
       lon: true,
       rssi: true,
       snr: true,
+      rxMetadataRows: { select: { gatewayId: true, rssi: true, snr: true } },
     },
   });
   if (measurements.length === 0) return 0;
 
+  // Same samples as the coverage worker: one best-gateway sample per measurement, plus one
+  // per receiving gateway (or the measurement's own gateway when it has no RxMetadata).
   const bins = new Map<string, CoverageBinAccumulator>();
-  for (const measurement of measurements) {
+  const addSample = (
+    measurement: (typeof measurements)[number],
+    perGateway: boolean,
+    gatewayId: string | null,
+    rssi: number | null,
+    snr: number | null,
+  ) => {
     const day = startOfUtcDay(measurement.capturedAt);
     const latBin = Math.floor(measurement.lat / COVERAGE_BIN_SIZE_DEG);
     const lonBin = Math.floor(measurement.lon / COVERAGE_BIN_SIZE_DEG);
     const sessionId = measurement.sessionId ?? null;
-    const gatewayId = measurement.gatewayId ?? null;
     const key = [
       measurement.deviceId,
       sessionId ?? "null",
       gatewayId ?? "null",
+      perGateway,
       day.toISOString(),
       latBin,
       lonBin,
@@ -396,6 +406,7 @@ async function generateCoverageBins(
         deviceId: measurement.deviceId,
         sessionId,
         gatewayId,
+        perGateway,
         day,
         latBin,
         lonBin,
@@ -413,28 +424,39 @@ async function generateCoverageBins(
     }
 
     bin.count += 1;
-    if (typeof measurement.rssi === "number" && Number.isFinite(measurement.rssi)) {
+    if (typeof rssi === "number" && Number.isFinite(rssi)) {
       if (bin.rssiCount === 0) {
-        bin.rssiMin = measurement.rssi;
-        bin.rssiMax = measurement.rssi;
+        bin.rssiMin = rssi;
+        bin.rssiMax = rssi;
       } else {
-        bin.rssiMin = Math.min(bin.rssiMin, measurement.rssi);
-        bin.rssiMax = Math.max(bin.rssiMax, measurement.rssi);
+        bin.rssiMin = Math.min(bin.rssiMin, rssi);
+        bin.rssiMax = Math.max(bin.rssiMax, rssi);
       }
-      bin.rssiSum += measurement.rssi;
+      bin.rssiSum += rssi;
       bin.rssiCount += 1;
     }
-    if (typeof measurement.snr === "number" && Number.isFinite(measurement.snr)) {
+    if (typeof snr === "number" && Number.isFinite(snr)) {
       if (bin.snrCount === 0) {
-        bin.snrMin = measurement.snr;
-        bin.snrMax = measurement.snr;
+        bin.snrMin = snr;
+        bin.snrMax = snr;
       } else {
-        bin.snrMin = Math.min(bin.snrMin, measurement.snr);
-        bin.snrMax = Math.max(bin.snrMax, measurement.snr);
+        bin.snrMin = Math.min(bin.snrMin, snr);
+        bin.snrMax = Math.max(bin.snrMax, snr);
       }
-      bin.snrSum += measurement.snr;
+      bin.snrSum += snr;
       bin.snrCount += 1;
     }
+  };
+
+  for (const measurement of measurements) {
+    const gatewayId = measurement.gatewayId ?? null;
+    addSample(measurement, false, gatewayId, measurement.rssi, measurement.snr);
+    if (measurement.rxMetadataRows.length === 0) {
+      addSample(measurement, true, gatewayId, measurement.rssi, measurement.snr);
+    }
+    for (const rx of measurement.rxMetadataRows) {
+      addSample(measurement, true, rx.gatewayId, rx.rssi, rx.snr);
+    }
   }
 
   const data: Prisma.CoverageBinCreateManyInput[] = [];
@@ -443,12 +465,15 @@ async function generateCoverageBins(
       deviceId: bin.deviceId,
       sessionId: bin.sessionId,
       gatewayId: bin.gatewayId,
+      perGateway: bin.perGateway,
       day: bin.day,
       latBin: bin.latBin,
       lonBin: bin.lonBin,
       count: bin.count,
       rssiAvg: bin.rssiCount ? bin.rssiSum / bin.rssiCount : null,
       snrAvg: bin.snrCount ? bin.snrSum / bin.snrCount : null,
+      rssiCount: bin.rssiCount,
+      snrCount: bin.snrCount,
       rssiMin: bin.rssiCount ? bin.rssiMin : null,
       rssiMax: bin.rssiCount ? bin.rssiMax : null,
       snrMin: bin.snrCount ? bin.snrMin : null,
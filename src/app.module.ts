@@ -9,15 +9,22 @@ import { MeasurementsModule } from './modules/measurements/measurements.module';
 import { TracksModule } from './modules/tracks/tracks.module';
 import { DevicesModule } from './modules/devices/devices.module';
 import { SessionsModule } from './modules/sessions/sessions.module';
+import { SessionImportModule } from './modules/session-import/session-import.module';
 import { LorawanModule } from './modules/lorawan/lorawan.module';
 import { CoverageModule } from './modules/coverage/coverage.module';
 import { ExportModule } from './modules/export/export.module';
+import { ArchiveModule } from './modules/archive/archive.module';
+import { SharesModule } from './modules/shares/shares.module';
+import { PayloadDecodersModule } from './modules/payload-decoders/payload-decoders.module';
 import { GatewaysModule } from './modules/gateways/gateways.module';
 import { MeshtasticModule } from './modules/meshtastic/meshtastic.module';
+import { MeshtasticMqttModule } from './modules/meshtastic-mqtt/meshtastic-mqtt.module';
 import { ReceiversModule } from './modules/receivers/receivers.module';
 import { RetentionModule } from './modules/retention/retention.module';
 import { StatusModule } from './modules/status/status.module';
 import { EventsModule } from './modules/events/events.module';
+import { TerrainModule } from './modules/terrain/terrain.module';
+import { TtsMqttModule } from './modules/tts-mqtt/tts-mqtt.module';
 import { PrismaModule } from './prisma/prisma.module';
 
 @Module({
@@ -31,14 +38,21 @@ import { PrismaModule } from './prisma/prisma.module';
     MeasurementsModule,
     TracksModule,
     SessionsModule,
+    SessionImportModule,
     LorawanModule,
+    TtsMqttModule,
     CoverageModule,
     ExportModule,
+    ArchiveModule,
+    SharesModule,
+    PayloadDecodersModule,
     GatewaysModule,
     MeshtasticModule,
+    MeshtasticMqttModule,
     EventsModule,
     ReceiversModule,
     StatusModule,
+    TerrainModule,
     PrismaModule,
     RetentionModule
   ],
@@ -0,0 +1,41 @@
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (value: number) => (value * Math.PI) / 180;
+const toDegrees = (value: number) => (value * 180) / Math.PI;
+
+// Initial great-circle bearing from the first point to the second, 0-360 clockwise from north.
+export function bearingDegrees(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const lat1Rad = toRadians(lat1);
+  const lat2Rad = toRadians(lat2);
+  const deltaLon = toRadians(lon2 - lon1);
+  const y = Math.sin(deltaLon) * Math.cos(lat2Rad);
+  const x =
+    Math.cos(lat1Rad) * Math.sin(lat2Rad) -
+    Math.sin(lat1Rad) * Math.cos(lat2Rad) * Math.cos(deltaLon);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+export function destinationPoint(
+  lat: number,
+  lon: number,
+  bearing: number,
+  distance: number
+): { lat: number; lon: number } {
+  const angular = distance / EARTH_RADIUS_METERS;
+  const bearingRad = toRadians(bearing);
+  const latRad = toRadians(lat);
+  const destLat = Math.asin(
+    Math.sin(latRad) * Math.cos(angular) +
+      Math.cos(latRad) * Math.sin(angular) * Math.cos(bearingRad)
+  );
+  const destLon =
+    toRadians(lon) +
+    Math.atan2(
+      Math.sin(bearingRad) * Math.sin(angular) * Math.cos(latRad),
+      Math.cos(angular) - Math.sin(latRad) * Math.sin(destLat)
+    );
+  return {
+    lat: toDegrees(destLat),
+    lon: ((toDegrees(destLon) + 540) % 360) - 180
+  };
+}
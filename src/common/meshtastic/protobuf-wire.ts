@@ -0,0 +1,99 @@
+/**
+ * Minimal protobuf wire-format reader: enough to walk the handful of Meshtastic messages we
+ * decode without generated code. Fields are returned in wire order; repeated fields repeat.
+ * Every varint field we read is 32-bit, so varints keep only their low 32 bits (unsigned).
+ *
+ * Shared with the pi-forwarder, which compiles this file into its own build. Keep it free of
+ * imports so the forwarder needs none of the backend's dependencies.
+ */
+export type ProtoField =
+  | { field: number; wireType: 0; value: number }
+  | { field: number; wireType: 1 | 2 | 5; value: Buffer };
+
+export function readProtoFields(buffer: Buffer): ProtoField[] {
+  const fields: ProtoField[] = [];
+  let offset = 0;
+
+  const readVarint = (): number => {
+    let result = 0;
+    for (let shift = 0; shift < 70 && offset < buffer.length; shift += 7) {
+      const byte = buffer[offset];
+      offset += 1;
+      if (shift < 32) {
+        result |= (byte & 0x7f) << shift;
+      }
+      if ((byte & 0x80) === 0) {
+        return result >>> 0;
+      }
+    }
+    throw new Error('Malformed protobuf varint');
+  };
+
+  const take = (length: number): Buffer => {
+    if (length < 0 || offset + length > buffer.length) {
+      throw new Error('Truncated protobuf field');
+    }
+    const value = buffer.subarray(offset, offset + length);
+    offset += length;
+    return value;
+  };
+
+  while (offset < buffer.length) {
+    const key = readVarint();
+    const field = key >>> 3;
+    const wireType = key & 7;
+    if (field === 0) {
+      throw new Error('Invalid protobuf field number');
+    }
+    if (wireType === 0) {
+      fields.push({ field, wireType, value: readVarint() });
+    } else if (wireType === 1) {
+      fields.push({ field, wireType, value: take(8) });
+    } else if (wireType === 2) {
+      fields.push({ field, wireType, value: take(readVarint()) });
+    } else if (wireType === 5) {
+      fields.push({ field, wireType, value: take(4) });
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+
+  return fields;
+}
+
+export function toUint32(field: ProtoField): number | null {
+  if (field.wireType === 0) {
+    return field.value;
+  }
+  return field.wireType === 5 ? field.value.readUInt32LE(0) : null;
+}
+
+export function toInt32(field: ProtoField): number | null {
+  if (field.wireType === 0) {
+    return field.value | 0;
+  }
+  return field.wireType === 5 ? field.value.readInt32LE(0) : null;
+}
+
+export function toSint32(field: ProtoField): number | null {
+  if (field.wireType !== 0) {
+    return null;
+  }
+  return (field.value >>> 1) ^ -(field.value & 1);
+}
+
+export function toFloat(field: ProtoField): number | null {
+  return field.wireType === 5 ? field.value.readFloatLE(0) : null;
+}
+
+export function toBool(field: ProtoField): boolean | null {
+  return field.wireType === 0 ? field.value !== 0 : null;
+}
+
+export function toBytes(field: ProtoField): Buffer | null {
+  return field.wireType === 2 ? field.value : null;
+}
+
+export function toText(field: ProtoField): string | null {
+  return field.wireType === 2 ? field.value.toString('utf8') : null;
+}
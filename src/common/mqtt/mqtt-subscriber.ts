@@ -0,0 +1,133 @@
+import { randomUUID } from 'crypto';
+import { connect, type MqttClient } from 'mqtt';
+import { logError, logInfo, logWarn } from '../logging/structured-logger';
+
+const INITIAL_RECONNECT_DELAY_MS = 1_000;
+const MAX_RECONNECT_DELAY_MS = 60_000;
+
+export type MqttSubscriberOptions = {
+  /** Prefix of the structured log events, e.g. `tts_mqtt`. */
+  name: string;
+  url: string;
+  username?: string;
+  password?: string;
+  topics: string[];
+  onMessage: (topic: string, message: Buffer) => Promise<void>;
+};
+
+export type MqttSubscriberStatus = {
+  ok: boolean;
+  lastRunAt?: Date;
+  lastError?: string;
+};
+
+/**
+ * Long-lived subscription for an MQTT ingest source. mqtt.js only retries at a fixed period,
+ * so reconnects are scheduled here with exponential backoff. The status has the shape of the
+ * background workers in `GET /api/status`; `lastRunAt` is the last message handled.
+ */
+export class MqttSubscriber {
+  private client: MqttClient | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private connected = false;
+  private lastMessageAt: Date | null = null;
+  private lastError: string | null = null;
+
+  constructor(private readonly options: MqttSubscriberOptions) {}
+
+  start(): void {
+    if (this.client) {
+      return;
+    }
+
+    const client = connect(this.options.url, {
+      username: this.options.username,
+      password: this.options.password,
+      clientId: `loramapr-${randomUUID().slice(0, 8)}`,
+      reconnectPeriod: 0
+    });
+    client.on('connect', () => this.handleConnect());
+    client.on('message', (topic, message) => {
+      void this.handleMessage(topic, message);
+    });
+    client.on('error', (error) => {
+      this.lastError = error.message;
+      logWarn(`${this.options.name}.error`, { error: error.message });
+    });
+    client.on('close', () => this.handleClose());
+    this.client = client;
+  }
+
+  stop(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.client) {
+      const client = this.client;
+      this.client = null;
+      client.end(true);
+    }
+    this.connected = false;
+  }
+
+  getStatus(): MqttSubscriberStatus {
+    return {
+      ok: this.connected,
+      lastRunAt: this.lastMessageAt ?? undefined,
+      lastError: this.lastError ?? (this.connected ? undefined : 'disconnected')
+    };
+  }
+
+  private handleConnect(): void {
+    if (!this.client) {
+      return;
+    }
+    this.connected = true;
+    this.reconnectAttempts = 0;
+    this.lastError = null;
+    logInfo(`${this.options.name}.connected`, { topics: this.options.topics });
+
+    this.client.subscribe(this.options.topics, { qos: 1 }, (error) => {
+      if (error) {
+        this.lastError = error.message;
+        logError(`${this.options.name}.subscribe.failed`, {
+          topics: this.options.topics,
+          error: error.message
+        });
+      }
+    });
+  }
+
+  private handleClose(): void {
+    const wasConnected = this.connected;
+    this.connected = false;
+    if (!this.client || this.reconnectTimer) {
+      return;
+    }
+
+    const delay = Math.min(
+      MAX_RECONNECT_DELAY_MS,
+      INITIAL_RECONNECT_DELAY_MS * 2 ** this.reconnectAttempts
+    );
+    this.reconnectAttempts += 1;
+    if (wasConnected) {
+      logWarn(`${this.options.name}.disconnected`, { reconnectInMs: delay });
+    }
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.client?.reconnect();
+    }, delay);
+  }
+
+  private async handleMessage(topic: string, message: Buffer): Promise<void> {
+    try {
+      await this.options.onMessage(topic, message);
+      this.lastMessageAt = new Date();
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      logError(`${this.options.name}.message.failed`, { topic, error: this.lastError });
+    }
+  }
+}
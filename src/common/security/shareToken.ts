@@ -0,0 +1,40 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const SHARE_ID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function getShareLinkSecret(): string | null {
+  const value = process.env.SHARE_LINK_SECRET?.trim();
+  return value ? value : null;
+}
+
+/** `<shareId>.<signature>`; the signature is an HMAC-SHA256 of the id, base64url encoded. */
+export function signShareToken(shareId: string, secret: string): string {
+  return `${shareId}.${computeSignature(shareId, secret)}`;
+}
+
+/**
+ * Returns the share id when the token carries a valid signature, otherwise null.
+ * Forged or mangled tokens are turned away here without touching the database.
+ */
+export function verifyShareToken(token: string, secret: string): string | null {
+  const separator = token.indexOf('.');
+  if (separator <= 0) {
+    return null;
+  }
+  const shareId = token.slice(0, separator);
+  const signature = token.slice(separator + 1);
+  if (!SHARE_ID_REGEX.test(shareId)) {
+    return null;
+  }
+
+  const expected = Buffer.from(computeSignature(shareId, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return shareId;
+}
+
+function computeSignature(shareId: string, secret: string): string {
+  return createHmac('sha256', secret).update(shareId.toLowerCase()).digest('base64url');
+}
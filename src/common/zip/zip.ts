@@ -0,0 +1,314 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createDeflateRaw, deflateRawSync, inflateRawSync } from 'zlib';
+
+export type ZipEntry = {
+  name: string;
+  data: Buffer;
+  modifiedAt?: Date;
+};
+
+export type ZipStreamEntry = {
+  name: string;
+  // Read once, after the previous entry has been written.
+  data: AsyncIterable<Buffer>;
+  modifiedAt?: Date;
+};
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const ZIP_VERSION = 20;
+const FLAG_UTF8_NAMES = 0x0800;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const END_OF_CENTRAL_DIRECTORY_MIN_SIZE = 22;
+const MAX_ZIP_COMMENT_LENGTH = 0xffff;
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const CRC32_TABLE = buildCrc32Table();
+
+function buildCrc32Table(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+}
+
+// Pass the previous result to checksum data that arrives in pieces.
+export function crc32(data: Buffer, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let index = 0; index < data.length; index += 1) {
+    crc = CRC32_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Builds a deflated zip archive in memory. Entries are written in the given order,
+ * which matters for KMZ where viewers read the first .kml entry as the document.
+ * No zip64 support, so individual entries and the archive must stay under 4 GiB.
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const compressed = deflateRawSync(entry.data);
+    const checksum = crc32(entry.data);
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(ZIP_VERSION, 4);
+    local.writeUInt16LE(FLAG_UTF8_NAMES, 6);
+    local.writeUInt16LE(METHOD_DEFLATE, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+    central.writeUInt16LE(ZIP_VERSION, 4);
+    central.writeUInt16LE(ZIP_VERSION, 6);
+    central.writeUInt16LE(FLAG_UTF8_NAMES, 8);
+    central.writeUInt16LE(METHOD_DEFLATE, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    // Extra field, comment, disk number, internal and external attributes stay zero.
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Streaming form of createZip. Each entry is deflated as its data arrives and followed by
+ * a data descriptor with its CRC and sizes, so no entry has to be held in memory; the
+ * central directory is written at the end. Entries are pulled one at a time, so an entry
+ * can be built from state the earlier ones produced. Same 4 GiB limits as createZip.
+ */
+export async function* createZipStream(
+  entries: Iterable<ZipStreamEntry> | AsyncIterable<ZipStreamEntry>
+): AsyncGenerator<Buffer> {
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+  let count = 0;
+
+  for await (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const flags = FLAG_UTF8_NAMES | FLAG_DATA_DESCRIPTOR;
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+
+    // CRC and sizes stay zero here; the data descriptor carries them.
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(ZIP_VERSION, 4);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(METHOD_DEFLATE, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt16LE(name.length, 26);
+    yield Buffer.concat([local, name]);
+
+    let checksum = 0;
+    let size = 0;
+    let compressedSize = 0;
+    const deflate = createDeflateRaw();
+    const source = Readable.from(
+      (async function* () {
+        for await (const chunk of entry.data) {
+          checksum = crc32(chunk, checksum);
+          size += chunk.length;
+          yield chunk;
+        }
+      })()
+    );
+    // A failing source destroys the deflate stream, which ends the loop below with its error.
+    const piped = pipeline(source, deflate).catch(() => undefined);
+    for await (const chunk of deflate as AsyncIterable<Buffer>) {
+      compressedSize += chunk.length;
+      yield chunk;
+    }
+    await piped;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+    descriptor.writeUInt32LE(checksum, 4);
+    descriptor.writeUInt32LE(compressedSize, 8);
+    descriptor.writeUInt32LE(size, 12);
+    yield descriptor;
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+    central.writeUInt16LE(ZIP_VERSION, 4);
+    central.writeUInt16LE(ZIP_VERSION, 6);
+    central.writeUInt16LE(flags, 8);
+    central.writeUInt16LE(METHOD_DEFLATE, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressedSize, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + compressedSize + descriptor.length;
+    count += 1;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  end.writeUInt16LE(count, 8);
+  end.writeUInt16LE(count, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  yield Buffer.concat([centralDirectory, end]);
+}
+
+export type ReadZipOptions = {
+  // Cap on each inflated entry, so a small archive cannot expand without limit.
+  maxEntryBytes?: number;
+  // Cap on the inflated size of all entries that are read.
+  maxTotalBytes?: number;
+  // Cap on the number of entries in the central directory, read or not.
+  maxEntries?: number;
+  // Entries rejected here are skipped before their data is touched.
+  include?: (name: string) => boolean;
+};
+
+/**
+ * Reads a zip archive through its central directory. Supports stored and deflated
+ * entries and checks each entry's CRC; anything else raises ZipFormatError.
+ * Size limits are checked against the sizes the directory declares before inflating,
+ * and inflation stops at the declared size, so a lying directory cannot get past them.
+ */
+export function readZip(archive: Buffer, options: ReadZipOptions = {}): ZipEntry[] {
+  const endOffset = findEndOfCentralDirectory(archive);
+  const entryCount = archive.readUInt16LE(endOffset + 10);
+  const directorySize = archive.readUInt32LE(endOffset + 12);
+  let offset = archive.readUInt32LE(endOffset + 16);
+  if (offset + directorySize > endOffset) {
+    throw new ZipFormatError('Central directory is out of bounds');
+  }
+  if (options.maxEntries !== undefined && entryCount > options.maxEntries) {
+    throw new ZipFormatError(`Archive has more than ${options.maxEntries} entries`);
+  }
+
+  const entries: ZipEntry[] = [];
+  let totalBytes = 0;
+  for (let index = 0; index < entryCount; index += 1) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new ZipFormatError('Corrupt central directory');
+    }
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const checksum = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (options.include && !options.include(name)) {
+      continue;
+    }
+    if (flags & 0x1) {
+      throw new ZipFormatError(`${name}: encrypted entries are not supported`);
+    }
+    if (options.maxEntryBytes !== undefined && size > options.maxEntryBytes) {
+      throw new ZipFormatError(`${name}: entry is larger than ${options.maxEntryBytes} bytes`);
+    }
+    totalBytes += size;
+    if (options.maxTotalBytes !== undefined && totalBytes > options.maxTotalBytes) {
+      throw new ZipFormatError(`Archive expands to more than ${options.maxTotalBytes} bytes`);
+    }
+    if (localOffset + 30 > archive.length || archive.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER_SIGNATURE) {
+      throw new ZipFormatError(`${name}: missing local file header`);
+    }
+    const dataStart =
+      localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    if (dataStart + compressedSize > archive.length) {
+      throw new ZipFormatError(`${name}: entry data is truncated`);
+    }
+    const raw = archive.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === METHOD_STORE) {
+      data = Buffer.from(raw);
+    } else if (method === METHOD_DEFLATE) {
+      try {
+        data = inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+      } catch {
+        throw new ZipFormatError(`${name}: entry data is corrupt`);
+      }
+    } else {
+      throw new ZipFormatError(`${name}: compression method ${method} is not supported`);
+    }
+    if (data.length !== size || crc32(data) !== checksum) {
+      throw new ZipFormatError(`${name}: checksum mismatch`);
+    }
+    entries.push({ name, data });
+  }
+  return entries;
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  const lowest = Math.max(0, archive.length - END_OF_CENTRAL_DIRECTORY_MIN_SIZE - MAX_ZIP_COMMENT_LENGTH);
+  for (let offset = archive.length - END_OF_CENTRAL_DIRECTORY_MIN_SIZE; offset >= lowest; offset -= 1) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new ZipFormatError('Not a zip archive');
+}
+
+function toDosDateTime(value: Date): { time: number; date: number } {
+  // DOS timestamps start in 1980 and have two-second resolution.
+  const year = Math.max(value.getUTCFullYear(), 1980);
+  return {
+    time:
+      (value.getUTCHours() << 11) | (value.getUTCMinutes() << 5) | Math.floor(value.getUTCSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getUTCMonth() + 1) << 5) | value.getUTCDate()
+  };
+}
@@ -20,6 +20,21 @@ const envSchema = Joi.object({
   TTS_WEBHOOK_API_KEY: optionalString,
   TTS_WEBHOOK_BASIC_USER: optionalString,
   TTS_WEBHOOK_BASIC_PASS: optionalString,
+  TTS_MQTT_URL: Joi.string()
+    .uri({ scheme: ['mqtt', 'mqtts', 'ws', 'wss'] })
+    .empty('')
+    .optional(),
+  TTS_MQTT_USERNAME: optionalString,
+  TTS_MQTT_PASSWORD: optionalString,
+  TTS_MQTT_TOPIC: optionalString,
+  MESHTASTIC_MQTT_URL: Joi.string()
+    .uri({ scheme: ['mqtt', 'mqtts', 'ws', 'wss'] })
+    .empty('')
+    .optional(),
+  MESHTASTIC_MQTT_USERNAME: optionalString,
+  MESHTASTIC_MQTT_PASSWORD: optionalString,
+  MESHTASTIC_MQTT_TOPICS: optionalString,
+  MESHTASTIC_MQTT_CHANNEL_KEYS: optionalString,
   RETENTION_WEBHOOKEVENT_DAYS: Joi.number().integer().min(1).optional(),
   RETENTION_AGENTDECISION_DAYS: Joi.number().integer().min(1).optional(),
   RETENTION_RUN_AT_STARTUP: Joi.boolean()
@@ -32,7 +47,8 @@ const envSchema = Joi.object({
     .falsy('no')
     .falsy('off')
     .optional(),
-  RETENTION_SCHEDULE_CRON: optionalString
+  RETENTION_SCHEDULE_CRON: optionalString,
+  TERRAIN_DIR: optionalString
 });
 
 export function validateEnv(config: Record<string, unknown>): Record<string, unknown> {
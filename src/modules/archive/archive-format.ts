@@ -0,0 +1,397 @@
+import { z } from 'zod';
+import {
+  createZip,
+  createZipStream,
+  readZip,
+  ReadZipOptions,
+  ZipFormatError,
+  ZipStreamEntry
+} from '../../common/zip/zip';
+
+export const ARCHIVE_FORMAT = 'loramapr-archive';
+// Bump when a record shape changes incompatibly; importers reject newer versions.
+export const ARCHIVE_VERSION = 1;
+
+export const ARCHIVE_FILES = {
+  manifest: 'manifest.json',
+  devices: 'devices.ndjson',
+  autoSessionConfigs: 'auto-session-configs.ndjson',
+  sessions: 'sessions.ndjson',
+  measurements: 'measurements.ndjson',
+  rxMetadata: 'rx-metadata.ndjson',
+  meshtasticRx: 'meshtastic-rx.ndjson',
+  telemetry: 'telemetry.ndjson'
+} as const;
+
+const NDJSON_CHUNK_RECORDS = 10_000;
+
+type ArchiveRecordKey = Exclude<keyof typeof ARCHIVE_FILES, 'manifest'>;
+
+export class ArchiveFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveFormatError';
+  }
+}
+
+const isoDate = z
+  .string()
+  .datetime({ offset: true })
+  .transform((value) => new Date(value));
+const nullableDate = isoDate.nullable().default(null);
+const nullableString = z.string().nullable().default(null);
+const nullableNumber = z.number().nullable().default(null);
+const nullableInt = z.number().int().nullable().default(null);
+const jsonValue = z.unknown().transform((value) => (value === undefined ? null : value));
+
+const DeviceRecordSchema = z.object({
+  id: z.string().uuid(),
+  deviceUid: z.string().min(1),
+  name: nullableString,
+  notes: nullableString,
+  meshtasticNodeId: nullableString,
+  hwModel: nullableString,
+  firmwareVersion: nullableString,
+  appVersion: nullableString,
+  longName: nullableString,
+  shortName: nullableString,
+  macaddr: nullableString,
+  publicKey: nullableString,
+  isUnmessagable: z.boolean().nullable().default(null),
+  role: nullableString,
+  lastNodeInfoAt: nullableDate,
+  iconKey: nullableString,
+  iconOverride: z.boolean().default(false),
+  isArchived: z.boolean().default(false),
+  createdAt: isoDate,
+  lastSeenAt: nullableDate
+});
+
+const AutoSessionConfigRecordSchema = z.object({
+  deviceId: z.string().uuid(),
+  enabled: z.boolean(),
+  homeLat: nullableNumber,
+  homeLon: nullableNumber,
+  radiusMeters: nullableInt,
+  minOutsideSeconds: nullableInt,
+  minInsideSeconds: nullableInt
+});
+
+const SessionRecordSchema = z.object({
+  id: z.string().uuid(),
+  deviceId: z.string().uuid(),
+  name: nullableString,
+  startedAt: isoDate,
+  endedAt: nullableDate,
+  notes: nullableString,
+  isArchived: z.boolean().default(false),
+  archivedAt: nullableDate
+});
+
+const MeasurementRecordSchema = z.object({
+  id: z.string().uuid(),
+  deviceId: z.string().uuid(),
+  sessionId: z.string().uuid().nullable().default(null),
+  source: nullableString,
+  capturedAt: isoDate,
+  lat: z.number(),
+  lon: z.number(),
+  alt: nullableNumber,
+  altitude: nullableNumber,
+  hdop: nullableNumber,
+  pdop: nullableNumber,
+  satsInView: nullableInt,
+  precisionBits: nullableInt,
+  locationSource: nullableString,
+  groundSpeed: nullableNumber,
+  groundTrack: nullableNumber,
+  rssi: nullableInt,
+  snr: nullableNumber,
+  sf: nullableInt,
+  bw: nullableInt,
+  freq: nullableNumber,
+  // Missing in archives written before frame counters were exported.
+  fCnt: nullableInt,
+  gatewayId: nullableString,
+  payloadRaw: nullableString,
+  rxMetadata: jsonValue
+});
+
+const RxMetadataRecordSchema = z.object({
+  measurementId: z.string().uuid(),
+  gatewayId: z.string().min(1),
+  rssi: nullableInt,
+  snr: nullableNumber,
+  channelIndex: nullableInt,
+  time: nullableDate,
+  fineTimestamp: nullableInt,
+  receivedAt: isoDate
+});
+
+const MeshtasticRxRecordSchema = z.object({
+  measurementId: z.string().uuid(),
+  rxTime: nullableDate,
+  rxRssi: nullableInt,
+  rxSnr: nullableNumber,
+  hopLimit: nullableInt,
+  hopStart: nullableInt,
+  relayNode: nullableInt,
+  transportMechanism: nullableString,
+  fromId: nullableString,
+  toId: nullableString,
+  raw: jsonValue
+});
+
+const TelemetryRecordSchema = z.object({
+  deviceId: z.string().uuid(),
+  capturedAt: isoDate,
+  source: z.string(),
+  batteryLevel: nullableInt,
+  voltage: nullableNumber,
+  channelUtilization: nullableNumber,
+  airUtilTx: nullableNumber,
+  uptimeSeconds: nullableInt,
+  raw: jsonValue
+});
+
+const RECORD_SCHEMAS = {
+  devices: DeviceRecordSchema,
+  autoSessionConfigs: AutoSessionConfigRecordSchema,
+  sessions: SessionRecordSchema,
+  measurements: MeasurementRecordSchema,
+  rxMetadata: RxMetadataRecordSchema,
+  meshtasticRx: MeshtasticRxRecordSchema,
+  telemetry: TelemetryRecordSchema
+} satisfies Record<ArchiveRecordKey, z.ZodTypeAny>;
+
+export type ArchiveDeviceRecord = z.infer<typeof DeviceRecordSchema>;
+export type ArchiveAutoSessionConfigRecord = z.infer<typeof AutoSessionConfigRecordSchema>;
+export type ArchiveSessionRecord = z.infer<typeof SessionRecordSchema>;
+export type ArchiveMeasurementRecord = z.infer<typeof MeasurementRecordSchema>;
+export type ArchiveRxMetadataRecord = z.infer<typeof RxMetadataRecordSchema>;
+export type ArchiveMeshtasticRxRecord = z.infer<typeof MeshtasticRxRecordSchema>;
+export type ArchiveTelemetryRecord = z.infer<typeof TelemetryRecordSchema>;
+
+export type ArchiveContents = {
+  devices: ArchiveDeviceRecord[];
+  autoSessionConfigs: ArchiveAutoSessionConfigRecord[];
+  sessions: ArchiveSessionRecord[];
+  measurements: ArchiveMeasurementRecord[];
+  rxMetadata: ArchiveRxMetadataRecord[];
+  meshtasticRx: ArchiveMeshtasticRxRecord[];
+  telemetry: ArchiveTelemetryRecord[];
+};
+
+// Each table as a sequence of pages, read while the archive is written.
+export type ArchiveTablePages = { [K in ArchiveRecordKey]: AsyncIterable<ArchiveContents[K]> };
+
+export type ArchiveScope = { type: 'device'; deviceId: string } | { type: 'sessions'; sessionIds: string[] };
+
+const ManifestSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: isoDate,
+  scope: z.union([
+    z.object({ type: z.literal('device'), deviceId: z.string() }),
+    z.object({ type: z.literal('sessions'), sessionIds: z.array(z.string()) })
+  ]),
+  counts: z.record(z.number().int().nonnegative())
+});
+
+export type ArchiveManifest = z.infer<typeof ManifestSchema>;
+
+/**
+ * Zip with a JSON manifest and one NDJSON file per table. Dates are ISO strings;
+ * ids are the source instance's and get remapped on import.
+ */
+export function buildArchive(contents: ArchiveContents, scope: ArchiveScope, exportedAt = new Date()): Buffer {
+  const keys = Object.keys(RECORD_SCHEMAS) as ArchiveRecordKey[];
+  const counts = Object.fromEntries(keys.map((key) => [key, contents[key].length]));
+
+  return createZip([
+    {
+      name: ARCHIVE_FILES.manifest,
+      data: encodeManifest(scope, exportedAt, counts),
+      modifiedAt: exportedAt
+    },
+    ...keys.map((key) => ({
+      name: ARCHIVE_FILES[key],
+      data: encodeNdjson(contents[key]),
+      modifiedAt: exportedAt
+    }))
+  ]);
+}
+
+/**
+ * The same archive as buildArchive, written while the tables are read so an export never
+ * holds more than one page. The manifest comes last because its counts are only known
+ * then; readers find entries through the zip's central directory, so order does not matter.
+ */
+export async function* streamArchive(
+  tables: ArchiveTablePages,
+  scope: ArchiveScope,
+  exportedAt = new Date()
+): AsyncGenerator<Buffer> {
+  const keys = Object.keys(RECORD_SCHEMAS) as ArchiveRecordKey[];
+  const counts: Record<string, number> = {};
+
+  async function* encodePages(key: ArchiveRecordKey): AsyncGenerator<Buffer> {
+    counts[key] = 0;
+    for await (const page of tables[key] as AsyncIterable<unknown[]>) {
+      counts[key] += page.length;
+      yield encodeNdjson(page);
+    }
+  }
+
+  async function* entries(): AsyncGenerator<ZipStreamEntry> {
+    for (const key of keys) {
+      yield { name: ARCHIVE_FILES[key], data: encodePages(key), modifiedAt: exportedAt };
+    }
+    yield {
+      name: ARCHIVE_FILES.manifest,
+      data: (async function* () {
+        yield encodeManifest(scope, exportedAt, counts);
+      })(),
+      modifiedAt: exportedAt
+    };
+  }
+
+  yield* createZipStream(entries());
+}
+
+export function parseArchive(
+  archive: Buffer,
+  options: Omit<ReadZipOptions, 'include'> = {}
+): { manifest: ArchiveManifest; contents: ArchiveContents } {
+  const knownFiles = new Set<string>(Object.values(ARCHIVE_FILES));
+  let entries;
+  try {
+    // Files this version does not know are ignored without inflating them.
+    entries = readZip(archive, { ...options, include: (name) => knownFiles.has(name) });
+  } catch (error) {
+    if (error instanceof ZipFormatError) {
+      throw new ArchiveFormatError(`Invalid archive: ${error.message}`);
+    }
+    throw error;
+  }
+  const files = new Map(entries.map((entry) => [entry.name, entry.data]));
+
+  const manifestData = files.get(ARCHIVE_FILES.manifest);
+  if (!manifestData) {
+    throw new ArchiveFormatError(`Invalid archive: ${ARCHIVE_FILES.manifest} is missing`);
+  }
+  let manifestJson: unknown;
+  try {
+    manifestJson = JSON.parse(manifestData.toString('utf8'));
+  } catch {
+    throw new ArchiveFormatError(`Invalid archive: ${ARCHIVE_FILES.manifest} is not valid JSON`);
+  }
+  const manifestResult = ManifestSchema.safeParse(manifestJson);
+  if (!manifestResult.success) {
+    throw new ArchiveFormatError(
+      `Invalid archive: ${ARCHIVE_FILES.manifest}: ${formatIssue(manifestResult.error)}`
+    );
+  }
+  const manifest = manifestResult.data;
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new ArchiveFormatError(
+      `Archive version ${manifest.version} is newer than this server supports (${ARCHIVE_VERSION})`
+    );
+  }
+
+  const contents = {} as Record<ArchiveRecordKey, unknown[]>;
+  for (const key of Object.keys(RECORD_SCHEMAS) as ArchiveRecordKey[]) {
+    const data = files.get(ARCHIVE_FILES[key]);
+    // A missing table file means no rows of that kind were exported.
+    contents[key] = data ? decodeNdjson(ARCHIVE_FILES[key], data, RECORD_SCHEMAS[key]) : [];
+  }
+  assertReferencesResolve(contents as ArchiveContents);
+  return { manifest, contents: contents as ArchiveContents };
+}
+
+// Importers rely on every device/measurement reference pointing inside the archive.
+// Session references may dangle: a device export can hold measurements that were
+// recorded into another device's session, and those import without a session.
+function assertReferencesResolve(contents: ArchiveContents): void {
+  const deviceIds = new Set(contents.devices.map((device) => device.id));
+  const measurementIds = new Set(contents.measurements.map((measurement) => measurement.id));
+  const checks: Array<[string, Array<{ deviceId?: string; measurementId?: string }>]> = [
+    [ARCHIVE_FILES.autoSessionConfigs, contents.autoSessionConfigs],
+    [ARCHIVE_FILES.sessions, contents.sessions],
+    [ARCHIVE_FILES.measurements, contents.measurements],
+    [ARCHIVE_FILES.telemetry, contents.telemetry],
+    [ARCHIVE_FILES.rxMetadata, contents.rxMetadata],
+    [ARCHIVE_FILES.meshtasticRx, contents.meshtasticRx]
+  ];
+  for (const [fileName, records] of checks) {
+    records.forEach((record, index) => {
+      if (record.deviceId !== undefined && !deviceIds.has(record.deviceId)) {
+        throw new ArchiveFormatError(
+          `Invalid archive: ${fileName} line ${index + 1} references unknown device ${record.deviceId}`
+        );
+      }
+      if (record.measurementId !== undefined && !measurementIds.has(record.measurementId)) {
+        throw new ArchiveFormatError(
+          `Invalid archive: ${fileName} line ${index + 1} references unknown measurement ${record.measurementId}`
+        );
+      }
+    });
+  }
+}
+
+function encodeManifest(scope: ArchiveScope, exportedAt: Date, counts: Record<string, number>): Buffer {
+  const manifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    scope,
+    counts
+  };
+  return Buffer.from(`${JSON.stringify(manifest, null, 2)}\n`, 'utf8');
+}
+
+// Encoded in chunks so a large table never has to fit in one string.
+function encodeNdjson(records: unknown[]): Buffer {
+  const chunks: Buffer[] = [];
+  for (let index = 0; index < records.length; index += NDJSON_CHUNK_RECORDS) {
+    const lines = records
+      .slice(index, index + NDJSON_CHUNK_RECORDS)
+      .map((record) => `${JSON.stringify(record)}\n`);
+    chunks.push(Buffer.from(lines.join(''), 'utf8'));
+  }
+  return Buffer.concat(chunks);
+}
+
+// Decoded line by line for the same reason.
+function decodeNdjson<T extends z.ZodTypeAny>(fileName: string, data: Buffer, schema: T): Array<z.infer<T>> {
+  const records: Array<z.infer<T>> = [];
+  let start = 0;
+  for (let lineNumber = 1; start < data.length; lineNumber += 1) {
+    const newline = data.indexOf(0x0a, start);
+    const end = newline === -1 ? data.length : newline;
+    const line = data.toString('utf8', start, end);
+    start = end + 1;
+    if (line.trim().length === 0) {
+      continue;
+    }
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      throw new ArchiveFormatError(`Invalid archive: ${fileName} line ${lineNumber} is not valid JSON`);
+    }
+    const result = schema.safeParse(json);
+    if (!result.success) {
+      throw new ArchiveFormatError(
+        `Invalid archive: ${fileName} line ${lineNumber}: ${formatIssue(result.error)}`
+      );
+    }
+    records.push(result.data);
+  }
+  return records;
+}
+
+function formatIssue(error: z.ZodError): string {
+  const issue = error.issues[0];
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
@@ -0,0 +1,142 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  HttpCode,
+  PayloadTooLargeException,
+  Post,
+  Query,
+  Req,
+  Res,
+  UseGuards
+} from '@nestjs/common';
+import { ApiKeyScope } from '@prisma/client';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { RequireApiKeyScope } from '../../common/decorators/api-key-scopes.decorator';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { logError } from '../../common/logging/structured-logger';
+import { getOwnerIdFromRequest, OwnerContextRequest } from '../../common/owner-context';
+import { ArchiveScope } from './archive-format';
+import { ArchiveConflictMode, ArchiveImportSummary, ArchiveService } from './archive.service';
+
+const MAX_IMPORT_BYTES = 256 * 1024 * 1024;
+
+type ArchiveExportQuery = {
+  deviceId?: string | string[];
+  sessionIds?: string | string[];
+};
+
+type ArchiveImportQuery = {
+  onConflict?: string | string[];
+};
+
+type ArchiveImportRequest = OwnerContextRequest & AsyncIterable<Buffer | string>;
+
+@Controller('api/archive')
+@UseGuards(ApiKeyGuard)
+@RequireApiKeyScope(ApiKeyScope.QUERY)
+export class ArchiveController {
+  constructor(private readonly archiveService: ArchiveService) {}
+
+  @Get('export')
+  async exportArchive(@Query() query: ArchiveExportQuery, @Res() res: any): Promise<void> {
+    const scope = parseArchiveScope(query);
+    const archive = await this.archiveService.exportArchive(scope);
+    const label = scope.type === 'device' ? `device-${scope.deviceId}` : `sessions-${scope.sessionIds.length}`;
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    const fileName = `loramapr-archive-${label}-${stamp}.zip`;
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.status(200);
+    try {
+      await pipeline(Readable.from(archive), res);
+    } catch (error) {
+      // The headers are out, so a failure can only cut the download short.
+      logError('archive.export.failed', {
+        fileName,
+        reason: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  // The body is the raw archive (Content-Type: application/zip), not multipart.
+  @Post('import')
+  @HttpCode(200)
+  async importArchive(
+    @Req() request: ArchiveImportRequest,
+    @Query() query: ArchiveImportQuery
+  ): Promise<ArchiveImportSummary> {
+    const onConflict = parseConflictMode(getSingleValue(query.onConflict, 'onConflict'));
+    const archive = await readRequestBody(request, MAX_IMPORT_BYTES);
+    if (archive.length === 0) {
+      throw new BadRequestException('Request body must be a loramapr archive');
+    }
+    return this.archiveService.importArchive(archive, {
+      onConflict,
+      ownerId: getOwnerIdFromRequest(request)
+    });
+  }
+}
+
+async function readRequestBody(request: AsyncIterable<Buffer | string>, limit: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+    size += buffer.length;
+    if (size > limit) {
+      throw new PayloadTooLargeException(`Archive exceeds ${limit} bytes`);
+    }
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function parseArchiveScope(query: ArchiveExportQuery): ArchiveScope {
+  const deviceId = getSingleValue(query.deviceId, 'deviceId');
+  const sessionIdsValue = getSingleValue(query.sessionIds, 'sessionIds');
+  if (!deviceId && !sessionIdsValue) {
+    throw new BadRequestException('deviceId or sessionIds is required');
+  }
+  if (deviceId && sessionIdsValue) {
+    throw new BadRequestException('Provide either deviceId or sessionIds, not both');
+  }
+  if (deviceId) {
+    return { type: 'device', deviceId };
+  }
+  const sessionIds = [
+    ...new Set(
+      sessionIdsValue!
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean)
+    )
+  ];
+  if (sessionIds.length === 0) {
+    throw new BadRequestException('sessionIds must list at least one session id');
+  }
+  return { type: 'sessions', sessionIds };
+}
+
+function parseConflictMode(value: string | undefined): ArchiveConflictMode {
+  if (value === undefined || value === 'skip' || value === 'copy') {
+    return value ?? 'skip';
+  }
+  throw new BadRequestException('onConflict must be skip or copy');
+}
+
+function getSingleValue(value: string | string[] | undefined, name: string): string | undefined {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return undefined;
+    }
+    if (value.length > 1) {
+      throw new BadRequestException(`Multiple values provided for ${name}`);
+    }
+    return value[0];
+  }
+  return value;
+}
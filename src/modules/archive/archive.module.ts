@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CoverageModule } from '../coverage/coverage.module';
+import { ArchiveController } from './archive.controller';
+import { ArchiveService } from './archive.service';
+
+@Module({
+  imports: [CoverageModule],
+  controllers: [ArchiveController],
+  providers: [ArchiveService],
+  exports: [ArchiveService]
+})
+export class ArchiveModule {}
@@ -0,0 +1,598 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CoverageService } from '../coverage/coverage.service';
+import {
+  ArchiveFormatError,
+  ArchiveManifest,
+  ArchiveMeasurementRecord,
+  ArchiveScope,
+  parseArchive,
+  streamArchive
+} from './archive-format';
+
+export type ArchiveConflictMode = 'skip' | 'copy';
+
+export type ArchiveImportOptions = {
+  onConflict?: ArchiveConflictMode;
+  ownerId?: string;
+};
+
+export type ArchiveImportSummary = {
+  manifest: Pick<ArchiveManifest, 'version' | 'exportedAt' | 'scope'>;
+  devices: { created: number; matched: number };
+  sessions: { created: number; remapped: number; skipped: number };
+  measurements: { created: number; remapped: number; skipped: number };
+  rxMetadata: { created: number };
+  meshtasticRx: { created: number };
+  telemetry: { created: number; skipped: number };
+  autoSessionConfigs: { created: number; skipped: number };
+  // Source id -> id on this instance, so callers can find what was imported.
+  idMap: {
+    devices: Record<string, string>;
+    sessions: Record<string, string>;
+  };
+};
+
+const EXPORT_BATCH_SIZE = 2000;
+const WRITE_BATCH_SIZE = 1000;
+const IMPORT_TRANSACTION_TIMEOUT_MS = 30_000;
+// Inflated size caps keep a crafted zip from exhausting memory. The per-file cap stays
+// well below V8's maximum string length (~512 MiB), so any line of a file can be decoded.
+const MAX_ARCHIVE_ENTRY_BYTES = 256 * 1024 * 1024;
+const MAX_ARCHIVE_TOTAL_BYTES = 1024 * 1024 * 1024;
+const MAX_ARCHIVE_ENTRIES = 64;
+
+const DEVICE_SELECT = {
+  id: true,
+  deviceUid: true,
+  name: true,
+  notes: true,
+  meshtasticNodeId: true,
+  hwModel: true,
+  firmwareVersion: true,
+  appVersion: true,
+  longName: true,
+  shortName: true,
+  macaddr: true,
+  publicKey: true,
+  isUnmessagable: true,
+  role: true,
+  lastNodeInfoAt: true,
+  iconKey: true,
+  iconOverride: true,
+  isArchived: true,
+  createdAt: true,
+  lastSeenAt: true
+} satisfies Prisma.DeviceSelect;
+
+const SESSION_SELECT = {
+  id: true,
+  deviceId: true,
+  name: true,
+  startedAt: true,
+  endedAt: true,
+  notes: true,
+  isArchived: true,
+  archivedAt: true
+} satisfies Prisma.SessionSelect;
+
+const MEASUREMENT_SELECT = {
+  id: true,
+  deviceId: true,
+  sessionId: true,
+  source: true,
+  capturedAt: true,
+  lat: true,
+  lon: true,
+  alt: true,
+  altitude: true,
+  hdop: true,
+  pdop: true,
+  satsInView: true,
+  precisionBits: true,
+  locationSource: true,
+  groundSpeed: true,
+  groundTrack: true,
+  rssi: true,
+  snr: true,
+  sf: true,
+  bw: true,
+  freq: true,
+  fCnt: true,
+  gatewayId: true,
+  payloadRaw: true,
+  rxMetadata: true
+} satisfies Prisma.MeasurementSelect;
+
+// The id is only read as the page cursor and is not exported.
+const RX_METADATA_SELECT = {
+  id: true,
+  measurementId: true,
+  gatewayId: true,
+  rssi: true,
+  snr: true,
+  channelIndex: true,
+  time: true,
+  fineTimestamp: true,
+  receivedAt: true
+} satisfies Prisma.RxMetadataSelect;
+
+const MESHTASTIC_RX_SELECT = {
+  id: true,
+  measurementId: true,
+  rxTime: true,
+  rxRssi: true,
+  rxSnr: true,
+  hopLimit: true,
+  hopStart: true,
+  relayNode: true,
+  transportMechanism: true,
+  fromId: true,
+  toId: true,
+  raw: true
+} satisfies Prisma.MeshtasticRxSelect;
+
+const TELEMETRY_SELECT = {
+  id: true,
+  deviceId: true,
+  capturedAt: true,
+  source: true,
+  batteryLevel: true,
+  voltage: true,
+  channelUtilization: true,
+  airUtilTx: true,
+  uptimeSeconds: true,
+  raw: true
+} satisfies Prisma.DeviceTelemetrySampleSelect;
+
+const AUTO_SESSION_CONFIG_SELECT = {
+  deviceId: true,
+  enabled: true,
+  homeLat: true,
+  homeLon: true,
+  radiusMeters: true,
+  minOutsideSeconds: true,
+  minInsideSeconds: true
+} satisfies Prisma.DeviceAutoSessionConfigSelect;
+
+@Injectable()
+export class ArchiveService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly coverageService: CoverageService
+  ) {}
+
+  /**
+   * Collects a device (or a set of sessions) with everything hanging off it into an
+   * archive. Devices referenced by exported sessions or measurements come along, so
+   * the archive imports on its own.
+   *
+   * The scope is checked before this resolves, so a missing device or session is reported
+   * before anything is written. The archive itself is a stream: the large tables are read
+   * in keyset pages of EXPORT_BATCH_SIZE rows while it is written, so exporting a device
+   * never holds more than a page.
+   */
+  async exportArchive(scope: ArchiveScope): Promise<AsyncIterable<Buffer>> {
+    let sessions;
+    let measurementWhere: Prisma.MeasurementWhereInput;
+    if (scope.type === 'device') {
+      const device = await this.prisma.device.findUnique({
+        where: { id: scope.deviceId },
+        select: { id: true }
+      });
+      if (!device) {
+        throw new NotFoundException('Device not found');
+      }
+      sessions = await this.prisma.session.findMany({
+        where: { deviceId: scope.deviceId },
+        orderBy: [{ startedAt: 'asc' }, { id: 'asc' }],
+        select: SESSION_SELECT
+      });
+      measurementWhere = { deviceId: scope.deviceId };
+    } else {
+      sessions = await this.prisma.session.findMany({
+        where: { id: { in: scope.sessionIds } },
+        orderBy: [{ startedAt: 'asc' }, { id: 'asc' }],
+        select: SESSION_SELECT
+      });
+      const found = new Set(sessions.map((session) => session.id));
+      const missing = scope.sessionIds.filter((id) => !found.has(id));
+      if (missing.length > 0) {
+        throw new NotFoundException(`Sessions not found: ${missing.join(', ')}`);
+      }
+      measurementWhere = { sessionId: { in: scope.sessionIds } };
+    }
+
+    // Measurements of a session can belong to another device.
+    const deviceIds = new Set<string>(scope.type === 'device' ? [scope.deviceId] : []);
+    for (const session of sessions) {
+      deviceIds.add(session.deviceId);
+    }
+    const measurementDevices = await this.prisma.measurement.groupBy({
+      by: ['deviceId'],
+      where: measurementWhere
+    });
+    for (const { deviceId } of measurementDevices) {
+      deviceIds.add(deviceId);
+    }
+    const devices = await this.prisma.device.findMany({
+      where: { id: { in: [...deviceIds] } },
+      orderBy: { deviceUid: 'asc' },
+      select: DEVICE_SELECT
+    });
+    const autoSessionConfigs = await this.prisma.deviceAutoSessionConfig.findMany({
+      where: { deviceId: { in: [...deviceIds] } },
+      select: AUTO_SESSION_CONFIG_SELECT
+    });
+
+    // A sessions export carries the telemetry recorded while those sessions ran.
+    const telemetryWhere: Prisma.DeviceTelemetrySampleWhereInput =
+      scope.type === 'device'
+        ? { deviceId: scope.deviceId }
+        : {
+            OR: sessions.map((session) => ({
+              deviceId: session.deviceId,
+              capturedAt: { gte: session.startedAt, lte: session.endedAt ?? new Date() }
+            }))
+          };
+    const measurementRelation = { measurement: measurementWhere };
+
+    return streamArchive(
+      {
+        devices: onePage(devices),
+        autoSessionConfigs: onePage(autoSessionConfigs),
+        sessions: onePage(sessions),
+        measurements: this.iterateMeasurements(measurementWhere),
+        rxMetadata: pagesById((after) =>
+          this.prisma.rxMetadata.findMany({
+            where: { AND: [measurementRelation, after] },
+            orderBy: { id: 'asc' },
+            take: EXPORT_BATCH_SIZE,
+            select: RX_METADATA_SELECT
+          })
+        ),
+        meshtasticRx: pagesById((after) =>
+          this.prisma.meshtasticRx.findMany({
+            where: { AND: [measurementRelation, after] },
+            orderBy: { id: 'asc' },
+            take: EXPORT_BATCH_SIZE,
+            select: MESHTASTIC_RX_SELECT
+          })
+        ),
+        telemetry: pagesById((after) =>
+          this.prisma.deviceTelemetrySample.findMany({
+            where: { AND: [telemetryWhere, after] },
+            orderBy: { id: 'asc' },
+            take: EXPORT_BATCH_SIZE,
+            select: TELEMETRY_SELECT
+          })
+        )
+      },
+      scope
+    );
+  }
+
+  /**
+   * Imports an archive in short transactions of at most WRITE_BATCH_SIZE rows; each
+   * measurement chunk commits together with its RxMetadata and MeshtasticRx rows. Devices
+   * are matched by deviceUid. Other records keep their source id when it is free here and
+   * get a fresh one otherwise. A session whose id already exists is the same run imported
+   * before: `skip` leaves it alone and only adds its measurements that are not stored yet,
+   * so re-running an interrupted import in skip mode finishes it; `copy` imports it again
+   * under new ids.
+   *
+   * Imported rows are stamped with the import time, which the coverage worker's cursor may
+   * already be past, so the bins of every imported device and day are rebuilt afterwards.
+   */
+  async importArchive(archive: Buffer, options: ArchiveImportOptions = {}): Promise<ArchiveImportSummary> {
+    let parsed: ReturnType<typeof parseArchive>;
+    try {
+      parsed = parseArchive(archive, {
+        maxEntryBytes: MAX_ARCHIVE_ENTRY_BYTES,
+        maxTotalBytes: MAX_ARCHIVE_TOTAL_BYTES,
+        maxEntries: MAX_ARCHIVE_ENTRIES
+      });
+    } catch (error) {
+      if (error instanceof ArchiveFormatError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+    const { manifest, contents } = parsed;
+    const onConflict = options.onConflict ?? 'skip';
+    const summary: ArchiveImportSummary = {
+      manifest: { version: manifest.version, exportedAt: manifest.exportedAt, scope: manifest.scope },
+      devices: { created: 0, matched: 0 },
+      sessions: { created: 0, remapped: 0, skipped: 0 },
+      measurements: { created: 0, remapped: 0, skipped: 0 },
+      rxMetadata: { created: 0 },
+      meshtasticRx: { created: 0 },
+      telemetry: { created: 0, skipped: 0 },
+      autoSessionConfigs: { created: 0, skipped: 0 },
+      idMap: { devices: {}, sessions: {} }
+    };
+
+    const deviceMap = new Map<string, string>();
+    const matchedDeviceIds = new Set<string>();
+    await this.inTransaction(async (tx) => {
+      for (const device of contents.devices) {
+        const existing = await tx.device.findUnique({
+          where: { deviceUid: device.deviceUid },
+          select: { id: true }
+        });
+        if (existing) {
+          deviceMap.set(device.id, existing.id);
+          matchedDeviceIds.add(existing.id);
+          summary.devices.matched += 1;
+          continue;
+        }
+        const idTaken = await tx.device.findUnique({ where: { id: device.id }, select: { id: true } });
+        const id = idTaken ? randomUUID() : device.id;
+        await tx.device.create({ data: { ...device, id, ownerId: options.ownerId ?? null } });
+        deviceMap.set(device.id, id);
+        summary.devices.created += 1;
+      }
+
+      for (const config of contents.autoSessionConfigs) {
+        const deviceId = deviceMap.get(config.deviceId)!;
+        const existing = await tx.deviceAutoSessionConfig.findUnique({
+          where: { deviceId },
+          select: { id: true }
+        });
+        if (existing) {
+          summary.autoSessionConfigs.skipped += 1;
+          continue;
+        }
+        await tx.deviceAutoSessionConfig.create({ data: { ...config, deviceId } });
+        summary.autoSessionConfigs.created += 1;
+      }
+    });
+
+    // Ids missing from the map were not exported.
+    const sessionMap = new Map<string, string>();
+    const skippedSessionIds = new Set<string>();
+    const existingSessionIds = await findExistingIds(contents.sessions.map((session) => session.id), (ids) =>
+      this.prisma.session.findMany({ where: { id: { in: ids } }, select: { id: true } })
+    );
+    const sessionRows: Prisma.SessionCreateManyInput[] = [];
+    for (const session of contents.sessions) {
+      if (existingSessionIds.has(session.id) && onConflict === 'skip') {
+        sessionMap.set(session.id, session.id);
+        skippedSessionIds.add(session.id);
+        summary.sessions.skipped += 1;
+        continue;
+      }
+      const id = existingSessionIds.has(session.id) ? randomUUID() : session.id;
+      if (id !== session.id) {
+        summary.sessions.remapped += 1;
+      }
+      sessionMap.set(session.id, id);
+      sessionRows.push({
+        ...session,
+        id,
+        deviceId: deviceMap.get(session.deviceId)!,
+        ownerId: options.ownerId ?? null
+      });
+    }
+    for (const chunk of chunked(sessionRows)) {
+      summary.sessions.created += await this.inTransaction(
+        async (tx) => (await tx.session.createMany({ data: chunk })).count
+      );
+    }
+
+    const existingMeasurementIds = await findExistingIds(
+      contents.measurements.map((measurement) => measurement.id),
+      (ids) => this.prisma.measurement.findMany({ where: { id: { in: ids } }, select: { id: true } })
+    );
+    const measurementRows: Array<{ sourceId: string; row: Prisma.MeasurementCreateManyInput }> = [];
+    const importedDays = new Map<string, { deviceId: string; day: Date }>();
+    for (const measurement of contents.measurements) {
+      const sessionId = measurement.sessionId ? sessionMap.get(measurement.sessionId) : undefined;
+      const idTaken = existingMeasurementIds.has(measurement.id);
+      // Without a new session to tell a re-import apart, the id decides.
+      const reused = measurement.sessionId === null || skippedSessionIds.has(measurement.sessionId);
+      if (reused && idTaken && onConflict === 'skip') {
+        summary.measurements.skipped += 1;
+        continue;
+      }
+      const id = idTaken ? randomUUID() : measurement.id;
+      if (id !== measurement.id) {
+        summary.measurements.remapped += 1;
+      }
+      const row = toMeasurementRow(measurement, id, deviceMap, sessionId ?? null);
+      measurementRows.push({ sourceId: measurement.id, row });
+      const day = startOfUtcDay(measurement.capturedAt);
+      importedDays.set(`${row.deviceId}|${day.toISOString()}`, { deviceId: row.deviceId, day });
+    }
+
+    const rxMetadataByMeasurement = groupByMeasurement(contents.rxMetadata);
+    const meshtasticByMeasurement = groupByMeasurement(contents.meshtasticRx);
+    for (const chunk of chunked(measurementRows)) {
+      const rxMetadataRows: Prisma.RxMetadataCreateManyInput[] = [];
+      const meshtasticRows: Prisma.MeshtasticRxCreateManyInput[] = [];
+      for (const { sourceId, row: measurement } of chunk) {
+        const measurementId = measurement.id!;
+        for (const row of rxMetadataByMeasurement.get(sourceId) ?? []) {
+          rxMetadataRows.push({ ...row, measurementId });
+        }
+        for (const row of meshtasticByMeasurement.get(sourceId) ?? []) {
+          meshtasticRows.push({ ...row, measurementId, raw: toJsonInput(row.raw) });
+        }
+      }
+      await this.inTransaction(async (tx) => {
+        summary.measurements.created += (
+          await tx.measurement.createMany({ data: chunk.map(({ row }) => row) })
+        ).count;
+        for (const rows of chunked(rxMetadataRows)) {
+          summary.rxMetadata.created += (await tx.rxMetadata.createMany({ data: rows })).count;
+        }
+        for (const rows of chunked(meshtasticRows)) {
+          summary.meshtasticRx.created += (await tx.meshtasticRx.createMany({ data: rows })).count;
+        }
+      });
+    }
+
+    // Telemetry has no id worth keeping; in skip mode a sample already stored for the
+    // same device, time and source is treated as the same sample.
+    const existingTelemetry = new Set<string>();
+    if (onConflict === 'skip' && matchedDeviceIds.size > 0 && contents.telemetry.length > 0) {
+      const stored = await this.prisma.deviceTelemetrySample.findMany({
+        where: { deviceId: { in: [...matchedDeviceIds] } },
+        select: { deviceId: true, capturedAt: true, source: true }
+      });
+      for (const sample of stored) {
+        existingTelemetry.add(telemetryKey(sample.deviceId, sample.capturedAt, sample.source));
+      }
+    }
+    const telemetryRows: Prisma.DeviceTelemetrySampleCreateManyInput[] = [];
+    for (const sample of contents.telemetry) {
+      const deviceId = deviceMap.get(sample.deviceId)!;
+      if (existingTelemetry.has(telemetryKey(deviceId, sample.capturedAt, sample.source))) {
+        summary.telemetry.skipped += 1;
+        continue;
+      }
+      telemetryRows.push({ ...sample, deviceId, raw: toJsonInput(sample.raw) });
+    }
+    for (const chunk of chunked(telemetryRows)) {
+      summary.telemetry.created += await this.inTransaction(
+        async (tx) => (await tx.deviceTelemetrySample.createMany({ data: chunk })).count
+      );
+    }
+
+    for (const { deviceId, day } of importedDays.values()) {
+      await this.coverageService.aggregateForDeviceDay(deviceId, day);
+    }
+
+    summary.idMap.devices = Object.fromEntries(deviceMap);
+    summary.idMap.sessions = Object.fromEntries(
+      [...sessionMap].filter(([sourceId]) => !skippedSessionIds.has(sourceId))
+    );
+    return summary;
+  }
+
+  private inTransaction<T>(fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+    return this.prisma.$transaction(fn, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+  }
+
+  private async *iterateMeasurements(where: Prisma.MeasurementWhereInput) {
+    let after: { capturedAt: Date; id: string } | null = null;
+    while (true) {
+      const batchWhere: Prisma.MeasurementWhereInput = after
+        ? {
+            AND: [
+              where,
+              {
+                OR: [
+                  { capturedAt: { gt: after.capturedAt } },
+                  { AND: [{ capturedAt: after.capturedAt }, { id: { gt: after.id } }] }
+                ]
+              }
+            ]
+          }
+        : where;
+      const rows = await this.prisma.measurement.findMany({
+        where: batchWhere,
+        orderBy: [{ capturedAt: 'asc' }, { id: 'asc' }],
+        take: EXPORT_BATCH_SIZE,
+        select: MEASUREMENT_SELECT
+      });
+      if (rows.length === 0) {
+        return;
+      }
+      // fCnt is a BIGINT column; JSON has no bigint, and 32-bit counters fit a number.
+      yield rows.map((row) => ({ ...row, fCnt: row.fCnt === null ? null : Number(row.fCnt) }));
+      if (rows.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+      const last = rows[rows.length - 1];
+      after = { capturedAt: last.capturedAt, id: last.id };
+    }
+  }
+}
+
+function toMeasurementRow(
+  measurement: ArchiveMeasurementRecord,
+  id: string,
+  deviceMap: Map<string, string>,
+  sessionId: string | null
+): Prisma.MeasurementCreateManyInput {
+  return {
+    ...measurement,
+    id,
+    deviceId: deviceMap.get(measurement.deviceId)!,
+    sessionId,
+    rxMetadata: toJsonInput(measurement.rxMetadata)
+  };
+}
+
+async function findExistingIds(
+  ids: string[],
+  find: (ids: string[]) => Promise<Array<{ id: string }>>
+): Promise<Set<string>> {
+  const existing = new Set<string>();
+  for (const chunk of chunked(ids)) {
+    for (const row of await find(chunk)) {
+      existing.add(row.id);
+    }
+  }
+  return existing;
+}
+
+function chunked<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += WRITE_BATCH_SIZE) {
+    chunks.push(items.slice(index, index + WRITE_BATCH_SIZE));
+  }
+  return chunks;
+}
+
+function groupByMeasurement<T extends { measurementId: string }>(rows: T[]): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  for (const row of rows) {
+    const group = grouped.get(row.measurementId);
+    if (group) {
+      group.push(row);
+    } else {
+      grouped.set(row.measurementId, [row]);
+    }
+  }
+  return grouped;
+}
+
+function startOfUtcDay(value: Date): Date {
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+}
+
+function toJsonInput(value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return value === null || value === undefined ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+}
+
+function telemetryKey(deviceId: string, capturedAt: Date, source: string): string {
+  return `${deviceId}|${capturedAt.toISOString()}|${source}`;
+}
+
+async function* onePage<T>(rows: T[]): AsyncGenerator<T[]> {
+  if (rows.length > 0) {
+    yield rows;
+  }
+}
+
+// Keyset pages in id order, for tables whose row order does not matter to the importer.
+async function* pagesById<T extends { id: string }>(
+  readPage: (after: { id?: { gt: string } }) => Promise<T[]>
+): AsyncGenerator<Array<Omit<T, 'id'>>> {
+  let afterId: string | null = null;
+  while (true) {
+    const rows = await readPage(afterId ? { id: { gt: afterId } } : {});
+    if (rows.length === 0) {
+      return;
+    }
+    yield rows.map(({ id: _id, ...record }) => record);
+    if (rows.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    afterId = rows[rows.length - 1].id;
+  }
+}
@@ -0,0 +1,426 @@
+import { bearingDegrees, destinationPoint } from '../../common/geo/bearing';
+import { distanceMeters } from '../../common/geo/haversine';
+
+export type CoverageBoundaryMode = 'threshold' | 'sector';
+export type CoverageBoundaryMetric = 'rssi' | 'snr';
+
+export type CoverageBoundaryPoint = {
+  lat: number;
+  lon: number;
+  rssi: number | null;
+  snr: number | null;
+};
+
+export type CoverageBoundarySector = {
+  bearingStart: number;
+  bearingEnd: number;
+  rangeMeters: number;
+  pointCount: number;
+};
+
+export type CoverageBoundaryFeature = {
+  type: 'Feature';
+  geometry: { type: 'Polygon'; coordinates: Array<Array<[number, number]>> };
+  properties: {
+    kind: 'rangeBoundary';
+    mode: CoverageBoundaryMode;
+    metric: CoverageBoundaryMetric;
+    threshold: number;
+    pointCount: number;
+    areaKm2: number;
+    sectors?: CoverageBoundarySector[];
+  };
+};
+
+export type CoverageBoundaryCollection = {
+  type: 'FeatureCollection';
+  features: CoverageBoundaryFeature[];
+};
+
+// Points at or above each threshold form one boundary; ordered strongest (smallest shape) first.
+export const DEFAULT_BOUNDARY_THRESHOLDS: Record<CoverageBoundaryMetric, number[]> = {
+  rssi: [-100, -110, -120],
+  snr: [5, 0, -5]
+};
+export const DEFAULT_BOUNDARY_SECTORS = 16;
+
+// Edges longer than CONCAVITY x the distance to the nearest inner point get dug in.
+const CONCAVITY = 2;
+const MIN_EDGE_METERS = 50;
+const MAX_HULL_POINTS = 4000;
+const DEDUPE_GRID_DEG = 0.0001;
+const METERS_PER_DEGREE = 111_320;
+
+type PlanarPoint = [number, number];
+
+/**
+ * One concave hull per threshold around the points whose metric meets it.
+ * Thresholds with fewer than three distinct qualifying points are skipped.
+ */
+export function buildThresholdBoundaries(
+  points: CoverageBoundaryPoint[],
+  metric: CoverageBoundaryMetric,
+  thresholds: number[]
+): CoverageBoundaryFeature[] {
+  const features: CoverageBoundaryFeature[] = [];
+  for (const threshold of sortThresholds(thresholds)) {
+    const qualifying = points.filter((point) => meetsThreshold(point, metric, threshold));
+    const ring = concaveHullRing(qualifying);
+    if (!ring) {
+      continue;
+    }
+    features.push(
+      buildFeature(ring, {
+        mode: 'threshold',
+        metric,
+        threshold,
+        pointCount: qualifying.length
+      })
+    );
+  }
+  return features;
+}
+
+/**
+ * One radial polygon per threshold: each bearing sector around home extends to the
+ * farthest qualifying point in it, so sectors without reception collapse to home.
+ */
+export function buildSectorBoundaries(
+  points: CoverageBoundaryPoint[],
+  home: { lat: number; lon: number },
+  metric: CoverageBoundaryMetric,
+  thresholds: number[],
+  sectorCount: number
+): CoverageBoundaryFeature[] {
+  const width = 360 / sectorCount;
+  const features: CoverageBoundaryFeature[] = [];
+
+  for (const threshold of sortThresholds(thresholds)) {
+    const ranges = new Array<number>(sectorCount).fill(0);
+    const counts = new Array<number>(sectorCount).fill(0);
+    let pointCount = 0;
+    for (const point of points) {
+      if (!meetsThreshold(point, metric, threshold)) {
+        continue;
+      }
+      const bearing = bearingDegrees(home.lat, home.lon, point.lat, point.lon);
+      const sector = Math.min(sectorCount - 1, Math.floor(bearing / width));
+      const distance = distanceMeters(home.lat, home.lon, point.lat, point.lon);
+      ranges[sector] = Math.max(ranges[sector], distance);
+      counts[sector] += 1;
+      pointCount += 1;
+    }
+
+    const ring: PlanarPoint[] = [];
+    ranges.forEach((range, sector) => {
+      for (const step of [0, 0.5, 1]) {
+        const vertex =
+          range > 0
+            ? destinationPoint(home.lat, home.lon, (sector + step) * width, range)
+            : home;
+        const coordinate: PlanarPoint = [vertex.lon, vertex.lat];
+        const last = ring[ring.length - 1];
+        if (!last || last[0] !== coordinate[0] || last[1] !== coordinate[1]) {
+          ring.push(coordinate);
+        }
+      }
+    });
+    if (ring.length > 1 && samePoint(ring[0], ring[ring.length - 1])) {
+      ring.pop();
+    }
+    if (ring.length < 3) {
+      continue;
+    }
+
+    // Bearings run clockwise; GeoJSON exterior rings are counterclockwise.
+    ring.reverse();
+    features.push(
+      buildFeature(ring, {
+        mode: 'sector',
+        metric,
+        threshold,
+        pointCount,
+        sectors: ranges.map((range, sector) => ({
+          bearingStart: sector * width,
+          bearingEnd: (sector + 1) * width,
+          rangeMeters: Math.round(range),
+          pointCount: counts[sector]
+        }))
+      })
+    );
+  }
+
+  return features;
+}
+
+function buildFeature(
+  ring: PlanarPoint[],
+  properties: Omit<CoverageBoundaryFeature['properties'], 'kind' | 'areaKm2'>
+): CoverageBoundaryFeature {
+  const coordinates = ring.map(
+    ([lon, lat]) => [roundCoordinate(lon), roundCoordinate(lat)] as [number, number]
+  );
+  coordinates.push(coordinates[0]);
+  return {
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: [coordinates] },
+    properties: {
+      kind: 'rangeBoundary',
+      mode: properties.mode,
+      metric: properties.metric,
+      threshold: properties.threshold,
+      pointCount: properties.pointCount,
+      areaKm2: Math.round(ringAreaSquareMeters(ring) / 1000) / 1000,
+      ...(properties.sectors ? { sectors: properties.sectors } : {})
+    }
+  };
+}
+
+function concaveHullRing(points: CoverageBoundaryPoint[]): PlanarPoint[] | null {
+  const distinct = dedupePoints(points);
+  if (distinct.length < 3) {
+    return null;
+  }
+  const projection = createProjection(distinct);
+  const planar = distinct.map((point) => projection(point.lon, point.lat));
+  const hull = concaveHull(planar);
+  if (!hull) {
+    return null;
+  }
+  return hull.map((index) => [distinct[index].lon, distinct[index].lat]);
+}
+
+// Snaps to a grid that coarsens until the hull input stays within MAX_HULL_POINTS.
+function dedupePoints(points: CoverageBoundaryPoint[]): CoverageBoundaryPoint[] {
+  let gridDeg = DEDUPE_GRID_DEG;
+  for (;;) {
+    const unique = new Map<string, CoverageBoundaryPoint>();
+    for (const point of points) {
+      const key = `${Math.floor(point.lat / gridDeg)}:${Math.floor(point.lon / gridDeg)}`;
+      if (!unique.has(key)) {
+        unique.set(key, point);
+      }
+    }
+    if (unique.size <= MAX_HULL_POINTS) {
+      return Array.from(unique.values());
+    }
+    gridDeg *= 2;
+  }
+}
+
+// Local equirectangular projection in meters; accurate enough at neighbourhood scale.
+function createProjection(points: Array<{ lat: number; lon: number }>) {
+  const lat0 = points.reduce((sum, point) => sum + point.lat, 0) / points.length;
+  const lon0 = points[0].lon;
+  const lonScale = Math.cos((lat0 * Math.PI) / 180) * METERS_PER_DEGREE;
+  return (lon: number, lat: number): PlanarPoint => [
+    (lon - lon0) * lonScale,
+    (lat - lat0) * METERS_PER_DEGREE
+  ];
+}
+
+function ringAreaSquareMeters(ring: PlanarPoint[]): number {
+  const projection = createProjection(ring.map(([lon, lat]) => ({ lon, lat })));
+  const planar = ring.map(([lon, lat]) => projection(lon, lat));
+  let twiceArea = 0;
+  for (let index = 0; index < planar.length; index += 1) {
+    const [x1, y1] = planar[index];
+    const [x2, y2] = planar[(index + 1) % planar.length];
+    twiceArea += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(twiceArea) / 2;
+}
+
+/**
+ * Concave hull by edge digging (the "concaveman" approach): start from the convex hull
+ * and replace long edges with two shorter ones through the nearest inner point, as long
+ * as the new edges do not cross the hull. Returns point indexes in counterclockwise order.
+ */
+export function concaveHull(points: PlanarPoint[]): number[] | null {
+  const hull = convexHull(points);
+  if (hull.length < 3) {
+    return null;
+  }
+
+  const next = new Int32Array(points.length).fill(-1);
+  const prev = new Int32Array(points.length).fill(-1);
+  hull.forEach((index, position) => {
+    next[index] = hull[(position + 1) % hull.length];
+    prev[index] = hull[(position - 1 + hull.length) % hull.length];
+  });
+  const inside = new Set<number>();
+  points.forEach((_, index) => {
+    if (next[index] === -1) {
+      inside.add(index);
+    }
+  });
+
+  const minSqEdge = MIN_EDGE_METERS * MIN_EDGE_METERS;
+  const queue = [...hull];
+  for (let cursor = 0; cursor < queue.length; cursor += 1) {
+    const a = queue[cursor];
+    const b = next[a];
+    const sqLength = sqDistance(points[a], points[b]);
+    if (sqLength < minSqEdge) {
+      continue;
+    }
+    const maxSqLength = sqLength / (CONCAVITY * CONCAVITY);
+    const candidate = findDigCandidate(points, inside, next, prev, a, b, maxSqLength);
+    if (
+      candidate === -1 ||
+      Math.min(
+        sqDistance(points[candidate], points[a]),
+        sqDistance(points[candidate], points[b])
+      ) > maxSqLength
+    ) {
+      continue;
+    }
+
+    next[a] = candidate;
+    prev[candidate] = a;
+    next[candidate] = b;
+    prev[b] = candidate;
+    inside.delete(candidate);
+    queue.push(a, candidate);
+  }
+
+  const ring = [hull[0]];
+  for (let index = next[hull[0]]; index !== hull[0]; index = next[index]) {
+    ring.push(index);
+  }
+  return ring;
+}
+
+function findDigCandidate(
+  points: PlanarPoint[],
+  inside: Set<number>,
+  next: Int32Array,
+  prev: Int32Array,
+  a: number,
+  b: number,
+  maxSqDistance: number
+): number {
+  const candidates: Array<{ index: number; sqDistance: number }> = [];
+  for (const index of inside) {
+    const distance = sqSegmentDistance(points[index], points[a], points[b]);
+    if (distance <= maxSqDistance) {
+      candidates.push({ index, sqDistance: distance });
+    }
+  }
+  candidates.sort((left, right) => left.sqDistance - right.sqDistance);
+
+  const before = prev[a];
+  const after = next[b];
+  for (const candidate of candidates) {
+    const point = points[candidate.index];
+    // Only dig toward points that belong to this edge rather than a neighbouring one.
+    if (
+      candidate.sqDistance >= sqSegmentDistance(point, points[before], points[a]) ||
+      candidate.sqDistance >= sqSegmentDistance(point, points[b], points[after])
+    ) {
+      continue;
+    }
+    if (
+      crossesHull(points, next, a, b, points[a], point) ||
+      crossesHull(points, next, a, b, point, points[b])
+    ) {
+      continue;
+    }
+    return candidate.index;
+  }
+  return -1;
+}
+
+function crossesHull(
+  points: PlanarPoint[],
+  next: Int32Array,
+  a: number,
+  b: number,
+  start: PlanarPoint,
+  end: PlanarPoint
+): boolean {
+  let index = a;
+  do {
+    const following = next[index];
+    const touchesEdge = index === a || index === b || following === a || following === b;
+    if (!touchesEdge && segmentsIntersect(start, end, points[index], points[following])) {
+      return true;
+    }
+    index = following;
+  } while (index !== a);
+  return false;
+}
+
+// Andrew's monotone chain; collinear points are dropped.
+function convexHull(points: PlanarPoint[]): number[] {
+  const order = points
+    .map((_, index) => index)
+    .sort((left, right) => points[left][0] - points[right][0] || points[left][1] - points[right][1]);
+  const build = (indexes: number[]) => {
+    const chain: number[] = [];
+    for (const index of indexes) {
+      while (
+        chain.length >= 2 &&
+        cross(points[chain[chain.length - 2]], points[chain[chain.length - 1]], points[index]) <= 0
+      ) {
+        chain.pop();
+      }
+      chain.push(index);
+    }
+    chain.pop();
+    return chain;
+  };
+  return [...build(order), ...build([...order].reverse())];
+}
+
+function cross(origin: PlanarPoint, a: PlanarPoint, b: PlanarPoint): number {
+  return (a[0] - origin[0]) * (b[1] - origin[1]) - (a[1] - origin[1]) * (b[0] - origin[0]);
+}
+
+function segmentsIntersect(p1: PlanarPoint, q1: PlanarPoint, p2: PlanarPoint, q2: PlanarPoint): boolean {
+  return (
+    cross(p1, q1, p2) > 0 !== cross(p1, q1, q2) > 0 &&
+    cross(p2, q2, p1) > 0 !== cross(p2, q2, q1) > 0
+  );
+}
+
+function sqDistance(a: PlanarPoint, b: PlanarPoint): number {
+  const dx = a[0] - b[0];
+  const dy = a[1] - b[1];
+  return dx * dx + dy * dy;
+}
+
+function sqSegmentDistance(point: PlanarPoint, start: PlanarPoint, end: PlanarPoint): number {
+  const dx = end[0] - start[0];
+  const dy = end[1] - start[1];
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) {
+    return sqDistance(point, start);
+  }
+  const t = Math.max(
+    0,
+    Math.min(1, ((point[0] - start[0]) * dx + (point[1] - start[1]) * dy) / lengthSq)
+  );
+  return sqDistance(point, [start[0] + t * dx, start[1] + t * dy]);
+}
+
+function meetsThreshold(
+  point: CoverageBoundaryPoint,
+  metric: CoverageBoundaryMetric,
+  threshold: number
+): boolean {
+  const value = point[metric];
+  return value !== null && Number.isFinite(value) && value >= threshold;
+}
+
+function sortThresholds(thresholds: number[]): number[] {
+  return Array.from(new Set(thresholds)).sort((a, b) => b - a);
+}
+
+function samePoint(a: PlanarPoint, b: PlanarPoint): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+function roundCoordinate(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
@@ -0,0 +1,81 @@
+import { CoverageBinRow } from './coverage-merge';
+
+export type CoverageDiffPresence = 'both' | 'baseOnly' | 'compareOnly';
+
+type CoverageDiffSide = {
+  count: number;
+  rssiAvg: number | null;
+  snrAvg: number | null;
+  pdr: number | null;
+};
+
+export type CoverageDiffRow = {
+  latBin: number;
+  lonBin: number;
+  presence: CoverageDiffPresence;
+  base: CoverageDiffSide | null;
+  compare: CoverageDiffSide | null;
+  deltaCount: number;
+  deltaRssiAvg: number | null;
+  deltaSnrAvg: number | null;
+  deltaPdr: number | null;
+};
+
+/**
+ * Joins two merged (gateway-collapsed) bin sets cell by cell. Deltas are compare - base;
+ * signal and PDR deltas are only set when both scopes have a value for the cell.
+ */
+export function diffCoverageBinRows(
+  baseRows: CoverageBinRow[],
+  compareRows: CoverageBinRow[]
+): CoverageDiffRow[] {
+  const cells = new Map<string, { base?: CoverageBinRow; compare?: CoverageBinRow }>();
+  for (const row of baseRows) {
+    cells.set(`${row.latBin}:${row.lonBin}`, { base: row });
+  }
+  for (const row of compareRows) {
+    const key = `${row.latBin}:${row.lonBin}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.compare = row;
+    } else {
+      cells.set(key, { compare: row });
+    }
+  }
+
+  return Array.from(cells.values())
+    .map(({ base, compare }) => {
+      const anchor = (base ?? compare) as CoverageBinRow;
+      return {
+        latBin: anchor.latBin,
+        lonBin: anchor.lonBin,
+        presence: base && compare ? 'both' : base ? 'baseOnly' : 'compareOnly',
+        base: base ? toDiffSide(base) : null,
+        compare: compare ? toDiffSide(compare) : null,
+        deltaCount: (compare?.count ?? 0) - (base?.count ?? 0),
+        deltaRssiAvg: subtractNullable(compare?.rssiAvg, base?.rssiAvg),
+        deltaSnrAvg: subtractNullable(compare?.snrAvg, base?.snrAvg),
+        deltaPdr: subtractNullable(compare?.pdr, base?.pdr)
+      } satisfies CoverageDiffRow;
+    })
+    .sort((a, b) => (a.latBin !== b.latBin ? a.latBin - b.latBin : a.lonBin - b.lonBin));
+}
+
+function toDiffSide(row: CoverageBinRow): CoverageDiffSide {
+  return {
+    count: row.count,
+    rssiAvg: row.rssiAvg,
+    snrAvg: row.snrAvg,
+    pdr: row.pdr
+  };
+}
+
+function subtractNullable(
+  value: number | null | undefined,
+  other: number | null | undefined
+): number | null {
+  if (value === null || value === undefined || other === null || other === undefined) {
+    return null;
+  }
+  return value - other;
+}
@@ -0,0 +1,136 @@
+import { distanceMeters } from '../../common/geo/haversine';
+import { CoverageBinRow } from './coverage-merge';
+
+export const IDW_POWER = 2;
+// Cells with at least this many contributing observations can reach full confidence.
+const FULL_CONFIDENCE_NEIGHBORS = 4;
+const METERS_PER_DEGREE_LAT = 111_320;
+// Keeps the longitude search window finite near the poles.
+const MIN_LON_SCALE = 0.05;
+
+export type PredictedCoverageCell = {
+  latBin: number;
+  lonBin: number;
+  rssiAvg: number | null;
+  snrAvg: number | null;
+  confidence: number;
+  neighbors: number;
+  nearestDistanceMeters: number;
+};
+
+type CellAccumulator = {
+  latBin: number;
+  lonBin: number;
+  neighbors: number;
+  nearest: number;
+  rssiSum: number;
+  rssiWeight: number;
+  snrSum: number;
+  snrWeight: number;
+};
+
+export class PredictionGridTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PredictionGridTooLargeError';
+  }
+}
+
+/**
+ * Inverse-distance-weighted surface over the unobserved cells near the observations.
+ * Distances are great-circle meters between cell centers, so a bin that is narrower in
+ * longitude (away from the equator) is weighted by how far it really is. An observation
+ * reaches every cell within `radius` cell heights (radius * binSizeDeg of latitude).
+ * Confidence falls off with distance to the nearest observation and rises with the number
+ * of contributing observations; it is a heuristic in [0, 1], not a statistical interval.
+ * Throws PredictionGridTooLargeError once more than `maxCells` cells would be predicted.
+ */
+export function interpolateCoverageGrid(
+  observations: CoverageBinRow[],
+  options: { binSizeDeg: number; radius: number; maxCells: number }
+): PredictedCoverageCell[] {
+  const { binSizeDeg, radius, maxCells } = options;
+  const cellMeters = binSizeDeg * METERS_PER_DEGREE_LAT;
+  const radiusMeters = radius * cellMeters;
+  const keyOf = (latBin: number, lonBin: number) => `${latBin}:${lonBin}`;
+  const centerOf = (bin: number) => (bin + 0.5) * binSizeDeg;
+
+  const observed = new Set(observations.map((observation) => keyOf(observation.latBin, observation.lonBin)));
+  const cells = new Map<string, CellAccumulator>();
+
+  for (const observation of observations) {
+    if (observation.rssiAvg === null && observation.snrAvg === null) {
+      continue;
+    }
+    const observationLat = centerOf(observation.latBin);
+    const observationLon = centerOf(observation.lonBin);
+    const lonScale = Math.max(MIN_LON_SCALE, Math.cos((observationLat * Math.PI) / 180));
+    const lonRadius = Math.ceil(radius / lonScale);
+
+    for (let latBin = observation.latBin - radius; latBin <= observation.latBin + radius; latBin += 1) {
+      for (let lonBin = observation.lonBin - lonRadius; lonBin <= observation.lonBin + lonRadius; lonBin += 1) {
+        const key = keyOf(latBin, lonBin);
+        if (observed.has(key)) {
+          continue;
+        }
+        const distance = distanceMeters(observationLat, observationLon, centerOf(latBin), centerOf(lonBin));
+        if (distance > radiusMeters) {
+          continue;
+        }
+
+        let cell = cells.get(key);
+        if (!cell) {
+          if (cells.size >= maxCells) {
+            throw new PredictionGridTooLargeError(
+              `Prediction grid exceeds ${maxCells} cells; narrow the scope or lower the radius`
+            );
+          }
+          cell = {
+            latBin,
+            lonBin,
+            neighbors: 0,
+            nearest: Number.POSITIVE_INFINITY,
+            rssiSum: 0,
+            rssiWeight: 0,
+            snrSum: 0,
+            snrWeight: 0
+          };
+          cells.set(key, cell);
+        }
+
+        const weight = 1 / distance ** IDW_POWER;
+        cell.neighbors += 1;
+        cell.nearest = Math.min(cell.nearest, distance);
+        if (observation.rssiAvg !== null) {
+          cell.rssiSum += observation.rssiAvg * weight;
+          cell.rssiWeight += weight;
+        }
+        if (observation.snrAvg !== null) {
+          cell.snrSum += observation.snrAvg * weight;
+          cell.snrWeight += weight;
+        }
+      }
+    }
+  }
+
+  return Array.from(cells.values())
+    .sort((a, b) => a.latBin - b.latBin || a.lonBin - b.lonBin)
+    .map((cell) => {
+      const distanceFactor = 1 - cell.nearest / (radiusMeters + cellMeters);
+      const neighborFactor = Math.min(1, cell.neighbors / FULL_CONFIDENCE_NEIGHBORS);
+      return {
+        latBin: cell.latBin,
+        lonBin: cell.lonBin,
+        rssiAvg: cell.rssiWeight > 0 ? roundTo(cell.rssiSum / cell.rssiWeight, 1) : null,
+        snrAvg: cell.snrWeight > 0 ? roundTo(cell.snrSum / cell.snrWeight, 2) : null,
+        confidence: roundTo(distanceFactor * neighborFactor, 2),
+        neighbors: cell.neighbors,
+        nearestDistanceMeters: Math.round(cell.nearest)
+      };
+    });
+}
+
+function roundTo(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,142 @@
+export type CoverageBinRow = {
+  latBin: number;
+  lonBin: number;
+  count: number;
+  rssiAvg: number | null;
+  snrAvg: number | null;
+  rssiMin: number | null;
+  rssiMax: number | null;
+  snrMin: number | null;
+  snrMax: number | null;
+  framesReceived: number;
+  framesExpected: number;
+  // Packet delivery ratio, framesReceived / framesExpected; null without frame counters.
+  pdr: number | null;
+  gatewayId: string | null;
+};
+
+export type StoredCoverageBinRow = Omit<CoverageBinRow, 'pdr'> & {
+  // Samples behind rssiAvg / snrAvg; count also includes samples without that metric.
+  rssiCount: number;
+  snrCount: number;
+};
+
+type MergeAccumulator = {
+  latBin: number;
+  lonBin: number;
+  gatewayId: string | null;
+  count: number;
+  rssiMin: number | null;
+  rssiMax: number | null;
+  snrMin: number | null;
+  snrMax: number | null;
+  rssiWeightedSum: number;
+  rssiWeight: number;
+  snrWeightedSum: number;
+  snrWeight: number;
+  framesReceived: number;
+  framesExpected: number;
+};
+
+/**
+ * Merges stored bin rows (one per day/session/gateway) into one row per cell.
+ * Averages are weighted by their own sample counts; min/max are taken across all merged rows; frame totals
+ * are summed, so PDR is pooled rather than averaged.
+ * With byGateway=false all gateways collapse into a single row (gatewayId=null).
+ */
+export function mergeCoverageBinRows(
+  rows: StoredCoverageBinRow[],
+  options: { byGateway: boolean }
+): CoverageBinRow[] {
+  const merged = new Map<string, MergeAccumulator>();
+
+  for (const row of rows) {
+    const gatewayId = options.byGateway ? row.gatewayId ?? null : null;
+    const key = `${row.latBin}:${row.lonBin}:${gatewayId ?? ''}`;
+    let accumulator = merged.get(key);
+    if (!accumulator) {
+      accumulator = {
+        latBin: row.latBin,
+        lonBin: row.lonBin,
+        gatewayId,
+        count: 0,
+        rssiMin: null,
+        rssiMax: null,
+        snrMin: null,
+        snrMax: null,
+        rssiWeightedSum: 0,
+        rssiWeight: 0,
+        snrWeightedSum: 0,
+        snrWeight: 0,
+        framesReceived: 0,
+        framesExpected: 0
+      };
+      merged.set(key, accumulator);
+    }
+
+    const count = Math.max(0, row.count);
+    accumulator.count += count;
+    accumulator.rssiMin = pickMin(accumulator.rssiMin, row.rssiMin);
+    accumulator.rssiMax = pickMax(accumulator.rssiMax, row.rssiMax);
+    accumulator.snrMin = pickMin(accumulator.snrMin, row.snrMin);
+    accumulator.snrMax = pickMax(accumulator.snrMax, row.snrMax);
+    const rssiCount = Math.max(0, row.rssiCount);
+    if (row.rssiAvg !== null && rssiCount > 0) {
+      accumulator.rssiWeightedSum += row.rssiAvg * rssiCount;
+      accumulator.rssiWeight += rssiCount;
+    }
+    const snrCount = Math.max(0, row.snrCount);
+    if (row.snrAvg !== null && snrCount > 0) {
+      accumulator.snrWeightedSum += row.snrAvg * snrCount;
+      accumulator.snrWeight += snrCount;
+    }
+    accumulator.framesReceived += Math.max(0, row.framesReceived);
+    accumulator.framesExpected += Math.max(0, row.framesExpected);
+  }
+
+  return Array.from(merged.values())
+    .map((accumulator) => ({
+      latBin: accumulator.latBin,
+      lonBin: accumulator.lonBin,
+      count: accumulator.count,
+      rssiAvg:
+        accumulator.rssiWeight > 0 ? accumulator.rssiWeightedSum / accumulator.rssiWeight : null,
+      snrAvg: accumulator.snrWeight > 0 ? accumulator.snrWeightedSum / accumulator.snrWeight : null,
+      rssiMin: accumulator.rssiMin,
+      rssiMax: accumulator.rssiMax,
+      snrMin: accumulator.snrMin,
+      snrMax: accumulator.snrMax,
+      framesReceived: accumulator.framesReceived,
+      framesExpected: accumulator.framesExpected,
+      pdr:
+        accumulator.framesExpected > 0
+          ? accumulator.framesReceived / accumulator.framesExpected
+          : null,
+      gatewayId: accumulator.gatewayId
+    }))
+    .sort(compareCoverageBinRows);
+}
+
+function compareCoverageBinRows(a: CoverageBinRow, b: CoverageBinRow): number {
+  if (a.latBin !== b.latBin) {
+    return a.latBin - b.latBin;
+  }
+  if (a.lonBin !== b.lonBin) {
+    return a.lonBin - b.lonBin;
+  }
+  return (a.gatewayId ?? '').localeCompare(b.gatewayId ?? '');
+}
+
+function pickMin(current: number | null, value: number | null): number | null {
+  if (value === null) {
+    return current;
+  }
+  return current === null ? value : Math.min(current, value);
+}
+
+function pickMax(current: number | null, value: number | null): number | null {
+  if (value === null) {
+    return current;
+  }
+  return current === null ? value : Math.max(current, value);
+}
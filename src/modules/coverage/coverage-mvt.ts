@@ -0,0 +1,219 @@
+import { CoverageBinRow } from './coverage-merge';
+
+export const TILE_EXTENT = 4096;
+const TILE_BUFFER = 64;
+export const COVERAGE_TILE_LAYER = 'coverage';
+
+export type TileCoordinates = {
+  z: number;
+  x: number;
+  y: number;
+};
+
+export type TileBounds = {
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+};
+
+export function tileToBounds(tile: TileCoordinates): TileBounds {
+  const n = 2 ** tile.z;
+  return {
+    minLon: (tile.x / n) * 360 - 180,
+    maxLon: ((tile.x + 1) / n) * 360 - 180,
+    minLat: tileYToLat(tile.y + 1, n),
+    maxLat: tileYToLat(tile.y, n)
+  };
+}
+
+function tileYToLat(y: number, n: number): number {
+  return (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / n))) * 180) / Math.PI;
+}
+
+/**
+ * Encodes coverage bins as a single-layer Mapbox Vector Tile (spec v2.1).
+ * Each bin becomes one polygon feature carrying the aggregate metrics.
+ */
+export function encodeCoverageTile(
+  bins: CoverageBinRow[],
+  tile: TileCoordinates,
+  binSizeDeg: number
+): Buffer {
+  if (bins.length === 0) {
+    return Buffer.alloc(0);
+  }
+
+  const keys = new ValueIndex<string>();
+  const values = new ValueIndex<number>();
+  const features: ProtoWriter[] = [];
+
+  bins.forEach((bin, index) => {
+    const minLat = bin.latBin * binSizeDeg;
+    const minLon = bin.lonBin * binSizeDeg;
+    const [x0, y0] = projectToTile(minLon, minLat + binSizeDeg, tile);
+    const [x1, y1] = projectToTile(minLon + binSizeDeg, minLat, tile);
+    if (x1 <= x0 || y1 <= y0) {
+      return;
+    }
+
+    const tags: number[] = [];
+    const properties: Array<[string, number | null]> = [
+      ['count', bin.count],
+      ['rssiAvg', bin.rssiAvg],
+      ['snrAvg', bin.snrAvg],
+      ['pdr', bin.pdr],
+      ['rssiMin', bin.rssiMin],
+      ['rssiMax', bin.rssiMax],
+      ['snrMin', bin.snrMin],
+      ['snrMax', bin.snrMax]
+    ];
+    for (const [key, value] of properties) {
+      if (value === null || !Number.isFinite(value)) {
+        continue;
+      }
+      tags.push(keys.indexOf(key), values.indexOf(value));
+    }
+
+    const feature = new ProtoWriter();
+    feature.writeVarintField(1, index + 1);
+    feature.writePackedVarints(2, tags);
+    feature.writeVarintField(3, 3); // GeomType.POLYGON
+    feature.writePackedVarints(4, encodeRectangle(x0, y0, x1, y1));
+    features.push(feature);
+  });
+
+  if (features.length === 0) {
+    return Buffer.alloc(0);
+  }
+
+  const layer = new ProtoWriter();
+  layer.writeVarintField(15, 2);
+  layer.writeStringField(1, COVERAGE_TILE_LAYER);
+  for (const feature of features) {
+    layer.writeMessageField(2, feature);
+  }
+  for (const key of keys.items) {
+    layer.writeStringField(3, key);
+  }
+  for (const value of values.items) {
+    const encoded = new ProtoWriter();
+    encoded.writeDoubleField(3, value);
+    layer.writeMessageField(4, encoded);
+  }
+  layer.writeVarintField(5, TILE_EXTENT);
+
+  const root = new ProtoWriter();
+  root.writeMessageField(3, layer);
+  return root.finish();
+}
+
+function projectToTile(lon: number, lat: number, tile: TileCoordinates): [number, number] {
+  const n = 2 ** tile.z;
+  const clampedLat = Math.max(-85.05112878, Math.min(85.05112878, lat));
+  const latRad = (clampedLat * Math.PI) / 180;
+  const worldX = ((lon + 180) / 360) * n;
+  const worldY = ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n;
+  return [
+    clampTileCoordinate(Math.round((worldX - tile.x) * TILE_EXTENT)),
+    clampTileCoordinate(Math.round((worldY - tile.y) * TILE_EXTENT))
+  ];
+}
+
+function clampTileCoordinate(value: number): number {
+  return Math.max(-TILE_BUFFER, Math.min(TILE_EXTENT + TILE_BUFFER, value));
+}
+
+// Exterior ring drawn clockwise in tile space (y grows downward), as the spec requires.
+function encodeRectangle(x0: number, y0: number, x1: number, y1: number): number[] {
+  return [
+    commandInteger(1, 1),
+    zigzag(x0),
+    zigzag(y0),
+    commandInteger(2, 3),
+    zigzag(x1 - x0),
+    zigzag(0),
+    zigzag(0),
+    zigzag(y1 - y0),
+    zigzag(x0 - x1),
+    zigzag(0),
+    commandInteger(7, 1)
+  ];
+}
+
+function commandInteger(id: number, count: number): number {
+  return (id & 0x7) | (count << 3);
+}
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+class ValueIndex<T> {
+  readonly items: T[] = [];
+  private readonly positions = new Map<T, number>();
+
+  indexOf(value: T): number {
+    const existing = this.positions.get(value);
+    if (existing !== undefined) {
+      return existing;
+    }
+    const position = this.items.length;
+    this.items.push(value);
+    this.positions.set(value, position);
+    return position;
+  }
+}
+
+class ProtoWriter {
+  private readonly chunks: Buffer[] = [];
+
+  writeVarintField(field: number, value: number): void {
+    this.writeVarint((field << 3) | 0);
+    this.writeVarint(value);
+  }
+
+  writeDoubleField(field: number, value: number): void {
+    this.writeVarint((field << 3) | 1);
+    const buffer = Buffer.alloc(8);
+    buffer.writeDoubleLE(value, 0);
+    this.chunks.push(buffer);
+  }
+
+  writeStringField(field: number, value: string): void {
+    this.writeBytesField(field, Buffer.from(value, 'utf8'));
+  }
+
+  writeMessageField(field: number, message: ProtoWriter): void {
+    this.writeBytesField(field, message.finish());
+  }
+
+  writePackedVarints(field: number, values: number[]): void {
+    const packed = new ProtoWriter();
+    for (const value of values) {
+      packed.writeVarint(value);
+    }
+    this.writeBytesField(field, packed.finish());
+  }
+
+  finish(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+
+  private writeBytesField(field: number, bytes: Buffer): void {
+    this.writeVarint((field << 3) | 2);
+    this.writeVarint(bytes.length);
+    this.chunks.push(bytes);
+  }
+
+  private writeVarint(value: number): void {
+    const bytes: number[] = [];
+    let remaining = value;
+    while (remaining >= 0x80) {
+      bytes.push((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    bytes.push(remaining);
+    this.chunks.push(Buffer.from(bytes));
+  }
+}
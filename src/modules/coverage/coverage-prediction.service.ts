@@ -0,0 +1,327 @@
+import { Injectable, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { CoveragePrediction, CoveragePredictionStatus, Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { logError, logWarn } from '../../common/logging/structured-logger';
+import { PrismaService } from '../../prisma/prisma.service';
+import { BIN_SIZE_DEG, getCoverageLevel } from './coverage.constants';
+import {
+  interpolateCoverageGrid,
+  PredictedCoverageCell,
+  PredictionGridTooLargeError
+} from './coverage-interpolation';
+import {
+  CoverageGatewayMode,
+  CoverageScopeParams,
+  CoverageService,
+  isCoverageWorkerEnabled
+} from './coverage.service';
+
+const INTERVAL_MS = 5_000;
+const MAX_PREDICTIONS_PER_RUN = 5;
+const TRANSACTION_TIMEOUT_MS = 60_000;
+const PREDICTION_WORKER_LOCK = 'loramapr.coverage-prediction-worker';
+const MAX_OBSERVED_CELLS = 100_000;
+const MAX_PREDICTED_CELLS = 250_000;
+const CELL_INSERT_CHUNK = 5_000;
+const READ_TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+const PREDICTION_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type CoveragePredictionParams = CoverageScopeParams & {
+  gatewayId?: string;
+  gatewayMode?: CoverageGatewayMode;
+  level: number;
+  radius: number;
+};
+
+export type CoveragePredictionResult = {
+  status: 'pending' | 'ready' | 'failed';
+  // A previous grid is served while a newer one is being built.
+  stale: boolean;
+  computedAt: Date | null;
+  error: string | null;
+  binSizeDeg: number;
+  level: number;
+  cells: PredictedCoverageCell[];
+};
+
+type CoverageBbox = { minLon: number; minLat: number; maxLon: number; maxLat: number };
+
+/**
+ * Predicted coverage is built in the background: a request for a scope queues a grid
+ * (CoveragePrediction) and reads whatever cells were last persisted for it. The worker
+ * builds queued grids from the scope's merged bins, and a grid whose bins changed since it
+ * was built is queued again on the next read.
+ */
+@Injectable()
+export class CoveragePredictionService implements OnApplicationBootstrap, OnModuleDestroy {
+  private timer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private readonly workerId = randomUUID();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly coverageService: CoverageService
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (!isCoverageWorkerEnabled() || this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, INTERVAL_MS);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async getPrediction(
+    params: CoveragePredictionParams & { bbox: CoverageBbox }
+  ): Promise<CoveragePredictionResult> {
+    const scope = normalizeScope(params);
+    const scopeKey = buildScopeKey(scope);
+    const existing = await this.prisma.coveragePrediction.findUnique({ where: { scopeKey } });
+    const prediction = existing
+      ? await this.refreshPrediction(existing, scope)
+      : await this.createPrediction(scope, scopeKey);
+
+    const binSizeDeg = getCoverageLevel(scope.level)?.binSizeDeg ?? BIN_SIZE_DEG;
+    const cells = prediction.computedAt
+      ? await this.prisma.coveragePredictionCell.findMany({
+          where: {
+            predictionId: prediction.id,
+            latBin: {
+              gte: Math.floor(params.bbox.minLat / binSizeDeg),
+              lte: Math.floor(params.bbox.maxLat / binSizeDeg)
+            },
+            lonBin: {
+              gte: Math.floor(params.bbox.minLon / binSizeDeg),
+              lte: Math.floor(params.bbox.maxLon / binSizeDeg)
+            }
+          },
+          orderBy: [{ latBin: 'asc' }, { lonBin: 'asc' }],
+          select: {
+            latBin: true,
+            lonBin: true,
+            rssiAvg: true,
+            snrAvg: true,
+            confidence: true,
+            neighbors: true,
+            nearestDistanceMeters: true
+          }
+        })
+      : [];
+
+    return {
+      status: prediction.status.toLowerCase() as CoveragePredictionResult['status'],
+      stale: prediction.status === CoveragePredictionStatus.PENDING && prediction.computedAt !== null,
+      computedAt: prediction.computedAt,
+      error: prediction.error,
+      binSizeDeg,
+      level: scope.level,
+      cells
+    };
+  }
+
+  /** Builds queued grids now instead of waiting for the next tick. */
+  async processPending(): Promise<void> {
+    await this.runOnce(true);
+  }
+
+  private async createPrediction(
+    scope: CoveragePredictionParams,
+    scopeKey: string
+  ): Promise<CoveragePrediction> {
+    try {
+      return await this.prisma.coveragePrediction.create({
+        data: {
+          scopeKey,
+          deviceId: scope.deviceId ?? null,
+          sessionId: scope.sessionId ?? null,
+          fromDay: scope.from ?? null,
+          toDay: scope.to ?? null,
+          gatewayId: scope.gatewayId ?? null,
+          perGateway: scope.gatewayMode === 'any',
+          level: scope.level,
+          radius: scope.radius
+        }
+      });
+    } catch (error) {
+      // Another request queued the same scope first.
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return this.prisma.coveragePrediction.findUniqueOrThrow({ where: { scopeKey } });
+      }
+      throw error;
+    }
+  }
+
+  private async refreshPrediction(
+    prediction: CoveragePrediction,
+    scope: CoveragePredictionParams
+  ): Promise<CoveragePrediction> {
+    const now = new Date();
+    const data: Prisma.CoveragePredictionUpdateInput = {};
+    if (prediction.status !== CoveragePredictionStatus.PENDING) {
+      const latest = await this.coverageService.getLatestBinUpdate(scope);
+      if (latest && (!prediction.binsUpdatedAt || latest > prediction.binsUpdatedAt)) {
+        data.status = CoveragePredictionStatus.PENDING;
+        data.requestedAt = now;
+      }
+    }
+    if (now.getTime() - prediction.lastReadAt.getTime() > READ_TOUCH_INTERVAL_MS) {
+      data.lastReadAt = now;
+    }
+    if (Object.keys(data).length === 0) {
+      return prediction;
+    }
+    return this.prisma.coveragePrediction.update({ where: { id: prediction.id }, data });
+  }
+
+  private async runOnce(force: boolean = false): Promise<void> {
+    if (this.isProcessing && !force) {
+      return;
+    }
+    const wasProcessing = this.isProcessing;
+    this.isProcessing = true;
+    try {
+      await this.prisma.coveragePrediction.deleteMany({
+        where: { lastReadAt: { lt: new Date(Date.now() - PREDICTION_RETENTION_MS) } }
+      });
+      for (let index = 0; index < MAX_PREDICTIONS_PER_RUN; index += 1) {
+        if (!(await this.processNext())) {
+          break;
+        }
+      }
+    } catch (error) {
+      logError('coverage.prediction.failed', {
+        workerId: this.workerId,
+        reason: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      this.isProcessing = wasProcessing;
+    }
+  }
+
+  /**
+   * Builds the oldest queued grid. Bins are read and interpolated outside the transaction;
+   * the write only lands if the grid was not queued again meanwhile, so a newer request is
+   * never marked ready with older cells. Replicas may build the same grid twice, which just
+   * rewrites identical cells; the advisory lock keeps those writes from interleaving.
+   */
+  private async processNext(): Promise<boolean> {
+    const prediction = await this.prisma.coveragePrediction.findFirst({
+      where: { status: CoveragePredictionStatus.PENDING },
+      orderBy: { requestedAt: 'asc' }
+    });
+    if (!prediction) {
+      return false;
+    }
+
+    const scope = predictionScope(prediction);
+    const binSizeDeg = getCoverageLevel(scope.level)?.binSizeDeg ?? BIN_SIZE_DEG;
+    const binsUpdatedAt = await this.coverageService.getLatestBinUpdate(scope);
+    const { items: observations, truncated } = await this.coverageService.listBins({
+      ...scope,
+      groupBy: 'none',
+      limit: MAX_OBSERVED_CELLS
+    });
+    if (truncated) {
+      logWarn('coverage.prediction.observations_truncated', {
+        predictionId: prediction.id,
+        observedCells: observations.length
+      });
+    }
+
+    let cells: PredictedCoverageCell[] = [];
+    let error: string | null = null;
+    try {
+      cells = interpolateCoverageGrid(observations, {
+        binSizeDeg,
+        radius: scope.radius,
+        maxCells: MAX_PREDICTED_CELLS
+      });
+    } catch (caught) {
+      if (!(caught instanceof PredictionGridTooLargeError)) {
+        throw caught;
+      }
+      error = caught.message;
+    }
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${PREDICTION_WORKER_LOCK}))`;
+        const claimed = await tx.coveragePrediction.updateMany({
+          where: { id: prediction.id, requestedAt: prediction.requestedAt },
+          data: {
+            status: error ? CoveragePredictionStatus.FAILED : CoveragePredictionStatus.READY,
+            error,
+            cellCount: cells.length,
+            binsUpdatedAt,
+            computedAt: new Date()
+          }
+        });
+        if (claimed.count === 0) {
+          return;
+        }
+        await tx.coveragePredictionCell.deleteMany({ where: { predictionId: prediction.id } });
+        for (let offset = 0; offset < cells.length; offset += CELL_INSERT_CHUNK) {
+          await tx.coveragePredictionCell.createMany({
+            data: cells
+              .slice(offset, offset + CELL_INSERT_CHUNK)
+              .map((cell) => ({ predictionId: prediction.id, ...cell }))
+          });
+        }
+      },
+      { timeout: TRANSACTION_TIMEOUT_MS }
+    );
+    return true;
+  }
+}
+
+// Bins are per UTC day, so ranges are keyed by day and "last 7 days" maps to one grid per day.
+function normalizeScope(params: CoveragePredictionParams): CoveragePredictionParams {
+  return {
+    deviceId: params.deviceId,
+    sessionId: params.sessionId,
+    from: params.from ? startOfUtcDay(params.from) : undefined,
+    to: params.to ? startOfUtcDay(params.to) : undefined,
+    gatewayId: params.gatewayId,
+    gatewayMode: params.gatewayMode ?? 'best',
+    level: params.level,
+    radius: params.radius
+  };
+}
+
+function buildScopeKey(scope: CoveragePredictionParams): string {
+  return JSON.stringify([
+    scope.deviceId ?? null,
+    scope.sessionId ?? null,
+    scope.from?.toISOString() ?? null,
+    scope.to?.toISOString() ?? null,
+    scope.gatewayId ?? null,
+    scope.gatewayMode,
+    scope.level,
+    scope.radius
+  ]);
+}
+
+function predictionScope(prediction: CoveragePrediction): CoveragePredictionParams {
+  return {
+    deviceId: prediction.deviceId ?? undefined,
+    sessionId: prediction.sessionId ?? undefined,
+    from: prediction.fromDay ?? undefined,
+    to: prediction.toDay ?? undefined,
+    gatewayId: prediction.gatewayId ?? undefined,
+    gatewayMode: prediction.perGateway ? 'any' : 'best',
+    level: prediction.level,
+    radius: prediction.radius
+  };
+}
+
+function startOfUtcDay(value: Date): Date {
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+}
@@ -0,0 +1,28 @@
+export const BIN_SIZE_DEG = 0.001;
+
+export type CoverageLevel = {
+  level: number;
+  binSizeDeg: number;
+  minZoom: number;
+};
+
+// Pyramid of bin resolutions maintained by the worker. Level 0 is the base grid;
+// each coarser level covers 4x4 base bins. Ordered from finest to coarsest.
+export const COVERAGE_LEVELS: ReadonlyArray<CoverageLevel> = [
+  { level: 0, binSizeDeg: BIN_SIZE_DEG, minZoom: 14 },
+  { level: 1, binSizeDeg: 0.004, minZoom: 12 },
+  { level: 2, binSizeDeg: 0.016, minZoom: 0 }
+];
+
+export function getCoverageLevel(level: number): CoverageLevel | undefined {
+  return COVERAGE_LEVELS.find((candidate) => candidate.level === level);
+}
+
+export function resolveCoverageLevelForZoom(zoom: number): CoverageLevel {
+  for (const candidate of COVERAGE_LEVELS) {
+    if (zoom >= candidate.minZoom) {
+      return candidate;
+    }
+  }
+  return COVERAGE_LEVELS[COVERAGE_LEVELS.length - 1];
+}
@@ -0,0 +1,694 @@
+import { BadRequestException, Controller, Get, Param, Query, Res } from '@nestjs/common';
+import { buildCoverageKml, buildKmz, KmlOutput } from '../export/kml';
+import { SignalBucketMetric } from '../export/signal-buckets';
+import { CoverageGatewayMode, CoverageGroupBy, CoverageService } from './coverage.service';
+import {
+  CoverageBoundaryMetric,
+  CoverageBoundaryMode,
+  DEFAULT_BOUNDARY_SECTORS,
+  DEFAULT_BOUNDARY_THRESHOLDS
+} from './coverage-boundary';
+import { IDW_POWER } from './coverage-interpolation';
+import { CoveragePredictionService } from './coverage-prediction.service';
+import { encodeCoverageTile } from './coverage-mvt';
+import {
+  COVERAGE_LEVELS,
+  CoverageLevel,
+  getCoverageLevel,
+  resolveCoverageLevelForZoom
+} from './coverage.constants';
+
+type CoverageQuery = {
+  deviceId?: string | string[];
+  sessionId?: string | string[];
+  day?: string | string[];
+  allDays?: string | string[];
+  from?: string | string[];
+  to?: string | string[];
+  bbox?: string | string[];
+  gatewayId?: string | string[];
+  gatewayMode?: string | string[];
+  groupBy?: string | string[];
+  level?: string | string[];
+  zoom?: string | string[];
+  limit?: string | string[];
+};
+
+type CoverageKmlQuery = Omit<CoverageQuery, 'groupBy'> & {
+  metric?: string | string[];
+};
+
+type CoverageDiffQuery = {
+  baseDeviceId?: string | string[];
+  baseSessionId?: string | string[];
+  baseFrom?: string | string[];
+  baseTo?: string | string[];
+  compareDeviceId?: string | string[];
+  compareSessionId?: string | string[];
+  compareFrom?: string | string[];
+  compareTo?: string | string[];
+  bbox?: string | string[];
+  gatewayId?: string | string[];
+  gatewayMode?: string | string[];
+  level?: string | string[];
+  zoom?: string | string[];
+  limit?: string | string[];
+};
+
+type CoveragePredictionQuery = {
+  deviceId?: string | string[];
+  sessionId?: string | string[];
+  from?: string | string[];
+  to?: string | string[];
+  bbox?: string | string[];
+  gatewayId?: string | string[];
+  gatewayMode?: string | string[];
+  level?: string | string[];
+  zoom?: string | string[];
+  radius?: string | string[];
+};
+
+type CoverageBoundaryQuery = {
+  deviceId?: string | string[];
+  sessionId?: string | string[];
+  from?: string | string[];
+  to?: string | string[];
+  gatewayId?: string | string[];
+  gatewayMode?: string | string[];
+  mode?: string | string[];
+  metric?: string | string[];
+  thresholds?: string | string[];
+  sectors?: string | string[];
+};
+
+type CoverageTileQuery = {
+  deviceId?: string | string[];
+  sessionId?: string | string[];
+  gatewayId?: string | string[];
+  gatewayMode?: string | string[];
+  from?: string | string[];
+  to?: string | string[];
+};
+
+const DEFAULT_LIMIT = 5000;
+const MAX_LIMIT = 20000;
+const MAX_TILE_ZOOM = 22;
+const DEFAULT_PREDICTION_RADIUS = 8;
+const MAX_PREDICTION_RADIUS = 32;
+const MAX_PREDICTION_CELLS = 40_000;
+const MAX_BOUNDARY_THRESHOLDS = 5;
+const MIN_BOUNDARY_SECTORS = 4;
+const MAX_BOUNDARY_SECTORS = 72;
+const TILE_CACHE_MAX_AGE_SECONDS = 60;
+// Set when the tile hit the stored-row cap and some cells were left out.
+const TILE_TRUNCATED_HEADER = 'X-Coverage-Truncated';
+
+@Controller('api/coverage')
+export class CoverageController {
+  constructor(
+    private readonly coverageService: CoverageService,
+    private readonly predictionService: CoveragePredictionService
+  ) {}
+
+  @Get('bins')
+  async listBins(@Query() query: CoverageQuery) {
+    const scope = parseBinsScope(query);
+    const groupBy = parseGroupBy(getSingleValue(query.groupBy, 'groupBy'));
+
+    const { items, truncated } = await this.coverageService.listBins({
+      deviceId: scope.deviceId,
+      sessionId: scope.sessionId,
+      day: scope.day,
+      from: scope.from,
+      to: scope.to,
+      bbox: scope.bbox,
+      gatewayId: scope.gatewayId,
+      gatewayMode: scope.gatewayMode,
+      groupBy,
+      level: scope.coverageLevel.level,
+      limit: scope.limit
+    });
+
+    return {
+      binSizeDeg: scope.coverageLevel.binSizeDeg,
+      level: scope.coverageLevel.level,
+      day: scope.day ? scope.day.toISOString() : scope.hasRange ? 'range' : 'all',
+      from: scope.from ? scope.from.toISOString() : null,
+      to: scope.to ? scope.to.toISOString() : null,
+      gatewayMode: scope.gatewayMode,
+      groupBy,
+      items,
+      count: items.length,
+      truncated
+    };
+  }
+
+  @Get('bins.kml')
+  async exportBinsKml(@Query() query: CoverageKmlQuery, @Res() res: any): Promise<void> {
+    const { kml, metric } = await this.buildBinsKml(query, 'kml');
+    res.setHeader('Content-Type', 'application/vnd.google-earth.kml+xml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="coverage-${metric}.kml"`);
+    res.status(200).send(kml);
+  }
+
+  @Get('bins.kmz')
+  async exportBinsKmz(@Query() query: CoverageKmlQuery, @Res() res: any): Promise<void> {
+    const { kml, metric } = await this.buildBinsKml(query, 'kmz');
+    res.setHeader('Content-Type', 'application/vnd.google-earth.kmz');
+    res.setHeader('Content-Disposition', `attachment; filename="coverage-${metric}.kmz"`);
+    res.status(200).send(buildKmz(kml, metric));
+  }
+
+  @Get('diff')
+  async diffBins(@Query() query: CoverageDiffQuery) {
+    const base = parseDiffScope(query, 'base');
+    const compare = parseDiffScope(query, 'compare');
+    const bboxValue = getSingleValue(query.bbox, 'bbox');
+    const bbox = bboxValue ? parseBbox(bboxValue) : undefined;
+    const gatewayId = getSingleValue(query.gatewayId, 'gatewayId');
+    const gatewayMode = parseGatewayMode(getSingleValue(query.gatewayMode, 'gatewayMode'));
+    const coverageLevel = parseCoverageLevel(
+      getSingleValue(query.level, 'level'),
+      getSingleValue(query.zoom, 'zoom')
+    );
+    const limit = Math.min(parseLimit(getSingleValue(query.limit, 'limit')), MAX_LIMIT);
+
+    const { items, truncated } = await this.coverageService.diffBins({
+      base,
+      compare,
+      bbox,
+      gatewayId: gatewayId ?? undefined,
+      gatewayMode,
+      level: coverageLevel.level,
+      limit
+    });
+
+    return {
+      binSizeDeg: coverageLevel.binSizeDeg,
+      level: coverageLevel.level,
+      items,
+      count: items.length,
+      truncated
+    };
+  }
+
+  @Get('predicted')
+  async predictBins(@Query() query: CoveragePredictionQuery) {
+    const deviceId = getSingleValue(query.deviceId, 'deviceId');
+    const sessionId = getSingleValue(query.sessionId, 'sessionId');
+
+    if (!deviceId && !sessionId) {
+      throw new BadRequestException('deviceId or sessionId is required');
+    }
+    if (deviceId && sessionId) {
+      throw new BadRequestException('Provide either deviceId or sessionId, not both');
+    }
+
+    const bboxValue = getSingleValue(query.bbox, 'bbox');
+    if (!bboxValue) {
+      throw new BadRequestException('bbox is required');
+    }
+    const bbox = parseBbox(bboxValue);
+    const from = parseOptionalDate(getSingleValue(query.from, 'from'), 'from');
+    const to = parseOptionalDate(getSingleValue(query.to, 'to'), 'to');
+    if (from && to && from.getTime() > to.getTime()) {
+      throw new BadRequestException('from must be before to');
+    }
+    const gatewayId = getSingleValue(query.gatewayId, 'gatewayId');
+    const gatewayMode = parseGatewayMode(getSingleValue(query.gatewayMode, 'gatewayMode'));
+    const coverageLevel = parseCoverageLevel(
+      getSingleValue(query.level, 'level'),
+      getSingleValue(query.zoom, 'zoom')
+    );
+    const radius = parsePredictionRadius(getSingleValue(query.radius, 'radius'));
+
+    const { binSizeDeg } = coverageLevel;
+    const gridCells =
+      (Math.floor(bbox.maxLat / binSizeDeg) - Math.floor(bbox.minLat / binSizeDeg) + 1) *
+      (Math.floor(bbox.maxLon / binSizeDeg) - Math.floor(bbox.minLon / binSizeDeg) + 1);
+    if (gridCells > MAX_PREDICTION_CELLS) {
+      throw new BadRequestException(
+        `bbox covers ${gridCells} cells at level ${coverageLevel.level}; max is ${MAX_PREDICTION_CELLS}`
+      );
+    }
+
+    const prediction = await this.predictionService.getPrediction({
+      deviceId: deviceId ?? undefined,
+      sessionId: sessionId ?? undefined,
+      from,
+      to,
+      bbox,
+      gatewayId: gatewayId ?? undefined,
+      gatewayMode,
+      level: coverageLevel.level,
+      radius
+    });
+
+    return {
+      predicted: true,
+      method: 'idw',
+      power: IDW_POWER,
+      radius,
+      binSizeDeg,
+      level: coverageLevel.level,
+      status: prediction.status,
+      stale: prediction.stale,
+      computedAt: prediction.computedAt ? prediction.computedAt.toISOString() : null,
+      error: prediction.error,
+      items: prediction.cells,
+      count: prediction.cells.length
+    };
+  }
+
+  @Get('boundaries')
+  async getBoundaries(@Query() query: CoverageBoundaryQuery) {
+    const deviceId = getSingleValue(query.deviceId, 'deviceId');
+    const sessionId = getSingleValue(query.sessionId, 'sessionId');
+
+    if (!deviceId && !sessionId) {
+      throw new BadRequestException('deviceId or sessionId is required');
+    }
+    if (deviceId && sessionId) {
+      throw new BadRequestException('Provide either deviceId or sessionId, not both');
+    }
+
+    const from = parseOptionalDate(getSingleValue(query.from, 'from'), 'from');
+    const to = parseOptionalDate(getSingleValue(query.to, 'to'), 'to');
+    if (from && to && from.getTime() > to.getTime()) {
+      throw new BadRequestException('from must be before to');
+    }
+    const gatewayId = getSingleValue(query.gatewayId, 'gatewayId');
+    const gatewayMode = parseGatewayMode(getSingleValue(query.gatewayMode, 'gatewayMode'));
+    const mode = parseBoundaryMode(getSingleValue(query.mode, 'mode'));
+    const metric = parseBoundaryMetric(getSingleValue(query.metric, 'metric'));
+    const thresholds = parseBoundaryThresholds(
+      getSingleValue(query.thresholds, 'thresholds'),
+      metric
+    );
+    const sectorsValue = getSingleValue(query.sectors, 'sectors');
+    if (sectorsValue !== undefined && mode !== 'sector') {
+      throw new BadRequestException('sectors is only valid with mode=sector');
+    }
+    const sectors = parseBoundarySectors(sectorsValue);
+
+    return this.coverageService.getBoundaries({
+      deviceId: deviceId ?? undefined,
+      sessionId: sessionId ?? undefined,
+      from,
+      to,
+      gatewayId: gatewayId ?? undefined,
+      gatewayMode,
+      mode,
+      metric,
+      thresholds,
+      sectors
+    });
+  }
+
+  @Get('tiles/:z/:x/:y.mvt')
+  async getTile(
+    @Param('z') zParam: string,
+    @Param('x') xParam: string,
+    @Param('y') yParam: string,
+    @Query() query: CoverageTileQuery,
+    @Res() res: any
+  ): Promise<void> {
+    const tile = parseTileCoordinates(zParam, xParam, yParam);
+    const deviceId = getSingleValue(query.deviceId, 'deviceId');
+    const sessionId = getSingleValue(query.sessionId, 'sessionId');
+
+    if (!deviceId && !sessionId) {
+      throw new BadRequestException('deviceId or sessionId is required');
+    }
+    if (deviceId && sessionId) {
+      throw new BadRequestException('Provide either deviceId or sessionId, not both');
+    }
+
+    const from = parseOptionalDate(getSingleValue(query.from, 'from'), 'from');
+    const to = parseOptionalDate(getSingleValue(query.to, 'to'), 'to');
+    if (from && to && from.getTime() > to.getTime()) {
+      throw new BadRequestException('from must be before to');
+    }
+    const gatewayId = getSingleValue(query.gatewayId, 'gatewayId');
+    const gatewayMode = parseGatewayMode(getSingleValue(query.gatewayMode, 'gatewayMode'));
+
+    const { bins, binSizeDeg, truncated } = await this.coverageService.listTileBins({
+      tile,
+      deviceId: deviceId ?? undefined,
+      sessionId: sessionId ?? undefined,
+      gatewayId: gatewayId ?? undefined,
+      gatewayMode,
+      from,
+      to
+    });
+
+    res.setHeader('Content-Type', 'application/vnd.mapbox-vector-tile');
+    res.setHeader('Cache-Control', `public, max-age=${TILE_CACHE_MAX_AGE_SECONDS}`);
+    if (truncated) {
+      res.setHeader(TILE_TRUNCATED_HEADER, 'true');
+    }
+    res.status(200).send(encodeCoverageTile(bins, tile, binSizeDeg));
+  }
+
+  private async buildBinsKml(
+    query: CoverageKmlQuery,
+    output: KmlOutput
+  ): Promise<{ kml: string; metric: SignalBucketMetric }> {
+    const scope = parseBinsScope(query);
+    const metric = parseKmlMetric(getSingleValue(query.metric, 'metric'));
+
+    // One polygon per cell: gateways are merged unless gatewayId narrows the export.
+    const { items: bins } = await this.coverageService.listBins({
+      deviceId: scope.deviceId,
+      sessionId: scope.sessionId,
+      day: scope.day,
+      from: scope.from,
+      to: scope.to,
+      bbox: scope.bbox,
+      gatewayId: scope.gatewayId,
+      gatewayMode: scope.gatewayMode,
+      groupBy: 'none',
+      level: scope.coverageLevel.level,
+      limit: scope.limit
+    });
+
+    const kml = buildCoverageKml({
+      name: scope.sessionId ? `Coverage for session ${scope.sessionId}` : `Coverage for device ${scope.deviceId}`,
+      metric,
+      binSizeDeg: scope.coverageLevel.binSizeDeg,
+      bins,
+      output
+    });
+    return { kml, metric };
+  }
+}
+
+function getSingleValue(value: string | string[] | undefined, name: string): string | undefined {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return undefined;
+    }
+    if (value.length > 1) {
+      throw new BadRequestException(`Multiple values provided for ${name}`);
+    }
+    return value[0];
+  }
+  return value;
+}
+
+function parseBinsScope(query: CoverageQuery) {
+  const deviceId = getSingleValue(query.deviceId, 'deviceId');
+  const sessionId = getSingleValue(query.sessionId, 'sessionId');
+
+  if (!deviceId && !sessionId) {
+    throw new BadRequestException('deviceId or sessionId is required');
+  }
+  if (deviceId && sessionId) {
+    throw new BadRequestException('Provide either deviceId or sessionId, not both');
+  }
+
+  const allDaysRaw = getSingleValue(query.allDays, 'allDays');
+  const allDays = parseOptionalBoolean(allDaysRaw, 'allDays') ?? false;
+  const dayValue = getSingleValue(query.day, 'day');
+  const from = parseOptionalDate(getSingleValue(query.from, 'from'), 'from');
+  const to = parseOptionalDate(getSingleValue(query.to, 'to'), 'to');
+  const hasRange = Boolean(from || to);
+  if (hasRange && (dayValue !== undefined || allDays)) {
+    throw new BadRequestException('from/to cannot be combined with day or allDays');
+  }
+  if (from && to && from.getTime() > to.getTime()) {
+    throw new BadRequestException('from must be before to');
+  }
+  const day = allDays || hasRange ? undefined : parseDay(dayValue);
+  const bboxValue = getSingleValue(query.bbox, 'bbox');
+  const bbox = bboxValue ? parseBbox(bboxValue) : undefined;
+  const gatewayId = getSingleValue(query.gatewayId, 'gatewayId');
+  const gatewayMode = parseGatewayMode(getSingleValue(query.gatewayMode, 'gatewayMode'));
+  const coverageLevel = parseCoverageLevel(
+    getSingleValue(query.level, 'level'),
+    getSingleValue(query.zoom, 'zoom')
+  );
+  const requestedLimit = parseLimit(getSingleValue(query.limit, 'limit'));
+
+  return {
+    deviceId: deviceId ?? undefined,
+    sessionId: sessionId ?? undefined,
+    day,
+    from,
+    to,
+    hasRange,
+    bbox,
+    gatewayId: gatewayId ?? undefined,
+    gatewayMode,
+    coverageLevel,
+    limit: Math.min(requestedLimit, MAX_LIMIT)
+  };
+}
+
+function parseKmlMetric(value: string | undefined): SignalBucketMetric {
+  if (value === undefined) {
+    return 'rssiAvg';
+  }
+  const normalized = value.trim();
+  if (
+    normalized === 'count' ||
+    normalized === 'rssiAvg' ||
+    normalized === 'snrAvg' ||
+    normalized === 'pdr'
+  ) {
+    return normalized;
+  }
+  throw new BadRequestException('metric must be count, rssiAvg, snrAvg or pdr');
+}
+
+function parseDay(value?: string): Date {
+  if (value === undefined) {
+    return startOfUtcDay(new Date());
+  }
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new BadRequestException('day must be a valid date');
+  }
+  return startOfUtcDay(parsed);
+}
+
+function parseOptionalDate(value: string | undefined, name: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new BadRequestException(`${name} must be a valid date`);
+  }
+  return parsed;
+}
+
+function parseDiffScope(
+  query: CoverageDiffQuery,
+  prefix: 'base' | 'compare'
+): { deviceId?: string; sessionId?: string; from?: Date; to?: Date } {
+  const deviceId = getSingleValue(query[`${prefix}DeviceId`], `${prefix}DeviceId`);
+  const sessionId = getSingleValue(query[`${prefix}SessionId`], `${prefix}SessionId`);
+  if (!deviceId && !sessionId) {
+    throw new BadRequestException(`${prefix}DeviceId or ${prefix}SessionId is required`);
+  }
+  if (deviceId && sessionId) {
+    throw new BadRequestException(`Provide either ${prefix}DeviceId or ${prefix}SessionId, not both`);
+  }
+
+  const fromName = `${prefix}From` as const;
+  const toName = `${prefix}To` as const;
+  const from = parseOptionalDate(getSingleValue(query[fromName], fromName), fromName);
+  const to = parseOptionalDate(getSingleValue(query[toName], toName), toName);
+  if (from && to && from.getTime() > to.getTime()) {
+    throw new BadRequestException(`${prefix}From must be before ${prefix}To`);
+  }
+
+  return {
+    deviceId: deviceId ?? undefined,
+    sessionId: sessionId ?? undefined,
+    from,
+    to
+  };
+}
+
+function parseTileCoordinates(
+  zValue: string,
+  xValue: string,
+  yValue: string
+): { z: number; x: number; y: number } {
+  const [z, x, y] = [zValue, xValue, yValue].map((value) =>
+    /^\d+$/.test(value) ? Number.parseInt(value, 10) : Number.NaN
+  );
+  if (!Number.isInteger(z) || z > MAX_TILE_ZOOM) {
+    throw new BadRequestException(`z must be an integer between 0 and ${MAX_TILE_ZOOM}`);
+  }
+  const tileCount = 2 ** z;
+  if (!Number.isInteger(x) || !Number.isInteger(y) || x >= tileCount || y >= tileCount) {
+    throw new BadRequestException('x and y must be valid tile indexes for z');
+  }
+  return { z, x, y };
+}
+
+function parseOptionalBoolean(value: string | undefined, name: string): boolean | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'true' || normalized === '1') {
+    return true;
+  }
+  if (normalized === 'false' || normalized === '0') {
+    return false;
+  }
+  throw new BadRequestException(`${name} must be true or false`);
+}
+
+function parseGroupBy(value: string | undefined): CoverageGroupBy {
+  if (value === undefined) {
+    return 'gateway';
+  }
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'gateway' || normalized === 'none') {
+    return normalized;
+  }
+  throw new BadRequestException('groupBy must be gateway or none');
+}
+
+function parseGatewayMode(value: string | undefined): CoverageGatewayMode {
+  if (value === undefined) {
+    return 'best';
+  }
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'best' || normalized === 'any') {
+    return normalized;
+  }
+  throw new BadRequestException('gatewayMode must be best or any');
+}
+
+function parsePredictionRadius(value: string | undefined): number {
+  if (value === undefined) {
+    return DEFAULT_PREDICTION_RADIUS;
+  }
+  const normalized = value.trim();
+  const parsed = /^\d+$/.test(normalized) ? Number.parseInt(normalized, 10) : Number.NaN;
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_PREDICTION_RADIUS) {
+    throw new BadRequestException(`radius must be an integer between 1 and ${MAX_PREDICTION_RADIUS}`);
+  }
+  return parsed;
+}
+
+function parseBoundaryMode(value: string | undefined): CoverageBoundaryMode {
+  if (value === undefined) {
+    return 'threshold';
+  }
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'threshold' || normalized === 'sector') {
+    return normalized;
+  }
+  throw new BadRequestException('mode must be threshold or sector');
+}
+
+function parseBoundaryMetric(value: string | undefined): CoverageBoundaryMetric {
+  if (value === undefined) {
+    return 'rssi';
+  }
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'rssi' || normalized === 'snr') {
+    return normalized;
+  }
+  throw new BadRequestException('metric must be rssi or snr');
+}
+
+function parseBoundaryThresholds(value: string | undefined, metric: CoverageBoundaryMetric): number[] {
+  if (value === undefined) {
+    return DEFAULT_BOUNDARY_THRESHOLDS[metric];
+  }
+  const parts = value.split(',').map((part) => part.trim());
+  const numbers = parts.map((part) => (part === '' ? Number.NaN : Number(part)));
+  if (numbers.some((part) => !Number.isFinite(part))) {
+    throw new BadRequestException('thresholds must be a comma-separated list of numbers');
+  }
+  if (numbers.length > MAX_BOUNDARY_THRESHOLDS) {
+    throw new BadRequestException(`thresholds accepts at most ${MAX_BOUNDARY_THRESHOLDS} values`);
+  }
+  return numbers;
+}
+
+function parseBoundarySectors(value: string | undefined): number {
+  if (value === undefined) {
+    return DEFAULT_BOUNDARY_SECTORS;
+  }
+  const normalized = value.trim();
+  const parsed = /^\d+$/.test(normalized) ? Number.parseInt(normalized, 10) : Number.NaN;
+  if (!Number.isInteger(parsed) || parsed < MIN_BOUNDARY_SECTORS || parsed > MAX_BOUNDARY_SECTORS) {
+    throw new BadRequestException(
+      `sectors must be an integer between ${MIN_BOUNDARY_SECTORS} and ${MAX_BOUNDARY_SECTORS}`
+    );
+  }
+  return parsed;
+}
+
+function parseLimit(value: string | undefined): number {
+  if (value === undefined) {
+    return DEFAULT_LIMIT;
+  }
+  const normalized = value.trim();
+  if (!/^\d+$/.test(normalized)) {
+    throw new BadRequestException('limit must be a positive integer');
+  }
+  const parsed = Number.parseInt(normalized, 10);
+  if (!Number.isSafeInteger(parsed) || parsed <= 0) {
+    throw new BadRequestException('limit must be a positive integer');
+  }
+  return parsed;
+}
+
+function parseCoverageLevel(levelValue: string | undefined, zoomValue: string | undefined): CoverageLevel {
+  if (levelValue !== undefined && zoomValue !== undefined) {
+    throw new BadRequestException('Provide either level or zoom, not both');
+  }
+
+  if (levelValue !== undefined) {
+    const normalized = levelValue.trim();
+    const level = /^\d+$/.test(normalized) ? getCoverageLevel(Number.parseInt(normalized, 10)) : undefined;
+    if (!level) {
+      const allowed = COVERAGE_LEVELS.map((candidate) => candidate.level).join(', ');
+      throw new BadRequestException(`level must be one of ${allowed}`);
+    }
+    return level;
+  }
+
+  if (zoomValue !== undefined) {
+    const zoom = Number(zoomValue.trim());
+    if (zoomValue.trim() === '' || !Number.isFinite(zoom) || zoom < 0) {
+      throw new BadRequestException('zoom must be a non-negative number');
+    }
+    return resolveCoverageLevelForZoom(zoom);
+  }
+
+  return COVERAGE_LEVELS[0];
+}
+
+function startOfUtcDay(value: Date): Date {
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+}
+
+function parseBbox(value: string): { minLon: number; minLat: number; maxLon: number; maxLat: number } {
+  const parts = value.split(',').map((part) => part.trim());
+  if (parts.length !== 4) {
+    throw new BadRequestException('bbox must be minLon,minLat,maxLon,maxLat');
+  }
+
+  const numbers = parts.map((part) => Number(part));
+  if (numbers.some((part) => !Number.isFinite(part))) {
+    throw new BadRequestException('bbox must contain valid numbers');
+  }
+
+  const [minLon, minLat, maxLon, maxLat] = numbers;
+  if (minLon >= maxLon || minLat >= maxLat) {
+    throw new BadRequestException('bbox min values must be < max values');
+  }
+
+  return { minLon, minLat, maxLon, maxLat };
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { CoverageController } from './coverage.controller';
+import { CoveragePredictionService } from './coverage-prediction.service';
+import { CoverageService } from './coverage.service';
+
+@Module({
+  controllers: [CoverageController],
+  providers: [CoverageService, CoveragePredictionService],
+  exports: [CoverageService]
+})
+export class CoverageModule {}
@@ -0,0 +1,813 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { buildNonHomeDeviceWhere } from '../../common/device-role';
+import { logError } from '../../common/logging/structured-logger';
+import { PrismaService } from '../../prisma/prisma.service';
+import { MAX_FCNT_GAP } from '../measurements/frame-counter';
+import { BIN_SIZE_DEG, COVERAGE_LEVELS, getCoverageLevel, resolveCoverageLevelForZoom } from './coverage.constants';
+import {
+  buildSectorBoundaries,
+  buildThresholdBoundaries,
+  CoverageBoundaryCollection,
+  CoverageBoundaryMetric,
+  CoverageBoundaryMode
+} from './coverage-boundary';
+import { CoverageDiffRow, diffCoverageBinRows } from './coverage-diff';
+import { CoverageBinRow, mergeCoverageBinRows, StoredCoverageBinRow } from './coverage-merge';
+import { TileCoordinates, tileToBounds } from './coverage-mvt';
+
+const BATCH_SIZE = 2000;
+const MAX_BATCHES_PER_RUN = 20;
+const INTERVAL_MS = 10_000;
+const TRANSACTION_TIMEOUT_MS = 60_000;
+const COVERAGE_CURSOR_NAME = 'coverage';
+const COVERAGE_WORKER_LOCK = 'loramapr.coverage-worker';
+// ingestedAt is stamped when the insert runs, not when it commits. Ingest transactions
+// finish well within this, so rows older than it can no longer appear behind the cursor.
+const INGEST_SETTLE_MS = 30_000;
+// Upper bound on stored rows read before merging (days/sessions/gateways per cell).
+const MERGE_MAX_ROWS = 100_000;
+const BOUNDARY_MAX_MEASUREMENTS = 200_000;
+
+export type CoverageGroupBy = 'gateway' | 'none';
+// best: each uplink counts once, for the gateway that heard it best.
+// any: every reception counts for its own gateway, with that gateway's RSSI/SNR.
+export type CoverageGatewayMode = 'best' | 'any';
+
+type CoverageQueryParams = {
+  deviceId?: string;
+  sessionId?: string;
+  day?: Date;
+  from?: Date;
+  to?: Date;
+  bbox?: {
+    minLon: number;
+    minLat: number;
+    maxLon: number;
+    maxLat: number;
+  };
+  gatewayId?: string;
+  gatewayMode?: CoverageGatewayMode;
+  groupBy?: CoverageGroupBy;
+  level?: number;
+  limit: number;
+};
+
+export type CoverageScopeParams = {
+  deviceId?: string;
+  sessionId?: string;
+  from?: Date;
+  to?: Date;
+};
+
+type CoverageDiffParams = {
+  base: CoverageScopeParams;
+  compare: CoverageScopeParams;
+  bbox?: CoverageQueryParams['bbox'];
+  gatewayId?: string;
+  gatewayMode?: CoverageGatewayMode;
+  level?: number;
+  limit: number;
+};
+
+type CoverageBoundaryParams = CoverageScopeParams & {
+  gatewayId?: string;
+  gatewayMode?: CoverageGatewayMode;
+  mode: CoverageBoundaryMode;
+  metric: CoverageBoundaryMetric;
+  thresholds: number[];
+  sectors: number;
+};
+
+type CoverageTileParams = {
+  tile: TileCoordinates;
+  deviceId?: string;
+  sessionId?: string;
+  gatewayId?: string;
+  gatewayMode?: CoverageGatewayMode;
+  from?: Date;
+  to?: Date;
+};
+
+@Injectable()
+export class CoverageService implements OnApplicationBootstrap, OnModuleDestroy {
+  private timer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private lastWorkerRunAt: Date | null = null;
+  private lastWorkerError: string | null = null;
+  private readonly workerId = randomUUID();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    if (!isCoverageWorkerEnabled()) {
+      return;
+    }
+    await this.prisma.$queryRaw`SELECT 1`;
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, INTERVAL_MS);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async listBins(params: CoverageQueryParams): Promise<{ items: CoverageBinRow[]; truncated: boolean }> {
+    const where = buildBinsWhere(params);
+    const { rows, truncated } = await this.readStoredBinRows(where);
+
+    // Stored rows are per day/session/gateway; callers get one row per cell (and gateway).
+    const merged = mergeCoverageBinRows(rows, {
+      byGateway: (params.groupBy ?? 'gateway') === 'gateway'
+    });
+    return {
+      items: merged.slice(0, params.limit),
+      truncated: truncated || merged.length > params.limit
+    };
+  }
+
+  async diffBins(
+    params: CoverageDiffParams
+  ): Promise<{ items: CoverageDiffRow[]; truncated: boolean }> {
+    const shared = {
+      bbox: params.bbox,
+      gatewayId: params.gatewayId,
+      gatewayMode: params.gatewayMode,
+      level: params.level,
+      groupBy: 'none' as const,
+      limit: MERGE_MAX_ROWS
+    };
+    const [base, compare] = await Promise.all([
+      this.listBins({ ...params.base, ...shared }),
+      this.listBins({ ...params.compare, ...shared })
+    ]);
+
+    const items = diffCoverageBinRows(base.items, compare.items);
+    return {
+      items: items.slice(0, params.limit),
+      truncated: base.truncated || compare.truncated || items.length > params.limit
+    };
+  }
+
+  /** Newest bin write in scope; the prediction worker uses it to spot stale grids. */
+  async getLatestBinUpdate(params: CoverageScopeParams & {
+    gatewayId?: string;
+    gatewayMode?: CoverageGatewayMode;
+    level: number;
+  }): Promise<Date | null> {
+    const result = await this.prisma.coverageBin.aggregate({
+      where: buildBinsWhere(params),
+      _max: { updatedAt: true }
+    });
+    return result._max.updatedAt ?? null;
+  }
+
+  async getBoundaries(params: CoverageBoundaryParams): Promise<CoverageBoundaryCollection> {
+    const where: Prisma.MeasurementWhereInput = {
+      device: buildNonHomeDeviceWhere(),
+      [params.metric]: { not: null }
+    };
+    if (params.deviceId) {
+      where.deviceId = params.deviceId;
+      // Same session-only rule as device-scope bins.
+      where.sessionId = { not: null };
+    }
+    if (params.sessionId) {
+      where.sessionId = params.sessionId;
+    }
+    if (params.from || params.to) {
+      where.capturedAt = {
+        ...(params.from ? { gte: params.from } : {}),
+        ...(params.to ? { lte: params.to } : {})
+      };
+    }
+
+    const home = params.mode === 'sector' ? await this.resolveHomeLocation(params) : null;
+    const points =
+      params.gatewayId && params.gatewayMode === 'any'
+        ? await this.listGatewayReceptionPoints(where, params.gatewayId, params.metric)
+        : await this.prisma.measurement.findMany({
+            where: params.gatewayId ? { ...where, gatewayId: params.gatewayId } : where,
+            orderBy: { capturedAt: 'asc' },
+            take: BOUNDARY_MAX_MEASUREMENTS,
+            select: { lat: true, lon: true, rssi: true, snr: true }
+          });
+
+    const features = home
+      ? buildSectorBoundaries(points, home, params.metric, params.thresholds, params.sectors)
+      : buildThresholdBoundaries(points, params.metric, params.thresholds);
+    return { type: 'FeatureCollection', features };
+  }
+
+  async listTileBins(
+    params: CoverageTileParams
+  ): Promise<{ binSizeDeg: number; level: number; bins: CoverageBinRow[]; truncated: boolean }> {
+    const { level, binSizeDeg } = resolveCoverageLevelForZoom(params.tile.z);
+    const bounds = tileToBounds(params.tile);
+    const where: Record<string, unknown> = {
+      device: buildNonHomeDeviceWhere(),
+      level,
+      perGateway: params.gatewayMode === 'any',
+      latBin: {
+        gte: Math.floor(bounds.minLat / binSizeDeg),
+        lte: Math.floor(bounds.maxLat / binSizeDeg)
+      },
+      lonBin: {
+        gte: Math.floor(bounds.minLon / binSizeDeg),
+        lte: Math.floor(bounds.maxLon / binSizeDeg)
+      }
+    };
+
+    if (params.deviceId) {
+      where.deviceId = params.deviceId;
+      where.sessionId = { not: null };
+    }
+    if (params.sessionId) {
+      where.sessionId = params.sessionId;
+    }
+    if (params.gatewayId) {
+      where.gatewayId = params.gatewayId;
+    }
+    if (params.from || params.to) {
+      where.day = buildDayRangeFilter(params.from, params.to);
+    }
+
+    const { rows, truncated } = await this.readStoredBinRows(where);
+
+    return {
+      binSizeDeg,
+      level,
+      bins: mergeCoverageBinRows(rows, { byGateway: false }),
+      truncated
+    };
+  }
+
+  async aggregateOnce(): Promise<void> {
+    await this.runOnce(true);
+  }
+
+  getWorkerStatus(): {
+    ok: boolean;
+    lastRunAt?: Date;
+    lastError?: string;
+  } {
+    if (!isCoverageWorkerEnabled()) {
+      return {
+        ok: false,
+        lastError: 'disabled'
+      };
+    }
+
+    return {
+      ok: this.lastWorkerError === null,
+      lastRunAt: this.lastWorkerRunAt ?? undefined,
+      lastError: this.lastWorkerError ?? undefined
+    };
+  }
+
+  async aggregateForDeviceDay(deviceId: string, day: Date): Promise<void> {
+    const dayStart = startOfUtcDay(day);
+    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        // Block (rather than skip) so callers see their bins once this resolves.
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${COVERAGE_WORKER_LOCK}))`;
+        const measurements = await tx.measurement.findMany({
+          where: {
+            deviceId,
+            device: buildNonHomeDeviceWhere(),
+            capturedAt: { gte: dayStart, lt: dayEnd }
+          },
+          select: { id: true }
+        });
+        await rebuildCoverageBinsForMeasurements(
+          tx,
+          measurements.map((measurement) => measurement.id)
+        );
+      },
+      { timeout: TRANSACTION_TIMEOUT_MS }
+    );
+  }
+
+  /**
+   * Stored bin rows in cell order, capped at MERGE_MAX_ROWS. When the cap is hit the last
+   * cell read may be missing some of its rows, so it is dropped rather than merged short.
+   */
+  private async readStoredBinRows(
+    where: Record<string, unknown>
+  ): Promise<{ rows: StoredCoverageBinRow[]; truncated: boolean }> {
+    const rows = await this.prisma.coverageBin.findMany({
+      where,
+      take: MERGE_MAX_ROWS + 1,
+      orderBy: [{ latBin: 'asc' }, { lonBin: 'asc' }, { gatewayId: 'asc' }, { id: 'asc' }],
+      select: {
+        latBin: true,
+        lonBin: true,
+        count: true,
+        rssiAvg: true,
+        snrAvg: true,
+        rssiCount: true,
+        snrCount: true,
+        rssiMin: true,
+        rssiMax: true,
+        snrMin: true,
+        snrMax: true,
+        framesReceived: true,
+        framesExpected: true,
+        gatewayId: true
+      }
+    });
+    if (rows.length <= MERGE_MAX_ROWS) {
+      return { rows, truncated: false };
+    }
+
+    const last = rows[MERGE_MAX_ROWS];
+    return {
+      rows: rows.filter((row) => row.latBin !== last.latBin || row.lonBin !== last.lonBin),
+      truncated: true
+    };
+  }
+
+  /**
+   * Every position the gateway heard, with its own signal rather than the best gateway's.
+   * Measurements without RxMetadata rows fall back to their summary gateway.
+   */
+  private async listGatewayReceptionPoints(
+    where: Prisma.MeasurementWhereInput,
+    gatewayId: string,
+    metric: CoverageBoundaryMetric
+  ): Promise<Array<{ lat: number; lon: number; rssi: number | null; snr: number | null }>> {
+    const [receptions, fallback] = await Promise.all([
+      this.prisma.rxMetadata.findMany({
+        where: { gatewayId, [metric]: { not: null }, measurement: where },
+        orderBy: { measurement: { capturedAt: 'asc' } },
+        take: BOUNDARY_MAX_MEASUREMENTS,
+        select: { rssi: true, snr: true, measurement: { select: { lat: true, lon: true } } }
+      }),
+      this.prisma.measurement.findMany({
+        where: { ...where, gatewayId, rxMetadataRows: { none: {} } },
+        orderBy: { capturedAt: 'asc' },
+        take: BOUNDARY_MAX_MEASUREMENTS,
+        select: { lat: true, lon: true, rssi: true, snr: true }
+      })
+    ]);
+
+    return receptions
+      .map((row) => ({ lat: row.measurement.lat, lon: row.measurement.lon, rssi: row.rssi, snr: row.snr }))
+      .concat(fallback)
+      .slice(0, BOUNDARY_MAX_MEASUREMENTS);
+  }
+
+  private async resolveHomeLocation(
+    params: CoverageScopeParams
+  ): Promise<{ lat: number; lon: number }> {
+    let deviceId = params.deviceId;
+    if (!deviceId && params.sessionId) {
+      const session = await this.prisma.session.findUnique({
+        where: { id: params.sessionId },
+        select: { deviceId: true }
+      });
+      if (!session) {
+        throw new NotFoundException('Session not found');
+      }
+      deviceId = session.deviceId;
+    }
+
+    const config = deviceId
+      ? await this.prisma.deviceAutoSessionConfig.findUnique({
+          where: { deviceId },
+          select: { homeLat: true, homeLon: true }
+        })
+      : null;
+    if (
+      !config ||
+      typeof config.homeLat !== 'number' ||
+      !Number.isFinite(config.homeLat) ||
+      typeof config.homeLon !== 'number' ||
+      !Number.isFinite(config.homeLon)
+    ) {
+      throw new BadRequestException(
+        'Sector boundaries require a home location in the device auto-session config'
+      );
+    }
+    return { lat: config.homeLat, lon: config.homeLon };
+  }
+
+  private async runOnce(force: boolean = false): Promise<void> {
+    if (this.isProcessing) {
+      if (!force) {
+        return;
+      }
+    }
+    const wasProcessing = this.isProcessing;
+    this.isProcessing = true;
+    const runStartedAt = new Date();
+    try {
+      for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch += 1) {
+        const processed = await this.processBatch();
+        if (processed < BATCH_SIZE) {
+          break;
+        }
+      }
+      this.lastWorkerError = null;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.lastWorkerError = message;
+      logError('coverage.worker.failed', {
+        workerId: this.workerId,
+        reason: message
+      });
+    } finally {
+      this.lastWorkerRunAt = runStartedAt;
+      this.isProcessing = wasProcessing;
+    }
+  }
+
+  /**
+   * Aggregates the next batch after the persisted cursor. The bin rebuild and the cursor
+   * move commit together, so a crash either keeps the whole batch or replays it. Replicas
+   * share one advisory lock; whoever does not get it skips the tick. The batch stops
+   * INGEST_SETTLE_MS before database time, so a row that commits after a later-stamped one
+   * is still ahead of the cursor when it becomes visible.
+   */
+  private async processBatch(): Promise<number> {
+    return this.prisma.$transaction(
+      async (tx) => {
+        const [lock] = await tx.$queryRaw<Array<{ locked: boolean; settledBefore: Date }>>`
+          SELECT
+            pg_try_advisory_xact_lock(hashtext(${COVERAGE_WORKER_LOCK})) AS "locked",
+            now() - ${INGEST_SETTLE_MS} * interval '1 millisecond' AS "settledBefore"
+        `;
+        if (!lock?.locked) {
+          return 0;
+        }
+
+        const cursor = await tx.workerCursor.findUnique({
+          where: { name: COVERAGE_CURSOR_NAME },
+          select: { ingestedAt: true, measurementId: true }
+        });
+        const where: Prisma.MeasurementWhereInput = {
+          device: buildNonHomeDeviceWhere(),
+          ingestedAt: { lte: lock.settledBefore }
+        };
+        if (cursor?.ingestedAt && cursor.measurementId) {
+          where.OR = [
+            { ingestedAt: { gt: cursor.ingestedAt } },
+            { ingestedAt: cursor.ingestedAt, id: { gt: cursor.measurementId } }
+          ];
+        }
+
+        const measurements = await tx.measurement.findMany({
+          where,
+          orderBy: [{ ingestedAt: 'asc' }, { id: 'asc' }],
+          take: BATCH_SIZE,
+          select: { id: true, ingestedAt: true }
+        });
+        if (measurements.length === 0) {
+          return 0;
+        }
+
+        await rebuildCoverageBinsForMeasurements(
+          tx,
+          measurements.map((measurement) => measurement.id)
+        );
+
+        const last = measurements[measurements.length - 1];
+        await tx.workerCursor.upsert({
+          where: { name: COVERAGE_CURSOR_NAME },
+          create: {
+            name: COVERAGE_CURSOR_NAME,
+            ingestedAt: last.ingestedAt,
+            measurementId: last.id
+          },
+          update: {
+            ingestedAt: last.ingestedAt,
+            measurementId: last.id
+          }
+        });
+
+        return measurements.length;
+      },
+      { timeout: TRANSACTION_TIMEOUT_MS }
+    );
+  }
+}
+
+// Each source yields one sample per (measurement, gateway) with the signal that gateway saw.
+const BEST_GATEWAY_SAMPLES = Prisma.sql`
+  SELECT m."id" AS "measurementId", m."deviceId", m."sessionId", m."gatewayId",
+    m."capturedAt", m."lat", m."lon", m."rssi", m."snr", m."fCnt"
+  FROM "Measurement" m
+`;
+
+// Measurements without RxMetadata rows (Meshtastic, imports) count for their own gateway.
+const PER_GATEWAY_SAMPLES = Prisma.sql`
+  SELECT m."id" AS "measurementId", m."deviceId", m."sessionId", r."gatewayId",
+    m."capturedAt", m."lat", m."lon", r."rssi", r."snr", m."fCnt"
+  FROM "RxMetadata" r
+  JOIN "Measurement" m ON m."id" = r."measurementId"
+  UNION ALL
+  SELECT m."id" AS "measurementId", m."deviceId", m."sessionId", m."gatewayId",
+    m."capturedAt", m."lat", m."lon", m."rssi", m."snr", m."fCnt"
+  FROM "Measurement" m
+  WHERE NOT EXISTS (SELECT 1 FROM "RxMetadata" r WHERE r."measurementId" = m."id")
+`;
+
+async function rebuildCoverageBinsForMeasurements(
+  tx: Prisma.TransactionClient,
+  measurementIds: string[]
+): Promise<void> {
+  await rebuildCoverageBins(tx, measurementIds, false, BEST_GATEWAY_SAMPLES);
+  await rebuildCoverageBins(tx, measurementIds, true, PER_GATEWAY_SAMPLES);
+}
+
+/**
+ * Recomputes every bin (all levels) touched by the given measurements in one statement:
+ * affected keys are derived from the batch, re-aggregated from the samples, then existing
+ * rows are updated and missing ones inserted. ON CONFLICT is not usable here because the
+ * unique index treats NULL session/gateway ids as distinct.
+ *
+ * Frame counters are sequenced per device, session and UTC day (and per gateway for
+ * per-gateway bins, so each gateway gets its own delivery ratio). Frames missed before a
+ * received frame count against that frame's bin, following frameCounterGap().
+ */
+async function rebuildCoverageBins(
+  tx: Prisma.TransactionClient,
+  measurementIds: string[],
+  perGateway: boolean,
+  samples: Prisma.Sql
+): Promise<void> {
+  if (measurementIds.length === 0) {
+    return;
+  }
+
+  const levels = Prisma.join(
+    COVERAGE_LEVELS.map(
+      ({ level, binSizeDeg }) => Prisma.sql`(${level}::int, ${binSizeDeg}::double precision)`
+    )
+  );
+
+  const streamGateway = perGateway ? Prisma.sql`s."gatewayId",` : Prisma.empty;
+  const streamGatewayMatch = perGateway
+    ? Prisma.sql`AND st."gatewayId" IS NOT DISTINCT FROM s."gatewayId"`
+    : Prisma.empty;
+
+  // NOT MATERIALIZED lets the planner push the batch and cell filters into the sample scan.
+  await tx.$executeRaw(Prisma.sql`
+    WITH levels ("level", "binSizeDeg") AS (
+      VALUES ${levels}
+    ),
+    samples AS NOT MATERIALIZED (
+      ${samples}
+    ),
+    touched AS (
+      SELECT DISTINCT
+        s."deviceId",
+        s."sessionId",
+        s."gatewayId",
+        date_trunc('day', s."capturedAt") AS "day",
+        l."level",
+        l."binSizeDeg",
+        floor(s."lat" / l."binSizeDeg")::int AS "latBin",
+        floor(s."lon" / l."binSizeDeg")::int AS "lonBin"
+      FROM samples s
+      CROSS JOIN levels l
+      WHERE s."measurementId" = ANY(ARRAY[${Prisma.join(measurementIds)}]::uuid[])
+    ),
+    streams AS (
+      SELECT DISTINCT s."deviceId", s."sessionId", ${streamGateway} s."day"
+      FROM touched s
+    ),
+    -- Partitioning on "fCnt" IS NULL makes lag() skip frames without a counter.
+    sequenced AS (
+      SELECT
+        s.*,
+        lag(s."fCnt") OVER (
+          PARTITION BY s."deviceId", s."sessionId", ${streamGateway}
+            date_trunc('day', s."capturedAt"), (s."fCnt" IS NULL)
+          ORDER BY s."capturedAt", s."fCnt"
+        ) AS "prevFCnt"
+      FROM samples s
+      WHERE EXISTS (
+        SELECT 1
+        FROM streams st
+        WHERE st."deviceId" = s."deviceId"
+          AND st."sessionId" IS NOT DISTINCT FROM s."sessionId"
+          ${streamGatewayMatch}
+          AND s."capturedAt" >= st."day"
+          AND s."capturedAt" < st."day" + interval '1 day'
+      )
+    ),
+    framed AS (
+      SELECT
+        s.*,
+        CASE WHEN s."fCnt" IS NULL OR s."fCnt" = s."prevFCnt" THEN 0 ELSE 1 END AS "received",
+        CASE
+          WHEN s."fCnt" IS NULL OR s."prevFCnt" IS NULL OR s."fCnt" <= s."prevFCnt" THEN 0
+          WHEN s."fCnt" - s."prevFCnt" - 1 >= ${MAX_FCNT_GAP} THEN 0
+          ELSE s."fCnt" - s."prevFCnt" - 1
+        END AS "missed"
+      FROM sequenced s
+    ),
+    aggregated AS (
+      SELECT
+        t."deviceId",
+        t."sessionId",
+        t."gatewayId",
+        t."day",
+        t."level",
+        t."latBin",
+        t."lonBin",
+        count(*)::int AS "count",
+        avg(s."rssi")::double precision AS "rssiAvg",
+        avg(s."snr")::double precision AS "snrAvg",
+        count(s."rssi")::int AS "rssiCount",
+        count(s."snr")::int AS "snrCount",
+        min(s."rssi") AS "rssiMin",
+        max(s."rssi") AS "rssiMax",
+        min(s."snr") AS "snrMin",
+        max(s."snr") AS "snrMax",
+        sum(s."received")::int AS "framesReceived",
+        sum(s."received" + s."missed")::int AS "framesExpected"
+      FROM touched t
+      JOIN framed s
+        ON s."deviceId" = t."deviceId"
+        AND s."sessionId" IS NOT DISTINCT FROM t."sessionId"
+        AND s."gatewayId" IS NOT DISTINCT FROM t."gatewayId"
+        AND s."capturedAt" >= t."day"
+        AND s."capturedAt" < t."day" + interval '1 day'
+        AND floor(s."lat" / t."binSizeDeg")::int = t."latBin"
+        AND floor(s."lon" / t."binSizeDeg")::int = t."lonBin"
+      GROUP BY
+        t."deviceId",
+        t."sessionId",
+        t."gatewayId",
+        t."day",
+        t."level",
+        t."latBin",
+        t."lonBin"
+    ),
+    updated AS (
+      UPDATE "CoverageBin" b
+      SET
+        "count" = a."count",
+        "rssiAvg" = a."rssiAvg",
+        "snrAvg" = a."snrAvg",
+        "rssiCount" = a."rssiCount",
+        "snrCount" = a."snrCount",
+        "rssiMin" = a."rssiMin",
+        "rssiMax" = a."rssiMax",
+        "snrMin" = a."snrMin",
+        "snrMax" = a."snrMax",
+        "framesReceived" = a."framesReceived",
+        "framesExpected" = a."framesExpected",
+        "updatedAt" = now()
+      FROM aggregated a
+      WHERE b."deviceId" = a."deviceId"
+        AND b."sessionId" IS NOT DISTINCT FROM a."sessionId"
+        AND b."gatewayId" IS NOT DISTINCT FROM a."gatewayId"
+        AND b."perGateway" = ${perGateway}
+        AND b."day" = a."day"
+        AND b."level" = a."level"
+        AND b."latBin" = a."latBin"
+        AND b."lonBin" = a."lonBin"
+      RETURNING b."deviceId", b."sessionId", b."gatewayId", b."day", b."level", b."latBin", b."lonBin"
+    )
+    INSERT INTO "CoverageBin" (
+      "id",
+      "deviceId",
+      "sessionId",
+      "gatewayId",
+      "perGateway",
+      "day",
+      "level",
+      "latBin",
+      "lonBin",
+      "count",
+      "rssiAvg",
+      "snrAvg",
+      "rssiCount",
+      "snrCount",
+      "rssiMin",
+      "rssiMax",
+      "snrMin",
+      "snrMax",
+      "framesReceived",
+      "framesExpected",
+      "updatedAt"
+    )
+    SELECT
+      gen_random_uuid(),
+      a."deviceId",
+      a."sessionId",
+      a."gatewayId",
+      ${perGateway},
+      a."day",
+      a."level",
+      a."latBin",
+      a."lonBin",
+      a."count",
+      a."rssiAvg",
+      a."snrAvg",
+      a."rssiCount",
+      a."snrCount",
+      a."rssiMin",
+      a."rssiMax",
+      a."snrMin",
+      a."snrMax",
+      a."framesReceived",
+      a."framesExpected",
+      now()
+    FROM aggregated a
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM updated u
+      WHERE u."deviceId" = a."deviceId"
+        AND u."sessionId" IS NOT DISTINCT FROM a."sessionId"
+        AND u."gatewayId" IS NOT DISTINCT FROM a."gatewayId"
+        AND u."day" = a."day"
+        AND u."level" = a."level"
+        AND u."latBin" = a."latBin"
+        AND u."lonBin" = a."lonBin"
+    )
+  `);
+}
+
+function buildBinsWhere(
+  params: Omit<CoverageQueryParams, 'groupBy' | 'limit'>
+): Record<string, unknown> {
+  const where: Record<string, unknown> = {};
+  where.device = buildNonHomeDeviceWhere();
+  const level = params.level ?? 0;
+  const binSizeDeg = getCoverageLevel(level)?.binSizeDeg ?? BIN_SIZE_DEG;
+  where.level = level;
+  where.perGateway = params.gatewayMode === 'any';
+
+  if (params.day) {
+    where.day = params.day;
+  } else if (params.from || params.to) {
+    where.day = buildDayRangeFilter(params.from, params.to);
+  }
+
+  if (params.deviceId) {
+    where.deviceId = params.deviceId;
+    // Device-scope coverage should only include measurements attached to sessions.
+    where.sessionId = { not: null };
+  }
+  if (params.sessionId) {
+    where.sessionId = params.sessionId;
+  }
+  if (params.gatewayId) {
+    where.gatewayId = params.gatewayId;
+  }
+
+  if (params.bbox) {
+    const latBinMin = Math.floor(params.bbox.minLat / binSizeDeg);
+    const latBinMax = Math.floor(params.bbox.maxLat / binSizeDeg);
+    const lonBinMin = Math.floor(params.bbox.minLon / binSizeDeg);
+    const lonBinMax = Math.floor(params.bbox.maxLon / binSizeDeg);
+    where.latBin = { gte: latBinMin, lte: latBinMax };
+    where.lonBin = { gte: lonBinMin, lte: lonBinMax };
+  }
+
+  return where;
+}
+
+// Bins are keyed by UTC day, so any bin whose day overlaps [from, to] is included.
+function buildDayRangeFilter(from?: Date, to?: Date): { gte?: Date; lte?: Date } {
+  const day: { gte?: Date; lte?: Date } = {};
+  if (from) {
+    day.gte = startOfUtcDay(from);
+  }
+  if (to) {
+    day.lte = startOfUtcDay(to);
+  }
+  return day;
+}
+
+function startOfUtcDay(value: Date): Date {
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+}
+
+export function isCoverageWorkerEnabled(): boolean {
+  const flag = process.env.COVERAGE_WORKER_ENABLED;
+  if (flag === undefined || flag === '') {
+    return true;
+  }
+  return flag.toLowerCase() === 'true';
+}
@@ -2,7 +2,8 @@ import { BadRequestException, Injectable } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { Prisma, WebhookEventSource } from '@prisma/client';
 import { buildNonHomeDeviceWhere } from '../../common/device-role';
-import { BIN_SIZE_DEG } from '../coverage/coverage.constants';
+import { COVERAGE_LEVELS } from '../coverage/coverage.constants';
+import { countFramesPerStream } from '../measurements/frame-counter';
 
 export type EventsSource = 'meshtastic' | 'lorawan' | 'agent' | 'sim';
 
@@ -30,6 +31,7 @@ export type EventListItem = {
   deviceUid: string | null;
   portnum: string | null;
   packetId: string | null;
+  eventType: string | null;
   rxRssi: number | null;
   rxSnr: number | null;
   hopLimit: number | null;
@@ -54,6 +56,7 @@ export type EventDetail = {
   packetId: string | null;
   eventType: string | null;
   error: string | null;
+  decodeError: string | null;
   payloadJson: Prisma.JsonValue;
 };
 
@@ -136,6 +139,7 @@ export class EventsService {
           deviceUid: true,
           portnum: true,
           packetId: true,
+          eventType: true,
           payloadJson: true
         }
       }),
@@ -227,6 +231,7 @@ export class EventsService {
         deviceUid: string | null;
         portnum: string | null;
         packetId: string | null;
+        eventType: string | null;
         payloadJson: Prisma.JsonValue;
       }>
     >(Prisma.sql`
@@ -237,6 +242,7 @@ export class EventsService {
         "deviceUid",
         "portnum",
         "uplinkId" AS "packetId",
+        "eventType",
         "payload" AS "payloadJson"
       FROM "WebhookEvent"
       ${whereSql}
@@ -284,6 +290,7 @@ export class EventsService {
         packetId: true,
         eventType: true,
         error: true,
+        decodeError: true,
         payloadJson: true
       }
     });
@@ -302,6 +309,7 @@ export class EventsService {
       packetId: row.packetId,
       eventType: row.eventType,
       error: row.error,
+      decodeError: row.decodeError,
       payloadJson: row.payloadJson
     };
   }
@@ -746,10 +754,13 @@ export class EventsService {
         select: {
           sessionId: true,
           gatewayId: true,
+          capturedAt: true,
+          fCnt: true,
           lat: true,
           lon: true,
           rssi: true,
-          snr: true
+          snr: true,
+          rxMetadataRows: { select: { gatewayId: true, rssi: true, snr: true } }
         }
       });
 
@@ -762,6 +773,8 @@ export class EventsService {
         {
           sessionId: string | null;
           gatewayId: string | null;
+          perGateway: boolean;
+          level: number;
           latBin: number;
           lonBin: number;
           count: number;
@@ -773,65 +786,92 @@ export class EventsService {
           snrCount: number;
           snrMin: number | null;
           snrMax: number | null;
+          framesReceived: number;
+          framesExpected: number;
         }
       >();
 
-      for (const measurement of measurements) {
-        const latBin = Math.floor(measurement.lat / BIN_SIZE_DEG);
-        const lonBin = Math.floor(measurement.lon / BIN_SIZE_DEG);
-        const key = [
-          measurement.sessionId ?? 'null',
-          measurement.gatewayId ?? 'null',
-          latBin,
-          lonBin
-        ].join('|');
-        const existing = aggregates.get(key);
-        const aggregate =
-          existing ??
-          {
-            sessionId: measurement.sessionId,
-            gatewayId: measurement.gatewayId,
-            latBin,
-            lonBin,
-            count: 0,
-            rssiSum: 0,
-            rssiCount: 0,
-            rssiMin: null,
-            rssiMax: null,
-            snrSum: 0,
-            snrCount: 0,
-            snrMin: null,
-            snrMax: null
-          };
+      // Same two bin sets as the coverage worker: best gateway, and one per reception.
+      const samples = measurements.flatMap(({ fCnt, ...row }) => {
+        // Counters are 32-bit, so they fit a number exactly.
+        const measurement = { ...row, fCnt: fCnt === null ? null : Number(fCnt) };
+        const best = { ...measurement, perGateway: false };
+        const receptions =
+          measurement.rxMetadataRows.length > 0
+            ? measurement.rxMetadataRows.map((row) => ({ ...measurement, ...row, perGateway: true }))
+            : [{ ...measurement, perGateway: true }];
+        return [best, ...receptions];
+      });
+      const frames = countFramesPerStream(samples, (sample) =>
+        [sample.sessionId ?? 'null', sample.perGateway ? sample.gatewayId ?? 'null' : '', sample.perGateway].join('|')
+      );
 
-        aggregate.count += 1;
-        if (typeof measurement.rssi === 'number' && Number.isFinite(measurement.rssi)) {
-          aggregate.rssiSum += measurement.rssi;
-          aggregate.rssiCount += 1;
-          aggregate.rssiMin =
-            aggregate.rssiMin === null
-              ? measurement.rssi
-              : Math.min(aggregate.rssiMin, measurement.rssi);
-          aggregate.rssiMax =
-            aggregate.rssiMax === null
-              ? measurement.rssi
-              : Math.max(aggregate.rssiMax, measurement.rssi);
-        }
-        if (typeof measurement.snr === 'number' && Number.isFinite(measurement.snr)) {
-          aggregate.snrSum += measurement.snr;
-          aggregate.snrCount += 1;
-          aggregate.snrMin =
-            aggregate.snrMin === null
-              ? measurement.snr
-              : Math.min(aggregate.snrMin, measurement.snr);
-          aggregate.snrMax =
-            aggregate.snrMax === null
-              ? measurement.snr
-              : Math.max(aggregate.snrMax, measurement.snr);
-        }
+      for (const [index, measurement] of samples.entries()) {
+        for (const { level, binSizeDeg } of COVERAGE_LEVELS) {
+          const latBin = Math.floor(measurement.lat / binSizeDeg);
+          const lonBin = Math.floor(measurement.lon / binSizeDeg);
+          const key = [
+            measurement.sessionId ?? 'null',
+            measurement.gatewayId ?? 'null',
+            measurement.perGateway,
+            level,
+            latBin,
+            lonBin
+          ].join('|');
+          const existing = aggregates.get(key);
+          const aggregate =
+            existing ??
+            {
+              sessionId: measurement.sessionId,
+              gatewayId: measurement.gatewayId,
+              perGateway: measurement.perGateway,
+              level,
+              latBin,
+              lonBin,
+              count: 0,
+              rssiSum: 0,
+              rssiCount: 0,
+              rssiMin: null,
+              rssiMax: null,
+              snrSum: 0,
+              snrCount: 0,
+              snrMin: null,
+              snrMax: null,
+              framesReceived: 0,
+              framesExpected: 0
+            };
+
+          aggregate.count += 1;
+          aggregate.framesReceived += frames[index].received;
+          aggregate.framesExpected += frames[index].received + frames[index].missed;
+          if (typeof measurement.rssi === 'number' && Number.isFinite(measurement.rssi)) {
+            aggregate.rssiSum += measurement.rssi;
+            aggregate.rssiCount += 1;
+            aggregate.rssiMin =
+              aggregate.rssiMin === null
+                ? measurement.rssi
+                : Math.min(aggregate.rssiMin, measurement.rssi);
+            aggregate.rssiMax =
+              aggregate.rssiMax === null
+                ? measurement.rssi
+                : Math.max(aggregate.rssiMax, measurement.rssi);
+          }
+          if (typeof measurement.snr === 'number' && Number.isFinite(measurement.snr)) {
+            aggregate.snrSum += measurement.snr;
+            aggregate.snrCount += 1;
+            aggregate.snrMin =
+              aggregate.snrMin === null
+                ? measurement.snr
+                : Math.min(aggregate.snrMin, measurement.snr);
+            aggregate.snrMax =
+              aggregate.snrMax === null
+                ? measurement.snr
+                : Math.max(aggregate.snrMax, measurement.snr);
+          }
 
-        if (!existing) {
-          aggregates.set(key, aggregate);
+          if (!existing) {
+            aggregates.set(key, aggregate);
+          }
         }
       }
 
@@ -839,7 +879,9 @@ export class EventsService {
         deviceId: params.deviceId,
         sessionId: aggregate.sessionId,
         gatewayId: aggregate.gatewayId,
+        perGateway: aggregate.perGateway,
         day: dayStart,
+        level: aggregate.level,
         latBin: aggregate.latBin,
         lonBin: aggregate.lonBin,
         count: aggregate.count,
@@ -847,10 +889,14 @@ export class EventsService {
           aggregate.rssiCount > 0 ? aggregate.rssiSum / aggregate.rssiCount : null,
         snrAvg:
           aggregate.snrCount > 0 ? aggregate.snrSum / aggregate.snrCount : null,
+        rssiCount: aggregate.rssiCount,
+        snrCount: aggregate.snrCount,
         rssiMin: aggregate.rssiMin,
         rssiMax: aggregate.rssiMax,
         snrMin: aggregate.snrMin,
-        snrMax: aggregate.snrMax
+        snrMax: aggregate.snrMax,
+        framesReceived: aggregate.framesReceived,
+        framesExpected: aggregate.framesExpected
       }));
 
       await tx.coverageBin.createMany({
@@ -1044,6 +1090,7 @@ function formatListItem(row: {
   deviceUid: string | null;
   portnum: string | null;
   packetId: string | null;
+  eventType: string | null;
   payloadJson: Prisma.JsonValue;
 }, sessionId: string | null = null): EventListItem {
   const payload = toRecord(row.payloadJson);
@@ -1064,6 +1111,7 @@ function formatListItem(row: {
     deviceUid: row.deviceUid,
     portnum,
     packetId,
+    eventType: row.eventType,
     rxRssi: extractNumberFromCandidates(candidates, ['rxRssi', 'rx_rssi', 'rssi']),
     rxSnr: extractNumberFromCandidates(candidates, ['rxSnr', 'rx_snr', 'snr']),
     hopLimit: extractIntegerFromCandidates(candidates, ['hopLimit', 'hop_limit']),
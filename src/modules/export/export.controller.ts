@@ -1,41 +1,92 @@
-import { BadRequestException, Controller, Get, Param, Res, UseGuards } from '@nestjs/common';
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Query,
+  Res,
+  UseGuards
+} from '@nestjs/common';
 import { ApiKeyScope } from '@prisma/client';
 import { RequireApiKeyScope } from '../../common/decorators/api-key-scopes.decorator';
 import { buildNonHomeDeviceWhere } from '../../common/device-role';
 import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { logError } from '../../common/logging/structured-logger';
 import { PrismaService } from '../../prisma/prisma.service';
+import {
+  buildThresholdBoundaries,
+  CoverageBoundaryFeature,
+  DEFAULT_BOUNDARY_THRESHOLDS
+} from '../coverage/coverage-boundary';
+import { createGpxEncoder } from './gpx';
+import { ExportService, MeasurementExportFilter } from './export.service';
+import { KmlOutput, streamKmz, streamSessionKml } from './kml';
+import {
+  createMeasurementExportEncoder,
+  MeasurementExportEncoder,
+  MeasurementExportFormat
+} from './measurement-export';
+import { createTtnMapperEncoder, TtnMapperExportFormat } from './ttnmapper';
 
 const MAX_POINTS = 10000;
+const MAX_EXPERIMENT_LENGTH = 100;
+
+type GeoJsonPointFeature = {
+  type: 'Feature';
+  geometry: { type: 'Point'; coordinates: [number, number] };
+  properties: {
+    capturedAt: string;
+    rssi: number | null;
+    snr: number | null;
+    gatewayId: string | null;
+    sf: number | null;
+    bw: number | null;
+    freq: number | null;
+    deviceUid: string;
+  };
+};
+
+type MeasurementExportQuery = {
+  sessionId?: string | string[];
+  deviceId?: string | string[];
+  from?: string | string[];
+  to?: string | string[];
+  bbox?: string | string[];
+};
+
+type SessionGeoJsonExportQuery = {
+  boundaries?: string | string[];
+};
+
+type TtnMapperExportQuery = {
+  experiment?: string | string[];
+};
 
 type GeoJsonFeatureCollection = {
   type: 'FeatureCollection';
-  features: Array<{
-    type: 'Feature';
-    geometry: { type: 'Point'; coordinates: [number, number] };
-    properties: {
-      capturedAt: string;
-      rssi: number | null;
-      snr: number | null;
-      gatewayId: string | null;
-      sf: number | null;
-      bw: number | null;
-      freq: number | null;
-      deviceUid: string;
-    };
-  }>;
+  features: Array<GeoJsonPointFeature | CoverageBoundaryFeature>;
 };
 
 @Controller('api/export')
 @UseGuards(ApiKeyGuard)
 @RequireApiKeyScope(ApiKeyScope.QUERY)
 export class ExportController {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly exportService: ExportService
+  ) {}
 
   @Get('session/:sessionId.geojson')
   async exportSession(
     @Param('sessionId') sessionId: string,
+    @Query() query: SessionGeoJsonExportQuery,
     @Res() res: any
   ): Promise<void> {
+    const includeBoundaries = parseBoolean(
+      getSingleValue(query.boundaries, 'boundaries'),
+      'boundaries'
+    );
     const measurementWhere = {
       sessionId,
       device: buildNonHomeDeviceWhere()
@@ -63,7 +114,7 @@ export class ExportController {
       }
     });
 
-    const features: GeoJsonFeatureCollection['features'] = measurements.map((row) => ({
+    const pointFeatures: GeoJsonPointFeature[] = measurements.map((row) => ({
       type: 'Feature',
       geometry: { type: 'Point', coordinates: [row.lon, row.lat] },
       properties: {
@@ -78,12 +129,342 @@ export class ExportController {
       }
     }));
 
+    // Opt-in, so consumers that expect one Point feature per measurement keep working.
+    const boundaryFeatures = includeBoundaries
+      ? buildThresholdBoundaries(measurements, 'rssi', DEFAULT_BOUNDARY_THRESHOLDS.rssi)
+      : [];
+
     const payload: GeoJsonFeatureCollection = {
       type: 'FeatureCollection',
-      features
+      features: [...pointFeatures, ...boundaryFeatures]
     };
 
     res.setHeader('Content-Type', 'application/geo+json');
     res.status(200).json(payload);
   }
+
+  @Get('session/:sessionId.gpx')
+  async exportSessionGpx(
+    @Param('sessionId') sessionId: string,
+    @Res() res: any
+  ): Promise<void> {
+    const session = await this.findSession(sessionId);
+    const filter: MeasurementExportFilter = { sessionId };
+    const encoder = createGpxEncoder({
+      name: sessionExportName(session),
+      description: session.notes,
+      time: await this.exportService.findFirstCapturedAt(filter)
+    });
+
+    await this.streamExport(filter, encoder, `session-${session.id}.gpx`, res);
+  }
+
+  @Get('session/:sessionId.kml')
+  async exportSessionKml(
+    @Param('sessionId') sessionId: string,
+    @Res() res: any
+  ): Promise<void> {
+    const session = await this.findSession(sessionId);
+
+    await this.streamBody(
+      this.sessionKml(session, 'kml'),
+      'application/vnd.google-earth.kml+xml; charset=utf-8',
+      `session-${session.id}.kml`,
+      res
+    );
+  }
+
+  @Get('session/:sessionId.kmz')
+  async exportSessionKmz(
+    @Param('sessionId') sessionId: string,
+    @Res() res: any
+  ): Promise<void> {
+    const session = await this.findSession(sessionId);
+
+    await this.streamBody(
+      streamKmz(this.sessionKml(session, 'kmz'), 'rssiAvg'),
+      'application/vnd.google-earth.kmz',
+      `session-${session.id}.kmz`,
+      res
+    );
+  }
+
+  @Get('session/:sessionId.ttnmapper.csv')
+  async exportSessionTtnMapperCsv(
+    @Param('sessionId') sessionId: string,
+    @Query() query: TtnMapperExportQuery,
+    @Res() res: any
+  ): Promise<void> {
+    await this.streamTtnMapper('csv', sessionId, query, res);
+  }
+
+  @Get('session/:sessionId.ttnmapper.json')
+  async exportSessionTtnMapperJson(
+    @Param('sessionId') sessionId: string,
+    @Query() query: TtnMapperExportQuery,
+    @Res() res: any
+  ): Promise<void> {
+    await this.streamTtnMapper('json', sessionId, query, res);
+  }
+
+  @Get('measurements.csv')
+  async exportMeasurementsCsv(
+    @Query() query: MeasurementExportQuery,
+    @Res() res: any
+  ): Promise<void> {
+    await this.streamMeasurements('csv', query, res);
+  }
+
+  @Get('measurements.ndjson')
+  async exportMeasurementsNdjson(
+    @Query() query: MeasurementExportQuery,
+    @Res() res: any
+  ): Promise<void> {
+    await this.streamMeasurements('ndjson', query, res);
+  }
+
+  @Get('measurements.geojson')
+  async exportMeasurementsGeoJson(
+    @Query() query: MeasurementExportQuery,
+    @Res() res: any
+  ): Promise<void> {
+    await this.streamMeasurements('geojson', query, res);
+  }
+
+  private async streamMeasurements(
+    format: MeasurementExportFormat,
+    query: MeasurementExportQuery,
+    res: any
+  ): Promise<void> {
+    const filter = parseMeasurementExportQuery(query);
+    await this.exportService.assertScopeExists(filter);
+    await this.streamExport(
+      filter,
+      createMeasurementExportEncoder(format),
+      `${measurementExportFileName(filter)}.${format}`,
+      res
+    );
+  }
+
+  /**
+   * TTN Mapper only maps LoRaWAN gateways, so other sources in the session are left out.
+   * The file is for manual upload; nothing is sent to TTN Mapper from here.
+   */
+  private async streamTtnMapper(
+    format: TtnMapperExportFormat,
+    sessionId: string,
+    query: TtnMapperExportQuery,
+    res: any
+  ): Promise<void> {
+    const experiment = parseExperiment(getSingleValue(query.experiment, 'experiment'));
+    const filter: MeasurementExportFilter = { sessionId, source: 'lorawan' };
+    await this.exportService.assertScopeExists(filter);
+    await this.streamExport(
+      filter,
+      createTtnMapperEncoder(format, { experiment }),
+      `ttnmapper-session-${sessionId}.${format}`,
+      res
+    );
+  }
+
+  private async streamExport(
+    filter: MeasurementExportFilter,
+    encoder: MeasurementExportEncoder,
+    fileName: string,
+    res: any
+  ): Promise<void> {
+    const exportService = this.exportService;
+    async function* body() {
+      let written = 0;
+      yield encoder.start;
+      for await (const batch of exportService.iterateMeasurements(filter)) {
+        yield batch.map((row) => encoder.encode(row, written++)).join('');
+      }
+      yield encoder.end;
+    }
+    await this.streamBody(body(), encoder.contentType, fileName, res);
+  }
+
+  private sessionKml(session: { id: string; name: string | null; notes: string | null }, output: KmlOutput) {
+    const filter: MeasurementExportFilter = { sessionId: session.id };
+    return streamSessionKml({
+      name: sessionExportName(session),
+      description: session.notes,
+      readPoints: () => this.exportService.iterateMeasurements(filter),
+      output
+    });
+  }
+
+  /**
+   * Writes the body as it is produced instead of buffering the export, so there is no
+   * point cap. Validation errors surface before the headers; a failure mid-stream can
+   * only abort the response, which clients see as a truncated download.
+   */
+  private async streamBody(
+    body: AsyncIterable<string | Buffer>,
+    contentType: string,
+    fileName: string,
+    res: any
+  ): Promise<void> {
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.status(200);
+
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+    });
+
+    try {
+      for await (const chunk of body) {
+        if (closed) {
+          break;
+        }
+        await writeChunk(res, chunk);
+      }
+      if (!closed) {
+        res.end();
+      }
+    } catch (error) {
+      logError('export.stream.failed', {
+        fileName,
+        reason: error instanceof Error ? error.message : String(error)
+      });
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  }
+
+  private async findSession(sessionId: string) {
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { id: true, name: true, notes: true }
+    });
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+    return session;
+  }
+}
+
+function sessionExportName(session: { id: string; name: string | null }): string {
+  return session.name?.trim() || `Session ${session.id}`;
+}
+
+function measurementExportFileName(filter: MeasurementExportFilter): string {
+  if (filter.sessionId) {
+    return `measurements-session-${filter.sessionId}`;
+  }
+  if (filter.deviceId) {
+    return `measurements-device-${filter.deviceId}`;
+  }
+  return 'measurements';
+}
+
+function writeChunk(res: any, chunk: string | Buffer): Promise<void> {
+  if (chunk.length === 0 || res.write(chunk)) {
+    return Promise.resolve();
+  }
+  // Wait for the socket to drain, or give up if the client went away meanwhile.
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.once('drain', done);
+    res.once('close', done);
+  });
+}
+
+function parseMeasurementExportQuery(query: MeasurementExportQuery): MeasurementExportFilter {
+  const sessionId = getSingleValue(query.sessionId, 'sessionId');
+  const deviceId = getSingleValue(query.deviceId, 'deviceId');
+  const bboxValue = getSingleValue(query.bbox, 'bbox');
+  if (!sessionId && !deviceId && !bboxValue) {
+    throw new BadRequestException('sessionId, deviceId or bbox is required');
+  }
+
+  const from = parseOptionalDate(getSingleValue(query.from, 'from'), 'from');
+  const to = parseOptionalDate(getSingleValue(query.to, 'to'), 'to');
+  if (from && to && from.getTime() > to.getTime()) {
+    throw new BadRequestException('from must be before to');
+  }
+
+  return {
+    sessionId: sessionId ?? undefined,
+    deviceId: deviceId ?? undefined,
+    from,
+    to,
+    bbox: bboxValue ? parseBbox(bboxValue) : undefined
+  };
+}
+
+function getSingleValue(value: string | string[] | undefined, name: string): string | undefined {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return undefined;
+    }
+    if (value.length > 1) {
+      throw new BadRequestException(`Multiple values provided for ${name}`);
+    }
+    return value[0];
+  }
+  return value;
+}
+
+function parseBoolean(value: string | undefined, name: string): boolean {
+  if (!value) {
+    return false;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'true' || normalized === '1') {
+    return true;
+  }
+  if (normalized === 'false' || normalized === '0') {
+    return false;
+  }
+
+  throw new BadRequestException(`${name} must be true or false`);
+}
+
+function parseExperiment(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (trimmed.length > MAX_EXPERIMENT_LENGTH) {
+    throw new BadRequestException(`experiment must be at most ${MAX_EXPERIMENT_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+function parseOptionalDate(value: string | undefined, name: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new BadRequestException(`${name} must be a valid date`);
+  }
+  return parsed;
+}
+
+function parseBbox(value: string): { minLon: number; minLat: number; maxLon: number; maxLat: number } {
+  const parts = value.split(',').map((part) => part.trim());
+  if (parts.length !== 4) {
+    throw new BadRequestException('bbox must be minLon,minLat,maxLon,maxLat');
+  }
+
+  const numbers = parts.map((part) => (part === '' ? Number.NaN : Number(part)));
+  if (numbers.some((part) => !Number.isFinite(part))) {
+    throw new BadRequestException('bbox must contain valid numbers');
+  }
+
+  const [minLon, minLat, maxLon, maxLat] = numbers;
+  if (minLon > maxLon || minLat > maxLat) {
+    throw new BadRequestException('bbox min values must be <= max values');
+  }
+
+  return { minLon, minLat, maxLon, maxLat };
 }
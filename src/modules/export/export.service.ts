@@ -0,0 +1,175 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { buildNonHomeDeviceWhere } from '../../common/device-role';
+import { PrismaService } from '../../prisma/prisma.service';
+import { MeasurementExportRow } from './measurement-export';
+
+export const EXPORT_BATCH_SIZE = 1000;
+
+export type MeasurementExportFilter = {
+  sessionId?: string;
+  deviceId?: string;
+  from?: Date;
+  to?: Date;
+  // Measurement.source, e.g. 'lorawan'.
+  source?: string;
+  bbox?: {
+    minLon: number;
+    minLat: number;
+    maxLon: number;
+    maxLat: number;
+  };
+};
+
+const MEASUREMENT_EXPORT_SELECT = {
+  id: true,
+  capturedAt: true,
+  deviceId: true,
+  sessionId: true,
+  lat: true,
+  lon: true,
+  alt: true,
+  altitude: true,
+  hdop: true,
+  satsInView: true,
+  rssi: true,
+  snr: true,
+  sf: true,
+  bw: true,
+  freq: true,
+  gatewayId: true,
+  source: true,
+  device: { select: { deviceUid: true } },
+  meshtasticRx: {
+    select: {
+      rxTime: true,
+      rxRssi: true,
+      rxSnr: true,
+      hopLimit: true,
+      hopStart: true,
+      relayNode: true,
+      transportMechanism: true,
+      fromId: true,
+      toId: true
+    }
+  },
+  rxMetadataRows: {
+    orderBy: { gatewayId: 'asc' },
+    select: {
+      gatewayId: true,
+      rssi: true,
+      snr: true,
+      channelIndex: true,
+      time: true,
+      fineTimestamp: true,
+      receivedAt: true
+    }
+  }
+} satisfies Prisma.MeasurementSelect;
+
+@Injectable()
+export class ExportService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async assertScopeExists(filter: MeasurementExportFilter): Promise<void> {
+    if (filter.sessionId) {
+      const session = await this.prisma.session.findUnique({
+        where: { id: filter.sessionId },
+        select: { id: true }
+      });
+      if (!session) {
+        throw new NotFoundException('Session not found');
+      }
+    }
+    if (filter.deviceId) {
+      const device = await this.prisma.device.findUnique({
+        where: { id: filter.deviceId },
+        select: { id: true }
+      });
+      if (!device) {
+        throw new NotFoundException('Device not found');
+      }
+    }
+  }
+
+  /** capturedAt of the first row iterateMeasurements would yield, or null when there is none. */
+  async findFirstCapturedAt(filter: MeasurementExportFilter): Promise<Date | null> {
+    const first = await this.prisma.measurement.findFirst({
+      where: buildMeasurementExportWhere(filter),
+      orderBy: [{ capturedAt: 'asc' }, { id: 'asc' }],
+      select: { capturedAt: true }
+    });
+    return first?.capturedAt ?? null;
+  }
+
+  /**
+   * Yields measurements in (capturedAt, id) order one batch at a time. Each batch
+   * resumes after the last row of the previous one, so memory use does not grow
+   * with the export and rows ingested mid-export cannot shift the window.
+   */
+  async *iterateMeasurements(
+    filter: MeasurementExportFilter,
+    batchSize = EXPORT_BATCH_SIZE
+  ): AsyncGenerator<MeasurementExportRow[]> {
+    const baseWhere = buildMeasurementExportWhere(filter);
+    let after: { capturedAt: Date; id: string } | null = null;
+
+    while (true) {
+      const where: Prisma.MeasurementWhereInput = after
+        ? {
+            AND: [
+              baseWhere,
+              {
+                OR: [
+                  { capturedAt: { gt: after.capturedAt } },
+                  { AND: [{ capturedAt: after.capturedAt }, { id: { gt: after.id } }] }
+                ]
+              }
+            ]
+          }
+        : baseWhere;
+      const rows = await this.prisma.measurement.findMany({
+        where,
+        orderBy: [{ capturedAt: 'asc' }, { id: 'asc' }],
+        take: batchSize,
+        select: MEASUREMENT_EXPORT_SELECT
+      });
+      if (rows.length === 0) {
+        return;
+      }
+      yield rows;
+      if (rows.length < batchSize) {
+        return;
+      }
+      const last = rows[rows.length - 1];
+      after = { capturedAt: last.capturedAt, id: last.id };
+    }
+  }
+}
+
+function buildMeasurementExportWhere(filter: MeasurementExportFilter): Prisma.MeasurementWhereInput {
+  const where: Prisma.MeasurementWhereInput = {};
+  if (filter.sessionId) {
+    where.sessionId = filter.sessionId;
+  }
+  if (filter.deviceId) {
+    where.deviceId = filter.deviceId;
+  } else {
+    // Without an explicit device, home/base nodes are left out like in the other exports.
+    where.device = buildNonHomeDeviceWhere();
+  }
+  if (filter.source) {
+    where.source = filter.source;
+  }
+  if (filter.from || filter.to) {
+    where.capturedAt = {
+      ...(filter.from ? { gte: filter.from } : {}),
+      ...(filter.to ? { lte: filter.to } : {})
+    };
+  }
+  if (filter.bbox) {
+    where.lat = { gte: filter.bbox.minLat, lte: filter.bbox.maxLat };
+    where.lon = { gte: filter.bbox.minLon, lte: filter.bbox.maxLon };
+  }
+  return where;
+}
@@ -0,0 +1,107 @@
+import { MeasurementExportEncoder } from './measurement-export';
+
+export type GpxTrackPoint = {
+  capturedAt: Date;
+  lat: number;
+  lon: number;
+  altitude: number | null;
+  alt: number | null;
+  rssi: number | null;
+  snr: number | null;
+  gatewayId: string | null;
+};
+
+const GPX_EXTENSIONS_NAMESPACE = 'https://github.com/kpax2049/loramapr/gpx/1';
+const GPX_DOCUMENT_END = '    </trkseg>\n  </trk>\n</gpx>\n';
+
+/**
+ * GPX 1.1 document with one track segment. Signal fields go into a namespaced
+ * `<extensions>` block per point, which track viewers ignore but keep on round-trip.
+ */
+export function buildGpxTrack(params: {
+  name: string;
+  description?: string | null;
+  points: GpxTrackPoint[];
+}): string {
+  return [
+    gpxDocumentStart({ ...params, time: params.points[0]?.capturedAt ?? null }),
+    ...params.points.map(encodeGpxTrackPoint),
+    GPX_DOCUMENT_END
+  ].join('');
+}
+
+/**
+ * buildGpxTrack as a streaming encoder. The metadata time is the first point's, which
+ * the caller looks up before streaming.
+ */
+export function createGpxEncoder(params: {
+  name: string;
+  description?: string | null;
+  time: Date | null;
+}): MeasurementExportEncoder {
+  return {
+    contentType: 'application/gpx+xml; charset=utf-8',
+    start: gpxDocumentStart(params),
+    encode: (row) => encodeGpxTrackPoint(row),
+    end: GPX_DOCUMENT_END
+  };
+}
+
+function gpxDocumentStart(params: { name: string; description?: string | null; time: Date | null }): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="LoRaMapr" xmlns="http://www.topografix.com/GPX/1/1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:loramapr="${GPX_EXTENSIONS_NAMESPACE}" xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">`,
+    '  <metadata>',
+    `    <name>${escapeXml(params.name)}</name>`
+  ];
+  if (params.time) {
+    lines.push(`    <time>${params.time.toISOString()}</time>`);
+  }
+  lines.push('  </metadata>', '  <trk>', `    <name>${escapeXml(params.name)}</name>`);
+  if (params.description) {
+    lines.push(`    <desc>${escapeXml(params.description)}</desc>`);
+  }
+  lines.push('    <trkseg>');
+  return `${lines.join('\n')}\n`;
+}
+
+function encodeGpxTrackPoint(point: GpxTrackPoint): string {
+  const lines = [`      <trkpt lat="${point.lat}" lon="${point.lon}">`];
+  // GPX requires <ele> before <time>.
+  const elevation = point.altitude ?? point.alt;
+  if (typeof elevation === 'number' && Number.isFinite(elevation)) {
+    lines.push(`        <ele>${elevation}</ele>`);
+  }
+  lines.push(`        <time>${point.capturedAt.toISOString()}</time>`);
+
+  const extensions: string[] = [];
+  if (typeof point.rssi === 'number' && Number.isFinite(point.rssi)) {
+    extensions.push(`<loramapr:rssi>${point.rssi}</loramapr:rssi>`);
+  }
+  if (typeof point.snr === 'number' && Number.isFinite(point.snr)) {
+    extensions.push(`<loramapr:snr>${point.snr}</loramapr:snr>`);
+  }
+  if (point.gatewayId) {
+    extensions.push(`<loramapr:gatewayId>${escapeXml(point.gatewayId)}</loramapr:gatewayId>`);
+  }
+  if (extensions.length > 0) {
+    lines.push('        <extensions>');
+    for (const extension of extensions) {
+      lines.push(`          ${extension}`);
+    }
+    lines.push('        </extensions>');
+  }
+  lines.push('      </trkpt>');
+  return `${lines.join('\n')}\n`;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0 at all, escaped or not.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,141 @@
+import { RgbaColor, RgbaImage } from './png';
+import {
+  SIGNAL_BUCKETS,
+  SignalBucketMetric,
+  signalBucketColor,
+  signalBucketLabel,
+  signalMetricTitle
+} from './signal-buckets';
+
+// 5x7 bitmap glyphs covering the legend titles and bucket labels. Characters
+// without a glyph render as blank cells.
+const GLYPHS: Record<string, string[]> = {
+  '0': [' ### ', '#   #', '#  ##', '# # #', '##  #', '#   #', ' ### '],
+  '1': ['  #  ', ' ##  ', '  #  ', '  #  ', '  #  ', '  #  ', ' ### '],
+  '2': [' ### ', '#   #', '    #', '   # ', '  #  ', ' #   ', '#####'],
+  '3': ['#####', '   # ', '  #  ', '   # ', '    #', '#   #', ' ### '],
+  '4': ['   # ', '  ## ', ' # # ', '#  # ', '#####', '   # ', '   # '],
+  '5': ['#####', '#    ', '#### ', '    #', '    #', '#   #', ' ### '],
+  '6': ['  ## ', ' #   ', '#    ', '#### ', '#   #', '#   #', ' ### '],
+  '7': ['#####', '    #', '   # ', '  #  ', ' #   ', ' #   ', ' #   '],
+  '8': [' ### ', '#   #', '#   #', ' ### ', '#   #', '#   #', ' ### '],
+  '9': [' ### ', '#   #', '#   #', ' ####', '    #', '   # ', ' ##  '],
+  '-': ['     ', '     ', '     ', '#####', '     ', '     ', '     '],
+  '+': ['     ', '  #  ', '  #  ', '#####', '  #  ', '  #  ', '     '],
+  '>': ['#    ', ' #   ', '  #  ', '   # ', '  #  ', ' #   ', '#    '],
+  '<': ['    #', '   # ', '  #  ', ' #   ', '  #  ', '   # ', '    #'],
+  '=': ['     ', '     ', '#####', '     ', '#####', '     ', '     '],
+  '(': ['   # ', '  #  ', ' #   ', ' #   ', ' #   ', '  #  ', '   # '],
+  ')': [' #   ', '  #  ', '   # ', '   # ', '   # ', '  #  ', ' #   '],
+  '%': ['##   ', '##  #', '   # ', '  #  ', ' #   ', '#  ##', '   ##'],
+  B: ['#### ', '#   #', '#   #', '#### ', '#   #', '#   #', '#### '],
+  D: ['#### ', '#   #', '#   #', '#   #', '#   #', '#   #', '#### '],
+  I: [' ### ', '  #  ', '  #  ', '  #  ', '  #  ', '  #  ', ' ### '],
+  N: ['#   #', '#   #', '##  #', '# # #', '#  ##', '#   #', '#   #'],
+  P: ['#### ', '#   #', '#   #', '#### ', '#    ', '#    ', '#    '],
+  R: ['#### ', '#   #', '#   #', '#### ', '# #  ', '#  # ', '#   #'],
+  S: [' ####', '#    ', '#    ', ' ### ', '    #', '    #', '#### '],
+  a: ['     ', '     ', ' ### ', '    #', ' ####', '#   #', ' ####'],
+  d: ['    #', '    #', ' ## #', '#  ##', '#   #', '#   #', ' ####'],
+  e: ['     ', '     ', ' ### ', '#   #', '#####', '#    ', ' ### '],
+  l: [' ##  ', '  #  ', '  #  ', '  #  ', '  #  ', '  #  ', ' ### '],
+  m: ['     ', '     ', '## # ', '# # #', '# # #', '#   #', '#   #'],
+  o: ['     ', '     ', ' ### ', '#   #', '#   #', '#   #', ' ### '],
+  p: ['     ', '     ', '#### ', '#   #', '#### ', '#    ', '#    '],
+  s: ['     ', '     ', ' ####', '#    ', ' ### ', '    #', '#### '],
+  t: [' #   ', ' #   ', '###  ', ' #   ', ' #   ', ' #  #', '  ## ']
+};
+
+const GLYPH_WIDTH = 5;
+const GLYPH_HEIGHT = 7;
+const TEXT_SCALE = 2;
+const CHAR_ADVANCE = (GLYPH_WIDTH + 1) * TEXT_SCALE;
+const TEXT_HEIGHT = GLYPH_HEIGHT * TEXT_SCALE;
+const PADDING = 8;
+const ROW_HEIGHT = 22;
+const SWATCH_SIZE = 14;
+
+const LEGEND_BACKGROUND: RgbaColor = [15, 23, 42, 220];
+const LEGEND_TEXT: RgbaColor = [241, 245, 249, 255];
+const DOT_ICON_SIZE = 32;
+
+/**
+ * Legend image for the KMZ screen overlay: metric title followed by one swatch
+ * row per bucket, in the same colors as the placemark styles.
+ */
+export function renderLegendPng(metric: SignalBucketMetric): Buffer {
+  const title = signalMetricTitle(metric);
+  const rows = SIGNAL_BUCKETS.map((bucket) => ({
+    label: signalBucketLabel(metric, bucket),
+    color: parseHexColor(signalBucketColor(metric, bucket))
+  }));
+
+  const labelOffset = PADDING + SWATCH_SIZE + PADDING;
+  const width = Math.max(
+    PADDING * 2 + textWidth(title),
+    ...rows.map((row) => labelOffset + textWidth(row.label) + PADDING)
+  );
+  const rowsTop = PADDING + TEXT_HEIGHT + PADDING;
+  const height = rowsTop + rows.length * ROW_HEIGHT;
+
+  const image = new RgbaImage(width, height, LEGEND_BACKGROUND);
+  drawText(image, title, PADDING, PADDING, LEGEND_TEXT);
+  rows.forEach((row, index) => {
+    const top = rowsTop + index * ROW_HEIGHT;
+    image.fillRect(PADDING, top, SWATCH_SIZE, SWATCH_SIZE, row.color);
+    drawText(image, row.label, labelOffset, top, LEGEND_TEXT);
+  });
+  return image.toPng();
+}
+
+/**
+ * White anti-aliased dot. KML tints icons by multiplying with IconStyle color,
+ * so one white icon serves every bucket.
+ */
+export function renderDotIconPng(): Buffer {
+  const image = new RgbaImage(DOT_ICON_SIZE, DOT_ICON_SIZE);
+  const center = DOT_ICON_SIZE / 2;
+  const radius = center - 2;
+  for (let y = 0; y < DOT_ICON_SIZE; y += 1) {
+    for (let x = 0; x < DOT_ICON_SIZE; x += 1) {
+      const distance = Math.hypot(x + 0.5 - center, y + 0.5 - center);
+      const coverage = Math.min(Math.max(radius - distance + 0.5, 0), 1);
+      if (coverage > 0) {
+        image.setPixel(x, y, [255, 255, 255, Math.round(coverage * 255)]);
+      }
+    }
+  }
+  return image.toPng();
+}
+
+function textWidth(text: string): number {
+  return text.length * CHAR_ADVANCE - TEXT_SCALE;
+}
+
+function drawText(image: RgbaImage, text: string, left: number, top: number, color: RgbaColor): void {
+  Array.from(text).forEach((char, index) => {
+    const glyph = GLYPHS[char];
+    if (!glyph) {
+      return;
+    }
+    const glyphLeft = left + index * CHAR_ADVANCE;
+    glyph.forEach((line, row) => {
+      for (let column = 0; column < GLYPH_WIDTH; column += 1) {
+        if (line[column] === '#') {
+          image.fillRect(
+            glyphLeft + column * TEXT_SCALE,
+            top + row * TEXT_SCALE,
+            TEXT_SCALE,
+            TEXT_SCALE,
+            color
+          );
+        }
+      }
+    });
+  });
+}
+
+function parseHexColor(hex: string): RgbaColor {
+  const value = Number.parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff, 255];
+}
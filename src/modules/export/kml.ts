@@ -0,0 +1,307 @@
+import { createZip, createZipStream } from '../../common/zip/zip';
+import { escapeXml } from './gpx';
+import { renderDotIconPng, renderLegendPng } from './kml-legend';
+import {
+  getSignalBucket,
+  SIGNAL_BUCKETS,
+  SignalBucket,
+  SignalBucketMetric,
+  signalBucketColor,
+  signalBucketLabel,
+  signalMetricTitle
+} from './signal-buckets';
+
+export type KmlTrackPoint = {
+  capturedAt: Date;
+  lat: number;
+  lon: number;
+  rssi: number | null;
+  snr: number | null;
+  gatewayId: string | null;
+};
+
+export type KmlCoverageBin = {
+  latBin: number;
+  lonBin: number;
+  count: number;
+  rssiAvg: number | null;
+  snrAvg: number | null;
+  pdr: number | null;
+  gatewayId: string | null;
+};
+
+export type KmlOutput = 'kml' | 'kmz';
+
+const KMZ_LEGEND_PATH = 'files/legend.png';
+const KMZ_DOT_ICON_PATH = 'files/dot.png';
+// Plain .kml has nowhere to put images, so it points at Google's stock dot instead.
+const REMOTE_DOT_ICON_HREF = 'http://maps.google.com/mapfiles/kml/shapes/shaded_dot.png';
+const TRACK_COLOR = '#2563eb';
+const POINT_ICON_SCALE = 0.6;
+const BIN_FILL_ALPHA = 0x99;
+const COORDINATE_DECIMALS = 7;
+// Session placemarks are colored by the per-point RSSI, using the coverage RSSI buckets.
+const SESSION_POINT_METRIC: SignalBucketMetric = 'rssiAvg';
+
+/**
+ * Session as KML: the track as one LineString plus a placemark per measurement,
+ * styled by RSSI bucket. For KMZ the legend is a screen overlay image; plain KML
+ * carries it as an HTML table in the document description.
+ *
+ * Written while the points are read: `readPoints` is called twice, once for the track
+ * line and once for the placemarks, so neither pass holds more than a page.
+ */
+export async function* streamSessionKml(params: {
+  name: string;
+  description?: string | null;
+  readPoints: () => AsyncIterable<KmlTrackPoint[]>;
+  output: KmlOutput;
+}): AsyncGenerator<string> {
+  const metric = SESSION_POINT_METRIC;
+  const lines = openDocument(params.name, params.description, metric, params.output);
+  lines.push(`    <Style id="track">`);
+  lines.push(`      <LineStyle><color>${toKmlColor(TRACK_COLOR, 0xff)}</color><width>3</width></LineStyle>`);
+  lines.push('    </Style>');
+  const iconHref = params.output === 'kmz' ? KMZ_DOT_ICON_PATH : REMOTE_DOT_ICON_HREF;
+  for (const bucket of SIGNAL_BUCKETS) {
+    lines.push(
+      `    <Style id="${styleId(metric, bucket)}">`,
+      '      <IconStyle>',
+      `        <color>${toKmlColor(signalBucketColor(metric, bucket), 0xff)}</color>`,
+      `        <scale>${POINT_ICON_SCALE}</scale>`,
+      `        <Icon><href>${iconHref}</href></Icon>`,
+      '      </IconStyle>',
+      '      <LabelStyle><scale>0</scale></LabelStyle>',
+      '    </Style>'
+    );
+  }
+  yield `${lines.join('\n')}\n`;
+
+  // A line needs two points, so the first coordinate waits for the second.
+  let firstCoordinate: string | null = null;
+  let trackOpen = false;
+  for await (const points of params.readPoints()) {
+    const parts: string[] = [];
+    for (const point of points) {
+      const coordinate = formatCoordinates(point.lon, point.lat);
+      if (trackOpen) {
+        parts.push(` ${coordinate}`);
+      } else if (firstCoordinate === null) {
+        firstCoordinate = coordinate;
+      } else {
+        parts.push(
+          [
+            '    <Placemark>',
+            '      <name>Track</name>',
+            '      <styleUrl>#track</styleUrl>',
+            '      <LineString>',
+            '        <tessellate>1</tessellate>',
+            `        <coordinates>${firstCoordinate} ${coordinate}`
+          ].join('\n')
+        );
+        trackOpen = true;
+      }
+    }
+    if (parts.length > 0) {
+      yield parts.join('');
+    }
+  }
+  if (trackOpen) {
+    yield '</coordinates>\n      </LineString>\n    </Placemark>\n';
+  }
+
+  yield '    <Folder>\n      <name>Measurements</name>\n';
+  for await (const points of params.readPoints()) {
+    const placemarks: string[] = [];
+    for (const point of points) {
+      const bucket = getSignalBucket(metric, point.rssi);
+      placemarks.push(
+        '      <Placemark>',
+        `        <name>${point.capturedAt.toISOString()}</name>`,
+        `        <TimeStamp><when>${point.capturedAt.toISOString()}</when></TimeStamp>`,
+        `        <styleUrl>#${styleId(metric, bucket)}</styleUrl>`,
+        ...extendedData([
+          ['rssi', point.rssi],
+          ['snr', point.snr],
+          ['gatewayId', point.gatewayId]
+        ]),
+        `        <Point><coordinates>${formatCoordinates(point.lon, point.lat)}</coordinates></Point>`,
+        '      </Placemark>'
+      );
+    }
+    if (placemarks.length > 0) {
+      yield `${placemarks.join('\n')}\n`;
+    }
+  }
+  yield `    </Folder>\n${closeDocument([], params.output)}`;
+}
+
+/**
+ * Coverage bins as KML polygons, one per bin cell, filled by the bucket of the
+ * chosen metric. Bins come from CoverageService.listBins at a given bin size.
+ */
+export function buildCoverageKml(params: {
+  name: string;
+  metric: SignalBucketMetric;
+  binSizeDeg: number;
+  bins: KmlCoverageBin[];
+  output: KmlOutput;
+}): string {
+  const { metric, binSizeDeg } = params;
+  const lines = openDocument(params.name, null, metric, params.output);
+  for (const bucket of SIGNAL_BUCKETS) {
+    const color = signalBucketColor(metric, bucket);
+    lines.push(
+      `    <Style id="${styleId(metric, bucket)}">`,
+      `      <LineStyle><color>${toKmlColor(color, 0xff)}</color><width>1</width></LineStyle>`,
+      `      <PolyStyle><color>${toKmlColor(color, BIN_FILL_ALPHA)}</color></PolyStyle>`,
+      '    </Style>'
+    );
+  }
+
+  lines.push('    <Folder>', '      <name>Coverage bins</name>');
+  for (const bin of params.bins) {
+    const minLat = bin.latBin * binSizeDeg;
+    const minLon = bin.lonBin * binSizeDeg;
+    const maxLat = minLat + binSizeDeg;
+    const maxLon = minLon + binSizeDeg;
+    const ring = [
+      formatCoordinates(minLon, minLat),
+      formatCoordinates(maxLon, minLat),
+      formatCoordinates(maxLon, maxLat),
+      formatCoordinates(minLon, maxLat),
+      formatCoordinates(minLon, minLat)
+    ].join(' ');
+    const bucket = getSignalBucket(metric, bin[metric]);
+    lines.push(
+      '      <Placemark>',
+      `        <name>${escapeXml(signalBucketLabel(metric, bucket))}</name>`,
+      `        <styleUrl>#${styleId(metric, bucket)}</styleUrl>`,
+      ...extendedData([
+        ['count', bin.count],
+        ['rssiAvg', bin.rssiAvg],
+        ['snrAvg', bin.snrAvg],
+        ['pdr', bin.pdr],
+        ['gatewayId', bin.gatewayId]
+      ]),
+      '        <Polygon>',
+      '          <tessellate>1</tessellate>',
+      `          <outerBoundaryIs><LinearRing><coordinates>${ring}</coordinates></LinearRing></outerBoundaryIs>`,
+      '        </Polygon>',
+      '      </Placemark>'
+    );
+  }
+  lines.push('    </Folder>');
+
+  return closeDocument(lines, params.output);
+}
+
+/** Packs a KML document with the legend and icon images it references. */
+export function buildKmz(kml: string, metric: SignalBucketMetric): Buffer {
+  const modifiedAt = new Date();
+  // doc.kml goes first: viewers take the first .kml entry as the root document.
+  return createZip([
+    { name: 'doc.kml', data: Buffer.from(kml, 'utf8'), modifiedAt },
+    { name: KMZ_LEGEND_PATH, data: renderLegendPng(metric), modifiedAt },
+    { name: KMZ_DOT_ICON_PATH, data: renderDotIconPng(), modifiedAt }
+  ]);
+}
+
+/** buildKmz for a KML document that is still being written. */
+export function streamKmz(kml: Iterable<string> | AsyncIterable<string>, metric: SignalBucketMetric): AsyncGenerator<Buffer> {
+  const modifiedAt = new Date();
+  return createZipStream([
+    { name: 'doc.kml', data: toBuffers(kml), modifiedAt },
+    { name: KMZ_LEGEND_PATH, data: toBuffers([renderLegendPng(metric)]), modifiedAt },
+    { name: KMZ_DOT_ICON_PATH, data: toBuffers([renderDotIconPng()]), modifiedAt }
+  ]);
+}
+
+/** `#rrggbb` plus alpha to KML's `aabbggrr`. */
+export function toKmlColor(hex: string, alpha: number): string {
+  const red = hex.slice(1, 3);
+  const green = hex.slice(3, 5);
+  const blue = hex.slice(5, 7);
+  return `${alpha.toString(16).padStart(2, '0')}${blue}${green}${red}`.toLowerCase();
+}
+
+function openDocument(
+  name: string,
+  description: string | null | undefined,
+  metric: SignalBucketMetric,
+  output: KmlOutput
+): string[] {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(name)}</name>`
+  ];
+  const descriptionParts: string[] = [];
+  if (description) {
+    descriptionParts.push(`<p>${escapeXml(description)}</p>`);
+  }
+  if (output === 'kml') {
+    descriptionParts.push(buildHtmlLegend(metric));
+  }
+  if (descriptionParts.length > 0) {
+    // The description is HTML; escaping it once more makes it valid XML text.
+    lines.push(`    <description>${escapeXml(descriptionParts.join(''))}</description>`);
+  }
+  return lines;
+}
+
+function closeDocument(lines: string[], output: KmlOutput): string {
+  if (output === 'kmz') {
+    lines.push(
+      '    <ScreenOverlay>',
+      '      <name>Legend</name>',
+      `      <Icon><href>${KMZ_LEGEND_PATH}</href></Icon>`,
+      '      <overlayXY x="0" y="0" xunits="fraction" yunits="fraction"/>',
+      '      <screenXY x="10" y="30" xunits="pixels" yunits="pixels"/>',
+      '      <size x="0" y="0" xunits="pixels" yunits="pixels"/>',
+      '    </ScreenOverlay>'
+    );
+  }
+  lines.push('  </Document>', '</kml>', '');
+  return lines.join('\n');
+}
+
+async function* toBuffers(chunks: Iterable<string | Buffer> | AsyncIterable<string | Buffer>): AsyncGenerator<Buffer> {
+  for await (const chunk of chunks) {
+    yield typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk;
+  }
+}
+
+function buildHtmlLegend(metric: SignalBucketMetric): string {
+  const rows = SIGNAL_BUCKETS.map(
+    (bucket) =>
+      `<tr><td style="background:${signalBucketColor(metric, bucket)};width:14px"></td>` +
+      `<td>${escapeXml(signalBucketLabel(metric, bucket))}</td></tr>`
+  );
+  return `<table><tr><th colspan="2">${escapeXml(signalMetricTitle(metric))}</th></tr>${rows.join('')}</table>`;
+}
+
+function extendedData(values: Array<[string, string | number | null]>): string[] {
+  const present = values.filter(([, value]) => value !== null && value !== '');
+  if (present.length === 0) {
+    return [];
+  }
+  return [
+    '        <ExtendedData>',
+    ...present.map(
+      ([name, value]) =>
+        `          <Data name="${name}"><value>${escapeXml(String(value))}</value></Data>`
+    ),
+    '        </ExtendedData>'
+  ];
+}
+
+function styleId(metric: SignalBucketMetric, bucket: SignalBucket): string {
+  return `${metric}-${bucket}`;
+}
+
+function formatCoordinates(lon: number, lat: number): string {
+  // Bin edges are products like 0.001 * 52500; rounding drops the float noise.
+  return `${Number(lon.toFixed(COORDINATE_DECIMALS))},${Number(lat.toFixed(COORDINATE_DECIMALS))}`;
+}
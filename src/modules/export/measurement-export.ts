@@ -0,0 +1,219 @@
+export type MeasurementExportFormat = 'csv' | 'ndjson' | 'geojson';
+
+export type MeasurementExportRow = {
+  id: string;
+  capturedAt: Date;
+  deviceId: string;
+  sessionId: string | null;
+  lat: number;
+  lon: number;
+  alt: number | null;
+  altitude: number | null;
+  hdop: number | null;
+  satsInView: number | null;
+  rssi: number | null;
+  snr: number | null;
+  sf: number | null;
+  bw: number | null;
+  freq: number | null;
+  gatewayId: string | null;
+  source: string | null;
+  device: { deviceUid: string };
+  meshtasticRx: {
+    rxTime: Date | null;
+    rxRssi: number | null;
+    rxSnr: number | null;
+    hopLimit: number | null;
+    hopStart: number | null;
+    relayNode: number | null;
+    transportMechanism: string | null;
+    fromId: string | null;
+    toId: string | null;
+  } | null;
+  rxMetadataRows: Array<{
+    gatewayId: string;
+    rssi: number | null;
+    snr: number | null;
+    channelIndex: number | null;
+    time: Date | null;
+    fineTimestamp: number | null;
+    receivedAt: Date;
+  }>;
+};
+
+/**
+ * Turns rows into chunks of one export format. `start` and `end` wrap the body;
+ * `encode` is called once per row in order and returns a self-contained chunk.
+ */
+export type MeasurementExportEncoder = {
+  contentType: string;
+  start: string;
+  encode: (row: MeasurementExportRow, index: number) => string;
+  end: string;
+};
+
+const CSV_COLUMNS = [
+  'id',
+  'capturedAt',
+  'deviceUid',
+  'sessionId',
+  'lat',
+  'lon',
+  'alt',
+  'altitude',
+  'hdop',
+  'satsInView',
+  'rssi',
+  'snr',
+  'sf',
+  'bw',
+  'freq',
+  'gatewayId',
+  'source',
+  'meshHopLimit',
+  'meshHopStart',
+  'meshHopsAway',
+  'meshRelayNode',
+  'meshTransport',
+  'meshRxTime',
+  'meshRxRssi',
+  'meshRxSnr',
+  'meshFromId',
+  'meshToId',
+  'rxGatewayCount',
+  'rxMetadata'
+] as const;
+
+export function createMeasurementExportEncoder(
+  format: MeasurementExportFormat
+): MeasurementExportEncoder {
+  if (format === 'csv') {
+    return {
+      contentType: 'text/csv; charset=utf-8',
+      start: `${CSV_COLUMNS.join(',')}\n`,
+      encode: (row) => `${toCsvValues(row).map(formatCsvValue).join(',')}\n`,
+      end: ''
+    };
+  }
+  if (format === 'ndjson') {
+    return {
+      contentType: 'application/x-ndjson; charset=utf-8',
+      start: '',
+      encode: (row) => `${JSON.stringify(toExportRecord(row))}\n`,
+      end: ''
+    };
+  }
+  return {
+    contentType: 'application/geo+json; charset=utf-8',
+    start: '{"type":"FeatureCollection","features":[\n',
+    encode: (row, index) => {
+      const { lat, lon, ...properties } = toExportRecord(row);
+      const feature = {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [lon, lat] },
+        properties
+      };
+      return `${index > 0 ? ',\n' : ''}${JSON.stringify(feature)}`;
+    },
+    end: '\n]}\n'
+  };
+}
+
+/** Plain JSON shape shared by NDJSON lines and GeoJSON feature properties. */
+export function toExportRecord(row: MeasurementExportRow) {
+  const mesh = row.meshtasticRx;
+  return {
+    id: row.id,
+    capturedAt: row.capturedAt.toISOString(),
+    deviceUid: row.device.deviceUid,
+    sessionId: row.sessionId,
+    lat: row.lat,
+    lon: row.lon,
+    alt: row.alt,
+    altitude: row.altitude,
+    hdop: row.hdop,
+    satsInView: row.satsInView,
+    rssi: row.rssi,
+    snr: row.snr,
+    sf: row.sf,
+    bw: row.bw,
+    freq: row.freq,
+    gatewayId: row.gatewayId,
+    source: row.source,
+    meshtastic: mesh
+      ? {
+          hopLimit: mesh.hopLimit,
+          hopStart: mesh.hopStart,
+          hopsAway: getHopsAway(mesh.hopStart, mesh.hopLimit),
+          relayNode: mesh.relayNode,
+          transportMechanism: mesh.transportMechanism,
+          rxTime: mesh.rxTime ? mesh.rxTime.toISOString() : null,
+          rxRssi: mesh.rxRssi,
+          rxSnr: mesh.rxSnr,
+          fromId: mesh.fromId,
+          toId: mesh.toId
+        }
+      : null,
+    rxMetadata: row.rxMetadataRows.map((rx) => ({
+      gatewayId: rx.gatewayId,
+      rssi: rx.rssi,
+      snr: rx.snr,
+      channelIndex: rx.channelIndex,
+      time: rx.time ? rx.time.toISOString() : null,
+      fineTimestamp: rx.fineTimestamp,
+      receivedAt: rx.receivedAt.toISOString()
+    }))
+  };
+}
+
+function toCsvValues(row: MeasurementExportRow): Array<string | number | null> {
+  const record = toExportRecord(row);
+  const mesh = record.meshtastic;
+  return [
+    record.id,
+    record.capturedAt,
+    record.deviceUid,
+    record.sessionId,
+    record.lat,
+    record.lon,
+    record.alt,
+    record.altitude,
+    record.hdop,
+    record.satsInView,
+    record.rssi,
+    record.snr,
+    record.sf,
+    record.bw,
+    record.freq,
+    record.gatewayId,
+    record.source,
+    mesh?.hopLimit ?? null,
+    mesh?.hopStart ?? null,
+    mesh?.hopsAway ?? null,
+    mesh?.relayNode ?? null,
+    mesh?.transportMechanism ?? null,
+    mesh?.rxTime ?? null,
+    mesh?.rxRssi ?? null,
+    mesh?.rxSnr ?? null,
+    mesh?.fromId ?? null,
+    mesh?.toId ?? null,
+    record.rxMetadata.length,
+    // Per-gateway rows stay in one JSON cell so the file keeps one line per measurement.
+    record.rxMetadata.length > 0 ? JSON.stringify(record.rxMetadata) : null
+  ];
+}
+
+export function formatCsvValue(value: string | number | null): string {
+  if (value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function getHopsAway(hopStart: number | null, hopLimit: number | null): number | null {
+  if (hopStart === null || hopLimit === null || hopStart < hopLimit) {
+    return null;
+  }
+  return hopStart - hopLimit;
+}
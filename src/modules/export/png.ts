@@ -0,0 +1,78 @@
+import { deflateSync } from 'zlib';
+import { crc32 } from '../../common/zip/zip';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export type RgbaColor = [number, number, number, number];
+
+/**
+ * Mutable RGBA pixel buffer for the few small images embedded in exports
+ * (KMZ legend and icons). Drawing clips silently at the edges.
+ */
+export class RgbaImage {
+  readonly pixels: Buffer;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    background: RgbaColor = [0, 0, 0, 0]
+  ) {
+    this.pixels = Buffer.alloc(width * height * 4);
+    this.fillRect(0, 0, width, height, background);
+  }
+
+  setPixel(x: number, y: number, color: RgbaColor): void {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) {
+      return;
+    }
+    const offset = (y * this.width + x) * 4;
+    this.pixels[offset] = color[0];
+    this.pixels[offset + 1] = color[1];
+    this.pixels[offset + 2] = color[2];
+    this.pixels[offset + 3] = color[3];
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: RgbaColor): void {
+    for (let row = y; row < y + height; row += 1) {
+      for (let column = x; column < x + width; column += 1) {
+        this.setPixel(column, row, color);
+      }
+    }
+  }
+
+  toPng(): Buffer {
+    return encodePng(this.width, this.height, this.pixels);
+  }
+}
+
+/** 8-bit RGBA, non-interlaced, no row filtering. */
+export function encodePng(width: number, height: number, rgba: Buffer): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 6;
+
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let row = 0; row < height; row += 1) {
+    // Leading zero byte per scanline is filter type "None".
+    rgba.copy(raw, row * (stride + 1) + 1, row * stride, (row + 1) * stride);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32BE(crc32(typeAndData), 0);
+  return Buffer.concat([length, typeAndData, checksum]);
+}
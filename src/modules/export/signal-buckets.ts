@@ -0,0 +1,134 @@
+export type SignalBucketMetric = 'count' | 'rssiAvg' | 'snrAvg' | 'pdr';
+export type SignalBucket = 'low' | 'med' | 'high' | 'none';
+
+// Mirrors frontend/src/coverage/coverageBuckets.ts (thresholds, labels and fallback
+// colors) so exported files look like the map. Keep the two in sync.
+const NONE_COLOR = '#94a3b8';
+const BUCKET_COLORS: Record<SignalBucketMetric, Record<Exclude<SignalBucket, 'none'>, string>> = {
+  count: { low: '#fb7185', med: '#f59e0b', high: '#22c55e' },
+  rssiAvg: { low: '#ef4444', med: '#facc15', high: '#4ade80' },
+  snrAvg: { low: '#60a5fa', med: '#22d3ee', high: '#a78bfa' },
+  pdr: { low: '#f97316', med: '#fde047', high: '#14b8a6' }
+};
+
+// Legend order, strongest first.
+export const SIGNAL_BUCKETS: ReadonlyArray<SignalBucket> = ['high', 'med', 'low', 'none'];
+
+export function getSignalBucket(
+  metric: SignalBucketMetric,
+  value: number | null | undefined
+): SignalBucket {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return 'none';
+  }
+
+  if (metric === 'count') {
+    if (value <= 0) {
+      return 'none';
+    }
+    if (value >= 21) {
+      return 'high';
+    }
+    if (value >= 6) {
+      return 'med';
+    }
+    return 'low';
+  }
+
+  if (metric === 'snrAvg') {
+    if (value >= 6) {
+      return 'high';
+    }
+    if (value >= -4) {
+      return 'med';
+    }
+    return 'low';
+  }
+
+  // PDR is a 0..1 ratio.
+  if (metric === 'pdr') {
+    if (value >= 0.9) {
+      return 'high';
+    }
+    if (value >= 0.5) {
+      return 'med';
+    }
+    return 'low';
+  }
+
+  if (value >= -89) {
+    return 'high';
+  }
+  if (value >= -109) {
+    return 'med';
+  }
+  return 'low';
+}
+
+export function signalBucketLabel(metric: SignalBucketMetric, bucket: SignalBucket): string {
+  if (bucket === 'none') {
+    if (metric === 'rssiAvg') {
+      return 'No RSSI';
+    }
+    if (metric === 'snrAvg') {
+      return 'No SNR';
+    }
+    if (metric === 'pdr') {
+      return 'No PDR';
+    }
+    return 'No data';
+  }
+
+  if (metric === 'count') {
+    if (bucket === 'high') {
+      return '21+';
+    }
+    if (bucket === 'med') {
+      return '6-20';
+    }
+    return '1-5';
+  }
+
+  if (metric === 'snrAvg') {
+    if (bucket === 'high') {
+      return '>= 6 dB';
+    }
+    if (bucket === 'med') {
+      return '-4 to 5 dB';
+    }
+    return '<= -5 dB';
+  }
+
+  if (metric === 'pdr') {
+    if (bucket === 'high') {
+      return '>= 90%';
+    }
+    if (bucket === 'med') {
+      return '50-89%';
+    }
+    return '< 50%';
+  }
+
+  if (bucket === 'high') {
+    return '>= -89 dBm';
+  }
+  if (bucket === 'med') {
+    return '-109 to -90 dBm';
+  }
+  return '<= -110 dBm';
+}
+
+export function signalMetricTitle(metric: SignalBucketMetric): string {
+  if (metric === 'count') {
+    return 'Samples';
+  }
+  if (metric === 'pdr') {
+    return 'PDR (%)';
+  }
+  return metric === 'snrAvg' ? 'SNR (dB)' : 'RSSI (dBm)';
+}
+
+/** `#rrggbb` fallback color for a bucket. */
+export function signalBucketColor(metric: SignalBucketMetric, bucket: SignalBucket): string {
+  return bucket === 'none' ? NONE_COLOR : BUCKET_COLORS[metric][bucket];
+}
@@ -0,0 +1,122 @@
+import { formatCsvValue, MeasurementExportEncoder, MeasurementExportRow } from './measurement-export';
+
+export type TtnMapperExportFormat = 'csv' | 'json';
+
+/** One received uplink at one gateway, named like TTN Mapper's raw data files. */
+export type TtnMapperRecord = {
+  time: string;
+  nodeaddr: string;
+  gwaddr: string;
+  modulation: 'LORA';
+  datarate: string | null;
+  snr: number | null;
+  rssi: number | null;
+  freq: number | null;
+  lat: number;
+  lon: number;
+  alt: number | null;
+  hdop: number | null;
+  sats: number | null;
+  experiment: string | null;
+};
+
+const TTN_MAPPER_COLUMNS = [
+  'time',
+  'nodeaddr',
+  'gwaddr',
+  'modulation',
+  'datarate',
+  'snr',
+  'rssi',
+  'freq',
+  'lat',
+  'lon',
+  'alt',
+  'hdop',
+  'sats',
+  'experiment'
+] as const satisfies ReadonlyArray<keyof TtnMapperRecord>;
+
+/**
+ * Encoder for TTN Mapper upload files. Each measurement expands to one record per
+ * gateway in its RxMetadata; rows without any gateway produce nothing.
+ */
+export function createTtnMapperEncoder(
+  format: TtnMapperExportFormat,
+  options: { experiment?: string } = {}
+): MeasurementExportEncoder {
+  const experiment = options.experiment ?? null;
+  if (format === 'csv') {
+    return {
+      contentType: 'text/csv; charset=utf-8',
+      start: `${TTN_MAPPER_COLUMNS.join(',')}\n`,
+      encode: (row) =>
+        toTtnMapperRecords(row, experiment)
+          .map((record) => `${TTN_MAPPER_COLUMNS.map((column) => formatCsvValue(record[column])).join(',')}\n`)
+          .join(''),
+      end: ''
+    };
+  }
+
+  // Rows can expand to zero records, so the separator follows records written, not rows.
+  let written = 0;
+  return {
+    contentType: 'application/json; charset=utf-8',
+    start: '[\n',
+    encode: (row) =>
+      toTtnMapperRecords(row, experiment)
+        .map((record) => `${written++ > 0 ? ',\n' : ''}${JSON.stringify(record)}`)
+        .join(''),
+    end: '\n]\n'
+  };
+}
+
+export function toTtnMapperRecords(
+  row: MeasurementExportRow,
+  experiment: string | null = null
+): TtnMapperRecord[] {
+  // Older rows only kept the best gateway on the measurement itself.
+  const receptions =
+    row.rxMetadataRows.length > 0
+      ? row.rxMetadataRows
+      : row.gatewayId
+        ? [{ gatewayId: row.gatewayId, rssi: row.rssi, snr: row.snr }]
+        : [];
+
+  return receptions.map((rx) => ({
+    time: row.capturedAt.toISOString(),
+    nodeaddr: row.device.deviceUid,
+    gwaddr: rx.gatewayId,
+    modulation: 'LORA',
+    datarate: formatDataRate(row.sf, row.bw),
+    snr: rx.snr,
+    rssi: rx.rssi,
+    freq: toMegahertz(row.freq),
+    lat: row.lat,
+    lon: row.lon,
+    alt: row.altitude ?? row.alt,
+    hdop: row.hdop,
+    sats: row.satsInView,
+    experiment
+  }));
+}
+
+// TTS reports bandwidth in Hz; TTN Mapper writes data rates as e.g. SF7BW125.
+function formatDataRate(sf: number | null, bw: number | null): string | null {
+  if (sf === null) {
+    return null;
+  }
+  if (bw === null) {
+    return `SF${sf}`;
+  }
+  const kilohertz = bw >= 1000 ? bw / 1000 : bw;
+  return `SF${sf}BW${kilohertz}`;
+}
+
+// TTS reports frequency in Hz; TTN Mapper expects MHz.
+function toMegahertz(freq: number | null): number | null {
+  if (freq === null) {
+    return null;
+  }
+  return freq >= 1_000_000 ? freq / 1_000_000 : freq;
+}
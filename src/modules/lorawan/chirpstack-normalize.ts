@@ -0,0 +1,76 @@
+import { Prisma } from '@prisma/client';
+import type { ChirpstackUplink } from './chirpstack-uplink.schema';
+import { pickDecodedLocation, toNumber, type NormalizeResult } from './tts-normalize';
+
+type ChirpstackRxInfo = NonNullable<ChirpstackUplink['rxInfo']>[number];
+
+/**
+ * ChirpStack reports DevEUIs in lowercase hex while TTS uses uppercase; upper-casing keeps a
+ * device that moves between network servers on the same `Device` row.
+ */
+export function getChirpstackDeviceUid(payload: Pick<ChirpstackUplink, 'deviceInfo'>): string | undefined {
+  const devEui = payload.deviceInfo?.devEui?.trim();
+  return devEui ? devEui.toUpperCase() : undefined;
+}
+
+export function normalizeChirpstackUplinkToMeasurement(
+  parsedPayload: ChirpstackUplink,
+  receivedAt: Date
+): NormalizeResult {
+  const deviceUid = getChirpstackDeviceUid(parsedPayload);
+  if (!deviceUid) {
+    return { ok: false, reason: 'missing_device_uid' };
+  }
+
+  const location = pickDecodedLocation(parsedPayload.object);
+  if (!location) {
+    return { ok: false, reason: 'missing_gps' };
+  }
+
+  const rxInfo = parsedPayload.rxInfo ?? [];
+  const capturedAt =
+    parsedPayload.time ??
+    rxInfo.find((entry) => entry.nsTime)?.nsTime ??
+    receivedAt.toISOString();
+
+  const lora = parsedPayload.txInfo?.modulation?.lora;
+  const sf = typeof lora?.spreadingFactor === 'number' ? lora.spreadingFactor : undefined;
+  const bw = typeof lora?.bandwidth === 'number' ? lora.bandwidth : undefined;
+  const freq = toNumber(parsedPayload.txInfo?.frequency);
+
+  return {
+    ok: true,
+    item: {
+      deviceUid,
+      capturedAt,
+      lat: location.lat,
+      lon: location.lon,
+      alt: location.alt ?? undefined,
+      hdop: location.hdop ?? undefined,
+      sf,
+      bw,
+      freq: freq ?? undefined,
+      fCnt: parsedPayload.fCnt,
+      // Gateway summary (gatewayId/rssi/snr) is derived from these rows at ingest.
+      rxMetadata: toTtsRxMetadata(rxInfo) as Prisma.InputJsonValue,
+      payloadRaw: parsedPayload
+    }
+  };
+}
+
+/**
+ * Maps `rxInfo[]` onto the TTS `rx_metadata` shape that `Measurement.rxMetadata` and the
+ * `RxMetadata` rows are built from, so coverage and exports need no ChirpStack branch.
+ */
+function toTtsRxMetadata(rxInfo: ChirpstackRxInfo[]): Array<Record<string, unknown>> {
+  return rxInfo
+    .filter((entry) => typeof entry.gatewayId === 'string' && entry.gatewayId.trim() !== '')
+    .map((entry) => ({
+      gateway_ids: { gateway_id: entry.gatewayId },
+      ...(typeof entry.rssi === 'number' ? { rssi: entry.rssi } : {}),
+      ...(typeof entry.snr === 'number' ? { snr: entry.snr } : {}),
+      ...(typeof entry.channel === 'number' ? { channel_index: entry.channel } : {}),
+      ...(entry.gwTime ? { time: entry.gwTime } : {}),
+      ...(entry.location ? { location: entry.location } : {})
+    }));
+}
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+
+const DeviceInfoSchema = z
+  .object({
+    devEui: z.string().min(1),
+    deviceName: z.string().optional(),
+    applicationId: z.string().optional(),
+    applicationName: z.string().optional(),
+    tenantId: z.string().optional()
+  })
+  .passthrough();
+
+const RxInfoSchema = z
+  .object({
+    gatewayId: z.string().optional(),
+    uplinkId: z.union([z.number(), z.string()]).optional(),
+    gwTime: z.string().optional(),
+    nsTime: z.string().optional(),
+    rssi: z.number().optional(),
+    snr: z.number().optional(),
+    channel: z.number().optional(),
+    rfChain: z.number().optional(),
+    location: z
+      .object({
+        latitude: z.number().optional(),
+        longitude: z.number().optional(),
+        altitude: z.number().optional()
+      })
+      .passthrough()
+      .optional()
+  })
+  .passthrough();
+
+const TxInfoSchema = z
+  .object({
+    frequency: z.union([z.number(), z.string()]).optional(),
+    modulation: z
+      .object({
+        lora: z
+          .object({
+            bandwidth: z.number().optional(),
+            spreadingFactor: z.number().optional(),
+            codeRate: z.string().optional()
+          })
+          .passthrough()
+          .optional()
+      })
+      .passthrough()
+      .optional()
+  })
+  .passthrough();
+
+/** ChirpStack v4 HTTP integration `up` event, JSON marshaler. */
+export const ChirpstackUplinkSchema = z
+  .object({
+    deduplicationId: z.string().optional(),
+    time: z.string().optional(),
+    deviceInfo: DeviceInfoSchema,
+    devAddr: z.string().optional(),
+    dr: z.number().optional(),
+    fCnt: z.number().optional(),
+    fPort: z.number().optional(),
+    data: z.string().optional(),
+    object: z.record(z.unknown()).optional(),
+    rxInfo: z.array(RxInfoSchema).optional(),
+    txInfo: TxInfoSchema.optional()
+  })
+  .passthrough();
+
+export type ChirpstackUplink = z.infer<typeof ChirpstackUplinkSchema>;
+
+export function parseChirpstackUplink(input: unknown): ChirpstackUplink {
+  return ChirpstackUplinkSchema.parse(input);
+}
@@ -15,7 +15,9 @@ import { RequireApiKeyScope } from '../../common/decorators/api-key-scopes.decor
 import { ApiKeyGuard } from '../../common/guards/api-key.guard';
 import { LorawanRateLimitGuard } from '../../common/guards/lorawan-rate-limit.guard';
 import { LorawanWebhookGuard } from '../../common/guards/lorawan-webhook.guard';
+import { parseChirpstackUplink } from './chirpstack-uplink.schema';
 import { LorawanService } from './lorawan.service';
+import { getTtsEventType, parseTtsEvent } from './tts-event.schema';
 import { parseTtsUplink } from './tts-uplink.schema';
 import { ZodError } from 'zod';
 
@@ -91,10 +93,29 @@ export class LorawanController {
     return { resetCount };
   }
 
+  /**
+   * TTS webhook. Besides uplinks it accepts join accepts, downlink acks/nacks/failures and
+   * solved locations, so one webhook URL can be used for all of those message types.
+   */
   @Post('uplink')
   @UseGuards(LorawanRateLimitGuard, LorawanWebhookGuard)
   @HttpCode(200)
   async uplink(@Body() body: unknown): Promise<{ status: string }> {
+    const eventType = getTtsEventType(body);
+    if (eventType) {
+      let event;
+      try {
+        event = parseTtsEvent(eventType, body);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          throw new BadRequestException(`Invalid TTS ${eventType} payload`);
+        }
+        throw error;
+      }
+      await this.lorawanService.enqueueTtsEvent(eventType, event);
+      return { status: 'ok' };
+    }
+
     let parsed;
     try {
       parsed = parseTtsUplink(body);
@@ -108,6 +129,35 @@ export class LorawanController {
     await this.lorawanService.enqueueUplink(parsed);
     return { status: 'ok' };
   }
+
+  /**
+   * ChirpStack v4 HTTP integration. ChirpStack posts every event type to one URL and tags it
+   * with `?event=`; only `up` carries a measurement, the rest are acknowledged and dropped.
+   */
+  @Post('chirpstack/uplink')
+  @UseGuards(LorawanRateLimitGuard, LorawanWebhookGuard)
+  @HttpCode(200)
+  async chirpstackUplink(
+    @Body() body: unknown,
+    @Query('event') event?: string
+  ): Promise<{ status: string }> {
+    if (event !== undefined && event !== 'up') {
+      return { status: 'ignored' };
+    }
+
+    let parsed;
+    try {
+      parsed = parseChirpstackUplink(body);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new BadRequestException('Invalid ChirpStack uplink payload');
+      }
+      throw error;
+    }
+
+    await this.lorawanService.enqueueChirpstackUplink(parsed);
+    return { status: 'ok' };
+  }
 }
 
 function parseLimit(value?: string): number {
@@ -6,9 +6,20 @@ import { logError, logInfo, logWarn } from '../../common/logging/structured-logg
 import { PrismaService } from '../../prisma/prisma.service';
 import { buildWebhookPayloadText } from '../events/payload-text';
 import { MeasurementsService } from '../measurements/measurements.service';
-import { normalizeTtsUplinkToMeasurement } from './tts-normalize';
+import { PayloadDecodersService } from '../payload-decoders/payload-decoders.service';
+import { getChirpstackDeviceUid, normalizeChirpstackUplinkToMeasurement } from './chirpstack-normalize';
+import type { ChirpstackUplink } from './chirpstack-uplink.schema';
+import { isTtsEventType, type TtsEvent, type TtsEventType, type TtsLocationSolved } from './tts-event.schema';
+import {
+  normalizeTtsLocationSolvedToMeasurement,
+  normalizeTtsUplinkToMeasurement,
+  type NormalizeResult
+} from './tts-normalize';
 import type { TtsUplink } from './tts-uplink.schema';
-import { deriveUplinkId } from './uplink-id';
+import { getUndecodedFrame, withDecodedPayload } from './uplink-decoding';
+import { deriveChirpstackUplinkId, deriveTtsEventId, deriveUplinkId } from './uplink-id';
+
+export const CHIRPSTACK_UPLINK_EVENT_TYPE = 'chirpstack.uplink';
 
 @Injectable()
 export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
@@ -21,7 +32,8 @@ export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
 
   constructor(
     private readonly prisma: PrismaService,
-    private readonly measurementsService: MeasurementsService
+    private readonly measurementsService: MeasurementsService,
+    private readonly payloadDecodersService: PayloadDecodersService
   ) {}
 
   async onApplicationBootstrap(): Promise<void> {
@@ -127,24 +139,60 @@ export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
   async enqueueUplink(parsed: TtsUplink): Promise<void> {
     const deviceUid =
       parsed.end_device_ids?.dev_eui ?? parsed.end_device_ids?.device_id ?? undefined;
-    const uplinkId = deriveUplinkId(parsed);
-    const portnum = getLorawanPortnum(parsed);
+    await this.storeUplinkEvent({
+      eventType: 'uplink',
+      deviceUid,
+      uplinkId: deriveUplinkId(parsed),
+      portnum: getLorawanPortnum(parsed),
+      payload: parsed
+    });
+  }
+
+  async enqueueChirpstackUplink(parsed: ChirpstackUplink): Promise<void> {
+    await this.storeUplinkEvent({
+      eventType: CHIRPSTACK_UPLINK_EVENT_TYPE,
+      deviceUid: getChirpstackDeviceUid(parsed),
+      uplinkId: deriveChirpstackUplinkId(parsed),
+      portnum: typeof parsed.fPort === 'number' ? String(Math.trunc(parsed.fPort)) : null,
+      payload: parsed
+    });
+  }
+
+  /** Joins, downlink outcomes and solved locations, each stored under its TTS message type. */
+  async enqueueTtsEvent(eventType: TtsEventType, parsed: TtsEvent): Promise<void> {
+    await this.storeUplinkEvent({
+      eventType,
+      deviceUid: parsed.end_device_ids?.dev_eui ?? parsed.end_device_ids?.device_id ?? undefined,
+      uplinkId: deriveTtsEventId(eventType, parsed),
+      portnum: null,
+      payload: parsed
+    });
+  }
+
+  private async storeUplinkEvent(params: {
+    eventType: string;
+    deviceUid: string | undefined;
+    uplinkId: string;
+    portnum: string | null;
+    payload: TtsUplink | ChirpstackUplink | TtsEvent;
+  }): Promise<void> {
+    const { eventType, deviceUid, uplinkId, portnum, payload } = params;
     const payloadText = buildWebhookPayloadText({
       deviceUid: deviceUid ?? null,
       portnum,
       packetId: uplinkId,
-      payload: parsed
+      payload
     });
 
     try {
       await this.prisma.webhookEvent.create({
         data: {
           source: WebhookEventSource.LORAWAN,
-          eventType: 'uplink',
+          eventType,
           deviceUid,
           portnum,
           packetId: uplinkId,
-          payloadJson: parsed as Prisma.InputJsonValue,
+          payloadJson: payload as Prisma.InputJsonValue,
           payloadText
         }
       });
@@ -201,6 +249,7 @@ export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
         receivedAt: true,
         processedAt: true,
         error: true,
+        eventType: true,
         deviceUid: true,
         packetId: true
       }
@@ -210,6 +259,7 @@ export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
         receivedAt: row.receivedAt,
         processedAt: row.processedAt,
         processingError: row.error,
+        eventType: row.eventType,
         deviceUid: row.deviceUid,
         uplinkId: row.packetId
       }))
@@ -224,9 +274,11 @@ export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
         payloadJson: true,
         receivedAt: true,
         processedAt: true,
+        eventType: true,
         deviceUid: true,
         packetId: true,
-        error: true
+        error: true,
+        decodeError: true
       }
     }).then((row) =>
       row
@@ -235,9 +287,11 @@ export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
             payload: row.payloadJson,
             receivedAt: row.receivedAt,
             processedAt: row.processedAt,
+            eventType: row.eventType,
             deviceUid: row.deviceUid,
             uplinkId: row.packetId,
-            processingError: row.error
+            processingError: row.error,
+            decodeError: row.decodeError
           }
         : null
     );
@@ -291,6 +345,7 @@ export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
       data: {
         processedAt: null,
         error: null,
+        decodeError: null,
         processingStartedAt: null,
         processingWorkerId: null
       }
@@ -331,6 +386,7 @@ export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
       data: {
         processedAt: null,
         error: null,
+        decodeError: null,
         processingStartedAt: null,
         processingWorkerId: null
       }
@@ -366,6 +422,7 @@ export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
             deviceUid: string | null;
             payloadJson: Prisma.JsonValue;
             source: WebhookEventSource;
+            eventType: string | null;
             receivedAt: Date;
           }>;
         }
@@ -394,6 +451,7 @@ export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
             deviceUid: true,
             payloadJson: true,
             source: true,
+            eventType: true,
             receivedAt: true
           }
         });
@@ -403,6 +461,7 @@ export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
         await this.processEvent(
           event.id,
           event.source,
+          event.eventType,
           event.deviceUid ?? undefined,
           event.payloadJson,
           event.receivedAt
@@ -425,6 +484,7 @@ export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
   private async processEvent(
     id: string,
     source: WebhookEventSource,
+    eventType: string | null,
     deviceUid: string | undefined,
     payload: Prisma.JsonValue,
     receivedAt: Date
@@ -436,7 +496,54 @@ export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
         return;
       }
 
-      await this.processTtsEvent(id, source, deviceUid, payload, processedAt);
+      if (eventType === 'location_solved') {
+        await this.processLocationSolvedEvent(
+          id,
+          source,
+          deviceUid,
+          payload as TtsLocationSolved,
+          processedAt
+        );
+        return;
+      }
+      if (isTtsEventType(eventType)) {
+        // Joins and downlink outcomes are kept for the event log; they carry no position.
+        await this.prisma.webhookEvent.update({
+          where: { id },
+          data: { processedAt, error: null }
+        });
+        return;
+      }
+
+      const isChirpstack = eventType === CHIRPSTACK_UPLINK_EVENT_TYPE;
+      const uplink = await this.applyPayloadDecoder(id, isChirpstack, deviceUid, payload, receivedAt, processedAt);
+      if (!uplink) {
+        return;
+      }
+      const normalized = isChirpstack
+        ? normalizeChirpstackUplinkToMeasurement(uplink as ChirpstackUplink, receivedAt)
+        : normalizeTtsUplinkToMeasurement(uplink as TtsUplink);
+      const solved = isChirpstack ? null : await this.findEarlierSolvedMeasurement(uplink as TtsUplink);
+      if (solved && !normalized.ok) {
+        // Same row as when the uplink comes first: the solved position with this uplink's
+        // time and radio data.
+        await this.processLorawanEvent(
+          solved.eventId,
+          source,
+          deviceUid,
+          normalizeTtsLocationSolvedToMeasurement(solved.message, uplink as TtsUplink),
+          processedAt,
+          solved.measurementId
+        );
+      }
+      await this.processLorawanEvent(
+        id,
+        source,
+        deviceUid,
+        normalized,
+        processedAt,
+        normalized.ok ? solved?.measurementId : undefined
+      );
     } catch (error) {
       const message = error instanceof Error ? error.message : 'processing_failed';
       await this.prisma.webhookEvent.update({
@@ -455,15 +562,148 @@ export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
     }
   }
 
-  private async processTtsEvent(
+  /**
+   * Runs the registered decoder on uplinks the network server left undecoded. The stored
+   * event keeps the raw frame, so fixing a decoder and reprocessing decodes it again.
+   * Returns null when decoding failed and the event has been marked `decode_failed`.
+   */
+  private async applyPayloadDecoder(
     id: string,
-    source: WebhookEventSource,
+    isChirpstack: boolean,
     deviceUid: string | undefined,
     payload: Prisma.JsonValue,
+    receivedAt: Date,
     processedAt: Date
+  ): Promise<TtsUplink | ChirpstackUplink | null> {
+    const uplink = payload as TtsUplink | ChirpstackUplink;
+    const frame = getUndecodedFrame(isChirpstack, uplink, receivedAt);
+    if (!frame) {
+      return uplink;
+    }
+
+    const result = await this.payloadDecodersService.decodeFrame(frame);
+    if (result.status === 'no_decoder') {
+      return uplink;
+    }
+    if (result.status === 'failed') {
+      await this.prisma.webhookEvent.update({
+        where: { id },
+        data: {
+          processedAt,
+          error: 'decode_failed',
+          decodeError: result.error
+        }
+      });
+      logWarn('webhook.decode.failed', {
+        source: 'lorawan',
+        webhookEventId: id,
+        deviceUid: deviceUid ?? null,
+        decoderId: result.decoderId,
+        reason: result.error
+      });
+      return null;
+    }
+    return withDecodedPayload(isChirpstack, uplink, result.data);
+  }
+
+  /**
+   * A solved location stands in for GPS: the uplink it was solved for (matched on its
+   * `as:up:` correlation id) becomes a measurement at the solved position. Uplinks that
+   * produced a measurement of their own are left alone. When this message comes first, the
+   * uplink takes its measurement over once it arrives (see findEarlierSolvedMeasurement).
+   */
+  private async processLocationSolvedEvent(
+    id: string,
+    source: WebhookEventSource,
+    deviceUid: string | undefined,
+    message: TtsLocationSolved,
+    processedAt: Date
+  ): Promise<void> {
+    const uplinkId = message.correlation_ids?.find((entry) => entry.startsWith('as:up:'));
+    const uplinkEvent = uplinkId
+      ? await this.prisma.webhookEvent.findUnique({
+          where: { packetId: uplinkId },
+          select: { payloadJson: true, processedAt: true, error: true }
+        })
+      : null;
+
+    if (uplinkEvent && !uplinkEvent.processedAt) {
+      // Release the claim so the uplink is processed first; the next run retries this event.
+      await this.prisma.webhookEvent.update({
+        where: { id },
+        data: { processingStartedAt: null, processingWorkerId: null }
+      });
+      return;
+    }
+    if (uplinkEvent && uplinkEvent.error === null) {
+      await this.prisma.webhookEvent.update({
+        where: { id },
+        data: { processedAt, error: null }
+      });
+      logInfo('webhook.location_solved.skipped', {
+        source: 'lorawan',
+        webhookEventId: id,
+        deviceUid: deviceUid ?? null,
+        reason: 'uplink_has_position'
+      });
+      return;
+    }
+
+    const uplink = uplinkEvent ? (uplinkEvent.payloadJson as TtsUplink) : null;
+    await this.processLorawanEvent(
+      id,
+      source,
+      deviceUid,
+      normalizeTtsLocationSolvedToMeasurement(message, uplink),
+      processedAt
+    );
+  }
+
+  /**
+   * The measurement a location_solved message made before its uplink arrived. The uplink
+   * replaces it instead of adding a second row for the same frame.
+   */
+  private async findEarlierSolvedMeasurement(
+    uplink: TtsUplink
+  ): Promise<{ eventId: string; message: TtsLocationSolved; measurementId: string } | null> {
+    const uplinkId = uplink.correlation_ids?.find((entry) => entry.startsWith('as:up:'));
+    if (!uplinkId) {
+      return null;
+    }
+    const solvedEvents = await this.prisma.webhookEvent.findMany({
+      where: {
+        eventType: 'location_solved',
+        processedAt: { not: null },
+        payloadJson: { path: ['correlation_ids'], array_contains: [uplinkId] }
+      },
+      select: { id: true, payloadJson: true }
+    });
+    if (solvedEvents.length === 0) {
+      return null;
+    }
+    const measurement = await this.prisma.measurement.findFirst({
+      where: { sourceEventId: { in: solvedEvents.map((event) => event.id) } },
+      select: { id: true, sourceEventId: true }
+    });
+    const solvedEvent = solvedEvents.find((event) => event.id === measurement?.sourceEventId);
+    if (!measurement || !solvedEvent) {
+      return null;
+    }
+    return {
+      eventId: solvedEvent.id,
+      message: solvedEvent.payloadJson as TtsLocationSolved,
+      measurementId: measurement.id
+    };
+  }
+
+  private async processLorawanEvent(
+    id: string,
+    source: WebhookEventSource,
+    deviceUid: string | undefined,
+    normalized: NormalizeResult,
+    processedAt: Date,
+    replacesMeasurementId?: string
   ): Promise<void> {
-    const parsed = payload as TtsUplink;
-    const normalized = normalizeTtsUplinkToMeasurement(parsed);
     if (!normalized.ok) {
       await this.prisma.webhookEvent.update({
         where: { id },
@@ -486,7 +726,8 @@ export class LorawanService implements OnApplicationBootstrap, OnModuleDestroy {
       {
         ...normalized.item,
         sourceEventId: id,
-        source: normalizeMeasurementSource(source)
+        source: normalizeMeasurementSource(source),
+        replacesMeasurementId
       }
     ]);
 
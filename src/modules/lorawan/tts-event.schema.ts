@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import { EndDeviceIdsSchema } from './tts-uplink.schema';
+
+/**
+ * TTS webhook messages other than uplinks. Each message carries exactly one of these keys,
+ * which doubles as the stored `WebhookEvent.eventType` (uplinks are stored as `uplink`).
+ */
+export const TTS_EVENT_TYPES = [
+  'join_accept',
+  'downlink_ack',
+  'downlink_nack',
+  'downlink_failed',
+  'location_solved'
+] as const;
+
+export type TtsEventType = (typeof TTS_EVENT_TYPES)[number];
+
+const DownlinkMessageSchema = z
+  .object({
+    f_port: z.number().optional(),
+    f_cnt: z.number().optional(),
+    frm_payload: z.string().optional(),
+    confirmed: z.boolean().optional(),
+    correlation_ids: z.array(z.string()).optional()
+  })
+  .passthrough();
+
+const TtsEventBaseSchema = z
+  .object({
+    received_at: z.string(),
+    end_device_ids: EndDeviceIdsSchema,
+    correlation_ids: z.array(z.string()).optional()
+  })
+  .passthrough();
+
+export const TtsJoinAcceptSchema = TtsEventBaseSchema.extend({
+  join_accept: z
+    .object({
+      session_key_id: z.string().optional(),
+      received_at: z.string().optional()
+    })
+    .passthrough()
+});
+
+export const TtsDownlinkAckSchema = TtsEventBaseSchema.extend({
+  downlink_ack: DownlinkMessageSchema
+});
+
+export const TtsDownlinkNackSchema = TtsEventBaseSchema.extend({
+  downlink_nack: DownlinkMessageSchema
+});
+
+export const TtsDownlinkFailedSchema = TtsEventBaseSchema.extend({
+  downlink_failed: z
+    .object({
+      downlink: DownlinkMessageSchema.optional(),
+      error: z
+        .object({
+          namespace: z.string().optional(),
+          name: z.string().optional(),
+          message_format: z.string().optional(),
+          code: z.number().optional()
+        })
+        .passthrough()
+        .optional()
+    })
+    .passthrough()
+});
+
+export const TtsLocationSolvedSchema = TtsEventBaseSchema.extend({
+  location_solved: z
+    .object({
+      service: z.string().optional(),
+      location: z
+        .object({
+          latitude: z.number(),
+          longitude: z.number(),
+          altitude: z.number().optional(),
+          accuracy: z.number().optional(),
+          source: z.string().optional()
+        })
+        .passthrough()
+    })
+    .passthrough()
+});
+
+const TTS_EVENT_SCHEMAS = {
+  join_accept: TtsJoinAcceptSchema,
+  downlink_ack: TtsDownlinkAckSchema,
+  downlink_nack: TtsDownlinkNackSchema,
+  downlink_failed: TtsDownlinkFailedSchema,
+  location_solved: TtsLocationSolvedSchema
+} satisfies Record<TtsEventType, z.ZodTypeAny>;
+
+export type TtsLocationSolved = z.infer<typeof TtsLocationSolvedSchema>;
+
+export type TtsEvent = z.infer<(typeof TTS_EVENT_SCHEMAS)[TtsEventType]>;
+
+/** The non-uplink message type a webhook body carries, or null (uplinks and unknown messages). */
+export function getTtsEventType(input: unknown): TtsEventType | null {
+  if (!input || typeof input !== 'object' || 'uplink_message' in input) {
+    return null;
+  }
+  return TTS_EVENT_TYPES.find((eventType) => eventType in input) ?? null;
+}
+
+export function parseTtsEvent(eventType: TtsEventType, input: unknown): TtsEvent {
+  return TTS_EVENT_SCHEMAS[eventType].parse(input);
+}
+
+export function isTtsEventType(value: string | null): value is TtsEventType {
+  return (TTS_EVENT_TYPES as readonly string[]).includes(value ?? '');
+}
@@ -1,7 +1,8 @@
 import { Prisma } from '@prisma/client';
+import type { TtsLocationSolved } from './tts-event.schema';
 import type { TtsUplink } from './tts-uplink.schema';
 
-type NormalizedMeasurement = {
+export type NormalizedMeasurement = {
   deviceUid: string;
   capturedAt: string;
   lat: number;
@@ -13,14 +14,11 @@ type NormalizedMeasurement = {
   sf?: number;
   bw?: number;
   freq?: number;
+  fCnt?: number;
   gatewayId?: string;
+  locationSource?: string;
   rxMetadata?: Prisma.InputJsonValue;
-  payloadRaw: {
-    received_at: string;
-    correlation_ids?: string[];
-    end_device_ids?: TtsUplink['end_device_ids'];
-    uplink_message?: TtsUplink['uplink_message'];
-  };
+  payloadRaw: Record<string, unknown>;
 };
 
 export type NormalizeResult =
@@ -38,33 +36,12 @@ export function normalizeTtsUplinkToMeasurement(parsedPayload: TtsUplink): Norma
 
   const capturedAt = parsedPayload.received_at;
 
-  const decoded = parsedPayload.uplink_message?.decoded_payload;
-  const gps = decoded && typeof decoded === 'object' && 'gps' in decoded ? (decoded as { gps?: unknown }).gps : undefined;
-
-  const latLon =
-    pickLatLon(decoded, 'lat', 'lon') ??
-    pickLatLon(decoded, 'latitude', 'longitude') ??
-    pickLatLon(gps, 'lat', 'lon') ??
-    pickLatLon(gps, 'latitude', 'longitude');
-
-  if (!latLon) {
+  const location = pickDecodedLocation(parsedPayload.uplink_message?.decoded_payload);
+  if (!location) {
     return { ok: false, reason: 'missing_gps' };
   }
 
-  const { lat, lon } = latLon;
-  const alt =
-    pickNumber(decoded, 'alt') ??
-    pickNumber(decoded, 'altitude') ??
-    pickNumber(gps, 'alt') ??
-    pickNumber(gps, 'altitude');
-  const hdop = pickNumber(decoded, 'hdop') ?? pickNumber(gps, 'hdop');
-
-  const { gatewayId, rssi, snr } = pickGateway(parsedPayload.uplink_message?.rx_metadata);
-
-  const lora = parsedPayload.uplink_message?.settings?.data_rate?.lora;
-  const sf = typeof lora?.spreading_factor === 'number' ? lora.spreading_factor : undefined;
-  const bw = typeof lora?.bandwidth === 'number' ? lora.bandwidth : undefined;
-  const freq = toNumber(parsedPayload.uplink_message?.settings?.frequency);
+  const { lat, lon, alt, hdop } = location;
 
   const payloadRaw = {
     received_at: parsedPayload.received_at,
@@ -82,18 +59,114 @@ export function normalizeTtsUplinkToMeasurement(parsedPayload: TtsUplink): Norma
       lon,
       alt: alt ?? undefined,
       hdop: hdop ?? undefined,
-      rssi: typeof rssi === 'number' ? rssi : undefined,
-      snr: typeof snr === 'number' ? snr : undefined,
-      sf,
-      bw,
-      freq: typeof freq === 'number' ? freq : undefined,
-      gatewayId,
-      rxMetadata: parsedPayload.uplink_message?.rx_metadata as Prisma.InputJsonValue | undefined,
+      ...pickUplinkRadio(parsedPayload),
+      payloadRaw
+    }
+  };
+}
+
+/**
+ * Measurement for a device without GPS: the position a TTS location solver computed for an
+ * uplink, with that uplink's time and radio data when the uplink itself is known.
+ */
+export function normalizeTtsLocationSolvedToMeasurement(
+  parsedPayload: TtsLocationSolved,
+  uplink: TtsUplink | null
+): NormalizeResult {
+  const deviceUid =
+    parsedPayload.end_device_ids?.dev_eui ?? parsedPayload.end_device_ids?.device_id ?? undefined;
+  if (!deviceUid) {
+    return { ok: false, reason: 'missing_device_uid' };
+  }
+
+  const { location } = parsedPayload.location_solved;
+  const payloadRaw = {
+    received_at: parsedPayload.received_at,
+    correlation_ids: parsedPayload.correlation_ids,
+    end_device_ids: parsedPayload.end_device_ids,
+    location_solved: parsedPayload.location_solved,
+    uplink_message: uplink?.uplink_message
+  };
+
+  return {
+    ok: true,
+    item: {
+      deviceUid,
+      capturedAt: uplink?.received_at ?? parsedPayload.received_at,
+      lat: location.latitude,
+      lon: location.longitude,
+      alt: location.altitude,
+      locationSource: location.source ?? 'location_solved',
+      ...(uplink ? pickUplinkRadio(uplink) : {}),
       payloadRaw
     }
   };
 }
 
+function pickUplinkRadio(
+  parsedPayload: TtsUplink
+): Pick<NormalizedMeasurement, 'rssi' | 'snr' | 'sf' | 'bw' | 'freq' | 'fCnt' | 'gatewayId' | 'rxMetadata'> {
+  const { gatewayId, rssi, snr } = pickGateway(parsedPayload.uplink_message?.rx_metadata);
+
+  const lora = parsedPayload.uplink_message?.settings?.data_rate?.lora;
+  const sf = typeof lora?.spreading_factor === 'number' ? lora.spreading_factor : undefined;
+  const bw = typeof lora?.bandwidth === 'number' ? lora.bandwidth : undefined;
+  const freq = toNumber(parsedPayload.uplink_message?.settings?.frequency);
+
+  return {
+    rssi: typeof rssi === 'number' ? rssi : undefined,
+    snr: typeof snr === 'number' ? snr : undefined,
+    sf,
+    bw,
+    freq: typeof freq === 'number' ? freq : undefined,
+    fCnt: parsedPayload.uplink_message?.f_cnt,
+    gatewayId,
+    rxMetadata: parsedPayload.uplink_message?.rx_metadata as Prisma.InputJsonValue | undefined
+  };
+}
+
+/**
+ * Finds a position in a decoded payload: `lat/lon` or `latitude/longitude`, either at the top
+ * level or under `gps` (Cayenne LPP output: the lowest `gps_<channel>`). Shared by every
+ * LoRaWAN network server normalizer.
+ */
+export function pickDecodedLocation(
+  decoded: unknown
+): { lat: number; lon: number; alt: number | null; hdop: number | null } | null {
+  const gps =
+    decoded && typeof decoded === 'object'
+      ? 'gps' in decoded
+        ? (decoded as { gps?: unknown }).gps
+        : pickLppGps(decoded as Record<string, unknown>)
+      : undefined;
+
+  const latLon =
+    pickLatLon(decoded, 'lat', 'lon') ??
+    pickLatLon(decoded, 'latitude', 'longitude') ??
+    pickLatLon(gps, 'lat', 'lon') ??
+    pickLatLon(gps, 'latitude', 'longitude');
+  if (!latLon) {
+    return null;
+  }
+
+  const alt =
+    pickNumber(decoded, 'alt') ??
+    pickNumber(decoded, 'altitude') ??
+    pickNumber(gps, 'alt') ??
+    pickNumber(gps, 'altitude');
+  const hdop = pickNumber(decoded, 'hdop') ?? pickNumber(gps, 'hdop');
+  return { ...latLon, alt, hdop };
+}
+
+function pickLppGps(decoded: Record<string, unknown>): unknown {
+  const channels = Object.keys(decoded)
+    .map((key) => /^gps_(\d+)$/.exec(key))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map((match) => Number(match[1]))
+    .sort((a, b) => a - b);
+  return channels.length > 0 ? decoded[`gps_${channels[0]}`] : undefined;
+}
+
 function pickLatLon(
   source: unknown,
   latKey: 'lat' | 'latitude',
@@ -119,7 +192,7 @@ function pickNumber(source: unknown, key: string): number | null {
   return toNumber(record[key]);
 }
 
-function toNumber(value: unknown): number | null {
+export function toNumber(value: unknown): number | null {
   if (typeof value === 'number' && Number.isFinite(value)) {
     return value;
   }
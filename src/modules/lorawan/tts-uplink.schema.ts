@@ -1,9 +1,14 @@
 import { z } from 'zod';
 
-const EndDeviceIdsSchema = z
+export const EndDeviceIdsSchema = z
   .object({
     dev_eui: z.string().optional(),
-    device_id: z.string().optional()
+    device_id: z.string().optional(),
+    application_ids: z
+      .object({
+        application_id: z.string().optional()
+      })
+      .optional()
   })
   .refine((value) => Boolean(value.dev_eui || value.device_id), {
     message: 'end_device_ids must include dev_eui or device_id'
@@ -40,6 +45,7 @@ const UplinkSettingsSchema = z
 const UplinkMessageSchema = z
   .object({
     f_cnt: z.number().optional(),
+    f_port: z.number().optional(),
     frm_payload: z.string().optional(),
     decoded_payload: z.record(z.unknown()).optional(),
     rx_metadata: z.array(RxMetadataSchema).optional(),
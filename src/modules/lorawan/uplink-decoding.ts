@@ -0,0 +1,54 @@
+import type { UndecodedFrame } from '../payload-decoders/payload-decoders.service';
+import { getChirpstackDeviceUid } from './chirpstack-normalize';
+import type { ChirpstackUplink } from './chirpstack-uplink.schema';
+import type { TtsUplink } from './tts-uplink.schema';
+
+/**
+ * Returns the raw frame of an uplink the network server did not decode, or null when it
+ * already carries a decoded payload (or has no frame to decode).
+ */
+export function getUndecodedFrame(
+  isChirpstack: boolean,
+  payload: unknown,
+  receivedAt: Date
+): UndecodedFrame | null {
+  if (isChirpstack) {
+    const uplink = payload as ChirpstackUplink;
+    if (uplink.object || !uplink.data) {
+      return null;
+    }
+    return {
+      deviceUid: getChirpstackDeviceUid(uplink),
+      applicationId: uplink.deviceInfo?.applicationId,
+      fPort: typeof uplink.fPort === 'number' ? uplink.fPort : null,
+      frmPayload: uplink.data,
+      receivedAt
+    };
+  }
+
+  const uplink = payload as TtsUplink;
+  const message = uplink.uplink_message;
+  if (!message || message.decoded_payload || !message.frm_payload) {
+    return null;
+  }
+  return {
+    deviceUid: uplink.end_device_ids?.dev_eui ?? uplink.end_device_ids?.device_id,
+    applicationId: uplink.end_device_ids?.application_ids?.application_id,
+    fPort: typeof message.f_port === 'number' ? message.f_port : null,
+    frmPayload: message.frm_payload,
+    receivedAt
+  };
+}
+
+/** Copy of the uplink with decoder output where the network server would have put it. */
+export function withDecodedPayload<T extends TtsUplink | ChirpstackUplink>(
+  isChirpstack: boolean,
+  payload: T,
+  data: Record<string, unknown>
+): T {
+  if (isChirpstack) {
+    return { ...payload, object: data };
+  }
+  const uplink = payload as TtsUplink;
+  return { ...uplink, uplink_message: { ...uplink.uplink_message, decoded_payload: data } } as T;
+}
@@ -28,3 +28,33 @@ export function deriveUplinkId(payload: UplinkPayload): string {
   const raw = `${deviceUid}|${fCnt}|${receivedAt}|${frmPayload}`;
   return createHash('sha256').update(raw).digest('hex');
 }
+
+/**
+ * Idempotency key for non-uplink TTS messages. Their correlation ids are shared with the
+ * uplink or downlink they belong to, so the message type is part of the key.
+ */
+export function deriveTtsEventId(eventType: string, payload: UplinkPayload): string {
+  const deviceUid = payload.end_device_ids?.dev_eui ?? payload.end_device_ids?.device_id ?? '';
+  const correlationIds = (payload.correlation_ids ?? []).join(',');
+  const raw = `tts|${eventType}|${deviceUid}|${payload.received_at ?? ''}|${correlationIds}`;
+  return createHash('sha256').update(raw).digest('hex');
+}
+
+type ChirpstackUplinkPayload = {
+  deduplicationId?: string;
+  time?: string;
+  deviceInfo?: { devEui?: string };
+  fCnt?: number;
+  data?: string;
+};
+
+/** ChirpStack retries carry the same `deduplicationId`, so it doubles as the idempotency key. */
+export function deriveChirpstackUplinkId(payload: ChirpstackUplinkPayload): string {
+  if (payload.deduplicationId) {
+    return `chirpstack:up:${payload.deduplicationId}`;
+  }
+
+  const deviceUid = payload.deviceInfo?.devEui?.toUpperCase() ?? '';
+  const raw = `chirpstack|${deviceUid}|${payload.fCnt ?? ''}|${payload.time ?? ''}|${payload.data ?? ''}`;
+  return createHash('sha256').update(raw).digest('hex');
+}
@@ -0,0 +1,97 @@
+// LoRaWAN 1.0 MAX_FCNT_GAP: a forward jump larger than this is a rejoin or counter reset,
+// not a run of lost frames.
+export const MAX_FCNT_GAP = 16384;
+
+export type PacketDeliverySummary = {
+  framesReceived: number;
+  framesExpected: number;
+  framesMissed: number;
+  counterResets: number;
+  pdr: number | null;
+};
+
+/**
+ * Number of frames lost between two consecutively received counters. A repeat of the
+ * previous counter is a duplicate (-1: it adds nothing), a drop or a jump beyond
+ * MAX_FCNT_GAP is a counter reset (0: the new run starts here).
+ */
+export function frameCounterGap(previous: number | null, current: number): number {
+  if (previous === null) {
+    return 0;
+  }
+  if (current === previous) {
+    return -1;
+  }
+  const gap = current - previous - 1;
+  return gap >= 0 && gap < MAX_FCNT_GAP ? gap : 0;
+}
+
+/** PDR for frame counters in receive order; frames before the first one received are unknown. */
+export function summarizePacketDelivery(counters: number[]): PacketDeliverySummary {
+  let framesReceived = 0;
+  let framesMissed = 0;
+  let counterResets = 0;
+  let previous: number | null = null;
+
+  for (const counter of counters) {
+    const gap = frameCounterGap(previous, counter);
+    if (gap < 0) {
+      continue;
+    }
+    if (gap === 0 && previous !== null && counter !== previous + 1) {
+      counterResets += 1;
+    }
+    framesReceived += 1;
+    framesMissed += gap;
+    previous = counter;
+  }
+
+  const framesExpected = framesReceived + framesMissed;
+  return {
+    framesReceived,
+    framesExpected,
+    framesMissed,
+    counterResets,
+    pdr: framesExpected > 0 ? framesReceived / framesExpected : null
+  };
+}
+
+/**
+ * Per-item received/missed frame counts, with counters sequenced in capture order within
+ * each stream. Matches the coverage worker's SQL, for code that rebuilds bins in memory.
+ */
+export function countFramesPerStream<T extends { capturedAt: Date; fCnt: number | null }>(
+  items: T[],
+  streamKey: (item: T) => string
+): Array<{ received: number; missed: number }> {
+  const counts = items.map(() => ({ received: 0, missed: 0 }));
+  const streams = new Map<string, number[]>();
+  items.forEach((item, index) => {
+    if (item.fCnt === null) {
+      return;
+    }
+    const key = streamKey(item);
+    const stream = streams.get(key);
+    if (stream) {
+      stream.push(index);
+    } else {
+      streams.set(key, [index]);
+    }
+  });
+
+  for (const stream of streams.values()) {
+    stream.sort(
+      (a, b) =>
+        items[a].capturedAt.getTime() - items[b].capturedAt.getTime() ||
+        (items[a].fCnt as number) - (items[b].fCnt as number)
+    );
+    let previous: number | null = null;
+    for (const index of stream) {
+      const counter = items[index].fCnt as number;
+      const gap = frameCounterGap(previous, counter);
+      counts[index] = gap < 0 ? { received: 0, missed: 0 } : { received: 1, missed: gap };
+      previous = counter;
+    }
+  }
+  return counts;
+}
@@ -31,10 +31,13 @@ export type CanonicalMeasurementInput = {
   sf?: number;
   bw?: number;
   freq?: number;
+  fCnt?: number;
   gatewayId?: string;
   payloadRaw?: string | Record<string, unknown>;
   rxMetadata?: Prisma.InputJsonValue | any[];
   sessionId?: string;
+  // A measurement of the same device this item supersedes: it is deleted and its id reused.
+  replacesMeasurementId?: string;
 };
 
 export type CanonicalIngestResult = {
@@ -207,7 +210,7 @@ export class MeasurementsService {
       }
 
       const records = items.map((item) => {
-        const id = randomUUID();
+        const id = item.replacesMeasurementId ?? randomUUID();
         const capturedAt = item.capturedAt instanceof Date ? item.capturedAt : new Date(item.capturedAt);
         const payloadRaw =
           item.payloadRaw === undefined
@@ -252,6 +255,7 @@ export class MeasurementsService {
             sf: item.sf,
             bw: item.bw,
             freq: item.freq,
+            fCnt: toFrameCounter(item.fCnt),
             gatewayId,
             payloadRaw,
             rxMetadata: item.rxMetadata ?? undefined
@@ -259,6 +263,14 @@ export class MeasurementsService {
         };
       });
 
+      // The replacement is a new row (new ingestedAt), so the coverage worker aggregates it again.
+      const replacedIds = items
+        .map((item) => item.replacesMeasurementId)
+        .filter((value): value is string => Boolean(value));
+      if (replacedIds.length > 0) {
+        await tx.measurement.deleteMany({ where: { id: { in: replacedIds }, deviceId: device.id } });
+      }
+
       const result = await tx.measurement.createMany({ data: records.map((record) => record.data) });
 
       const rxRows: Prisma.RxMetadataCreateManyInput[] = [];
@@ -528,3 +540,10 @@ function getSummaryFromRxMetadata(
   }
   return best;
 }
+
+// FCntUp is a 32-bit unsigned counter; the column is a BIGINT so the top half fits.
+function toFrameCounter(value: number | undefined): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xffffffff
+    ? value
+    : undefined;
+}
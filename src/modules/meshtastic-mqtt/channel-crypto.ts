@@ -0,0 +1,70 @@
+import { createDecipheriv } from 'crypto';
+
+// The well-known key behind the one-byte PSK `AQ==` ("default"), used by public channels.
+const DEFAULT_CHANNEL_KEY = Buffer.from('1PG7OiApB1nwvP+rz05pAQ==', 'base64');
+
+export type ChannelKey = {
+  name: string;
+  key: Buffer;
+  hash: number;
+};
+
+/**
+ * Parses `MESHTASTIC_MQTT_CHANNEL_KEYS`: comma-separated `<channel name>:<base64 PSK>` pairs,
+ * with the PSK as shown in the Meshtastic apps. Throws on a PSK of an unusable length.
+ */
+export function parseChannelKeys(value: string): ChannelKey[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0) {
+        throw new Error(`Channel key "${entry}" is not <name>:<base64 psk>`);
+      }
+      const name = entry.slice(0, separator).trim();
+      const key = expandChannelPsk(Buffer.from(entry.slice(separator + 1).trim(), 'base64'));
+      if (!key) {
+        throw new Error(`Channel "${name}" has an unencrypted or invalid PSK`);
+      }
+      return { name, key, hash: channelHash(name, key) };
+    });
+}
+
+/**
+ * Turns a channel PSK into an AES key. One-byte PSKs are shorthands: 1..10 select the
+ * default key with its last byte bumped by index - 1; 0 means no encryption (null).
+ */
+export function expandChannelPsk(psk: Buffer): Buffer | null {
+  if (psk.length === 1) {
+    if (psk[0] === 0) {
+      return null;
+    }
+    const key = Buffer.from(DEFAULT_CHANNEL_KEY);
+    key[key.length - 1] = (key[key.length - 1] + psk[0] - 1) & 0xff;
+    return key;
+  }
+  return psk.length === 16 || psk.length === 32 ? psk : null;
+}
+
+/** The 8-bit channel hash radios put in `MeshPacket.channel`: XOR of name bytes and key bytes. */
+export function channelHash(name: string, key: Buffer): number {
+  let hash = 0;
+  for (const byte of Buffer.from(name, 'utf8')) {
+    hash ^= byte;
+  }
+  for (const byte of key) {
+    hash ^= byte;
+  }
+  return hash;
+}
+
+/** AES-CTR with the firmware's nonce: packet id (LE uint64), sender node (LE uint32), zeros. */
+export function decryptPacket(key: Buffer, packetId: number, fromNode: number, encrypted: Buffer): Buffer {
+  const nonce = Buffer.alloc(16);
+  nonce.writeUInt32LE(packetId >>> 0, 0);
+  nonce.writeUInt32LE(fromNode >>> 0, 8);
+  const decipher = createDecipheriv(key.length === 32 ? 'aes-256-ctr' : 'aes-128-ctr', key, nonce);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+}
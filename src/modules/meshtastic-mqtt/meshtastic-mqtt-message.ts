@@ -0,0 +1,262 @@
+import { decryptPacket, type ChannelKey } from './channel-crypto';
+import {
+  decodeMeshtasticData,
+  decodeServiceEnvelope,
+  HW_MODEL_NAMES,
+  PORTNUM_NAMES,
+  ROLE_NAMES
+} from './meshtastic-protobuf';
+
+const BROADCAST_NODE = 0xffffffff;
+const KNOWN_PORTNUMS = new Set(Object.values(PORTNUM_NAMES));
+
+const JSON_TYPE_PORTNUMS: Record<string, string> = {
+  position: 'POSITION_APP',
+  nodeinfo: 'NODEINFO_APP',
+  telemetry: 'TELEMETRY_APP',
+  text: 'TEXT_MESSAGE_APP',
+  waypoint: 'WAYPOINT_APP',
+  neighborinfo: 'NEIGHBORINFO_APP',
+  traceroute: 'TRACEROUTE_APP'
+};
+
+const DEVICE_METRIC_KEYS = new Set([
+  'batteryLevel',
+  'voltage',
+  'channelUtilization',
+  'airUtilTx',
+  'uptimeSeconds'
+]);
+
+export type MeshtasticTopic = {
+  format: 'protobuf' | 'json';
+  channelId: string | null;
+  gatewayId: string | null;
+};
+
+export type MeshtasticMqttEvent =
+  | { ok: true; event: Record<string, unknown>; eventId: string }
+  | { ok: false; reason: 'malformed' | 'unsupported' | 'no_channel_key' | 'decrypt_failed' };
+
+/**
+ * Routes `<root>/2/e/<channel>/<gateway>` (protobuf; `c` on older firmware) and
+ * `<root>/2/json/<channel>/<gateway>`. Other topics (`map`, `stat`, ...) return null.
+ */
+export function parseMeshtasticTopic(topic: string): MeshtasticTopic | null {
+  const segments = topic.split('/');
+  for (let index = 1; index < segments.length - 1; index += 1) {
+    const kind = segments[index + 1];
+    if (segments[index] === '2' && (kind === 'e' || kind === 'c' || kind === 'json')) {
+      return {
+        format: kind === 'json' ? 'json' : 'protobuf',
+        channelId: segments[index + 2] || null,
+        gatewayId: segments[index + 3] || null
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Maps a `ServiceEnvelope` to the packet shape the pi-forwarder posts, decrypting the packet
+ * with the key of its channel (by name, else by the packet's channel hash).
+ */
+export function envelopeToMeshtasticEvent(
+  buffer: Buffer,
+  topic: MeshtasticTopic,
+  channelKeys: ChannelKey[]
+): MeshtasticMqttEvent {
+  let envelope;
+  try {
+    envelope = decodeServiceEnvelope(buffer);
+  } catch {
+    return { ok: false, reason: 'malformed' };
+  }
+  const packet = envelope.packet;
+  if (!packet || typeof packet.from !== 'number' || typeof packet.id !== 'number') {
+    return { ok: false, reason: 'malformed' };
+  }
+
+  const channelId = envelope.channelId ?? topic.channelId;
+  const { encrypted, ...fields } = packet;
+  let decoded = fields.decoded;
+  if (!decoded) {
+    if (typeof encrypted !== 'string' || fields.pkiEncrypted) {
+      return { ok: false, reason: fields.pkiEncrypted ? 'no_channel_key' : 'malformed' };
+    }
+    const byName = channelKeys.filter((entry) => entry.name === channelId);
+    const candidates =
+      byName.length > 0 ? byName : channelKeys.filter((entry) => entry.hash === fields.channel);
+    if (candidates.length === 0) {
+      return { ok: false, reason: 'no_channel_key' };
+    }
+    decoded = decryptWithAny(candidates, packet.id, packet.from, Buffer.from(encrypted, 'base64'));
+    if (!decoded) {
+      return { ok: false, reason: 'decrypt_failed' };
+    }
+  }
+
+  return buildEvent(
+    { ...fields, decoded },
+    {
+      channelId,
+      gatewayId: envelope.gatewayId ?? topic.gatewayId,
+      encrypted: typeof encrypted === 'string'
+    }
+  );
+}
+
+/** Maps the firmware's JSON output (`type` + snake_case `payload`) to the same packet shape. */
+export function jsonMessageToMeshtasticEvent(buffer: Buffer, topic: MeshtasticTopic): MeshtasticMqttEvent {
+  let message: unknown;
+  try {
+    message = JSON.parse(buffer.toString('utf8'));
+  } catch {
+    return { ok: false, reason: 'malformed' };
+  }
+  if (!isRecord(message) || typeof message.from !== 'number' || typeof message.id !== 'number') {
+    return { ok: false, reason: 'malformed' };
+  }
+  const type = typeof message.type === 'string' ? message.type : '';
+  const portnum = JSON_TYPE_PORTNUMS[type];
+  if (!portnum) {
+    return { ok: false, reason: 'unsupported' };
+  }
+
+  const hopStart = getNumber(message.hop_start);
+  const hopsAway = getNumber(message.hops_away);
+  const packet = dropNulls({
+    from: message.from,
+    to: getNumber(message.to),
+    channel: getNumber(message.channel),
+    id: message.id,
+    rxTime: getNumber(message.timestamp),
+    rxSnr: getNumber(message.snr),
+    rxRssi: getNumber(message.rssi),
+    hopStart,
+    hopLimit: hopStart !== null && hopsAway !== null ? hopStart - hopsAway : null,
+    decoded: { portnum, ...mapJsonPayload(portnum, type, message.payload) }
+  });
+
+  return buildEvent(packet, {
+    channelId: topic.channelId,
+    // In JSON messages `sender` is the node that published to MQTT, not the packet's sender.
+    gatewayId: typeof message.sender === 'string' ? message.sender : topic.gatewayId,
+    encrypted: false
+  });
+}
+
+function decryptWithAny(
+  candidates: ChannelKey[],
+  packetId: number,
+  fromNode: number,
+  encrypted: Buffer
+): Record<string, unknown> | null {
+  for (const candidate of candidates) {
+    try {
+      const decoded = decodeMeshtasticData(decryptPacket(candidate.key, packetId, fromNode, encrypted));
+      // A wrong key yields noise that rarely parses, and almost never into a known port.
+      if (typeof decoded.portnum === 'string' && KNOWN_PORTNUMS.has(decoded.portnum)) {
+        return decoded;
+      }
+    } catch {
+      // Try the next key.
+    }
+  }
+  return null;
+}
+
+function buildEvent(
+  packet: Record<string, unknown>,
+  mqtt: { channelId: string | null; gatewayId: string | null; encrypted: boolean }
+): MeshtasticMqttEvent {
+  const from = packet.from as number;
+  const to = typeof packet.to === 'number' ? packet.to : null;
+  const event: Record<string, unknown> = {
+    ...packet,
+    fromId: formatNodeId(from),
+    ...(to !== null ? { toId: to === BROADCAST_NODE ? '^all' : formatNodeId(to) } : {}),
+    // The MQTT gateway is the receiver, like the Pi behind the forwarder.
+    ...(mqtt.gatewayId ? { rxNodeId: mqtt.gatewayId } : {}),
+    _mqtt: mqtt
+  };
+  // Keyed per gateway: each gateway's reception of a packet is its own observation.
+  const eventId = `mqtt:${mqtt.gatewayId ?? 'unknown'}:${formatNodeId(from)}:${(packet.id as number).toString(16)}`;
+  return { ok: true, event, eventId };
+}
+
+function mapJsonPayload(portnum: string, type: string, payload: unknown): Record<string, unknown> {
+  if (portnum === 'TEXT_MESSAGE_APP') {
+    return typeof payload === 'string' ? { text: payload } : {};
+  }
+  if (!isRecord(payload)) {
+    return {};
+  }
+  const fields = camelizeKeys(payload);
+
+  if (portnum === 'POSITION_APP') {
+    const position: Record<string, unknown> = { ...fields };
+    if (typeof fields.latitudeI === 'number') {
+      position.latitude = fields.latitudeI / 1e7;
+    }
+    if (typeof fields.longitudeI === 'number') {
+      position.longitude = fields.longitudeI / 1e7;
+    }
+    return { position };
+  }
+  if (portnum === 'NODEINFO_APP') {
+    return {
+      user: dropNulls({
+        id: fields.id,
+        longName: fields.longname ?? fields.longName,
+        shortName: fields.shortname ?? fields.shortName,
+        hwModel: enumName(HW_MODEL_NAMES, fields.hardware ?? fields.hwModel),
+        role: enumName(ROLE_NAMES, fields.role)
+      })
+    };
+  }
+  if (portnum === 'TELEMETRY_APP') {
+    const deviceMetrics: Record<string, unknown> = {};
+    const environmentMetrics: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(fields)) {
+      (DEVICE_METRIC_KEYS.has(key) ? deviceMetrics : environmentMetrics)[key] = value;
+    }
+    return {
+      telemetry: {
+        ...(Object.keys(deviceMetrics).length > 0 ? { deviceMetrics } : {}),
+        ...(Object.keys(environmentMetrics).length > 0 ? { environmentMetrics } : {})
+      }
+    };
+  }
+  return { [type]: fields };
+}
+
+function enumName(names: Record<number, string>, value: unknown): unknown {
+  return typeof value === 'number' ? names[value] ?? value : value ?? null;
+}
+
+function camelizeKeys(record: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    result[key.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase())] = value;
+  }
+  return result;
+}
+
+function dropNulls(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record).filter(([, value]) => value !== null && value !== undefined)
+  );
+}
+
+function formatNodeId(node: number): string {
+  return `!${(node >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+function getNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { MeshtasticModule } from '../meshtastic/meshtastic.module';
+import { MeshtasticMqttService } from './meshtastic-mqtt.service';
+
+@Module({
+  imports: [MeshtasticModule],
+  providers: [MeshtasticMqttService],
+  exports: [MeshtasticMqttService]
+})
+export class MeshtasticMqttModule {}
@@ -0,0 +1,76 @@
+import { Injectable, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { logDebug } from '../../common/logging/structured-logger';
+import { MqttSubscriber, type MqttSubscriberStatus } from '../../common/mqtt/mqtt-subscriber';
+import { MeshtasticService } from '../meshtastic/meshtastic.service';
+import { parseChannelKeys, type ChannelKey } from './channel-crypto';
+import {
+  envelopeToMeshtasticEvent,
+  jsonMessageToMeshtasticEvent,
+  parseMeshtasticTopic
+} from './meshtastic-mqtt-message';
+
+const DEFAULT_TOPICS = 'msh/+/2/e/#,msh/+/2/json/#';
+const DEFAULT_CHANNEL_KEYS = 'LongFast:AQ==';
+
+/**
+ * Subscribes to a Meshtastic MQTT broker, so nodes that already uplink to MQTT need no
+ * pi-forwarder. Packets are decoded (and decrypted with the configured channel keys) into the
+ * shape the forwarder posts and stored through `MeshtasticService.ingestEvent`.
+ */
+@Injectable()
+export class MeshtasticMqttService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly subscriber: MqttSubscriber | null;
+  private readonly channelKeys: ChannelKey[];
+
+  constructor(private readonly meshtasticService: MeshtasticService) {
+    const url = process.env.MESHTASTIC_MQTT_URL?.trim();
+    // Keys only matter to the subscriber; a bad value must not stop an API that has none.
+    this.channelKeys = url
+      ? parseChannelKeys(process.env.MESHTASTIC_MQTT_CHANNEL_KEYS?.trim() || DEFAULT_CHANNEL_KEYS)
+      : [];
+    this.subscriber = url
+      ? new MqttSubscriber({
+          name: 'meshtastic_mqtt',
+          url,
+          username: process.env.MESHTASTIC_MQTT_USERNAME?.trim() || undefined,
+          password: process.env.MESHTASTIC_MQTT_PASSWORD || undefined,
+          topics: (process.env.MESHTASTIC_MQTT_TOPICS?.trim() || DEFAULT_TOPICS)
+            .split(',')
+            .map((topic) => topic.trim())
+            .filter((topic) => topic.length > 0),
+          onMessage: (topic, message) => this.handleMessage(topic, message)
+        })
+      : null;
+  }
+
+  onApplicationBootstrap(): void {
+    this.subscriber?.start();
+  }
+
+  onModuleDestroy(): void {
+    this.subscriber?.stop();
+  }
+
+  /** Null when `MESHTASTIC_MQTT_URL` is not set; `GET /api/status` then leaves the worker out. */
+  getWorkerStatus(): MqttSubscriberStatus | null {
+    return this.subscriber?.getStatus() ?? null;
+  }
+
+  private async handleMessage(topic: string, message: Buffer): Promise<void> {
+    const route = parseMeshtasticTopic(topic);
+    if (!route) {
+      return;
+    }
+
+    const result =
+      route.format === 'json'
+        ? jsonMessageToMeshtasticEvent(message, route)
+        : envelopeToMeshtasticEvent(message, route, this.channelKeys);
+    if (!result.ok) {
+      // Busy brokers carry plenty of traffic for channels we hold no key for.
+      logDebug('meshtastic_mqtt.message.skipped', { topic, reason: result.reason });
+      return;
+    }
+    await this.meshtasticService.ingestEvent(result.event, result.eventId);
+  }
+}
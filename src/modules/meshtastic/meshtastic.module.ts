@@ -4,6 +4,7 @@ import { MeshtasticService } from './meshtastic.service';
 
 @Module({
   controllers: [MeshtasticController],
-  providers: [MeshtasticService]
+  providers: [MeshtasticService],
+  exports: [MeshtasticService]
 })
 export class MeshtasticModule {}
@@ -0,0 +1,84 @@
+type LppField = {
+  name: string;
+  size: number;
+  read: (bytes: Buffer, offset: number) => unknown;
+};
+
+const int = (size: number, divisor = 1) => (bytes: Buffer, offset: number) =>
+  bytes.readIntBE(offset, size) / divisor;
+const uint = (size: number, divisor = 1) => (bytes: Buffer, offset: number) =>
+  bytes.readUIntBE(offset, size) / divisor;
+const xyz = (divisor: number) => (bytes: Buffer, offset: number) => ({
+  x: bytes.readInt16BE(offset) / divisor,
+  y: bytes.readInt16BE(offset + 2) / divisor,
+  z: bytes.readInt16BE(offset + 4) / divisor
+});
+
+/**
+ * IPSO-derived LPP types, named like the TTS built-in Cayenne formatter output
+ * (`<name>_<channel>`), so decoded payloads look the same whichever side decoded them.
+ */
+const LPP_TYPES: Record<number, LppField> = {
+  0: { name: 'digital_in', size: 1, read: uint(1) },
+  1: { name: 'digital_out', size: 1, read: uint(1) },
+  2: { name: 'analog_in', size: 2, read: int(2, 100) },
+  3: { name: 'analog_out', size: 2, read: int(2, 100) },
+  100: { name: 'generic_sensor', size: 4, read: uint(4) },
+  101: { name: 'luminosity', size: 2, read: uint(2) },
+  102: { name: 'presence', size: 1, read: uint(1) },
+  103: { name: 'temperature', size: 2, read: int(2, 10) },
+  104: { name: 'relative_humidity', size: 1, read: uint(1, 2) },
+  113: { name: 'accelerometer', size: 6, read: xyz(1000) },
+  115: { name: 'barometric_pressure', size: 2, read: uint(2, 10) },
+  116: { name: 'voltage', size: 2, read: uint(2, 100) },
+  117: { name: 'current', size: 2, read: uint(2, 1000) },
+  118: { name: 'frequency', size: 4, read: uint(4) },
+  120: { name: 'percentage', size: 1, read: uint(1) },
+  121: { name: 'altitude', size: 2, read: int(2) },
+  125: { name: 'concentration', size: 2, read: uint(2) },
+  128: { name: 'power', size: 2, read: uint(2) },
+  130: { name: 'distance', size: 4, read: uint(4, 1000) },
+  131: { name: 'energy', size: 4, read: uint(4, 1000) },
+  132: { name: 'direction', size: 2, read: uint(2) },
+  133: { name: 'unixtime', size: 4, read: uint(4) },
+  134: { name: 'gyrometer', size: 6, read: xyz(100) },
+  135: {
+    name: 'colour',
+    size: 3,
+    read: (bytes, offset) => ({ r: bytes[offset], g: bytes[offset + 1], b: bytes[offset + 2] })
+  },
+  136: {
+    name: 'gps',
+    size: 9,
+    read: (bytes, offset) => ({
+      latitude: bytes.readIntBE(offset, 3) / 10000,
+      longitude: bytes.readIntBE(offset + 3, 3) / 10000,
+      altitude: bytes.readIntBE(offset + 6, 3) / 100
+    })
+  },
+  142: { name: 'switch', size: 1, read: uint(1) }
+};
+
+/** Decodes a Cayenne LPP frame; throws on unknown types or a truncated frame. */
+export function decodeCayenneLpp(bytes: Buffer): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+  let offset = 0;
+  while (offset < bytes.length) {
+    if (offset + 2 > bytes.length) {
+      throw new Error(`Cayenne LPP frame truncated at byte ${offset}`);
+    }
+    const channel = bytes[offset];
+    const typeId = bytes[offset + 1];
+    const field = LPP_TYPES[typeId];
+    if (!field) {
+      throw new Error(`Unsupported Cayenne LPP type ${typeId} on channel ${channel}`);
+    }
+    offset += 2;
+    if (offset + field.size > bytes.length) {
+      throw new Error(`Cayenne LPP ${field.name} on channel ${channel} is truncated`);
+    }
+    data[`${field.name}_${channel}`] = field.read(bytes, offset);
+    offset += field.size;
+  }
+  return data;
+}
@@ -0,0 +1,228 @@
+import { ChildProcess, spawn } from 'child_process';
+import { Script } from 'vm';
+
+const FORMATTER_TIMEOUT_MS = 100;
+// Covers a round trip through the sandbox process, including starting a fresh one.
+const FORMATTER_WALL_TIMEOUT_MS = 2_000;
+const MAX_OUTPUT_LENGTH = 64_000;
+const MAX_CACHED_FORMATTERS = 100;
+const SANDBOX_MAX_HEAP_MB = 64;
+
+export type FormatterInput = {
+  bytes: number[];
+  fPort: number | null;
+  recvTime: string;
+};
+
+export type FormatterOutput = {
+  data: Record<string, unknown>;
+  warnings: string[];
+};
+
+type FormatterRequest = {
+  id: number;
+  cacheKey: string | null;
+  source: string;
+  input: FormatterInput;
+};
+
+type FormatterResponse = { id: number; raw: string | null } | { id: number; error: string };
+
+const RUNNER_SOURCE = `(() => {
+  if (typeof decodeUplink !== 'function') {
+    throw new Error('Formatter must define decodeUplink(input)');
+  }
+  const input = JSON.parse(__input);
+  input.recvTime = new Date(input.recvTime);
+  return JSON.stringify(decodeUplink(input));
+})()`;
+
+// Runs in the sandbox process. Plain JavaScript, so the same string works from ts-node, jest and dist.
+const SANDBOX_SOURCE = `
+const { Script, createContext } = require('vm');
+const config = ${JSON.stringify({
+  runnerSource: RUNNER_SOURCE,
+  timeoutMs: FORMATTER_TIMEOUT_MS,
+  maxCached: MAX_CACHED_FORMATTERS
+})};
+const runner = new Script(config.runnerSource, { filename: 'payload-formatter-runner.js' });
+const contexts = new Map();
+
+function loadFormatter(cacheKey, source) {
+  const cached = cacheKey === null ? undefined : contexts.get(cacheKey);
+  if (cached) {
+    contexts.delete(cacheKey);
+    contexts.set(cacheKey, cached);
+    return cached;
+  }
+  const context = createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: 'afterEvaluate'
+  });
+  new Script(source, { filename: 'payload-formatter.js' }).runInContext(context, { timeout: config.timeoutMs });
+  if (cacheKey !== null) {
+    contexts.set(cacheKey, context);
+    if (contexts.size > config.maxCached) {
+      contexts.delete(contexts.keys().next().value);
+    }
+  }
+  return context;
+}
+
+process.on('message', ({ id, cacheKey, source, input }) => {
+  try {
+    const context = loadFormatter(cacheKey, source);
+    context.__input = JSON.stringify(input);
+    const raw = runner.runInContext(context, { timeout: config.timeoutMs });
+    process.send({ id, raw: typeof raw === 'string' ? raw : null });
+  } catch (error) {
+    const message =
+      error && typeof error === 'object' && typeof error.message === 'string' ? error.message : String(error);
+    process.send({ id, error: message });
+  }
+});
+process.on('disconnect', () => process.exit(0));
+`;
+
+/** Throws a SyntaxError when the formatter does not compile. */
+export function compileFormatterScript(source: string): Script {
+  return new Script(source, { filename: 'payload-formatter.js' });
+}
+
+/**
+ * Runs TTS-style `decodeUplink(input)` formatters in a separate Node process with a 64 MB
+ * heap and no environment, so a formatter cannot read server secrets and running out of
+ * memory only takes the sandbox down. (A worker thread is not enough: one allocation larger
+ * than its heap limit aborts the whole server.) Inside the sandbox each formatter gets a
+ * fresh V8 context: no `require`, `process` or timers, no `eval`/`Function` from strings,
+ * and a 100 ms CPU timeout per call. A sandbox that crashes or outlasts the wall-clock
+ * timeout is killed; the next call starts a new one.
+ *
+ * Calls run one at a time. With a `cacheKey` the evaluated formatter is kept in the sandbox
+ * and reused, so top-level state in a script lives as long as that key.
+ */
+export class FormatterSandbox {
+  private child: ChildProcess | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private nextId = 0;
+
+  run(source: string, input: FormatterInput, cacheKey?: string): Promise<FormatterOutput> {
+    const result = this.queue.then(() => this.dispatch({ cacheKey: cacheKey ?? null, source, input }));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  close(): void {
+    const child = this.child;
+    this.child = null;
+    child?.kill('SIGKILL');
+  }
+
+  private dispatch(request: Omit<FormatterRequest, 'id'>): Promise<FormatterOutput> {
+    const child = this.getChild();
+    const id = (this.nextId += 1);
+
+    return new Promise<FormatterOutput>((resolve, reject) => {
+      const finish = (settle: () => void) => {
+        clearTimeout(timer);
+        child.off('message', onMessage);
+        child.off('exit', onExit);
+        settle();
+      };
+      const onMessage = (response: FormatterResponse) => {
+        if (response.id !== id) {
+          return;
+        }
+        finish(() => {
+          if ('error' in response) {
+            reject(new Error(response.error));
+            return;
+          }
+          try {
+            resolve(parseFormatterOutput(response.raw));
+          } catch (error) {
+            reject(error);
+          }
+        });
+      };
+      const onExit = (code: number | null, signal: NodeJS.Signals | null) => {
+        this.discard(child);
+        finish(() =>
+          reject(
+            new Error(
+              // V8 aborts the process when the heap limit is reached.
+              signal === 'SIGABRT'
+                ? 'Formatter exceeded its memory limit'
+                : `Formatter sandbox stopped unexpectedly (${signal ?? `exit code ${code}`})`
+            )
+          )
+        );
+      };
+      const timer = setTimeout(() => {
+        this.discard(child);
+        finish(() => reject(new Error(`Formatter timed out after ${FORMATTER_WALL_TIMEOUT_MS} ms`)));
+      }, FORMATTER_WALL_TIMEOUT_MS);
+
+      child.on('message', onMessage);
+      child.on('exit', onExit);
+      const message: FormatterRequest = { ...request, id };
+      child.send(message);
+    });
+  }
+
+  private getChild(): ChildProcess {
+    if (!this.child) {
+      const child = spawn(process.execPath, [`--max-old-space-size=${SANDBOX_MAX_HEAP_MB}`, '-e', SANDBOX_SOURCE], {
+        env: {},
+        stdio: ['ignore', 'ignore', 'ignore', 'ipc'],
+        serialization: 'json'
+      });
+      // Failing to start surfaces as an exit; without a listener it would be thrown.
+      child.on('error', () => this.discard(child));
+      // An idle sandbox must not keep the server process alive.
+      child.unref();
+      child.channel?.unref();
+      this.child = child;
+    }
+    return this.child;
+  }
+
+  private discard(child: ChildProcess): void {
+    if (this.child === child) {
+      this.child = null;
+    }
+    child.kill('SIGKILL');
+  }
+}
+
+function parseFormatterOutput(raw: string | null): FormatterOutput {
+  if (raw === null) {
+    throw new Error('decodeUplink must return { data }');
+  }
+  if (raw.length > MAX_OUTPUT_LENGTH) {
+    throw new Error('decodeUplink output is too large');
+  }
+  return toFormatterOutput(JSON.parse(raw));
+}
+
+function toFormatterOutput(result: unknown): FormatterOutput {
+  if (!result || typeof result !== 'object') {
+    throw new Error('decodeUplink must return { data }');
+  }
+  const record = result as Record<string, unknown>;
+  const errors = toStringList(record.errors);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+  if (!record.data || typeof record.data !== 'object' || Array.isArray(record.data)) {
+    throw new Error('decodeUplink must return { data }');
+  }
+  return {
+    data: record.data as Record<string, unknown>,
+    warnings: toStringList(record.warnings)
+  };
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map((entry) => String(entry)) : [];
+}
@@ -0,0 +1,26 @@
+import { PayloadDecoderType } from '@prisma/client';
+import { IsBoolean, IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreatePayloadDecoderDto {
+  @IsEnum(PayloadDecoderType)
+  type!: PayloadDecoderType;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  deviceUid?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  applicationId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64_000)
+  script?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
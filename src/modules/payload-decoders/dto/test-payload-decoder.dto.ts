@@ -0,0 +1,22 @@
+import { PayloadDecoderType } from '@prisma/client';
+import { IsBase64, IsEnum, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+
+export class TestPayloadDecoderDto {
+  @IsEnum(PayloadDecoderType)
+  type!: PayloadDecoderType;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64_000)
+  script?: string;
+
+  @IsBase64()
+  @MaxLength(1024)
+  frmPayload!: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(255)
+  fPort?: number;
+}
@@ -0,0 +1,17 @@
+import { PayloadDecoderType } from '@prisma/client';
+import { IsBoolean, IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class UpdatePayloadDecoderDto {
+  @IsOptional()
+  @IsEnum(PayloadDecoderType)
+  type?: PayloadDecoderType;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64_000)
+  script?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
@@ -0,0 +1,52 @@
+import { Body, Controller, Delete, Get, HttpCode, Param, Patch, Post, UseGuards } from '@nestjs/common';
+import { ApiKeyScope } from '@prisma/client';
+import { RequireApiKeyScope } from '../../common/decorators/api-key-scopes.decorator';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { CreatePayloadDecoderDto } from './dto/create-payload-decoder.dto';
+import { TestPayloadDecoderDto } from './dto/test-payload-decoder.dto';
+import { UpdatePayloadDecoderDto } from './dto/update-payload-decoder.dto';
+import { PayloadDecodersService } from './payload-decoders.service';
+
+@Controller('api/payload-decoders')
+@UseGuards(ApiKeyGuard)
+@RequireApiKeyScope(ApiKeyScope.QUERY)
+export class PayloadDecodersController {
+  constructor(private readonly payloadDecodersService: PayloadDecodersService) {}
+
+  @Get()
+  async list() {
+    const items = await this.payloadDecodersService.list();
+    return { items, count: items.length };
+  }
+
+  // Formatters run on the server, so installing one takes a key the browser UI never holds.
+  @Post()
+  @RequireApiKeyScope(ApiKeyScope.ADMIN)
+  async create(@Body() body: CreatePayloadDecoderDto) {
+    return this.payloadDecodersService.create(body);
+  }
+
+  @Post('test')
+  @HttpCode(200)
+  @RequireApiKeyScope(ApiKeyScope.ADMIN)
+  async test(@Body() body: TestPayloadDecoderDto) {
+    return this.payloadDecodersService.test(body.type, body.script, {
+      frmPayload: body.frmPayload,
+      fPort: body.fPort ?? null
+    });
+  }
+
+  @Patch(':id')
+  @RequireApiKeyScope(ApiKeyScope.ADMIN)
+  async update(@Param('id') id: string, @Body() body: UpdatePayloadDecoderDto) {
+    return this.payloadDecodersService.update(id, body);
+  }
+
+  @Delete(':id')
+  @HttpCode(200)
+  @RequireApiKeyScope(ApiKeyScope.ADMIN)
+  async remove(@Param('id') id: string): Promise<{ status: string }> {
+    await this.payloadDecodersService.remove(id);
+    return { status: 'ok' };
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PayloadDecodersController } from './payload-decoders.controller';
+import { PayloadDecodersService } from './payload-decoders.service';
+
+@Module({
+  controllers: [PayloadDecodersController],
+  providers: [PayloadDecodersService],
+  exports: [PayloadDecodersService]
+})
+export class PayloadDecodersModule {}
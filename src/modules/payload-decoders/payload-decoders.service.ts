@@ -0,0 +1,179 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  OnModuleDestroy
+} from '@nestjs/common';
+import { PayloadDecoder, PayloadDecoderType, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { decodeCayenneLpp } from './decoders/cayenne-lpp';
+import { compileFormatterScript, FormatterSandbox } from './decoders/javascript-formatter';
+import { CreatePayloadDecoderDto } from './dto/create-payload-decoder.dto';
+import { UpdatePayloadDecoderDto } from './dto/update-payload-decoder.dto';
+
+export type UndecodedFrame = {
+  deviceUid?: string;
+  applicationId?: string;
+  fPort: number | null;
+  frmPayload: string;
+  receivedAt: Date;
+};
+
+export type FrameDecodeResult =
+  | { status: 'no_decoder' }
+  | { status: 'decoded'; decoderId: string; data: Record<string, unknown>; warnings: string[] }
+  | { status: 'failed'; decoderId: string; error: string };
+
+@Injectable()
+export class PayloadDecodersService implements OnModuleDestroy {
+  private readonly sandbox = new FormatterSandbox();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  onModuleDestroy(): void {
+    this.sandbox.close();
+  }
+
+  async list(): Promise<PayloadDecoder[]> {
+    return this.prisma.payloadDecoder.findMany({ orderBy: { createdAt: 'asc' } });
+  }
+
+  async create(dto: CreatePayloadDecoderDto): Promise<PayloadDecoder> {
+    const deviceUid = dto.deviceUid?.trim() || null;
+    const applicationId = dto.applicationId?.trim() || null;
+    if (Boolean(deviceUid) === Boolean(applicationId)) {
+      throw new BadRequestException('Provide either deviceUid or applicationId');
+    }
+    const script = normalizeScript(dto.type, dto.script);
+
+    try {
+      return await this.prisma.payloadDecoder.create({
+        data: { type: dto.type, deviceUid, applicationId, script, enabled: dto.enabled ?? true }
+      });
+    } catch (error) {
+      throw toConflict(error);
+    }
+  }
+
+  async update(id: string, dto: UpdatePayloadDecoderDto): Promise<PayloadDecoder> {
+    const existing = await this.prisma.payloadDecoder.findUnique({ where: { id } });
+    if (!existing) {
+      throw new NotFoundException('Payload decoder not found');
+    }
+    const type = dto.type ?? existing.type;
+    const script = normalizeScript(type, dto.script !== undefined ? dto.script : existing.script);
+
+    return this.prisma.payloadDecoder.update({
+      where: { id },
+      data: { type, script, ...(dto.enabled !== undefined ? { enabled: dto.enabled } : {}) }
+    });
+  }
+
+  async remove(id: string): Promise<void> {
+    const result = await this.prisma.payloadDecoder.deleteMany({ where: { id } });
+    if (result.count === 0) {
+      throw new NotFoundException('Payload decoder not found');
+    }
+  }
+
+  /**
+   * Picks the enabled decoder for a frame, a device-specific one before an application one.
+   * DevEUIs match case-insensitively because TTS and ChirpStack disagree on their case.
+   */
+  async findDecoder(frame: Pick<UndecodedFrame, 'deviceUid' | 'applicationId'>): Promise<PayloadDecoder | null> {
+    if (frame.deviceUid) {
+      const byDevice = await this.prisma.payloadDecoder.findFirst({
+        where: { enabled: true, deviceUid: { equals: frame.deviceUid, mode: 'insensitive' } }
+      });
+      if (byDevice) {
+        return byDevice;
+      }
+    }
+    if (frame.applicationId) {
+      return this.prisma.payloadDecoder.findFirst({
+        where: { enabled: true, applicationId: frame.applicationId }
+      });
+    }
+    return null;
+  }
+
+  async decodeFrame(frame: UndecodedFrame): Promise<FrameDecodeResult> {
+    const decoder = await this.findDecoder(frame);
+    if (!decoder) {
+      return { status: 'no_decoder' };
+    }
+    try {
+      // Saved decoders stay evaluated in the sandbox until they are edited.
+      const output = await this.runDecoder(
+        decoder.type,
+        decoder.script,
+        frame,
+        `${decoder.id}:${decoder.updatedAt.getTime()}`
+      );
+      return { status: 'decoded', decoderId: decoder.id, ...output };
+    } catch (error) {
+      return { status: 'failed', decoderId: decoder.id, error: getErrorMessage(error) };
+    }
+  }
+
+  /** Dry run for the API: decodes a frame with an unsaved decoder definition. */
+  async test(
+    type: PayloadDecoderType,
+    script: string | undefined,
+    frame: Pick<UndecodedFrame, 'fPort' | 'frmPayload'>
+  ): Promise<{ data: Record<string, unknown>; warnings: string[] }> {
+    const normalizedScript = normalizeScript(type, script);
+    try {
+      return await this.runDecoder(type, normalizedScript, { ...frame, receivedAt: new Date() });
+    } catch (error) {
+      throw new BadRequestException(`Decode failed: ${getErrorMessage(error)}`);
+    }
+  }
+
+  private async runDecoder(
+    type: PayloadDecoderType,
+    script: string | null,
+    frame: Pick<UndecodedFrame, 'fPort' | 'frmPayload' | 'receivedAt'>,
+    cacheKey?: string
+  ): Promise<{ data: Record<string, unknown>; warnings: string[] }> {
+    const bytes = Buffer.from(frame.frmPayload, 'base64');
+    if (type === PayloadDecoderType.CAYENNE_LPP) {
+      return { data: decodeCayenneLpp(bytes), warnings: [] };
+    }
+    return this.sandbox.run(
+      script ?? '',
+      { bytes: Array.from(bytes), fPort: frame.fPort, recvTime: frame.receivedAt.toISOString() },
+      cacheKey
+    );
+  }
+}
+
+function normalizeScript(type: PayloadDecoderType, script: string | null | undefined): string | null {
+  if (type !== PayloadDecoderType.JAVASCRIPT) {
+    return null;
+  }
+  if (!script || !script.trim()) {
+    throw new BadRequestException('JavaScript decoders need a script');
+  }
+  try {
+    compileFormatterScript(script);
+  } catch (error) {
+    throw new BadRequestException(`Script does not compile: ${getErrorMessage(error)}`);
+  }
+  return script;
+}
+
+function toConflict(error: unknown): unknown {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+    return new ConflictException('A decoder for this device or application already exists');
+  }
+  return error;
+}
+
+function getErrorMessage(error: unknown): string {
+  if (error && typeof error === 'object' && typeof (error as { message?: unknown }).message === 'string') {
+    return (error as { message: string }).message;
+  }
+  return String(error);
+}
@@ -0,0 +1,168 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  HttpCode,
+  Post,
+  Req,
+  UploadedFiles,
+  UseGuards,
+  UseInterceptors
+} from '@nestjs/common';
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import { ApiKeyScope } from '@prisma/client';
+import { RequireApiKeyScope } from '../../common/decorators/api-key-scopes.decorator';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { getOwnerIdFromRequest, OwnerContextRequest } from '../../common/owner-context';
+import {
+  SessionImportParams,
+  SessionImportPreview,
+  SessionImportResult,
+  SessionImportService
+} from './session-import.service';
+import { TrackInterpolation } from './track-import';
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+const DEFAULT_MAX_GAP_SECONDS = 60;
+const MAX_CLOCK_OFFSET_SECONDS = 7 * 24 * 3600;
+const MAX_GAP_LIMIT_SECONDS = 3600;
+
+// Multer's file shape, limited to what the import reads.
+type UploadedFile = {
+  originalname: string;
+  buffer: Buffer;
+};
+
+type SessionImportFiles = {
+  gpx?: UploadedFile[];
+  log?: UploadedFile[];
+};
+
+// Multipart text fields; everything arrives as strings.
+type SessionImportBody = {
+  deviceId?: string;
+  deviceUid?: string;
+  receiverId?: string;
+  clockOffsetSeconds?: string;
+  interpolation?: string;
+  maxGapSeconds?: string;
+  name?: string;
+  notes?: string;
+};
+
+const UPLOAD_FIELDS = FileFieldsInterceptor(
+  [
+    { name: 'gpx', maxCount: 1 },
+    { name: 'log', maxCount: 1 }
+  ],
+  { limits: { fileSize: MAX_UPLOAD_BYTES } }
+);
+
+/**
+ * Builds a session from a GPX track and an optional JSONL packet log uploaded as
+ * multipart/form-data (`gpx`, `log`). Preview first; it reports how the files align.
+ */
+@Controller('api/sessions/import')
+@UseGuards(ApiKeyGuard)
+@RequireApiKeyScope(ApiKeyScope.QUERY)
+export class SessionImportController {
+  constructor(private readonly sessionImportService: SessionImportService) {}
+
+  @Post('preview')
+  @HttpCode(200)
+  @UseInterceptors(UPLOAD_FIELDS)
+  async preview(
+    @UploadedFiles() files: SessionImportFiles | undefined,
+    @Body() body: SessionImportBody,
+    @Req() request: OwnerContextRequest
+  ): Promise<SessionImportPreview> {
+    return this.sessionImportService.preview(parseImportParams(files, body, request));
+  }
+
+  @Post()
+  @UseInterceptors(UPLOAD_FIELDS)
+  async create(
+    @UploadedFiles() files: SessionImportFiles | undefined,
+    @Body() body: SessionImportBody,
+    @Req() request: OwnerContextRequest
+  ): Promise<SessionImportResult> {
+    return this.sessionImportService.create({
+      ...parseImportParams(files, body, request),
+      name: body.name,
+      notes: body.notes
+    });
+  }
+}
+
+function parseImportParams(
+  files: SessionImportFiles | undefined,
+  body: SessionImportBody,
+  request: OwnerContextRequest
+): SessionImportParams {
+  const gpx = files?.gpx?.[0];
+  if (!gpx) {
+    throw new BadRequestException('gpx file is required');
+  }
+  const log = files?.log?.[0];
+  const deviceId = parseOptionalText(body.deviceId);
+  const deviceUid = parseOptionalText(body.deviceUid);
+  if (deviceId && deviceUid) {
+    throw new BadRequestException('Provide either deviceId or deviceUid, not both');
+  }
+
+  return {
+    gpx: gpx.buffer.toString('utf8'),
+    log: log ? log.buffer.toString('utf8') : undefined,
+    deviceId,
+    deviceUid,
+    receiverId: parseOptionalText(body.receiverId),
+    clockOffsetSeconds:
+      parseOptionalNumber(
+        body.clockOffsetSeconds,
+        'clockOffsetSeconds',
+        -MAX_CLOCK_OFFSET_SECONDS,
+        MAX_CLOCK_OFFSET_SECONDS
+      ) ?? 0,
+    interpolation: parseInterpolation(body.interpolation),
+    maxGapSeconds:
+      parseOptionalNumber(body.maxGapSeconds, 'maxGapSeconds', 0, MAX_GAP_LIMIT_SECONDS) ??
+      DEFAULT_MAX_GAP_SECONDS,
+    ownerId: getOwnerIdFromRequest(request)
+  };
+}
+
+function parseInterpolation(value: string | undefined): TrackInterpolation {
+  const normalized = parseOptionalText(value);
+  if (!normalized) {
+    return 'linear';
+  }
+  if (normalized === 'linear' || normalized === 'nearest') {
+    return normalized;
+  }
+  throw new BadRequestException('interpolation must be linear or nearest');
+}
+
+function parseOptionalNumber(
+  value: string | undefined,
+  name: string,
+  min: number,
+  max: number
+): number | undefined {
+  const normalized = parseOptionalText(value);
+  if (normalized === undefined) {
+    return undefined;
+  }
+  const parsed = Number(normalized);
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new BadRequestException(`${name} must be a number between ${min} and ${max}`);
+  }
+  return parsed;
+}
+
+function parseOptionalText(value?: string): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { MeasurementsModule } from '../measurements/measurements.module';
+import { SessionImportController } from './session-import.controller';
+import { SessionImportService } from './session-import.service';
+
+@Module({
+  imports: [MeasurementsModule],
+  controllers: [SessionImportController],
+  providers: [SessionImportService]
+})
+export class SessionImportModule {}
@@ -0,0 +1,324 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { isHomeDeviceRole } from '../../common/device-role';
+import { logError } from '../../common/logging/structured-logger';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CanonicalMeasurementInput, MeasurementsService } from '../measurements/measurements.service';
+import {
+  buildTrackImportPlan,
+  parseGpxTrack,
+  parsePacketLog,
+  TrackImportError,
+  TrackImportItem,
+  TrackImportOptions
+} from './track-import';
+
+export type SessionImportParams = {
+  gpx: string;
+  log?: string;
+  deviceId?: string;
+  deviceUid?: string;
+  // Receiver recorded as gatewayId when the log lines do not name one.
+  receiverId?: string;
+  clockOffsetSeconds: number;
+  interpolation: TrackImportOptions['interpolation'];
+  maxGapSeconds: number;
+  ownerId?: string;
+};
+
+export type SessionImportPreview = {
+  trackPointCount: number;
+  trackStart: string;
+  trackEnd: string;
+  packetCount: number;
+  skippedLineCount: number;
+  otherSenderCount: number;
+  outsideTrackCount: number;
+  senders: Array<{ fromId: string; count: number }>;
+  measurementCount: number;
+  startTime: string | null;
+  endTime: string | null;
+  deviceId: string | null;
+  deviceUid: string | null;
+  deviceName: string | null;
+  deviceExists: boolean;
+  warnings: string[];
+  blockingErrors: string[];
+  canCreate: boolean;
+  defaultSessionName: string | null;
+};
+
+export type SessionImportResult = {
+  sessionId: string;
+  deviceId: string;
+  deviceUid: string;
+  sessionName: string | null;
+  measurementCount: number;
+  meshtasticRxCount: number;
+  startTime: string;
+  endTime: string;
+};
+
+// Points per ingest transaction; a long recording would otherwise outlast its timeout.
+const INGEST_CHUNK_SIZE = 1000;
+
+type SessionImportSummaryInternal = SessionImportPreview & {
+  items: TrackImportItem[];
+};
+
+@Injectable()
+export class SessionImportService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly measurementsService: MeasurementsService
+  ) {}
+
+  async preview(params: SessionImportParams): Promise<SessionImportPreview> {
+    const { items: _items, ...preview } = await this.buildSummary(params);
+    return preview;
+  }
+
+  /**
+   * Creates a session around the aligned points. Measurements go through
+   * `ingestCanonical` like live uplinks, in chunks of INGEST_CHUNK_SIZE, so coverage
+   * picks them up on its next pass. A failed chunk removes the whole session again.
+   */
+  async create(
+    params: SessionImportParams & { name?: string; notes?: string }
+  ): Promise<SessionImportResult> {
+    const summary = await this.buildSummary(params);
+    if (!summary.canCreate || !summary.deviceUid || !summary.startTime || !summary.endTime) {
+      throw new BadRequestException(summary.blockingErrors.join(' ') || 'Nothing to import');
+    }
+    const deviceUid = summary.deviceUid;
+
+    const device = await this.prisma.device.upsert({
+      where: { deviceUid },
+      update: {},
+      create: { deviceUid, ownerId: params.ownerId ?? null },
+      select: { id: true, lastSeenAt: true }
+    });
+    const session = await this.prisma.session.create({
+      data: {
+        deviceId: device.id,
+        ownerId: params.ownerId ?? null,
+        name: normalizeOptionalText(params.name) ?? summary.defaultSessionName ?? undefined,
+        notes: normalizeOptionalText(params.notes),
+        startedAt: new Date(summary.startTime),
+        endedAt: new Date(summary.endTime)
+      },
+      select: { id: true, name: true }
+    });
+
+    try {
+      let measurementCount = 0;
+      const measurementIds: string[] = [];
+      for (let offset = 0; offset < summary.items.length; offset += INGEST_CHUNK_SIZE) {
+        const ingest = await this.measurementsService.ingestCanonical(
+          deviceUid,
+          summary.items
+            .slice(offset, offset + INGEST_CHUNK_SIZE)
+            .map((item) => toCanonicalMeasurement(item, session.id, params.receiverId)),
+          // Historic points must not make the device look online.
+          device.lastSeenAt ?? new Date(summary.endTime)
+        );
+        measurementCount += ingest.inserted;
+        measurementIds.push(...ingest.measurementIds);
+      }
+
+      const meshtasticRows: Prisma.MeshtasticRxCreateManyInput[] = [];
+      summary.items.forEach((item, index) => {
+        if (item.packet) {
+          meshtasticRows.push({
+            measurementId: measurementIds[index],
+            rxTime: item.packet.loggedAt,
+            rxRssi: item.packet.rssi,
+            rxSnr: item.packet.snr,
+            hopLimit: item.packet.hopLimit,
+            hopStart: item.packet.hopStart,
+            relayNode: item.packet.relayNode,
+            transportMechanism: item.packet.transportMechanism,
+            fromId: item.packet.fromId,
+            toId: item.packet.toId,
+            raw: item.packet.raw as Prisma.InputJsonValue
+          });
+        }
+      });
+      for (let offset = 0; offset < meshtasticRows.length; offset += INGEST_CHUNK_SIZE) {
+        await this.prisma.meshtasticRx.createMany({
+          data: meshtasticRows.slice(offset, offset + INGEST_CHUNK_SIZE)
+        });
+      }
+
+      return {
+        sessionId: session.id,
+        deviceId: device.id,
+        deviceUid,
+        sessionName: session.name ?? null,
+        measurementCount,
+        meshtasticRxCount: meshtasticRows.length,
+        startTime: summary.startTime,
+        endTime: summary.endTime
+      };
+    } catch (error) {
+      // Leave no half-imported session behind; measurements cascade with it.
+      await this.prisma.session.delete({ where: { id: session.id } }).catch((cleanupError: unknown) => {
+        logError('session_import.cleanup_failed', {
+          sessionId: session.id,
+          error: cleanupError instanceof Error ? cleanupError.message : String(cleanupError)
+        });
+      });
+      throw error;
+    }
+  }
+
+  private async buildSummary(params: SessionImportParams): Promise<SessionImportSummaryInternal> {
+    let track;
+    let log;
+    try {
+      track = parseGpxTrack(params.gpx);
+      log = params.log ? parsePacketLog(params.log) : null;
+    } catch (error) {
+      if (error instanceof TrackImportError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+
+    const device = await this.resolveDevice(params);
+    const deviceUid = device?.deviceUid ?? params.deviceUid ?? inferSender(log?.packets ?? []);
+    const plan = buildTrackImportPlan(track, log, {
+      clockOffsetSeconds: params.clockOffsetSeconds,
+      interpolation: params.interpolation,
+      maxGapSeconds: params.maxGapSeconds,
+      fromId: deviceUid ?? undefined
+    });
+
+    const warnings: string[] = [];
+    if (plan.skippedLineCount > 0) {
+      warnings.push(`${plan.skippedLineCount} log line${plural(plan.skippedLineCount)} could not be read`);
+    }
+    if (plan.otherSenderCount > 0) {
+      warnings.push(`${plan.otherSenderCount} packet${plural(plan.otherSenderCount)} from other nodes ignored`);
+    }
+    if (plan.outsideTrackCount > 0) {
+      warnings.push(
+        `${plan.outsideTrackCount} packet${plural(plan.outsideTrackCount)} fall outside the GPX track; check the clock offset`
+      );
+    }
+    if (log && log.packets.length > 0 && !log.packets.some((packet) => packet.rssi !== null || packet.snr !== null)) {
+      warnings.push('Packet log has no RSSI/SNR values');
+    }
+    if (deviceUid && !device) {
+      warnings.push(`Device ${deviceUid} does not exist yet and will be created`);
+    }
+
+    const blockingErrors: string[] = [];
+    if (!deviceUid) {
+      blockingErrors.push(
+        plan.senders.length > 1
+          ? 'Packet log contains several senders. Pick the device to import.'
+          : 'Pick the device to import.'
+      );
+    }
+    if (device && isHomeDeviceRole(device.role)) {
+      blockingErrors.push('Home/base devices do not record measurements.');
+    }
+    if (deviceUid && plan.items.length === 0) {
+      blockingErrors.push('No points could be aligned with the GPX track.');
+    }
+
+    const startAt = plan.items[0]?.capturedAt ?? null;
+    const endAt = plan.items[plan.items.length - 1]?.capturedAt ?? null;
+    return {
+      trackPointCount: plan.trackPointCount,
+      trackStart: plan.trackStart.toISOString(),
+      trackEnd: plan.trackEnd.toISOString(),
+      packetCount: plan.packetCount,
+      skippedLineCount: plan.skippedLineCount,
+      otherSenderCount: plan.otherSenderCount,
+      outsideTrackCount: plan.outsideTrackCount,
+      senders: plan.senders,
+      measurementCount: plan.items.length,
+      startTime: startAt ? startAt.toISOString() : null,
+      endTime: endAt ? endAt.toISOString() : null,
+      deviceId: device?.id ?? null,
+      deviceUid: deviceUid ?? null,
+      deviceName: device?.name ?? null,
+      deviceExists: Boolean(device),
+      warnings,
+      blockingErrors,
+      canCreate: blockingErrors.length === 0,
+      defaultSessionName: startAt && endAt ? buildImportDefaultSessionName(startAt, endAt) : null,
+      items: plan.items
+    };
+  }
+
+  private async resolveDevice(params: SessionImportParams) {
+    if (!params.deviceId && !params.deviceUid) {
+      return null;
+    }
+    const device = await this.prisma.device.findUnique({
+      where: params.deviceId ? { id: params.deviceId } : { deviceUid: params.deviceUid! },
+      select: { id: true, deviceUid: true, name: true, role: true, ownerId: true }
+    });
+    if (device && params.ownerId && device.ownerId !== params.ownerId) {
+      throw new NotFoundException('Device not found');
+    }
+    if (!device && params.deviceId) {
+      throw new NotFoundException('Device not found');
+    }
+    return device;
+  }
+}
+
+function toCanonicalMeasurement(
+  item: TrackImportItem,
+  sessionId: string,
+  receiverId: string | undefined
+): CanonicalMeasurementInput {
+  const packet = item.packet;
+  return {
+    capturedAt: item.capturedAt,
+    lat: item.lat,
+    lon: item.lon,
+    altitude: item.altitude ?? undefined,
+    hdop: item.hdop ?? undefined,
+    satsInView: item.satsInView ?? undefined,
+    locationSource: 'gpx',
+    source: packet ? 'meshtastic' : 'gpx',
+    rssi: packet?.rssi ?? undefined,
+    snr: packet?.snr ?? undefined,
+    gatewayId: packet ? packet.gatewayId ?? receiverId : undefined,
+    sessionId
+  };
+}
+
+// Without an explicit device, a log that only holds one sender names it.
+function inferSender(packets: Array<{ fromId: string | null }>): string | null {
+  const senders = new Set(packets.map((packet) => packet.fromId).filter((fromId) => fromId !== null));
+  return senders.size === 1 ? [...senders][0] : null;
+}
+
+function buildImportDefaultSessionName(startAt: Date, endAt: Date): string {
+  const startIso = startAt.toISOString();
+  const endIso = endAt.toISOString();
+  const startDay = startIso.slice(0, 10);
+  const endDay = endIso.slice(0, 10);
+  if (startDay === endDay) {
+    return `Imported ${startDay} ${startIso.slice(11, 16)}-${endIso.slice(11, 16)} UTC`;
+  }
+  return `Imported ${startDay} ${startIso.slice(11, 16)} to ${endDay} ${endIso.slice(11, 16)} UTC`;
+}
+
+function plural(count: number): string {
+  return count === 1 ? '' : 's';
+}
+
+function normalizeOptionalText(value?: string): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
@@ -0,0 +1,355 @@
+export type TrackInterpolation = 'linear' | 'nearest';
+
+export type GpxImportPoint = {
+  capturedAt: Date;
+  lat: number;
+  lon: number;
+  altitude: number | null;
+  hdop: number | null;
+  satsInView: number | null;
+};
+
+export type PacketLogEntry = {
+  // Receive time on the logging node's clock, before any offset is applied.
+  loggedAt: Date;
+  fromId: string | null;
+  toId: string | null;
+  gatewayId: string | null;
+  rssi: number | null;
+  snr: number | null;
+  hopLimit: number | null;
+  hopStart: number | null;
+  relayNode: number | null;
+  transportMechanism: string | null;
+  raw: Record<string, unknown>;
+};
+
+export type TrackImportOptions = {
+  // Added to packet-log times so they line up with the GPX clock.
+  clockOffsetSeconds: number;
+  interpolation: TrackInterpolation;
+  // A packet is placed only if the track has a point at most this far away in time.
+  maxGapSeconds: number;
+  // Only packets sent by this node are used; packets without a sender are kept.
+  fromId?: string;
+};
+
+export type TrackImportItem = {
+  capturedAt: Date;
+  lat: number;
+  lon: number;
+  altitude: number | null;
+  hdop: number | null;
+  satsInView: number | null;
+  packet: PacketLogEntry | null;
+};
+
+export type TrackImportPlan = {
+  trackPointCount: number;
+  trackStart: Date;
+  trackEnd: Date;
+  packetCount: number;
+  skippedLineCount: number;
+  otherSenderCount: number;
+  outsideTrackCount: number;
+  senders: Array<{ fromId: string; count: number }>;
+  items: TrackImportItem[];
+};
+
+export class TrackImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrackImportError';
+  }
+}
+
+const POINT_PATTERN = /<(trkpt|rtept)\b([^>]*?)(\/>|>([\s\S]*?)<\/\1>)/g;
+
+/**
+ * Reads the timed points of every track (and route) in a GPX document, sorted by
+ * time. Points without a `<time>` cannot be aligned and are dropped.
+ */
+export function parseGpxTrack(xml: string): GpxImportPoint[] {
+  if (!/<gpx\b/.test(xml)) {
+    throw new TrackImportError('File is not a GPX document');
+  }
+
+  const points: GpxImportPoint[] = [];
+  for (const match of xml.matchAll(POINT_PATTERN)) {
+    const attributes = match[2];
+    const body = match[4] ?? '';
+    const lat = parseNumber(readAttribute(attributes, 'lat'));
+    const lon = parseNumber(readAttribute(attributes, 'lon'));
+    const time = readElement(body, 'time');
+    if (lat === null || lon === null || Math.abs(lat) > 90 || Math.abs(lon) > 180 || !time) {
+      continue;
+    }
+    const capturedAt = new Date(time);
+    if (Number.isNaN(capturedAt.getTime())) {
+      continue;
+    }
+    const satsInView = parseNumber(readElement(body, 'sat'));
+    points.push({
+      capturedAt,
+      lat,
+      lon,
+      altitude: parseNumber(readElement(body, 'ele')),
+      hdop: parseNumber(readElement(body, 'hdop')),
+      satsInView: satsInView === null ? null : Math.trunc(satsInView)
+    });
+  }
+
+  if (points.length === 0) {
+    throw new TrackImportError('GPX file has no track points with timestamps');
+  }
+  return points.sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+}
+
+/**
+ * Reads a JSONL packet log as written by the Meshtastic CLI/Python API (one packet
+ * dict per line; camelCase or snake_case keys). Lines that are not JSON or carry no
+ * usable time are counted and skipped instead of failing the whole import.
+ */
+export function parsePacketLog(text: string): { packets: PacketLogEntry[]; skippedLineCount: number } {
+  const packets: PacketLogEntry[] = [];
+  let skippedLineCount = 0;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      skippedLineCount += 1;
+      continue;
+    }
+    const root = asRecord(parsed);
+    const packet = root ? asRecord(root.packet) ?? root : null;
+    const loggedAt = packet ? readPacketTime(packet, root!) : null;
+    if (!packet || !loggedAt) {
+      skippedLineCount += 1;
+      continue;
+    }
+
+    const rssi = firstNumber(packet, ['rxRssi', 'rx_rssi', 'rssi']);
+    const hopLimit = firstNumber(packet, ['hopLimit', 'hop_limit']);
+    const hopStart = firstNumber(packet, ['hopStart', 'hop_start']);
+    const relayNode = firstNumber(packet, ['relayNode', 'relay_node']);
+    packets.push({
+      loggedAt,
+      fromId: readNodeId(packet, ['fromId', 'from_id', 'from']),
+      toId: readNodeId(packet, ['toId', 'to_id', 'to']),
+      gatewayId: firstString(root!, ['rxNodeId', 'rx_node_id', 'receiver', 'via']),
+      rssi: rssi === null ? null : Math.trunc(rssi),
+      snr: firstNumber(packet, ['rxSnr', 'rx_snr', 'snr']),
+      hopLimit: hopLimit === null ? null : Math.trunc(hopLimit),
+      hopStart: hopStart === null ? null : Math.trunc(hopStart),
+      relayNode: relayNode === null ? null : Math.trunc(relayNode),
+      transportMechanism: firstString(packet, ['transportMechanism', 'transport_mechanism']),
+      raw: packet
+    });
+  }
+
+  return { packets, skippedLineCount };
+}
+
+/**
+ * Places logged packets on the GPX track. With a packet log, every packet inside the
+ * track window becomes one item at the interpolated position; without one, the
+ * track points themselves become the items.
+ */
+export function buildTrackImportPlan(
+  track: GpxImportPoint[],
+  log: { packets: PacketLogEntry[]; skippedLineCount: number } | null,
+  options: TrackImportOptions
+): TrackImportPlan {
+  const trackStart = track[0].capturedAt;
+  const trackEnd = track[track.length - 1].capturedAt;
+  const senders = countSenders(log?.packets ?? []);
+  const base = {
+    trackPointCount: track.length,
+    trackStart,
+    trackEnd,
+    packetCount: log?.packets.length ?? 0,
+    skippedLineCount: log?.skippedLineCount ?? 0,
+    senders
+  };
+
+  if (!log) {
+    return {
+      ...base,
+      otherSenderCount: 0,
+      outsideTrackCount: 0,
+      items: track.map((point) => ({ ...point, packet: null }))
+    };
+  }
+
+  const offsetMs = options.clockOffsetSeconds * 1000;
+  const maxGapMs = options.maxGapSeconds * 1000;
+  const items: TrackImportItem[] = [];
+  let otherSenderCount = 0;
+  let outsideTrackCount = 0;
+
+  const packets = [...log.packets].sort((a, b) => a.loggedAt.getTime() - b.loggedAt.getTime());
+  let cursor = 0;
+  for (const packet of packets) {
+    if (options.fromId && packet.fromId && packet.fromId !== options.fromId) {
+      otherSenderCount += 1;
+      continue;
+    }
+    const time = packet.loggedAt.getTime() + offsetMs;
+    // Packets are sorted, so the bracketing segment only ever moves forward.
+    while (cursor < track.length - 1 && track[cursor + 1].capturedAt.getTime() <= time) {
+      cursor += 1;
+    }
+    const position = locateOnTrack(track, cursor, time, options.interpolation, maxGapMs);
+    if (!position) {
+      outsideTrackCount += 1;
+      continue;
+    }
+    items.push({ ...position, capturedAt: new Date(time), packet });
+  }
+
+  return { ...base, otherSenderCount, outsideTrackCount, items };
+}
+
+function locateOnTrack(
+  track: GpxImportPoint[],
+  index: number,
+  time: number,
+  interpolation: TrackInterpolation,
+  maxGapMs: number
+): Omit<GpxImportPoint, 'capturedAt'> | null {
+  const before = track[index];
+  const after = track[index + 1];
+  const beforeTime = before.capturedAt.getTime();
+
+  // Outside the track window only the nearest end point is a candidate.
+  if (time < beforeTime || !after) {
+    return Math.abs(time - beforeTime) <= maxGapMs ? stripTime(before) : null;
+  }
+
+  const afterTime = after.capturedAt.getTime();
+  const nearest = time - beforeTime <= afterTime - time ? before : after;
+  if (Math.abs(nearest.capturedAt.getTime() - time) > maxGapMs) {
+    return null;
+  }
+  if (interpolation === 'nearest' || afterTime === beforeTime) {
+    return stripTime(nearest);
+  }
+
+  const fraction = (time - beforeTime) / (afterTime - beforeTime);
+  return {
+    lat: lerp(before.lat, after.lat, fraction),
+    lon: lerp(before.lon, after.lon, fraction),
+    altitude:
+      before.altitude !== null && after.altitude !== null
+        ? lerp(before.altitude, after.altitude, fraction)
+        : nearest.altitude,
+    hdop: nearest.hdop,
+    satsInView: nearest.satsInView
+  };
+}
+
+function stripTime(point: GpxImportPoint): Omit<GpxImportPoint, 'capturedAt'> {
+  const { capturedAt: _capturedAt, ...rest } = point;
+  return rest;
+}
+
+function lerp(from: number, to: number, fraction: number): number {
+  return from + (to - from) * fraction;
+}
+
+function countSenders(packets: PacketLogEntry[]): Array<{ fromId: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const packet of packets) {
+    if (packet.fromId) {
+      counts.set(packet.fromId, (counts.get(packet.fromId) ?? 0) + 1);
+    }
+  }
+  return [...counts]
+    .map(([fromId, count]) => ({ fromId, count }))
+    .sort((a, b) => b.count - a.count || a.fromId.localeCompare(b.fromId));
+}
+
+function readPacketTime(packet: Record<string, unknown>, root: Record<string, unknown>): Date | null {
+  for (const record of [packet, root]) {
+    for (const key of ['rxTime', 'rx_time', 'time', 'timestamp', 'receivedAt', 'received_at']) {
+      const value = record[key];
+      if (typeof value === 'string' && value.trim().length > 0 && Number.isNaN(Number(value))) {
+        const parsed = new Date(value);
+        if (!Number.isNaN(parsed.getTime())) {
+          return parsed;
+        }
+        continue;
+      }
+      const seconds = parseNumber(value);
+      if (seconds !== null && seconds > 0) {
+        // Meshtastic uses epoch seconds; larger values are already milliseconds.
+        return new Date(seconds >= 1_000_000_000_000 ? seconds : seconds * 1000);
+      }
+    }
+  }
+  return null;
+}
+
+// Numeric node numbers are rendered as `!xxxxxxxx`, the form device UIDs use.
+function readNodeId(record: Record<string, unknown>, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string' && value.trim().length > 0) {
+      return value.trim();
+    }
+    if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+      return value === 0xffffffff ? '^all' : `!${value.toString(16).padStart(8, '0')}`;
+    }
+  }
+  return null;
+}
+
+function firstNumber(record: Record<string, unknown>, keys: string[]): number | null {
+  for (const key of keys) {
+    const value = parseNumber(record[key]);
+    if (value !== null) {
+      return value;
+    }
+  }
+  return null;
+}
+
+function firstString(record: Record<string, unknown>, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string' && value.trim().length > 0) {
+      return value.trim();
+    }
+  }
+  return null;
+}
+
+function readAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(attributes);
+  return match ? match[1] ?? match[2] : null;
+}
+
+function readElement(body: string, name: string): string | null {
+  const match = new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>`).exec(body);
+  return match ? match[1].trim() : null;
+}
+
+function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim().length > 0) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
@@ -0,0 +1,169 @@
+// Intercept is reported at 1 km, which sits inside typical LoRa ranges instead of extrapolating to 1 m.
+export const PATH_LOSS_REFERENCE_DISTANCE_METERS = 1000;
+export const PATH_LOSS_MIN_POINTS = 5;
+export const PATH_LOSS_OUTLIER_SIGMA = 2.5;
+export const PATH_LOSS_MAX_OUTLIERS = 100;
+// Points closer than this say more about the antenna near-field than about path loss.
+const MIN_FIT_DISTANCE_METERS = 10;
+// The fit is meaningless unless the points span some range of distances (here 1.25x).
+const MIN_LOG_DISTANCE_SPAN = Math.log10(1.25);
+
+export type PathLossInputPoint = {
+  measurementId: string;
+  capturedAt: Date;
+  lat: number;
+  lon: number;
+  distanceMeters: number;
+  rssi: number;
+};
+
+export type PathLossModel = {
+  exponent: number;
+  intercept: number;
+  residualStdDev: number;
+  r2: number | null;
+  minDistanceMeters: number;
+  maxDistanceMeters: number;
+};
+
+export type PathLossOutlier = {
+  measurementId: string;
+  capturedAt: string;
+  lat: number;
+  lon: number;
+  distanceMeters: number;
+  rssi: number;
+  predictedRssi: number;
+  residual: number;
+};
+
+type LinearFit = {
+  slope: number;
+  intercept: number;
+  residualStdDev: number;
+  r2: number | null;
+};
+
+/**
+ * Log-distance path-loss fit: rssi = intercept - 10 * exponent * log10(d / 1 km).
+ * Points further than 2.5 sigma from a first fit are reported as outliers and the
+ * model is refit without them, so a few reflections do not skew the exponent.
+ */
+export function fitPathLossModel(
+  points: PathLossInputPoint[],
+  minDistanceMeters = MIN_FIT_DISTANCE_METERS
+): { model: PathLossModel | null; usedCount: number; outliers: PathLossOutlier[] } {
+  const candidates = points.filter(
+    (point) =>
+      Number.isFinite(point.rssi) &&
+      Number.isFinite(point.distanceMeters) &&
+      point.distanceMeters >= Math.max(minDistanceMeters, MIN_FIT_DISTANCE_METERS)
+  );
+  const initial = fitLogDistance(candidates);
+  if (!initial) {
+    return { model: null, usedCount: 0, outliers: [] };
+  }
+
+  const limit = PATH_LOSS_OUTLIER_SIGMA * initial.residualStdDev;
+  const inliers: PathLossInputPoint[] = [];
+  const rejected: PathLossInputPoint[] = [];
+  for (const point of candidates) {
+    const residual = point.rssi - predictRssi(initial, point.distanceMeters);
+    if (limit > 0 && Math.abs(residual) > limit) {
+      rejected.push(point);
+    } else {
+      inliers.push(point);
+    }
+  }
+  const fit = (rejected.length > 0 ? fitLogDistance(inliers) : null) ?? initial;
+  const used = fit === initial ? candidates : inliers;
+  const outlierPoints = fit === initial ? [] : rejected;
+
+  let minDistance = used[0].distanceMeters;
+  let maxDistance = used[0].distanceMeters;
+  for (const point of used) {
+    minDistance = Math.min(minDistance, point.distanceMeters);
+    maxDistance = Math.max(maxDistance, point.distanceMeters);
+  }
+
+  const outliers = outlierPoints
+    .map((point) => {
+      const predictedRssi = predictRssi(fit, point.distanceMeters);
+      return {
+        measurementId: point.measurementId,
+        capturedAt: point.capturedAt.toISOString(),
+        lat: point.lat,
+        lon: point.lon,
+        distanceMeters: point.distanceMeters,
+        rssi: point.rssi,
+        predictedRssi,
+        residual: point.rssi - predictedRssi
+      };
+    })
+    .sort((left, right) => Math.abs(right.residual) - Math.abs(left.residual))
+    .slice(0, PATH_LOSS_MAX_OUTLIERS);
+
+  return {
+    model: {
+      exponent: -fit.slope / 10,
+      intercept: fit.intercept,
+      residualStdDev: fit.residualStdDev,
+      r2: fit.r2,
+      minDistanceMeters: minDistance,
+      maxDistanceMeters: maxDistance
+    },
+    usedCount: used.length,
+    outliers
+  };
+}
+
+function predictRssi(fit: LinearFit, distanceMeters: number): number {
+  return fit.intercept + fit.slope * Math.log10(distanceMeters / PATH_LOSS_REFERENCE_DISTANCE_METERS);
+}
+
+function fitLogDistance(points: PathLossInputPoint[]): LinearFit | null {
+  if (points.length < PATH_LOSS_MIN_POINTS) {
+    return null;
+  }
+
+  const xs = points.map((point) =>
+    Math.log10(point.distanceMeters / PATH_LOSS_REFERENCE_DISTANCE_METERS)
+  );
+  const ys = points.map((point) => point.rssi);
+  const count = points.length;
+  const meanX = xs.reduce((sum, value) => sum + value, 0) / count;
+  const meanY = ys.reduce((sum, value) => sum + value, 0) / count;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  let minX = xs[0];
+  let maxX = xs[0];
+  for (let index = 0; index < count; index += 1) {
+    const dx = xs[index] - meanX;
+    const dy = ys[index] - meanY;
+    sxx += dx * dx;
+    sxy += dx * dy;
+    syy += dy * dy;
+    minX = Math.min(minX, xs[index]);
+    maxX = Math.max(maxX, xs[index]);
+  }
+  if (maxX - minX < MIN_LOG_DISTANCE_SPAN || sxx <= 0) {
+    return null;
+  }
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  let sse = 0;
+  for (let index = 0; index < count; index += 1) {
+    const residual = ys[index] - (intercept + slope * xs[index]);
+    sse += residual * residual;
+  }
+
+  return {
+    slope,
+    intercept,
+    residualStdDev: Math.sqrt(sse / (count - 2)),
+    r2: syy > 0 ? 1 - sse / syy : null
+  };
+}
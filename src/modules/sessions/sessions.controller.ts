@@ -43,6 +43,12 @@ type SessionSignalSeriesQuery = {
   sample?: string | string[];
 };
 
+type SessionSignalDistanceQuery = {
+  metric?: string | string[];
+  source?: string | string[];
+  sample?: string | string[];
+};
+
 type SessionSignalHistogramQuery = {
   metric?: string | string[];
   source?: string | string[];
@@ -175,6 +181,11 @@ export class SessionsController {
     return this.sessionsService.getStats(id);
   }
 
+  @Get(':id/path-loss')
+  async pathLoss(@Param('id') id: string) {
+    return this.sessionsService.getPathLoss(id);
+  }
+
   @Get(':id/signal-series')
   async signalSeries(@Param('id') id: string, @Query() query: SessionSignalSeriesQuery) {
     const metric = parseSignalMetric(getSingleValue(query.metric, 'metric'));
@@ -188,6 +199,19 @@ export class SessionsController {
     });
   }
 
+  @Get(':id/signal-vs-distance')
+  async signalVsDistance(@Param('id') id: string, @Query() query: SessionSignalDistanceQuery) {
+    const metric = parseSignalMetric(getSingleValue(query.metric, 'metric'));
+    const source = parseSignalSource(getSingleValue(query.source, 'source'));
+    const sample = parseSignalSeriesSample(getSingleValue(query.sample, 'sample'));
+    return this.sessionsService.getSignalVsDistance({
+      sessionId: id,
+      metric,
+      source,
+      sample
+    });
+  }
+
   @Get(':id/signal-histogram')
   async signalHistogram(@Param('id') id: string, @Query() query: SessionSignalHistogramQuery) {
     const metric = parseSignalMetric(getSingleValue(query.metric, 'metric'));
@@ -5,6 +5,7 @@ import { SessionsService } from './sessions.service';
 
 @Module({
   controllers: [SessionsController, AgentSessionsController],
-  providers: [SessionsService]
+  providers: [SessionsService],
+  exports: [SessionsService]
 })
 export class SessionsModule {}
@@ -2,6 +2,8 @@ import { Injectable, NotFoundException } from '@nestjs/common';
 import { Prisma } from '@prisma/client';
 import { buildNonHomeDeviceWhere, isHomeDeviceRole } from '../../common/device-role';
 import { PrismaService } from '../../prisma/prisma.service';
+import { PacketDeliverySummary, summarizePacketDelivery } from '../measurements/frame-counter';
+import { fitPathLossModel, PATH_LOSS_REFERENCE_DISTANCE_METERS } from './path-loss';
 import { StartSessionDto } from './dto/start-session.dto';
 import { StopSessionDto } from './dto/stop-session.dto';
 import { UpdateSessionDto } from './dto/update-session.dto';
@@ -17,6 +19,14 @@ type SignalSeriesMetric = 'rssi' | 'snr';
 type SignalSeriesSource = 'auto' | 'meshtastic' | 'lorawan' | 'measurement';
 type SignalSeriesResolvedSource = Exclude<SignalSeriesSource, 'auto'>;
 type SignalSeriesItem = { t: string; v: number };
+type SignalDistanceItem = {
+  measurementId: string;
+  capturedAt: string;
+  distanceMeters: number;
+  rssi: number | null;
+  snr: number | null;
+  source: SignalSeriesResolvedSource;
+};
 type RawSignalRow = { t: Date; v: number | Prisma.Decimal | null };
 type SignalHistogramBin = { lo: number; hi: number; count: number };
 type SignalSummarySource = SignalSeriesResolvedSource | null;
@@ -433,7 +443,8 @@ export class SessionsService {
         rssi: null,
         snr: null,
         signalSourceUsed: null,
-        receiversCount: null
+        receiversCount: null,
+        packetDelivery: null
       };
     }
 
@@ -466,9 +477,10 @@ export class SessionsService {
           }
         : null;
 
-    const [distanceMeters, comparisonSummary] = await Promise.all([
+    const [distanceMeters, comparisonSummary, packetDelivery] = await Promise.all([
       this.computeDistanceMeters(id, pointCount),
-      this.computeComparisonSummary(id, session.deviceId)
+      this.computeComparisonSummary(id, session.deviceId),
+      this.computePacketDelivery(id)
     ]);
 
     return {
@@ -487,7 +499,79 @@ export class SessionsService {
       rssi: comparisonSummary.rssi,
       snr: comparisonSummary.snr,
       signalSourceUsed: comparisonSummary.sourceUsed,
-      receiversCount: comparisonSummary.receiversCount
+      receiversCount: comparisonSummary.receiversCount,
+      packetDelivery
+    };
+  }
+
+  async getPathLoss(id: string) {
+    const session = await this.prisma.session.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        deviceId: true,
+        device: {
+          select: {
+            role: true
+          }
+        }
+      }
+    });
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    const emptyResult = {
+      sessionId: session.id,
+      deviceId: session.deviceId,
+      referenceDistanceMeters: PATH_LOSS_REFERENCE_DISTANCE_METERS,
+      home: null as SessionHomeSummary | null,
+      signalSourceUsed: null as SignalSummarySource,
+      pointCount: 0,
+      usedCount: 0,
+      model: null,
+      outliers: []
+    };
+    if (isHomeDeviceRole(session.device?.role)) {
+      return emptyResult;
+    }
+
+    const [home, sourceUsed] = await Promise.all([
+      this.readSessionHomeSummary(session.deviceId),
+      this.resolveSignalSummarySource(id)
+    ]);
+    if (!home || !sourceUsed) {
+      return { ...emptyResult, home, signalSourceUsed: sourceUsed };
+    }
+
+    const signalPoints = await this.readSessionSignalPoints(id, sourceUsed);
+    const fitPoints = signalPoints.flatMap((point) => {
+      const rssi = toNumeric(point.rssi);
+      if (rssi === null || !Number.isFinite(point.lat) || !Number.isFinite(point.lon)) {
+        return [];
+      }
+      return [
+        {
+          measurementId: point.measurementId,
+          capturedAt: point.capturedAt,
+          lat: point.lat,
+          lon: point.lon,
+          distanceMeters: haversineMeters(home.lat, home.lon, point.lat, point.lon),
+          rssi
+        }
+      ];
+    });
+    // Points inside the home geofence are parked next to the receiver, not range samples.
+    const { model, usedCount, outliers } = fitPathLossModel(fitPoints, home.radiusMeters);
+
+    return {
+      ...emptyResult,
+      home,
+      signalSourceUsed: sourceUsed,
+      pointCount: fitPoints.length,
+      usedCount,
+      model,
+      outliers
     };
   }
 
@@ -550,6 +634,75 @@ export class SessionsService {
     };
   }
 
+  async getSignalVsDistance(params: {
+    sessionId: string;
+    metric: SignalSeriesMetric;
+    source: SignalSeriesSource;
+    sample: number;
+  }) {
+    const session = await this.prisma.session.findUnique({
+      where: { id: params.sessionId },
+      select: {
+        id: true,
+        deviceId: true,
+        device: {
+          select: {
+            role: true
+          }
+        }
+      }
+    });
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+    if (isHomeDeviceRole(session.device?.role)) {
+      return {
+        sessionId: params.sessionId,
+        metric: params.metric,
+        sourceUsed: params.source === 'auto' ? 'measurement' : params.source,
+        home: null,
+        items: []
+      };
+    }
+
+    const [home, sourceUsed] = await Promise.all([
+      this.readSessionHomeSummary(session.deviceId),
+      params.source === 'auto'
+        ? this.resolveSignalSeriesSource(params.sessionId, params.metric)
+        : Promise.resolve(params.source)
+    ]);
+    if (!home) {
+      return { sessionId: params.sessionId, metric: params.metric, sourceUsed, home, items: [] };
+    }
+
+    const points = await this.readSessionSignalPoints(params.sessionId, sourceUsed);
+    const items: SignalDistanceItem[] = [];
+    for (const point of points) {
+      const rssi = toNumeric(point.rssi);
+      const snr = toNumeric(point.snr);
+      const value = params.metric === 'rssi' ? rssi : snr;
+      if (value === null || !Number.isFinite(point.lat) || !Number.isFinite(point.lon)) {
+        continue;
+      }
+      items.push({
+        measurementId: point.measurementId,
+        capturedAt: point.capturedAt.toISOString(),
+        distanceMeters: haversineMeters(home.lat, home.lon, point.lat, point.lon),
+        rssi,
+        snr,
+        source: sourceUsed
+      });
+    }
+
+    return {
+      sessionId: params.sessionId,
+      metric: params.metric,
+      sourceUsed,
+      home,
+      items: items.length > params.sample ? sampleItems(items, params.sample) : items
+    };
+  }
+
   async getSignalHistogram(params: {
     sessionId: string;
     metric: SignalSeriesMetric;
@@ -649,6 +802,19 @@ export class SessionsService {
     return { stopped: true, session };
   }
 
+  /** Null when the session has no frame counters (Meshtastic, imports, pre-fCnt data). */
+  private async computePacketDelivery(sessionId: string): Promise<PacketDeliverySummary | null> {
+    const frames = await this.prisma.measurement.findMany({
+      where: { sessionId, fCnt: { not: null } },
+      orderBy: [{ capturedAt: 'asc' }, { fCnt: 'asc' }],
+      select: { fCnt: true }
+    });
+    if (frames.length === 0) {
+      return null;
+    }
+    return summarizePacketDelivery(frames.map((frame) => Number(frame.fCnt)));
+  }
+
   private async computeDistanceMeters(sessionId: string, pointCount: number): Promise<number | null> {
     if (pointCount < 2) {
       return null;
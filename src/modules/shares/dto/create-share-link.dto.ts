@@ -0,0 +1,24 @@
+import { ShareScope } from '@prisma/client';
+import { IsDateString, IsEnum, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+
+export class CreateShareLinkDto {
+  @IsEnum(ShareScope)
+  scope!: ShareScope;
+
+  @IsOptional()
+  @IsUUID()
+  sessionId?: string;
+
+  @IsOptional()
+  @IsUUID()
+  deviceId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(80)
+  label?: string;
+
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
@@ -0,0 +1,78 @@
+import { BadRequestException, Controller, Get, NotFoundException, Param, Query } from '@nestjs/common';
+import { ShareScope } from '@prisma/client';
+import { COVERAGE_LEVELS, resolveCoverageLevelForZoom } from '../coverage/coverage.constants';
+import { CoverageService } from '../coverage/coverage.service';
+import { MeasurementsService } from '../measurements/measurements.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { SharesService } from './shares.service';
+
+const TRACK_SAMPLE = 2000;
+const MAX_BINS = 20000;
+
+/**
+ * Read-only views behind a share token; no API key. Each route only ever reads the one
+ * session or coverage scope stored on the share, whatever else the caller asks for.
+ */
+@Controller('api/public/shares/:token')
+export class PublicSharesController {
+  constructor(
+    private readonly sharesService: SharesService,
+    private readonly sessionsService: SessionsService,
+    private readonly coverageService: CoverageService,
+    private readonly measurementsService: MeasurementsService
+  ) {}
+
+  @Get()
+  async summary(@Param('token') token: string) {
+    const share = await this.sharesService.resolve(token);
+    return this.sharesService.getPublicSummary(share);
+  }
+
+  @Get('track')
+  async track(@Param('token') token: string) {
+    const share = await this.sharesService.resolve(token);
+    if (share.scope !== ShareScope.SESSION || !share.sessionId) {
+      throw new NotFoundException('This share has no track');
+    }
+    const overview = await this.sessionsService.getOverview(share.sessionId, TRACK_SAMPLE);
+    return { items: overview.items };
+  }
+
+  @Get('bins')
+  async bins(@Param('token') token: string, @Query('zoom') zoomRaw?: string) {
+    const share = await this.sharesService.resolve(token);
+    const coverageLevel =
+      zoomRaw === undefined ? COVERAGE_LEVELS[0] : resolveCoverageLevelForZoom(parseZoom(zoomRaw));
+    const { items, truncated } = await this.coverageService.listBins({
+      deviceId: share.deviceId ?? undefined,
+      sessionId: share.sessionId ?? undefined,
+      groupBy: 'none',
+      level: coverageLevel.level,
+      limit: MAX_BINS
+    });
+    return {
+      binSizeDeg: coverageLevel.binSizeDeg,
+      level: coverageLevel.level,
+      items,
+      count: items.length,
+      truncated
+    };
+  }
+
+  @Get('stats')
+  async stats(@Param('token') token: string) {
+    const share = await this.sharesService.resolve(token);
+    return this.measurementsService.stats({
+      deviceId: share.deviceId ?? undefined,
+      sessionId: share.sessionId ?? undefined
+    });
+  }
+}
+
+function parseZoom(value: string): number {
+  const zoom = Number(value.trim());
+  if (value.trim() === '' || !Number.isFinite(zoom) || zoom < 0) {
+    throw new BadRequestException('zoom must be a non-negative number');
+  }
+  return zoom;
+}
@@ -0,0 +1,67 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards
+} from '@nestjs/common';
+import { ApiKeyScope } from '@prisma/client';
+import { RequireApiKeyScope } from '../../common/decorators/api-key-scopes.decorator';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { getOwnerIdFromRequest, OwnerContextRequest } from '../../common/owner-context';
+import { CreateShareLinkDto } from './dto/create-share-link.dto';
+import { ShareLinkView, SharesService } from './shares.service';
+
+type SharesQuery = {
+  sessionId?: string | string[];
+  deviceId?: string | string[];
+};
+
+@Controller('api/shares')
+@UseGuards(ApiKeyGuard)
+@RequireApiKeyScope(ApiKeyScope.QUERY)
+export class SharesController {
+  constructor(private readonly sharesService: SharesService) {}
+
+  @Post()
+  async create(
+    @Body() dto: CreateShareLinkDto,
+    @Req() request: OwnerContextRequest
+  ): Promise<ShareLinkView> {
+    return this.sharesService.create(dto, getOwnerIdFromRequest(request));
+  }
+
+  @Get()
+  async list(@Query() query: SharesQuery) {
+    const items = await this.sharesService.list({
+      sessionId: getSingleValue(query.sessionId, 'sessionId'),
+      deviceId: getSingleValue(query.deviceId, 'deviceId')
+    });
+    return { items, count: items.length };
+  }
+
+  @Delete(':id')
+  @HttpCode(200)
+  async revoke(@Param('id') id: string): Promise<ShareLinkView> {
+    return this.sharesService.revoke(id);
+  }
+}
+
+function getSingleValue(value: string | string[] | undefined, name: string): string | undefined {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return undefined;
+    }
+    if (value.length > 1) {
+      throw new BadRequestException(`Multiple values provided for ${name}`);
+    }
+    return value[0];
+  }
+  return value;
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { CoverageModule } from '../coverage/coverage.module';
+import { MeasurementsModule } from '../measurements/measurements.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { PublicSharesController } from './public-shares.controller';
+import { SharesController } from './shares.controller';
+import { SharesService } from './shares.service';
+
+@Module({
+  imports: [SessionsModule, CoverageModule, MeasurementsModule],
+  controllers: [SharesController, PublicSharesController],
+  providers: [SharesService]
+})
+export class SharesModule {}
@@ -0,0 +1,197 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException
+} from '@nestjs/common';
+import { ShareLink, ShareScope } from '@prisma/client';
+import { isHomeDeviceRole } from '../../common/device-role';
+import { getShareLinkSecret, signShareToken, verifyShareToken } from '../../common/security/shareToken';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CreateShareLinkDto } from './dto/create-share-link.dto';
+
+export type ShareLinkView = {
+  id: string;
+  // Null once revoked or expired, or when SHARE_LINK_SECRET is not set.
+  token: string | null;
+  scope: ShareScope;
+  deviceId: string | null;
+  sessionId: string | null;
+  label: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  isActive: boolean;
+};
+
+export type PublicShareSummary = {
+  scope: ShareScope;
+  label: string | null;
+  expiresAt: string | null;
+  hasTrack: boolean;
+  deviceName: string | null;
+  session: {
+    name: string | null;
+    startedAt: string;
+    endedAt: string | null;
+  } | null;
+};
+
+@Injectable()
+export class SharesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(dto: CreateShareLinkDto, ownerId?: string): Promise<ShareLinkView> {
+    const secret = requireSecret();
+    const target = await this.resolveTarget(dto);
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const share = await this.prisma.shareLink.create({
+      data: {
+        scope: dto.scope,
+        deviceId: target.deviceId,
+        sessionId: target.sessionId,
+        label: dto.label?.trim() || null,
+        ownerId: ownerId ?? null,
+        expiresAt
+      }
+    });
+    return toShareLinkView(share, secret);
+  }
+
+  async list(filter: { sessionId?: string; deviceId?: string }): Promise<ShareLinkView[]> {
+    const shares = await this.prisma.shareLink.findMany({
+      where: {
+        ...(filter.sessionId ? { sessionId: filter.sessionId } : {}),
+        ...(filter.deviceId ? { deviceId: filter.deviceId } : {})
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+    const secret = getShareLinkSecret();
+    return shares.map((share) => toShareLinkView(share, secret));
+  }
+
+  async revoke(id: string): Promise<ShareLinkView> {
+    const share = await this.prisma.shareLink.findUnique({ where: { id } });
+    if (!share) {
+      throw new NotFoundException('Share link not found');
+    }
+    const revoked = share.revokedAt
+      ? share
+      : await this.prisma.shareLink.update({ where: { id }, data: { revokedAt: new Date() } });
+    return toShareLinkView(revoked, getShareLinkSecret());
+  }
+
+  /**
+   * Looks up an active share for a public request. Bad signatures, revoked and expired
+   * links all answer 404 so a caller cannot tell which of them it hit.
+   */
+  async resolve(token: string): Promise<ShareLink> {
+    const secret = getShareLinkSecret();
+    const shareId = secret ? verifyShareToken(token, secret) : null;
+    const share = shareId ? await this.prisma.shareLink.findUnique({ where: { id: shareId } }) : null;
+    if (!share || !isShareActive(share)) {
+      throw new NotFoundException('Share link not found');
+    }
+    return share;
+  }
+
+  async getPublicSummary(share: ShareLink): Promise<PublicShareSummary> {
+    const deviceSelect = { name: true, longName: true };
+    const session = share.sessionId
+      ? await this.prisma.session.findUnique({
+          where: { id: share.sessionId },
+          select: { name: true, startedAt: true, endedAt: true, device: { select: deviceSelect } }
+        })
+      : null;
+    const device = share.deviceId
+      ? await this.prisma.device.findUnique({ where: { id: share.deviceId }, select: deviceSelect })
+      : session?.device;
+
+    return {
+      scope: share.scope,
+      label: share.label,
+      expiresAt: share.expiresAt ? share.expiresAt.toISOString() : null,
+      // Coverage shares expose aggregated cells only, never the route that was driven.
+      hasTrack: share.scope === ShareScope.SESSION,
+      deviceName: device?.name ?? device?.longName ?? null,
+      session: session
+        ? {
+            name: session.name,
+            startedAt: session.startedAt.toISOString(),
+            endedAt: session.endedAt ? session.endedAt.toISOString() : null
+          }
+        : null
+    };
+  }
+
+  private async resolveTarget(
+    dto: CreateShareLinkDto
+  ): Promise<{ deviceId: string | null; sessionId: string | null }> {
+    if (dto.scope === ShareScope.SESSION && (!dto.sessionId || dto.deviceId)) {
+      throw new BadRequestException('Session shares need sessionId and no deviceId');
+    }
+    if (dto.scope === ShareScope.COVERAGE && Boolean(dto.sessionId) === Boolean(dto.deviceId)) {
+      throw new BadRequestException('Coverage shares need either deviceId or sessionId');
+    }
+
+    if (dto.sessionId) {
+      const session = await this.prisma.session.findUnique({
+        where: { id: dto.sessionId },
+        select: { id: true, device: { select: { role: true } } }
+      });
+      if (!session) {
+        throw new NotFoundException('Session not found');
+      }
+      assertNotHomeDevice(session.device.role);
+      return { deviceId: null, sessionId: session.id };
+    }
+
+    const device = await this.prisma.device.findUnique({
+      where: { id: dto.deviceId! },
+      select: { id: true, role: true }
+    });
+    if (!device) {
+      throw new NotFoundException('Device not found');
+    }
+    assertNotHomeDevice(device.role);
+    return { deviceId: device.id, sessionId: null };
+  }
+}
+
+export function isShareActive(share: Pick<ShareLink, 'revokedAt' | 'expiresAt'>, now = new Date()): boolean {
+  return !share.revokedAt && (!share.expiresAt || share.expiresAt.getTime() > now.getTime());
+}
+
+function toShareLinkView(share: ShareLink, secret: string | null): ShareLinkView {
+  const isActive = isShareActive(share);
+  return {
+    id: share.id,
+    token: isActive && secret ? signShareToken(share.id, secret) : null,
+    scope: share.scope,
+    deviceId: share.deviceId,
+    sessionId: share.sessionId,
+    label: share.label,
+    createdAt: share.createdAt.toISOString(),
+    expiresAt: share.expiresAt ? share.expiresAt.toISOString() : null,
+    revokedAt: share.revokedAt ? share.revokedAt.toISOString() : null,
+    isActive
+  };
+}
+
+function assertNotHomeDevice(role: string | null): void {
+  if (isHomeDeviceRole(role)) {
+    throw new BadRequestException('Home/base devices have no shareable coverage');
+  }
+}
+
+function requireSecret(): string {
+  const secret = getShareLinkSecret();
+  if (!secret) {
+    throw new ServiceUnavailableException('Share links are not configured; set SHARE_LINK_SECRET');
+  }
+  return secret;
+}
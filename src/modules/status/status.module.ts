@@ -1,12 +1,15 @@
 import { Module } from '@nestjs/common';
 import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { CoverageModule } from '../coverage/coverage.module';
 import { LorawanModule } from '../lorawan/lorawan.module';
+import { MeshtasticMqttModule } from '../meshtastic-mqtt/meshtastic-mqtt.module';
 import { RetentionModule } from '../retention/retention.module';
+import { TtsMqttModule } from '../tts-mqtt/tts-mqtt.module';
 import { StatusController } from './status.controller';
 import { StatusService } from './status.service';
 
 @Module({
-  imports: [LorawanModule, RetentionModule],
+  imports: [CoverageModule, LorawanModule, MeshtasticMqttModule, RetentionModule, TtsMqttModule],
   controllers: [StatusController],
   providers: [StatusService, ApiKeyGuard]
 })
@@ -1,8 +1,11 @@
 import { Injectable } from '@nestjs/common';
 import { readFileSync } from 'fs';
 import { join } from 'path';
+import { CoverageService } from '../coverage/coverage.service';
 import { LorawanService } from '../lorawan/lorawan.service';
+import { MeshtasticMqttService } from '../meshtastic-mqtt/meshtastic-mqtt.service';
 import { RetentionService } from '../retention/retention.service';
+import { TtsMqttService } from '../tts-mqtt/tts-mqtt.service';
 import { PrismaService } from '../../prisma/prisma.service';
 
 type WorkerRuntimeStatus = {
@@ -29,6 +32,23 @@ export type StatusResponse = {
       lastRunAt?: string;
       lastError?: string;
     };
+    coverage: {
+      ok: boolean;
+      lastRunAt?: string;
+      lastError?: string;
+    };
+    // Only present when the integration is configured.
+    ttsMqtt?: {
+      ok: boolean;
+      lastRunAt?: string;
+      lastError?: string;
+    };
+    // Only present when the integration is configured.
+    meshtasticMqtt?: {
+      ok: boolean;
+      lastRunAt?: string;
+      lastError?: string;
+    };
   };
   ingest: {
     latestWebhookReceivedAt: string | null;
@@ -43,11 +63,16 @@ export class StatusService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly lorawanService: LorawanService,
-    private readonly retentionService: RetentionService
+    private readonly retentionService: RetentionService,
+    private readonly coverageService: CoverageService,
+    private readonly ttsMqttService: TtsMqttService,
+    private readonly meshtasticMqttService: MeshtasticMqttService
   ) {}
 
   async getStatus(): Promise<StatusResponse> {
     const db = await this.getDbStatus();
+    const ttsMqtt = this.ttsMqttService.getWorkerStatus();
+    const meshtasticMqtt = this.meshtasticMqttService.getWorkerStatus();
     const latestWebhook = db.ok
       ? await this.getLatestWebhookStatus()
       : {
@@ -61,7 +86,10 @@ export class StatusService {
       db,
       workers: {
         webhookProcessor: formatWorkerStatus(this.lorawanService.getWorkerStatus()),
-        retention: formatWorkerStatus(this.retentionService.getWorkerStatus())
+        retention: formatWorkerStatus(this.retentionService.getWorkerStatus()),
+        coverage: formatWorkerStatus(this.coverageService.getWorkerStatus()),
+        ...(ttsMqtt ? { ttsMqtt: formatWorkerStatus(ttsMqtt) } : {}),
+        ...(meshtasticMqtt ? { meshtasticMqtt: formatWorkerStatus(meshtasticMqtt) } : {})
       },
       ingest: latestWebhook
     };
@@ -0,0 +1,64 @@
+export type ElevationTileBounds = {
+  minLat: number;
+  minLon: number;
+  maxLat: number;
+  maxLon: number;
+};
+
+export interface ElevationTile {
+  readonly bounds: ElevationTileBounds;
+  elevationAt(lat: number, lon: number): number | null;
+  close(): void;
+}
+
+/**
+ * Bilinear interpolation on a raster addressed by fractional row/column.
+ * Void cells are skipped and the remaining weights renormalized; null when all four are void.
+ */
+export function sampleBilinear(
+  row: number,
+  col: number,
+  rows: number,
+  cols: number,
+  read: (row: number, col: number) => number | null
+): number | null {
+  const row0 = clamp(Math.floor(row), 0, rows - 1);
+  const col0 = clamp(Math.floor(col), 0, cols - 1);
+  const row1 = Math.min(row0 + 1, rows - 1);
+  const col1 = Math.min(col0 + 1, cols - 1);
+  const rowFraction = clamp(row - row0, 0, 1);
+  const colFraction = clamp(col - col0, 0, 1);
+
+  const corners: Array<[number, number, number]> = [
+    [row0, col0, (1 - rowFraction) * (1 - colFraction)],
+    [row0, col1, (1 - rowFraction) * colFraction],
+    [row1, col0, rowFraction * (1 - colFraction)],
+    [row1, col1, rowFraction * colFraction]
+  ];
+
+  let weightedSum = 0;
+  let weightTotal = 0;
+  for (const [cornerRow, cornerCol, weight] of corners) {
+    const value = read(cornerRow, cornerCol);
+    if (value === null || weight === 0) {
+      continue;
+    }
+    weightedSum += value * weight;
+    weightTotal += weight;
+  }
+  if (weightTotal === 0) {
+    // All weighted corners are void; fall back to any non-void neighbour.
+    for (const [cornerRow, cornerCol] of corners) {
+      const value = read(cornerRow, cornerCol);
+      if (value !== null) {
+        return value;
+      }
+    }
+    return null;
+  }
+  return weightedSum / weightTotal;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
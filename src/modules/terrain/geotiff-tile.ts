@@ -0,0 +1,442 @@
+import { closeSync, openSync, readSync } from 'fs';
+import { basename } from 'path';
+import { inflateSync } from 'zlib';
+import { ElevationTile, ElevationTileBounds, sampleBilinear } from './elevation-tile';
+
+const TAG_IMAGE_WIDTH = 256;
+const TAG_IMAGE_LENGTH = 257;
+const TAG_BITS_PER_SAMPLE = 258;
+const TAG_COMPRESSION = 259;
+const TAG_STRIP_OFFSETS = 273;
+const TAG_SAMPLES_PER_PIXEL = 277;
+const TAG_ROWS_PER_STRIP = 278;
+const TAG_STRIP_BYTE_COUNTS = 279;
+const TAG_PREDICTOR = 317;
+const TAG_TILE_WIDTH = 322;
+const TAG_TILE_LENGTH = 323;
+const TAG_TILE_OFFSETS = 324;
+const TAG_TILE_BYTE_COUNTS = 325;
+const TAG_SAMPLE_FORMAT = 339;
+const TAG_MODEL_PIXEL_SCALE = 33550;
+const TAG_MODEL_TIEPOINT = 33922;
+const TAG_GEO_KEY_DIRECTORY = 34735;
+const TAG_GDAL_NODATA = 42113;
+
+const GEO_KEY_MODEL_TYPE = 1024;
+const GEO_KEY_RASTER_TYPE = 1025;
+const MODEL_TYPE_GEOGRAPHIC = 2;
+const RASTER_PIXEL_IS_POINT = 2;
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_DEFLATE_LEGACY = 32946;
+const PREDICTOR_HORIZONTAL = 2;
+
+const SAMPLE_FORMAT_UINT = 1;
+const SAMPLE_FORMAT_INT = 2;
+const SAMPLE_FORMAT_FLOAT = 3;
+
+const BLOCK_CACHE_SIZE = 16;
+// Compressed blocks are decoded whole; larger ones need re-tiling (e.g. gdal_translate -co TILED=YES).
+const MAX_BLOCK_SAMPLES = 4_194_304;
+
+// Byte size per TIFF field type; undefined types are rejected.
+const FIELD_TYPE_SIZES: Record<number, number> = {
+  1: 1,
+  2: 1,
+  3: 2,
+  4: 4,
+  5: 8,
+  6: 1,
+  7: 1,
+  8: 2,
+  9: 4,
+  10: 8,
+  11: 4,
+  12: 8
+};
+
+type TagValue = number[] | string;
+
+type RasterLayout = {
+  width: number;
+  height: number;
+  blockWidth: number;
+  blockHeight: number;
+  blocksAcross: number;
+  offsets: number[];
+  byteCounts: number[];
+  bytesPerSample: number;
+  sampleFormat: number;
+  compression: number;
+  predictor: number;
+  nodata: number | null;
+};
+
+/**
+ * Single-band GeoTIFF DEM in geographic (lat/lon) coordinates. Supports strips or tiles,
+ * uncompressed or deflate (optionally with horizontal predictor), integer or float samples.
+ * Uncompressed samples are read straight from disk; compressed blocks are decoded on demand
+ * and kept in a small per-file cache.
+ */
+export class GeoTiffTile implements ElevationTile {
+  readonly bounds: ElevationTileBounds;
+  private readonly fd: number;
+  private readonly littleEndian: boolean;
+  private readonly layout: RasterLayout;
+  private readonly origin: { lon: number; lat: number };
+  private readonly pixelSize: { lon: number; lat: number };
+  private readonly blockCache = new Map<number, Float32Array>();
+
+  constructor(private readonly filePath: string) {
+    this.fd = openSync(filePath, 'r');
+    try {
+      const header = this.read(0, 8);
+      const byteOrder = header.toString('ascii', 0, 2);
+      if (byteOrder !== 'II' && byteOrder !== 'MM') {
+        throw new Error('not a TIFF file');
+      }
+      this.littleEndian = byteOrder === 'II';
+      const magic = this.littleEndian ? header.readUInt16LE(2) : header.readUInt16BE(2);
+      if (magic !== 42) {
+        throw new Error(magic === 43 ? 'BigTIFF is not supported' : 'not a TIFF file');
+      }
+      const tags = this.readDirectory(this.readUInt32(header, 4));
+      this.layout = buildRasterLayout(tags);
+
+      const scale = numbers(tags, TAG_MODEL_PIXEL_SCALE);
+      const tiepoint = numbers(tags, TAG_MODEL_TIEPOINT);
+      if (scale.length < 2 || tiepoint.length < 6) {
+        throw new Error('missing ModelPixelScale/ModelTiepoint georeferencing');
+      }
+      const geoKeys = parseGeoKeys(numbers(tags, TAG_GEO_KEY_DIRECTORY));
+      const modelType = geoKeys.get(GEO_KEY_MODEL_TYPE);
+      if (modelType !== undefined && modelType !== MODEL_TYPE_GEOGRAPHIC) {
+        throw new Error('only geographic (lat/lon) GeoTIFFs are supported');
+      }
+
+      // Pixel-is-area rasters tie the pixel corner; pixel-is-point ties the pixel center.
+      const centerOffset = geoKeys.get(GEO_KEY_RASTER_TYPE) === RASTER_PIXEL_IS_POINT ? 0 : 0.5;
+      const [tieCol, tieRow, , tieLon, tieLat] = tiepoint;
+      this.pixelSize = { lon: scale[0], lat: scale[1] };
+      this.origin = {
+        lon: tieLon - (tieCol - centerOffset) * scale[0],
+        lat: tieLat + (tieRow - centerOffset) * scale[1]
+      };
+      const minLon = this.origin.lon - 0.5 * scale[0];
+      const maxLat = this.origin.lat + 0.5 * scale[1];
+      this.bounds = {
+        minLon,
+        maxLat,
+        maxLon: minLon + this.layout.width * scale[0],
+        minLat: maxLat - this.layout.height * scale[1]
+      };
+    } catch (error) {
+      closeSync(this.fd);
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${basename(filePath)}: ${message}`);
+    }
+  }
+
+  elevationAt(lat: number, lon: number): number | null {
+    const col = (lon - this.origin.lon) / this.pixelSize.lon;
+    const row = (this.origin.lat - lat) / this.pixelSize.lat;
+    return sampleBilinear(row, col, this.layout.height, this.layout.width, (sampleRow, sampleCol) =>
+      this.readSample(sampleRow, sampleCol)
+    );
+  }
+
+  close(): void {
+    this.blockCache.clear();
+    closeSync(this.fd);
+  }
+
+  private readSample(row: number, col: number): number | null {
+    const layout = this.layout;
+    const blockIndex =
+      Math.floor(row / layout.blockHeight) * layout.blocksAcross + Math.floor(col / layout.blockWidth);
+    const indexInBlock = (row % layout.blockHeight) * layout.blockWidth + (col % layout.blockWidth);
+
+    if (layout.compression === COMPRESSION_NONE) {
+      // Uncompressed samples are addressable directly; no need to pull whole strips.
+      if (!layout.byteCounts[blockIndex]) {
+        return null;
+      }
+      const bytes = this.read(
+        layout.offsets[blockIndex] + indexInBlock * layout.bytesPerSample,
+        layout.bytesPerSample
+      );
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      const value = readValue(view, 0, layout, this.littleEndian);
+      return Number.isFinite(value) && value !== layout.nodata ? value : null;
+    }
+
+    const value = this.loadBlock(blockIndex)[indexInBlock];
+    return Number.isNaN(value) ? null : value;
+  }
+
+  private loadBlock(blockIndex: number): Float32Array {
+    const cached = this.blockCache.get(blockIndex);
+    if (cached) {
+      // Re-insert to keep the map in least-recently-used order.
+      this.blockCache.delete(blockIndex);
+      this.blockCache.set(blockIndex, cached);
+      return cached;
+    }
+
+    const block = this.decodeBlock(blockIndex);
+    if (this.blockCache.size >= BLOCK_CACHE_SIZE) {
+      const oldest = this.blockCache.keys().next().value;
+      if (oldest !== undefined) {
+        this.blockCache.delete(oldest);
+      }
+    }
+    this.blockCache.set(blockIndex, block);
+    return block;
+  }
+
+  private decodeBlock(blockIndex: number): Float32Array {
+    const layout = this.layout;
+    const sampleCount = layout.blockWidth * layout.blockHeight;
+    const values = new Float32Array(sampleCount).fill(Number.NaN);
+    const byteCount = layout.byteCounts[blockIndex] ?? 0;
+    if (byteCount === 0) {
+      // Sparse GeoTIFFs leave empty blocks unwritten.
+      return values;
+    }
+
+    const bytes = inflateSync(this.read(layout.offsets[blockIndex], byteCount));
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const available = Math.min(sampleCount, Math.floor(bytes.byteLength / layout.bytesPerSample));
+    const decoded = new Float64Array(available);
+    for (let index = 0; index < available; index += 1) {
+      decoded[index] = readValue(view, index * layout.bytesPerSample, layout, this.littleEndian);
+    }
+
+    if (layout.predictor === PREDICTOR_HORIZONTAL) {
+      undoHorizontalPredictor(decoded, layout);
+    }
+
+    for (let index = 0; index < available; index += 1) {
+      const value = decoded[index];
+      if (Number.isFinite(value) && value !== layout.nodata) {
+        values[index] = value;
+      }
+    }
+    return values;
+  }
+
+  private readDirectory(offset: number): Map<number, TagValue> {
+    const countBuffer = this.read(offset, 2);
+    const count = this.littleEndian ? countBuffer.readUInt16LE(0) : countBuffer.readUInt16BE(0);
+    const entries = this.read(offset + 2, count * 12);
+    const tags = new Map<number, TagValue>();
+
+    for (let index = 0; index < count; index += 1) {
+      const entry = entries.subarray(index * 12, index * 12 + 12);
+      const tag = this.readUInt16(entry, 0);
+      const type = this.readUInt16(entry, 2);
+      const valueCount = this.readUInt32(entry, 4);
+      const typeSize = FIELD_TYPE_SIZES[type];
+      if (!typeSize) {
+        continue;
+      }
+      const byteLength = typeSize * valueCount;
+      const data =
+        byteLength <= 4
+          ? entry.subarray(8, 8 + byteLength)
+          : this.read(this.readUInt32(entry, 8), byteLength);
+      tags.set(tag, this.decodeField(data, type, valueCount));
+    }
+    return tags;
+  }
+
+  private decodeField(data: Buffer, type: number, count: number): TagValue {
+    if (type === 2) {
+      return data.toString('ascii').replace(/\0+$/, '');
+    }
+    const values: number[] = [];
+    for (let index = 0; index < count; index += 1) {
+      switch (type) {
+        case 1:
+        case 7:
+          values.push(data.readUInt8(index));
+          break;
+        case 6:
+          values.push(data.readInt8(index));
+          break;
+        case 3:
+          values.push(this.readUInt16(data, index * 2));
+          break;
+        case 8:
+          values.push(this.littleEndian ? data.readInt16LE(index * 2) : data.readInt16BE(index * 2));
+          break;
+        case 4:
+          values.push(this.readUInt32(data, index * 4));
+          break;
+        case 9:
+          values.push(this.littleEndian ? data.readInt32LE(index * 4) : data.readInt32BE(index * 4));
+          break;
+        case 11:
+          values.push(this.littleEndian ? data.readFloatLE(index * 4) : data.readFloatBE(index * 4));
+          break;
+        case 12:
+          values.push(this.littleEndian ? data.readDoubleLE(index * 8) : data.readDoubleBE(index * 8));
+          break;
+        case 5:
+        case 10: {
+          const numerator = this.readUInt32(data, index * 8);
+          const denominator = this.readUInt32(data, index * 8 + 4);
+          values.push(denominator === 0 ? 0 : numerator / denominator);
+          break;
+        }
+      }
+    }
+    return values;
+  }
+
+  private readUInt16(buffer: Buffer, offset: number): number {
+    return this.littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset);
+  }
+
+  private readUInt32(buffer: Buffer, offset: number): number {
+    return this.littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+  }
+
+  private read(offset: number, length: number): Buffer {
+    const buffer = Buffer.alloc(length);
+    const bytesRead = readSync(this.fd, buffer, 0, length, offset);
+    if (bytesRead < length) {
+      throw new Error(`${basename(this.filePath)} is truncated`);
+    }
+    return buffer;
+  }
+}
+
+function buildRasterLayout(tags: Map<number, TagValue>): RasterLayout {
+  const width = first(tags, TAG_IMAGE_WIDTH);
+  const height = first(tags, TAG_IMAGE_LENGTH);
+  if (!width || !height) {
+    throw new Error('missing image dimensions');
+  }
+  if ((first(tags, TAG_SAMPLES_PER_PIXEL) ?? 1) !== 1) {
+    throw new Error('only single-band rasters are supported');
+  }
+
+  const compression = first(tags, TAG_COMPRESSION) ?? COMPRESSION_NONE;
+  if (
+    compression !== COMPRESSION_NONE &&
+    compression !== COMPRESSION_DEFLATE &&
+    compression !== COMPRESSION_DEFLATE_LEGACY
+  ) {
+    throw new Error(`compression ${compression} is not supported (use none or deflate)`);
+  }
+  const predictor = first(tags, TAG_PREDICTOR) ?? 1;
+  if (
+    predictor !== 1 &&
+    (predictor !== PREDICTOR_HORIZONTAL || compression === COMPRESSION_NONE)
+  ) {
+    throw new Error(`predictor ${predictor} is not supported`);
+  }
+
+  const bitsPerSample = first(tags, TAG_BITS_PER_SAMPLE) ?? 8;
+  const sampleFormat = first(tags, TAG_SAMPLE_FORMAT) ?? SAMPLE_FORMAT_UINT;
+  const supported =
+    sampleFormat === SAMPLE_FORMAT_FLOAT
+      ? bitsPerSample === 32 || bitsPerSample === 64
+      : bitsPerSample === 8 || bitsPerSample === 16 || bitsPerSample === 32;
+  if (!supported || (sampleFormat === SAMPLE_FORMAT_FLOAT && predictor === PREDICTOR_HORIZONTAL)) {
+    throw new Error(`sample format ${sampleFormat}/${bitsPerSample}-bit is not supported`);
+  }
+
+  const nodataRaw = tags.get(TAG_GDAL_NODATA);
+  const nodata = typeof nodataRaw === 'string' && nodataRaw.trim() !== '' ? Number(nodataRaw) : null;
+
+  const tileWidth = first(tags, TAG_TILE_WIDTH);
+  const tileLength = first(tags, TAG_TILE_LENGTH);
+  const tiled = Boolean(tileWidth && tileLength);
+  const blockWidth = tiled ? (tileWidth as number) : width;
+  const blockHeight = tiled
+    ? (tileLength as number)
+    : Math.min(first(tags, TAG_ROWS_PER_STRIP) ?? height, height);
+  if (compression !== COMPRESSION_NONE && blockWidth * blockHeight > MAX_BLOCK_SAMPLES) {
+    throw new Error('compressed blocks are too large; re-tile the file (gdal_translate -co TILED=YES)');
+  }
+
+  return {
+    width,
+    height,
+    blockWidth,
+    blockHeight,
+    blocksAcross: Math.ceil(width / blockWidth),
+    offsets: numbers(tags, tiled ? TAG_TILE_OFFSETS : TAG_STRIP_OFFSETS),
+    byteCounts: numbers(tags, tiled ? TAG_TILE_BYTE_COUNTS : TAG_STRIP_BYTE_COUNTS),
+    bytesPerSample: bitsPerSample / 8,
+    sampleFormat,
+    compression,
+    predictor,
+    nodata: nodata !== null && Number.isFinite(nodata) ? nodata : null
+  };
+}
+
+function readValue(view: DataView, offset: number, layout: RasterLayout, littleEndian: boolean): number {
+  const bits = layout.bytesPerSample * 8;
+  if (layout.sampleFormat === SAMPLE_FORMAT_FLOAT) {
+    return bits === 64 ? view.getFloat64(offset, littleEndian) : view.getFloat32(offset, littleEndian);
+  }
+  const signed = layout.sampleFormat === SAMPLE_FORMAT_INT;
+  if (bits === 8) {
+    return signed ? view.getInt8(offset) : view.getUint8(offset);
+  }
+  if (bits === 16) {
+    return signed ? view.getInt16(offset, littleEndian) : view.getUint16(offset, littleEndian);
+  }
+  return signed ? view.getInt32(offset, littleEndian) : view.getUint32(offset, littleEndian);
+}
+
+// Horizontal differencing is cumulative per row and wraps at the sample's integer width.
+function undoHorizontalPredictor(values: Float64Array, layout: RasterLayout): void {
+  const bits = layout.bytesPerSample * 8;
+  const range = 2 ** bits;
+  const signed = layout.sampleFormat === SAMPLE_FORMAT_INT;
+  const wrap = (value: number) => {
+    let wrapped = ((value % range) + range) % range;
+    if (signed && wrapped >= range / 2) {
+      wrapped -= range;
+    }
+    return wrapped;
+  };
+
+  for (let rowStart = 0; rowStart < values.length; rowStart += layout.blockWidth) {
+    const rowEnd = Math.min(rowStart + layout.blockWidth, values.length);
+    for (let index = rowStart + 1; index < rowEnd; index += 1) {
+      values[index] = wrap(values[index - 1] + values[index]);
+    }
+  }
+}
+
+function parseGeoKeys(directory: number[]): Map<number, number> {
+  const keys = new Map<number, number>();
+  if (directory.length < 4) {
+    return keys;
+  }
+  const keyCount = directory[3];
+  for (let index = 0; index < keyCount; index += 1) {
+    const base = 4 + index * 4;
+    const [keyId, location, , value] = directory.slice(base, base + 4);
+    // Only short values stored inline in the directory are needed here.
+    if (location === 0 && keyId !== undefined && value !== undefined) {
+      keys.set(keyId, value);
+    }
+  }
+  return keys;
+}
+
+function numbers(tags: Map<number, TagValue>, tag: number): number[] {
+  const value = tags.get(tag);
+  return Array.isArray(value) ? value : [];
+}
+
+function first(tags: Map<number, TagValue>, tag: number): number | undefined {
+  return numbers(tags, tag)[0];
+}
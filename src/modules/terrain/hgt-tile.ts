@@ -0,0 +1,72 @@
+import { closeSync, fstatSync, openSync, readSync } from 'fs';
+import { basename } from 'path';
+import { ElevationTile, ElevationTileBounds, sampleBilinear } from './elevation-tile';
+
+const HGT_VOID = -32768;
+const HGT_NAME_PATTERN = /^([NS])(\d{2})([EW])(\d{3})\.hgt$/i;
+
+/** South-west corner encoded in an SRTM file name such as `N52E013.hgt`. */
+export function parseHgtTileName(fileName: string): { lat: number; lon: number } | null {
+  const match = HGT_NAME_PATTERN.exec(fileName);
+  if (!match) {
+    return null;
+  }
+  const lat = Number.parseInt(match[2], 10) * (match[1].toUpperCase() === 'S' ? -1 : 1);
+  const lon = Number.parseInt(match[4], 10) * (match[3].toUpperCase() === 'W' ? -1 : 1);
+  return { lat, lon };
+}
+
+export function formatHgtTileName(lat: number, lon: number): string {
+  const latFloor = Math.floor(lat);
+  const lonFloor = Math.floor(lon);
+  const latPart = `${latFloor < 0 ? 'S' : 'N'}${String(Math.abs(latFloor)).padStart(2, '0')}`;
+  const lonPart = `${lonFloor < 0 ? 'W' : 'E'}${String(Math.abs(lonFloor)).padStart(3, '0')}`;
+  return `${latPart}${lonPart}`;
+}
+
+/**
+ * SRTM `.hgt` tile: a square grid of big-endian int16 meters covering one degree,
+ * rows north to south, with the edge rows/columns shared with neighbouring tiles.
+ * Samples are read straight from disk so tiles never need to fit in memory.
+ */
+export class HgtTile implements ElevationTile {
+  readonly bounds: ElevationTileBounds;
+  private readonly fd: number;
+  private readonly size: number;
+  private readonly buffer = Buffer.alloc(2);
+
+  constructor(filePath: string, southWest: { lat: number; lon: number }) {
+    this.fd = openSync(filePath, 'r');
+    const { size: byteLength } = fstatSync(this.fd);
+    const size = Math.round(Math.sqrt(byteLength / 2));
+    if (size < 2 || size * size * 2 !== byteLength) {
+      closeSync(this.fd);
+      throw new Error(`${basename(filePath)} is not a square SRTM grid`);
+    }
+    this.size = size;
+    this.bounds = {
+      minLat: southWest.lat,
+      minLon: southWest.lon,
+      maxLat: southWest.lat + 1,
+      maxLon: southWest.lon + 1
+    };
+  }
+
+  elevationAt(lat: number, lon: number): number | null {
+    const row = (this.bounds.maxLat - lat) * (this.size - 1);
+    const col = (lon - this.bounds.minLon) * (this.size - 1);
+    return sampleBilinear(row, col, this.size, this.size, (sampleRow, sampleCol) =>
+      this.read(sampleRow, sampleCol)
+    );
+  }
+
+  close(): void {
+    closeSync(this.fd);
+  }
+
+  private read(row: number, col: number): number | null {
+    readSync(this.fd, this.buffer, 0, 2, (row * this.size + col) * 2);
+    const value = this.buffer.readInt16BE(0);
+    return value === HGT_VOID ? null : value;
+  }
+}
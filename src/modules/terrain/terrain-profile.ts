@@ -0,0 +1,162 @@
+const EARTH_RADIUS_METERS = 6371000;
+const SPEED_OF_LIGHT_MPS = 299_792_458;
+// Standard atmosphere refraction: radio paths behave as if the earth were 4/3 larger.
+export const EFFECTIVE_EARTH_RADIUS_FACTOR = 4 / 3;
+// Paths keeping 60% of the first Fresnel zone clear see near free-space loss.
+export const FRESNEL_CLEARANCE_TARGET = 0.6;
+
+export type TerrainProfileInputSample = {
+  distanceM: number;
+  lat: number;
+  lon: number;
+  elevationM: number | null;
+};
+
+export type TerrainProfileSample = {
+  distanceM: number;
+  lat: number;
+  lon: number;
+  elevationM: number | null;
+  earthBulgeM: number;
+  lineOfSightM: number | null;
+  fresnelRadiusM: number;
+  clearanceM: number | null;
+  fresnelClearance: number | null;
+};
+
+export type TerrainLineOfSight = 'clear' | 'fresnelPartial' | 'obstructed' | 'unknown';
+
+export type TerrainProfileSummary = {
+  distanceM: number;
+  lineOfSight: TerrainLineOfSight;
+  minClearanceM: number | null;
+  minFresnelClearance: number | null;
+  worstDistanceM: number | null;
+  missingSamples: number;
+};
+
+/**
+ * Terrain clearance along a straight path. Terrain is raised by the earth bulge at each
+ * sample (effective radius k=4/3) and compared with the antenna-to-antenna line of sight;
+ * fresnelClearance is clearance over the first Fresnel zone radius (1 = fully clear).
+ */
+export function buildTerrainProfile(params: {
+  samples: TerrainProfileInputSample[];
+  startAntennaM: number;
+  endAntennaM: number;
+  frequencyMhz: number;
+}): { samples: TerrainProfileSample[]; summary: TerrainProfileSummary } {
+  const { samples, startAntennaM, endAntennaM, frequencyMhz } = params;
+  const totalDistance = samples.length > 0 ? samples[samples.length - 1].distanceM : 0;
+  const wavelength = SPEED_OF_LIGHT_MPS / (frequencyMhz * 1e6);
+  const startGround = samples[0]?.elevationM ?? null;
+  const endGround = samples[samples.length - 1]?.elevationM ?? null;
+  const startHeight = startGround === null ? null : startGround + startAntennaM;
+  const endHeight = endGround === null ? null : endGround + endAntennaM;
+
+  let minClearanceM: number | null = null;
+  let minFresnelClearance: number | null = null;
+  let worstDistanceM: number | null = null;
+  let missingSamples = 0;
+
+  const profile = samples.map((sample, index) => {
+    const fromStart = sample.distanceM;
+    const toEnd = Math.max(0, totalDistance - fromStart);
+    const earthBulgeM =
+      (fromStart * toEnd) / (2 * EFFECTIVE_EARTH_RADIUS_FACTOR * EARTH_RADIUS_METERS);
+    const fresnelRadiusM =
+      totalDistance > 0 ? Math.sqrt((wavelength * fromStart * toEnd) / totalDistance) : 0;
+    const lineOfSightM =
+      startHeight !== null && endHeight !== null && totalDistance > 0
+        ? startHeight + ((endHeight - startHeight) * fromStart) / totalDistance
+        : null;
+    const clearanceM =
+      lineOfSightM !== null && sample.elevationM !== null
+        ? lineOfSightM - (sample.elevationM + earthBulgeM)
+        : null;
+    const fresnelClearance =
+      clearanceM !== null && fresnelRadiusM > 0 ? clearanceM / fresnelRadiusM : null;
+
+    // Endpoints sit on the antennas themselves and say nothing about the path.
+    const isInterior = index > 0 && index < samples.length - 1;
+    if (sample.elevationM === null) {
+      missingSamples += 1;
+    } else if (isInterior && clearanceM !== null) {
+      if (minClearanceM === null || clearanceM < minClearanceM) {
+        minClearanceM = clearanceM;
+      }
+      if (
+        fresnelClearance !== null &&
+        (minFresnelClearance === null || fresnelClearance < minFresnelClearance)
+      ) {
+        minFresnelClearance = fresnelClearance;
+        worstDistanceM = fromStart;
+      }
+    }
+
+    return {
+      distanceM: round(fromStart, 1),
+      lat: sample.lat,
+      lon: sample.lon,
+      elevationM: sample.elevationM === null ? null : round(sample.elevationM, 1),
+      earthBulgeM: round(earthBulgeM, 2),
+      lineOfSightM: lineOfSightM === null ? null : round(lineOfSightM, 1),
+      fresnelRadiusM: round(fresnelRadiusM, 2),
+      clearanceM: clearanceM === null ? null : round(clearanceM, 1),
+      fresnelClearance: fresnelClearance === null ? null : round(fresnelClearance, 3)
+    };
+  });
+
+  return {
+    samples: profile,
+    summary: {
+      distanceM: round(totalDistance, 1),
+      lineOfSight: classifyLineOfSight(
+        startHeight,
+        endHeight,
+        missingSamples,
+        minClearanceM,
+        minFresnelClearance
+      ),
+      minClearanceM: minClearanceM === null ? null : round(minClearanceM, 1),
+      minFresnelClearance: minFresnelClearance === null ? null : round(minFresnelClearance, 3),
+      worstDistanceM: worstDistanceM === null ? null : round(worstDistanceM, 1),
+      missingSamples
+    }
+  };
+}
+
+function classifyLineOfSight(
+  startHeight: number | null,
+  endHeight: number | null,
+  missingSamples: number,
+  minClearanceM: number | null,
+  minFresnelClearance: number | null
+): TerrainLineOfSight {
+  if (minClearanceM !== null && minClearanceM < 0) {
+    return 'obstructed';
+  }
+  if (startHeight === null || endHeight === null || missingSamples > 0) {
+    return 'unknown';
+  }
+  if (minFresnelClearance !== null && minFresnelClearance < FRESNEL_CLEARANCE_TARGET) {
+    return 'fresnelPartial';
+  }
+  return 'clear';
+}
+
+/** Accepts Hz (as TTS reports) or MHz and returns MHz; null for missing/implausible values. */
+export function normalizeFrequencyMhz(value: number | null | undefined): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    return null;
+  }
+  if (value >= 1e6) {
+    return value / 1e6;
+  }
+  return value >= 1 && value < 1e4 ? value : null;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,118 @@
+import { BadRequestException, Controller, Get, Query } from '@nestjs/common';
+import { TerrainService } from './terrain.service';
+
+type TerrainProfileQuery = {
+  measurementId?: string | string[];
+  homeLat?: string | string[];
+  homeLon?: string | string[];
+  freqMhz?: string | string[];
+  homeAntennaM?: string | string[];
+  pointAntennaM?: string | string[];
+  samples?: string | string[];
+};
+
+const DEFAULT_HOME_ANTENNA_M = 2;
+const DEFAULT_POINT_ANTENNA_M = 1;
+const MAX_ANTENNA_M = 500;
+const DEFAULT_SAMPLES = 256;
+const MIN_SAMPLES = 16;
+const MAX_SAMPLES = 1024;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+@Controller('api/terrain')
+export class TerrainController {
+  constructor(private readonly terrainService: TerrainService) {}
+
+  @Get('profile')
+  async getProfile(@Query() query: TerrainProfileQuery) {
+    const measurementId = getSingleValue(query.measurementId, 'measurementId');
+    if (!measurementId) {
+      throw new BadRequestException('measurementId is required');
+    }
+    if (!UUID_PATTERN.test(measurementId)) {
+      throw new BadRequestException('measurementId must be a UUID');
+    }
+
+    const homeLat = parseOptionalNumber(getSingleValue(query.homeLat, 'homeLat'), 'homeLat');
+    const homeLon = parseOptionalNumber(getSingleValue(query.homeLon, 'homeLon'), 'homeLon');
+    if ((homeLat === undefined) !== (homeLon === undefined)) {
+      throw new BadRequestException('homeLat and homeLon must be provided together');
+    }
+    if (homeLat !== undefined && (homeLat < -90 || homeLat > 90)) {
+      throw new BadRequestException('homeLat must be between -90 and 90');
+    }
+    if (homeLon !== undefined && (homeLon < -180 || homeLon > 180)) {
+      throw new BadRequestException('homeLon must be between -180 and 180');
+    }
+
+    const frequencyMhz = parseOptionalNumber(getSingleValue(query.freqMhz, 'freqMhz'), 'freqMhz');
+    if (frequencyMhz !== undefined && (frequencyMhz < 30 || frequencyMhz > 6000)) {
+      throw new BadRequestException('freqMhz must be between 30 and 6000');
+    }
+
+    return this.terrainService.getMeasurementProfile({
+      measurementId,
+      home:
+        homeLat !== undefined && homeLon !== undefined ? { lat: homeLat, lon: homeLon } : undefined,
+      frequencyMhz,
+      homeAntennaM: parseAntennaHeight(
+        getSingleValue(query.homeAntennaM, 'homeAntennaM'),
+        'homeAntennaM',
+        DEFAULT_HOME_ANTENNA_M
+      ),
+      pointAntennaM: parseAntennaHeight(
+        getSingleValue(query.pointAntennaM, 'pointAntennaM'),
+        'pointAntennaM',
+        DEFAULT_POINT_ANTENNA_M
+      ),
+      samples: parseSamples(getSingleValue(query.samples, 'samples'))
+    });
+  }
+}
+
+function getSingleValue(value: string | string[] | undefined, name: string): string | undefined {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return undefined;
+    }
+    if (value.length > 1) {
+      throw new BadRequestException(`Multiple values provided for ${name}`);
+    }
+    return value[0];
+  }
+  return value;
+}
+
+function parseOptionalNumber(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value.trim());
+  if (value.trim() === '' || !Number.isFinite(parsed)) {
+    throw new BadRequestException(`${name} must be a number`);
+  }
+  return parsed;
+}
+
+function parseAntennaHeight(value: string | undefined, name: string, fallback: number): number {
+  const parsed = parseOptionalNumber(value, name);
+  if (parsed === undefined) {
+    return fallback;
+  }
+  if (parsed < 0 || parsed > MAX_ANTENNA_M) {
+    throw new BadRequestException(`${name} must be between 0 and ${MAX_ANTENNA_M}`);
+  }
+  return parsed;
+}
+
+function parseSamples(value: string | undefined): number {
+  if (value === undefined) {
+    return DEFAULT_SAMPLES;
+  }
+  const normalized = value.trim();
+  const parsed = /^\d+$/.test(normalized) ? Number.parseInt(normalized, 10) : Number.NaN;
+  if (!Number.isInteger(parsed) || parsed < MIN_SAMPLES || parsed > MAX_SAMPLES) {
+    throw new BadRequestException(`samples must be an integer between ${MIN_SAMPLES} and ${MAX_SAMPLES}`);
+  }
+  return parsed;
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { TerrainController } from './terrain.controller';
+import { TerrainService } from './terrain.service';
+
+@Module({
+  controllers: [TerrainController],
+  providers: [TerrainService],
+  exports: [TerrainService]
+})
+export class TerrainModule {}
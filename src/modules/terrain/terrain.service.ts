@@ -0,0 +1,309 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  OnModuleDestroy,
+  ServiceUnavailableException
+} from '@nestjs/common';
+import { readdirSync } from 'fs';
+import { basename, extname, join } from 'path';
+import { logWarn } from '../../common/logging/structured-logger';
+import { bearingDegrees, destinationPoint } from '../../common/geo/bearing';
+import { distanceMeters } from '../../common/geo/haversine';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ElevationTile, ElevationTileBounds } from './elevation-tile';
+import { GeoTiffTile } from './geotiff-tile';
+import { formatHgtTileName, HgtTile, parseHgtTileName } from './hgt-tile';
+import {
+  buildTerrainProfile,
+  normalizeFrequencyMhz,
+  TerrainProfileSample,
+  TerrainProfileSummary
+} from './terrain-profile';
+
+const DEFAULT_FREQUENCY_MHZ = 868;
+const INDEX_TTL_MS = 60_000;
+const MAX_OPEN_TILES = 16;
+const GEOTIFF_EXTENSIONS = new Set(['.tif', '.tiff']);
+
+type TerrainIndex = {
+  builtAt: number;
+  hgt: Map<string, string>;
+  geotiffs: Array<{ path: string; bounds: ElevationTileBounds }>;
+};
+
+type TerrainProfileParams = {
+  measurementId: string;
+  home?: { lat: number; lon: number };
+  frequencyMhz?: number;
+  homeAntennaM: number;
+  pointAntennaM: number;
+  samples: number;
+};
+
+export type TerrainProfileResult = {
+  home: {
+    lat: number;
+    lon: number;
+    source: 'config' | 'query';
+    groundElevationM: number | null;
+    antennaM: number;
+  };
+  point: {
+    measurementId: string;
+    lat: number;
+    lon: number;
+    groundElevationM: number | null;
+    antennaM: number;
+  };
+  frequencyMhz: number;
+  frequencySource: 'query' | 'measurement' | 'default';
+  samples: TerrainProfileSample[];
+  summary: TerrainProfileSummary;
+  missingTiles: string[];
+};
+
+@Injectable()
+export class TerrainService implements OnModuleDestroy {
+  private index: TerrainIndex | null = null;
+  // Insertion-ordered so the first key is the least recently used tile.
+  private readonly openTiles = new Map<string, ElevationTile>();
+  private readonly geotiffBounds = new Map<string, ElevationTileBounds | null>();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  onModuleDestroy(): void {
+    for (const tile of this.openTiles.values()) {
+      tile.close();
+    }
+    this.openTiles.clear();
+  }
+
+  isEnabled(): boolean {
+    return resolveTerrainDir() !== null;
+  }
+
+  elevationAt(lat: number, lon: number): number | null {
+    const path = this.findTilePath(lat, lon);
+    if (!path) {
+      return null;
+    }
+    const tile = this.openTile(path);
+    return tile ? tile.elevationAt(lat, lon) : null;
+  }
+
+  async getMeasurementProfile(params: TerrainProfileParams): Promise<TerrainProfileResult> {
+    if (!this.isEnabled()) {
+      throw new ServiceUnavailableException('Terrain data is not configured; set TERRAIN_DIR');
+    }
+
+    const measurement = await this.prisma.measurement.findUnique({
+      where: { id: params.measurementId },
+      select: { id: true, deviceId: true, lat: true, lon: true, freq: true }
+    });
+    if (!measurement) {
+      throw new NotFoundException('Measurement not found');
+    }
+
+    const home = params.home ?? (await this.readHomeLocation(measurement.deviceId));
+    if (!home) {
+      throw new BadRequestException(
+        'Device has no home location configured; pass homeLat and homeLon'
+      );
+    }
+
+    const totalDistance = distanceMeters(home.lat, home.lon, measurement.lat, measurement.lon);
+    if (totalDistance < 1) {
+      throw new BadRequestException('Measurement is at the home location');
+    }
+    const bearing = bearingDegrees(home.lat, home.lon, measurement.lat, measurement.lon);
+    const missingTiles = new Set<string>();
+    const inputSamples = Array.from({ length: params.samples }, (_, index) => {
+      const distance = (totalDistance * index) / (params.samples - 1);
+      const position =
+        index === params.samples - 1
+          ? { lat: measurement.lat, lon: measurement.lon }
+          : destinationPoint(home.lat, home.lon, bearing, distance);
+      const elevationM = this.elevationAt(position.lat, position.lon);
+      if (elevationM === null && !this.findTilePath(position.lat, position.lon)) {
+        missingTiles.add(formatHgtTileName(position.lat, position.lon));
+      }
+      return { distanceM: distance, lat: position.lat, lon: position.lon, elevationM };
+    });
+
+    const measurementFrequency = normalizeFrequencyMhz(measurement.freq);
+    const frequencyMhz = params.frequencyMhz ?? measurementFrequency ?? DEFAULT_FREQUENCY_MHZ;
+    const { samples, summary } = buildTerrainProfile({
+      samples: inputSamples,
+      startAntennaM: params.homeAntennaM,
+      endAntennaM: params.pointAntennaM,
+      frequencyMhz
+    });
+
+    return {
+      home: {
+        lat: home.lat,
+        lon: home.lon,
+        source: params.home ? 'query' : 'config',
+        groundElevationM: samples[0].elevationM,
+        antennaM: params.homeAntennaM
+      },
+      point: {
+        measurementId: measurement.id,
+        lat: measurement.lat,
+        lon: measurement.lon,
+        groundElevationM: samples[samples.length - 1].elevationM,
+        antennaM: params.pointAntennaM
+      },
+      frequencyMhz,
+      frequencySource: params.frequencyMhz
+        ? 'query'
+        : measurementFrequency !== null
+          ? 'measurement'
+          : 'default',
+      samples,
+      summary,
+      missingTiles: Array.from(missingTiles).sort()
+    };
+  }
+
+  private async readHomeLocation(deviceId: string): Promise<{ lat: number; lon: number } | null> {
+    const config = await this.prisma.deviceAutoSessionConfig.findUnique({
+      where: { deviceId },
+      select: { homeLat: true, homeLon: true }
+    });
+    if (
+      !config ||
+      typeof config.homeLat !== 'number' ||
+      !Number.isFinite(config.homeLat) ||
+      typeof config.homeLon !== 'number' ||
+      !Number.isFinite(config.homeLon)
+    ) {
+      return null;
+    }
+    return { lat: config.homeLat, lon: config.homeLon };
+  }
+
+  private findTilePath(lat: number, lon: number): string | null {
+    const index = this.getIndex();
+    if (!index) {
+      return null;
+    }
+    const hgtPath = index.hgt.get(formatHgtTileName(lat, lon));
+    if (hgtPath) {
+      return hgtPath;
+    }
+    const geotiff = index.geotiffs.find(
+      ({ bounds }) =>
+        lat >= bounds.minLat && lat <= bounds.maxLat && lon >= bounds.minLon && lon <= bounds.maxLon
+    );
+    return geotiff?.path ?? null;
+  }
+
+  private openTile(path: string): ElevationTile | null {
+    const existing = this.openTiles.get(path);
+    if (existing) {
+      this.openTiles.delete(path);
+      this.openTiles.set(path, existing);
+      return existing;
+    }
+
+    let tile: ElevationTile;
+    try {
+      const southWest = parseHgtTileName(basename(path));
+      tile = southWest ? new HgtTile(path, southWest) : new GeoTiffTile(path);
+    } catch (error) {
+      logWarn('terrain.tile.open_failed', {
+        path,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+
+    if (this.openTiles.size >= MAX_OPEN_TILES) {
+      const oldestPath = this.openTiles.keys().next().value;
+      if (oldestPath !== undefined) {
+        this.openTiles.get(oldestPath)?.close();
+        this.openTiles.delete(oldestPath);
+      }
+    }
+    this.openTiles.set(path, tile);
+    return tile;
+  }
+
+  // Rescanned periodically so tiles dropped into the directory are picked up without a restart.
+  private getIndex(): TerrainIndex | null {
+    const dir = resolveTerrainDir();
+    if (!dir) {
+      return null;
+    }
+    if (this.index && Date.now() - this.index.builtAt < INDEX_TTL_MS) {
+      return this.index;
+    }
+
+    const hgt = new Map<string, string>();
+    const geotiffs: TerrainIndex['geotiffs'] = [];
+    for (const path of listFiles(dir)) {
+      const name = basename(path);
+      const southWest = parseHgtTileName(name);
+      if (southWest) {
+        hgt.set(formatHgtTileName(southWest.lat, southWest.lon), path);
+        continue;
+      }
+      if (!GEOTIFF_EXTENSIONS.has(extname(name).toLowerCase())) {
+        continue;
+      }
+      const bounds = this.readGeoTiffBounds(path);
+      if (bounds) {
+        geotiffs.push({ path, bounds });
+      }
+    }
+
+    this.index = { builtAt: Date.now(), hgt, geotiffs };
+    return this.index;
+  }
+
+  private readGeoTiffBounds(path: string): ElevationTileBounds | null {
+    if (this.geotiffBounds.has(path)) {
+      return this.geotiffBounds.get(path) ?? null;
+    }
+    let bounds: ElevationTileBounds | null = null;
+    try {
+      const tile = new GeoTiffTile(path);
+      bounds = tile.bounds;
+      tile.close();
+    } catch (error) {
+      logWarn('terrain.geotiff.skipped', {
+        path,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    this.geotiffBounds.set(path, bounds);
+    return bounds;
+  }
+}
+
+function listFiles(dir: string): string[] {
+  let entries;
+  try {
+    entries = readdirSync(dir, { withFileTypes: true });
+  } catch (error) {
+    logWarn('terrain.dir.unreadable', {
+      dir,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return [];
+  }
+  return entries.flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return listFiles(path);
+    }
+    return entry.isFile() ? [path] : [];
+  });
+}
+
+function resolveTerrainDir(): string | null {
+  const value = process.env.TERRAIN_DIR?.trim();
+  return value ? value : null;
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { LorawanModule } from '../lorawan/lorawan.module';
+import { TtsMqttService } from './tts-mqtt.service';
+
+@Module({
+  imports: [LorawanModule],
+  providers: [TtsMqttService],
+  exports: [TtsMqttService]
+})
+export class TtsMqttModule {}
@@ -0,0 +1,55 @@
+import { Injectable, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { logWarn } from '../../common/logging/structured-logger';
+import { MqttSubscriber, type MqttSubscriberStatus } from '../../common/mqtt/mqtt-subscriber';
+import { LorawanService } from '../lorawan/lorawan.service';
+import { parseTtsUplink } from '../lorawan/tts-uplink.schema';
+
+const DEFAULT_TOPIC = 'v3/+/devices/+/up';
+
+/**
+ * Subscribes to The Things Stack MQTT integration, for deployments that cannot receive the
+ * webhook. Uplinks take the same path as `POST /api/lorawan/uplink`, so the two can run side
+ * by side: duplicates collapse on the uplink id.
+ */
+@Injectable()
+export class TtsMqttService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly subscriber: MqttSubscriber | null;
+
+  constructor(private readonly lorawanService: LorawanService) {
+    const url = process.env.TTS_MQTT_URL?.trim();
+    this.subscriber = url
+      ? new MqttSubscriber({
+          name: 'tts_mqtt',
+          url,
+          username: process.env.TTS_MQTT_USERNAME?.trim() || undefined,
+          password: process.env.TTS_MQTT_PASSWORD || undefined,
+          topics: [process.env.TTS_MQTT_TOPIC?.trim() || DEFAULT_TOPIC],
+          onMessage: (topic, message) => this.handleMessage(topic, message)
+        })
+      : null;
+  }
+
+  onApplicationBootstrap(): void {
+    this.subscriber?.start();
+  }
+
+  onModuleDestroy(): void {
+    this.subscriber?.stop();
+  }
+
+  /** Null when `TTS_MQTT_URL` is not set; `GET /api/status` then leaves the worker out. */
+  getWorkerStatus(): MqttSubscriberStatus | null {
+    return this.subscriber?.getStatus() ?? null;
+  }
+
+  private async handleMessage(topic: string, message: Buffer): Promise<void> {
+    let parsed;
+    try {
+      parsed = parseTtsUplink(JSON.parse(message.toString('utf8')));
+    } catch {
+      logWarn('tts_mqtt.message.rejected', { topic, reason: 'invalid_payload' });
+      return;
+    }
+    await this.lorawanService.enqueueUplink(parsed);
+  }
+}
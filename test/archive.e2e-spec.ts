@@ -0,0 +1,658 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { createZip, readZip } from '../src/common/zip/zip';
+import {
+  ARCHIVE_VERSION,
+  ArchiveContents,
+  ArchiveFormatError,
+  buildArchive,
+  parseArchive
+} from '../src/modules/archive/archive-format';
+import { ArchiveService } from '../src/modules/archive/archive.service';
+import { CoverageService } from '../src/modules/coverage/coverage.service';
+import { PrismaService } from '../src/prisma/prisma.service';
+
+const DEVICE_ID = '11111111-1111-4111-8111-111111111111';
+const SESSION_ID = '22222222-2222-4222-8222-222222222222';
+const MEASUREMENT_ID = '33333333-3333-4333-8333-333333333333';
+const LOOSE_MEASUREMENT_ID = '44444444-4444-4444-8444-444444444444';
+
+function buildContents(): ArchiveContents {
+  return {
+    devices: [
+      {
+        id: DEVICE_ID,
+        deviceUid: 'dev-archive-1',
+        name: 'Walker',
+        notes: null,
+        meshtasticNodeId: null,
+        hwModel: null,
+        firmwareVersion: null,
+        appVersion: null,
+        longName: null,
+        shortName: null,
+        macaddr: null,
+        publicKey: null,
+        isUnmessagable: null,
+        role: null,
+        lastNodeInfoAt: null,
+        iconKey: null,
+        iconOverride: false,
+        isArchived: false,
+        createdAt: new Date('2026-03-01T09:00:00.000Z'),
+        lastSeenAt: new Date('2026-03-01T11:00:00.000Z')
+      }
+    ],
+    autoSessionConfigs: [
+      {
+        deviceId: DEVICE_ID,
+        enabled: true,
+        homeLat: 52.5,
+        homeLon: 13.4,
+        radiusMeters: 50,
+        minOutsideSeconds: 120,
+        minInsideSeconds: 300
+      }
+    ],
+    sessions: [
+      {
+        id: SESSION_ID,
+        deviceId: DEVICE_ID,
+        name: 'Morning walk',
+        startedAt: new Date('2026-03-01T10:00:00.000Z'),
+        endedAt: new Date('2026-03-01T10:30:00.000Z'),
+        notes: null,
+        isArchived: false,
+        archivedAt: null
+      }
+    ],
+    measurements: [
+      buildMeasurement(MEASUREMENT_ID, SESSION_ID, { gatewayId: 'gw-1', foo: 1 }),
+      buildMeasurement(LOOSE_MEASUREMENT_ID, null, null)
+    ],
+    rxMetadata: [
+      {
+        measurementId: MEASUREMENT_ID,
+        gatewayId: 'gw-1',
+        rssi: -90,
+        snr: 6.5,
+        channelIndex: 2,
+        time: null,
+        fineTimestamp: null,
+        receivedAt: new Date('2026-03-01T10:05:01.000Z')
+      }
+    ],
+    meshtasticRx: [
+      {
+        measurementId: LOOSE_MEASUREMENT_ID,
+        rxTime: new Date('2026-03-01T11:00:00.000Z'),
+        rxRssi: -101,
+        rxSnr: -3.25,
+        hopLimit: 2,
+        hopStart: 3,
+        relayNode: 17,
+        transportMechanism: 'TRANSPORT_LORA',
+        fromId: '!abcd1234',
+        toId: '^all',
+        raw: { packet: { id: 42 } }
+      }
+    ],
+    telemetry: [
+      {
+        deviceId: DEVICE_ID,
+        capturedAt: new Date('2026-03-01T10:10:00.000Z'),
+        source: 'meshtastic',
+        batteryLevel: 87,
+        voltage: 4.01,
+        channelUtilization: null,
+        airUtilTx: null,
+        uptimeSeconds: 3600,
+        raw: null
+      }
+    ]
+  };
+}
+
+function buildMeasurement(id: string, sessionId: string | null, rxMetadata: Record<string, unknown> | null) {
+  return {
+    id,
+    deviceId: DEVICE_ID,
+    sessionId,
+    source: sessionId ? 'lorawan' : 'meshtastic',
+    capturedAt: new Date('2026-03-01T10:05:00.000Z'),
+    lat: 52.51,
+    lon: 13.41,
+    alt: null,
+    altitude: 34,
+    hdop: 1.2,
+    pdop: null,
+    satsInView: 9,
+    precisionBits: null,
+    locationSource: null,
+    groundSpeed: null,
+    groundTrack: null,
+    rssi: -90,
+    snr: 6.5,
+    sf: 7,
+    bw: 125,
+    freq: 868.1,
+    fCnt: sessionId ? 42 : null,
+    gatewayId: sessionId ? 'gw-1' : null,
+    payloadRaw: null,
+    rxMetadata
+  };
+}
+
+function replaceEntry(archive: Buffer, name: string, data: string): Buffer {
+  return createZip(
+    readZip(archive).map((entry) => (entry.name === name ? { ...entry, data: Buffer.from(data) } : entry))
+  );
+}
+
+// Rewrites the uncompressed size an entry declares in the central directory.
+function declareEntrySize(archive: Buffer, name: string, size: number): Buffer {
+  const patched = Buffer.from(archive);
+  let offset = patched.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+  while (offset !== -1) {
+    const nameLength = patched.readUInt16LE(offset + 28);
+    if (patched.toString('utf8', offset + 46, offset + 46 + nameLength) === name) {
+      patched.writeUInt32LE(size, offset + 24);
+      return patched;
+    }
+    offset = patched.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]), offset + 46);
+  }
+  throw new Error(`${name} not found`);
+}
+
+describe('Archive format', () => {
+  it('round-trips every table through the zip', () => {
+    const contents = buildContents();
+    const archive = buildArchive(contents, { type: 'device', deviceId: DEVICE_ID });
+
+    expect(readZip(archive).map((entry) => entry.name)).toEqual([
+      'manifest.json',
+      'devices.ndjson',
+      'auto-session-configs.ndjson',
+      'sessions.ndjson',
+      'measurements.ndjson',
+      'rx-metadata.ndjson',
+      'meshtastic-rx.ndjson',
+      'telemetry.ndjson'
+    ]);
+
+    const parsed = parseArchive(archive);
+    expect(parsed.manifest.version).toBe(ARCHIVE_VERSION);
+    expect(parsed.manifest.scope).toEqual({ type: 'device', deviceId: DEVICE_ID });
+    expect(parsed.manifest.counts).toMatchObject({ measurements: 2, rxMetadata: 1, telemetry: 1 });
+    expect(parsed.contents).toEqual(contents);
+    expect(parsed.contents.measurements.map((measurement) => measurement.fCnt)).toEqual([42, null]);
+  });
+
+  it('reads measurements without a frame counter from older archives', () => {
+    const archive = buildArchive(buildContents(), { type: 'device', deviceId: DEVICE_ID });
+    const lines = readZip(archive)
+      .find((entry) => entry.name === 'measurements.ndjson')!
+      .data.toString('utf8')
+      .trim()
+      .split('\n')
+      .map((line) => {
+        const { fCnt: _fCnt, ...record } = JSON.parse(line);
+        return JSON.stringify(record);
+      });
+    const older = replaceEntry(archive, 'measurements.ndjson', `${lines.join('\n')}\n`);
+
+    expect(parseArchive(older).contents.measurements.map((measurement) => measurement.fCnt)).toEqual([
+      null,
+      null
+    ]);
+  });
+
+  it('rejects archives from a newer format version', () => {
+    const archive = buildArchive(buildContents(), { type: 'device', deviceId: DEVICE_ID });
+    const manifest = JSON.parse(readZip(archive)[0].data.toString('utf8'));
+    const newer = replaceEntry(
+      archive,
+      'manifest.json',
+      JSON.stringify({ ...manifest, version: ARCHIVE_VERSION + 1 })
+    );
+
+    expect(() => parseArchive(newer)).toThrow(/newer than this server supports/);
+  });
+
+  it('reports the file and line of an invalid record', () => {
+    const archive = buildArchive(buildContents(), { type: 'device', deviceId: DEVICE_ID });
+    const sessions = readZip(archive)
+      .find((entry) => entry.name === 'sessions.ndjson')!
+      .data.toString('utf8');
+    const broken = replaceEntry(
+      archive,
+      'sessions.ndjson',
+      `${sessions}${JSON.stringify({ id: SESSION_ID, deviceId: DEVICE_ID, name: null, startedAt: 'yesterday' })}\n`
+    );
+
+    expect(() => parseArchive(broken)).toThrow('Invalid archive: sessions.ndjson line 2: startedAt: Invalid datetime');
+  });
+
+  it('rejects records that reference devices missing from the archive', () => {
+    const contents = buildContents();
+    contents.telemetry[0].deviceId = '99999999-9999-4999-8999-999999999999';
+    const archive = buildArchive(contents, { type: 'device', deviceId: DEVICE_ID });
+
+    expect(() => parseArchive(archive)).toThrow(ArchiveFormatError);
+    expect(() => parseArchive(archive)).toThrow(/telemetry\.ndjson line 1 references unknown device/);
+  });
+
+  it('ignores unknown files without inflating them', () => {
+    const archive = buildArchive(buildContents(), { type: 'device', deviceId: DEVICE_ID });
+    const withExtra = createZip([
+      ...readZip(archive),
+      { name: 'notes.txt', data: Buffer.from('hello') }
+    ]);
+
+    // A broken size on an unknown entry would fail its checksum if it were read.
+    const parsed = parseArchive(declareEntrySize(withExtra, 'notes.txt', 1));
+    expect(parsed.contents.measurements).toHaveLength(2);
+  });
+
+  it('enforces entry, total size and entry count limits before inflating', () => {
+    const archive = buildArchive(buildContents(), { type: 'device', deviceId: DEVICE_ID });
+
+    expect(() =>
+      parseArchive(declareEntrySize(archive, 'measurements.ndjson', 300 * 1024 * 1024), {
+        maxEntryBytes: 256 * 1024 * 1024
+      })
+    ).toThrow('Invalid archive: measurements.ndjson: entry is larger than 268435456 bytes');
+    expect(() => parseArchive(archive, { maxTotalBytes: 1000 })).toThrow(
+      'Invalid archive: Archive expands to more than 1000 bytes'
+    );
+    expect(() => parseArchive(archive, { maxEntries: 4 })).toThrow(
+      'Invalid archive: Archive has more than 4 entries'
+    );
+  });
+
+  it('rejects data that is not a zip archive', () => {
+    expect(() => parseArchive(Buffer.from('not a zip'))).toThrow('Invalid archive: Not a zip archive');
+  });
+});
+
+describe('ArchiveService.importArchive', () => {
+  type Existing = {
+    deviceUids?: Record<string, string>;
+    deviceIds?: string[];
+    sessionIds?: string[];
+    measurementIds?: string[];
+    telemetry?: Array<{ deviceId: string; capturedAt: Date; source: string }>;
+  };
+
+  function createService(existing: Existing = {}) {
+    const created: Record<string, any[]> = {
+      device: [],
+      session: [],
+      measurement: [],
+      rxMetadata: [],
+      meshtasticRx: [],
+      deviceTelemetrySample: [],
+      deviceAutoSessionConfig: []
+    };
+    const createMany = (table: string) =>
+      jest.fn(async ({ data }: { data: any[] }) => {
+        created[table].push(...data);
+        return { count: data.length };
+      });
+    const findIds = (ids: string[] = []) =>
+      jest.fn(async ({ where }: { where: { id: { in: string[] } } }) =>
+        where.id.in.filter((id) => ids.includes(id)).map((id) => ({ id }))
+      );
+    const tx = {
+      device: {
+        findUnique: jest.fn(async ({ where }: { where: { deviceUid?: string; id?: string } }) => {
+          if (where.deviceUid !== undefined) {
+            const id = existing.deviceUids?.[where.deviceUid];
+            return id ? { id } : null;
+          }
+          return existing.deviceIds?.includes(where.id!) ? { id: where.id } : null;
+        }),
+        create: jest.fn(async ({ data }: { data: any }) => {
+          created.device.push(data);
+          return data;
+        })
+      },
+      deviceAutoSessionConfig: {
+        findUnique: jest.fn(async () => null),
+        create: jest.fn(async ({ data }: { data: any }) => {
+          created.deviceAutoSessionConfig.push(data);
+          return data;
+        })
+      },
+      session: { findMany: findIds(existing.sessionIds), createMany: createMany('session') },
+      measurement: { findMany: findIds(existing.measurementIds), createMany: createMany('measurement') },
+      rxMetadata: { createMany: createMany('rxMetadata') },
+      meshtasticRx: { createMany: createMany('meshtasticRx') },
+      deviceTelemetrySample: {
+        findMany: jest.fn(async () => existing.telemetry ?? []),
+        createMany: createMany('deviceTelemetrySample')
+      }
+    };
+    const transactions: number[] = [];
+    const prisma = {
+      ...tx,
+      $transaction: jest.fn(async (fn: (client: typeof tx) => Promise<unknown>, options: { timeout: number }) => {
+        transactions.push(options.timeout);
+        return fn(tx);
+      })
+    } as unknown as PrismaService;
+    const coverageService = { aggregateForDeviceDay: jest.fn(async () => undefined) };
+    return {
+      service: new ArchiveService(prisma, coverageService as unknown as CoverageService),
+      created,
+      transactions,
+      coverageService
+    };
+  }
+
+  const archive = buildArchive(buildContents(), { type: 'device', deviceId: DEVICE_ID });
+
+  it('keeps source ids on an empty instance', async () => {
+    const { service, created } = createService();
+
+    const summary = await service.importArchive(archive, { ownerId: 'owner-1' });
+
+    expect(summary.devices).toEqual({ created: 1, matched: 0 });
+    expect(summary.sessions).toEqual({ created: 1, remapped: 0, skipped: 0 });
+    expect(summary.measurements).toEqual({ created: 2, remapped: 0, skipped: 0 });
+    expect(summary.rxMetadata.created).toBe(1);
+    expect(summary.meshtasticRx.created).toBe(1);
+    expect(summary.telemetry).toEqual({ created: 1, skipped: 0 });
+    expect(summary.autoSessionConfigs).toEqual({ created: 1, skipped: 0 });
+    expect(created.device[0]).toMatchObject({ id: DEVICE_ID, deviceUid: 'dev-archive-1', ownerId: 'owner-1' });
+    expect(created.session[0]).toMatchObject({ id: SESSION_ID, ownerId: 'owner-1' });
+    expect(created.measurement[0].fCnt).toBe(42);
+    expect(created.measurement[1].rxMetadata).toBe(Prisma.DbNull);
+    expect(created.deviceTelemetrySample[0].raw).toBe(Prisma.DbNull);
+    expect(summary.idMap.sessions).toEqual({ [SESSION_ID]: SESSION_ID });
+  });
+
+  it('maps records onto an existing device with the same deviceUid', async () => {
+    const targetDeviceId = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+    const { service, created } = createService({ deviceUids: { 'dev-archive-1': targetDeviceId } });
+
+    const summary = await service.importArchive(archive);
+
+    expect(summary.devices).toEqual({ created: 0, matched: 1 });
+    expect(created.device).toHaveLength(0);
+    expect(created.session[0].deviceId).toBe(targetDeviceId);
+    expect(created.measurement.every((row) => row.deviceId === targetDeviceId)).toBe(true);
+    expect(created.deviceTelemetrySample[0].deviceId).toBe(targetDeviceId);
+    expect(summary.idMap.devices).toEqual({ [DEVICE_ID]: targetDeviceId });
+  });
+
+  it('skips sessions and samples that were already imported', async () => {
+    const { service, created } = createService({
+      deviceUids: { 'dev-archive-1': DEVICE_ID },
+      sessionIds: [SESSION_ID],
+      measurementIds: [MEASUREMENT_ID, LOOSE_MEASUREMENT_ID],
+      telemetry: [{ deviceId: DEVICE_ID, capturedAt: new Date('2026-03-01T10:10:00.000Z'), source: 'meshtastic' }]
+    });
+
+    const summary = await service.importArchive(archive, { onConflict: 'skip' });
+
+    expect(summary.sessions).toEqual({ created: 0, remapped: 0, skipped: 1 });
+    expect(summary.measurements).toEqual({ created: 0, remapped: 0, skipped: 2 });
+    expect(summary.telemetry).toEqual({ created: 0, skipped: 1 });
+    expect(created.rxMetadata).toHaveLength(0);
+    expect(created.meshtasticRx).toHaveLength(0);
+  });
+
+  it('copies conflicting sessions under new ids and follows them in child rows', async () => {
+    const { service, created } = createService({
+      deviceUids: { 'dev-archive-1': DEVICE_ID },
+      sessionIds: [SESSION_ID],
+      measurementIds: [MEASUREMENT_ID]
+    });
+
+    const summary = await service.importArchive(archive, { onConflict: 'copy' });
+
+    expect(summary.sessions).toEqual({ created: 1, remapped: 1, skipped: 0 });
+    expect(summary.measurements).toEqual({ created: 2, remapped: 1, skipped: 0 });
+    const sessionId = created.session[0].id;
+    expect(sessionId).not.toBe(SESSION_ID);
+    expect(summary.idMap.sessions[SESSION_ID]).toBe(sessionId);
+    const copied = created.measurement.find((row) => row.sessionId === sessionId);
+    expect(copied.id).not.toBe(MEASUREMENT_ID);
+    expect(created.rxMetadata[0].measurementId).toBe(copied.id);
+    expect(created.meshtasticRx[0].measurementId).toBe(LOOSE_MEASUREMENT_ID);
+  });
+
+  it('writes in short transactions and rebuilds coverage for the imported days', async () => {
+    const contents = buildContents();
+    contents.measurements = Array.from({ length: 2500 }, (_, index) => ({
+      ...buildMeasurement(
+        `${String(index).padStart(8, '0')}-5555-4555-8555-555555555555`,
+        SESSION_ID,
+        null
+      ),
+      capturedAt: new Date(Date.UTC(2026, 2, 1 + (index % 2), 10))
+    }));
+    contents.rxMetadata = [];
+    contents.meshtasticRx = [];
+    const { service, created, transactions, coverageService } = createService();
+
+    const summary = await service.importArchive(
+      buildArchive(contents, { type: 'device', deviceId: DEVICE_ID })
+    );
+
+    expect(summary.measurements.created).toBe(2500);
+    // Devices, sessions, three measurement chunks and telemetry.
+    expect(transactions).toHaveLength(6);
+    expect(transactions.every((timeout) => timeout <= 30_000)).toBe(true);
+    expect(created.measurement).toHaveLength(2500);
+    expect(coverageService.aggregateForDeviceDay.mock.calls).toEqual([
+      [DEVICE_ID, new Date('2026-03-01T00:00:00.000Z')],
+      [DEVICE_ID, new Date('2026-03-02T00:00:00.000Z')]
+    ]);
+  });
+
+  it('adds missing measurements to a session that was partly imported before', async () => {
+    const { service, created } = createService({
+      deviceUids: { 'dev-archive-1': DEVICE_ID },
+      sessionIds: [SESSION_ID],
+      measurementIds: [LOOSE_MEASUREMENT_ID]
+    });
+
+    const summary = await service.importArchive(archive, { onConflict: 'skip' });
+
+    expect(summary.sessions).toEqual({ created: 0, remapped: 0, skipped: 1 });
+    expect(summary.measurements).toEqual({ created: 1, remapped: 0, skipped: 1 });
+    expect(created.measurement[0]).toMatchObject({ id: MEASUREMENT_ID, sessionId: SESSION_ID });
+    expect(created.rxMetadata[0].measurementId).toBe(MEASUREMENT_ID);
+    expect(summary.idMap.sessions).toEqual({});
+  });
+
+  it('turns format errors into bad requests', async () => {
+    const { service } = createService();
+
+    await expect(service.importArchive(Buffer.from('garbage'))).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      service.importArchive(declareEntrySize(archive, 'measurements.ndjson', 0xffffffff))
+    ).rejects.toThrow(/measurements\.ndjson: entry is larger than/);
+  });
+});
+
+describe('ArchiveService.exportArchive', () => {
+  // One more than a page, so every paged table is read in two queries.
+  const ROWS = 2001;
+
+  function measurementId(index: number): string {
+    return `33333333-3333-4333-8333-${index.toString(16).padStart(12, '0')}`;
+  }
+
+  // Returns the rows after the keyset cursor in `where`, as the database would.
+  function page<T>(rows: T[], key: (row: T) => string, after: string | undefined, take: number): T[] {
+    const start = after === undefined ? 0 : rows.findIndex((row) => key(row) === after) + 1;
+    return rows.slice(start, start + take);
+  }
+
+  function createService() {
+    const contents = buildContents();
+    const measurements = Array.from({ length: ROWS }, (_, index) => ({
+      ...buildMeasurement(measurementId(index), SESSION_ID, null),
+      capturedAt: new Date(Date.UTC(2026, 2, 1, 10, 0, index)),
+      // The column is a BIGINT, so Prisma reads counters back as bigint.
+      fCnt: BigInt(2 ** 31 + index)
+    }));
+    const rxMetadata = measurements.map((measurement, index) => ({
+      ...contents.rxMetadata[0],
+      id: `55555555-5555-4555-8555-${index.toString(16).padStart(12, '0')}`,
+      measurementId: measurement.id
+    }));
+    const prisma = {
+      device: {
+        findUnique: jest.fn(async () => ({ id: DEVICE_ID })),
+        findMany: jest.fn(async () => contents.devices)
+      },
+      deviceAutoSessionConfig: { findMany: jest.fn(async () => contents.autoSessionConfigs) },
+      session: { findMany: jest.fn(async () => contents.sessions) },
+      measurement: {
+        groupBy: jest.fn(async () => [{ deviceId: DEVICE_ID }]),
+        findMany: jest.fn(async ({ where, take }: { where: any; take: number }) =>
+          page(measurements, (row) => row.id, where.AND?.[1].OR[1].AND[1].id.gt, take)
+        )
+      },
+      rxMetadata: {
+        findMany: jest.fn(async ({ where, take }: { where: any; take: number }) =>
+          page(rxMetadata, (row) => row.id, where.AND[1].id?.gt, take)
+        )
+      },
+      meshtasticRx: { findMany: jest.fn(async () => []) },
+      deviceTelemetrySample: { findMany: jest.fn(async () => []) }
+    };
+    const service = new ArchiveService(
+      prisma as unknown as PrismaService,
+      { aggregateForDeviceDay: jest.fn() } as unknown as CoverageService
+    );
+    return { service, prisma, measurements };
+  }
+
+  async function collect(chunks: AsyncIterable<Buffer>): Promise<Buffer> {
+    const parts: Buffer[] = [];
+    for await (const chunk of chunks) {
+      parts.push(chunk);
+    }
+    return Buffer.concat(parts);
+  }
+
+  it('writes tables that span several pages into an archive that imports', async () => {
+    const { service, prisma, measurements } = createService();
+
+    const archive = await collect(await service.exportArchive({ type: 'device', deviceId: DEVICE_ID }));
+    const { manifest, contents } = parseArchive(archive);
+
+    expect(prisma.measurement.findMany).toHaveBeenCalledTimes(2);
+    expect(prisma.rxMetadata.findMany).toHaveBeenCalledTimes(2);
+    expect(contents.measurements.map((measurement) => measurement.id)).toEqual(
+      measurements.map((measurement) => measurement.id)
+    );
+    expect(contents.rxMetadata).toHaveLength(ROWS);
+    expect(contents.rxMetadata[ROWS - 1]).not.toHaveProperty('id');
+    expect(manifest.counts).toEqual({
+      devices: 1,
+      autoSessionConfigs: 1,
+      sessions: 1,
+      measurements: ROWS,
+      rxMetadata: ROWS,
+      meshtasticRx: 0,
+      telemetry: 0
+    });
+  });
+
+  it('writes frame counters above 2^31 as plain numbers', async () => {
+    const { service } = createService();
+
+    const archive = await collect(await service.exportArchive({ type: 'device', deviceId: DEVICE_ID }));
+    const { contents } = parseArchive(archive);
+
+    expect(contents.measurements[0].fCnt).toBe(2 ** 31);
+    expect(contents.measurements[ROWS - 1].fCnt).toBe(2 ** 31 + ROWS - 1);
+  });
+
+  it('reports a missing scope before anything is streamed', async () => {
+    const { service, prisma } = createService();
+    prisma.device.findUnique.mockResolvedValueOnce(null as never);
+
+    await expect(service.exportArchive({ type: 'device', deviceId: DEVICE_ID })).rejects.toThrow('Device not found');
+  });
+});
+
+describe('ArchiveService coverage rebuild', () => {
+  it('aggregates imported measurements even when the coverage cursor is already past them', async () => {
+    const rebuiltIds: string[][] = [];
+    const tx: any = {
+      $queryRaw: jest.fn(async () => [{ locked: true }]),
+      $executeRaw: jest.fn(async (query: { values: unknown[] } | TemplateStringsArray) => {
+        // Bin rebuilds are Prisma.Sql statements; the advisory lock is a tagged template.
+        if (!Array.isArray(query)) {
+          rebuiltIds.push(
+            (query as { values: unknown[] }).values.filter((value): value is string => typeof value === 'string')
+          );
+        }
+        return 0;
+      }),
+      workerCursor: {
+        // The worker already moved past rows committed after it read them.
+        findUnique: jest.fn(async () => ({
+          ingestedAt: new Date('2030-01-01T00:00:00.000Z'),
+          measurementId: 'ffffffff-ffff-4fff-8fff-ffffffffffff'
+        })),
+        upsert: jest.fn()
+      },
+      device: {
+        findUnique: jest.fn(async () => null),
+        create: jest.fn(async ({ data }: { data: any }) => data)
+      },
+      deviceAutoSessionConfig: { findUnique: jest.fn(async () => null), create: jest.fn() },
+      session: { findMany: jest.fn(async () => []), createMany: jest.fn(async ({ data }: any) => ({ count: data.length })) },
+      measurement: {
+        findMany: jest.fn(async ({ where }: { where: any }) => {
+          if (where.OR) {
+            return [];
+          }
+          if (where.capturedAt) {
+            return [{ id: MEASUREMENT_ID }, { id: LOOSE_MEASUREMENT_ID }];
+          }
+          return [];
+        }),
+        createMany: jest.fn(async ({ data }: any) => ({ count: data.length }))
+      },
+      rxMetadata: { createMany: jest.fn(async ({ data }: any) => ({ count: data.length })) },
+      meshtasticRx: { createMany: jest.fn(async ({ data }: any) => ({ count: data.length })) },
+      deviceTelemetrySample: {
+        findMany: jest.fn(async () => []),
+        createMany: jest.fn(async ({ data }: any) => ({ count: data.length }))
+      }
+    };
+    const prisma = { ...tx, $transaction: jest.fn(async (fn: (client: any) => Promise<unknown>) => fn(tx)) };
+    const coverageService = new CoverageService(prisma as unknown as PrismaService);
+    const service = new ArchiveService(prisma as unknown as PrismaService, coverageService);
+
+    await coverageService.aggregateOnce();
+    expect(rebuiltIds).toEqual([]);
+
+    await service.importArchive(buildArchive(buildContents(), { type: 'device', deviceId: DEVICE_ID }));
+
+    expect(tx.measurement.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          deviceId: DEVICE_ID,
+          capturedAt: {
+            gte: new Date('2026-03-01T00:00:00.000Z'),
+            lt: new Date('2026-03-02T00:00:00.000Z')
+          }
+        })
+      })
+    );
+    expect(rebuiltIds.length).toBeGreaterThan(0);
+    expect(rebuiltIds.every((ids) => ids.includes(MEASUREMENT_ID) && ids.includes(LOOSE_MEASUREMENT_ID))).toBe(
+      true
+    );
+  });
+});
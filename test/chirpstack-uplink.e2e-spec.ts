@@ -0,0 +1,96 @@
+import { BadRequestException } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseChirpstackUplink } from '../src/modules/lorawan/chirpstack-uplink.schema';
+import { normalizeChirpstackUplinkToMeasurement } from '../src/modules/lorawan/chirpstack-normalize';
+import { LorawanController } from '../src/modules/lorawan/lorawan.controller';
+import { deriveChirpstackUplinkId } from '../src/modules/lorawan/uplink-id';
+
+const RECEIVED_AT = new Date('2026-02-02T20:00:05.000Z');
+
+function loadFixture(name: string): Record<string, any> {
+  const raw = readFileSync(join(__dirname, 'fixtures', 'chirpstack', name), 'utf8');
+  return JSON.parse(raw) as Record<string, any>;
+}
+
+describe('ChirpStack uplink normalization', () => {
+  it('maps position, data rate and every gateway onto the canonical measurement', () => {
+    const result = normalizeChirpstackUplinkToMeasurement(
+      parseChirpstackUplink(loadFixture('uplink_with_gps.json')),
+      RECEIVED_AT
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) {
+      return;
+    }
+    expect(result.item).toMatchObject({
+      deviceUid: 'A1B2C3D4E5F60456',
+      capturedAt: '2026-02-02T20:00:00.000Z',
+      lat: 52.5201,
+      lon: 13.4049,
+      alt: 41,
+      hdop: 1.2,
+      sf: 9,
+      bw: 125000,
+      freq: 868500000,
+      fCnt: 42
+    });
+    expect(result.item.rxMetadata).toEqual([
+      expect.objectContaining({
+        gateway_ids: { gateway_id: '0016c001f153a14c' },
+        rssi: -112,
+        snr: -3.5,
+        channel_index: 2
+      }),
+      expect.objectContaining({
+        gateway_ids: { gateway_id: '0016c001f153a14d' },
+        rssi: -98,
+        snr: 6.25
+      })
+    ]);
+  });
+
+  it('falls back to network server time and rejects uplinks without a position', () => {
+    const payload = loadFixture('uplink_with_gps.json');
+    delete payload.time;
+    const withoutTime = normalizeChirpstackUplinkToMeasurement(parseChirpstackUplink(payload), RECEIVED_AT);
+    expect(withoutTime.ok && withoutTime.item.capturedAt).toBe('2026-02-02T20:00:00.120Z');
+
+    payload.object = { battery: 3.7 };
+    expect(normalizeChirpstackUplinkToMeasurement(parseChirpstackUplink(payload), RECEIVED_AT)).toEqual({
+      ok: false,
+      reason: 'missing_gps'
+    });
+  });
+
+  it('keys retries on the deduplication id', () => {
+    const payload = loadFixture('uplink_with_gps.json');
+    expect(deriveChirpstackUplinkId(payload)).toBe(
+      'chirpstack:up:3ab9c3c6-8f7e-4d4a-b5b4-3c7d2e1f0a99'
+    );
+
+    delete payload.deduplicationId;
+    const hashed = deriveChirpstackUplinkId(payload);
+    expect(hashed).toMatch(/^[0-9a-f]{64}$/);
+    expect(deriveChirpstackUplinkId({ ...payload, fCnt: 43 })).not.toBe(hashed);
+  });
+});
+
+describe('LorawanController ChirpStack route', () => {
+  it('queues up events, acknowledges other event types and rejects malformed bodies', async () => {
+    const lorawanService = { enqueueChirpstackUplink: jest.fn(async () => undefined) };
+    const controller = new LorawanController(lorawanService as any);
+    const payload = loadFixture('uplink_with_gps.json');
+
+    await expect(controller.chirpstackUplink(payload, 'up')).resolves.toEqual({ status: 'ok' });
+    await expect(controller.chirpstackUplink({ deviceInfo: {} }, 'join')).resolves.toEqual({
+      status: 'ignored'
+    });
+    expect(lorawanService.enqueueChirpstackUplink).toHaveBeenCalledTimes(1);
+
+    await expect(controller.chirpstackUplink({ rxInfo: [] }, undefined)).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+  });
+});
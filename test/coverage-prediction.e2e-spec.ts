@@ -0,0 +1,214 @@
+import {
+  interpolateCoverageGrid,
+  PredictionGridTooLargeError
+} from '../src/modules/coverage/coverage-interpolation';
+import { CoveragePredictionService } from '../src/modules/coverage/coverage-prediction.service';
+
+const observation = (latBin: number, lonBin: number, rssiAvg: number | null) => ({
+  latBin,
+  lonBin,
+  count: 5,
+  rssiAvg,
+  snrAvg: null,
+  rssiMin: rssiAvg,
+  rssiMax: rssiAvg,
+  snrMin: null,
+  snrMax: null,
+  framesReceived: 0,
+  framesExpected: 0,
+  pdr: null,
+  gatewayId: null
+});
+
+describe('interpolateCoverageGrid', () => {
+  it('interpolates unobserved cells with IDW and skips observed ones', () => {
+    const cells = interpolateCoverageGrid([observation(0, 10, -100), observation(0, 14, -80)], {
+      binSizeDeg: 0.001,
+      radius: 4,
+      maxCells: 1000
+    });
+    const row = cells.filter((cell) => cell.latBin === 0 && cell.lonBin >= 10 && cell.lonBin <= 14);
+
+    expect(row.map((cell) => cell.lonBin)).toEqual([11, 12, 13]);
+    const [nearBase, middle] = row;
+    expect(middle.rssiAvg).toBe(-90);
+    expect(middle.snrAvg).toBeNull();
+    expect(middle.neighbors).toBe(2);
+    expect(nearBase.rssiAvg).toBeCloseTo((-100 / 1 + -80 / 9) / (1 + 1 / 9), 1);
+    expect(nearBase.nearestDistanceMeters).toBeCloseTo(111, -1);
+    expect(nearBase.confidence).toBeGreaterThan(middle.confidence);
+    expect(cells.every((cell) => cell.confidence > 0 && cell.confidence <= 1)).toBe(true);
+  });
+
+  it('measures distances in meters, so longitude bins shrink away from the equator', () => {
+    // At 60 degrees north a bin is half as wide as it is tall.
+    const latBin = 60_000;
+    const cells = interpolateCoverageGrid([observation(latBin, 0, -100)], {
+      binSizeDeg: 0.001,
+      radius: 2,
+      maxCells: 1000
+    });
+    const find = (lat: number, lon: number) =>
+      cells.find((cell) => cell.latBin === lat && cell.lonBin === lon);
+
+    const north = find(latBin + 1, 0);
+    const east = find(latBin, 2);
+    expect(north).toBeDefined();
+    expect(east).toBeDefined();
+    expect(Math.abs((north?.nearestDistanceMeters ?? 0) - (east?.nearestDistanceMeters ?? 0))).toBeLessThan(2);
+    // Four bins east is still within two bin heights; three bins north is not.
+    expect(find(latBin, 4)).toBeDefined();
+    expect(find(latBin + 3, 0)).toBeUndefined();
+  });
+
+  it('refuses grids above the cell budget', () => {
+    expect(() =>
+      interpolateCoverageGrid([observation(0, 0, -100)], { binSizeDeg: 0.001, radius: 8, maxCells: 10 })
+    ).toThrow(PredictionGridTooLargeError);
+  });
+});
+
+describe('CoveragePredictionService', () => {
+  const sessionId = '56f46f26-ee3e-4438-aace-be1f9b69de7c';
+  const bbox = { minLon: 0.009, minLat: -0.001, maxLon: 0.016, maxLat: 0.001 };
+
+  const createService = () => {
+    const stored = new Map<string, any>();
+    const cells: any[] = [];
+    const coveragePrediction = {
+      findUnique: jest.fn(async ({ where }: any) => stored.get(where.scopeKey) ?? null),
+      findUniqueOrThrow: jest.fn(),
+      create: jest.fn(async ({ data }: any) => {
+        const row = {
+          id: 'prediction-1',
+          status: 'PENDING',
+          error: null,
+          cellCount: 0,
+          binsUpdatedAt: null,
+          computedAt: null,
+          requestedAt: new Date('2026-03-01T00:00:00.000Z'),
+          lastReadAt: new Date(),
+          fromDay: null,
+          toDay: null,
+          ...data
+        };
+        stored.set(data.scopeKey, row);
+        return row;
+      }),
+      update: jest.fn(async ({ data }: any) => {
+        const row = Array.from(stored.values())[0];
+        Object.assign(row, data);
+        return row;
+      }),
+      findFirst: jest.fn(async () =>
+        Array.from(stored.values()).find((row) => row.status === 'PENDING') ?? null
+      ),
+      updateMany: jest.fn(async ({ where, data }: any) => {
+        const row = Array.from(stored.values()).find(
+          (candidate) => candidate.id === where.id && candidate.requestedAt === where.requestedAt
+        );
+        if (!row) {
+          return { count: 0 };
+        }
+        Object.assign(row, data);
+        return { count: 1 };
+      }),
+      deleteMany: jest.fn(async () => ({ count: 0 }))
+    };
+    const coveragePredictionCell = {
+      findMany: jest.fn(async () => cells),
+      deleteMany: jest.fn(async () => {
+        cells.length = 0;
+        return { count: 0 };
+      }),
+      createMany: jest.fn(async ({ data }: any) => {
+        cells.push(...data);
+        return { count: data.length };
+      })
+    };
+    const prisma: any = {
+      coveragePrediction,
+      coveragePredictionCell,
+      $executeRaw: jest.fn(async () => 0),
+      $transaction: jest.fn(async (callback: (tx: unknown) => Promise<unknown>) => callback(prisma))
+    };
+    const binsUpdatedAt = new Date('2026-03-01T10:00:00.000Z');
+    const coverageService = {
+      getLatestBinUpdate: jest.fn(async () => binsUpdatedAt),
+      listBins: jest.fn(async () => ({
+        items: [observation(0, 10, -100), observation(0, 14, -80)],
+        truncated: false
+      }))
+    };
+    const service = new CoveragePredictionService(prisma, coverageService as any);
+    return { service, stored, coveragePrediction, coveragePredictionCell, coverageService };
+  };
+
+  it('queues a grid on first read and serves persisted cells once the worker built it', async () => {
+    const { service, stored, coveragePredictionCell, coverageService } = createService();
+
+    const first = await service.getPrediction({ sessionId, bbox, level: 0, radius: 4 });
+    expect(first).toEqual(
+      expect.objectContaining({ status: 'pending', stale: false, computedAt: null, cells: [] })
+    );
+    expect(coveragePredictionCell.findMany).not.toHaveBeenCalled();
+
+    await service.processPending();
+    expect(coverageService.listBins).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId, level: 0, groupBy: 'none' })
+    );
+    const [row] = Array.from(stored.values());
+    expect(row.status).toBe('READY');
+    expect(row.cellCount).toBeGreaterThan(0);
+    expect(coveragePredictionCell.createMany).toHaveBeenCalled();
+
+    const second = await service.getPrediction({ sessionId, bbox, level: 0, radius: 4 });
+    expect(second.status).toBe('ready');
+    expect(second.cells.length).toBe(row.cellCount);
+    expect(coveragePredictionCell.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ predictionId: 'prediction-1', latBin: { gte: -1, lte: 1 } })
+      })
+    );
+  });
+
+  it('keys day ranges by UTC day and requeues a grid when its bins change', async () => {
+    const { service, stored, coveragePrediction, coverageService } = createService();
+    const from = new Date('2026-02-20T13:45:00.000Z');
+
+    await service.getPrediction({ sessionId, from, bbox, level: 0, radius: 4 });
+    await service.processPending();
+    await service.getPrediction({
+      sessionId,
+      from: new Date('2026-02-20T18:00:00.000Z'),
+      bbox,
+      level: 0,
+      radius: 4
+    });
+    expect(coveragePrediction.create).toHaveBeenCalledTimes(1);
+    expect(coveragePrediction.create.mock.calls[0][0].data.fromDay).toEqual(
+      new Date('2026-02-20T00:00:00.000Z')
+    );
+
+    coverageService.getLatestBinUpdate.mockResolvedValue(new Date('2026-03-02T00:00:00.000Z'));
+    const stale = await service.getPrediction({ sessionId, from, bbox, level: 0, radius: 4 });
+    expect(stale).toEqual(expect.objectContaining({ status: 'pending', stale: true }));
+    expect(stale.cells.length).toBeGreaterThan(0);
+    expect(Array.from(stored.values())[0].status).toBe('PENDING');
+  });
+
+  it('marks grids over the cell budget as failed instead of building them', async () => {
+    const { service, stored, coverageService } = createService();
+    coverageService.listBins.mockResolvedValue({
+      items: Array.from({ length: 2000 }, (_, index) => observation(0, index * 100, -100)),
+      truncated: false
+    });
+
+    await service.getPrediction({ sessionId, bbox, level: 0, radius: 32 });
+    await service.processPending();
+
+    const [row] = Array.from(stored.values());
+    expect(row.status).toBe('FAILED');
+    expect(row.error).toContain('exceeds');
+  });
+});
@@ -9,8 +9,8 @@ describe('CoverageController listBins query handling', () => {
   beforeEach(() => {
     jest.useFakeTimers();
     jest.setSystemTime(dayNow);
-    listBins = jest.fn().mockResolvedValue([]);
-    controller = new CoverageController({ listBins } as any);
+    listBins = jest.fn().mockResolvedValue({ items: [], truncated: false });
+    controller = new CoverageController({ listBins } as any, {} as any);
   });
 
   afterEach(() => {
@@ -124,4 +124,426 @@ describe('CoverageController listBins query handling', () => {
       })
     ).rejects.toBeInstanceOf(BadRequestException);
   });
+
+  it('resolves coverage level from zoom or explicit level', async () => {
+    const base = await controller.listBins({
+      deviceId: '5bf4376a-e7ca-4884-9558-f8bff5dbe89f'
+    });
+    expect(base).toEqual(expect.objectContaining({ level: 0, binSizeDeg: 0.001 }));
+    expect(listBins).toHaveBeenLastCalledWith(expect.objectContaining({ level: 0 }));
+
+    const zoomedOut = await controller.listBins({
+      deviceId: '5bf4376a-e7ca-4884-9558-f8bff5dbe89f',
+      zoom: '9.5'
+    });
+    expect(zoomedOut).toEqual(expect.objectContaining({ level: 2, binSizeDeg: 0.016 }));
+    expect(listBins).toHaveBeenLastCalledWith(expect.objectContaining({ level: 2 }));
+
+    const mid = await controller.listBins({
+      sessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c',
+      level: '1'
+    });
+    expect(mid).toEqual(expect.objectContaining({ level: 1, binSizeDeg: 0.004 }));
+
+    await expect(
+      controller.listBins({
+        deviceId: '5bf4376a-e7ca-4884-9558-f8bff5dbe89f',
+        level: '7'
+      })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      controller.listBins({
+        deviceId: '5bf4376a-e7ca-4884-9558-f8bff5dbe89f',
+        zoom: 'far'
+      })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      controller.listBins({
+        deviceId: '5bf4376a-e7ca-4884-9558-f8bff5dbe89f',
+        level: '1',
+        zoom: '12'
+      })
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('accepts from/to ranges and groupBy, rejecting conflicting day selectors', async () => {
+    const response = await controller.listBins({
+      deviceId: '5bf4376a-e7ca-4884-9558-f8bff5dbe89f',
+      from: '2026-01-28T00:00:00.000Z',
+      to: '2026-02-27T00:00:00.000Z',
+      groupBy: 'none'
+    });
+
+    expect(listBins).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        day: undefined,
+        from: new Date('2026-01-28T00:00:00.000Z'),
+        to: new Date('2026-02-27T00:00:00.000Z'),
+        groupBy: 'none'
+      })
+    );
+    expect(response).toEqual(
+      expect.objectContaining({
+        day: 'range',
+        from: '2026-01-28T00:00:00.000Z',
+        to: '2026-02-27T00:00:00.000Z',
+        groupBy: 'none'
+      })
+    );
+
+    await controller.listBins({ deviceId: '5bf4376a-e7ca-4884-9558-f8bff5dbe89f' });
+    expect(listBins).toHaveBeenLastCalledWith(expect.objectContaining({ groupBy: 'gateway' }));
+
+    await expect(
+      controller.listBins({
+        deviceId: '5bf4376a-e7ca-4884-9558-f8bff5dbe89f',
+        from: '2026-02-01',
+        day: '2026-02-01'
+      })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      controller.listBins({
+        deviceId: '5bf4376a-e7ca-4884-9558-f8bff5dbe89f',
+        to: '2026-02-01',
+        allDays: 'true'
+      })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      controller.listBins({
+        deviceId: '5bf4376a-e7ca-4884-9558-f8bff5dbe89f',
+        from: '2026-02-10',
+        to: '2026-02-01'
+      })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      controller.listBins({
+        deviceId: '5bf4376a-e7ca-4884-9558-f8bff5dbe89f',
+        groupBy: 'session'
+      })
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('defaults gatewayMode to best and forwards any', async () => {
+    await controller.listBins({ sessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c' });
+    expect(listBins).toHaveBeenLastCalledWith(expect.objectContaining({ gatewayMode: 'best' }));
+
+    const response = await controller.listBins({
+      sessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c',
+      gatewayId: 'gw-2',
+      gatewayMode: 'ANY'
+    });
+    expect(listBins).toHaveBeenLastCalledWith(
+      expect.objectContaining({ gatewayId: 'gw-2', gatewayMode: 'any' })
+    );
+    expect(response).toEqual(expect.objectContaining({ gatewayMode: 'any' }));
+
+    await expect(
+      controller.listBins({
+        sessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c',
+        gatewayMode: 'all'
+      })
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
+
+describe('CoverageController diffBins', () => {
+  it('requires one scope per side and forwards parsed scopes', async () => {
+    const diffBins = jest.fn().mockResolvedValue({ items: [], truncated: false });
+    const controller = new CoverageController({ diffBins } as any, {} as any);
+    const deviceId = '5bf4376a-e7ca-4884-9558-f8bff5dbe89f';
+
+    await expect(
+      controller.diffBins({ baseSessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c' })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      controller.diffBins({
+        baseDeviceId: deviceId,
+        baseSessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c',
+        compareDeviceId: deviceId
+      })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      controller.diffBins({
+        baseDeviceId: deviceId,
+        compareDeviceId: deviceId,
+        compareFrom: '2026-03-01',
+        compareTo: '2026-02-01'
+      })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(diffBins).not.toHaveBeenCalled();
+
+    const response = await controller.diffBins({
+      baseDeviceId: deviceId,
+      baseFrom: '2026-01-01T00:00:00.000Z',
+      baseTo: '2026-01-31T00:00:00.000Z',
+      compareSessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c',
+      zoom: '12'
+    });
+
+    expect(diffBins).toHaveBeenCalledWith({
+      base: {
+        deviceId,
+        sessionId: undefined,
+        from: new Date('2026-01-01T00:00:00.000Z'),
+        to: new Date('2026-01-31T00:00:00.000Z')
+      },
+      compare: {
+        deviceId: undefined,
+        sessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c',
+        from: undefined,
+        to: undefined
+      },
+      bbox: undefined,
+      gatewayId: undefined,
+      gatewayMode: 'best',
+      level: 1,
+      limit: 5000
+    });
+    expect(response).toEqual({ binSizeDeg: 0.004, level: 1, items: [], count: 0, truncated: false });
+  });
+});
+
+describe('CoverageController predictBins', () => {
+  it('requires a bbox within the cell budget and marks results as predicted', async () => {
+    const getPrediction = jest.fn().mockResolvedValue({
+      status: 'pending',
+      stale: false,
+      computedAt: null,
+      error: null,
+      binSizeDeg: 0.004,
+      level: 1,
+      cells: []
+    });
+    const controller = new CoverageController({} as any, { getPrediction } as any);
+    const deviceId = '5bf4376a-e7ca-4884-9558-f8bff5dbe89f';
+
+    await expect(controller.predictBins({ deviceId })).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+    await expect(
+      controller.predictBins({ deviceId, bbox: '13.3,52.4,13.5,52.6', radius: '0' })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      controller.predictBins({ deviceId, bbox: '13.0,52.0,14.0,53.0', level: '0' })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(getPrediction).not.toHaveBeenCalled();
+
+    const response = await controller.predictBins({
+      deviceId,
+      bbox: '13.3,52.4,13.5,52.6',
+      zoom: '12',
+      radius: '6'
+    });
+
+    expect(getPrediction).toHaveBeenCalledWith(
+      expect.objectContaining({ deviceId, level: 1, radius: 6 })
+    );
+    expect(response).toEqual(
+      expect.objectContaining({
+        predicted: true,
+        method: 'idw',
+        binSizeDeg: 0.004,
+        status: 'pending',
+        computedAt: null,
+        count: 0
+      })
+    );
+  });
+});
+
+describe('CoverageController getBoundaries', () => {
+  it('validates mode, metric, thresholds and sectors before querying', async () => {
+    const getBoundaries = jest.fn().mockResolvedValue({ type: 'FeatureCollection', features: [] });
+    const controller = new CoverageController({ getBoundaries } as any, {} as any);
+    const sessionId = '56f46f26-ee3e-4438-aace-be1f9b69de7c';
+
+    await expect(controller.getBoundaries({})).rejects.toBeInstanceOf(BadRequestException);
+    await expect(controller.getBoundaries({ sessionId, mode: 'convex' })).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+    await expect(
+      controller.getBoundaries({ sessionId, thresholds: '-100,,-110' })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(controller.getBoundaries({ sessionId, sectors: '8' })).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+    await expect(
+      controller.getBoundaries({ sessionId, mode: 'sector', sectors: '2' })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(getBoundaries).not.toHaveBeenCalled();
+
+    await controller.getBoundaries({ sessionId, metric: 'snr' });
+    expect(getBoundaries).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        sessionId,
+        mode: 'threshold',
+        metric: 'snr',
+        thresholds: [5, 0, -5],
+        sectors: 16
+      })
+    );
+
+    await controller.getBoundaries({
+      sessionId,
+      mode: 'sector',
+      sectors: '8',
+      thresholds: '-105'
+    });
+    expect(getBoundaries).toHaveBeenLastCalledWith(
+      expect.objectContaining({ mode: 'sector', metric: 'rssi', thresholds: [-105], sectors: 8 })
+    );
+  });
+});
+
+describe('CoverageController getTile', () => {
+  function createResponse() {
+    const res: any = {
+      headers: {} as Record<string, string>,
+      setHeader: jest.fn((name: string, value: string) => {
+        res.headers[name] = value;
+      }),
+      status: jest.fn(() => res),
+      send: jest.fn(() => res)
+    };
+    return res;
+  }
+
+  it('validates tile coordinates and scope', async () => {
+    const listTileBins = jest.fn().mockResolvedValue({ bins: [], binSizeDeg: 0.001, level: 0 });
+    const controller = new CoverageController({ listTileBins } as any, {} as any);
+    const deviceId = '5bf4376a-e7ca-4884-9558-f8bff5dbe89f';
+
+    await expect(
+      controller.getTile('3', '8', '0', { deviceId }, createResponse())
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      controller.getTile('-1', '0', '0', { deviceId }, createResponse())
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(controller.getTile('3', '1', '1', {}, createResponse())).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+    await expect(
+      controller.getTile(
+        '3',
+        '1',
+        '1',
+        { deviceId, from: '2026-02-10', to: '2026-02-01' },
+        createResponse()
+      )
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(listTileBins).not.toHaveBeenCalled();
+  });
+
+  it('passes filters to the service and responds with a cacheable vector tile', async () => {
+    const listTileBins = jest.fn().mockResolvedValue({
+      binSizeDeg: 0.001,
+      level: 0,
+      bins: [
+        {
+          latBin: 52516,
+          lonBin: 13414,
+          count: 5,
+          rssiAvg: -101.5,
+          snrAvg: null,
+          rssiMin: -110,
+          rssiMax: -90,
+          snrMin: null,
+          snrMax: null,
+          gatewayId: null
+        }
+      ]
+    });
+    const controller = new CoverageController({ listTileBins } as any, {} as any);
+    const res = createResponse();
+
+    await controller.getTile(
+      '14',
+      '8802',
+      '5373',
+      {
+        sessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c',
+        gatewayId: 'gw-1',
+        gatewayMode: 'any',
+        from: '2026-02-01T00:00:00.000Z',
+        to: '2026-02-10T00:00:00.000Z'
+      },
+      res
+    );
+
+    expect(listTileBins).toHaveBeenCalledWith({
+      tile: { z: 14, x: 8802, y: 5373 },
+      deviceId: undefined,
+      sessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c',
+      gatewayId: 'gw-1',
+      gatewayMode: 'any',
+      from: new Date('2026-02-01T00:00:00.000Z'),
+      to: new Date('2026-02-10T00:00:00.000Z')
+    });
+    expect(res.headers['Content-Type']).toBe('application/vnd.mapbox-vector-tile');
+    expect(res.headers['Cache-Control']).toContain('max-age=');
+    const body = res.send.mock.calls[0][0] as Buffer;
+    expect(Buffer.isBuffer(body)).toBe(true);
+    expect(body.includes(Buffer.from('coverage'))).toBe(true);
+  });
+});
+
+describe('CoverageController KML export', () => {
+  function createResponse() {
+    const res: any = {
+      headers: {} as Record<string, string>,
+      setHeader: jest.fn((name: string, value: string) => {
+        res.headers[name] = value;
+      }),
+      status: jest.fn(() => res),
+      send: jest.fn(() => res)
+    };
+    return res;
+  }
+
+  const bin = {
+    latBin: 52516,
+    lonBin: 13414,
+    count: 8,
+    rssiAvg: -95,
+    snrAvg: 3,
+    rssiMin: -101,
+    rssiMax: -90,
+    snrMin: 1,
+    snrMax: 5,
+    gatewayId: null
+  };
+
+  it('merges gateways into one polygon per cell and validates metric', async () => {
+    const listBins = jest.fn().mockResolvedValue({ items: [bin], truncated: false });
+    const controller = new CoverageController({ listBins } as any, {} as any);
+    const sessionId = '56f46f26-ee3e-4438-aace-be1f9b69de7c';
+    const res = createResponse();
+
+    await controller.exportBinsKml({ sessionId, allDays: 'true', level: '0', metric: 'snrAvg' }, res);
+
+    expect(listBins).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId, groupBy: 'none', level: 0, limit: 5000 })
+    );
+    expect(res.headers['Content-Type']).toBe('application/vnd.google-earth.kml+xml; charset=utf-8');
+    expect(res.headers['Content-Disposition']).toBe('attachment; filename="coverage-snrAvg.kml"');
+    const kml = res.send.mock.calls[0][0] as string;
+    expect(kml.match(/<Polygon>/g)).toHaveLength(1);
+    expect(kml).toContain('<styleUrl>#snrAvg-med</styleUrl>');
+
+    await expect(
+      controller.exportBinsKml({ sessionId, metric: 'rssi' }, createResponse())
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('sends KMZ as a zip archive', async () => {
+    const listBins = jest.fn().mockResolvedValue({ items: [bin], truncated: false });
+    const controller = new CoverageController({ listBins } as any, {} as any);
+    const res = createResponse();
+
+    await controller.exportBinsKmz({ deviceId: '5bf4376a-e7ca-4884-9558-f8bff5dbe89f' }, res);
+
+    expect(res.headers['Content-Type']).toBe('application/vnd.google-earth.kmz');
+    const body = res.send.mock.calls[0][0] as Buffer;
+    expect(body.readUInt32LE(0)).toBe(0x04034b50);
+  });
 });
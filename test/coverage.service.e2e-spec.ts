@@ -46,8 +46,7 @@ describe('CoverageService listBins', () => {
             lte: Math.floor(bbox.maxLon / BIN_SIZE_DEG)
           }
         }),
-        take: 123,
-        orderBy: [{ latBin: 'asc' }, { lonBin: 'asc' }, { gatewayId: 'asc' }]
+        orderBy: [{ latBin: 'asc' }, { lonBin: 'asc' }, { gatewayId: 'asc' }, { id: 'asc' }]
       })
     );
   });
@@ -60,6 +59,8 @@ describe('CoverageService listBins', () => {
         count: 1,
         rssiAvg: null,
         snrAvg: null,
+        rssiCount: 0,
+        snrCount: 0,
         rssiMin: null,
         rssiMax: null,
         snrMin: null,
@@ -72,6 +73,8 @@ describe('CoverageService listBins', () => {
         count: 1,
         rssiAvg: null,
         snrAvg: null,
+        rssiCount: 0,
+        snrCount: 0,
         rssiMin: null,
         rssiMax: null,
         snrMin: null,
@@ -84,6 +87,8 @@ describe('CoverageService listBins', () => {
         count: 1,
         rssiAvg: null,
         snrAvg: null,
+        rssiCount: 0,
+        snrCount: 0,
         rssiMin: null,
         rssiMax: null,
         snrMin: null,
@@ -96,7 +101,8 @@ describe('CoverageService listBins', () => {
       const hasExpectedOrdering = JSON.stringify(args.orderBy) === JSON.stringify([
         { latBin: 'asc' },
         { lonBin: 'asc' },
-        { gatewayId: 'asc' }
+        { gatewayId: 'asc' },
+        { id: 'asc' }
       ]);
 
       if (!hasExpectedOrdering) {
@@ -118,7 +124,7 @@ describe('CoverageService listBins', () => {
       coverageBin: { findMany }
     } as any);
 
-    const items = await service.listBins({
+    const { items } = await service.listBins({
       sessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c',
       day: new Date('2026-02-27T00:00:00.000Z'),
       limit: 5000
@@ -151,4 +157,599 @@ describe('CoverageService listBins', () => {
       })
     );
   });
+
+  it('filters by level and converts bbox with the level bin size', async () => {
+    const findMany = jest.fn().mockResolvedValue([]);
+    const service = new CoverageService({
+      coverageBin: { findMany }
+    } as any);
+
+    const bbox = {
+      minLon: 13.3,
+      minLat: 52.4,
+      maxLon: 13.5,
+      maxLat: 52.6
+    };
+
+    await service.listBins({
+      deviceId: '5bf4376a-e7ca-4884-9558-f8bff5dbe89f',
+      bbox,
+      level: 2,
+      limit: 100
+    });
+
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          level: 2,
+          latBin: {
+            gte: Math.floor(bbox.minLat / 0.016),
+            lte: Math.floor(bbox.maxLat / 0.016)
+          },
+          lonBin: {
+            gte: Math.floor(bbox.minLon / 0.016),
+            lte: Math.floor(bbox.maxLon / 0.016)
+          }
+        })
+      })
+    );
+  });
+});
+
+describe('CoverageService listBins merging', () => {
+  const rows = [
+    {
+      latBin: 10,
+      lonBin: 8,
+      count: 3,
+      rssiAvg: -100,
+      snrAvg: 2,
+      rssiCount: 3,
+      snrCount: 3,
+      rssiMin: -110,
+      rssiMax: -95,
+      snrMin: 1,
+      snrMax: 4,
+      framesReceived: 3,
+      framesExpected: 4,
+      gatewayId: 'gw-a'
+    },
+    {
+      latBin: 10,
+      lonBin: 8,
+      count: 1,
+      rssiAvg: -80,
+      snrAvg: null,
+      rssiCount: 1,
+      snrCount: 0,
+      rssiMin: -80,
+      rssiMax: -80,
+      snrMin: null,
+      snrMax: null,
+      framesReceived: 1,
+      framesExpected: 1,
+      gatewayId: 'gw-a'
+    },
+    {
+      latBin: 10,
+      lonBin: 8,
+      count: 4,
+      rssiAvg: -90,
+      snrAvg: 6,
+      rssiCount: 4,
+      snrCount: 4,
+      rssiMin: -92,
+      rssiMax: -70,
+      snrMin: 5,
+      snrMax: 8,
+      framesReceived: 4,
+      framesExpected: 4,
+      gatewayId: 'gw-b'
+    },
+    {
+      latBin: 11,
+      lonBin: 8,
+      count: 2,
+      rssiAvg: -105,
+      snrAvg: 0,
+      rssiCount: 2,
+      snrCount: 2,
+      rssiMin: -106,
+      rssiMax: -104,
+      snrMin: -1,
+      snrMax: 1,
+      framesReceived: 0,
+      framesExpected: 0,
+      gatewayId: 'gw-a'
+    }
+  ];
+
+  it('filters by day range and merges rows per cell and gateway', async () => {
+    const findMany = jest.fn().mockResolvedValue(rows);
+    const service = new CoverageService({
+      coverageBin: { findMany }
+    } as any);
+
+    const { items } = await service.listBins({
+      deviceId: '5bf4376a-e7ca-4884-9558-f8bff5dbe89f',
+      from: new Date('2026-01-28T12:30:00.000Z'),
+      to: new Date('2026-02-27T08:00:00.000Z'),
+      limit: 100
+    });
+
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          day: {
+            gte: new Date('2026-01-28T00:00:00.000Z'),
+            lte: new Date('2026-02-27T00:00:00.000Z')
+          }
+        })
+      })
+    );
+    expect(items).toHaveLength(3);
+    expect(items[0]).toEqual({
+      latBin: 10,
+      lonBin: 8,
+      count: 4,
+      rssiAvg: -95,
+      snrAvg: 2,
+      rssiMin: -110,
+      rssiMax: -80,
+      snrMin: 1,
+      snrMax: 4,
+      framesReceived: 4,
+      framesExpected: 5,
+      pdr: 0.8,
+      gatewayId: 'gw-a'
+    });
+  });
+
+  it('collapses gateways with groupBy none and applies limit to merged cells', async () => {
+    const findMany = jest.fn().mockResolvedValue(rows);
+    const service = new CoverageService({
+      coverageBin: { findMany }
+    } as any);
+
+    const { items } = await service.listBins({
+      sessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c',
+      groupBy: 'none',
+      limit: 1
+    });
+
+    expect(items).toEqual([
+      {
+        latBin: 10,
+        lonBin: 8,
+        count: 8,
+        rssiAvg: -92.5,
+        snrAvg: (2 * 3 + 6 * 4) / 7,
+        rssiMin: -110,
+        rssiMax: -70,
+        snrMin: 1,
+        snrMax: 8,
+        framesReceived: 8,
+        framesExpected: 9,
+        pdr: 8 / 9,
+        gatewayId: null
+      }
+    ]);
+  });
+
+  it('weights averages by the samples that carried each metric', async () => {
+    const cell = {
+      latBin: 10,
+      lonBin: 8,
+      rssiMin: null,
+      rssiMax: null,
+      snrMin: null,
+      snrMax: null,
+      framesReceived: 0,
+      framesExpected: 0,
+      gatewayId: 'gw-a'
+    };
+    const findMany = jest.fn().mockResolvedValue([
+      // Four samples, only one with RSSI and three with SNR.
+      { ...cell, count: 4, rssiAvg: -60, snrAvg: 6, rssiCount: 1, snrCount: 3 },
+      { ...cell, count: 1, rssiAvg: -100, snrAvg: 2, rssiCount: 1, snrCount: 1 },
+      { ...cell, count: 2, rssiAvg: null, snrAvg: null, rssiCount: 0, snrCount: 0 }
+    ]);
+    const service = new CoverageService({
+      coverageBin: { findMany }
+    } as any);
+
+    const { items } = await service.listBins({
+      sessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c',
+      limit: 100
+    });
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toEqual(
+      expect.objectContaining({ count: 7, rssiAvg: -80, snrAvg: (6 * 3 + 2) / 4 })
+    );
+  });
+
+  it('flags truncation and drops the cell cut off by the stored-row cap', async () => {
+    const row = (latBin: number) => ({
+      latBin,
+      lonBin: 0,
+      count: 1,
+      rssiAvg: -100,
+      snrAvg: null,
+      rssiCount: 1,
+      snrCount: 0,
+      rssiMin: -100,
+      rssiMax: -100,
+      snrMin: null,
+      snrMax: null,
+      framesReceived: 0,
+      framesExpected: 0,
+      gatewayId: 'gw-a'
+    });
+    // One row per cell up to the cap, then a second row for the last cell.
+    const rows = Array.from({ length: 100_000 }, (_, index) => row(index));
+    rows.push(row(99_999));
+    const findMany = jest.fn().mockResolvedValue(rows);
+    const service = new CoverageService({
+      coverageBin: { findMany }
+    } as any);
+
+    const result = await service.listBins({
+      sessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c',
+      limit: 200_000
+    });
+
+    expect(findMany).toHaveBeenCalledWith(expect.objectContaining({ take: 100_001 }));
+    expect(result.truncated).toBe(true);
+    expect(result.items).toHaveLength(99_999);
+    expect(result.items[result.items.length - 1].latBin).toBe(99_998);
+  });
+
+  it('flags truncation when merged cells exceed the limit', async () => {
+    const findMany = jest.fn().mockResolvedValue(rows);
+    const service = new CoverageService({
+      coverageBin: { findMany }
+    } as any);
+
+    const sessionId = '56f46f26-ee3e-4438-aace-be1f9b69de7c';
+    expect((await service.listBins({ sessionId, groupBy: 'none', limit: 1 })).truncated).toBe(true);
+    expect((await service.listBins({ sessionId, groupBy: 'none', limit: 10 })).truncated).toBe(false);
+  });
+
+  it('reads per-reception bins for gatewayMode any and best-gateway bins otherwise', async () => {
+    const findMany = jest.fn().mockResolvedValue([]);
+    const service = new CoverageService({
+      coverageBin: { findMany }
+    } as any);
+    const sessionId = '56f46f26-ee3e-4438-aace-be1f9b69de7c';
+
+    await service.listBins({ sessionId, gatewayId: 'gw-b', gatewayMode: 'any', limit: 10 });
+    expect(findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ gatewayId: 'gw-b', perGateway: true })
+      })
+    );
+
+    await service.listBins({ sessionId, limit: 10 });
+    expect(findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ perGateway: false })
+      })
+    );
+  });
+});
+
+describe('CoverageService diffBins', () => {
+  it('diffs gateway-collapsed cells between two scopes', async () => {
+    const baseSessionId = '56f46f26-ee3e-4438-aace-be1f9b69de7c';
+    const compareSessionId = '8d1f1d0c-53a4-4e44-9a3e-0e6fd3c7a8b2';
+    const cell = (
+      latBin: number,
+      lonBin: number,
+      count: number,
+      rssiAvg: number | null,
+      framesExpected: number
+    ) => ({
+      latBin,
+      lonBin,
+      count,
+      rssiAvg,
+      snrAvg: null,
+      rssiCount: rssiAvg === null ? 0 : count,
+      snrCount: 0,
+      rssiMin: rssiAvg,
+      rssiMax: rssiAvg,
+      snrMin: null,
+      snrMax: null,
+      framesReceived: count,
+      framesExpected,
+      gatewayId: 'gw-a'
+    });
+    const findMany = jest.fn().mockImplementation(async (args: FindManyArgs) =>
+      args.where.sessionId === baseSessionId
+        ? [cell(1, 1, 4, -110, 8), cell(1, 2, 2, -100, 0)]
+        : [cell(1, 1, 6, -104, 6), cell(2, 2, 1, -90, 1)]
+    );
+    const service = new CoverageService({
+      coverageBin: { findMany }
+    } as any);
+
+    const { items } = await service.diffBins({
+      base: { sessionId: baseSessionId },
+      compare: { sessionId: compareSessionId },
+      limit: 100
+    });
+
+    expect(items).toEqual([
+      {
+        latBin: 1,
+        lonBin: 1,
+        presence: 'both',
+        base: { count: 4, rssiAvg: -110, snrAvg: null, pdr: 0.5 },
+        compare: { count: 6, rssiAvg: -104, snrAvg: null, pdr: 1 },
+        deltaCount: 2,
+        deltaRssiAvg: 6,
+        deltaSnrAvg: null,
+        deltaPdr: 0.5
+      },
+      {
+        latBin: 1,
+        lonBin: 2,
+        presence: 'baseOnly',
+        base: { count: 2, rssiAvg: -100, snrAvg: null, pdr: null },
+        compare: null,
+        deltaCount: -2,
+        deltaRssiAvg: null,
+        deltaSnrAvg: null,
+        deltaPdr: null
+      },
+      {
+        latBin: 2,
+        lonBin: 2,
+        presence: 'compareOnly',
+        base: null,
+        compare: { count: 1, rssiAvg: -90, snrAvg: null, pdr: 1 },
+        deltaCount: 1,
+        deltaRssiAvg: null,
+        deltaSnrAvg: null,
+        deltaPdr: null
+      }
+    ]);
+  });
+});
+
+describe('CoverageService getBoundaries', () => {
+  // Shallow "U": two short columns joined by a long bottom row, plus one weak far point.
+  const buildPoints = () => {
+    const points: Array<{ lat: number; lon: number; rssi: number | null; snr: number | null }> = [];
+    for (let step = 0; step <= 20; step += 1) {
+      points.push({ lat: 52.5 + (step % 2) * 0.0002, lon: 13.4 + step * 0.001, rssi: -90, snr: 6 });
+    }
+    for (let step = 1; step <= 3; step += 1) {
+      points.push({ lat: 52.5 + step * 0.001, lon: 13.4, rssi: -95, snr: 4 });
+      points.push({ lat: 52.5 + step * 0.001, lon: 13.42, rssi: -95, snr: 4 });
+    }
+    points.push({ lat: 52.53, lon: 13.41, rssi: -115, snr: -4 });
+    return points;
+  };
+
+  it('builds nested concave hulls per threshold from session measurements', async () => {
+    const findMany = jest.fn().mockResolvedValue(buildPoints());
+    const service = new CoverageService({
+      measurement: { findMany }
+    } as any);
+    const from = new Date('2026-10-01T00:00:00.000Z');
+
+    const collection = await service.getBoundaries({
+      sessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c',
+      from,
+      mode: 'threshold',
+      metric: 'rssi',
+      thresholds: [-120, -100],
+      sectors: 16
+    });
+
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          sessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c',
+          rssi: { not: null },
+          capturedAt: { gte: from }
+        })
+      })
+    );
+    expect(collection.type).toBe('FeatureCollection');
+    expect(collection.features.map((feature) => feature.properties.threshold)).toEqual([-100, -120]);
+    const [strong, weak] = collection.features;
+    const ring = strong.geometry.coordinates[0];
+    expect(ring[0]).toEqual(ring[ring.length - 1]);
+    expect(strong.properties.pointCount).toBe(27);
+    // The notch between the columns is dug out, so the hull is well below the bounding box.
+    const boundingBoxKm2 = 1.358 * 0.334;
+    expect(strong.properties.areaKm2).toBeLessThan(boundingBoxKm2 * 0.75);
+    expect(weak.properties.areaKm2).toBeGreaterThan(strong.properties.areaKm2);
+  });
+
+  it('builds sector ranges around the device home location', async () => {
+    const findMany = jest.fn().mockResolvedValue(buildPoints());
+    const findSession = jest.fn().mockResolvedValue({ deviceId: 'device-1' });
+    const findConfig = jest.fn().mockResolvedValue({ homeLat: 52.5, homeLon: 13.4 });
+    const service = new CoverageService({
+      measurement: { findMany },
+      session: { findUnique: findSession },
+      deviceAutoSessionConfig: { findUnique: findConfig }
+    } as any);
+
+    const collection = await service.getBoundaries({
+      sessionId: '56f46f26-ee3e-4438-aace-be1f9b69de7c',
+      mode: 'sector',
+      metric: 'rssi',
+      thresholds: [-100],
+      sectors: 4
+    });
+
+    expect(findConfig).toHaveBeenCalledWith(expect.objectContaining({ where: { deviceId: 'device-1' } }));
+    const [feature] = collection.features;
+    expect(feature.properties.mode).toBe('sector');
+    const sectors = feature.properties.sectors ?? [];
+    expect(sectors.map((sector) => sector.pointCount)).toEqual([27, 0, 0, 0]);
+    expect(sectors[0].rangeMeters).toBeGreaterThan(1300);
+    expect(sectors[1].rangeMeters).toBe(0);
+
+    findConfig.mockResolvedValueOnce(null);
+    await expect(
+      service.getBoundaries({
+        deviceId: 'device-1',
+        mode: 'sector',
+        metric: 'rssi',
+        thresholds: [-100],
+        sectors: 4
+      })
+    ).rejects.toThrow('home location');
+  });
+
+  it('uses the selected gateway\'s own signal for gatewayMode any', async () => {
+    const receptions = buildPoints().map(({ lat, lon, rssi, snr }) => ({
+      rssi,
+      snr,
+      measurement: { lat, lon }
+    }));
+    const findReceptions = jest.fn().mockResolvedValue(receptions);
+    const findMeasurements = jest.fn().mockResolvedValue([]);
+    const service = new CoverageService({
+      rxMetadata: { findMany: findReceptions },
+      measurement: { findMany: findMeasurements }
+    } as any);
+    const sessionId = '56f46f26-ee3e-4438-aace-be1f9b69de7c';
+
+    const collection = await service.getBoundaries({
+      sessionId,
+      gatewayId: 'gw-b',
+      gatewayMode: 'any',
+      mode: 'threshold',
+      metric: 'rssi',
+      thresholds: [-100],
+      sectors: 16
+    });
+
+    expect(findReceptions).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          gatewayId: 'gw-b',
+          rssi: { not: null },
+          measurement: expect.objectContaining({ sessionId })
+        })
+      })
+    );
+    // Only measurements without reception rows fall back to their summary gateway.
+    expect(findMeasurements).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ gatewayId: 'gw-b', rxMetadataRows: { none: {} } })
+      })
+    );
+    expect(collection.features[0].properties.pointCount).toBe(27);
+  });
+});
+
+describe('CoverageService aggregation worker', () => {
+  const SETTLED_BEFORE = new Date('2026-02-27T11:00:00.000Z');
+
+  function createPrismaMock(options: {
+    locked: boolean;
+    cursor?: { ingestedAt: Date; measurementId: string };
+  }) {
+    const tx = {
+      $queryRaw: jest.fn().mockResolvedValue([{ locked: options.locked, settledBefore: SETTLED_BEFORE }]),
+      $executeRaw: jest.fn().mockResolvedValue(0),
+      workerCursor: {
+        findUnique: jest.fn().mockResolvedValue(options.cursor ?? null),
+        upsert: jest.fn().mockResolvedValue({})
+      },
+      measurement: {
+        findMany: jest.fn().mockResolvedValue([
+          {
+            id: '0b5c39c9-4c0f-4a2b-9a6b-9d6b8c0a1d01',
+            ingestedAt: new Date('2026-02-27T10:00:00.000Z')
+          },
+          {
+            id: '0b5c39c9-4c0f-4a2b-9a6b-9d6b8c0a1d02',
+            ingestedAt: new Date('2026-02-27T10:00:05.000Z')
+          }
+        ])
+      }
+    };
+    const prisma = {
+      $transaction: jest.fn(async (callback: (client: typeof tx) => unknown) => callback(tx))
+    };
+    return { prisma, tx };
+  }
+
+  it('resumes from the persisted cursor and advances it with the batch', async () => {
+    const cursor = {
+      ingestedAt: new Date('2026-02-27T09:00:00.000Z'),
+      measurementId: '0b5c39c9-4c0f-4a2b-9a6b-9d6b8c0a1d00'
+    };
+    const { prisma, tx } = createPrismaMock({ locked: true, cursor });
+    const service = new CoverageService(prisma as any);
+
+    await service.aggregateOnce();
+
+    expect(tx.measurement.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          OR: [
+            { ingestedAt: { gt: cursor.ingestedAt } },
+            { ingestedAt: cursor.ingestedAt, id: { gt: cursor.measurementId } }
+          ]
+        }),
+        orderBy: [{ ingestedAt: 'asc' }, { id: 'asc' }]
+      })
+    );
+    // One statement for best-gateway bins, one for per-reception bins.
+    expect(tx.$executeRaw).toHaveBeenCalledTimes(2);
+    expect(tx.$executeRaw.mock.calls[0][0].sql).not.toContain('"RxMetadata"');
+    expect(tx.$executeRaw.mock.calls[1][0].sql).toContain('"RxMetadata"');
+    // Frame counters are sequenced per gateway only for the per-reception bins.
+    expect(tx.$executeRaw.mock.calls[0][0].sql).toContain('lag(s."fCnt")');
+    expect(tx.$executeRaw.mock.calls[1][0].sql).toMatch(/PARTITION BY\s+s\."deviceId",\s+s\."sessionId",\s+s\."gatewayId"/);
+    expect(tx.workerCursor.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { name: 'coverage' },
+        update: {
+          ingestedAt: new Date('2026-02-27T10:00:05.000Z'),
+          measurementId: '0b5c39c9-4c0f-4a2b-9a6b-9d6b8c0a1d02'
+        }
+      })
+    );
+    expect(service.getWorkerStatus()).toEqual(
+      expect.objectContaining({ ok: true, lastRunAt: expect.any(Date) })
+    );
+  });
+
+  it('leaves rows out until their ingest transactions have settled', async () => {
+    const { prisma, tx } = createPrismaMock({ locked: true });
+    const service = new CoverageService(prisma as any);
+
+    await service.aggregateOnce();
+
+    // Rows stamped before the cursor but committed after it moved would otherwise be skipped.
+    expect(tx.$queryRaw.mock.calls[0][0].join('')).toContain('now() -');
+    expect(tx.measurement.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ ingestedAt: { lte: SETTLED_BEFORE } })
+      })
+    );
+  });
+
+  it('skips the batch when another replica holds the worker lock', async () => {
+    const { prisma, tx } = createPrismaMock({ locked: false });
+    const service = new CoverageService(prisma as any);
+
+    await service.aggregateOnce();
+
+    expect(tx.workerCursor.findUnique).not.toHaveBeenCalled();
+    expect(tx.measurement.findMany).not.toHaveBeenCalled();
+    expect(tx.$executeRaw).not.toHaveBeenCalled();
+    expect(tx.workerCursor.upsert).not.toHaveBeenCalled();
+  });
 });
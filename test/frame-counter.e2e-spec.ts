@@ -0,0 +1,66 @@
+import {
+  countFramesPerStream,
+  frameCounterGap,
+  MAX_FCNT_GAP,
+  summarizePacketDelivery
+} from '../src/modules/measurements/frame-counter';
+
+describe('frameCounterGap', () => {
+  it('counts the frames missing between consecutive counters', () => {
+    expect(frameCounterGap(null, 7)).toBe(0);
+    expect(frameCounterGap(7, 8)).toBe(0);
+    expect(frameCounterGap(7, 11)).toBe(3);
+  });
+
+  it('treats repeats as duplicates and drops or huge jumps as resets', () => {
+    expect(frameCounterGap(7, 7)).toBe(-1);
+    expect(frameCounterGap(500, 0)).toBe(0);
+    expect(frameCounterGap(7, 7 + MAX_FCNT_GAP + 1)).toBe(0);
+  });
+});
+
+describe('summarizePacketDelivery', () => {
+  it('returns a null PDR without counters', () => {
+    expect(summarizePacketDelivery([])).toEqual({
+      framesReceived: 0,
+      framesExpected: 0,
+      framesMissed: 0,
+      counterResets: 0,
+      pdr: null
+    });
+  });
+
+  it('derives PDR from gaps, skipping duplicates and restarting after a reset', () => {
+    // 10..14 with 12 lost and 13 received twice, then the device rejoins at 0 and loses 1.
+    const summary = summarizePacketDelivery([10, 11, 13, 13, 14, 0, 2]);
+
+    expect(summary).toEqual({
+      framesReceived: 6,
+      framesExpected: 8,
+      framesMissed: 2,
+      counterResets: 1,
+      pdr: 0.75
+    });
+  });
+});
+
+describe('countFramesPerStream', () => {
+  it('sequences each stream in capture order', () => {
+    const at = (second: number) => new Date(Date.UTC(2026, 0, 1, 12, 0, second));
+    const items = [
+      { stream: 'a', capturedAt: at(2), fCnt: 4 },
+      { stream: 'a', capturedAt: at(0), fCnt: 1 },
+      { stream: 'b', capturedAt: at(1), fCnt: 9 },
+      { stream: 'a', capturedAt: at(3), fCnt: null },
+      { stream: 'a', capturedAt: at(4), fCnt: 4 }
+    ];
+
+    expect(countFramesPerStream(items, (item) => item.stream)).toEqual([
+      { received: 1, missed: 2 },
+      { received: 1, missed: 0 },
+      { received: 1, missed: 0 },
+      { received: 0, missed: 0 },
+      { received: 0, missed: 0 }
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+import { EventEmitter } from 'events';
+import { ExportController } from '../src/modules/export/export.controller';
+import { buildGpxTrack } from '../src/modules/export/gpx';
+import { MeasurementExportRow } from '../src/modules/export/measurement-export';
+
+function buildRow(index: number): MeasurementExportRow {
+  return {
+    id: `00000000-0000-0000-0000-${String(index).padStart(12, '0')}`,
+    capturedAt: new Date(Date.UTC(2026, 2, 1, 10, 0, index)),
+    deviceId: 'device-1',
+    sessionId: 'session-1',
+    lat: 52.5,
+    lon: 13.4,
+    alt: null,
+    altitude: 40,
+    hdop: null,
+    satsInView: null,
+    rssi: -100,
+    snr: 4.5,
+    sf: 9,
+    bw: 125,
+    freq: 868.1,
+    gatewayId: 'gw-1',
+    source: 'lorawan',
+    device: { deviceUid: 'node-a' },
+    meshtasticRx: null,
+    rxMetadataRows: []
+  };
+}
+
+describe('buildGpxTrack', () => {
+  it('writes a single track segment with elevation and signal extensions', () => {
+    const gpx = buildGpxTrack({
+      name: 'Ridge <walk> & back',
+      description: 'antenna "A"',
+      points: [
+        {
+          capturedAt: new Date('2026-03-01T10:00:00.000Z'),
+          lat: 52.5,
+          lon: 13.4,
+          altitude: 41.5,
+          alt: 12,
+          rssi: -101,
+          snr: 4.5,
+          gatewayId: 'gw-1'
+        },
+        {
+          capturedAt: new Date('2026-03-01T10:00:05.000Z'),
+          lat: 52.501,
+          lon: 13.401,
+          altitude: null,
+          alt: 40,
+          rssi: null,
+          snr: null,
+          gatewayId: null
+        }
+      ]
+    });
+
+    expect(gpx).toContain('<gpx version="1.1" creator="LoRaMapr"');
+    expect(gpx).toContain('<name>Ridge &lt;walk&gt; &amp; back</name>');
+    expect(gpx).toContain('<desc>antenna &quot;A&quot;</desc>');
+    expect(gpx.match(/<trkseg>/g)).toHaveLength(1);
+    expect(gpx.match(/<trkpt /g)).toHaveLength(2);
+    expect(gpx).toContain(
+      [
+        '      <trkpt lat="52.5" lon="13.4">',
+        '        <ele>41.5</ele>',
+        '        <time>2026-03-01T10:00:00.000Z</time>',
+        '        <extensions>',
+        '          <loramapr:rssi>-101</loramapr:rssi>',
+        '          <loramapr:snr>4.5</loramapr:snr>',
+        '          <loramapr:gatewayId>gw-1</loramapr:gatewayId>',
+        '        </extensions>',
+        '      </trkpt>'
+      ].join('\n')
+    );
+    // Falls back to `alt` and omits the empty extensions block.
+    expect(gpx).toContain(
+      [
+        '      <trkpt lat="52.501" lon="13.401">',
+        '        <ele>40</ele>',
+        '        <time>2026-03-01T10:00:05.000Z</time>',
+        '      </trkpt>'
+      ].join('\n')
+    );
+  });
+});
+
+describe('ExportController session GPX', () => {
+  it('streams sessions past the old 10000 point cap', async () => {
+    const batches = Array.from({ length: 12 }, (_, batchIndex) =>
+      Array.from({ length: 1000 }, (_, index) => buildRow(batchIndex * 1000 + index))
+    );
+    const prisma = {
+      session: {
+        findUnique: jest.fn(async () => ({ id: 'session-1', name: 'Long walk', notes: null }))
+      }
+    };
+    const exportService = {
+      findFirstCapturedAt: jest.fn(async () => batches[0][0].capturedAt),
+      iterateMeasurements: jest.fn(async function* () {
+        yield* batches;
+      })
+    };
+    const controller = new ExportController(prisma as any, exportService as any);
+    const res: any = new EventEmitter();
+    res.headers = {} as Record<string, string>;
+    res.chunks = [] as string[];
+    res.setHeader = jest.fn((name: string, value: string) => {
+      res.headers[name] = value;
+    });
+    res.status = jest.fn(() => res);
+    res.write = jest.fn((chunk: string) => {
+      res.chunks.push(chunk);
+      return true;
+    });
+    res.end = jest.fn((chunk: string) => {
+      res.chunks.push(chunk);
+    });
+
+    await controller.exportSessionGpx('session-1', res);
+
+    const gpx = res.chunks.join('');
+    expect(exportService.iterateMeasurements).toHaveBeenCalledWith({ sessionId: 'session-1' });
+    expect(res.headers['Content-Type']).toBe('application/gpx+xml; charset=utf-8');
+    expect(res.headers['Content-Disposition']).toBe('attachment; filename="session-session-1.gpx"');
+    expect(gpx).toContain('<time>2026-03-01T10:00:00.000Z</time>\n  </metadata>');
+    expect(gpx.match(/<trkpt /g)).toHaveLength(12_000);
+    expect(gpx.endsWith('</trkseg>\n  </trk>\n</gpx>\n')).toBe(true);
+  });
+});
@@ -0,0 +1,245 @@
+import { EventEmitter } from 'events';
+import { inflateRawSync } from 'zlib';
+import { crc32 } from '../src/common/zip/zip';
+import { ExportController } from '../src/modules/export/export.controller';
+import {
+  buildCoverageKml,
+  KmlTrackPoint,
+  streamKmz,
+  streamSessionKml,
+  toKmlColor
+} from '../src/modules/export/kml';
+
+function readZipEntries(archive: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  const endOffset = archive.length - 22;
+  expect(archive.readUInt32LE(endOffset)).toBe(0x06054b50);
+  const entryCount = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+  for (let index = 0; index < entryCount; index += 1) {
+    expect(archive.readUInt32LE(offset)).toBe(0x02014b50);
+    const checksum = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    expect(archive.readUInt32LE(localOffset)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const data = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(data)).toBe(checksum);
+    entries.set(name, data);
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+async function collect<T extends string | Buffer>(chunks: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const chunk of chunks) {
+    collected.push(chunk);
+  }
+  return collected;
+}
+
+async function buildSessionKml(params: { name: string; points: KmlTrackPoint[]; output: 'kml' | 'kmz' }) {
+  const pages = [params.points.slice(0, 2), params.points.slice(2)];
+  const chunks = await collect(
+    streamSessionKml({
+      name: params.name,
+      output: params.output,
+      readPoints: async function* () {
+        yield* pages;
+      }
+    })
+  );
+  return chunks.join('');
+}
+
+describe('KML export', () => {
+  const points = [
+    {
+      capturedAt: new Date('2026-03-01T10:00:00.000Z'),
+      lat: 52.5,
+      lon: 13.4,
+      rssi: -85,
+      snr: 7,
+      gatewayId: 'gw-1'
+    },
+    {
+      capturedAt: new Date('2026-03-01T10:00:05.000Z'),
+      lat: 52.501,
+      lon: 13.401,
+      rssi: -115,
+      snr: null,
+      gatewayId: null
+    },
+    {
+      capturedAt: new Date('2026-03-01T10:00:10.000Z'),
+      lat: 52.502,
+      lon: 13.402,
+      rssi: null,
+      snr: null,
+      gatewayId: null
+    }
+  ];
+
+  it('converts #rrggbb to KML aabbggrr colors', () => {
+    expect(toKmlColor('#ef4444', 0xff)).toBe('ff4444ef');
+    expect(toKmlColor('#22C55E', 0x99)).toBe('995ec522');
+  });
+
+  it('writes the session track as a LineString with RSSI-bucketed placemarks', async () => {
+    const kml = await buildSessionKml({ name: 'Ridge & back', points, output: 'kml' });
+
+    expect(kml).toContain('<name>Ridge &amp; back</name>');
+    expect(kml).toContain(
+      '<coordinates>13.4,52.5 13.401,52.501 13.402,52.502</coordinates>'
+    );
+    expect(kml.match(/<LineString>/g)).toHaveLength(1);
+    expect(kml.match(/<Point>/g)).toHaveLength(3);
+    expect(kml).toContain('<styleUrl>#rssiAvg-high</styleUrl>');
+    expect(kml).toContain('<styleUrl>#rssiAvg-low</styleUrl>');
+    expect(kml).toContain('<styleUrl>#rssiAvg-none</styleUrl>');
+    expect(kml).toContain('<Style id="rssiAvg-high">');
+    expect(kml).toContain('<color>ff80de4a</color>');
+    expect(kml).toContain('<Data name="gatewayId"><value>gw-1</value></Data>');
+    // Plain KML: remote icon and an HTML legend instead of an embedded overlay.
+    expect(kml).toContain('shaded_dot.png');
+    expect(kml).toContain('&lt;table&gt;');
+    expect(kml).not.toContain('<ScreenOverlay>');
+  });
+
+  it('leaves the track line out until a second point arrives', async () => {
+    const kml = await buildSessionKml({ name: 'Single', points: points.slice(0, 1), output: 'kml' });
+
+    expect(kml).not.toContain('<LineString>');
+    expect(kml.match(/<Point>/g)).toHaveLength(1);
+    expect(kml.endsWith('    </Folder>\n  </Document>\n</kml>\n')).toBe(true);
+  });
+
+  it('writes coverage bins as closed polygons styled by the chosen metric', () => {
+    const kml = buildCoverageKml({
+      name: 'Coverage',
+      metric: 'count',
+      binSizeDeg: 0.001,
+      bins: [
+        { latBin: 52500, lonBin: 13400, count: 25, rssiAvg: -100, snrAvg: 1, pdr: null, gatewayId: null },
+        { latBin: 52501, lonBin: 13400, count: 3, rssiAvg: null, snrAvg: null, pdr: null, gatewayId: null }
+      ],
+      output: 'kmz'
+    });
+
+    expect(kml.match(/<Polygon>/g)).toHaveLength(2);
+    expect(kml).toContain(
+      '<coordinates>13.4,52.5 13.401,52.5 13.401,52.501 13.4,52.501 13.4,52.5</coordinates>'
+    );
+    expect(kml).toContain('<styleUrl>#count-high</styleUrl>');
+    expect(kml).toContain('<styleUrl>#count-low</styleUrl>');
+    expect(kml).toContain('<PolyStyle><color>995ec522</color></PolyStyle>');
+    expect(kml).toContain('<Icon><href>files/legend.png</href></Icon>');
+  });
+
+  it('buckets bins by packet delivery ratio', () => {
+    const kml = buildCoverageKml({
+      name: 'Coverage',
+      metric: 'pdr',
+      binSizeDeg: 0.001,
+      bins: [
+        { latBin: 52500, lonBin: 13400, count: 8, rssiAvg: -100, snrAvg: 1, pdr: 0.75, gatewayId: null },
+        { latBin: 52501, lonBin: 13400, count: 3, rssiAvg: null, snrAvg: null, pdr: null, gatewayId: null }
+      ],
+      output: 'kml'
+    });
+
+    expect(kml).toContain('<styleUrl>#pdr-med</styleUrl>');
+    expect(kml).toContain('<styleUrl>#pdr-none</styleUrl>');
+    expect(kml).toContain('<name>50-89%</name>');
+    expect(kml).toContain('<Data name="pdr"><value>0.75</value></Data>');
+  });
+
+  it('packs doc.kml first with the legend and icon images', async () => {
+    const kml = await buildSessionKml({ name: 'Track', points, output: 'kmz' });
+    const archive = Buffer.concat(await collect(streamKmz([kml], 'rssiAvg')));
+    const entries = readZipEntries(archive);
+
+    expect([...entries.keys()]).toEqual(['doc.kml', 'files/legend.png', 'files/dot.png']);
+    expect(entries.get('doc.kml')!.toString('utf8')).toBe(kml);
+    expect(kml).toContain('<Icon><href>files/dot.png</href></Icon>');
+    for (const name of ['files/legend.png', 'files/dot.png']) {
+      const png = entries.get(name)!;
+      expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+      expect(png.toString('ascii', 12, 16)).toBe('IHDR');
+    }
+  });
+});
+
+describe('ExportController session KML/KMZ', () => {
+  function createController(pointCount: number) {
+    const batches = Array.from({ length: Math.ceil(pointCount / 1000) }, (_, batchIndex) =>
+      Array.from({ length: Math.min(1000, pointCount - batchIndex * 1000) }, (_, index) => ({
+        capturedAt: new Date(Date.UTC(2026, 2, 1, 10, 0, batchIndex * 1000 + index)),
+        lat: 52.5,
+        lon: 13.4 + (batchIndex * 1000 + index) / 1e6,
+        rssi: -100,
+        snr: 4.5,
+        gatewayId: 'gw-1'
+      }))
+    );
+    const prisma = {
+      session: {
+        findUnique: jest.fn(async () => ({ id: 'session-1', name: 'Long walk', notes: null }))
+      }
+    };
+    const exportService = {
+      iterateMeasurements: jest.fn(async function* () {
+        yield* batches;
+      })
+    };
+    return { controller: new ExportController(prisma as any, exportService as any), exportService };
+  }
+
+  function createResponse() {
+    const res: any = new EventEmitter();
+    res.headers = {} as Record<string, string>;
+    res.chunks = [] as Buffer[];
+    res.setHeader = jest.fn((name: string, value: string) => {
+      res.headers[name] = value;
+    });
+    res.status = jest.fn(() => res);
+    res.write = jest.fn((chunk: string | Buffer) => {
+      res.chunks.push(Buffer.from(chunk));
+      return true;
+    });
+    res.end = jest.fn();
+    return res;
+  }
+
+  it('streams KML for sessions past the old 10000 point cap', async () => {
+    const { controller, exportService } = createController(12_000);
+    const res = createResponse();
+
+    await controller.exportSessionKml('session-1', res);
+
+    const kml = Buffer.concat(res.chunks).toString('utf8');
+    // One pass for the track line, one for the placemarks.
+    expect(exportService.iterateMeasurements).toHaveBeenCalledTimes(2);
+    expect(res.headers['Content-Disposition']).toBe('attachment; filename="session-session-1.kml"');
+    expect(kml.match(/<Point>/g)).toHaveLength(12_000);
+    expect(kml.match(/<LineString>/g)).toHaveLength(1);
+    expect(kml.endsWith('</kml>\n')).toBe(true);
+    expect(res.end).toHaveBeenCalledTimes(1);
+  });
+
+  it('streams KMZ with doc.kml as a streamed zip entry', async () => {
+    const { controller } = createController(12_000);
+    const res = createResponse();
+
+    await controller.exportSessionKmz('session-1', res);
+
+    const entries = readZipEntries(Buffer.concat(res.chunks));
+    expect(res.headers['Content-Type']).toBe('application/vnd.google-earth.kmz');
+    expect([...entries.keys()]).toEqual(['doc.kml', 'files/legend.png', 'files/dot.png']);
+    expect(entries.get('doc.kml')!.toString('utf8').match(/<Point>/g)).toHaveLength(12_000);
+  });
+});
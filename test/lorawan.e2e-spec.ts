@@ -137,6 +137,35 @@ describe('LoRaWAN uplink e2e', () => {
     expect(measurement?.device.deviceUid).toBe(deviceUid);
   });
 
+  it('stores frame counters above 2^31', async () => {
+    const payload = clonePayload(withGpsFixture);
+    const deviceUid = `dev-fcnt-${Date.now()}`;
+    payload.end_device_ids.dev_eui = deviceUid;
+    payload.correlation_ids[0] = `as:up:fcnt-${Date.now()}`;
+    payload.uplink_message.f_cnt = 3_000_000_000;
+
+    const uplinkId = deriveUplinkId(payload);
+    trackedDeviceUids.push(deviceUid);
+    trackedUplinkIds.push(uplinkId);
+
+    await request(app.getHttpServer())
+      .post('/api/lorawan/uplink')
+      .set('x-api-key', queryKeyPlain)
+      .set('x-downlink-apikey', apiKey)
+      .send(payload)
+      .expect(200);
+
+    const event = await waitForWebhookProcessed(prisma, uplinkId);
+    expect(event?.processingError).toBeNull();
+    await waitForMeasurementCount(prisma, deviceUid, 1);
+
+    const measurement = await prisma.measurement.findFirst({
+      where: { device: { deviceUid } },
+      select: { fCnt: true }
+    });
+    expect(measurement?.fCnt).toBe(BigInt(3_000_000_000));
+  });
+
   it('duplicate uplinkId is idempotent', async () => {
     const payload = clonePayload(withGpsFixture);
     const deviceUid = `dev-${Date.now()}`;
@@ -0,0 +1,311 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { EventEmitter } from 'events';
+import { ExportController } from '../src/modules/export/export.controller';
+import { ExportService } from '../src/modules/export/export.service';
+import {
+  createMeasurementExportEncoder,
+  MeasurementExportRow
+} from '../src/modules/export/measurement-export';
+
+function buildRow(index: number, overrides: Partial<MeasurementExportRow> = {}): MeasurementExportRow {
+  return {
+    id: `00000000-0000-0000-0000-${String(index).padStart(12, '0')}`,
+    capturedAt: new Date(Date.UTC(2026, 2, 1, 10, 0, index)),
+    deviceId: 'device-1',
+    sessionId: 'session-1',
+    lat: 52.5 + index / 1000,
+    lon: 13.4,
+    alt: null,
+    altitude: 40,
+    hdop: null,
+    satsInView: 9,
+    rssi: -100 - index,
+    snr: 4.5,
+    sf: 9,
+    bw: 125,
+    freq: 868.1,
+    gatewayId: 'gw-1',
+    source: 'lorawan',
+    device: { deviceUid: 'node-a' },
+    meshtasticRx: null,
+    rxMetadataRows: [],
+    ...overrides
+  };
+}
+
+function createResponse() {
+  const res: any = new EventEmitter();
+  res.headers = {} as Record<string, string>;
+  res.chunks = [] as string[];
+  res.setHeader = jest.fn((name: string, value: string) => {
+    res.headers[name] = value;
+  });
+  res.status = jest.fn(() => res);
+  res.write = jest.fn((chunk: string) => {
+    res.chunks.push(chunk);
+    return true;
+  });
+  res.end = jest.fn((chunk?: string) => {
+    if (chunk) {
+      res.chunks.push(chunk);
+    }
+  });
+  res.destroy = jest.fn();
+  return res;
+}
+
+describe('measurement export encoders', () => {
+  const meshRow = buildRow(1, {
+    gatewayId: null,
+    source: 'meshtastic',
+    meshtasticRx: {
+      rxTime: new Date('2026-03-01T10:00:02.000Z'),
+      rxRssi: -104,
+      rxSnr: 2.25,
+      hopLimit: 1,
+      hopStart: 3,
+      relayNode: 187,
+      transportMechanism: 'TRANSPORT_LORA',
+      fromId: '!a1b2c3d4',
+      toId: '^all'
+    }
+  });
+  const lorawanRow = buildRow(2, {
+    source: 'note, "quoted"',
+    rxMetadataRows: [
+      {
+        gatewayId: 'gw-1',
+        rssi: -101,
+        snr: 5,
+        channelIndex: 2,
+        time: null,
+        fineTimestamp: null,
+        receivedAt: new Date('2026-03-01T10:00:03.000Z')
+      },
+      {
+        gatewayId: 'gw-2',
+        rssi: -117,
+        snr: -6.5,
+        channelIndex: null,
+        time: null,
+        fineTimestamp: null,
+        receivedAt: new Date('2026-03-01T10:00:03.000Z')
+      }
+    ]
+  });
+
+  it('writes one CSV line per measurement with hop fields and gateway rows', () => {
+    const encoder = createMeasurementExportEncoder('csv');
+    const header = encoder.start.trimEnd().split(',');
+    const meshLine = encoder.encode(meshRow, 0);
+    const lorawanLine = encoder.encode(lorawanRow, 1);
+
+    expect(header).toContain('meshHopsAway');
+    expect(header[header.length - 1]).toBe('rxMetadata');
+    const meshValues = meshLine.trimEnd().split(',');
+    expect(meshValues[header.indexOf('meshHopsAway')]).toBe('2');
+    expect(meshValues[header.indexOf('meshRelayNode')]).toBe('187');
+    expect(meshValues[header.indexOf('rxGatewayCount')]).toBe('0');
+    expect(meshLine.endsWith(',0,\n')).toBe(true);
+
+    expect(lorawanLine).toContain(',"note, ""quoted""",');
+    expect(lorawanLine).toContain(',2,"[{""gatewayId"":""gw-1""');
+  });
+
+  it('writes NDJSON records with nested meshtastic and rxMetadata', () => {
+    const encoder = createMeasurementExportEncoder('ndjson');
+    const lines = [encoder.encode(meshRow, 0), encoder.encode(lorawanRow, 1)];
+
+    expect(lines.every((line) => line.endsWith('\n') && !line.slice(0, -1).includes('\n'))).toBe(true);
+    const mesh = JSON.parse(lines[0]);
+    expect(mesh.meshtastic).toMatchObject({ hopsAway: 2, relayNode: 187, fromId: '!a1b2c3d4' });
+    expect(JSON.parse(lines[1]).rxMetadata.map((rx: { gatewayId: string }) => rx.gatewayId)).toEqual([
+      'gw-1',
+      'gw-2'
+    ]);
+  });
+
+  it('produces a parseable FeatureCollection from start, rows and end', () => {
+    const encoder = createMeasurementExportEncoder('geojson');
+    const body = encoder.start + encoder.encode(meshRow, 0) + encoder.encode(lorawanRow, 1) + encoder.end;
+    const parsed = JSON.parse(body);
+
+    expect(parsed.type).toBe('FeatureCollection');
+    expect(parsed.features).toHaveLength(2);
+    expect(parsed.features[0].geometry.coordinates).toEqual([13.4, 52.501]);
+    expect(parsed.features[0].properties.lat).toBeUndefined();
+    expect(JSON.parse(encoder.start + encoder.end).features).toEqual([]);
+  });
+});
+
+describe('ExportService.iterateMeasurements', () => {
+  it('pages with a (capturedAt, id) keyset until a short batch', async () => {
+    const rows = [buildRow(1), buildRow(2), buildRow(3), buildRow(4), buildRow(5)];
+    const findMany = jest
+      .fn()
+      .mockResolvedValueOnce(rows.slice(0, 2))
+      .mockResolvedValueOnce(rows.slice(2, 4))
+      .mockResolvedValueOnce(rows.slice(4));
+    const service = new ExportService({ measurement: { findMany } } as any);
+
+    const batches: MeasurementExportRow[][] = [];
+    for await (const batch of service.iterateMeasurements({ deviceId: 'device-1' }, 2)) {
+      batches.push(batch);
+    }
+
+    expect(batches.map((batch) => batch.length)).toEqual([2, 2, 1]);
+    expect(findMany).toHaveBeenCalledTimes(3);
+    expect(findMany.mock.calls[0][0].where).toEqual({ deviceId: 'device-1' });
+    expect(findMany.mock.calls[0][0].orderBy).toEqual([{ capturedAt: 'asc' }, { id: 'asc' }]);
+    expect(findMany.mock.calls[1][0].where.AND[1]).toEqual({
+      OR: [
+        { capturedAt: { gt: rows[1].capturedAt } },
+        { AND: [{ capturedAt: rows[1].capturedAt }, { id: { gt: rows[1].id } }] }
+      ]
+    });
+  });
+});
+
+describe('ExportController measurement streams', () => {
+  function createController(batches: MeasurementExportRow[][], scopeError?: Error) {
+    const exportService = {
+      assertScopeExists: jest.fn(async () => {
+        if (scopeError) {
+          throw scopeError;
+        }
+      }),
+      iterateMeasurements: jest.fn(async function* () {
+        for (const batch of batches) {
+          yield batch;
+        }
+      })
+    };
+    return { controller: new ExportController({} as any, exportService as any), exportService };
+  }
+
+  it('validates scope before writing anything', async () => {
+    const { controller } = createController([]);
+    const res = createResponse();
+
+    await expect(controller.exportMeasurementsCsv({}, res)).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      controller.exportMeasurementsCsv({ deviceId: 'device-1', from: '2026-03-02', to: '2026-03-01' }, res)
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      controller.exportMeasurementsCsv({ bbox: '13.5,52,13.4,53' }, res)
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    const missing = createController([], new NotFoundException('Session not found'));
+    await expect(
+      missing.controller.exportMeasurementsCsv({ sessionId: 'session-1' }, res)
+    ).rejects.toBeInstanceOf(NotFoundException);
+    expect(res.setHeader).not.toHaveBeenCalled();
+  });
+
+  it('streams every batch without a point cap', async () => {
+    const batches = Array.from({ length: 12 }, (_, batchIndex) =>
+      Array.from({ length: 1000 }, (_, index) => buildRow(batchIndex * 1000 + index))
+    );
+    const { controller, exportService } = createController(batches);
+    const res = createResponse();
+
+    await controller.exportMeasurementsNdjson(
+      { deviceId: 'device-1', from: '2026-03-01T00:00:00.000Z', to: '2026-03-02T00:00:00.000Z' },
+      res
+    );
+
+    expect(exportService.iterateMeasurements).toHaveBeenCalledWith({
+      sessionId: undefined,
+      deviceId: 'device-1',
+      from: new Date('2026-03-01T00:00:00.000Z'),
+      to: new Date('2026-03-02T00:00:00.000Z'),
+      bbox: undefined
+    });
+    expect(res.headers['Content-Type']).toBe('application/x-ndjson; charset=utf-8');
+    expect(res.headers['Content-Disposition']).toBe(
+      'attachment; filename="measurements-device-device-1.ndjson"'
+    );
+    expect(res.chunks.join('').trimEnd().split('\n')).toHaveLength(12_000);
+    expect(res.end).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops reading when the client disconnects', async () => {
+    const { controller } = createController([[buildRow(1)], [buildRow(2)], [buildRow(3)]]);
+    const res = createResponse();
+    res.write = jest.fn((chunk: string) => {
+      res.chunks.push(chunk);
+      if (res.chunks.length === 2) {
+        res.emit('close');
+      }
+      return true;
+    });
+
+    await controller.exportMeasurementsGeoJson({ sessionId: 'session-1' }, res);
+
+    // Header chunk plus the first batch; the second batch is read but dropped.
+    expect(res.chunks).toHaveLength(2);
+    expect(res.end).not.toHaveBeenCalled();
+  });
+});
+
+describe('ExportController session GeoJSON', () => {
+  // A triangle roughly 1 km across, all above the -110 dBm threshold.
+  const rows = [
+    { lat: 52.5, lon: 13.4 },
+    { lat: 52.51, lon: 13.4 },
+    { lat: 52.505, lon: 13.415 }
+  ].map((point, index) => ({
+    ...point,
+    capturedAt: new Date(Date.UTC(2026, 2, 1, 10, 0, index)),
+    rssi: -105,
+    snr: 3,
+    sf: 9,
+    bw: 125,
+    freq: 868.1,
+    gatewayId: 'gw-1',
+    device: { deviceUid: 'node-a' }
+  }));
+
+  function createController() {
+    const prisma = {
+      measurement: {
+        count: jest.fn().mockResolvedValue(rows.length),
+        findMany: jest.fn().mockResolvedValue(rows)
+      }
+    };
+    return new ExportController(prisma as any, {} as ExportService);
+  }
+
+  it('returns only point features by default', async () => {
+    const res = createResponse();
+    res.json = jest.fn();
+
+    await createController().exportSession('session-1', {}, res);
+
+    const payload = res.json.mock.calls[0][0];
+    expect(res.headers['Content-Type']).toBe('application/geo+json');
+    expect(payload.features).toHaveLength(rows.length);
+    expect(payload.features.every((feature: any) => feature.geometry.type === 'Point')).toBe(true);
+  });
+
+  it('appends range boundaries when boundaries=1', async () => {
+    const res = createResponse();
+    res.json = jest.fn();
+
+    await createController().exportSession('session-1', { boundaries: '1' }, res);
+
+    const features = res.json.mock.calls[0][0].features;
+    expect(features.slice(0, rows.length).every((feature: any) => feature.geometry.type === 'Point')).toBe(
+      true
+    );
+    const boundaries = features.slice(rows.length);
+    expect(boundaries.length).toBeGreaterThan(0);
+    expect(boundaries.every((feature: any) => feature.properties.kind === 'rangeBoundary')).toBe(true);
+  });
+
+  it('rejects a boundaries value that is not a boolean', async () => {
+    await expect(
+      createController().exportSession('session-1', { boundaries: 'yes' }, createResponse())
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
@@ -0,0 +1,285 @@
+import Aedes from 'aedes';
+import { createServer, type AddressInfo } from 'net';
+import { connect } from 'mqtt';
+import {
+  channelHash,
+  decryptPacket,
+  expandChannelPsk,
+  parseChannelKeys
+} from '../src/modules/meshtastic-mqtt/channel-crypto';
+import {
+  envelopeToMeshtasticEvent,
+  jsonMessageToMeshtasticEvent,
+  parseMeshtasticTopic
+} from '../src/modules/meshtastic-mqtt/meshtastic-mqtt-message';
+import { MeshtasticMqttService } from '../src/modules/meshtastic-mqtt/meshtastic-mqtt.service';
+
+// Protobuf encoding helpers for building test envelopes.
+function varint(value: number): Buffer {
+  const bytes: number[] = [];
+  if (value < 0) {
+    // Negative int32 values are sign-extended to 64 bits: ten bytes.
+    const low = value >>> 0;
+    for (let index = 0; index < 10; index += 1) {
+      let byte = 0;
+      for (let bit = 0; bit < 7; bit += 1) {
+        const position = index * 7 + bit;
+        const set = position < 32 ? (low >>> position) & 1 : position < 64 ? 1 : 0;
+        byte |= set << bit;
+      }
+      bytes.push(index < 9 ? byte | 0x80 : byte);
+    }
+    return Buffer.from(bytes);
+  }
+  let remaining = value;
+  while (remaining > 0x7f) {
+    bytes.push((remaining & 0x7f) | 0x80);
+    remaining = Math.floor(remaining / 128);
+  }
+  bytes.push(remaining);
+  return Buffer.from(bytes);
+}
+const tag = (field: number, wireType: number) => varint(field * 8 + wireType);
+const uint = (field: number, value: number) => Buffer.concat([tag(field, 0), varint(value)]);
+const fixed32 = (field: number, value: number, signed = false) => {
+  const buffer = Buffer.alloc(4);
+  if (signed) {
+    buffer.writeInt32LE(value);
+  } else {
+    buffer.writeUInt32LE(value);
+  }
+  return Buffer.concat([tag(field, 5), buffer]);
+};
+const float = (field: number, value: number) => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeFloatLE(value);
+  return Buffer.concat([tag(field, 5), buffer]);
+};
+const bytes = (field: number, value: Buffer) => Buffer.concat([tag(field, 2), varint(value.length), value]);
+const text = (field: number, value: string) => bytes(field, Buffer.from(value, 'utf8'));
+
+const FROM = 0xa1b2c3d4;
+const PACKET_ID = 0x1234abcd;
+const DEFAULT_KEY = expandChannelPsk(Buffer.from('AQ==', 'base64')) as Buffer;
+
+function positionData(): Buffer {
+  const position = Buffer.concat([
+    fixed32(1, 523456789, true),
+    fixed32(2, 134567890, true),
+    uint(3, 41),
+    fixed32(4, 1767268800),
+    uint(19, 9),
+    uint(23, 32)
+  ]);
+  return Buffer.concat([uint(1, 3), bytes(2, position)]);
+}
+
+function envelope(options: { channelId: string; encrypted?: Buffer; decoded?: Buffer; channel?: number }): Buffer {
+  const packet = Buffer.concat([
+    fixed32(1, FROM),
+    fixed32(2, 0xffffffff),
+    uint(3, options.channel ?? 8),
+    options.decoded ? bytes(4, options.decoded) : Buffer.alloc(0),
+    options.encrypted ? bytes(5, options.encrypted) : Buffer.alloc(0),
+    fixed32(6, PACKET_ID),
+    fixed32(7, 1767268801),
+    float(8, 6.25),
+    uint(9, 2),
+    uint(12, -97),
+    uint(15, 3)
+  ]);
+  return Buffer.concat([bytes(1, packet), text(2, options.channelId), text(3, '!0badcafe')]);
+}
+
+const TOPIC = { format: 'protobuf' as const, channelId: 'LongFast', gatewayId: '!0badcafe' };
+
+describe('Meshtastic channel keys', () => {
+  it('expands the default PSK shorthand and hashes channels like the firmware', () => {
+    expect(DEFAULT_KEY.toString('base64')).toBe('1PG7OiApB1nwvP+rz05pAQ==');
+    expect(expandChannelPsk(Buffer.from([2]))?.[15]).toBe(0x02);
+    expect(expandChannelPsk(Buffer.from([0]))).toBeNull();
+    // The default public channel shows up with channel hash 8.
+    expect(channelHash('LongFast', DEFAULT_KEY)).toBe(8);
+  });
+
+  it('parses channel key lists and rejects unusable keys', () => {
+    const privateKey = Buffer.alloc(32, 7).toString('base64');
+    expect(parseChannelKeys(`LongFast:AQ==, Private:${privateKey}`).map((entry) => entry.name)).toEqual([
+      'LongFast',
+      'Private'
+    ]);
+    expect(() => parseChannelKeys('LongFast')).toThrow();
+    expect(() => parseChannelKeys('Open:AA==')).toThrow();
+  });
+});
+
+describe('Meshtastic MQTT messages', () => {
+  it('routes protobuf and JSON topics', () => {
+    expect(parseMeshtasticTopic('msh/EU_868/2/e/LongFast/!0badcafe')).toEqual(TOPIC);
+    expect(parseMeshtasticTopic('msh/US/CA/2/json/LongFast/!0badcafe')).toEqual({
+      format: 'json',
+      channelId: 'LongFast',
+      gatewayId: '!0badcafe'
+    });
+    expect(parseMeshtasticTopic('msh/EU_868/2/map/')).toBeNull();
+  });
+
+  it('decrypts channel packets into the forwarder packet shape', () => {
+    const encrypted = decryptPacket(DEFAULT_KEY, PACKET_ID, FROM, positionData());
+    const result = envelopeToMeshtasticEvent(
+      envelope({ channelId: 'LongFast', encrypted }),
+      TOPIC,
+      parseChannelKeys('LongFast:AQ==')
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) {
+      return;
+    }
+    expect(result.eventId).toBe('mqtt:!0badcafe:!a1b2c3d4:1234abcd');
+    expect(result.event).toMatchObject({
+      from: FROM,
+      fromId: '!a1b2c3d4',
+      toId: '^all',
+      id: PACKET_ID,
+      rxTime: 1767268801,
+      rxSnr: 6.25,
+      rxRssi: -97,
+      hopLimit: 2,
+      hopStart: 3,
+      rxNodeId: '!0badcafe',
+      decoded: {
+        portnum: 'POSITION_APP',
+        position: {
+          latitudeI: 523456789,
+          longitudeI: 134567890,
+          latitude: 52.3456789,
+          longitude: 13.456789,
+          altitude: 41,
+          time: 1767268800,
+          satsInView: 9,
+          precisionBits: 32
+        }
+      },
+      _mqtt: { channelId: 'LongFast', gatewayId: '!0badcafe', encrypted: true }
+    });
+    expect(result.event).not.toHaveProperty('encrypted');
+  });
+
+  it('reports packets it holds no key for or cannot decrypt', () => {
+    const encrypted = decryptPacket(DEFAULT_KEY, PACKET_ID, FROM, positionData());
+    const wrongKey = `LongFast:${Buffer.alloc(16, 9).toString('base64')}`;
+
+    expect(
+      envelopeToMeshtasticEvent(envelope({ channelId: 'LongFast', encrypted }), TOPIC, parseChannelKeys(wrongKey))
+    ).toEqual({ ok: false, reason: 'decrypt_failed' });
+    expect(
+      envelopeToMeshtasticEvent(
+        envelope({ channelId: 'Hidden', encrypted, channel: 42 }),
+        { ...TOPIC, channelId: 'Hidden' },
+        parseChannelKeys('LongFast:AQ==')
+      )
+    ).toEqual({ ok: false, reason: 'no_channel_key' });
+    expect(envelopeToMeshtasticEvent(Buffer.from([0xff, 0xff]), TOPIC, [])).toEqual({
+      ok: false,
+      reason: 'malformed'
+    });
+  });
+
+  it('maps JSON messages, with the publishing node as receiver', () => {
+    const message = {
+      channel: 0,
+      from: FROM,
+      to: 0xffffffff,
+      id: PACKET_ID,
+      hop_start: 3,
+      hops_away: 1,
+      rssi: -101,
+      snr: -2.5,
+      sender: '!0badcafe',
+      timestamp: 1767268801,
+      type: 'telemetry',
+      payload: { battery_level: 87, voltage: 4.05, temperature: 21.5 }
+    };
+    const result = jsonMessageToMeshtasticEvent(Buffer.from(JSON.stringify(message)), {
+      format: 'json',
+      channelId: 'LongFast',
+      gatewayId: null
+    });
+
+    expect(result.ok && result.event).toMatchObject({
+      fromId: '!a1b2c3d4',
+      rxRssi: -101,
+      hopLimit: 2,
+      rxNodeId: '!0badcafe',
+      decoded: {
+        portnum: 'TELEMETRY_APP',
+        telemetry: {
+          deviceMetrics: { batteryLevel: 87, voltage: 4.05 },
+          environmentMetrics: { temperature: 21.5 }
+        }
+      }
+    });
+    expect(
+      jsonMessageToMeshtasticEvent(Buffer.from(JSON.stringify({ ...message, type: 'mapreport' })), TOPIC)
+    ).toEqual({ ok: false, reason: 'unsupported' });
+  });
+});
+
+describe('MeshtasticMqttService', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('ignores channel keys while the integration is not configured', () => {
+    delete process.env.MESHTASTIC_MQTT_URL;
+    process.env.MESHTASTIC_MQTT_CHANNEL_KEYS = 'LongFast';
+
+    const service = new MeshtasticMqttService({ ingestEvent: jest.fn() } as any);
+    expect(service.getWorkerStatus()).toBeNull();
+
+    process.env.MESHTASTIC_MQTT_URL = 'mqtt://127.0.0.1:1';
+    expect(() => new MeshtasticMqttService({ ingestEvent: jest.fn() } as any)).toThrow();
+  });
+
+  it('stores decoded packets from the broker through the ingest path', async () => {
+    const aedes = new Aedes();
+    const server = createServer(aedes.handle);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    process.env.MESHTASTIC_MQTT_URL = `mqtt://127.0.0.1:${port}`;
+
+    const meshtasticService = { ingestEvent: jest.fn(async () => undefined) };
+    const subscribed = new Promise<void>((resolve) => aedes.once('subscribe', () => resolve()));
+    const service = new MeshtasticMqttService(meshtasticService as any);
+    service.onApplicationBootstrap();
+    try {
+      await subscribed;
+      const publisher = connect(`mqtt://127.0.0.1:${port}`);
+      await publisher.publishAsync(
+        'msh/EU_868/2/e/LongFast/!0badcafe',
+        envelope({ channelId: 'LongFast', decoded: positionData() }),
+        { qos: 1 }
+      );
+      await publisher.publishAsync('msh/EU_868/2/stat/!0badcafe', 'online', { qos: 1 });
+      await publisher.endAsync();
+
+      const deadline = Date.now() + 5000;
+      while (meshtasticService.ingestEvent.mock.calls.length === 0 && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 25));
+      }
+      expect(meshtasticService.ingestEvent).toHaveBeenCalledTimes(1);
+      expect(meshtasticService.ingestEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ fromId: '!a1b2c3d4', _mqtt: expect.objectContaining({ encrypted: false }) }),
+        'mqtt:!0badcafe:!a1b2c3d4:1234abcd'
+      );
+      expect(service.getWorkerStatus()?.ok).toBe(true);
+    } finally {
+      service.onModuleDestroy();
+      await new Promise<void>((resolve) => aedes.close(() => resolve()));
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});
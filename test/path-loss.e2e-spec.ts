@@ -0,0 +1,58 @@
+import { fitPathLossModel, PathLossInputPoint } from '../src/modules/sessions/path-loss';
+
+function buildPoints(exponent: number, interceptAt1Km: number, distances: number[]): PathLossInputPoint[] {
+  return distances.map((distanceMeters, index) => ({
+    measurementId: `m-${index}`,
+    capturedAt: new Date(Date.UTC(2026, 0, 1, 12, 0, index)),
+    lat: 52.5,
+    lon: 13.4,
+    distanceMeters,
+    // Alternating +/-1 dB keeps the fit exact on average but with a known spread.
+    rssi:
+      interceptAt1Km - 10 * exponent * Math.log10(distanceMeters / 1000) + (index % 2 === 0 ? 1 : -1)
+  }));
+}
+
+describe('fitPathLossModel', () => {
+  const distances = [200, 300, 450, 700, 1000, 1500, 2200, 3300, 5000, 7500];
+
+  it('recovers exponent and intercept from log-distance data', () => {
+    const { model, usedCount, outliers } = fitPathLossModel(buildPoints(2.7, -95, distances));
+
+    expect(usedCount).toBe(distances.length);
+    expect(outliers).toEqual([]);
+    expect(model).not.toBeNull();
+    expect(model!.exponent).toBeCloseTo(2.7, 1);
+    expect(model!.intercept).toBeCloseTo(-95, 0);
+    expect(model!.residualStdDev).toBeGreaterThan(0.8);
+    expect(model!.residualStdDev).toBeLessThan(1.3);
+    expect(model!.r2).toBeGreaterThan(0.99);
+    expect(model!.minDistanceMeters).toBe(200);
+    expect(model!.maxDistanceMeters).toBe(7500);
+  });
+
+  it('reports outliers and refits without them', () => {
+    const points = buildPoints(3, -100, distances);
+    points[6] = { ...points[6], rssi: points[6].rssi + 30 };
+
+    const { model, usedCount, outliers } = fitPathLossModel(points);
+
+    expect(usedCount).toBe(distances.length - 1);
+    expect(outliers).toHaveLength(1);
+    expect(outliers[0]).toMatchObject({ measurementId: 'm-6', distanceMeters: 2200 });
+    expect(outliers[0].residual).toBeGreaterThan(25);
+    expect(model!.exponent).toBeCloseTo(3, 1);
+  });
+
+  it('excludes points inside the minimum distance and needs a distance spread', () => {
+    const near = buildPoints(2.5, -90, [5, 20, 30, 40, 60, 80, 1000]);
+    const { model, usedCount } = fitPathLossModel(near, 50);
+    expect(model).toBeNull();
+    expect(usedCount).toBe(0);
+
+    const fitted = fitPathLossModel(buildPoints(2.5, -90, [5, 20, 40, ...distances]), 50);
+    expect(fitted.usedCount).toBe(distances.length);
+    expect(fitted.model!.minDistanceMeters).toBe(200);
+    expect(fitPathLossModel(buildPoints(2.5, -90, [1000, 1010, 1020, 1030, 1040])).model).toBeNull();
+  });
+});
@@ -0,0 +1,225 @@
+import { BadRequestException, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeyScope, PayloadDecoderType, WebhookEventSource } from '@prisma/client';
+import { API_KEY_SCOPES_KEY } from '../src/common/decorators/api-key-scopes.decorator';
+import { ApiKeyGuard } from '../src/common/guards/api-key.guard';
+import { hashApiKey } from '../src/common/security/apiKey';
+import { LorawanService } from '../src/modules/lorawan/lorawan.service';
+import { decodeCayenneLpp } from '../src/modules/payload-decoders/decoders/cayenne-lpp';
+import { FormatterSandbox } from '../src/modules/payload-decoders/decoders/javascript-formatter';
+import { PayloadDecodersController } from '../src/modules/payload-decoders/payload-decoders.controller';
+import { PayloadDecodersService } from '../src/modules/payload-decoders/payload-decoders.service';
+
+// Channel 1 GPS (42.3519, -87.9094, 10 m) followed by channel 3 temperature (27.2 C).
+const LPP_GPS_FRAME = Buffer.from('018806765ff2960a0003e803670110', 'hex');
+const RECV_TIME = '2026-02-02T20:00:00.000Z';
+
+const LAT_LON_FORMATTER = `
+function decodeUplink(input) {
+  var lat = ((input.bytes[0] << 24) | (input.bytes[1] << 16) | (input.bytes[2] << 8) | input.bytes[3]) / 1e6;
+  var lon = ((input.bytes[4] << 24) | (input.bytes[5] << 16) | (input.bytes[6] << 8) | input.bytes[7]) / 1e6;
+  return { data: { lat: lat, lon: lon, port: input.fPort, year: input.recvTime.getUTCFullYear() } };
+}`;
+
+function encodeLatLon(lat: number, lon: number): Buffer {
+  const bytes = Buffer.alloc(8);
+  bytes.writeInt32BE(Math.round(lat * 1e6), 0);
+  bytes.writeInt32BE(Math.round(lon * 1e6), 4);
+  return bytes;
+}
+
+describe('Cayenne LPP decoder', () => {
+  it('decodes channels with TTS-style keys', () => {
+    expect(decodeCayenneLpp(LPP_GPS_FRAME)).toEqual({
+      gps_1: { latitude: 42.3519, longitude: -87.9094, altitude: 10 },
+      temperature_3: 27.2
+    });
+  });
+
+  it('rejects unknown types and truncated frames', () => {
+    expect(() => decodeCayenneLpp(Buffer.from('01ff00', 'hex'))).toThrow('Unsupported Cayenne LPP type 255');
+    expect(() => decodeCayenneLpp(LPP_GPS_FRAME.subarray(0, 8))).toThrow('truncated');
+  });
+});
+
+describe('JavaScript formatter sandbox', () => {
+  const sandbox = new FormatterSandbox();
+  const input = { bytes: [1], fPort: 1, recvTime: RECV_TIME };
+
+  afterAll(() => sandbox.close());
+
+  it('runs decodeUplink with the TTS input contract', async () => {
+    const output = await sandbox.run(LAT_LON_FORMATTER, {
+      bytes: Array.from(encodeLatLon(52.52, 13.405)),
+      fPort: 2,
+      recvTime: RECV_TIME
+    });
+    expect(output).toEqual({ data: { lat: 52.52, lon: 13.405, port: 2, year: 2026 }, warnings: [] });
+  });
+
+  it('surfaces formatter errors and contains runaway or escaping scripts', async () => {
+    await expect(
+      sandbox.run('function decodeUplink() { return { errors: ["bad length"] }; }', input)
+    ).rejects.toThrow('bad length');
+    await expect(sandbox.run('function decodeUplink() { while (true) {} }', input)).rejects.toThrow(/timed out/);
+    await expect(
+      sandbox.run('function decodeUplink() { return { data: { p: typeof process, r: typeof require } }; }', input)
+    ).resolves.toEqual({ data: { p: 'undefined', r: 'undefined' }, warnings: [] });
+    await expect(
+      sandbox.run('function decodeUplink() { return { data: { f: eval("1") } }; }', input)
+    ).rejects.toThrow();
+  });
+
+  it('stops formatters that exhaust the sandbox heap and recovers with a new sandbox', async () => {
+    const creep = 'var chunks = []; function decodeUplink() { for (;;) { chunks.push(new Array(4e6).fill(1)); } }';
+    // A single allocation above the heap limit aborts the whole process it runs in.
+    const burst = 'function decodeUplink() { return { data: { size: new Array(1e8).fill(1).length } }; }';
+
+    // Depending on machine speed the CPU timeout may stop the loop first.
+    await expect(sandbox.run(creep, input)).rejects.toThrow(/memory limit|timed out/);
+    await expect(sandbox.run(burst, input)).rejects.toThrow('Formatter exceeded its memory limit');
+    await expect(sandbox.run(LAT_LON_FORMATTER, { ...input, bytes: [0, 0, 0, 0, 0, 0, 0, 0] })).resolves.toEqual(
+      expect.objectContaining({ data: expect.objectContaining({ lat: 0, lon: 0 }) })
+    );
+  });
+
+  it('does not hand server environment variables to formatters', async () => {
+    const probe = 'function decodeUplink() { return { data: { env: typeof process } }; }';
+    await expect(sandbox.run(probe, input)).resolves.toEqual({ data: { env: 'undefined' }, warnings: [] });
+  });
+
+  it('keeps evaluated formatters per cache key', async () => {
+    const counter = 'var calls = 0; function decodeUplink() { calls += 1; return { data: { calls: calls } }; }';
+
+    await sandbox.run(counter, input, 'decoder-1:1');
+    expect((await sandbox.run(counter, input, 'decoder-1:1')).data).toEqual({ calls: 2 });
+    expect((await sandbox.run(counter, input, 'decoder-1:2')).data).toEqual({ calls: 1 });
+    expect((await sandbox.run(counter, input)).data).toEqual({ calls: 1 });
+  });
+
+  it('refuses scripts that do not compile', async () => {
+    const service = new PayloadDecodersService({} as any);
+    await expect(
+      service.test(PayloadDecoderType.JAVASCRIPT, 'function decodeUplink( {', { fPort: 1, frmPayload: 'AQ==' })
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('requires the ADMIN scope to install or try formatters', () => {
+    const scopesOf = (handler: keyof PayloadDecodersController) =>
+      new Reflector().getAllAndOverride(API_KEY_SCOPES_KEY, [
+        PayloadDecodersController.prototype[handler],
+        PayloadDecodersController
+      ]);
+
+    expect(scopesOf('create')).toEqual([ApiKeyScope.ADMIN]);
+    expect(scopesOf('update')).toEqual([ApiKeyScope.ADMIN]);
+    expect(scopesOf('test')).toEqual([ApiKeyScope.ADMIN]);
+    expect(scopesOf('remove')).toEqual([ApiKeyScope.ADMIN]);
+    expect(scopesOf('list')).toEqual([ApiKeyScope.QUERY]);
+  });
+
+  it('refuses a QUERY key on DELETE and accepts an ADMIN key', async () => {
+    const guardFor = (scopes: ApiKeyScope[]) =>
+      new ApiKeyGuard(
+        {
+          apiKey: { findFirst: jest.fn().mockResolvedValue({ keyHash: hashApiKey('decoder-key'), scopes }) }
+        } as never,
+        new Reflector()
+      );
+    const context = {
+      switchToHttp: () => ({ getRequest: () => ({ headers: { 'x-api-key': 'decoder-key' } }) }),
+      getHandler: () => PayloadDecodersController.prototype.remove,
+      getClass: () => PayloadDecodersController
+    } as unknown as ExecutionContext;
+
+    await expect(guardFor([ApiKeyScope.QUERY]).canActivate(context)).rejects.toThrow(ForbiddenException);
+    await expect(guardFor([ApiKeyScope.QUERY, ApiKeyScope.ADMIN]).canActivate(context)).resolves.toBe(true);
+  });
+});
+
+describe('LorawanService payload decoding', () => {
+  function buildService(decoder: { type: PayloadDecoderType; script?: string | null } | null) {
+    const prisma = {
+      payloadDecoder: {
+        findFirst: jest.fn(async () =>
+          decoder
+            ? { id: 'decoder-1', enabled: true, script: null, updatedAt: new Date(RECV_TIME), ...decoder }
+            : null
+        )
+      },
+      webhookEvent: { update: jest.fn(async () => ({})) }
+    };
+    const measurementsService = { ingestCanonical: jest.fn(async () => ({ inserted: 1 })) };
+    const service = new LorawanService(
+      prisma as any,
+      measurementsService as any,
+      new PayloadDecodersService(prisma as any)
+    );
+    return { service, prisma, measurementsService };
+  }
+
+  function ttsUplink(frame: Buffer) {
+    return {
+      received_at: RECV_TIME,
+      end_device_ids: { dev_eui: 'A1B2C3D4E5F60123', application_ids: { application_id: 'mapper' } },
+      uplink_message: {
+        f_port: 2,
+        frm_payload: frame.toString('base64'),
+        rx_metadata: [{ gateway_ids: { gateway_id: 'gw-east' }, rssi: -95, snr: 2.1 }]
+      }
+    };
+  }
+
+  async function process(service: LorawanService, payload: unknown) {
+    await (service as any).processEvent(
+      'event-1',
+      WebhookEventSource.LORAWAN,
+      'uplink',
+      'A1B2C3D4E5F60123',
+      payload,
+      new Date(RECV_TIME)
+    );
+  }
+
+  it('decodes frm_payload with the registered decoder before GPS extraction', async () => {
+    const { service, prisma, measurementsService } = buildService({ type: PayloadDecoderType.CAYENNE_LPP });
+    await process(service, ttsUplink(LPP_GPS_FRAME));
+
+    expect(prisma.payloadDecoder.findFirst).toHaveBeenCalledWith({
+      where: { enabled: true, deviceUid: { equals: 'A1B2C3D4E5F60123', mode: 'insensitive' } }
+    });
+    expect(measurementsService.ingestCanonical).toHaveBeenCalledWith('A1B2C3D4E5F60123', [
+      expect.objectContaining({ lat: 42.3519, lon: -87.9094, alt: 10, gatewayId: 'gw-east' })
+    ]);
+    expect(prisma.webhookEvent.update).toHaveBeenCalledWith({
+      where: { id: 'event-1' },
+      data: expect.objectContaining({ error: null })
+    });
+  });
+
+  it('stores decode errors on the event instead of ingesting', async () => {
+    const { service, prisma, measurementsService } = buildService({
+      type: PayloadDecoderType.JAVASCRIPT,
+      script: 'function decodeUplink() { throw new Error("unexpected port"); }'
+    });
+    await process(service, ttsUplink(encodeLatLon(1, 2)));
+
+    expect(measurementsService.ingestCanonical).not.toHaveBeenCalled();
+    expect(prisma.webhookEvent.update).toHaveBeenCalledWith({
+      where: { id: 'event-1' },
+      data: expect.objectContaining({ error: 'decode_failed', decodeError: 'unexpected port' })
+    });
+  });
+
+  it('keeps missing_gps when no decoder is registered', async () => {
+    const { service, prisma, measurementsService } = buildService(null);
+    await process(service, ttsUplink(LPP_GPS_FRAME));
+
+    expect(prisma.payloadDecoder.findFirst).toHaveBeenCalledTimes(2);
+    expect(measurementsService.ingestCanonical).not.toHaveBeenCalled();
+    expect(prisma.webhookEvent.update).toHaveBeenCalledWith({
+      where: { id: 'event-1' },
+      data: expect.objectContaining({ error: 'missing_gps' })
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { EventEmitter } from 'node:events';
+import net from 'node:net';
+import { decodeFromRadio } from '../apps/pi-forwarder/src/sources/meshtastic_proto';
+import { extractFrames, runConnection } from '../apps/pi-forwarder/src/sources/tcp';
+import { decodeServiceEnvelope } from '../src/modules/meshtastic-mqtt/meshtastic-protobuf';
+import { readProtoFields } from '../src/common/meshtastic/protobuf-wire';
+
+// FromRadio { id: 7, packet } as a node streams it: a LoRa position from !a1b2c3d4 to ^all,
+// encoded field by field from mesh.proto (fixed32 node ids, sfixed32 coordinates).
+const FROM_RADIO_POSITION = Buffer.from(
+  '080712480dd4c3b2a115ffffffff221b080312170d1551331f15d2570508182925c0615669980109b801203' +
+    '5cdab34123dc1615669450000c8404802609fffffffffffffffff017803a80101',
+  'hex'
+);
+
+function frame(payload: Buffer): Buffer {
+  const header = Buffer.from([0x94, 0xc3, 0, 0]);
+  header.writeUInt16BE(payload.length, 2);
+  return Buffer.concat([header, payload]);
+}
+
+function collectFrames(buffer: Buffer): { frames: Buffer[]; rest: Buffer } {
+  const frames: Buffer[] = [];
+  const rest = extractFrames(buffer, (value) => frames.push(Buffer.from(value)));
+  return { frames, rest };
+}
+
+describe('decodeFromRadio', () => {
+  it('decodes a streamed position packet into the Python client shape', () => {
+    const message = decodeFromRadio(FROM_RADIO_POSITION);
+
+    expect(message.packet).toEqual(
+      expect.objectContaining({
+        from: 0xa1b2c3d4,
+        fromId: '!a1b2c3d4',
+        to: 0xffffffff,
+        toId: '^all',
+        id: 0x1234abcd,
+        rxTime: 1767268801,
+        rxSnr: 6.25,
+        rxRssi: -97,
+        hopLimit: 2,
+        hopStart: 3,
+        transportMechanism: 'TRANSPORT_LORA'
+      })
+    );
+    expect((message.packet?.decoded as Record<string, unknown>).position).toEqual({
+      latitudeI: 523456789,
+      longitudeI: 134567890,
+      altitude: 41,
+      time: 1767268800,
+      satsInView: 9,
+      precisionBits: 32,
+      latitude: 52.3456789,
+      longitude: 13.456789
+    });
+  });
+
+  it('reads a MeshPacket the same way as the MQTT decoder', () => {
+    const packet = readProtoFields(FROM_RADIO_POSITION).find((field) => field.field === 2)!.value as Buffer;
+    const envelope = Buffer.concat([Buffer.from([0x0a, packet.length]), packet]);
+
+    const { fromId: _fromId, toId: _toId, ...forwarded } = decodeFromRadio(FROM_RADIO_POSITION).packet!;
+    expect(forwarded).toEqual(decodeServiceEnvelope(envelope).packet);
+  });
+
+  it('throws on truncated frames and impossible lengths', () => {
+    expect(() => decodeFromRadio(FROM_RADIO_POSITION.subarray(0, 30))).toThrow('Truncated protobuf field');
+    expect(() => decodeFromRadio(Buffer.from([0x12, 0xff, 0xff, 0xff, 0xff, 0x0f]))).toThrow(
+      'Truncated protobuf field'
+    );
+  });
+});
+
+describe('extractFrames', () => {
+  it('keeps a frame split across reads until the rest arrives', () => {
+    const bytes = frame(FROM_RADIO_POSITION);
+
+    const first = collectFrames(bytes.subarray(0, 10));
+    expect(first.frames).toEqual([]);
+    expect(first.rest).toEqual(bytes.subarray(0, 10));
+
+    const second = collectFrames(Buffer.concat([first.rest, bytes.subarray(10)]));
+    expect(second.frames).toEqual([FROM_RADIO_POSITION]);
+    expect(second.rest.length).toBe(0);
+  });
+
+  it('skips debug output and oversized headers by resyncing on the next start marker', () => {
+    const heartbeat = Buffer.from([0x08, 0x01]);
+    const buffer = Buffer.concat([
+      Buffer.from('INFO  | 12:00:00 Booting\r\n', 'utf8'),
+      Buffer.from([0x94, 0x00]),
+      Buffer.from([0x94, 0xc3, 0x02, 0x58]),
+      frame(FROM_RADIO_POSITION),
+      frame(heartbeat),
+      Buffer.from([0x94])
+    ]);
+
+    const { frames, rest } = collectFrames(buffer);
+    expect(frames).toEqual([FROM_RADIO_POSITION, heartbeat]);
+    expect(rest).toEqual(Buffer.from([0x94]));
+  });
+});
+
+describe('runConnection', () => {
+  type Logger = Parameters<typeof runConnection>[0]['logger'];
+  const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } as unknown as Logger;
+
+  // A socket whose connect never completes, like a SYN to a node that went off the network.
+  function stalledSocket() {
+    const socket = Object.assign(new EventEmitter(), {
+      setKeepAlive: jest.fn(),
+      write: jest.fn(),
+      destroy: jest.fn((error?: Error) => {
+        if (error) {
+          socket.emit('error', error);
+        }
+        socket.emit('close');
+      })
+    });
+    return socket;
+  }
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('gives up on a connect that never completes so the caller backs off and retries', async () => {
+    jest.useFakeTimers();
+    const socket = stalledSocket();
+    jest.spyOn(net, 'createConnection').mockReturnValue(socket as unknown as net.Socket);
+
+    const result = runConnection(
+      { logger, onEvent: jest.fn(), host: '192.0.2.1', port: 4403, connectTimeoutMs: 5000 },
+      () => undefined
+    );
+
+    jest.advanceTimersByTime(4999);
+    expect(socket.destroy).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+
+    await expect(result).resolves.toEqual({ error: 'Timed out connecting after 5000 ms', packets: 0 });
+  });
+
+  it('keeps an open connection past the connect timeout', async () => {
+    jest.useFakeTimers();
+    const socket = stalledSocket();
+    jest.spyOn(net, 'createConnection').mockReturnValue(socket as unknown as net.Socket);
+
+    const result = runConnection(
+      { logger, onEvent: jest.fn(), host: '192.0.2.1', port: 4403, connectTimeoutMs: 5000 },
+      () => undefined
+    );
+    socket.emit('connect');
+
+    jest.advanceTimersByTime(60000);
+    expect(socket.destroy).not.toHaveBeenCalled();
+
+    socket.emit('close');
+    await expect(result).resolves.toEqual({ error: null, packets: 0 });
+  });
+});
@@ -244,6 +244,7 @@ describe('Sessions e2e', () => {
     expect(response.body.snr).toBeNull();
     expect(response.body.signalSourceUsed).toBeNull();
     expect(response.body.receiversCount).toBeNull();
+    expect(response.body.packetDelivery).toBeNull();
   });
 
   it('stats returns range and edge signal summaries for signal sessions', async () => {
@@ -281,6 +282,29 @@ describe('Sessions e2e', () => {
     expect(response.body.receiversCount).toBeNull();
   });
 
+  it('path-loss reports home and signal source but no model for short sessions', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/api/sessions/${signalSessionId}/path-loss`)
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      sessionId: signalSessionId,
+      deviceId,
+      referenceDistanceMeters: 1000,
+      home: { lat: 37.7695, lon: -122.4295, radiusMeters: 50 },
+      signalSourceUsed: 'measurement',
+      pointCount: 3,
+      model: null,
+      outliers: []
+    });
+  });
+
+  it('path-loss returns 404 for unknown sessions', async () => {
+    await request(app.getHttpServer())
+      .get('/api/sessions/00000000-0000-4000-8000-000000000000/path-loss')
+      .expect(404);
+  });
+
   it('signal-series requires metric', async () => {
     await request(app.getHttpServer()).get(`/api/sessions/${signalSessionId}/signal-series`).expect(400);
   });
@@ -299,6 +323,35 @@ describe('Sessions e2e', () => {
     ]);
   });
 
+  it('signal-vs-distance requires metric', async () => {
+    await request(app.getHttpServer())
+      .get(`/api/sessions/${signalSessionId}/signal-vs-distance`)
+      .expect(400);
+  });
+
+  it('signal-vs-distance returns distance from home with signal values', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/api/sessions/${signalSessionId}/signal-vs-distance?metric=rssi`)
+      .expect(200);
+
+    expect(response.body.sessionId).toBe(signalSessionId);
+    expect(response.body.metric).toBe('rssi');
+    expect(response.body.sourceUsed).toBe('measurement');
+    expect(response.body.home).toMatchObject({ lat: 37.7695, lon: -122.4295 });
+    expect(response.body.items).toHaveLength(3);
+    expect(response.body.items[0]).toMatchObject({
+      capturedAt: signalTimestamps.t0.toISOString(),
+      rssi: -120,
+      snr: -5,
+      source: 'measurement'
+    });
+    expect(response.body.items[0].distanceMeters).toBeGreaterThan(200);
+    expect(response.body.items[0].distanceMeters).toBeLessThan(250);
+    expect(response.body.items[2].distanceMeters).toBeGreaterThan(
+      response.body.items[0].distanceMeters
+    );
+  });
+
   it('signal-histogram requires metric', async () => {
     await request(app.getHttpServer()).get(`/api/sessions/${signalSessionId}/signal-histogram`).expect(400);
   });
@@ -0,0 +1,129 @@
+import {
+  BadRequestException,
+  NotFoundException,
+  ServiceUnavailableException
+} from '@nestjs/common';
+import { ShareLink, ShareScope } from '@prisma/client';
+import { signShareToken, verifyShareToken } from '../src/common/security/shareToken';
+import { PublicSharesController } from '../src/modules/shares/public-shares.controller';
+import { SharesService } from '../src/modules/shares/shares.service';
+
+const SECRET = 'test-share-secret';
+const SHARE_ID = '7d3c1e1a-5a3b-4c53-9a0e-5f3f7b1f2a10';
+const SESSION_ID = '0b7a4a43-0f7c-4c3e-8d62-1d8b6c7f0e21';
+
+function buildShare(overrides: Partial<ShareLink> = {}): ShareLink {
+  return {
+    id: SHARE_ID,
+    scope: ShareScope.SESSION,
+    deviceId: null,
+    sessionId: SESSION_ID,
+    label: null,
+    ownerId: null,
+    createdAt: new Date('2026-03-01T10:00:00.000Z'),
+    expiresAt: null,
+    revokedAt: null,
+    ...overrides
+  };
+}
+
+describe('share tokens', () => {
+  it('verifies its own signature and rejects tampered tokens', () => {
+    const token = signShareToken(SHARE_ID, SECRET);
+
+    expect(token.startsWith(`${SHARE_ID}.`)).toBe(true);
+    expect(verifyShareToken(token, SECRET)).toBe(SHARE_ID);
+    expect(verifyShareToken(token, 'other-secret')).toBeNull();
+    expect(verifyShareToken(`${token}x`, SECRET)).toBeNull();
+    expect(verifyShareToken(token.replace(SHARE_ID, SESSION_ID), SECRET)).toBeNull();
+    expect(verifyShareToken('not-a-token', SECRET)).toBeNull();
+  });
+});
+
+describe('SharesService', () => {
+  const previousSecret = process.env.SHARE_LINK_SECRET;
+
+  beforeEach(() => {
+    process.env.SHARE_LINK_SECRET = SECRET;
+  });
+
+  afterAll(() => {
+    if (previousSecret === undefined) {
+      delete process.env.SHARE_LINK_SECRET;
+    } else {
+      process.env.SHARE_LINK_SECRET = previousSecret;
+    }
+  });
+
+  it('resolves active shares and hides revoked, expired and forged ones behind 404', async () => {
+    const findUnique = jest.fn();
+    const service = new SharesService({ shareLink: { findUnique } } as any);
+    const token = signShareToken(SHARE_ID, SECRET);
+
+    findUnique.mockResolvedValueOnce(buildShare());
+    await expect(service.resolve(token)).resolves.toMatchObject({ id: SHARE_ID });
+
+    findUnique.mockResolvedValueOnce(buildShare({ revokedAt: new Date() }));
+    await expect(service.resolve(token)).rejects.toBeInstanceOf(NotFoundException);
+
+    findUnique.mockResolvedValueOnce(buildShare({ expiresAt: new Date(Date.now() - 1000) }));
+    await expect(service.resolve(token)).rejects.toBeInstanceOf(NotFoundException);
+
+    await expect(service.resolve(`${SHARE_ID}.forged`)).rejects.toBeInstanceOf(NotFoundException);
+    expect(findUnique).toHaveBeenCalledTimes(3);
+  });
+
+  it('validates scope targets and needs a secret to create links', async () => {
+    const create = jest.fn(async ({ data }) => buildShare({ ...data, id: SHARE_ID }));
+    const service = new SharesService({
+      shareLink: { create },
+      session: {
+        findUnique: jest.fn(async () => ({ id: SESSION_ID, device: { role: 'CLIENT' } }))
+      }
+    } as any);
+
+    await expect(
+      service.create({ scope: ShareScope.COVERAGE, sessionId: SESSION_ID, deviceId: SESSION_ID })
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(service.create({ scope: ShareScope.SESSION })).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      service.create({ scope: ShareScope.SESSION, sessionId: SESSION_ID, expiresAt: '2020-01-01T00:00:00Z' })
+    ).rejects.toThrow('expiresAt must be in the future');
+
+    const view = await service.create({ scope: ShareScope.SESSION, sessionId: SESSION_ID, label: ' Ridge ' });
+    expect(create.mock.calls[0][0].data).toMatchObject({ sessionId: SESSION_ID, deviceId: null, label: 'Ridge' });
+    expect(view.token).toBe(signShareToken(SHARE_ID, SECRET));
+    expect(view.isActive).toBe(true);
+
+    delete process.env.SHARE_LINK_SECRET;
+    await expect(
+      service.create({ scope: ShareScope.SESSION, sessionId: SESSION_ID })
+    ).rejects.toBeInstanceOf(ServiceUnavailableException);
+  });
+});
+
+describe('PublicSharesController', () => {
+  it('reads only the scope stored on the share', async () => {
+    const sharesService = {
+      resolve: jest.fn(async () => buildShare({ scope: ShareScope.COVERAGE, sessionId: null, deviceId: 'device-1' }))
+    };
+    const coverageService = { listBins: jest.fn(async () => ({ items: [], truncated: false })) };
+    const sessionsService = { getOverview: jest.fn() };
+    const controller = new PublicSharesController(
+      sharesService as any,
+      sessionsService as any,
+      coverageService as any,
+      {} as any
+    );
+
+    await expect(controller.track('token')).rejects.toBeInstanceOf(NotFoundException);
+    expect(sessionsService.getOverview).not.toHaveBeenCalled();
+
+    const bins = await controller.bins('token', '9');
+    expect(coverageService.listBins).toHaveBeenCalledWith(
+      expect.objectContaining({ deviceId: 'device-1', sessionId: undefined, groupBy: 'none' })
+    );
+    expect(bins.level).toBeGreaterThan(0);
+    await expect(controller.bins('token', 'far')).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
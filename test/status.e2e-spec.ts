@@ -114,10 +114,15 @@ describe('Status endpoint e2e', () => {
     expect(response.body.workers).toEqual(
       expect.objectContaining({
         webhookProcessor: expect.objectContaining({ ok: expect.any(Boolean) }),
-        retention: expect.objectContaining({ ok: expect.any(Boolean) })
+        retention: expect.objectContaining({ ok: expect.any(Boolean) }),
+        coverage: expect.objectContaining({ ok: expect.any(Boolean) })
       })
     );
 
+    // Not configured in tests, so left out of the response.
+    expect(response.body.workers).not.toHaveProperty('ttsMqtt');
+    expect(response.body.workers).not.toHaveProperty('meshtasticMqtt');
+
     expect(response.body.ingest).toEqual({
       latestWebhookReceivedAt: webhook.receivedAt.toISOString(),
       latestWebhookError: webhook.error
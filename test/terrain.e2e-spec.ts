@@ -0,0 +1,322 @@
+import { BadRequestException, ServiceUnavailableException } from '@nestjs/common';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { deflateSync } from 'zlib';
+import { GeoTiffTile } from '../src/modules/terrain/geotiff-tile';
+import { HgtTile, parseHgtTileName } from '../src/modules/terrain/hgt-tile';
+import { TerrainController } from '../src/modules/terrain/terrain.controller';
+import { TerrainService } from '../src/modules/terrain/terrain.service';
+
+const HGT_SIZE = 11;
+
+function buildHgt(elevation: (row: number, col: number) => number): Buffer {
+  const buffer = Buffer.alloc(HGT_SIZE * HGT_SIZE * 2);
+  for (let row = 0; row < HGT_SIZE; row += 1) {
+    for (let col = 0; col < HGT_SIZE; col += 1) {
+      buffer.writeInt16BE(elevation(row, col), (row * HGT_SIZE + col) * 2);
+    }
+  }
+  return buffer;
+}
+
+// Minimal little-endian single-strip int16 GeoTIFF (pixel-is-area, EPSG:4326-style georeferencing).
+function buildGeoTiff(options: {
+  width: number;
+  height: number;
+  values: number[];
+  west: number;
+  north: number;
+  pixel: number;
+  deflate?: boolean;
+}): Buffer {
+  const { width, height, values, west, north, pixel, deflate } = options;
+  const raw = Buffer.alloc(width * height * 2);
+  values.forEach((value, index) => {
+    const col = index % width;
+    const delta = deflate && col > 0 ? value - values[index - 1] : value;
+    raw.writeInt16LE(delta, index * 2);
+  });
+  const strip = deflate ? deflateSync(raw) : raw;
+
+  type Entry = { tag: number; type: number; count: number; data: Buffer };
+  const shorts = (...items: number[]) => {
+    const data = Buffer.alloc(items.length * 2);
+    items.forEach((item, index) => data.writeUInt16LE(item, index * 2));
+    return data;
+  };
+  const longs = (...items: number[]) => {
+    const data = Buffer.alloc(items.length * 4);
+    items.forEach((item, index) => data.writeUInt32LE(item, index * 4));
+    return data;
+  };
+  const doubles = (...items: number[]) => {
+    const data = Buffer.alloc(items.length * 8);
+    items.forEach((item, index) => data.writeDoubleLE(item, index * 8));
+    return data;
+  };
+
+  const entries: Entry[] = [
+    { tag: 256, type: 3, count: 1, data: shorts(width) },
+    { tag: 257, type: 3, count: 1, data: shorts(height) },
+    { tag: 258, type: 3, count: 1, data: shorts(16) },
+    { tag: 259, type: 3, count: 1, data: shorts(deflate ? 8 : 1) },
+    { tag: 273, type: 4, count: 1, data: longs(0) },
+    { tag: 277, type: 3, count: 1, data: shorts(1) },
+    { tag: 278, type: 3, count: 1, data: shorts(height) },
+    { tag: 279, type: 4, count: 1, data: longs(strip.length) },
+    { tag: 317, type: 3, count: 1, data: shorts(deflate ? 2 : 1) },
+    { tag: 339, type: 3, count: 1, data: shorts(2) },
+    { tag: 33550, type: 12, count: 3, data: doubles(pixel, pixel, 0) },
+    { tag: 33922, type: 12, count: 6, data: doubles(0, 0, 0, west, north, 0) },
+    { tag: 34735, type: 3, count: 12, data: shorts(1, 1, 0, 2, 1024, 0, 1, 2, 1025, 0, 1, 1) },
+    { tag: 42113, type: 2, count: 6, data: Buffer.from('-9999\0', 'ascii') }
+  ];
+
+  const ifdOffset = 8;
+  const ifdSize = 2 + entries.length * 12 + 4;
+  let dataOffset = ifdOffset + ifdSize;
+  const ifd = Buffer.alloc(ifdSize);
+  ifd.writeUInt16LE(entries.length, 0);
+  const extra: Buffer[] = [];
+  entries.forEach((entry, index) => {
+    const base = 2 + index * 12;
+    ifd.writeUInt16LE(entry.tag, base);
+    ifd.writeUInt16LE(entry.type, base + 2);
+    ifd.writeUInt32LE(entry.count, base + 4);
+    if (entry.data.length <= 4) {
+      entry.data.copy(ifd, base + 8);
+    } else {
+      ifd.writeUInt32LE(dataOffset, base + 8);
+      extra.push(entry.data);
+      dataOffset += entry.data.length;
+    }
+  });
+  // Strip data goes last; patch its offset now that the layout is known.
+  const stripOffsetEntry = entries.findIndex((entry) => entry.tag === 273);
+  ifd.writeUInt32LE(dataOffset, 2 + stripOffsetEntry * 12 + 8);
+
+  const header = Buffer.from([0x49, 0x49, 42, 0, ifdOffset, 0, 0, 0]);
+  return Buffer.concat([header, ifd, ...extra, strip]);
+}
+
+describe('Terrain elevation tiles', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'loramapr-terrain-'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('parses SRTM tile names and interpolates .hgt samples', () => {
+    expect(parseHgtTileName('N52E013.hgt')).toEqual({ lat: 52, lon: 13 });
+    expect(parseHgtTileName('s33w071.HGT')).toEqual({ lat: -33, lon: -71 });
+    expect(parseHgtTileName('N52E013.tif')).toBeNull();
+
+    const path = join(dir, 'N52E013.hgt');
+    writeFileSync(path, buildHgt((row, col) => (row === 0 && col === 0 ? -32768 : row * 10 + col)));
+    const tile = new HgtTile(path, { lat: 52, lon: 13 });
+
+    expect(tile.elevationAt(52.85, 13.35)).toBeCloseTo(18.5, 5);
+    // The void north-west corner is skipped and the remaining weights renormalized.
+    expect(tile.elevationAt(52.95, 13.05)).toBeCloseTo((1 + 10 + 11) / 3, 5);
+    tile.close();
+  });
+
+  it('reads uncompressed and deflate GeoTIFF rasters with nodata', () => {
+    const width = 4;
+    const height = 3;
+    const values = Array.from({ length: width * height }, (_, index) => 100 + index * 7);
+    values[5] = -9999;
+
+    for (const deflate of [false, true]) {
+      const path = join(dir, `dem-${deflate ? 'deflate' : 'raw'}.tif`);
+      writeFileSync(
+        path,
+        buildGeoTiff({ width, height, values, west: 13, north: 53, pixel: 0.25, deflate })
+      );
+      const tile = new GeoTiffTile(path);
+
+      expect(tile.bounds).toEqual({ minLon: 13, maxLon: 14, maxLat: 53, minLat: 52.25 });
+      // Pixel centers: column 2, row 0 sits at 13.625, 52.875.
+      expect(tile.elevationAt(52.875, 13.625)).toBeCloseTo(114, 5);
+      expect(tile.elevationAt(52.875, 13.75)).toBeCloseTo((114 + 121) / 2, 5);
+      expect(tile.elevationAt(52.375, 13.375)).toBeCloseTo(163, 5);
+      // Halfway between the nodata pixel and its neighbour only the neighbour counts.
+      expect(tile.elevationAt(52.625, 13.5)).toBeCloseTo(142, 5);
+      tile.close();
+    }
+  });
+});
+
+describe('TerrainService getMeasurementProfile', () => {
+  const measurementId = '56f46f26-ee3e-4438-aace-be1f9b69de7c';
+  const home = { lat: 52.5, lon: 13.1 };
+  let dir: string;
+  let previousTerrainDir: string | undefined;
+
+  const buildService = (measurement: Record<string, unknown> | null, config: unknown = home) =>
+    new TerrainService({
+      measurement: { findUnique: jest.fn().mockResolvedValue(measurement) },
+      deviceAutoSessionConfig: {
+        findUnique: jest
+          .fn()
+          .mockResolvedValue(config ? { homeLat: home.lat, homeLon: home.lon } : null)
+      }
+    } as any);
+
+  beforeEach(() => {
+    previousTerrainDir = process.env.TERRAIN_DIR;
+    dir = mkdtempSync(join(tmpdir(), 'loramapr-terrain-'));
+    process.env.TERRAIN_DIR = dir;
+  });
+
+  afterEach(() => {
+    process.env.TERRAIN_DIR = previousTerrainDir;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('flags a ridge between home and the point as an obstruction', async () => {
+    // Column 2 (lon 13.2) is a 400 m ridge on otherwise flat 100 m terrain.
+    writeFileSync(join(dir, 'N52E013.hgt'), buildHgt((_, col) => (col === 2 ? 400 : 100)));
+    const service = buildService({
+      id: measurementId,
+      deviceId: 'device-1',
+      lat: 52.5,
+      lon: 13.4,
+      freq: 868100000
+    });
+
+    const profile = await service.getMeasurementProfile({
+      measurementId,
+      homeAntennaM: 2,
+      pointAntennaM: 1,
+      samples: 64
+    });
+
+    expect(profile.home).toEqual(expect.objectContaining({ source: 'config', groundElevationM: 100 }));
+    expect(profile.frequencyMhz).toBeCloseTo(868.1, 5);
+    expect(profile.frequencySource).toBe('measurement');
+    expect(profile.samples).toHaveLength(64);
+    expect(profile.summary.lineOfSight).toBe('obstructed');
+    expect(profile.summary.minClearanceM).toBeLessThan(-250);
+    expect(profile.missingTiles).toEqual([]);
+    service.onModuleDestroy();
+  });
+
+  it('separates Fresnel intrusion from clear paths using antenna heights', async () => {
+    writeFileSync(join(dir, 'N52E013.hgt'), buildHgt(() => 100));
+    const service = buildService({ id: measurementId, deviceId: 'device-1', lat: 52.5, lon: 13.2, freq: null });
+
+    const low = await service.getMeasurementProfile({
+      measurementId,
+      homeAntennaM: 2,
+      pointAntennaM: 1,
+      samples: 32
+    });
+    expect(low.frequencySource).toBe('default');
+    expect(low.summary.lineOfSight).toBe('fresnelPartial');
+    const middle = low.samples[16];
+    expect(middle.earthBulgeM).toBeGreaterThan(0.5);
+    expect(middle.fresnelRadiusM).toBeGreaterThan(20);
+
+    const high = await service.getMeasurementProfile({
+      measurementId,
+      frequencyMhz: 915,
+      homeAntennaM: 60,
+      pointAntennaM: 60,
+      samples: 32
+    });
+    expect(high.frequencySource).toBe('query');
+    expect(high.summary.lineOfSight).toBe('clear');
+    expect(high.summary.minFresnelClearance).toBeGreaterThan(0.6);
+    service.onModuleDestroy();
+  });
+
+  it('reports missing tiles and requires a home location and terrain directory', async () => {
+    writeFileSync(join(dir, 'N52E013.hgt'), buildHgt(() => 100));
+    const measurement = { id: measurementId, deviceId: 'device-1', lat: 52.5, lon: 14.05, freq: null };
+
+    const partial = await buildService(measurement).getMeasurementProfile({
+      measurementId,
+      homeAntennaM: 2,
+      pointAntennaM: 1,
+      samples: 32
+    });
+    expect(partial.summary.lineOfSight).toBe('unknown');
+    expect(partial.summary.missingSamples).toBeGreaterThan(0);
+    expect(partial.missingTiles).toEqual(['N52E014']);
+
+    await expect(
+      buildService(measurement, null).getMeasurementProfile({
+        measurementId,
+        homeAntennaM: 2,
+        pointAntennaM: 1,
+        samples: 32
+      })
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    process.env.TERRAIN_DIR = '';
+    await expect(
+      buildService(measurement).getMeasurementProfile({
+        measurementId,
+        homeAntennaM: 2,
+        pointAntennaM: 1,
+        samples: 32
+      })
+    ).rejects.toBeInstanceOf(ServiceUnavailableException);
+  });
+});
+
+describe('TerrainController getProfile', () => {
+  it('validates parameters and applies defaults', async () => {
+    const getMeasurementProfile = jest.fn().mockResolvedValue({});
+    const controller = new TerrainController({ getMeasurementProfile } as any);
+    const measurementId = '56f46f26-ee3e-4438-aace-be1f9b69de7c';
+
+    await expect(controller.getProfile({})).rejects.toBeInstanceOf(BadRequestException);
+    await expect(controller.getProfile({ measurementId: 'abc' })).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+    await expect(controller.getProfile({ measurementId, homeLat: '52.5' })).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+    await expect(controller.getProfile({ measurementId, freqMhz: '868000000' })).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+    await expect(controller.getProfile({ measurementId, samples: '4' })).rejects.toBeInstanceOf(
+      BadRequestException
+    );
+    expect(getMeasurementProfile).not.toHaveBeenCalled();
+
+    await controller.getProfile({ measurementId });
+    expect(getMeasurementProfile).toHaveBeenLastCalledWith({
+      measurementId,
+      home: undefined,
+      frequencyMhz: undefined,
+      homeAntennaM: 2,
+      pointAntennaM: 1,
+      samples: 256
+    });
+
+    await controller.getProfile({
+      measurementId,
+      homeLat: '52.5',
+      homeLon: '13.1',
+      freqMhz: '915',
+      homeAntennaM: '12',
+      samples: '128'
+    });
+    expect(getMeasurementProfile).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        home: { lat: 52.5, lon: 13.1 },
+        frequencyMhz: 915,
+        homeAntennaM: 12,
+        samples: 128
+      })
+    );
+  });
+});
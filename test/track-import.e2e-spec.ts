@@ -0,0 +1,213 @@
+import {
+  buildTrackImportPlan,
+  parseGpxTrack,
+  parsePacketLog,
+  TrackImportError
+} from '../src/modules/session-import/track-import';
+import { SessionImportService } from '../src/modules/session-import/session-import.service';
+
+const GPX = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Phone" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk><name>Walk</name><trkseg>
+    <trkpt lon="13.402" lat="52.502"><ele>40</ele><time>2026-03-01T10:00:20Z</time></trkpt>
+    <trkpt lat="52.500" lon="13.400">
+      <ele>30</ele>
+      <time>2026-03-01T10:00:00Z</time>
+      <hdop>1.5</hdop>
+      <sat>8</sat>
+    </trkpt>
+    <trkpt lat="52.600" lon="13.500" />
+    <trkpt lat='52.504' lon='13.404'><time>2026-03-01T10:02:00Z</time></trkpt>
+  </trkseg></trk>
+</gpx>`;
+
+function logLine(record: Record<string, unknown>): string {
+  return JSON.stringify(record);
+}
+
+describe('parseGpxTrack', () => {
+  it('reads timed points in time order and skips untimed ones', () => {
+    const points = parseGpxTrack(GPX);
+
+    expect(points.map((point) => point.capturedAt.toISOString())).toEqual([
+      '2026-03-01T10:00:00.000Z',
+      '2026-03-01T10:00:20.000Z',
+      '2026-03-01T10:02:00.000Z'
+    ]);
+    expect(points[0]).toEqual({
+      capturedAt: new Date('2026-03-01T10:00:00Z'),
+      lat: 52.5,
+      lon: 13.4,
+      altitude: 30,
+      hdop: 1.5,
+      satsInView: 8
+    });
+    expect(points[2].altitude).toBeNull();
+  });
+
+  it('rejects files that are not GPX or carry no timed points', () => {
+    expect(() => parseGpxTrack('{"type":"FeatureCollection"}')).toThrow(TrackImportError);
+    expect(() => parseGpxTrack('<gpx><trk><trkseg><trkpt lat="1" lon="2"/></trkseg></trk></gpx>')).toThrow(
+      'GPX file has no track points with timestamps'
+    );
+  });
+});
+
+describe('parsePacketLog', () => {
+  it('reads Meshtastic packet dicts and counts unreadable lines', () => {
+    const log = [
+      logLine({
+        from: 0xabcd1234,
+        to: 0xffffffff,
+        rxTime: 1772359210,
+        rxRssi: -97.4,
+        rxSnr: 5.25,
+        hopLimit: 2,
+        hopStart: 3,
+        decoded: { portnum: 'TEXT_MESSAGE_APP' }
+      }),
+      'not json',
+      logLine({ packet: { fromId: '!00000001', rx_time: 1772359215, rx_snr: -1 }, receiver: '!gw000001' }),
+      logLine({ fromId: '!00000002' }),
+      ''
+    ].join('\n');
+
+    const { packets, skippedLineCount } = parsePacketLog(log);
+
+    expect(skippedLineCount).toBe(2);
+    expect(packets).toHaveLength(2);
+    expect(packets[0]).toMatchObject({
+      loggedAt: new Date(1772359210 * 1000),
+      fromId: '!abcd1234',
+      toId: '^all',
+      rssi: -97,
+      snr: 5.25,
+      hopLimit: 2,
+      hopStart: 3,
+      gatewayId: null
+    });
+    expect(packets[1]).toMatchObject({ fromId: '!00000001', snr: -1, rssi: null, gatewayId: '!gw000001' });
+  });
+});
+
+describe('buildTrackImportPlan', () => {
+  const track = parseGpxTrack(GPX);
+  const at = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+
+  it('uses the track points when there is no packet log', () => {
+    const plan = buildTrackImportPlan(track, null, {
+      clockOffsetSeconds: 0,
+      interpolation: 'linear',
+      maxGapSeconds: 60
+    });
+
+    expect(plan.items).toHaveLength(3);
+    expect(plan.items.every((item) => item.packet === null)).toBe(true);
+  });
+
+  it('interpolates packet positions after applying the clock offset', () => {
+    const log = parsePacketLog(
+      [
+        // Logger clock runs 30 s behind the phone.
+        logLine({ fromId: '!node', rxTime: at('2026-03-01T09:59:40Z'), rxRssi: -90 }),
+        logLine({ fromId: '!node', rxTime: at('2026-03-01T09:59:35Z'), rxRssi: -91 }),
+        logLine({ fromId: '!other', rxTime: at('2026-03-01T09:59:40Z') }),
+        logLine({ fromId: '!node', rxTime: at('2026-03-01T10:10:00Z') })
+      ].join('\n')
+    );
+
+    const plan = buildTrackImportPlan(track, log, {
+      clockOffsetSeconds: 30,
+      interpolation: 'linear',
+      maxGapSeconds: 60,
+      fromId: '!node'
+    });
+
+    expect(plan.otherSenderCount).toBe(1);
+    expect(plan.outsideTrackCount).toBe(1);
+    expect(plan.senders).toEqual([
+      { fromId: '!node', count: 3 },
+      { fromId: '!other', count: 1 }
+    ]);
+    expect(plan.items.map((item) => item.capturedAt.toISOString())).toEqual([
+      '2026-03-01T10:00:05.000Z',
+      '2026-03-01T10:00:10.000Z'
+    ]);
+    expect(plan.items[0].lat).toBeCloseTo(52.5005, 6);
+    expect(plan.items[1].lat).toBeCloseTo(52.501, 6);
+    expect(plan.items[1].lon).toBeCloseTo(13.401, 6);
+    expect(plan.items[1].altitude).toBeCloseTo(35, 6);
+    expect(plan.items[1].packet?.rssi).toBe(-90);
+  });
+
+  it('snaps to the nearest point and drops packets in long track gaps', () => {
+    const log = parsePacketLog(
+      [
+        logLine({ fromId: '!node', rxTime: at('2026-03-01T10:00:06Z') }),
+        logLine({ fromId: '!node', rxTime: at('2026-03-01T10:01:10Z') })
+      ].join('\n')
+    );
+
+    const plan = buildTrackImportPlan(track, log, {
+      clockOffsetSeconds: 0,
+      interpolation: 'nearest',
+      maxGapSeconds: 30
+    });
+
+    expect(plan.items).toHaveLength(1);
+    expect(plan.items[0]).toMatchObject({ lat: 52.5, lon: 13.4, satsInView: 8 });
+    expect(plan.outsideTrackCount).toBe(1);
+  });
+});
+
+describe('SessionImportService.create', () => {
+  it('ingests long tracks in chunks and keeps the per-point measurement ids', async () => {
+    const start = Date.parse('2026-03-01T10:00:00Z');
+    const points = Array.from(
+      { length: 2500 },
+      (_, index) =>
+        `<trkpt lat="52.5" lon="${(13.4 + index * 0.0001).toFixed(4)}"><time>${new Date(
+          start + index * 1000
+        ).toISOString()}</time></trkpt>`
+    );
+    const gpx = `<gpx><trk><trkseg>${points.join('')}</trkseg></trk></gpx>`;
+    const log = points
+      .map((_, index) => logLine({ fromId: '!node', rxTime: Math.floor(start / 1000) + index, rxRssi: -90 }))
+      .join('\n');
+
+    let nextId = 0;
+    const measurementsService = {
+      ingestCanonical: jest.fn(async (_deviceUid: string, items: unknown[]) => {
+        const measurementIds = items.map(() => `m-${nextId++}`);
+        return { inserted: items.length, deviceId: 'device-1', measurementIds };
+      })
+    };
+    const prisma = {
+      device: {
+        findUnique: jest.fn(async () => null),
+        upsert: jest.fn(async () => ({ id: 'device-1', lastSeenAt: null }))
+      },
+      session: { create: jest.fn(async () => ({ id: 'session-1', name: null })), delete: jest.fn() },
+      meshtasticRx: { createMany: jest.fn(async ({ data }: { data: unknown[] }) => ({ count: data.length })) }
+    };
+    const service = new SessionImportService(prisma as any, measurementsService as any);
+
+    const result = await service.create({
+      gpx,
+      log,
+      deviceUid: '!node',
+      clockOffsetSeconds: 0,
+      interpolation: 'linear',
+      maxGapSeconds: 60
+    });
+
+    expect(result.measurementCount).toBe(2500);
+    expect(measurementsService.ingestCanonical.mock.calls.map((call) => call[1].length)).toEqual([1000, 1000, 500]);
+    const meshtasticIds = prisma.meshtasticRx.createMany.mock.calls.flatMap((call) =>
+      call[0].data.map((row: any) => row.measurementId)
+    );
+    expect(meshtasticIds).toHaveLength(2500);
+    expect(meshtasticIds[2499]).toBe('m-2499');
+    expect(prisma.session.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+import { BadRequestException } from '@nestjs/common';
+import { EventEmitter } from 'events';
+import { ExportController } from '../src/modules/export/export.controller';
+import { MeasurementExportRow } from '../src/modules/export/measurement-export';
+import { createTtnMapperEncoder, toTtnMapperRecords } from '../src/modules/export/ttnmapper';
+
+function buildRow(index: number, overrides: Partial<MeasurementExportRow> = {}): MeasurementExportRow {
+  return {
+    id: `00000000-0000-0000-0000-${String(index).padStart(12, '0')}`,
+    capturedAt: new Date(Date.UTC(2026, 2, 1, 10, 0, index)),
+    deviceId: 'device-1',
+    sessionId: 'session-1',
+    lat: 52.5,
+    lon: 13.4,
+    alt: 12,
+    altitude: null,
+    hdop: 0.9,
+    satsInView: 9,
+    rssi: -101,
+    snr: 5,
+    sf: 9,
+    bw: 125000,
+    freq: 868100000,
+    gatewayId: 'gw-1',
+    source: 'lorawan',
+    device: { deviceUid: '70B3D57ED0000001' },
+    meshtasticRx: null,
+    rxMetadataRows: [
+      {
+        gatewayId: 'gw-1',
+        rssi: -101,
+        snr: 5,
+        channelIndex: 2,
+        time: null,
+        fineTimestamp: null,
+        receivedAt: new Date('2026-03-01T10:00:03.000Z')
+      },
+      {
+        gatewayId: 'gw-2',
+        rssi: -117,
+        snr: -6.5,
+        channelIndex: null,
+        time: null,
+        fineTimestamp: null,
+        receivedAt: new Date('2026-03-01T10:00:03.000Z')
+      }
+    ],
+    ...overrides
+  };
+}
+
+describe('TTN Mapper export', () => {
+  it('expands a measurement into one record per gateway with TTN Mapper units', () => {
+    const records = toTtnMapperRecords(buildRow(1), 'roof antenna');
+
+    expect(records).toEqual([
+      {
+        time: '2026-03-01T10:00:01.000Z',
+        nodeaddr: '70B3D57ED0000001',
+        gwaddr: 'gw-1',
+        modulation: 'LORA',
+        datarate: 'SF9BW125',
+        snr: 5,
+        rssi: -101,
+        freq: 868.1,
+        lat: 52.5,
+        lon: 13.4,
+        alt: 12,
+        hdop: 0.9,
+        sats: 9,
+        experiment: 'roof antenna'
+      },
+      expect.objectContaining({ gwaddr: 'gw-2', rssi: -117, snr: -6.5 })
+    ]);
+  });
+
+  it('falls back to the measurement gateway and skips rows without one', () => {
+    const legacy = buildRow(2, { rxMetadataRows: [], rssi: -99, snr: 1.5 });
+    const noGateway = buildRow(3, { rxMetadataRows: [], gatewayId: null });
+
+    expect(toTtnMapperRecords(legacy)).toEqual([
+      expect.objectContaining({ gwaddr: 'gw-1', rssi: -99, snr: 1.5, experiment: null })
+    ]);
+    expect(toTtnMapperRecords(noGateway)).toEqual([]);
+  });
+
+  it('writes CSV lines per gateway and a JSON array across rows', () => {
+    const csv = createTtnMapperEncoder('csv');
+    const csvBody = csv.start + csv.encode(buildRow(1), 0);
+    const lines = csvBody.trimEnd().split('\n');
+
+    expect(lines[0]).toBe('time,nodeaddr,gwaddr,modulation,datarate,snr,rssi,freq,lat,lon,alt,hdop,sats,experiment');
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe('2026-03-01T10:00:01.000Z,70B3D57ED0000001,gw-2,LORA,SF9BW125,-6.5,-117,868.1,52.5,13.4,12,0.9,9,');
+
+    const json = createTtnMapperEncoder('json');
+    const jsonBody =
+      json.start +
+      json.encode(buildRow(1, { rxMetadataRows: [], gatewayId: null }), 0) +
+      json.encode(buildRow(2), 1) +
+      json.end;
+    expect(JSON.parse(jsonBody).map((record: { gwaddr: string }) => record.gwaddr)).toEqual(['gw-1', 'gw-2']);
+    const empty = createTtnMapperEncoder('json');
+    expect(JSON.parse(empty.start + empty.end)).toEqual([]);
+  });
+
+  it('streams only LoRaWAN measurements of the session', async () => {
+    const exportService = {
+      assertScopeExists: jest.fn(async () => undefined),
+      iterateMeasurements: jest.fn(async function* () {
+        yield [buildRow(1)];
+      })
+    };
+    const controller = new ExportController({} as any, exportService as any);
+    const res: any = new EventEmitter();
+    res.headers = {} as Record<string, string>;
+    res.chunks = [] as string[];
+    res.setHeader = (name: string, value: string) => {
+      res.headers[name] = value;
+    };
+    res.status = () => res;
+    res.write = (chunk: string) => res.chunks.push(chunk) > 0;
+    res.end = (chunk?: string) => {
+      if (chunk) {
+        res.chunks.push(chunk);
+      }
+    };
+
+    await controller.exportSessionTtnMapperJson('session-1', { experiment: ' test ' }, res);
+
+    expect(exportService.iterateMeasurements).toHaveBeenCalledWith({
+      sessionId: 'session-1',
+      source: 'lorawan'
+    });
+    expect(res.headers['Content-Disposition']).toBe(
+      'attachment; filename="ttnmapper-session-session-1.json"'
+    );
+    const records = JSON.parse(res.chunks.join(''));
+    expect(records).toHaveLength(2);
+    expect(records[0].experiment).toBe('test');
+
+    await expect(
+      controller.exportSessionTtnMapperCsv('session-1', { experiment: 'x'.repeat(101) }, res)
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
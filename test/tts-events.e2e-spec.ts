@@ -0,0 +1,221 @@
+import { BadRequestException } from '@nestjs/common';
+import { WebhookEventSource } from '@prisma/client';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { LorawanController } from '../src/modules/lorawan/lorawan.controller';
+import { LorawanService } from '../src/modules/lorawan/lorawan.service';
+import {
+  getTtsEventType,
+  parseTtsEvent,
+  type TtsLocationSolved
+} from '../src/modules/lorawan/tts-event.schema';
+import { normalizeTtsLocationSolvedToMeasurement } from '../src/modules/lorawan/tts-normalize';
+import { parseTtsUplink } from '../src/modules/lorawan/tts-uplink.schema';
+import { deriveTtsEventId, deriveUplinkId } from '../src/modules/lorawan/uplink-id';
+
+function loadFixture(name: string): Record<string, any> {
+  const raw = readFileSync(join(__dirname, 'fixtures', 'tts', name), 'utf8');
+  return JSON.parse(raw) as Record<string, any>;
+}
+
+const DEVICE = { dev_eui: 'A1B2C3D4E5F60123' };
+
+describe('TTS event messages', () => {
+  it('recognizes non-uplink message types and leaves uplinks alone', () => {
+    expect(getTtsEventType(loadFixture('location_solved.json'))).toBe('location_solved');
+    expect(getTtsEventType({ end_device_ids: DEVICE, join_accept: {} })).toBe('join_accept');
+    expect(getTtsEventType({ end_device_ids: DEVICE, downlink_nack: {} })).toBe('downlink_nack');
+    expect(getTtsEventType(loadFixture('uplink_with_gps.json'))).toBeNull();
+    expect(getTtsEventType({ end_device_ids: DEVICE, service_data: {} })).toBeNull();
+  });
+
+  it('uses the solved position with the time and radio data of the uplink it was solved for', () => {
+    const solved = parseTtsEvent('location_solved', loadFixture('location_solved.json')) as TtsLocationSolved;
+    const uplink = parseTtsUplink(loadFixture('uplink_missing_gps.json'));
+
+    const result = normalizeTtsLocationSolvedToMeasurement(solved, uplink);
+    expect(result.ok).toBe(true);
+    if (!result.ok) {
+      return;
+    }
+    expect(result.item).toMatchObject({
+      deviceUid: 'A1B2C3D4E5F60123',
+      capturedAt: '2026-02-02T20:00:00.000Z',
+      lat: 37.77493,
+      lon: -122.41942,
+      alt: 16,
+      locationSource: 'SOURCE_GPS',
+      gatewayId: 'gw-east',
+      rssi: -95,
+      sf: 7
+    });
+
+    const standalone = normalizeTtsLocationSolvedToMeasurement(solved, null);
+    expect(standalone.ok && standalone.item).toMatchObject({
+      capturedAt: '2026-02-02T20:00:03.000Z',
+      lat: 37.77493
+    });
+    expect(standalone.ok && standalone.item.gatewayId).toBeUndefined();
+  });
+
+  it('derives stable ids that differ per message type', () => {
+    const payload = loadFixture('location_solved.json');
+    const id = deriveTtsEventId('location_solved', payload);
+    expect(id).toMatch(/^[0-9a-f]{64}$/);
+    expect(deriveTtsEventId('location_solved', payload)).toBe(id);
+    expect(deriveTtsEventId('join_accept', payload)).not.toBe(id);
+  });
+});
+
+describe('LorawanController TTS event routing', () => {
+  it('queues typed events next to uplinks and rejects malformed event bodies', async () => {
+    const lorawanService = {
+      enqueueUplink: jest.fn(async () => undefined),
+      enqueueTtsEvent: jest.fn(async () => undefined)
+    };
+    const controller = new LorawanController(lorawanService as any);
+
+    await expect(controller.uplink(loadFixture('location_solved.json'))).resolves.toEqual({
+      status: 'ok'
+    });
+    await expect(
+      controller.uplink({
+        received_at: '2026-02-02T20:00:04.000Z',
+        end_device_ids: DEVICE,
+        downlink_failed: { error: { name: 'no_device_session' } }
+      })
+    ).resolves.toEqual({ status: 'ok' });
+    expect(lorawanService.enqueueTtsEvent).toHaveBeenNthCalledWith(
+      1,
+      'location_solved',
+      expect.objectContaining({ location_solved: expect.any(Object) })
+    );
+    expect(lorawanService.enqueueTtsEvent).toHaveBeenNthCalledWith(2, 'downlink_failed', expect.any(Object));
+    expect(lorawanService.enqueueUplink).not.toHaveBeenCalled();
+
+    await expect(
+      controller.uplink({ end_device_ids: DEVICE, location_solved: { location: {} } })
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
+
+describe('LorawanService location_solved ordering', () => {
+  type StoredEvent = {
+    id: string;
+    packetId: string;
+    eventType: string;
+    payloadJson: Record<string, any>;
+    processedAt: Date | null;
+    error: string | null;
+  };
+
+  // Just enough of the webhook and measurement tables for the worker's lookups.
+  function createHarness() {
+    const events = new Map<string, StoredEvent>();
+    const measurements: Array<{ id: string; sourceEventId: string; item: Record<string, any> }> = [];
+    let nextMeasurement = 0;
+    const prisma = {
+      webhookEvent: {
+        findUnique: jest.fn(async ({ where }: any) =>
+          [...events.values()].find((event) => event.packetId === where.packetId) ?? null
+        ),
+        findMany: jest.fn(async ({ where }: any) =>
+          [...events.values()].filter(
+            (event) =>
+              event.eventType === where.eventType &&
+              event.processedAt !== null &&
+              event.payloadJson.correlation_ids.includes(where.payloadJson.array_contains[0])
+          )
+        ),
+        update: jest.fn(async ({ where, data }: any) => Object.assign(events.get(where.id)!, data))
+      },
+      measurement: {
+        findFirst: jest.fn(
+          async ({ where }: any) =>
+            measurements.find((row) => where.sourceEventId.in.includes(row.sourceEventId)) ?? null
+        )
+      }
+    };
+    const measurementsService = {
+      ingestCanonical: jest.fn(async (_deviceUid: string, items: Array<Record<string, any>>) => {
+        for (const item of items) {
+          const replaced = measurements.findIndex((row) => row.id === item.replacesMeasurementId);
+          const id =
+            replaced >= 0 ? measurements.splice(replaced, 1)[0].id : `measurement-${(nextMeasurement += 1)}`;
+          measurements.push({ id, sourceEventId: item.sourceEventId, item });
+        }
+        return { inserted: items.length };
+      })
+    };
+    const service = new LorawanService(prisma as any, measurementsService as any, {} as any);
+
+    async function deliver(eventType: 'uplink' | 'location_solved', payload: Record<string, any>) {
+      const id = `event-${eventType}`;
+      events.set(id, {
+        id,
+        packetId: eventType === 'uplink' ? deriveUplinkId(payload) : deriveTtsEventId(eventType, payload),
+        eventType,
+        payloadJson: payload,
+        processedAt: null,
+        error: null
+      });
+      await (service as any).processEvent(
+        id,
+        WebhookEventSource.LORAWAN,
+        eventType,
+        DEVICE.dev_eui,
+        payload,
+        new Date(payload.received_at)
+      );
+    }
+
+    return { events, measurements, deliver };
+  }
+
+  const solved = loadFixture('location_solved.json');
+  const uplinkWithoutGps = loadFixture('uplink_missing_gps.json');
+  const uplinkWithGps = {
+    ...uplinkWithoutGps,
+    uplink_message: {
+      ...uplinkWithoutGps.uplink_message,
+      decoded_payload: { lat: 37.7751, lon: -122.419 }
+    }
+  };
+
+  it.each([
+    ['uplink first', ['uplink', 'location_solved']],
+    ['location_solved first', ['location_solved', 'uplink']]
+  ] as const)('keeps one measurement at the GPS position (%s)', async (_name, order) => {
+    const { measurements, deliver } = createHarness();
+
+    for (const eventType of order) {
+      await deliver(eventType, eventType === 'uplink' ? uplinkWithGps : solved);
+    }
+
+    expect(measurements).toHaveLength(1);
+    expect(measurements[0].sourceEventId).toBe('event-uplink');
+    expect(measurements[0].item).toMatchObject({ lat: 37.7751, lon: -122.419, gatewayId: 'gw-east' });
+  });
+
+  it.each([
+    ['uplink first', ['uplink', 'location_solved']],
+    ['location_solved first', ['location_solved', 'uplink']]
+  ] as const)('keeps one solved measurement with the uplink radio data (%s)', async (_name, order) => {
+    const { events, measurements, deliver } = createHarness();
+
+    for (const eventType of order) {
+      await deliver(eventType, eventType === 'uplink' ? uplinkWithoutGps : solved);
+    }
+
+    expect(measurements).toHaveLength(1);
+    expect(measurements[0].sourceEventId).toBe('event-location_solved');
+    expect(measurements[0].item).toMatchObject({
+      capturedAt: '2026-02-02T20:00:00.000Z',
+      lat: 37.77493,
+      gatewayId: 'gw-east',
+      rssi: -95
+    });
+    expect(events.get('event-uplink')?.error).toBe('missing_gps');
+    expect(events.get('event-location_solved')?.error).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import Aedes from 'aedes';
+import { readFileSync } from 'fs';
+import { createServer, type AddressInfo, type Server } from 'net';
+import { connect, type MqttClient } from 'mqtt';
+import { join } from 'path';
+import { TtsMqttService } from '../src/modules/tts-mqtt/tts-mqtt.service';
+
+type Broker = { aedes: Aedes; server: Server };
+
+const fixture = readFileSync(join(__dirname, 'fixtures', 'tts', 'uplink_with_gps.json'), 'utf8');
+
+async function startBroker(port = 0): Promise<Broker & { port: number }> {
+  const aedes = new Aedes();
+  const server = createServer(aedes.handle);
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+  return { aedes, server, port: (server.address() as AddressInfo).port };
+}
+
+async function stopBroker({ aedes, server }: Broker): Promise<void> {
+  await new Promise<void>((resolve) => aedes.close(() => resolve()));
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 25));
+  }
+}
+
+async function publish(port: number, topic: string, payload: string): Promise<void> {
+  const publisher: MqttClient = connect(`mqtt://127.0.0.1:${port}`);
+  await publisher.publishAsync(topic, payload, { qos: 1 });
+  await publisher.endAsync();
+}
+
+describe('TtsMqttService', () => {
+  const env = { ...process.env };
+  let broker: (Broker & { port: number }) | null = null;
+  let service: TtsMqttService | null = null;
+
+  afterEach(async () => {
+    service?.onModuleDestroy();
+    service = null;
+    if (broker) {
+      await stopBroker(broker);
+      broker = null;
+    }
+    process.env = { ...env };
+  });
+
+  it('reports no worker status without a broker url', () => {
+    delete process.env.TTS_MQTT_URL;
+    service = new TtsMqttService({} as any);
+    service.onApplicationBootstrap();
+
+    expect(service.getWorkerStatus()).toBeNull();
+  });
+
+  it('enqueues uplinks from the up topic and drops malformed messages', async () => {
+    broker = await startBroker();
+    process.env.TTS_MQTT_URL = `mqtt://127.0.0.1:${broker.port}`;
+    const lorawanService = { enqueueUplink: jest.fn(async () => undefined) };
+    const subscribed = new Promise<string>((resolve) =>
+      broker!.aedes.once('subscribe', (subscriptions) => resolve(subscriptions[0].topic))
+    );
+    service = new TtsMqttService(lorawanService as any);
+    service.onApplicationBootstrap();
+    await expect(subscribed).resolves.toBe('v3/+/devices/+/up');
+
+    await publish(broker.port, 'v3/coverage-app@ttn/devices/walker-1/up', '{"not": "an uplink"');
+    await publish(broker.port, 'v3/coverage-app@ttn/devices/walker-1/up', fixture);
+    await waitFor(() => lorawanService.enqueueUplink.mock.calls.length > 0);
+
+    expect(lorawanService.enqueueUplink).toHaveBeenCalledTimes(1);
+    expect(lorawanService.enqueueUplink).toHaveBeenCalledWith(
+      expect.objectContaining({ uplink_message: expect.any(Object) })
+    );
+    expect(service.getWorkerStatus()).toEqual({
+      ok: true,
+      lastRunAt: expect.any(Date),
+      lastError: undefined
+    });
+  });
+
+  it('reconnects after the broker goes away', async () => {
+    broker = await startBroker();
+    const port = broker.port;
+    process.env.TTS_MQTT_URL = `mqtt://127.0.0.1:${port}`;
+    service = new TtsMqttService({ enqueueUplink: jest.fn() } as any);
+    service.onApplicationBootstrap();
+    await waitFor(() => service!.getWorkerStatus()?.ok === true);
+
+    await stopBroker(broker);
+    broker = null;
+    await waitFor(() => service!.getWorkerStatus()?.ok === false);
+    expect(service.getWorkerStatus()?.lastError).toBeDefined();
+
+    broker = await startBroker(port);
+    await waitFor(() => service!.getWorkerStatus()?.ok === true, 10_000);
+  }, 15_000);
+});